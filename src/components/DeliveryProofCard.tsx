@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, StyleSheet, ActivityIndicator, LayoutChangeEvent } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { DeliveryProof, Order } from '../types';
+import { useOrders } from '../context/OrderContext';
+import { SignatureView } from './SignaturePad';
+
+interface DeliveryProofCardProps {
+  order: Order;
+  // Change to reload the proof, e.g. the order's updated_at
+  refreshKey?: string;
+}
+
+function formatDeliveredAt(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-AU', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function DeliveryProofCard({ order, refreshKey }: DeliveryProofCardProps) {
+  const { getDeliveryProof } = useOrders();
+  const [proof, setProof] = useState<DeliveryProof | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getDeliveryProof(order.id).then((data) => {
+      if (!cancelled) {
+        setProof(data);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, refreshKey]);
+
+  if (loading) {
+    return <ActivityIndicator size="small" color={theme.colors.primary} style={styles.loading} />;
+  }
+
+  if (!proof) {
+    return <Text style={styles.emptyText}>No proof of delivery was recorded for this order</Text>;
+  }
+
+  // Lines where the received quantity differs from what was ordered
+  const differences = (order.items || []).filter(
+    (line) => line.received_quantity != null && Number(line.received_quantity) !== Number(line.quantity)
+  );
+
+  return (
+    <View onLayout={(e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width)}>
+      <View style={styles.row}>
+        <Ionicons name="person-outline" size={16} color={theme.colors.textSecondary} />
+        <Text style={styles.rowText}>Received by {proof.received_by}</Text>
+      </View>
+      <View style={styles.row}>
+        <Ionicons name="time-outline" size={16} color={theme.colors.textSecondary} />
+        <Text style={styles.rowText}>{formatDeliveredAt(proof.delivered_at)}</Text>
+      </View>
+
+      {differences.length > 0 ? (
+        <View style={styles.differences}>
+          {differences.map((line) => (
+            <Text key={line.id} style={styles.differenceText}>
+              {line.name}: received {Number(line.received_quantity)} of {Number(line.quantity)} {line.unit || 'each'}
+            </Text>
+          ))}
+        </View>
+      ) : (
+        <View style={styles.row}>
+          <Ionicons name="checkmark-circle-outline" size={16} color={theme.colors.success} />
+          <Text style={styles.rowText}>All lines received in full</Text>
+        </View>
+      )}
+
+      {proof.notes ? <Text style={styles.notes}>{proof.notes}</Text> : null}
+
+      {proof.photo_url ? (
+        <Image source={{ uri: proof.photo_url }} style={styles.photo} resizeMode="cover" />
+      ) : null}
+
+      {proof.signature && width > 0 ? (
+        <View style={styles.signature}>
+          <SignatureView signature={proof.signature} width={width - 2} />
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: theme.spacing.md,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textMuted,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  rowText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  differences: {
+    backgroundColor: theme.colors.background,
+    borderLeftWidth: 3,
+    borderLeftColor: theme.colors.warning,
+    padding: theme.spacing.sm,
+    marginVertical: theme.spacing.xs,
+  },
+  differenceText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  notes: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: theme.spacing.xs,
+  },
+  photo: {
+    width: '100%',
+    height: 200,
+    borderRadius: theme.borderRadius.md,
+    marginTop: theme.spacing.sm,
+    backgroundColor: theme.colors.background,
+  },
+  signature: {
+    marginTop: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.borderLight,
+    borderRadius: theme.borderRadius.md,
+    overflow: 'hidden',
+  },
+});
@@ -15,6 +15,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { theme } from '../theme';
 import { Item, Order, OrderItem } from '../types';
 import { supabase } from '../lib/supabase';
+import { useOrders } from '../context/OrderContext';
+import { useAuth } from '../context/AuthContext';
+import { getItemTaxRate, getLineTax } from '../utils/tax';
 
 interface UnmatchedItem {
   name: string;
@@ -116,7 +119,13 @@ export default function ItemMatchingModal({
   onClose,
   onItemsMatched,
 }: ItemMatchingModalProps) {
+  const { state, getItemPrice, logOrderEvent } = useOrders();
+  const { tenant } = useAuth();
   const unmatchedItems = useMemo(() => parseUnmatchedItems(order.notes), [order.notes]);
+  const orderCustomer = useMemo(
+    () => state.users.find((u) => u.id === order.customer_id) || null,
+    [state.users, order.customer_id]
+  );
 
   const [currentIndex, setCurrentIndex] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
@@ -188,7 +197,10 @@ export default function ItemMatchingModal({
         }
       }
 
-      // Create order item
+      // Create order item at the customer's price
+      const price = getItemPrice(selectedItem, orderCustomer);
+      const lineTotal = Math.round(price.unit_price * currentUnmatched.quantity * 100) / 100;
+      const taxRate = getItemTaxRate(selectedItem, tenant?.settings);
       const newOrderItem: OrderItem = {
         order_id: order.id,
         tenant_id: tenantId,
@@ -196,10 +208,14 @@ export default function ItemMatchingModal({
         name: selectedItem.name,
         quantity: currentUnmatched.quantity,
         unit: 'each',
-        unit_price: selectedItem.wholesale_price || 0,
-        total: (selectedItem.wholesale_price || 0) * currentUnmatched.quantity,
+        unit_price: price.unit_price,
+        total: lineTotal,
+        tax_rate: taxRate,
+        tax_amount: getLineTax(lineTotal, taxRate),
         xero_item_code: selectedItem.xero_item_code || undefined,
         xero_account_code: selectedItem.xero_account_code || undefined,
+        price_source: price.price_source,
+        price_list_id: price.price_list_id,
       };
 
       // Add to database
@@ -212,10 +228,14 @@ export default function ItemMatchingModal({
           name: selectedItem.name,
           quantity: currentUnmatched.quantity,
           unit: 'each',
-          unit_price: selectedItem.wholesale_price || 0,
-          total: (selectedItem.wholesale_price || 0) * currentUnmatched.quantity,
+          unit_price: newOrderItem.unit_price,
+          total: newOrderItem.total,
+          tax_rate: newOrderItem.tax_rate,
+          tax_amount: newOrderItem.tax_amount,
           xero_item_code: selectedItem.xero_item_code,
           xero_account_code: selectedItem.xero_account_code,
+          price_source: price.price_source,
+          price_list_id: price.price_list_id,
         })
         .select()
         .single();
@@ -226,10 +246,8 @@ export default function ItemMatchingModal({
 
       // Update order totals
       const newSubtotal = (order.subtotal || 0) + newOrderItem.total!;
-      const taxRate = selectedItem.tax_rate || 10;
-      const itemTax = (newOrderItem.total! * taxRate) / 100;
-      const newTax = (order.tax || 0) + itemTax;
-      const newTotal = newSubtotal + newTax;
+      const newTax = Math.round(((order.tax || 0) + newOrderItem.tax_amount!) * 100) / 100;
+      const newTotal = newSubtotal + newTax + (order.delivery_fee || 0);
 
       await supabase
         .from('orders')
@@ -240,6 +258,17 @@ export default function ItemMatchingModal({
         })
         .eq('id', order.id);
 
+      logOrderEvent(order, 'items_updated', {
+        changes: [{
+          name: selectedItem.name,
+          procurement_item_id: selectedItem.id,
+          change: 'added',
+          after_quantity: currentUnmatched.quantity,
+          after_unit_price: newOrderItem.unit_price,
+        }],
+        notes: `Matched unmatched line "${currentUnmatched.name}"`,
+      });
+
       // Track matched items
       setMatchedOrderItems(prev => [...prev, { ...newOrderItem, id: insertedItem.id }]);
 
@@ -284,7 +313,7 @@ export default function ItemMatchingModal({
     } finally {
       setProcessing(false);
     }
-  }, [selectedItem, currentUnmatched, currentIndex, unmatchedItems, order, tenantId, matchedOrderItems, onItemsMatched, onClose]);
+  }, [selectedItem, currentUnmatched, currentIndex, unmatchedItems, order, orderCustomer, getItemPrice, logOrderEvent, tenant, tenantId, matchedOrderItems, onItemsMatched, onClose]);
 
   const handleSkip = useCallback(() => {
     if (currentIndex < unmatchedItems.length - 1) {
@@ -350,7 +379,7 @@ export default function ItemMatchingModal({
         <Text style={styles.itemName} numberOfLines={2}>{item.name}</Text>
         <Text style={styles.itemDetails}>
           {item.sku && `SKU: ${item.sku} • `}
-          ${item.wholesale_price?.toFixed(2) || '0.00'}
+          ${getItemPrice(item, orderCustomer).unit_price.toFixed(2)}
           {item.category && ` • ${item.category}`}
         </Text>
       </View>
@@ -454,7 +483,7 @@ export default function ItemMatchingModal({
                 </Text>
                 <Text style={styles.confirmItemName}>{selectedItem?.name}</Text>
                 <Text style={styles.confirmQty}>
-                  Quantity: {currentUnmatched?.quantity} @ ${selectedItem?.wholesale_price?.toFixed(2) || '0.00'} each
+                  Quantity: {currentUnmatched?.quantity} @ ${selectedItem ? getItemPrice(selectedItem, orderCustomer).unit_price.toFixed(2) : '0.00'} each
                 </Text>
 
                 <Text style={styles.confirmQuestion}>
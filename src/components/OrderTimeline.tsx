@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { OrderEvent, OrderEventType } from '../types';
+import { useOrders } from '../context/OrderContext';
+import { getOrderEventTitle, getOrderEventDetails, getOrderEventSourceLabel } from '../utils/orderEvents';
+
+interface OrderTimelineProps {
+  orderId: string;
+  // Change to reload the history, e.g. the order's updated_at
+  refreshKey?: string;
+}
+
+const EVENT_ICONS: Record<OrderEventType, keyof typeof Ionicons.glyphMap> = {
+  created: 'add-circle-outline',
+  status_changed: 'swap-horizontal-outline',
+  items_updated: 'create-outline',
+  updated: 'create-outline',
+  approved: 'checkmark-circle-outline',
+  invoiced: 'document-text-outline',
+  invoice_voided: 'close-circle-outline',
+  credited: 'return-down-back-outline',
+};
+
+function formatEventTime(dateString: string): string {
+  const d = new Date(dateString);
+  return d.toLocaleString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function OrderTimeline({ orderId, refreshKey }: OrderTimelineProps) {
+  const { getOrderEvents } = useOrders();
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getOrderEvents(orderId).then((data) => {
+      if (!cancelled) {
+        setEvents(data);
+        setLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, refreshKey]);
+
+  if (loading) {
+    return <ActivityIndicator size="small" color={theme.colors.primary} style={styles.loading} />;
+  }
+
+  if (events.length === 0) {
+    return <Text style={styles.emptyText}>No history recorded for this order</Text>;
+  }
+
+  return (
+    <View>
+      {events.map((event, index) => {
+        const details = getOrderEventDetails(event);
+        const actorName = event.actor?.full_name || event.actor?.email;
+        return (
+          <View key={event.id} style={styles.eventRow}>
+            <View style={styles.iconColumn}>
+              <Ionicons name={EVENT_ICONS[event.event_type] || 'ellipse-outline'} size={18} color={theme.colors.primary} />
+              {index < events.length - 1 && <View style={styles.connector} />}
+            </View>
+            <View style={styles.eventBody}>
+              <Text style={styles.eventTitle}>{getOrderEventTitle(event)}</Text>
+              <Text style={styles.eventMeta}>
+                {formatEventTime(event.created_at)}
+                {actorName ? ` · ${actorName}` : ''}
+                {` · ${getOrderEventSourceLabel(event.source)}`}
+              </Text>
+              {details.map((line, i) => (
+                <Text key={i} style={styles.eventDetail}>{line}</Text>
+              ))}
+              {event.notes ? <Text style={styles.eventDetail}>{event.notes}</Text> : null}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: theme.spacing.md,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textMuted,
+    paddingVertical: theme.spacing.sm,
+  },
+  eventRow: {
+    flexDirection: 'row',
+  },
+  iconColumn: {
+    width: 24,
+    alignItems: 'center',
+  },
+  connector: {
+    flex: 1,
+    width: 2,
+    backgroundColor: theme.colors.borderLight,
+    marginVertical: 2,
+  },
+  eventBody: {
+    flex: 1,
+    paddingLeft: theme.spacing.sm,
+    paddingBottom: theme.spacing.md,
+  },
+  eventTitle: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  eventMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  eventDetail: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,399 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { theme } from '../theme';
+import { Order, Signature } from '../types';
+import { useOrders } from '../context/OrderContext';
+import SignaturePad from './SignaturePad';
+
+interface ProofOfDeliveryModalProps {
+  visible: boolean;
+  order: Order;
+  customerName: string;
+  // Pre-filled as the person receiving the delivery
+  contactName?: string;
+  onClose: () => void;
+  // Called instead of onClose once the order is delivered
+  onDelivered?: () => void;
+}
+
+function showMessage(title: string, message: string) {
+  if (Platform.OS === 'web') {
+    window.alert(`${title}\n\n${message}`);
+  } else {
+    Alert.alert(title, message);
+  }
+}
+
+export default function ProofOfDeliveryModal({
+  visible,
+  order,
+  customerName,
+  contactName,
+  onClose,
+  onDelivered,
+}: ProofOfDeliveryModalProps) {
+  const { recordDeliveryProof } = useOrders();
+  const lines = (order.items || []).filter((line) => line.id);
+
+  const [receivedBy, setReceivedBy] = useState('');
+  // Quantities as typed, keyed by order_item id
+  const [received, setReceived] = useState<Record<string, string>>({});
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [signature, setSignature] = useState<Signature | null>(null);
+  const [signing, setSigning] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  // Remounts the pad so a reopened modal starts unsigned
+  const [padKey, setPadKey] = useState(0);
+
+  useEffect(() => {
+    if (!visible) return;
+    setReceivedBy(contactName || '');
+    setReceived(Object.fromEntries(lines.map((line) => [line.id!, String(Number(line.quantity))])));
+    setPhotoUri(null);
+    setSignature(null);
+    setNotes('');
+    setPadKey((k) => k + 1);
+  }, [visible, order.id]);
+
+  const adjustQuantity = (lineId: string, delta: number) => {
+    setReceived((prev) => {
+      const current = parseFloat(prev[lineId]) || 0;
+      return { ...prev, [lineId]: String(Math.max(0, current + delta)) };
+    });
+  };
+
+  const takePhoto = async () => {
+    try {
+      // The camera is unavailable on web and simulators; fall back to the library there
+      const permission = Platform.OS === 'web' ? null : await ImagePicker.requestCameraPermissionsAsync();
+      const result =
+        permission?.granted
+          ? await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.6 })
+          : await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['images'], quality: 0.6 });
+
+      if (!result.canceled && result.assets[0]) {
+        setPhotoUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('Image picker error:', error);
+      showMessage('Error', 'Failed to take a photo');
+    }
+  };
+
+  const handleSubmit = async () => {
+    const quantities: Record<string, number> = {};
+    for (const line of lines) {
+      const value = parseFloat(received[line.id!]);
+      if (isNaN(value) || value < 0) {
+        showMessage('Validation', `Enter the quantity received for ${line.name}.`);
+        return;
+      }
+      quantities[line.id!] = value;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await recordDeliveryProof(order.id, {
+        receivedBy,
+        receivedQuantities: quantities,
+        photoUri,
+        signature,
+        notes,
+      });
+
+      if (saved) {
+        if (onDelivered) {
+          onDelivered();
+        } else {
+          onClose();
+        }
+      } else {
+        showMessage('Error', 'Failed to save the proof of delivery. Please try again.');
+      }
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to save the proof of delivery.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const shortLines = lines.filter((line) => {
+    const value = parseFloat(received[line.id!]);
+    return !isNaN(value) && value !== Number(line.quantity);
+  }).length;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View style={styles.headerInfo}>
+              <Text style={styles.title}>Proof of Delivery</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {customerName} · {order.order_number || order.id.substring(0, 8)}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+              <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled" scrollEnabled={!signing}>
+            <Text style={styles.label}>Received Quantities</Text>
+            {lines.map((line) => {
+              const value = received[line.id!] ?? '';
+              const differs = parseFloat(value) !== Number(line.quantity);
+              return (
+                <View key={line.id} style={styles.lineRow}>
+                  <View style={styles.lineInfo}>
+                    <Text style={styles.lineName} numberOfLines={2}>{line.name}</Text>
+                    <Text style={styles.lineMeta}>
+                      Ordered {Number(line.quantity)} {line.unit || 'each'}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => adjustQuantity(line.id!, -1)} style={styles.qtyButton}>
+                    <Ionicons name="remove" size={18} color={theme.colors.textSecondary} />
+                  </TouchableOpacity>
+                  <TextInput
+                    style={[styles.qtyInput, differs && styles.qtyInputChanged]}
+                    value={value}
+                    onChangeText={(text) => setReceived((prev) => ({ ...prev, [line.id!]: text }))}
+                    keyboardType="decimal-pad"
+                    selectTextOnFocus
+                  />
+                  <TouchableOpacity onPress={() => adjustQuantity(line.id!, 1)} style={styles.qtyButton}>
+                    <Ionicons name="add" size={18} color={theme.colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+            {shortLines > 0 && (
+              <Text style={styles.warningText}>
+                {shortLines} line{shortLines === 1 ? '' : 's'} differ{shortLines === 1 ? 's' : ''} from the order
+              </Text>
+            )}
+
+            <Text style={styles.label}>Received By</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Name of the person receiving"
+              placeholderTextColor={theme.colors.textMuted}
+              value={receivedBy}
+              onChangeText={setReceivedBy}
+            />
+
+            <Text style={styles.label}>Photo</Text>
+            {photoUri ? (
+              <View>
+                <Image source={{ uri: photoUri }} style={styles.photo} resizeMode="cover" />
+                <TouchableOpacity onPress={() => setPhotoUri(null)} style={styles.linkButton}>
+                  <Text style={styles.linkText}>Remove photo</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.photoButton} onPress={takePhoto}>
+                <Ionicons name="camera-outline" size={20} color={theme.colors.accent} />
+                <Text style={styles.photoButtonText}>Take Photo</Text>
+              </TouchableOpacity>
+            )}
+
+            <Text style={styles.label}>Signature</Text>
+            <SignaturePad key={padKey} onChange={setSignature} onSigningChange={setSigning} />
+
+            <Text style={styles.label}>Notes</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="e.g. Left at back door, one carton damaged"
+              placeholderTextColor={theme.colors.textMuted}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={theme.colors.white} />
+            ) : (
+              <>
+                <Ionicons name="checkmark-done" size={18} color={theme.colors.white} />
+                <Text style={styles.primaryButtonText}>Mark Delivered</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+    maxHeight: '95%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  headerInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  title: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  subtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  body: {
+    flexGrow: 0,
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.md,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  lineInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  lineName: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+  },
+  lineMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 1,
+  },
+  qtyButton: {
+    padding: theme.spacing.xs,
+  },
+  qtyInput: {
+    width: 56,
+    textAlign: 'center',
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingVertical: theme.spacing.xs,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  qtyInputChanged: {
+    borderColor: theme.colors.warning,
+  },
+  warningText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.warning,
+    marginTop: theme.spacing.xs,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  photo: {
+    width: '100%',
+    height: 180,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.background,
+  },
+  photoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: theme.colors.accent,
+  },
+  photoButtonText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.accent,
+  },
+  linkButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: theme.spacing.xs,
+  },
+  linkText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.danger,
+    fontWeight: theme.fontWeight.medium,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.success,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
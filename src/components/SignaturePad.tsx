@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+import { theme } from '../theme';
+import { Signature, SignaturePoint } from '../types';
+
+interface SignaturePadProps {
+  onChange: (signature: Signature | null) => void;
+  // Let a parent ScrollView stop scrolling while the customer signs
+  onSigningChange?: (signing: boolean) => void;
+  height?: number;
+}
+
+interface SignatureViewProps {
+  signature: Signature;
+  width: number;
+}
+
+const STROKE_WIDTH = 2.5;
+// Points closer than this to the last one are dropped to keep the stroke light
+const MIN_POINT_DISTANCE = 2;
+
+// Strokes are drawn as short rotated bars between points, so no drawing library is needed
+function renderStrokes(strokes: SignaturePoint[][], scale: number) {
+  const segments: React.ReactNode[] = [];
+  strokes.forEach((stroke, s) => {
+    if (stroke.length === 1) {
+      const p = stroke[0];
+      segments.push(
+        <View
+          key={`${s}-dot`}
+          style={[
+            styles.dot,
+            { left: p.x * scale - STROKE_WIDTH / 2, top: p.y * scale - STROKE_WIDTH / 2 },
+          ]}
+        />
+      );
+      return;
+    }
+    for (let i = 1; i < stroke.length; i++) {
+      const a = stroke[i - 1];
+      const b = stroke[i];
+      const dx = (b.x - a.x) * scale;
+      const dy = (b.y - a.y) * scale;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      segments.push(
+        <View
+          key={`${s}-${i}`}
+          style={[
+            styles.segment,
+            {
+              width: length + STROKE_WIDTH / 2,
+              left: (a.x + b.x) / 2 * scale - (length + STROKE_WIDTH / 2) / 2,
+              top: (a.y + b.y) / 2 * scale - STROKE_WIDTH / 2,
+              transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+            },
+          ]}
+        />
+      );
+    }
+  });
+  return segments;
+}
+
+export default function SignaturePad({ onChange, onSigningChange, height = 160 }: SignaturePadProps) {
+  const [strokes, setStrokes] = useState<SignaturePoint[][]>([]);
+  const [width, setWidth] = useState(0);
+  const strokesRef = useRef<SignaturePoint[][]>([]);
+  const sizeRef = useRef({ width: 0, height });
+
+  const update = (next: SignaturePoint[][]) => {
+    strokesRef.current = next;
+    setStrokes(next);
+  };
+
+  const finishStroke = () => {
+    onSigningChange?.(false);
+    const { width: padWidth, height: padHeight } = sizeRef.current;
+    onChange(
+      strokesRef.current.length > 0
+        ? { width: padWidth, height: padHeight, strokes: strokesRef.current }
+        : null
+    );
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (evt) => {
+        onSigningChange?.(true);
+        const { locationX, locationY } = evt.nativeEvent;
+        update([...strokesRef.current, [{ x: locationX, y: locationY }]]);
+      },
+      onPanResponderMove: (evt) => {
+        const { locationX, locationY } = evt.nativeEvent;
+        const current = strokesRef.current;
+        const stroke = current[current.length - 1];
+        if (!stroke) return;
+        const last = stroke[stroke.length - 1];
+        if (Math.abs(locationX - last.x) + Math.abs(locationY - last.y) < MIN_POINT_DISTANCE) return;
+        update([...current.slice(0, -1), [...stroke, { x: locationX, y: locationY }]]);
+      },
+      onPanResponderRelease: finishStroke,
+      onPanResponderTerminate: finishStroke,
+    })
+  ).current;
+
+  const handleLayout = (e: LayoutChangeEvent) => {
+    sizeRef.current = { width: e.nativeEvent.layout.width, height };
+    setWidth(e.nativeEvent.layout.width);
+  };
+
+  const handleClear = () => {
+    update([]);
+    onChange(null);
+  };
+
+  return (
+    <View>
+      <View
+        style={[styles.pad, { height }]}
+        onLayout={handleLayout}
+        {...panResponder.panHandlers}
+      >
+        <View style={[StyleSheet.absoluteFill, styles.overlay]} pointerEvents="none">
+          {strokes.length === 0 && width > 0 && <Text style={styles.placeholder}>Sign here</Text>}
+          {renderStrokes(strokes, 1)}
+        </View>
+        <View style={styles.baseline} pointerEvents="none" />
+      </View>
+      <TouchableOpacity onPress={handleClear} disabled={strokes.length === 0} style={styles.clearBtn}>
+        <Text style={[styles.clearText, strokes.length === 0 && { color: theme.colors.textMuted }]}>
+          Clear signature
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+/**
+ * Read-only signature, scaled to the given width
+ */
+export function SignatureView({ signature, width }: SignatureViewProps) {
+  const scale = signature.width > 0 ? width / signature.width : 1;
+  return (
+    <View style={[styles.view, { width, height: signature.height * scale }]}>
+      {renderStrokes(signature.strokes, scale)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    backgroundColor: theme.colors.white,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    overflow: 'hidden',
+  },
+  overlay: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholder: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textLight,
+  },
+  baseline: {
+    position: 'absolute',
+    left: theme.spacing.lg,
+    right: theme.spacing.lg,
+    bottom: theme.spacing.xl,
+    height: 1,
+    backgroundColor: theme.colors.borderLight,
+  },
+  segment: {
+    position: 'absolute',
+    height: STROKE_WIDTH,
+    borderRadius: STROKE_WIDTH / 2,
+    backgroundColor: theme.colors.text,
+  },
+  dot: {
+    position: 'absolute',
+    width: STROKE_WIDTH,
+    height: STROKE_WIDTH,
+    borderRadius: STROKE_WIDTH / 2,
+    backgroundColor: theme.colors.text,
+  },
+  clearBtn: {
+    alignSelf: 'flex-end',
+    paddingVertical: theme.spacing.xs,
+  },
+  clearText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.accent,
+    fontWeight: theme.fontWeight.medium,
+  },
+  view: {
+    overflow: 'hidden',
+    backgroundColor: theme.colors.white,
+  },
+});
@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import { User, Tenant } from '../types';
+import { User, Tenant, TenantSettings } from '../types';
 import { registerForPushNotifications, clearPushToken } from '../services/notifications';
 
 interface AuthContextType {
@@ -16,6 +16,7 @@ interface AuthContextType {
   allTenants: Tenant[];
   switchTenant: (tenantId: string) => Promise<void>;
   activeTenantId: string | null;
+  updateTenantSettings: (settings: Partial<TenantSettings>) => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -144,6 +145,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setActiveTenantId(tenantId);
   };
 
+  // Merge into the current tenant's settings (owners only, enforced by RLS)
+  const updateTenantSettings = async (settings: Partial<TenantSettings>): Promise<boolean> => {
+    if (!tenant) return false;
+
+    const merged = { ...tenant.settings, ...settings };
+    const { data: tenantData, error } = await supabase
+      .from('tenants')
+      .update({ settings: merged })
+      .eq('id', tenant.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating tenant settings:', error);
+      return false;
+    }
+
+    setTenant(tenantData);
+    return true;
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -157,7 +179,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isMaster,
         allTenants,
         switchTenant,
-        activeTenantId
+        activeTenantId,
+        updateTenantSettings
       }}
     >
       {children}
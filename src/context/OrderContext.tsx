@@ -1,9 +1,30 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from './AuthContext';
-import { Supplier, Item, Order, CartItem, Invoice, OrderStatus, User, OrderItem, CustomerSupplier, Tenant } from '../types';
-import { createXeroInvoice, checkXeroConnection } from '../services/xero';
-import { notifyNewOrder } from '../services/notifications';
+import { Supplier, Item, Order, CartItem, Invoice, OrderStatus, User, OrderItem, CustomerSupplier, Tenant, PriceList, PriceListItem, StandingOrder, StandingOrderItem, DeliveryRun, DeliveryProof, Signature, CreditReasonCode, CustomerStatement, AgedReceivable, CustomerCredit, StockAdjustmentReason, StockMovement, StockReceiptLine, PurchaseOrder, PurchaseOrderLineInput, PurchaseOrderReceiptLine, OrderEvent, OrderEventType, OrderEventSource, OrderLineChange } from '../types';
+import {
+  createXeroInvoice,
+  voidXeroInvoice,
+  createXeroCreditNote,
+  enqueueXeroSync,
+} from '../services/xero';
+import { notifyNewOrder, notifyOrderDelivered } from '../services/notifications';
+import { diffOrderItems, diffOrderFields } from '../utils/orderEvents';
+import { getTransitionError, getEditError, getDeleteError, getLiveInvoice, isVoidInvoice } from '../utils/orderStatus';
+import { resolveItemPrice, priceLine, isCartonLine, PricingCustomer, ResolvedPrice, LinePrice } from '../utils/pricing';
+import { CreditLine, getShortDeliveryLines } from '../utils/creditNotes';
+import {
+  InvoiceMatch,
+  findOrderLine,
+  findPurchaseOrderLine,
+  getMatchTolerance,
+  matchInvoiceToOrder,
+  matchInvoiceToPurchaseOrder,
+} from '../utils/invoiceMatching';
+import { extractSupplierInvoice, ExtractedInvoice } from '../services/documents';
+import { sendPurchaseOrderEmail } from '../services/purchaseOrders';
+import { DEFAULT_TIMEZONE, getDeliveryDateError, getEarliestDeliveryDate, getNextCycleDeliveryDate } from '../utils/deliverySchedule';
+import { getDueDate, getPaymentTerms } from '../utils/paymentTerms';
 
 interface OrderState {
   suppliers: Supplier[];
@@ -14,6 +35,9 @@ interface OrderState {
   users: User[];
   customerSuppliers: CustomerSupplier[]; // Customer's connected suppliers/owners
   connectedTenants: Tenant[]; // Tenant info for connected suppliers
+  priceLists: PriceList[]; // Owner: all tenant lists, customer: lists that apply to them
+  standingOrders: StandingOrder[]; // Owner: all tenant standing orders, customer: their own
+  deliveryRuns: DeliveryRun[]; // Owner only: recent and upcoming runs with their stops
   isLoading: boolean;
   error: string | null;
 }
@@ -29,6 +53,9 @@ type OrderAction =
   | { type: 'SET_USERS'; payload: User[] }
   | { type: 'SET_CUSTOMER_SUPPLIERS'; payload: CustomerSupplier[] }
   | { type: 'SET_CONNECTED_TENANTS'; payload: Tenant[] }
+  | { type: 'SET_PRICE_LISTS'; payload: PriceList[] }
+  | { type: 'SET_STANDING_ORDERS'; payload: StandingOrder[] }
+  | { type: 'SET_DELIVERY_RUNS'; payload: DeliveryRun[] }
   | { type: 'ADD_ORDER'; payload: Order }
   | { type: 'UPDATE_ORDER'; payload: Order }
   | { type: 'ADD_TO_CART'; payload: CartItem }
@@ -52,6 +79,9 @@ const initialState: OrderState = {
   users: [],
   customerSuppliers: [],
   connectedTenants: [],
+  priceLists: [],
+  standingOrders: [],
+  deliveryRuns: [],
   isLoading: true,
   error: null,
 };
@@ -78,6 +108,12 @@ function orderReducer(state: OrderState, action: OrderAction): OrderState {
       return { ...state, customerSuppliers: action.payload };
     case 'SET_CONNECTED_TENANTS':
       return { ...state, connectedTenants: action.payload };
+    case 'SET_PRICE_LISTS':
+      return { ...state, priceLists: action.payload };
+    case 'SET_STANDING_ORDERS':
+      return { ...state, standingOrders: action.payload };
+    case 'SET_DELIVERY_RUNS':
+      return { ...state, deliveryRuns: action.payload };
     case 'ADD_ORDER':
       return { ...state, orders: [action.payload, ...state.orders] };
     case 'UPDATE_ORDER':
@@ -169,36 +205,150 @@ function orderReducer(state: OrderState, action: OrderAction): OrderState {
   }
 }
 
+interface OrderEventDetails {
+  from_status?: OrderStatus | null;
+  to_status?: OrderStatus | null;
+  changes?: OrderLineChange[] | Record<string, { before: unknown; after: unknown }>;
+  source?: OrderEventSource;
+  notes?: string;
+}
+
+// Outcome of one order in a bulk approve, reject or reassign
+export interface BulkOrderResult {
+  orderId: string;
+  orderNumber: string;
+  success: boolean;
+  error?: string;
+  invoiceNumber?: string;
+}
+
+export type BulkProgress = (done: number, total: number) => void;
+
+// A supplier invoice picked from the device (PDF or image)
+export interface SupplierInvoiceFile {
+  uri: string;
+  name: string;
+  mimeType: string;
+}
+
+// Stock settings an owner can change on an item; fields left out are kept
+export type StockSettings = Partial<
+  Pick<Item, 'track_stock' | 'low_stock_threshold' | 'reorder_point' | 'reorder_quantity'>
+>;
+
+// What the driver captures at the door
+export interface DeliveryProofInput {
+  receivedBy: string;
+  receivedQuantities: Record<string, number>; // order_item id -> quantity received
+  photoUri?: string | null;
+  signature?: Signature | null;
+  notes?: string;
+}
+
 interface OrderContextType {
   state: OrderState;
   // Data loading
   loadAllData: () => Promise<void>;
+  loadItems: () => Promise<void>;
   loadUsers: () => Promise<void>;
+  loadPriceLists: () => Promise<void>;
+  loadStandingOrders: () => Promise<void>;
+  loadDeliveryRuns: () => Promise<void>;
   // Cart operations
   addToCart: (item: Item, quantity: number) => Promise<void>;
   updateCartQuantity: (itemId: string, quantity: number) => Promise<void>;
   removeFromCart: (itemId: string) => Promise<void>;
   clearCart: (supplierId?: string) => Promise<void>;
   clearCartByTenant: (tenantId: string) => Promise<void>;
+  reorderToCart: (lines: { item: Item; quantity: number }[], mode: 'merge' | 'replace') => Promise<void>;
+  // Supplier operations
+  updateSupplier: (supplierId: string, updates: Partial<Pick<Supplier, 'delivery_days' | 'cutoff_time' | 'closure_dates'>>) => Promise<boolean>;
   // Item operations
   toggleFavourite: (itemId: string) => Promise<void>;
   updateItem: (item: Item) => Promise<void>;
   createItem: (item: Omit<Item, 'id' | 'tenant_id' | 'created_at'>) => Promise<Item | null>;
+  // Stock - quantities are units, not cartons
+  updateStockSettings: (itemId: string, settings: StockSettings) => Promise<Item | null>;
+  adjustStock: (itemId: string, change: number, reason: StockAdjustmentReason, notes?: string) => Promise<Item>;
+  receiveStock: (supplierId: string | null, reference: string, lines: StockReceiptLine[], notes?: string) => Promise<Item[]>;
+  getStockMovements: (itemId: string) => Promise<StockMovement[]>;
+  // Purchase orders - owner only; changes throw with the reason
+  getPurchaseOrders: () => Promise<PurchaseOrder[]>;
+  savePurchaseOrder: (
+    supplierId: string,
+    lines: PurchaseOrderLineInput[],
+    details?: { id?: string; expectedDate?: string | null; notes?: string }
+  ) => Promise<PurchaseOrder>;
+  sendPurchaseOrder: (purchaseOrderId: string, pdf?: string | null) => Promise<string>;
+  cancelPurchaseOrder: (purchaseOrderId: string) => Promise<PurchaseOrder>;
+  receivePurchaseOrder: (
+    purchaseOrderId: string,
+    lines: PurchaseOrderReceiptLine[],
+    reference?: string,
+    notes?: string
+  ) => Promise<PurchaseOrder>;
+  uploadPurchaseOrderBill: (
+    purchaseOrder: PurchaseOrder,
+    file: SupplierInvoiceFile
+  ) => Promise<{ invoice: Invoice; match: InvoiceMatch | null } | null>;
   // Order operations
   createOrder: (order: Omit<Order, 'id' | 'tenant_id' | 'created_at'>) => Promise<Order | null>;
-  createOrderForCustomer: (customerId: string, order: Omit<Order, 'id' | 'tenant_id' | 'created_at'>) => Promise<Order | null>;
-  updateOrderStatus: (orderId: string, status: OrderStatus, approverId?: string) => Promise<void>;
+  createOrderForCustomer: (
+    customerId: string,
+    order: Omit<Order, 'id' | 'tenant_id' | 'created_at'>,
+    source?: OrderEventSource
+  ) => Promise<Order | null>;
+  updateOrderStatus: (orderId: string, status: OrderStatus, approverId?: string, notes?: string) => Promise<void>;
   updateOrder: (orderId: string, updates: Partial<Order>) => Promise<Order | null>;
   updateOrderItems: (orderId: string, items: any[]) => Promise<boolean>;
   deleteOrder: (orderId: string) => Promise<boolean>;
+  getOrderEvents: (orderId: string) => Promise<OrderEvent[]>;
+  logOrderEvent: (order: Pick<Order, 'id' | 'tenant_id'>, eventType: OrderEventType, details?: OrderEventDetails) => Promise<void>;
   // Invoice operations
   loadInvoices: () => Promise<void>;
   generateInvoice: (order: Order) => Promise<Invoice | null>;
-  approveOrderWithInvoice: (orderId: string, approverId: string) => Promise<{ order: Order; invoice: Invoice } | null>;
+  approveOrderWithInvoice: (orderId: string, approverId: string) => Promise<{ order: Order; invoice: Invoice | null }>;
+  // Bulk actions - each order is tried in turn; failures are reported, not thrown
+  approveOrders: (orderIds: string[], approverId: string, onProgress?: BulkProgress) => Promise<BulkOrderResult[]>;
+  rejectOrders: (orderIds: string[], reason: string, onProgress?: BulkProgress) => Promise<BulkOrderResult[]>;
+  reassignOrders: (orderIds: string[], customerId: string, onProgress?: BulkProgress) => Promise<BulkOrderResult[]>;
+  voidOrderInvoice: (orderId: string, reason: string) => Promise<boolean>;
+  createCreditNote: (invoiceId: string, reason: CreditReasonCode, lines: CreditLine[], notes?: string) => Promise<string | null>;
+  exportCreditNoteToXero: (creditNoteId: string) => Promise<boolean>;
+  matchInvoice: (invoiceId: string) => Promise<InvoiceMatch | null>;
+  uploadSupplierInvoice: (orderId: string, file: SupplierInvoiceFile) => Promise<{ invoice: Invoice; match: InvoiceMatch | null } | null>;
   exportToXero: (invoiceId: string) => Promise<boolean>;
+  // Statements - dates are YYYY-MM-DD, inclusive
+  getCustomerStatement: (customerId: string, periodStart: string, periodEnd: string) => Promise<CustomerStatement | null>;
+  getAgedReceivables: (asOf?: string) => Promise<AgedReceivable[] | null>;
+  // Credit control - one customer (with a supplier tenant for customers), or every customer with a limit, hold or balance
+  getCustomerCredit: (customerId: string, tenantId?: string) => Promise<CustomerCredit | null>;
+  getCustomerCredits: () => Promise<CustomerCredit[] | null>;
+  // Pricing
+  getItemPrice: (item: Item, customer?: PricingCustomer | null) => ResolvedPrice;
+  getLinePrice: (item: Item, quantity: number, customer?: PricingCustomer | null) => LinePrice;
+  savePriceList: (priceList: Omit<PriceList, 'id' | 'tenant_id' | 'items'> & { id?: string }, items: PriceListItem[]) => Promise<PriceList | null>;
+  deletePriceList: (priceListId: string) => Promise<boolean>;
+  // Standing orders
+  saveStandingOrder: (
+    standingOrder: Omit<StandingOrder, 'id' | 'items' | 'created_at' | 'updated_at'> & { id?: string },
+    items: StandingOrderItem[]
+  ) => Promise<StandingOrder | null>;
+  deleteStandingOrder: (standingOrderId: string) => Promise<boolean>;
+  placeStandingOrder: (standingOrderId: string) => Promise<Order | null>;
+  // Delivery runs
+  saveDeliveryRun: (
+    run: Pick<DeliveryRun, 'delivery_date' | 'name' | 'driver_name' | 'notes'> & { id?: string },
+    orderIds: string[]
+  ) => Promise<DeliveryRun | null>;
+  deleteDeliveryRun: (runId: string) => Promise<boolean>;
+  dispatchDeliveryRun: (runId: string) => Promise<number>;
+  recordDeliveryProof: (orderId: string, proof: DeliveryProofInput) => Promise<boolean>;
+  getDeliveryProof: (orderId: string) => Promise<DeliveryProof | null>;
   // Utility
   getSupplierName: (supplierId: string) => string;
   getTenantName: (tenantId: string) => string;
+  getTenantTimeZone: (tenantId: string) => string;
   getCartTotal: () => number;
   getCartQuantity: (itemId: string) => number;
   getPendingApprovalCount: () => number;
@@ -234,6 +384,9 @@ export function OrderProvider({ children }: { children: ReactNode }) {
         loadCart(),
         loadInvoices(),
         loadUsers(),
+        loadPriceLists(),
+        loadStandingOrders(),
+        loadDeliveryRuns(),
       ]);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -386,7 +539,7 @@ export function OrderProvider({ children }: { children: ReactNode }) {
 
     let query = supabase
       .from('invoices')
-      .select('*, supplier:suppliers(id, name), items:invoice_items(*)')
+      .select('*, supplier:suppliers(id, name), items:invoice_items(*), credit_notes(*, items:credit_note_items(*)), sync_jobs:xero_sync_jobs(*)')
       .order('invoice_date', { ascending: false })
       .range(0, 999);
 
@@ -423,7 +576,91 @@ export function OrderProvider({ children }: { children: ReactNode }) {
       console.error('Error loading users:', error);
       return;
     }
-    dispatch({ type: 'SET_USERS', payload: data || [] });
+
+    // Price groups are kept on each customer's link to the business
+    const { data: links, error: linksError } = await supabase
+      .from('customer_suppliers')
+      .select('customer_id, price_group')
+      .eq('supplier_tenant_id', tenant.id);
+
+    if (linksError) {
+      console.error('Error loading customer price groups:', linksError);
+    }
+    const priceGroups = new Map((links || []).map((link) => [link.customer_id, link.price_group]));
+    dispatch({
+      type: 'SET_USERS',
+      payload: (data || []).map((u) => ({ ...u, price_group: priceGroups.get(u.id) ?? null })),
+    });
+  };
+
+  const loadPriceLists = async () => {
+    if (!user) return;
+
+    let query = supabase
+      .from('price_lists')
+      .select('*, items:price_list_items(*)')
+      .order('name');
+
+    // Owners manage their tenant's lists; RLS limits customers to lists that apply to them
+    if ((user.role === 'owner' || user.is_master) && tenant) {
+      query = query.eq('tenant_id', tenant.id);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error loading price lists:', error);
+      return;
+    }
+    dispatch({ type: 'SET_PRICE_LISTS', payload: data || [] });
+  };
+
+  const loadStandingOrders = async () => {
+    if (!user) return;
+
+    let query = supabase
+      .from('standing_orders')
+      .select('*, items:standing_order_items(*)')
+      .order('next_delivery_date');
+
+    // Owners see their tenant's standing orders; customers see their own with any supplier
+    if ((user.role === 'owner' || user.is_master) && tenant) {
+      query = query.eq('tenant_id', tenant.id);
+    } else {
+      query = query.eq('customer_id', user.id);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error loading standing orders:', error);
+      return;
+    }
+    dispatch({ type: 'SET_STANDING_ORDERS', payload: data || [] });
+  };
+
+  const loadDeliveryRuns = async () => {
+    if (!tenant || !(user?.role === 'owner' || user?.is_master)) return;
+
+    // Runs from the last month onwards
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const { data, error } = await supabase
+      .from('delivery_runs')
+      .select('*, stops:delivery_run_stops(*)')
+      .eq('tenant_id', tenant.id)
+      .gte('delivery_date', since)
+      .order('delivery_date')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading delivery runs:', error);
+      return;
+    }
+    const runs = (data || []).map((run: DeliveryRun) => ({
+      ...run,
+      stops: [...(run.stops || [])].sort((a, b) => a.stop_number - b.stop_number),
+    }));
+    dispatch({ type: 'SET_DELIVERY_RUNS', payload: runs });
   };
 
   // Cart operations
@@ -545,6 +782,55 @@ export function OrderProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'CLEAR_CART_BY_TENANT', payload: tenantId });
   };
 
+  // Put a past order's lines back in the cart. Replace swaps out the cart lines for the
+  // same supplier; merge adds the quantities to what is already there.
+  const reorderToCart = async (
+    lines: { item: Item; quantity: number }[],
+    mode: 'merge' | 'replace'
+  ): Promise<void> => {
+    if (!user || lines.length === 0) return;
+
+    if (mode === 'merge') {
+      for (const line of lines) {
+        await addToCart(line.item, line.quantity);
+      }
+      return;
+    }
+
+    const supplierId = lines[0].item.supplier_id;
+    const reorderedIds = new Set(lines.map((line) => line.item.id));
+    const staleLines = state.cart.filter((c) => c.item.supplier_id === supplierId && !reorderedIds.has(c.item_id));
+    for (const cartItem of staleLines) {
+      await removeFromCart(cartItem.item_id);
+    }
+
+    for (const line of lines) {
+      if (state.cart.some((c) => c.item_id === line.item.id)) {
+        await updateCartQuantity(line.item.id, line.quantity);
+      } else {
+        await addToCart(line.item, line.quantity);
+      }
+    }
+  };
+
+  // Supplier operations
+  const updateSupplier = async (
+    supplierId: string,
+    updates: Partial<Pick<Supplier, 'delivery_days' | 'cutoff_time' | 'closure_dates'>>
+  ): Promise<boolean> => {
+    const { error } = await supabase.from('suppliers').update(updates).eq('id', supplierId);
+
+    if (error) {
+      console.error('Error updating supplier:', error);
+      return false;
+    }
+    dispatch({
+      type: 'SET_SUPPLIERS',
+      payload: state.suppliers.map((s) => (s.id === supplierId ? { ...s, ...updates } : s)),
+    });
+    return true;
+  };
+
   // Item operations
   const toggleFavourite = async (itemId: string) => {
     const item = state.items.find((i) => i.id === itemId);
@@ -563,10 +849,11 @@ export function OrderProvider({ children }: { children: ReactNode }) {
   };
 
   const updateItem = async (item: Item) => {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('items')
       .update({
         name: item.name,
+        sku: item.sku,
         category: item.category,
         categories: item.categories || [],
         country_of_origin: item.country_of_origin,
@@ -575,6 +862,7 @@ export function OrderProvider({ children }: { children: ReactNode }) {
         purchase_price: item.purchase_price,
         wholesale_price: item.wholesale_price,
         carton_price: item.carton_price,
+        carton_price_breaks: item.carton_price_breaks || [],
         rrp: item.rrp,
         barcode: item.barcode,
         tax_rate: item.tax_rate,
@@ -584,13 +872,16 @@ export function OrderProvider({ children }: { children: ReactNode }) {
         image_url: item.image_url,
         image_path: item.image_path,
       })
-      .eq('id', item.id);
+      .eq('id', item.id)
+      .select()
+      .single();
 
     if (error) {
       console.error('Error updating item:', error);
       return;
     }
-    dispatch({ type: 'UPDATE_ITEM', payload: item });
+    // Tracked items' status follows their stock, so take it from the saved row
+    dispatch({ type: 'UPDATE_ITEM', payload: { ...item, status: data.status } });
   };
 
   const createItem = async (item: Omit<Item, 'id' | 'tenant_id' | 'created_at'>): Promise<Item | null> => {
@@ -601,6 +892,7 @@ export function OrderProvider({ children }: { children: ReactNode }) {
       .insert({
         tenant_id: tenant.id,
         name: item.name,
+        sku: item.sku,
         supplier_id: item.supplier_id,
         category: item.category,
         categories: item.categories || [],
@@ -610,6 +902,7 @@ export function OrderProvider({ children }: { children: ReactNode }) {
         purchase_price: item.purchase_price,
         wholesale_price: item.wholesale_price || 0,
         carton_price: item.carton_price,
+        carton_price_breaks: item.carton_price_breaks || [],
         rrp: item.rrp,
         barcode: item.barcode,
         tax_rate: item.tax_rate,
@@ -632,181 +925,352 @@ export function OrderProvider({ children }: { children: ReactNode }) {
     return newItem;
   };
 
-  // Order operations
-  const createOrder = async (order: Omit<Order, 'id' | 'tenant_id' | 'created_at'>): Promise<Order | null> => {
-    if (!tenant || !user) return null;
-
-    const { items, ...orderData } = order;
+  // Stock operations
+  // Stock on hand only changes through adjust_stock, receive_stock and the order triggers,
+  // which also keep tracked items' status in line with what is available.
+  const updateStockSettings = async (itemId: string, settings: StockSettings): Promise<Item | null> => {
+    const updates: Record<string, boolean | number | null> = {};
+    if (settings.track_stock !== undefined) updates.track_stock = !!settings.track_stock;
+    if (settings.low_stock_threshold !== undefined) updates.low_stock_threshold = settings.low_stock_threshold;
+    if (settings.reorder_point !== undefined) updates.reorder_point = settings.reorder_point;
+    if (settings.reorder_quantity !== undefined) updates.reorder_quantity = settings.reorder_quantity;
 
-    // Owners auto-approve, users need approval
-    const status: OrderStatus = user.role === 'owner' ? 'approved' : 'pending_approval';
-
-    const { data: newOrder, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        ...orderData,
-        tenant_id: tenant.id,
-        created_by: user.id,
-        status,
-        approved_by: user.role === 'owner' ? user.id : null,
-        approved_at: user.role === 'owner' ? new Date().toISOString() : null,
-      })
+    const { data, error } = await supabase
+      .from('items')
+      .update(updates)
+      .eq('id', itemId)
       .select()
       .single();
 
-    if (orderError) {
-      console.error('Error creating order:', orderError);
+    if (error) {
+      console.error('Error updating stock settings:', error);
       return null;
     }
+    dispatch({ type: 'UPDATE_ITEM', payload: data });
+    return data;
+  };
 
-    if (items && items.length > 0) {
-      const orderItems = items.map((item) => ({
-        order_id: newOrder.id,
-        tenant_id: tenant.id,
+  const adjustStock = async (
+    itemId: string,
+    change: number,
+    reason: StockAdjustmentReason,
+    notes?: string
+  ): Promise<Item> => {
+    const { data, error } = await supabase.rpc('adjust_stock', {
+      p_item_id: itemId,
+      p_change: change,
+      p_reason: reason,
+      p_notes: notes?.trim() || null,
+    });
+
+    if (error) {
+      console.error('Error adjusting stock:', error);
+      throw new Error(error.message);
+    }
+    dispatch({ type: 'UPDATE_ITEM', payload: data as Item });
+    return data as Item;
+  };
+
+  const receiveStock = async (
+    supplierId: string | null,
+    reference: string,
+    lines: StockReceiptLine[],
+    notes?: string
+  ): Promise<Item[]> => {
+    if (!tenant) throw new Error('No business selected.');
+    const receiptLines = lines.filter((line) => line.quantity > 0);
+    if (receiptLines.length === 0) {
+      throw new Error('Add at least one item to receive.');
+    }
+
+    const { data, error } = await supabase.rpc('receive_stock', {
+      p_tenant_id: tenant.id,
+      p_supplier_id: supplierId,
+      p_reference: reference.trim() || null,
+      p_lines: receiptLines,
+      p_notes: notes?.trim() || null,
+    });
+
+    if (error) {
+      console.error('Error receiving stock:', error);
+      throw new Error(error.message);
+    }
+    const items = (data || []) as Item[];
+    items.forEach((item) => dispatch({ type: 'UPDATE_ITEM', payload: item }));
+    return items;
+  };
+
+  const getStockMovements = async (itemId: string): Promise<StockMovement[]> => {
+    const { data, error } = await supabase
+      .from('stock_movements')
+      .select('*')
+      .eq('item_id', itemId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error loading stock movements:', error);
+      return [];
+    }
+    return data || [];
+  };
+
+  // Purchase orders
+  // Saved, sent, cancelled and received by the database (20260216000021_purchase_orders.sql);
+  // receiving books the stock in, so items are reloaded afterwards.
+  const getPurchaseOrders = async (): Promise<PurchaseOrder[]> => {
+    if (!tenant) return [];
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select('*, items:purchase_order_items(*), bills:invoices(*, items:invoice_items(*))')
+      .eq('tenant_id', tenant.id)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.error('Error loading purchase orders:', error);
+      return [];
+    }
+    return (data || []).map((purchaseOrder: PurchaseOrder) => ({
+      ...purchaseOrder,
+      items: [...(purchaseOrder.items || [])].sort((a, b) => a.sort_order - b.sort_order),
+    }));
+  };
+
+  const savePurchaseOrder = async (
+    supplierId: string,
+    lines: PurchaseOrderLineInput[],
+    details: { id?: string; expectedDate?: string | null; notes?: string } = {}
+  ): Promise<PurchaseOrder> => {
+    if (!tenant) throw new Error('No business selected.');
+
+    const { data, error } = await supabase.rpc('save_purchase_order', {
+      p_tenant_id: tenant.id,
+      p_purchase_order_id: details.id || null,
+      p_supplier_id: supplierId,
+      p_expected_date: details.expectedDate || null,
+      p_notes: details.notes?.trim() || null,
+      p_lines: lines,
+    });
+
+    if (error) {
+      console.error('Error saving purchase order:', error);
+      throw new Error(error.message);
+    }
+    return data as PurchaseOrder;
+  };
+
+  // Returns the address it went to
+  const sendPurchaseOrder = async (purchaseOrderId: string, pdf?: string | null): Promise<string> => {
+    const result = await sendPurchaseOrderEmail(purchaseOrderId, pdf);
+    if (!result.success || !result.sentTo) {
+      throw new Error(result.error || 'Failed to send the purchase order.');
+    }
+    return result.sentTo;
+  };
+
+  const cancelPurchaseOrder = async (purchaseOrderId: string): Promise<PurchaseOrder> => {
+    const { data, error } = await supabase.rpc('cancel_purchase_order', {
+      p_purchase_order_id: purchaseOrderId,
+    });
+
+    if (error) {
+      console.error('Error cancelling purchase order:', error);
+      throw new Error(error.message);
+    }
+    return data as PurchaseOrder;
+  };
+
+  const receivePurchaseOrder = async (
+    purchaseOrderId: string,
+    lines: PurchaseOrderReceiptLine[],
+    reference?: string,
+    notes?: string
+  ): Promise<PurchaseOrder> => {
+    const receiptLines = lines.filter((line) => line.quantity > 0);
+    if (receiptLines.length === 0) {
+      throw new Error('Enter how much of at least one line arrived.');
+    }
+
+    const { data, error } = await supabase.rpc('receive_purchase_order', {
+      p_purchase_order_id: purchaseOrderId,
+      p_lines: receiptLines,
+      p_reference: reference?.trim() || null,
+      p_notes: notes?.trim() || null,
+    });
+
+    if (error) {
+      console.error('Error receiving purchase order:', error);
+      throw new Error(error.message);
+    }
+    await loadItems();
+    return data as PurchaseOrder;
+  };
+
+  // Order operations
+  // Orders, their lines, history and (optionally) the invoice are written in one
+  // transaction by create_order_with_items, which also computes the totals.
+  const insertOrderWithItems = async (
+    orderData: Record<string, any>,
+    items: OrderItem[],
+    options: { createInvoice?: boolean; source?: OrderEventSource } = {}
+  ): Promise<{ order: Order; invoice: Invoice | null } | null> => {
+    const { data, error } = await supabase.rpc('create_order_with_items', {
+      p_order: orderData,
+      p_items: items.map((item) => ({
+        procurement_item_id: item.procurement_item_id || null,
+        code: item.code || null,
         name: item.name,
         quantity: item.quantity,
+        unit: item.unit || 'each',
         unit_price: item.unit_price,
-        total: item.quantity * item.unit_price,
         xero_item_code: item.xero_item_code || null,
         xero_account_code: item.xero_account_code || null,
-      }));
+        price_source: item.price_source || 'wholesale',
+        price_list_id: item.price_list_id || null,
+      })),
+      p_create_invoice: options.createInvoice || false,
+      p_source: options.source || 'app',
+    });
 
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
+    if (error) {
+      console.error('Error creating order:', error);
+      return null;
+    }
 
-      if (itemsError) {
-        console.error('Error creating order items:', itemsError);
-      }
+    return { order: data.order, invoice: data.invoice || null };
+  };
+
+  // Check a requested delivery date against the supplier's delivery days, closures and
+  // cutoff (throws with the reason), or pick the earliest open date when none was given
+  const resolveDeliveryDate = (supplierId: string, tenantId: string, requested?: string): string | undefined => {
+    const supplier = state.suppliers.find((s) => s.id === supplierId);
+    if (!supplier) return requested;
+
+    const timeZone = getTenantTimeZone(tenantId);
+    if (!requested) {
+      return getEarliestDeliveryDate(supplier, timeZone) || undefined;
+    }
+    const error = getDeliveryDateError(supplier, requested, timeZone);
+    if (error) {
+      throw new Error(error);
     }
+    return requested;
+  };
 
-    const completeOrder = { ...newOrder, items: items || [] };
-    dispatch({ type: 'ADD_ORDER', payload: completeOrder });
-    return completeOrder;
+  const createOrder = async (order: Omit<Order, 'id' | 'tenant_id' | 'created_at'>): Promise<Order | null> => {
+    if (!tenant || !user) return null;
+
+    const { items: orderLines, ...orderData } = order;
+    orderData.requested_delivery_date = resolveDeliveryDate(order.supplier_id, tenant.id, order.requested_delivery_date);
+    const items = applyTieredPricing(orderLines || []);
+
+    // Owners auto-approve, users need approval
+    const status: OrderStatus = user.role === 'owner' ? 'approved' : 'pending_approval';
+
+    const result = await insertOrderWithItems(
+      { ...orderData, tenant_id: tenant.id, created_by: user.id, approved_by: user.id, status },
+      items
+    );
+    if (!result) return null;
+
+    dispatch({ type: 'ADD_ORDER', payload: result.order });
+    return result.order;
   };
 
   // Create order on behalf of a customer (auto-approved for owners)
   const createOrderForCustomer = async (
     customerId: string,
-    order: Omit<Order, 'id' | 'tenant_id' | 'created_at'>
+    order: Omit<Order, 'id' | 'tenant_id' | 'created_at'>,
+    source: OrderEventSource = 'manual'
   ): Promise<Order | null> => {
     if (!tenant || !user) return null;
 
-    const { items, ...orderData } = order;
-
-    // Orders created for customers by owners are auto-approved
-    const status: OrderStatus = 'approved';
+    const { items: orderLines, ...orderData } = order;
+    orderData.requested_delivery_date = resolveDeliveryDate(order.supplier_id, tenant.id, order.requested_delivery_date);
+    const customer = state.users.find((u) => u.id === customerId) || { id: customerId };
+    const items = applyTieredPricing(orderLines || [], customer);
 
-    const { data: newOrder, error: orderError } = await supabase
-      .from('orders')
-      .insert({
+    // Orders created for customers by owners are auto-approved and invoiced straight away
+    const result = await insertOrderWithItems(
+      {
         ...orderData,
         tenant_id: tenant.id,
         created_by: customerId, // The customer on whose behalf the order is created
         customer_id: customerId, // Link customer to order for Xero export
-        status,
         approved_by: user.id, // The owner who created/approved
-        approved_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
+        status: 'approved',
+      },
+      items,
+      { createInvoice: true, source }
+    );
+    if (!result) return null;
 
-    if (orderError) {
-      console.error('Error creating order for customer:', orderError);
-      return null;
+    dispatch({ type: 'ADD_ORDER', payload: result.order });
+    if (result.invoice) {
+      dispatch({ type: 'ADD_INVOICE', payload: result.invoice });
+      // Export to Xero in the background
+      queueXeroSync([result.invoice.id]);
     }
 
-    if (items && items.length > 0) {
-      const orderItems = items.map((item) => ({
-        order_id: newOrder.id,
-        tenant_id: tenant.id,
-        name: item.name,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        total: item.quantity * item.unit_price,
-        xero_item_code: item.xero_item_code || null,
-        xero_account_code: item.xero_account_code || null,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
+    return result.order;
+  };
 
-      if (itemsError) {
-        console.error('Error creating order items:', itemsError);
+  // Queue invoices for export to Xero (non-blocking). process-xero-sync-queue runs every
+  // minute and retries until Xero accepts them.
+  const queueXeroSync = (invoiceIds: string[]) => {
+    (async () => {
+      for (const invoiceId of invoiceIds) {
+        await enqueueXeroSync(invoiceId);
       }
-    }
+      await loadInvoices();
+    })().catch((err) => console.error('Error queueing Xero sync:', err));
+  };
 
-    const completeOrder = { ...newOrder, items: items || [] };
-    dispatch({ type: 'ADD_ORDER', payload: completeOrder });
+  // Order history - failures are logged but never block the change itself
+  const logOrderEvent = async (
+    order: Pick<Order, 'id' | 'tenant_id'>,
+    eventType: OrderEventType,
+    details: OrderEventDetails = {}
+  ): Promise<void> => {
+    const { error } = await supabase.from('order_events').insert({
+      order_id: order.id,
+      tenant_id: order.tenant_id,
+      event_type: eventType,
+      from_status: details.from_status || null,
+      to_status: details.to_status || null,
+      changes: details.changes || null,
+      source: details.source || 'app',
+      actor_id: user?.id || null,
+      notes: details.notes || null,
+    });
 
-    // Generate invoice for the order and sync to Xero
-    const invoice = await generateInvoice(completeOrder);
-    if (invoice) {
-      // Try to sync to Xero (non-blocking)
-      syncInvoiceToXero(completeOrder.id, invoice.id);
+    if (error) {
+      console.error('Error recording order event:', error);
     }
-
-    return completeOrder;
   };
 
-  // Helper function to sync invoice to Xero (non-blocking with delay)
-  const syncInvoiceToXero = async (orderId: string, invoiceId: string) => {
-    if (!tenant) return;
-
-    try {
-      // Check if Xero is connected
-      const xeroStatus = await checkXeroConnection(tenant.id);
-      if (!xeroStatus.connected) {
-        console.log('Xero not connected, marking as export_failed');
-        // Mark as export_failed so it shows in the list with retry option
-        await supabase.from('invoices').update({
-          status: 'export_failed',
-          export_error: 'Xero is not connected. Please connect Xero in Settings first.',
-        }).eq('id', invoiceId);
-        await loadInvoices();
-        return;
-      }
+  const getOrderEvents = async (orderId: string): Promise<OrderEvent[]> => {
+    const { data, error } = await supabase
+      .from('order_events')
+      .select('*, actor:users(id, full_name, email)')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
 
-      console.log('Starting Xero sync for invoice:', invoiceId);
-
-      // Create invoice in Xero (Edge Function handles everything including PDF)
-      const result = await createXeroInvoice(orderId, invoiceId);
-
-      if (result.success) {
-        console.log('Invoice synced to Xero:', result.xero_invoice_id);
-        // Clear any previous export error on success
-        await supabase.from('invoices').update({
-          export_error: null,
-        }).eq('id', invoiceId);
-        // Wait 5 seconds then reload invoices to get updated data from database
-        setTimeout(async () => {
-          console.log('Reloading invoices after Xero sync...');
-          await loadInvoices();
-        }, 5000);
-      } else {
-        console.warn('Failed to sync invoice to Xero:', result.error);
-        // Mark as export failed in database with error message
-        await supabase.from('invoices').update({
-          status: 'export_failed',
-          export_error: result.error || 'Unknown error occurred during Xero export',
-        }).eq('id', invoiceId);
-        // Reload to reflect the failed status
-        await loadInvoices();
-      }
-    } catch (error) {
-      console.error('Error syncing to Xero:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      // Mark as export failed on error with message
-      await supabase.from('invoices').update({
-        status: 'export_failed',
-        export_error: errorMessage,
-      }).eq('id', invoiceId);
-      await loadInvoices();
+    if (error) {
+      console.error('Error loading order events:', error);
+      return [];
     }
+    return data || [];
   };
 
-  const updateOrderStatus = async (orderId: string, status: OrderStatus, approverId?: string) => {
+  const updateOrderStatus = async (orderId: string, status: OrderStatus, approverId?: string, notes?: string) => {
+    const order = state.orders.find((o) => o.id === orderId);
+    const transitionError = order ? getTransitionError(order, status, state.invoices) : null;
+    if (transitionError) {
+      throw new Error(transitionError);
+    }
+
     const updateData: any = { status };
     if (status === 'approved' && approverId) {
       updateData.approved_by = approverId;
@@ -823,28 +1287,55 @@ export function OrderProvider({ children }: { children: ReactNode }) {
 
     if (error) {
       console.error('Error updating order status:', error);
-      return;
+      // The database enforces the same transition rules; surface its message
+      throw new Error(error.message);
     }
 
-    const order = state.orders.find((o) => o.id === orderId);
     if (order) {
       dispatch({ type: 'UPDATE_ORDER', payload: { ...order, ...updateData } });
+      if (order.status !== status) {
+        logOrderEvent(order, status === 'approved' ? 'approved' : 'status_changed', {
+          from_status: order.status,
+          to_status: status,
+          notes,
+        });
+      }
     }
   };
 
   const deleteOrder = async (orderId: string): Promise<boolean> => {
-    await supabase.from('order_items').delete().eq('order_id', orderId);
+    const order = state.orders.find((o) => o.id === orderId);
+    const deleteError = order ? getDeleteError(order, state.invoices) : null;
+    if (deleteError) {
+      throw new Error(deleteError);
+    }
+
+    // Order items are removed by ON DELETE CASCADE
     const { error } = await supabase.from('orders').delete().eq('id', orderId);
     if (error) {
       console.error('Error deleting order:', error);
-      return false;
+      throw new Error(error.message);
     }
     dispatch({ type: 'SET_ORDERS', payload: state.orders.filter((o) => o.id !== orderId) });
     return true;
   };
 
   const updateOrder = async (orderId: string, updates: Partial<Order>): Promise<Order | null> => {
-    const { items: _items, ...orderUpdates } = updates as any;
+    const { items: _items, ...orderUpdates } = updates;
+
+    const currentOrder = state.orders.find((o) => o.id === orderId);
+    if (currentOrder) {
+      const amountFields: (keyof Order)[] = ['subtotal', 'tax', 'delivery_fee', 'total', 'customer_id', 'supplier_id'];
+      const amountsChanged = amountFields.some(
+        (field) => field in orderUpdates && updates[field] !== currentOrder[field]
+      );
+      const ruleError =
+        (orderUpdates.status && getTransitionError(currentOrder, orderUpdates.status, state.invoices)) ||
+        (amountsChanged && getEditError(currentOrder, state.invoices));
+      if (ruleError) {
+        throw new Error(ruleError);
+      }
+    }
 
     const { data, error } = await supabase
       .from('orders')
@@ -861,39 +1352,58 @@ export function OrderProvider({ children }: { children: ReactNode }) {
     const existingOrder = state.orders.find((o) => o.id === orderId);
     const updatedOrder = { ...existingOrder, ...data, items: existingOrder?.items || [] };
     dispatch({ type: 'UPDATE_ORDER', payload: updatedOrder });
+
+    const changes = diffOrderFields(existingOrder || {}, orderUpdates);
+    if (Object.keys(changes).length > 0) {
+      const statusChanged = 'status' in changes;
+      logOrderEvent(updatedOrder, statusChanged ? 'status_changed' : 'updated', {
+        from_status: statusChanged ? existingOrder?.status : undefined,
+        to_status: statusChanged ? orderUpdates.status : undefined,
+        changes,
+      });
+    }
     return updatedOrder;
   };
 
   const updateOrderItems = async (orderId: string, items: any[]): Promise<boolean> => {
     if (!tenant) return false;
 
-    // Delete existing order items
-    await supabase.from('order_items').delete().eq('order_id', orderId);
-
-    // Insert new order items
-    const orderItems = items.map((item) => ({
-      order_id: orderId,
-      tenant_id: tenant.id,
-      name: item.name,
-      quantity: item.quantity,
-      unit_price: item.unit_price,
-      total: item.quantity * item.unit_price,
-      xero_item_code: item.xero_item_code || null,
-      xero_account_code: item.xero_account_code || null,
-    }));
+    const existingOrder = state.orders.find((o) => o.id === orderId);
+    const editError = existingOrder ? getEditError(existingOrder, state.invoices) : null;
+    if (editError) {
+      throw new Error(editError);
+    }
 
-    const { error } = await supabase.from('order_items').insert(orderItems);
+    // Lines and totals are replaced together; the server works out GST as it does for new orders
+    const { data, error } = await supabase.rpc('update_order_items', {
+      p_order_id: orderId,
+      p_items: items.map((item) => ({
+        procurement_item_id: item.procurement_item_id || null,
+        code: item.code || null,
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit || 'each',
+        unit_price: item.unit_price,
+        tax_rate: item.tax_rate ?? null,
+        xero_item_code: item.xero_item_code || null,
+        xero_account_code: item.xero_account_code || null,
+        price_source: item.price_source || 'wholesale',
+        price_list_id: item.price_list_id || null,
+      })),
+    });
 
     if (error) {
       console.error('Error updating order items:', error);
-      return false;
+      throw new Error(error.message);
     }
 
-    // Update the order in state with new items
-    const existingOrder = state.orders.find((o) => o.id === orderId);
-    if (existingOrder) {
-      const updatedOrder = { ...existingOrder, items: orderItems };
-      dispatch({ type: 'UPDATE_ORDER', payload: updatedOrder });
+    // Keep anything joined onto the order in state
+    const updatedOrder: Order = { ...existingOrder, ...(data as Order) };
+    dispatch({ type: 'UPDATE_ORDER', payload: updatedOrder });
+
+    const changes = diffOrderItems(existingOrder?.items || [], updatedOrder.items);
+    if (changes.length > 0) {
+      logOrderEvent(updatedOrder, 'items_updated', { changes });
     }
 
     return true;
@@ -903,7 +1413,9 @@ export function OrderProvider({ children }: { children: ReactNode }) {
   const generateInvoice = async (order: Order): Promise<Invoice | null> => {
     if (!tenant) return null;
 
-    const invoiceNumber = `INV-${order.order_number || order.id.substring(0, 8)}`;
+    const invoiceDate = new Date().toISOString().split('T')[0];
+    const customer = state.users.find((u) => u.id === order.customer_id);
+    const paymentTerms = getPaymentTerms(customer, tenant);
 
     const { data: invoice, error: invoiceError } = await supabase
       .from('invoices')
@@ -912,14 +1424,15 @@ export function OrderProvider({ children }: { children: ReactNode }) {
         supplier_id: order.supplier_id,
         order_id: order.id,
         customer_id: order.customer_id, // Link invoice to customer for visibility
-        invoice_number: invoiceNumber,
-        invoice_date: new Date().toISOString().split('T')[0],
-        due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        // invoice_number is allocated by the database (assign_invoice_number)
+        invoice_date: invoiceDate,
+        due_date: getDueDate(invoiceDate, paymentTerms),
+        payment_terms: paymentTerms,
         subtotal: order.subtotal || order.total,
         tax: order.tax || 0,
         total: order.total,
         status: 'pending',
-        match_status: 'matched',
+        match_status: 'unmatched', // Until the lines are checked below
       })
       .select()
       .single();
@@ -934,27 +1447,449 @@ export function OrderProvider({ children }: { children: ReactNode }) {
       const invoiceItems = order.items.map((item) => ({
         invoice_id: invoice.id,
         tenant_id: tenant.id,
+        procurement_item_id: item.procurement_item_id || null,
         order_item_id: item.id,
-        description: item.name,
+        description: isCartonLine(item) ? `${item.name} (${item.unit})` : item.name,
         quantity: item.quantity,
+        unit: item.unit || 'each',
         unit_price: item.unit_price,
         total: item.quantity * item.unit_price,
+        tax_rate: item.tax_rate ?? null,
+        tax_amount: item.tax_amount ?? null,
       }));
 
       await supabase.from('invoice_items').insert(invoiceItems);
     }
 
-    dispatch({ type: 'ADD_INVOICE', payload: invoice });
+    const match = await matchInvoice(invoice.id);
+    dispatch({
+      type: 'ADD_INVOICE',
+      payload: match ? { ...invoice, match_status: match.status, variance_amount: match.variance } : invoice,
+    });
+    logOrderEvent(order, 'invoiced', { notes: `Invoice ${invoice.invoice_number}` });
     return invoice;
   };
 
-  // Approve order and generate invoice in one transaction
-  const approveOrderWithInvoice = async (orderId: string, approverId: string): Promise<{ order: Order; invoice: Invoice } | null> => {
-    // Get the order first
-    const order = state.orders.find((o) => o.id === orderId);
-    if (!order) {
-      console.error('Order not found:', orderId);
-      throw new Error('Order not found');
+  // Void an order's live invoice (in Xero too) so the order can be edited, cancelled or deleted
+  const voidOrderInvoice = async (orderId: string, reason: string): Promise<boolean> => {
+    const invoice = getLiveInvoice(orderId, state.invoices);
+    if (!invoice) {
+      throw new Error('This order has no invoice to void');
+    }
+
+    // The same checks as void_order_invoice, made before the invoice is voided in Xero
+    // so a void the database would refuse doesn't leave Xero and the app disagreeing
+    if (!(user?.role === 'owner' || user?.is_master)) {
+      throw new Error('Only owners can void invoices');
+    }
+    if (!reason.trim()) {
+      throw new Error('A reason is required to void an invoice');
+    }
+    if (invoice.status === 'paid' || invoice.status === 'partially_paid' || (invoice.amount_paid || 0) > 0) {
+      throw new Error(
+        `Invoice ${invoice.invoice_number} has payments against it and cannot be voided. Issue a credit note instead.`
+      );
+    }
+
+    if (invoice.xero_invoice_id) {
+      const xeroResult = await voidXeroInvoice(invoice.id);
+      if (!xeroResult.success) {
+        throw new Error(xeroResult.error || 'Failed to void invoice in Xero');
+      }
+    }
+
+    const { error } = await supabase.rpc('void_order_invoice', { p_order_id: orderId, p_reason: reason });
+    if (error) {
+      console.error('Error voiding invoice:', error);
+      throw new Error(error.message);
+    }
+
+    dispatch({
+      type: 'UPDATE_INVOICE',
+      payload: { ...invoice, status: 'cancelled', voided_at: new Date().toISOString(), void_reason: reason },
+    });
+    return true;
+  };
+
+  // Credit part of an invoice at its invoiced prices. Exported invoices get the credit
+  // note in Xero too; a failed push is kept on the note (export_failed) to retry.
+  const createCreditNote = async (
+    invoiceId: string,
+    reason: CreditReasonCode,
+    lines: CreditLine[],
+    notes?: string
+  ): Promise<string | null> => {
+    const invoice = state.invoices.find((i) => i.id === invoiceId);
+    if (invoice && isVoidInvoice(invoice)) {
+      throw new Error(`Invoice ${invoice.invoice_number} has been voided and cannot be credited.`);
+    }
+    const creditLines = lines.filter((line) => line.quantity > 0);
+    if (creditLines.length === 0) {
+      throw new Error('Choose at least one line to credit.');
+    }
+
+    const { data: creditNoteId, error } = await supabase.rpc('create_credit_note', {
+      p_invoice_id: invoiceId,
+      p_reason_code: reason,
+      p_notes: notes || null,
+      p_lines: creditLines.map((line) => ({ invoice_item_id: line.invoiceItemId, quantity: line.quantity })),
+    });
+
+    if (error) {
+      console.error('Error creating credit note:', error);
+      throw new Error(error.message);
+    }
+
+    if (invoice?.xero_invoice_id) {
+      const xeroResult = await createXeroCreditNote(creditNoteId);
+      if (!xeroResult.success) {
+        console.error('Failed to push credit note to Xero:', xeroResult.error);
+      }
+    }
+
+    // Credits reduce what was invoiced; the match and its variance are worked out again here
+    await matchInvoice(invoiceId);
+    await loadInvoices();
+    return creditNoteId;
+  };
+
+  const exportCreditNoteToXero = async (creditNoteId: string): Promise<boolean> => {
+    const result = await createXeroCreditNote(creditNoteId);
+    await loadInvoices();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to create credit note in Xero');
+    }
+    return true;
+  };
+
+  const getCustomerStatement = async (
+    customerId: string,
+    periodStart: string,
+    periodEnd: string
+  ): Promise<CustomerStatement | null> => {
+    if (!tenant) return null;
+    const { data, error } = await supabase.rpc('get_customer_statement', {
+      p_tenant_id: tenant.id,
+      p_customer_id: customerId,
+      p_start: periodStart,
+      p_end: periodEnd,
+    });
+
+    if (error) {
+      console.error('Error loading statement:', error);
+      return null;
+    }
+    return data as CustomerStatement;
+  };
+
+  const getAgedReceivables = async (asOf?: string): Promise<AgedReceivable[] | null> => {
+    if (!tenant) return null;
+    const { data, error } = await supabase.rpc('get_aged_receivables', {
+      p_tenant_id: tenant.id,
+      ...(asOf ? { p_as_of: asOf } : {}),
+    });
+
+    if (error) {
+      console.error('Error loading aged receivables:', error);
+      return null;
+    }
+    return (data || []) as AgedReceivable[];
+  };
+
+  const getCustomerCredit = async (customerId: string, tenantId?: string): Promise<CustomerCredit | null> => {
+    const supplierTenantId = tenantId || tenant?.id;
+    if (!supplierTenantId) return null;
+    const { data, error } = await supabase.rpc('get_customer_credit', {
+      p_tenant_id: supplierTenantId,
+      p_customer_id: customerId,
+    });
+
+    if (error) {
+      console.error('Error loading customer credit:', error);
+      return null;
+    }
+    return ((data || [])[0] as CustomerCredit) || null;
+  };
+
+  const getCustomerCredits = async (): Promise<CustomerCredit[] | null> => {
+    if (!tenant) return null;
+    const { data, error } = await supabase.rpc('get_customer_credit', { p_tenant_id: tenant.id });
+
+    if (error) {
+      console.error('Error loading customer credit:', error);
+      return null;
+    }
+    return (data || []) as CustomerCredit[];
+  };
+
+  // Three-way match: invoice lines (net of credits) against the order lines and what was
+  // delivered, within the tenant's tolerance. Re-run whenever one of the three changes.
+  // Supplier bills for a purchase order are matched against it and what was received.
+  const matchInvoice = async (invoiceId: string): Promise<InvoiceMatch | null> => {
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('*, supplier:suppliers(id, name), items:invoice_items(*), credit_notes(*, items:credit_note_items(*))')
+      .eq('id', invoiceId)
+      .single();
+
+    if (invoiceError || !invoice) {
+      console.error('Error loading invoice to match:', invoiceError);
+      return null;
+    }
+
+    let match: InvoiceMatch;
+    if (invoice.purchase_order_id) {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, items:purchase_order_items(*)')
+        .eq('id', invoice.purchase_order_id)
+        .single();
+      if (error) {
+        console.error('Error loading purchase order to match:', error);
+        return null;
+      }
+      match = matchInvoiceToPurchaseOrder(invoice, data, getMatchTolerance(tenant?.settings));
+    } else {
+      let order: Order | null = null;
+      if (invoice.order_id) {
+        const { data, error } = await supabase
+          .from('orders')
+          .select('*, items:order_items(*)')
+          .eq('id', invoice.order_id)
+          .single();
+        if (error) {
+          console.error('Error loading order to match:', error);
+          return null;
+        }
+        order = data;
+      }
+      match = matchInvoiceToOrder(invoice, order, getMatchTolerance(tenant?.settings));
+    }
+
+    const matchedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('invoices')
+      .update({ match_status: match.status, variance_amount: match.variance, matched_at: matchedAt })
+      .eq('id', invoiceId);
+
+    if (error) {
+      console.error('Error saving invoice match:', error);
+      return null;
+    }
+
+    dispatch({
+      type: 'UPDATE_INVOICE',
+      payload: { ...invoice, match_status: match.status, variance_amount: match.variance, matched_at: matchedAt },
+    });
+    return match;
+  };
+
+  // Supplier invoices
+  // The file goes to the supplier-invoices bucket under <tenant_id>/<order_id>/ and is read
+  // by parse-document; the result is saved as an inbound invoice and matched to the order.
+  const readSupplierInvoiceFile = async (
+    file: SupplierInvoiceFile,
+    folder: string
+  ): Promise<{ extracted: ExtractedInvoice; path: string }> => {
+    const response = await fetch(file.uri);
+    const blob = await response.blob();
+    const fileContent = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+
+    const extraction = await extractSupplierInvoice(fileContent, file.mimeType, file.name);
+    if (!extraction.success || !extraction.invoice) {
+      throw new Error(extraction.error || 'Could not read the invoice.');
+    }
+
+    const fileExt = file.name.split('.').pop()?.toLowerCase() || (file.mimeType === 'application/pdf' ? 'pdf' : 'jpg');
+    const path = `${folder}/invoice-${Date.now()}.${fileExt}`;
+    const { error: uploadError } = await supabase.storage
+      .from('supplier-invoices')
+      .upload(path, await new Response(blob).arrayBuffer(), { contentType: file.mimeType, upsert: false });
+
+    if (uploadError) {
+      console.error('Error uploading supplier invoice:', uploadError);
+      throw new Error('Failed to upload the invoice file.');
+    }
+
+    return { extracted: extraction.invoice, path };
+  };
+
+  const uploadSupplierInvoice = async (
+    orderId: string,
+    file: SupplierInvoiceFile
+  ): Promise<{ invoice: Invoice; match: InvoiceMatch | null } | null> => {
+    if (!tenant) return null;
+    const order = state.orders.find((o) => o.id === orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const { extracted, path } = await readSupplierInvoiceFile(file, `${order.tenant_id}/${order.id}`);
+
+    const lines = extracted.items.map((line) => ({
+      ...line,
+      total: line.total ?? Math.round(line.quantity * line.unit_price * 100) / 100,
+    }));
+    const subtotal = extracted.subtotal ?? lines.reduce((sum, line) => sum + line.total, 0);
+    const tax = extracted.tax ?? 0;
+    const isDate = (value?: string) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .insert({
+        tenant_id: order.tenant_id,
+        supplier_id: order.supplier_id,
+        order_id: order.id,
+        invoice_number: extracted.invoiceNumber || `SUP-${order.order_number || order.id.substring(0, 8)}`,
+        invoice_date: isDate(extracted.invoiceDate) ? extracted.invoiceDate : new Date().toISOString().split('T')[0],
+        due_date: isDate(extracted.dueDate) ? extracted.dueDate : null,
+        subtotal,
+        tax,
+        total: extracted.total ?? subtotal + tax,
+        status: 'pending',
+        direction: 'inbound',
+        match_status: 'unmatched', // Until the lines are checked below
+        file_url: path,
+      })
+      .select()
+      .single();
+
+    if (invoiceError) {
+      console.error('Error saving supplier invoice:', invoiceError);
+      throw new Error('Failed to save the supplier invoice.');
+    }
+
+    // Point each line at the order line it bills for, so matching compares like with like
+    const taken = new Set<string>();
+    const invoiceItems = lines.map((line) => {
+      const orderLine = findOrderLine(order, line, taken);
+      if (orderLine?.id) taken.add(orderLine.id);
+      return {
+        invoice_id: invoice.id,
+        tenant_id: order.tenant_id,
+        procurement_item_id: orderLine?.procurement_item_id || null,
+        order_item_id: orderLine?.id || null,
+        description: line.description,
+        quantity: line.quantity,
+        unit: line.unit || orderLine?.unit || 'each',
+        unit_price: line.unit_price,
+        total: line.total,
+      };
+    });
+
+    const { error: itemsError } = await supabase.from('invoice_items').insert(invoiceItems);
+    if (itemsError) {
+      console.error('Error saving supplier invoice lines:', itemsError);
+      throw new Error('Failed to save the supplier invoice lines.');
+    }
+
+    const match = await matchInvoice(invoice.id);
+    logOrderEvent(order, 'updated', {
+      notes: `Supplier invoice ${invoice.invoice_number} uploaded${match ? ` (${match.status.replace(/_/g, ' ')})` : ''}`,
+    });
+    await loadInvoices();
+
+    return {
+      invoice: { ...invoice, match_status: match?.status ?? invoice.match_status, variance_amount: match?.variance },
+      match,
+    };
+  };
+
+  // A supplier's bill for a purchase order, stored under <tenant_id>/purchase-orders/<id>/
+  // and matched against what was ordered and received
+  const uploadPurchaseOrderBill = async (
+    purchaseOrder: PurchaseOrder,
+    file: SupplierInvoiceFile
+  ): Promise<{ invoice: Invoice; match: InvoiceMatch | null } | null> => {
+    if (!tenant) return null;
+
+    const { extracted, path } = await readSupplierInvoiceFile(
+      file,
+      `${purchaseOrder.tenant_id}/purchase-orders/${purchaseOrder.id}`
+    );
+
+    const lines = extracted.items.map((line) => ({
+      ...line,
+      total: line.total ?? Math.round(line.quantity * line.unit_price * 100) / 100,
+    }));
+    const subtotal = extracted.subtotal ?? lines.reduce((sum, line) => sum + line.total, 0);
+    const tax = extracted.tax ?? 0;
+    const isDate = (value?: string) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .insert({
+        tenant_id: purchaseOrder.tenant_id,
+        supplier_id: purchaseOrder.supplier_id,
+        purchase_order_id: purchaseOrder.id,
+        invoice_number: extracted.invoiceNumber || `SUP-${purchaseOrder.po_number}`,
+        invoice_date: isDate(extracted.invoiceDate) ? extracted.invoiceDate : new Date().toISOString().split('T')[0],
+        due_date: isDate(extracted.dueDate) ? extracted.dueDate : null,
+        subtotal,
+        tax,
+        total: extracted.total ?? subtotal + tax,
+        status: 'pending',
+        direction: 'inbound',
+        match_status: 'unmatched', // Until the lines are checked below
+        file_url: path,
+      })
+      .select()
+      .single();
+
+    if (invoiceError) {
+      console.error('Error saving supplier bill:', invoiceError);
+      throw new Error('Failed to save the supplier bill.');
+    }
+
+    const taken = new Set<string>();
+    const invoiceItems = lines.map((line) => {
+      const poLine = findPurchaseOrderLine(purchaseOrder, line, taken);
+      if (poLine?.id) taken.add(poLine.id);
+      return {
+        invoice_id: invoice.id,
+        tenant_id: purchaseOrder.tenant_id,
+        procurement_item_id: poLine?.procurement_item_id || null,
+        purchase_order_item_id: poLine?.id || null,
+        description: line.description,
+        quantity: line.quantity,
+        unit: line.unit || 'each',
+        unit_price: line.unit_price,
+        total: line.total,
+      };
+    });
+
+    const { error: itemsError } = await supabase.from('invoice_items').insert(invoiceItems);
+    if (itemsError) {
+      console.error('Error saving supplier bill lines:', itemsError);
+      throw new Error('Failed to save the supplier bill lines.');
+    }
+
+    const match = await matchInvoice(invoice.id);
+    await loadInvoices();
+
+    return {
+      invoice: { ...invoice, match_status: match?.status ?? invoice.match_status, variance_amount: match?.variance },
+      match,
+    };
+  };
+
+  // Approve an order and generate its invoice, leaving the reload and Xero sync to the caller
+  const approveOrder = async (orderId: string, approverId: string): Promise<{ order: Order; invoice: Invoice | null }> => {
+    // Get the order first
+    const order = state.orders.find((o) => o.id === orderId);
+    if (!order) {
+      console.error('Order not found:', orderId);
+      throw new Error('Order not found');
+    }
+
+    const transitionError = getTransitionError(order, 'approved', state.invoices);
+    if (transitionError) {
+      throw new Error(transitionError);
     }
 
     // First update the order status to approved
@@ -976,22 +1911,539 @@ export function OrderProvider({ children }: { children: ReactNode }) {
 
     const approvedOrder = { ...order, ...updateData };
     dispatch({ type: 'UPDATE_ORDER', payload: approvedOrder });
+    await logOrderEvent(order, 'approved', { from_status: order.status, to_status: 'approved' });
 
     // Generate invoice for the approved order
     const invoice = await generateInvoice(approvedOrder);
     if (!invoice) {
       console.error('Failed to generate invoice for order:', orderId);
       // Order is approved but invoice failed - still return the order
-      return { order: approvedOrder, invoice: null as any };
+      return { order: approvedOrder, invoice: null };
+    }
+
+    return { order: approvedOrder, invoice };
+  };
+
+  // Approve an order, then show and sync its invoice. The invoice is null if it couldn't be generated.
+  const approveOrderWithInvoice = async (orderId: string, approverId: string): Promise<{ order: Order; invoice: Invoice | null }> => {
+    const { order, invoice } = await approveOrder(orderId, approverId);
+    if (!invoice) {
+      return { order, invoice: null };
     }
 
     // Reload invoices to ensure the new invoice appears in the list
     await loadInvoices();
 
-    // Sync to Xero (non-blocking)
-    syncInvoiceToXero(orderId, invoice.id);
+    // Export to Xero in the background
+    queueXeroSync([invoice.id]);
 
-    return { order: approvedOrder, invoice };
+    return { order, invoice };
+  };
+
+  // Run an action over several orders in turn, collecting each outcome
+  const runBulk = async (
+    orderIds: string[],
+    onProgress: BulkProgress | undefined,
+    action: (order: Order) => Promise<Partial<BulkOrderResult> | void>
+  ): Promise<BulkOrderResult[]> => {
+    const results: BulkOrderResult[] = [];
+    for (const orderId of orderIds) {
+      const order = state.orders.find((o) => o.id === orderId);
+      const orderNumber = order?.order_number || orderId.substring(0, 8);
+      try {
+        if (!order) {
+          throw new Error('Order not found');
+        }
+        const outcome = await action(order);
+        results.push({ orderId, orderNumber, success: true, ...(outcome || {}) });
+      } catch (error) {
+        results.push({
+          orderId,
+          orderNumber,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      onProgress?.(results.length, orderIds.length);
+    }
+    return results;
+  };
+
+  const approveOrders = async (orderIds: string[], approverId: string, onProgress?: BulkProgress): Promise<BulkOrderResult[]> => {
+    const invoiceIds: string[] = [];
+    const results = await runBulk(orderIds, onProgress, async (order) => {
+      const { invoice } = await approveOrder(order.id, approverId);
+      if (!invoice) {
+        return { success: false, error: 'Approved, but the invoice could not be generated' };
+      }
+      invoiceIds.push(invoice.id);
+      return { invoiceNumber: invoice.invoice_number };
+    });
+
+    if (invoiceIds.length > 0) {
+      await loadInvoices();
+      queueXeroSync(invoiceIds);
+    }
+    return results;
+  };
+
+  const rejectOrders = async (orderIds: string[], reason: string, onProgress?: BulkProgress): Promise<BulkOrderResult[]> => {
+    if (!reason.trim()) {
+      throw new Error('Enter why the orders are being rejected.');
+    }
+    return runBulk(orderIds, onProgress, (order) =>
+      updateOrderStatus(order.id, 'cancelled', undefined, `Rejected: ${reason.trim()}`)
+    );
+  };
+
+  // Prices stay as they were ordered; edit the order to re-price for the new customer
+  const reassignOrders = async (orderIds: string[], customerId: string, onProgress?: BulkProgress): Promise<BulkOrderResult[]> => {
+    return runBulk(orderIds, onProgress, async (order) => {
+      if (order.customer_id === customerId) return;
+      const updated = await updateOrder(order.id, { customer_id: customerId });
+      if (!updated) {
+        throw new Error('Failed to update the order');
+      }
+    });
+  };
+
+  // Pricing
+  // Customers are priced as themselves unless a customer is given (owner ordering on their behalf).
+  // A signed-in customer's price group is the one set by the business selling the item.
+  const getPricingCustomer = (item: Item, customer?: PricingCustomer | null): PricingCustomer | null => {
+    const pricingCustomer = customer !== undefined ? customer : user?.role === 'user' ? user : null;
+    if (!pricingCustomer || pricingCustomer.id !== user?.id) return pricingCustomer;
+
+    const link = state.customerSuppliers.find((cs) => cs.supplier_tenant_id === item.tenant_id);
+    return { id: pricingCustomer.id, price_group: link?.price_group ?? null };
+  };
+
+  const getItemPrice = (item: Item, customer?: PricingCustomer | null): ResolvedPrice => {
+    return resolveItemPrice(item, getPricingCustomer(item, customer), state.priceLists);
+  };
+
+  const getLinePrice = (item: Item, quantity: number, customer?: PricingCustomer | null): LinePrice => {
+    return priceLine(item, quantity, getPricingCustomer(item, customer), state.priceLists);
+  };
+
+  // Split catalogue lines into carton and loose-unit lines at tier prices.
+  // Lines already priced by the carton or by hand are kept as they are.
+  const applyTieredPricing = (lines: OrderItem[], customer?: PricingCustomer | null): OrderItem[] => {
+    return lines.flatMap((line) => {
+      if (!line.procurement_item_id || line.price_source === 'manual' || isCartonLine(line)) {
+        return [line];
+      }
+      const item = state.items.find((i) => i.id === line.procurement_item_id);
+      if (!item) return [line];
+
+      return getLinePrice(item, line.quantity, customer).lines.map((priced) => ({
+        ...line,
+        quantity: priced.quantity,
+        unit: priced.unit,
+        unit_price: priced.unit_price,
+        total: priced.total,
+        price_source: priced.price_source,
+        price_list_id: priced.price_list_id,
+      }));
+    });
+  };
+
+  const savePriceList = async (
+    priceList: Omit<PriceList, 'id' | 'tenant_id' | 'items'> & { id?: string },
+    items: PriceListItem[]
+  ): Promise<PriceList | null> => {
+    if (!tenant) return null;
+
+    // The list and its item prices are written together, so a failure can't wipe contract prices
+    const { data, error } = await supabase.rpc('save_price_list', {
+      p_tenant_id: tenant.id,
+      p_price_list_id: priceList.id || null,
+      p_name: priceList.name,
+      p_customer_id: priceList.customer_id || null,
+      p_price_group: priceList.price_group || null,
+      p_discount_percent: priceList.discount_percent ?? 0,
+      p_effective_from: priceList.effective_from || null,
+      p_effective_to: priceList.effective_to || null,
+      p_is_active: priceList.is_active,
+      p_notes: priceList.notes || null,
+      p_items: items.map((item) => ({ item_id: item.item_id, unit_price: item.unit_price })),
+    });
+
+    if (error) {
+      console.error('Error saving price list:', error);
+      throw new Error(error.message);
+    }
+
+    const completeList = data as PriceList;
+    const otherLists = state.priceLists.filter((l) => l.id !== completeList.id);
+    dispatch({
+      type: 'SET_PRICE_LISTS',
+      payload: [...otherLists, completeList].sort((a, b) => a.name.localeCompare(b.name)),
+    });
+    return completeList;
+  };
+
+  const deletePriceList = async (priceListId: string): Promise<boolean> => {
+    const { error } = await supabase.from('price_lists').delete().eq('id', priceListId);
+    if (error) {
+      console.error('Error deleting price list:', error);
+      return false;
+    }
+    dispatch({ type: 'SET_PRICE_LISTS', payload: state.priceLists.filter((l) => l.id !== priceListId) });
+    return true;
+  };
+
+  // Standing orders
+  const saveStandingOrder = async (
+    standingOrder: Omit<StandingOrder, 'id' | 'items' | 'created_at' | 'updated_at'> & { id?: string },
+    items: StandingOrderItem[]
+  ): Promise<StandingOrder | null> => {
+    // The standing order and its lines are written together, so a failure can't leave it empty
+    const { data, error } = await supabase.rpc('save_standing_order', {
+      p_standing_order_id: standingOrder.id || null,
+      p_tenant_id: standingOrder.tenant_id,
+      p_customer_id: standingOrder.customer_id,
+      p_supplier_id: standingOrder.supplier_id,
+      p_name: standingOrder.name,
+      p_delivery_day: standingOrder.delivery_day,
+      p_interval_weeks: standingOrder.interval_weeks,
+      p_auto_submit: standingOrder.auto_submit,
+      p_is_active: standingOrder.is_active,
+      p_next_delivery_date: standingOrder.next_delivery_date,
+      p_notes: standingOrder.notes || null,
+      p_items: items.map((item) => ({ item_id: item.item_id, quantity: item.quantity })),
+    });
+
+    if (error) {
+      console.error('Error saving standing order:', error);
+      throw new Error(error.message);
+    }
+
+    const completeOrder = data as StandingOrder;
+    const others = state.standingOrders.filter((so) => so.id !== completeOrder.id);
+    dispatch({
+      type: 'SET_STANDING_ORDERS',
+      payload: [...others, completeOrder].sort((a, b) => a.next_delivery_date.localeCompare(b.next_delivery_date)),
+    });
+    return completeOrder;
+  };
+
+  const deleteStandingOrder = async (standingOrderId: string): Promise<boolean> => {
+    const { error } = await supabase.from('standing_orders').delete().eq('id', standingOrderId);
+    if (error) {
+      console.error('Error deleting standing order:', error);
+      return false;
+    }
+    dispatch({
+      type: 'SET_STANDING_ORDERS',
+      payload: state.standingOrders.filter((so) => so.id !== standingOrderId),
+    });
+    return true;
+  };
+
+  // Place a standing order now for its next delivery, then move it on to the following one
+  const placeStandingOrder = async (standingOrderId: string): Promise<Order | null> => {
+    const standingOrder = state.standingOrders.find((so) => so.id === standingOrderId);
+    if (!standingOrder) {
+      throw new Error('Standing order not found');
+    }
+
+    const supplier = state.suppliers.find((s) => s.id === standingOrder.supplier_id);
+    const timeZone = getTenantTimeZone(standingOrder.tenant_id);
+    const deliveryDate = standingOrder.next_delivery_date;
+
+    const dateError = supplier && getDeliveryDateError(supplier, deliveryDate, timeZone);
+    if (dateError) {
+      throw new Error(dateError);
+    }
+
+    // Priced per unit here; createOrderForTenant splits full cartons out at carton prices
+    const orderItems: OrderItem[] = (standingOrder.items || []).flatMap((line) => {
+      const item = state.items.find((i) => i.id === line.item_id && i.status === 'active');
+      if (!item) return [];
+      const price = getItemPrice(item);
+      return [{
+        procurement_item_id: item.id,
+        code: item.barcode || item.sku || '',
+        name: item.name,
+        quantity: line.quantity,
+        unit: item.size || 'each',
+        unit_price: price.unit_price,
+        total: price.unit_price * line.quantity,
+        price_source: price.price_source,
+        price_list_id: price.price_list_id,
+        xero_item_code: item.xero_item_code,
+        xero_account_code: item.xero_account_code,
+      }];
+    });
+
+    if (orderItems.length === 0) {
+      throw new Error('None of the items in this standing order are available.');
+    }
+
+    const subtotal = orderItems.reduce((sum, line) => sum + (line.total || 0), 0);
+    const deliveryFee = supplier
+      ? supplier.free_delivery_min && subtotal >= supplier.free_delivery_min ? 0 : supplier.delivery_fee
+      : 0;
+
+    const order = await createOrderForTenant(standingOrder.tenant_id, {
+      supplier_id: standingOrder.supplier_id,
+      order_date: new Date().toISOString().split('T')[0],
+      requested_delivery_date: deliveryDate,
+      subtotal,
+      delivery_fee: deliveryFee,
+      total: subtotal + deliveryFee,
+      status: 'pending_approval',
+      notes: [`Standing order: ${standingOrder.name}`, standingOrder.notes].filter(Boolean).join('\n'),
+      standing_order_id: standingOrder.id,
+      items: orderItems,
+    });
+    if (!order) return null;
+
+    const nextDeliveryDate = getNextCycleDeliveryDate(
+      deliveryDate,
+      standingOrder.interval_weeks,
+      supplier?.cutoff_time,
+      timeZone
+    );
+    const { error } = await supabase
+      .from('standing_orders')
+      .update({
+        last_generated_for: deliveryDate,
+        last_order_id: order.id,
+        next_delivery_date: nextDeliveryDate,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', standingOrder.id);
+
+    if (error) {
+      console.error('Error advancing standing order:', error);
+    }
+    await loadStandingOrders();
+    return order;
+  };
+
+  // Delivery runs
+  // Stops are replaced on every save, numbered in the order given. Runs can only be
+  // changed while planned; dispatch_delivery_run marks their orders sent.
+  const saveDeliveryRun = async (
+    run: Pick<DeliveryRun, 'delivery_date' | 'name' | 'driver_name' | 'notes'> & { id?: string },
+    orderIds: string[]
+  ): Promise<DeliveryRun | null> => {
+    if (!tenant || !user) return null;
+
+    // The run and its stops are written together, so a failure can't leave a run half saved
+    const { data: saved, error } = await supabase.rpc('save_delivery_run', {
+      p_tenant_id: tenant.id,
+      p_run_id: run.id || null,
+      p_delivery_date: run.delivery_date,
+      p_name: run.name,
+      p_driver_name: run.driver_name || null,
+      p_notes: run.notes || null,
+      p_order_ids: orderIds,
+    });
+
+    if (error) {
+      console.error('Error saving delivery run:', error);
+      throw new Error(error.message);
+    }
+
+    const { data: stops, error: stopsError } = await supabase
+      .from('delivery_run_stops')
+      .select('*')
+      .eq('run_id', saved.id)
+      .order('stop_number');
+
+    if (stopsError) {
+      console.error('Error loading delivery run stops:', stopsError);
+    }
+
+    const completeRun: DeliveryRun = { ...saved, stops: stops || [] };
+    const others = state.deliveryRuns.filter((r) => r.id !== completeRun.id);
+    dispatch({
+      type: 'SET_DELIVERY_RUNS',
+      payload: [...others, completeRun].sort((a, b) => a.delivery_date.localeCompare(b.delivery_date)),
+    });
+    return completeRun;
+  };
+
+  const deleteDeliveryRun = async (runId: string): Promise<boolean> => {
+    const run = state.deliveryRuns.find((r) => r.id === runId);
+    if (run && run.status !== 'planned') {
+      throw new Error('This run is already out for delivery and cannot be deleted.');
+    }
+
+    // Stops are removed by ON DELETE CASCADE; the orders stay approved
+    const { error } = await supabase.from('delivery_runs').delete().eq('id', runId);
+    if (error) {
+      console.error('Error deleting delivery run:', error);
+      return false;
+    }
+    dispatch({ type: 'SET_DELIVERY_RUNS', payload: state.deliveryRuns.filter((r) => r.id !== runId) });
+    return true;
+  };
+
+  // Send a run out for delivery; returns how many orders were marked sent
+  const dispatchDeliveryRun = async (runId: string): Promise<number> => {
+    const { data, error } = await supabase.rpc('dispatch_delivery_run', { p_run_id: runId });
+
+    if (error) {
+      console.error('Error dispatching delivery run:', error);
+      throw new Error(error.message);
+    }
+
+    await Promise.all([loadOrders(), loadDeliveryRuns()]);
+    return data ?? 0;
+  };
+
+  // Proof of delivery
+  // The photo and signature go to the delivery-proofs bucket under <tenant_id>/<order_id>/,
+  // then record_delivery_proof saves received quantities and marks the order delivered.
+  const uploadDeliveryProofFile = async (
+    path: string,
+    body: ArrayBuffer | string,
+    contentType: string
+  ): Promise<string | null> => {
+    const { error } = await supabase.storage
+      .from('delivery-proofs')
+      .upload(path, body, { contentType, upsert: false });
+
+    if (error) {
+      console.error('Error uploading delivery proof:', error);
+      return null;
+    }
+    return path;
+  };
+
+  const recordDeliveryProof = async (orderId: string, proof: DeliveryProofInput): Promise<boolean> => {
+    const order = state.orders.find((o) => o.id === orderId);
+    if (!order) return false;
+
+    const transitionError = getTransitionError(order, 'delivered', state.invoices);
+    if (transitionError) {
+      throw new Error(transitionError);
+    }
+    if (!proof.receivedBy.trim()) {
+      throw new Error('Enter the name of the person receiving the delivery.');
+    }
+    if (!proof.signature || proof.signature.strokes.length === 0) {
+      throw new Error('Ask the person receiving the delivery to sign.');
+    }
+
+    const folder = `${order.tenant_id}/${order.id}`;
+    const stamp = Date.now();
+
+    let photoPath: string | null = null;
+    if (proof.photoUri) {
+      const response = await fetch(proof.photoUri);
+      const blob = await response.blob();
+      const arrayBuffer = await new Response(blob).arrayBuffer();
+      const fileExt = proof.photoUri.split('.').pop()?.toLowerCase() === 'png' ? 'png' : 'jpg';
+      photoPath = await uploadDeliveryProofFile(
+        `${folder}/photo-${stamp}.${fileExt}`,
+        arrayBuffer,
+        blob.type || 'image/jpeg'
+      );
+      if (!photoPath) return false;
+    }
+
+    const signaturePath = await uploadDeliveryProofFile(
+      `${folder}/signature-${stamp}.json`,
+      JSON.stringify(proof.signature),
+      'application/json'
+    );
+    if (!signaturePath) return false;
+
+    const lines = (order.items || [])
+      .filter((line) => line.id && proof.receivedQuantities[line.id] != null)
+      .map((line) => ({ id: line.id, received_quantity: proof.receivedQuantities[line.id!] }));
+
+    const { error } = await supabase.rpc('record_delivery_proof', {
+      p_order_id: orderId,
+      p_received_by: proof.receivedBy.trim(),
+      p_photo_path: photoPath,
+      p_signature_path: signaturePath,
+      p_notes: proof.notes?.trim() || null,
+      p_lines: lines,
+    });
+
+    if (error) {
+      console.error('Error recording delivery proof:', error);
+      throw new Error(error.message);
+    }
+
+    await Promise.all([loadOrders(), loadDeliveryRuns()]);
+
+    // Anything invoiced but not received is credited straight away
+    const invoice = getLiveInvoice(order.id, state.invoices);
+    if (invoice) {
+      const received: Order = {
+        ...order,
+        items: (order.items || []).map((line) =>
+          line.id && proof.receivedQuantities[line.id] != null
+            ? { ...line, received_quantity: proof.receivedQuantities[line.id] }
+            : line
+        ),
+      };
+      const shortLines = getShortDeliveryLines(invoice, received);
+      let credited = false;
+      if (shortLines.length > 0) {
+        try {
+          credited = !!(await createCreditNote(invoice.id, 'short_delivery', shortLines, `Short delivery, received by ${proof.receivedBy.trim()}`));
+        } catch (err) {
+          console.error('Failed to credit short delivery:', err);
+        }
+      }
+      // Received quantities are now known; a credit note re-matches the invoice itself
+      if (!credited) {
+        await matchInvoice(invoice.id);
+      }
+    }
+
+    if (order.customer_id) {
+      const orderNumber = order.order_number || order.id.substring(0, 8).toUpperCase();
+      notifyOrderDelivered(order.customer_id, orderNumber, proof.receivedBy.trim()).catch((err) => {
+        console.error('Failed to send delivery notification:', err);
+      });
+    }
+    return true;
+  };
+
+  // Load an order's proof with a short-lived photo URL and the signature strokes
+  const getDeliveryProof = async (orderId: string): Promise<DeliveryProof | null> => {
+    const { data: proof, error } = await supabase
+      .from('delivery_proofs')
+      .select('*')
+      .eq('order_id', orderId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading delivery proof:', error);
+      return null;
+    }
+    if (!proof) return null;
+
+    let photoUrl: string | null = null;
+    if (proof.photo_path) {
+      const { data: signed } = await supabase.storage
+        .from('delivery-proofs')
+        .createSignedUrl(proof.photo_path, 60 * 60);
+      photoUrl = signed?.signedUrl || null;
+    }
+
+    let signature: Signature | null = null;
+    if (proof.signature_path) {
+      const { data: file } = await supabase.storage.from('delivery-proofs').download(proof.signature_path);
+      if (file) {
+        try {
+          signature = JSON.parse(await new Response(file).text());
+        } catch (err) {
+          console.error('Error reading delivery signature:', err);
+        }
+      }
+    }
+
+    return { ...proof, photo_url: photoUrl, signature };
   };
 
   const exportToXero = async (invoiceId: string): Promise<boolean> => {
@@ -1001,6 +2453,9 @@ export function OrderProvider({ children }: { children: ReactNode }) {
       console.error('Invoice or order not found');
       throw new Error('Invoice or order not found');
     }
+    if (invoice.direction === 'inbound') {
+      throw new Error('Supplier invoices are not exported to Xero');
+    }
 
     // Use the Xero service to create the invoice
     const result = await createXeroInvoice(invoice.order_id, invoiceId);
@@ -1072,51 +2527,25 @@ export function OrderProvider({ children }: { children: ReactNode }) {
   ): Promise<Order | null> => {
     if (!user) return null;
 
-    const { items, ...orderData } = order;
+    const { items: orderLines, ...orderData } = order;
+    orderData.requested_delivery_date = resolveDeliveryDate(order.supplier_id, tenantId, order.requested_delivery_date);
+    const items = applyTieredPricing(orderLines || [], user);
 
     // Customer orders are pending approval
-    const status: OrderStatus = 'pending_approval';
-
-    const { data: newOrder, error: orderError } = await supabase
-      .from('orders')
-      .insert({
+    const result = await insertOrderWithItems(
+      {
         ...orderData,
         tenant_id: tenantId, // Use the supplier's tenant
         created_by: user.id,
         customer_id: user.id, // Link customer to order for Xero export
-        status,
-      })
-      .select()
-      .single();
-
-    if (orderError) {
-      console.error('Error creating order for tenant:', orderError);
-      return null;
-    }
-
-    if (items && items.length > 0) {
-      const orderItems = items.map((item) => ({
-        order_id: newOrder.id,
-        tenant_id: tenantId,
-        name: item.name,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        total: item.quantity * item.unit_price,
-        xero_item_code: item.xero_item_code || null,
-        xero_account_code: item.xero_account_code || null,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) {
-        console.error('Error creating order items:', itemsError);
-      }
-    }
+        status: 'pending_approval',
+      },
+      items
+    );
+    if (!result) return null;
 
-    const completeOrder = { ...newOrder, items: items || [] };
-    dispatch({ type: 'ADD_ORDER', payload: completeOrder });
+    const newOrder = result.order;
+    dispatch({ type: 'ADD_ORDER', payload: newOrder });
 
     // Notify owners about the new order
     const customerName = user.business_name || user.full_name || user.email;
@@ -1125,7 +2554,7 @@ export function OrderProvider({ children }: { children: ReactNode }) {
       console.error('Failed to send order notification:', err);
     });
 
-    return completeOrder;
+    return newOrder;
   };
 
   // Utility
@@ -1143,9 +2572,15 @@ export function OrderProvider({ children }: { children: ReactNode }) {
     return 'Unknown Supplier';
   };
 
+  // Delivery dates and cutoffs are in the supplier tenant's timezone
+  const getTenantTimeZone = (tenantId: string): string => {
+    const supplierTenant = state.connectedTenants.find((t) => t.id === tenantId) || (tenant?.id === tenantId ? tenant : null);
+    return supplierTenant?.settings?.timezone || tenant?.settings?.timezone || DEFAULT_TIMEZONE;
+  };
+
   const getCartTotal = (): number => {
     return state.cart.reduce(
-      (sum, c) => sum + (c.item?.wholesale_price || 0) * c.quantity,
+      (sum, c) => sum + (c.item ? getLinePrice(c.item, c.quantity).total : 0),
       0
     );
   };
@@ -1164,27 +2599,70 @@ export function OrderProvider({ children }: { children: ReactNode }) {
       value={{
         state,
         loadAllData,
+        loadItems,
         loadUsers,
+        loadPriceLists,
+        loadStandingOrders,
+        loadDeliveryRuns,
         addToCart,
         updateCartQuantity,
         removeFromCart,
         clearCart,
         clearCartByTenant,
+        reorderToCart,
+        updateSupplier,
         toggleFavourite,
         updateItem,
         createItem,
+        updateStockSettings,
+        adjustStock,
+        receiveStock,
+        getStockMovements,
+        getPurchaseOrders,
+        savePurchaseOrder,
+        sendPurchaseOrder,
+        cancelPurchaseOrder,
+        receivePurchaseOrder,
+        uploadPurchaseOrderBill,
         createOrder,
         createOrderForCustomer,
         updateOrderStatus,
         updateOrder,
         updateOrderItems,
         deleteOrder,
+        getOrderEvents,
+        logOrderEvent,
         loadInvoices,
         generateInvoice,
         approveOrderWithInvoice,
+        approveOrders,
+        rejectOrders,
+        reassignOrders,
+        voidOrderInvoice,
+        createCreditNote,
+        exportCreditNoteToXero,
+        matchInvoice,
+        uploadSupplierInvoice,
         exportToXero,
+        getCustomerStatement,
+        getAgedReceivables,
+        getCustomerCredit,
+        getCustomerCredits,
+        getItemPrice,
+        getLinePrice,
+        savePriceList,
+        deletePriceList,
+        saveStandingOrder,
+        deleteStandingOrder,
+        placeStandingOrder,
+        saveDeliveryRun,
+        deleteDeliveryRun,
+        dispatchDeliveryRun,
+        recordDeliveryProof,
+        getDeliveryProof,
         getSupplierName,
         getTenantName,
+        getTenantTimeZone,
         getCartTotal,
         getCartQuantity,
         getPendingApprovalCount,
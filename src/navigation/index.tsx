@@ -18,7 +18,19 @@ import SettingsScreen from '../screens/SettingsScreen';
 import UserListScreen from '../screens/UserListScreen';
 import MasterItemListScreen from '../screens/MasterItemListScreen';
 import ItemTableScreen from '../screens/ItemTableScreen';
+import StockScreen from '../screens/StockScreen';
+import PurchaseOrdersScreen from '../screens/PurchaseOrdersScreen';
 import FavouritesScreen from '../screens/FavouritesScreen';
+import StandingOrdersScreen from '../screens/StandingOrdersScreen';
+import PriceListsScreen from '../screens/PriceListsScreen';
+import DeliveryScheduleScreen from '../screens/DeliveryScheduleScreen';
+import InvoiceMatchingScreen from '../screens/InvoiceMatchingScreen';
+import TaxCodesScreen from '../screens/TaxCodesScreen';
+import CreditControlScreen from '../screens/CreditControlScreen';
+import NumberingScreen from '../screens/NumberingScreen';
+import StatementScreen from '../screens/StatementScreen';
+import AgedReceivablesScreen from '../screens/AgedReceivablesScreen';
+import DeliveryRunsScreen from '../screens/DeliveryRunsScreen';
 
 const Tab = createBottomTabNavigator();
 const Stack = createNativeStackNavigator();
@@ -61,20 +73,124 @@ function ItemsStack() {
         component={MasterItemListScreen}
         options={({ navigation }) => ({
           title: 'Item List',
+          headerRight: () => (
+            <View style={{ flexDirection: 'row' }}>
+              <Pressable
+                onPress={() => navigation.navigate('Stock')}
+                style={{ paddingHorizontal: theme.spacing.sm }}
+              >
+                <Ionicons name="cube-outline" size={24} color={theme.colors.white} />
+              </Pressable>
+              <Pressable
+                onPress={() => navigation.navigate('ItemTable')}
+                style={{ paddingHorizontal: theme.spacing.md }}
+              >
+                <Ionicons name="create-outline" size={24} color={theme.colors.white} />
+              </Pressable>
+            </View>
+          ),
+        })}
+      />
+      <Stack.Screen
+        name="ItemTable"
+        component={ItemTableScreen}
+        options={{ headerShown: false }}
+      />
+      <Stack.Screen
+        name="Stock"
+        component={StockScreen}
+        options={({ navigation }) => ({
+          title: 'Stock',
           headerRight: () => (
             <Pressable
-              onPress={() => navigation.navigate('ItemTable')}
+              onPress={() => navigation.navigate('PurchaseOrders')}
               style={{ paddingHorizontal: theme.spacing.md }}
             >
-              <Ionicons name="create-outline" size={24} color={theme.colors.white} />
+              <Ionicons name="document-text-outline" size={24} color={theme.colors.white} />
             </Pressable>
           ),
         })}
       />
       <Stack.Screen
-        name="ItemTable"
-        component={ItemTableScreen}
-        options={{ headerShown: false }}
+        name="PurchaseOrders"
+        component={PurchaseOrdersScreen}
+        options={{ title: 'Purchase Orders' }}
+      />
+    </Stack.Navigator>
+  );
+}
+
+function InvoicesStack() {
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerStyle: { backgroundColor: theme.colors.primary },
+        headerTintColor: theme.colors.white,
+        headerTitleStyle: { fontWeight: theme.fontWeight.semibold },
+      }}
+    >
+      <Stack.Screen
+        name="InvoicesMain"
+        component={InvoicesScreen}
+        options={{ title: 'Invoices' }}
+      />
+      <Stack.Screen
+        name="Statement"
+        component={StatementScreen}
+        options={{ title: 'Statement' }}
+      />
+      <Stack.Screen
+        name="AgedReceivables"
+        component={AgedReceivablesScreen}
+        options={{ title: 'Aged Receivables' }}
+      />
+    </Stack.Navigator>
+  );
+}
+
+function SettingsStack() {
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerStyle: { backgroundColor: theme.colors.primary },
+        headerTintColor: theme.colors.white,
+        headerTitleStyle: { fontWeight: theme.fontWeight.semibold },
+      }}
+    >
+      <Stack.Screen
+        name="SettingsMain"
+        component={SettingsScreen}
+        options={{ title: 'Settings' }}
+      />
+      <Stack.Screen
+        name="PriceLists"
+        component={PriceListsScreen}
+        options={{ title: 'Price Lists' }}
+      />
+      <Stack.Screen
+        name="DeliverySchedule"
+        component={DeliveryScheduleScreen}
+        options={{ title: 'Delivery Schedule' }}
+      />
+      <Stack.Screen
+        name="InvoiceMatching"
+        component={InvoiceMatchingScreen}
+        options={{ title: 'Invoice Matching' }}
+      />
+      <Stack.Screen
+        name="TaxCodes"
+        component={TaxCodesScreen}
+        options={{ title: 'Tax Codes' }}
+      />
+      <Stack.Screen
+        name="CreditControl"
+        component={CreditControlScreen}
+        options={{ title: 'Credit Control' }}
+      />
+      <Stack.Screen
+        name="Numbering"
+        component={NumberingScreen}
+        options={{ title: 'Numbering' }}
       />
     </Stack.Navigator>
   );
@@ -153,10 +269,20 @@ function MainTabs() {
             ),
           }}
         />
+        <Tab.Screen
+          name="Deliveries"
+          component={DeliveryRunsScreen}
+          options={{
+            tabBarIcon: ({ color, size }) => (
+              <Ionicons name="car" size={size} color={color} />
+            ),
+          }}
+        />
         <Tab.Screen
           name="Invoices"
-          component={InvoicesScreen}
+          component={InvoicesStack}
           options={{
+            headerShown: false,
             tabBarIcon: ({ color, size }) => (
               <Ionicons name="document-text" size={size} color={color} />
             ),
@@ -174,8 +300,9 @@ function MainTabs() {
         />
         <Tab.Screen
           name="Settings"
-          component={SettingsScreen}
+          component={SettingsStack}
           options={{
+            headerShown: false,
             tabBarIcon: ({ color, size }) => (
               <Ionicons name="settings" size={size} color={color} />
             ),
@@ -185,7 +312,7 @@ function MainTabs() {
     );
   }
 
-  // Regular users (customers) see Favourites, Item List, Orders, Invoices, Settings
+  // Regular users (customers) see Favourites, Standing Orders, Item List, Orders, Invoices, Settings
   return (
     <Tab.Navigator
       screenOptions={{
@@ -209,6 +336,16 @@ function MainTabs() {
           ),
         }}
       />
+      <Tab.Screen
+        name="StandingOrders"
+        component={StandingOrdersScreen}
+        options={{
+          title: 'Standing Orders',
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="repeat" size={size} color={color} />
+          ),
+        }}
+      />
       <Tab.Screen
         name="ItemList"
         component={ShopStack}
@@ -231,8 +368,9 @@ function MainTabs() {
       />
       <Tab.Screen
         name="Invoices"
-        component={InvoicesScreen}
+        component={InvoicesStack}
         options={{
+          headerShown: false,
           tabBarIcon: ({ color, size }) => (
             <Ionicons name="document-text" size={size} color={color} />
           ),
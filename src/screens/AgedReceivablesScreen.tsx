@@ -0,0 +1,288 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import * as Print from 'expo-print';
+import { theme } from '../theme';
+import { useAuth } from '../context/AuthContext';
+import { useOrders } from '../context/OrderContext';
+import { AgedReceivable } from '../types';
+import {
+  AGING_LABELS,
+  buildAgedReceivablesHtml,
+  formatMoney,
+  formatStatementDate,
+  getTodayString,
+} from '../utils/statements';
+
+export default function AgedReceivablesScreen() {
+  const navigation = useNavigation<any>();
+  const { tenant } = useAuth();
+  const { getAgedReceivables } = useOrders();
+
+  const [rows, setRows] = useState<AgedReceivable[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const asOf = getTodayString();
+
+  const load = async () => {
+    setRows(await getAgedReceivables(asOf));
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    load().finally(() => setLoading(false));
+  }, [tenant?.id]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await load();
+    setRefreshing(false);
+  };
+
+  const totals = useMemo(() => {
+    const sums = { current: 0, days_30: 0, days_60: 0, days_90_plus: 0, total: 0 };
+    for (const row of rows || []) {
+      sums.current += Number(row.current_amount);
+      sums.days_30 += Number(row.days_30);
+      sums.days_60 += Number(row.days_60);
+      sums.days_90_plus += Number(row.days_90_plus);
+      sums.total += Number(row.total);
+    }
+    return sums;
+  }, [rows]);
+
+  const handlePrint = async () => {
+    try {
+      await Print.printAsync({ html: buildAgedReceivablesHtml(rows || [], asOf, tenant?.name || '') });
+    } catch (e) {
+      console.error('Print error:', e);
+    }
+  };
+
+  const renderRow = ({ item }: { item: AgedReceivable }) => {
+    const overdue = Number(item.days_30) + Number(item.days_60) + Number(item.days_90_plus);
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => navigation.navigate('Statement', { customerId: item.customer_id })}
+        activeOpacity={0.7}
+      >
+        <View style={styles.rowHeader}>
+          <Text style={styles.customerName} numberOfLines={1}>{item.customer_name}</Text>
+          <Text style={styles.rowTotal}>{formatMoney(item.total)}</Text>
+        </View>
+        <View style={styles.bucketRow}>
+          {AGING_LABELS.map((bucket) => {
+            const value = Number(bucket.key === 'current' ? item.current_amount : item[bucket.key]);
+            return (
+              <View key={bucket.key} style={styles.bucket}>
+                <Text style={styles.bucketLabel}>{bucket.label}</Text>
+                <Text style={[styles.bucketValue, bucket.key !== 'current' && value > 0 && styles.overdueValue]}>
+                  {value > 0 ? formatMoney(value) : '-'}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+        <Text style={styles.rowMeta}>
+          {item.invoice_count} {item.invoice_count === 1 ? 'invoice' : 'invoices'}
+          {overdue > 0 ? ` · ${formatMoney(overdue)} 30+ days` : ''}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHeader = () => (
+    <View>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.headerTitle}>Aged Receivables</Text>
+          <Text style={styles.headerSubtitle}>As at {formatStatementDate(asOf)}, by invoice age</Text>
+        </View>
+        <TouchableOpacity style={styles.printButton} onPress={handlePrint} disabled={!rows}>
+          <Ionicons name="print-outline" size={20} color={theme.colors.accent} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.totalsCard}>
+        <View style={styles.bucketRow}>
+          {AGING_LABELS.map((bucket) => (
+            <View key={bucket.key} style={styles.bucket}>
+              <Text style={styles.bucketLabel}>{bucket.label}</Text>
+              <Text style={[styles.bucketValue, bucket.key !== 'current' && totals[bucket.key] > 0 && styles.overdueValue]}>
+                {formatMoney(totals[bucket.key])}
+              </Text>
+            </View>
+          ))}
+        </View>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Total owing</Text>
+          <Text style={styles.totalValue}>{formatMoney(totals.total)}</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.colors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={rows || []}
+      keyExtractor={(item) => item.customer_id}
+      renderItem={renderRow}
+      ListHeaderComponent={renderHeader}
+      ListEmptyComponent={
+        <Text style={styles.emptyText}>
+          {rows ? 'Nothing owing. Every exported invoice has been paid or credited.' : 'Aged receivables could not be loaded.'}
+        </Text>
+      }
+      ItemSeparatorComponent={() => <View style={styles.separator} />}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.colors.accent} />
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: theme.spacing.md,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  printButton: {
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.surface,
+  },
+
+  // Totals
+  totalsCard: {
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    marginBottom: theme.spacing.md,
+    ...theme.shadow.sm,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+    paddingTop: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  totalLabel: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  totalValue: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+
+  // Customer rows
+  row: {
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  customerName: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginRight: theme.spacing.sm,
+  },
+  rowTotal: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  rowMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.sm,
+  },
+  bucketRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  bucket: {
+    flex: 1,
+  },
+  bucketLabel: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+  },
+  bucketValue: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+    marginTop: 2,
+  },
+  overdueValue: {
+    color: theme.colors.danger,
+  },
+  separator: {
+    height: theme.spacing.sm,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: theme.spacing.xl,
+  },
+});
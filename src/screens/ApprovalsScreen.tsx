@@ -19,13 +19,16 @@ import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { theme } from '../theme';
-import { useOrders } from '../context/OrderContext';
+import { useOrders, BulkOrderResult, BulkProgress } from '../context/OrderContext';
 import { useAuth } from '../context/AuthContext';
-import { Order, OrderItem, Item, User } from '../types';
+import { Order, OrderItem, Item, User, StandingOrder, CustomerCredit } from '../types';
 import { parseOrderCSV, ParsedOrderLine, ParsedCSVResult } from '../utils/csvParser';
 import { matchProduct, matchCustomer, ProductMatchResult, CustomerMatchResult, MatchConfidence } from '../utils/productMatcher';
 import { triggerGmailSync } from '../services/gmail';
 import ItemMatchingModal from '../components/ItemMatchingModal';
+import OrderTimeline from '../components/OrderTimeline';
+import { getDeliveryCutoff, getDeliveryDateError, getEarliestDeliveryDate } from '../utils/deliverySchedule';
+import { CreditCheck, getCreditCheck, getCreditControlMode } from '../utils/creditControl';
 
 interface EditableOrderItem extends OrderItem {
   isDeleted?: boolean;
@@ -43,8 +46,26 @@ interface ImportMatchedItem {
   removed: boolean;
 }
 
+type BulkAction = 'approve' | 'reject' | 'reassign';
+
+const BULK_LABELS: Record<BulkAction, { progress: string; done: string }> = {
+  approve: { progress: 'Approving', done: 'approved' },
+  reject: { progress: 'Rejecting', done: 'rejected' },
+  reassign: { progress: 'Reassigning', done: 'reassigned' },
+};
+
+// Picker dates are local; delivery dates are stored as YYYY-MM-DD
+function toDeliveryDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function fromDeliveryDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
 export default function ApprovalsScreen() {
-  const { state, updateOrderStatus, getSupplierName, loadAllData, approveOrderWithInvoice, updateOrder, updateOrderItems, createOrderForCustomer, createItem } = useOrders();
+  const { state, updateOrderStatus, getSupplierName, loadAllData, approveOrderWithInvoice, approveOrders, rejectOrders, reassignOrders, updateOrder, updateOrderItems, createOrderForCustomer, createItem, getItemPrice, getLinePrice, getTenantTimeZone, getCustomerCredits } = useOrders();
   const { user, tenant } = useAuth();
 
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
@@ -83,13 +104,78 @@ export default function ApprovalsScreen() {
   const [isCheckingEmail, setIsCheckingEmail] = useState(false);
   const [showMatchingModal, setShowMatchingModal] = useState(false);
 
+  // Bulk selection state
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [bulkStep, setBulkStep] = useState<'reason' | 'customer' | 'progress' | 'results' | null>(null);
+  const [bulkReason, setBulkReason] = useState('');
+  const [bulkCustomerQuery, setBulkCustomerQuery] = useState('');
+  const [bulkProgress, setBulkProgress] = useState({ done: 0, total: 0 });
+  const [bulkResults, setBulkResults] = useState<BulkOrderResult[]>([]);
+
+  // Credit control: orders for held customers from email and standing orders wait in review
+  const [queue, setQueue] = useState<'pending' | 'review'>('pending');
+  const [credits, setCredits] = useState<Record<string, CustomerCredit>>({});
+
   const pendingOrders = useMemo(
     () => state.orders.filter((o) => o.status === 'pending_approval'),
     [state.orders]
   );
 
+  const reviewCount = useMemo(() => pendingOrders.filter((o) => o.credit_review).length, [pendingOrders]);
+
+  const queueOrders = useMemo(
+    () => pendingOrders.filter((o) => !!o.credit_review === (queue === 'review')),
+    [pendingOrders, queue]
+  );
+
+  useEffect(() => {
+    if (pendingOrders.length === 0) return;
+    getCustomerCredits().then((rows) => {
+      if (rows) setCredits(Object.fromEntries(rows.map((row) => [row.customer_id, row])));
+    });
+  }, [pendingOrders]);
+
+  const getOrderCreditCheck = useCallback(
+    (order: Order): CreditCheck => {
+      const customerId = order.customer_id || order.created_by;
+      return getCreditCheck(customerId ? credits[customerId] : null, 0, getCreditControlMode(tenant?.settings));
+    },
+    [credits, tenant?.settings]
+  );
+
+  // Drop selected orders that are no longer pending (handled elsewhere or by a batch)
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const pendingIds = new Set(pendingOrders.map((o) => o.id));
+      const next = new Set([...prev].filter((id) => pendingIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [pendingOrders]);
+
   const pendingCount = pendingOrders.length;
 
+  // Back to the main queue once the review bucket is empty
+  useEffect(() => {
+    if (queue === 'review' && reviewCount === 0) setQueue('pending');
+  }, [queue, reviewCount]);
+
+  const switchQueue = useCallback((next: 'pending' | 'review') => {
+    setQueue(next);
+    setSelectedIds(new Set());
+  }, []);
+
+  // Standing orders that will produce (or remind customers to place) the next orders
+  const upcomingStandingOrders = useMemo(
+    () =>
+      state.standingOrders
+        .filter((so) => so.is_active)
+        .sort((a, b) => a.next_delivery_date.localeCompare(b.next_delivery_date))
+        .slice(0, 10),
+    [state.standingOrders]
+  );
+
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
     await loadAllData();
@@ -141,7 +227,7 @@ export default function ApprovalsScreen() {
   const handleUpdateItemUnitPrice = useCallback((index: number, newPrice: string) => {
     const price = parseFloat(newPrice) || 0;
     setEditingItems(prev => prev.map((item, i) =>
-      i === index ? { ...item, unit_price: price, total: item.quantity * price } : item
+      i === index ? { ...item, unit_price: price, total: item.quantity * price, price_source: 'manual', price_list_id: null } : item
     ));
   }, []);
 
@@ -176,7 +262,9 @@ export default function ApprovalsScreen() {
         ));
       }
     } else {
-      // Add new item to the order
+      // Add new item to the order at the order customer's price
+      const orderCustomer = state.users.find((u) => u.id === selectedOrder?.customer_id) || null;
+      const price = getItemPrice(item, orderCustomer);
       const newItem: EditableOrderItem = {
         id: `new-${Date.now()}`,
         order_id: selectedOrder?.id || '',
@@ -184,13 +272,15 @@ export default function ApprovalsScreen() {
         name: item.name,
         quantity: 1,
         unit: item.unit || 'each',
-        unit_price: item.wholesale_price,
-        total: item.wholesale_price,
+        unit_price: price.unit_price,
+        total: price.unit_price,
+        price_source: price.price_source,
+        price_list_id: price.price_list_id,
         isDeleted: false,
       };
       setEditingItems(prev => [...prev, newItem]);
     }
-  }, [editingItems, selectedOrder]);
+  }, [editingItems, selectedOrder, state.users, getItemPrice]);
 
   // Filter items for edit modal search
   const filteredEditItems = useMemo(() => {
@@ -222,27 +312,21 @@ export default function ApprovalsScreen() {
 
     setIsProcessing(true);
     try {
-      // Update order items
+      // Update order items (and the totals, GST included)
       await updateOrderItems(selectedOrder.id, activeItems);
 
-      // Update order totals and notes
-      const newTotal = calculateEditTotal();
-      await updateOrder(selectedOrder.id, {
-        subtotal: newTotal,
-        total: newTotal + (selectedOrder.tax || 0) + (selectedOrder.delivery_fee || 0),
-        notes: editingNotes,
-      });
+      await updateOrder(selectedOrder.id, { notes: editingNotes });
 
       Alert.alert('Success', 'Order updated successfully');
       closeEditModal();
       await loadAllData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving edits:', error);
-      Alert.alert('Error', 'Failed to save changes. Please try again.');
+      Alert.alert('Error', error?.message || 'Failed to save changes. Please try again.');
     } finally {
       setIsProcessing(false);
     }
-  }, [selectedOrder, editingItems, editingNotes, updateOrderItems, updateOrder, calculateEditTotal, closeEditModal, loadAllData]);
+  }, [selectedOrder, editingItems, editingNotes, updateOrderItems, updateOrder, closeEditModal, loadAllData]);
 
   // Cross-platform alert helpers (must be defined before handleReject)
   const showMessage = useCallback((title: string, message: string) => {
@@ -268,18 +352,29 @@ export default function ApprovalsScreen() {
 
   const handleApprove = useCallback(
     (order: Order) => {
+      const credit = getOrderCreditCheck(order);
+      if (credit.status === 'block') {
+        showMessage(
+          'Cannot Approve',
+          `${credit.reasons.join('\n')}\n\nLift the hold or change the credit limit in Customers, or cancel the order.`
+        );
+        return;
+      }
+      const creditWarning = credit.status === 'flag' ? `\n\n${credit.reasons.join('\n')}` : '';
       showConfirm(
         'Approve Order',
-        `Approve order ${order.order_number || order.id.substring(0, 8)}? This will generate an invoice.`,
+        `Approve order ${order.order_number || order.id.substring(0, 8)}? This will generate an invoice.${creditWarning}`,
         async () => {
           setIsProcessing(true);
           try {
-            const result = await approveOrderWithInvoice(order.id, user?.id || '');
-            if (result) {
+            const { invoice } = await approveOrderWithInvoice(order.id, user?.id || '');
+            if (invoice) {
               showMessage(
                 'Order Approved',
-                `Order approved and invoice ${result.invoice?.invoice_number || ''} has been generated.`
+                `Order approved and invoice ${invoice.invoice_number || ''} has been generated.`
               );
+            } else {
+              showMessage('Order Approved', 'The order was approved, but the invoice could not be generated.');
             }
             closeDetail();
             closeEditModal();
@@ -292,7 +387,7 @@ export default function ApprovalsScreen() {
         }
       );
     },
-    [approveOrderWithInvoice, user?.id, closeDetail, closeEditModal, showConfirm, showMessage]
+    [approveOrderWithInvoice, user?.id, closeDetail, closeEditModal, showConfirm, showMessage, getOrderCreditCheck]
   );
 
   const handleReject = useCallback(
@@ -306,9 +401,9 @@ export default function ApprovalsScreen() {
             await updateOrderStatus(order.id, 'cancelled');
             closeDetail();
             closeEditModal();
-          } catch (error) {
+          } catch (error: any) {
             console.error('Error cancelling order:', error);
-            showMessage('Error', 'Failed to cancel order. Please try again.');
+            showMessage('Error', error?.message || 'Failed to cancel order. Please try again.');
           } finally {
             setIsProcessing(false);
           }
@@ -318,6 +413,149 @@ export default function ApprovalsScreen() {
     [updateOrderStatus, closeDetail, closeEditModal, showConfirm, showMessage]
   );
 
+  // Bulk actions
+  const toggleSelectMode = useCallback(() => {
+    setSelectMode((prev) => !prev);
+    setSelectedIds(new Set());
+  }, []);
+
+  const toggleSelected = useCallback((orderId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleSelectAll = useCallback(() => {
+    setSelectedIds((prev) =>
+      prev.size === queueOrders.length ? new Set() : new Set(queueOrders.map((o) => o.id))
+    );
+  }, [queueOrders]);
+
+  // Runs the batch with a progress count, then shows what succeeded and what failed
+  const runBulkAction = useCallback(
+    async (action: BulkAction, run: (orderIds: string[], onProgress: BulkProgress) => Promise<BulkOrderResult[]>) => {
+      const orderIds = pendingOrders.filter((o) => selectedIds.has(o.id)).map((o) => o.id);
+      setBulkAction(action);
+      setBulkProgress({ done: 0, total: orderIds.length });
+      setBulkStep('progress');
+      try {
+        const results = await run(orderIds, (done, total) => setBulkProgress({ done, total }));
+        setBulkResults(results);
+        setBulkStep('results');
+        setSelectedIds(new Set(results.filter((r) => !r.success).map((r) => r.orderId)));
+      } catch (error: any) {
+        console.error('Error running bulk action:', error);
+        setBulkStep(null);
+        showMessage('Error', error?.message || 'Failed to process the selected orders.');
+      }
+    },
+    [pendingOrders, selectedIds, showMessage]
+  );
+
+  // Blocked customers' orders are left out and reported as failed; flagged ones go ahead
+  const handleBulkApprove = useCallback(() => {
+    const count = selectedIds.size;
+    const selected = pendingOrders.filter((o) => selectedIds.has(o.id));
+    const blocked = new Map(
+      selected
+        .map((o) => [o, getOrderCreditCheck(o)] as const)
+        .filter(([, check]) => check.status === 'block')
+        .map(([o, check]) => [o.id, { order: o, reason: check.reasons[0] }])
+    );
+    const flagged = selected.filter((o) => getOrderCreditCheck(o).status === 'flag').length;
+    const notes = [
+      blocked.size > 0 ? `${blocked.size} blocked by credit control will be skipped.` : '',
+      flagged > 0 ? `${flagged} ${flagged === 1 ? 'is' : 'are'} for customers over their limit or overdue.` : '',
+    ].filter(Boolean).join(' ');
+
+    showConfirm(
+      'Approve Orders',
+      `Approve ${count} order${count === 1 ? '' : 's'}? Each gets an invoice, sent to Xero one at a time.${notes ? `\n\n${notes}` : ''}`,
+      () =>
+        runBulkAction('approve', async (orderIds, onProgress) => {
+          const skipped: BulkOrderResult[] = orderIds
+            .filter((id) => blocked.has(id))
+            .map((id) => {
+              const { order, reason } = blocked.get(id)!;
+              return {
+                orderId: id,
+                orderNumber: order.order_number || order.id.substring(0, 8),
+                success: false,
+                error: reason,
+              };
+            });
+          const results = await approveOrders(
+            orderIds.filter((id) => !blocked.has(id)),
+            user?.id || '',
+            (done, total) => onProgress(done + skipped.length, total + skipped.length)
+          );
+          return [...results, ...skipped];
+        })
+    );
+  }, [selectedIds, pendingOrders, getOrderCreditCheck, showConfirm, runBulkAction, approveOrders, user?.id]);
+
+  const openBulkReject = useCallback(() => {
+    setBulkAction('reject');
+    setBulkReason('');
+    setBulkStep('reason');
+  }, []);
+
+  const submitBulkReject = useCallback(() => {
+    if (!bulkReason.trim()) {
+      showMessage('Reason required', 'Enter why the orders are being rejected.');
+      return;
+    }
+    runBulkAction('reject', (orderIds, onProgress) => rejectOrders(orderIds, bulkReason, onProgress));
+  }, [bulkReason, showMessage, runBulkAction, rejectOrders]);
+
+  const openBulkReassign = useCallback(() => {
+    setBulkAction('reassign');
+    setBulkCustomerQuery('');
+    setBulkStep('customer');
+  }, []);
+
+  const submitBulkReassign = useCallback(
+    (customer: User) => {
+      const count = selectedIds.size;
+      const name = customer.business_name || customer.full_name;
+      showConfirm(
+        'Reassign Orders',
+        `Move ${count} order${count === 1 ? '' : 's'} to ${name}? Prices stay as ordered.`,
+        () => runBulkAction('reassign', (orderIds, onProgress) => reassignOrders(orderIds, customer.id, onProgress))
+      );
+    },
+    [selectedIds, showConfirm, runBulkAction, reassignOrders]
+  );
+
+  const closeBulkModal = useCallback(() => {
+    if (bulkStep === 'progress') return;
+    if (bulkStep === 'results' && bulkResults.every((r) => r.success)) {
+      setSelectMode(false);
+    }
+    setBulkStep(null);
+    setBulkAction(null);
+    setBulkResults([]);
+  }, [bulkStep, bulkResults]);
+
+  const bulkCustomers = useMemo(() => {
+    const query = bulkCustomerQuery.toLowerCase().trim();
+    const customers = state.users.filter((u) => u.role === 'user');
+    if (!query) return customers;
+    return customers.filter(
+      (u) =>
+        u.business_name?.toLowerCase().includes(query) ||
+        u.contact_name?.toLowerCase().includes(query) ||
+        u.full_name?.toLowerCase().includes(query) ||
+        u.email?.toLowerCase().includes(query)
+    );
+  }, [state.users, bulkCustomerQuery]);
+
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-AU', {
@@ -358,17 +596,34 @@ export default function ApprovalsScreen() {
   }, [state.items, itemSearchQuery]);
 
   // Manual Order Handlers
+  // Manual orders go to the default supplier, so its delivery days, closures and cutoff apply
+  const manualOrderSupplier = state.suppliers[0];
+
   const openManualOrderModal = useCallback(() => {
+    const earliest = manualOrderSupplier
+      ? getEarliestDeliveryDate(manualOrderSupplier, getTenantTimeZone(manualOrderSupplier.tenant_id))
+      : null;
     setManualOrderModalVisible(true);
     setManualOrderStep('customer');
     setSelectedCustomer(null);
     setManualOrderItems([]);
     setCustomerSearchQuery('');
     setItemSearchQuery('');
-    setDeliveryDate(null);
+    setDeliveryDate(earliest ? fromDeliveryDate(earliest) : null);
     setShowItemBrowser(true);
     setShowDatePicker(false);
-  }, []);
+  }, [manualOrderSupplier, getTenantTimeZone]);
+
+  const selectManualDeliveryDate = useCallback((date: Date) => {
+    const error = manualOrderSupplier
+      ? getDeliveryDateError(manualOrderSupplier, toDeliveryDate(date), getTenantTimeZone(manualOrderSupplier.tenant_id))
+      : null;
+    if (error) {
+      Alert.alert('Delivery Date Unavailable', error);
+      return;
+    }
+    setDeliveryDate(date);
+  }, [manualOrderSupplier, getTenantTimeZone]);
 
   const closeManualOrderModal = useCallback(() => {
     setManualOrderModalVisible(false);
@@ -417,10 +672,10 @@ export default function ApprovalsScreen() {
 
   const getManualOrderTotal = useCallback(() => {
     return manualOrderItems.reduce(
-      (sum, i) => sum + i.item.wholesale_price * i.quantity,
+      (sum, i) => sum + getLinePrice(i.item, i.quantity, selectedCustomer).total,
       0
     );
-  }, [manualOrderItems]);
+  }, [manualOrderItems, selectedCustomer, getLinePrice]);
 
   const submitManualOrder = useCallback(async () => {
     if (!selectedCustomer || manualOrderItems.length === 0) {
@@ -439,25 +694,28 @@ export default function ApprovalsScreen() {
       const supplier = state.suppliers[0];
       const supplierId = supplier?.id || '';
 
-      const orderNumber = `MO-${Date.now().toString().slice(-8)}`;
       const total = getManualOrderTotal();
 
-      const orderItems: OrderItem[] = manualOrderItems.map((i) => ({
-        procurement_item_id: i.item.id,
-        name: i.item.name,
-        quantity: i.quantity,
-        unit: i.item.size || 'each',
-        unit_price: i.item.wholesale_price,
-        total: i.quantity * i.item.wholesale_price,
-        xero_item_code: i.item.xero_item_code,
-        xero_account_code: i.item.xero_account_code,
-      }));
+      const orderItems: OrderItem[] = manualOrderItems.map((i) => {
+        const price = getItemPrice(i.item, selectedCustomer);
+        return {
+          procurement_item_id: i.item.id,
+          name: i.item.name,
+          quantity: i.quantity,
+          unit: i.item.size || 'each',
+          unit_price: price.unit_price,
+          total: i.quantity * price.unit_price,
+          xero_item_code: i.item.xero_item_code,
+          xero_account_code: i.item.xero_account_code,
+          price_source: price.price_source,
+          price_list_id: price.price_list_id,
+        };
+      });
 
       const order = await createOrderForCustomer(selectedCustomer.id, {
         supplier_id: supplierId,
-        order_number: orderNumber,
         order_date: new Date().toISOString().split('T')[0],
-        requested_delivery_date: deliveryDate ? deliveryDate.toISOString().split('T')[0] : undefined,
+        requested_delivery_date: toDeliveryDate(deliveryDate),
         subtotal: total,
         total,
         status: 'approved',
@@ -466,19 +724,19 @@ export default function ApprovalsScreen() {
       });
 
       if (order) {
-        Alert.alert('Success', `Order ${orderNumber} created successfully`);
+        Alert.alert('Success', `Order ${order.order_number || order.id.substring(0, 8)} created successfully`);
         closeManualOrderModal();
         await loadAllData();
       } else {
         Alert.alert('Error', 'Failed to create order');
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creating manual order:', error);
-      Alert.alert('Error', 'Failed to create order. Please try again.');
+      Alert.alert('Error', error?.message || 'Failed to create order. Please try again.');
     } finally {
       setIsProcessing(false);
     }
-  }, [selectedCustomer, manualOrderItems, state.suppliers, user, getManualOrderTotal, deliveryDate, createOrderForCustomer, closeManualOrderModal, loadAllData]);
+  }, [selectedCustomer, manualOrderItems, state.suppliers, user, getManualOrderTotal, getItemPrice, deliveryDate, createOrderForCustomer, closeManualOrderModal, loadAllData]);
 
   const handleCheckEmail = useCallback(async () => {
     console.log('=== handleCheckEmail START ===');
@@ -661,33 +919,41 @@ export default function ApprovalsScreen() {
       const supplier = state.suppliers[0];
       const supplierId = supplier?.id || '';
 
-      const orderNumber = parsedCSV?.orderNumber || `IMP-${Date.now().toString().slice(-8)}`;
-
       const activeItems = matchedItems.filter((m) => !m.removed && m.selectedItem);
-      const orderItems: OrderItem[] = activeItems.map((m) => ({
-        procurement_item_id: m.selectedItem!.id,
-        name: m.selectedItem!.name,
-        quantity: m.line.quantity,
-        unit: m.selectedItem!.size || 'each',
-        unit_price: m.selectedItem!.wholesale_price,
-        total: m.line.quantity * m.selectedItem!.wholesale_price,
-      }));
+      const orderItems: OrderItem[] = activeItems.map((m) => {
+        const price = getItemPrice(m.selectedItem!, importSelectedCustomer);
+        return {
+          procurement_item_id: m.selectedItem!.id,
+          name: m.selectedItem!.name,
+          quantity: m.line.quantity,
+          unit: m.selectedItem!.size || 'each',
+          unit_price: price.unit_price,
+          total: m.line.quantity * price.unit_price,
+          price_source: price.price_source,
+          price_list_id: price.price_list_id,
+        };
+      });
 
-      const total = orderItems.reduce((sum, item) => sum + item.total!, 0);
+      // Carton pricing is applied when the order is created, so total the same way
+      const total = activeItems.reduce(
+        (sum, m) => sum + getLinePrice(m.selectedItem!, m.line.quantity, importSelectedCustomer).total,
+        0
+      );
 
       const order = await createOrderForCustomer(importSelectedCustomer.id, {
         supplier_id: supplierId,
-        order_number: orderNumber,
         order_date: parsedCSV?.date || new Date().toISOString().split('T')[0],
         subtotal: total,
         total,
         status: 'approved',
         items: orderItems,
-        notes: `Imported from CSV for ${importSelectedCustomer.business_name || importSelectedCustomer.full_name}`,
-      });
+        notes: `Imported from CSV for ${importSelectedCustomer.business_name || importSelectedCustomer.full_name}${
+          parsedCSV?.orderNumber ? ` (their ref ${parsedCSV.orderNumber})` : ''
+        }`,
+      }, 'csv');
 
       if (order) {
-        Alert.alert('Success', `Order ${orderNumber} imported successfully`);
+        Alert.alert('Success', `Order ${order.order_number || order.id.substring(0, 8)} imported successfully`);
         closeImportModal();
         await loadAllData();
       } else {
@@ -699,7 +965,7 @@ export default function ApprovalsScreen() {
     } finally {
       setIsProcessing(false);
     }
-  }, [importSelectedCustomer, canProceedWithImport, matchedItems, parsedCSV, state.suppliers, createOrderForCustomer, closeImportModal, loadAllData]);
+  }, [importSelectedCustomer, canProceedWithImport, matchedItems, parsedCSV, state.suppliers, getItemPrice, getLinePrice, createOrderForCustomer, closeImportModal, loadAllData]);
 
   // Filter items for import item picker
   const filteredItemsForPicker = useMemo(() => {
@@ -723,15 +989,28 @@ export default function ApprovalsScreen() {
     // Use customer_id if set (for email-imported orders), otherwise fall back to created_by
     const customerName = getCustomerName(order.customer_id || order.created_by);
     const itemCount = order.items?.length || 0;
+    const standingOrder = order.standing_order_id
+      ? state.standingOrders.find((so) => so.id === order.standing_order_id)
+      : undefined;
+
+    const isSelected = selectedIds.has(order.id);
+    const credit = getOrderCreditCheck(order);
 
     return (
       <TouchableOpacity
-        style={styles.card}
-        onPress={() => openDetail(order)}
+        style={[styles.card, selectMode && isSelected && styles.cardSelected]}
+        onPress={() => (selectMode ? toggleSelected(order.id) : openDetail(order))}
         activeOpacity={0.7}
       >
         <View style={styles.cardHeader}>
           <View style={styles.cardHeaderLeft}>
+            {selectMode && (
+              <Ionicons
+                name={isSelected ? 'checkbox' : 'square-outline'}
+                size={22}
+                color={isSelected ? theme.colors.accent : theme.colors.textMuted}
+              />
+            )}
             <View style={styles.orderNumberBadge}>
               <Ionicons name="document-text-outline" size={16} color={theme.colors.accent} />
               <Text style={styles.orderNumberText}>
@@ -759,6 +1038,28 @@ export default function ApprovalsScreen() {
             <Text style={styles.cardLabel}>Items</Text>
             <Text style={styles.cardValue}>{itemCount} {itemCount === 1 ? 'item' : 'items'}</Text>
           </View>
+          {standingOrder && (
+            <View style={styles.cardRow}>
+              <Ionicons name="repeat" size={16} color={theme.colors.textSecondary} />
+              <Text style={styles.cardLabel}>Standing</Text>
+              <Text style={styles.cardValue} numberOfLines={1}>{standingOrder.name}</Text>
+            </View>
+          )}
+          {credit.status !== 'ok' && (
+            <View style={styles.cardRow}>
+              <Ionicons
+                name={credit.status === 'block' ? 'lock-closed-outline' : 'alert-circle-outline'}
+                size={16}
+                color={credit.status === 'block' ? theme.colors.danger : theme.colors.warning}
+              />
+              <Text
+                style={[styles.creditText, credit.status === 'block' && styles.creditTextBlocked]}
+                numberOfLines={1}
+              >
+                {credit.reasons[0]}
+              </Text>
+            </View>
+          )}
         </View>
 
         <View style={styles.cardFooter}>
@@ -769,6 +1070,60 @@ export default function ApprovalsScreen() {
     );
   };
 
+  const renderUpcomingStandingOrder = (standingOrder: StandingOrder) => {
+    const customer = state.users.find((u) => u.id === standingOrder.customer_id) || { id: standingOrder.customer_id };
+    const supplier = state.suppliers.find((s) => s.id === standingOrder.supplier_id);
+    const cutoff = getDeliveryCutoff(
+      standingOrder.next_delivery_date,
+      supplier?.cutoff_time,
+      getTenantTimeZone(standingOrder.tenant_id)
+    );
+    const estimatedTotal = (standingOrder.items || []).reduce((sum, line) => {
+      const item = state.items.find((i) => i.id === line.item_id);
+      return sum + (item ? getLinePrice(item, line.quantity, customer).total : 0);
+    }, 0);
+    const cutoffText = cutoff.toLocaleString('en-AU', {
+      weekday: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+    return (
+      <View key={standingOrder.id} style={styles.upcomingRow}>
+        <View style={styles.upcomingInfo}>
+          <Text style={styles.upcomingCustomer} numberOfLines={1}>
+            {getCustomerName(standingOrder.customer_id)}
+          </Text>
+          <Text style={styles.upcomingMeta} numberOfLines={1}>
+            {standingOrder.name} · {(standingOrder.items || []).length} items · ~{formatCurrency(estimatedTotal)}
+          </Text>
+          <Text style={styles.upcomingMeta}>
+            {standingOrder.auto_submit
+              ? `Submits automatically before the ${cutoffText} cutoff`
+              : `Customer reminded to order by ${cutoffText}`}
+          </Text>
+        </View>
+        <View style={styles.upcomingDate}>
+          <Text style={styles.upcomingDateLabel}>Delivery</Text>
+          <Text style={styles.upcomingDateValue}>{formatDate(standingOrder.next_delivery_date)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  const renderUpcomingStandingOrders = () => {
+    if (upcomingStandingOrders.length === 0) return null;
+    return (
+      <View style={styles.upcomingSection}>
+        <View style={styles.upcomingHeader}>
+          <Ionicons name="repeat" size={18} color={theme.colors.primary} />
+          <Text style={styles.upcomingTitle}>Upcoming Standing Orders</Text>
+        </View>
+        {upcomingStandingOrders.map(renderUpcomingStandingOrder)}
+      </View>
+    );
+  };
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <View style={styles.emptyIconContainer}>
@@ -789,6 +1144,7 @@ export default function ApprovalsScreen() {
     const subtotal = selectedOrder.subtotal ?? selectedOrder.total;
     const tax = selectedOrder.tax ?? 0;
     const deliveryFee = selectedOrder.delivery_fee ?? 0;
+    const credit = getOrderCreditCheck(selectedOrder);
 
     return (
       <Modal
@@ -809,6 +1165,23 @@ export default function ApprovalsScreen() {
           </View>
 
           <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+            {credit.status !== 'ok' && (
+              <View style={[styles.creditBanner, credit.status === 'block' && styles.creditBannerBlocked]}>
+                <Ionicons
+                  name={credit.status === 'block' ? 'lock-closed-outline' : 'alert-circle-outline'}
+                  size={20}
+                  color={credit.status === 'block' ? theme.colors.danger : theme.colors.warning}
+                />
+                <View style={styles.creditBannerBody}>
+                  <Text style={styles.creditBannerTitle}>
+                    {credit.status === 'block' ? 'Blocked by credit control' : 'Check the account before approving'}
+                  </Text>
+                  {credit.reasons.map((reason) => (
+                    <Text key={reason} style={styles.creditBannerText}>{reason}</Text>
+                  ))}
+                </View>
+              </View>
+            )}
             <View style={styles.detailSection}>
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>Order Number</Text>
@@ -893,6 +1266,11 @@ export default function ApprovalsScreen() {
                 <Text style={styles.grandTotalValue}>{formatCurrency(selectedOrder.total)}</Text>
               </View>
             </View>
+
+            <View style={styles.itemsSection}>
+              <Text style={styles.itemsSectionTitle}>History</Text>
+              <OrderTimeline orderId={selectedOrder.id} refreshKey={`${selectedOrder.status}|${selectedOrder.updated_at || ''}`} />
+            </View>
           </ScrollView>
 
           <View style={styles.modalActions}>
@@ -1013,7 +1391,9 @@ export default function ApprovalsScreen() {
                         >
                           <View style={styles.addItemInfo}>
                             <Text style={styles.addItemName} numberOfLines={1}>{item.name}</Text>
-                            <Text style={styles.addItemPrice}>{formatCurrency(item.wholesale_price)}</Text>
+                            <Text style={styles.addItemPrice}>
+                              {formatCurrency(getItemPrice(item, state.users.find((u) => u.id === selectedOrder?.customer_id) || null).unit_price)}
+                            </Text>
                           </View>
                           <Ionicons
                             name={inOrder ? "checkmark-circle" : "add-circle"}
@@ -1150,6 +1530,175 @@ export default function ApprovalsScreen() {
   };
 
   // Render Manual Order Modal
+  const renderSelectionBar = () => {
+    const count = selectedIds.size;
+    const allSelected = count > 0 && count === queueOrders.length;
+    return (
+      <View style={styles.selectionBar}>
+        <View style={styles.selectionBarRow}>
+          <Text style={styles.selectionCount}>{count} selected</Text>
+          <TouchableOpacity onPress={toggleSelectAll}>
+            <Text style={styles.changeLink}>{allSelected ? 'Clear' : 'Select All'}</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.selectionBarRow}>
+          <TouchableOpacity
+            style={[styles.bulkButton, styles.approveButton, count === 0 && styles.disabledButton]}
+            onPress={handleBulkApprove}
+            disabled={count === 0}
+          >
+            <Ionicons name="checkmark-circle-outline" size={18} color={theme.colors.white} />
+            <Text style={styles.bulkButtonText}>Approve</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.bulkButton, styles.cancelOrderButton, count === 0 && styles.disabledButton]}
+            onPress={openBulkReject}
+            disabled={count === 0}
+          >
+            <Ionicons name="close-circle-outline" size={18} color={theme.colors.white} />
+            <Text style={styles.bulkButtonText}>Reject</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.bulkButton, styles.editButton, count === 0 && styles.disabledButton]}
+            onPress={openBulkReassign}
+            disabled={count === 0}
+          >
+            <Ionicons name="swap-horizontal-outline" size={18} color={theme.colors.white} />
+            <Text style={styles.bulkButtonText}>Reassign</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderBulkModal = () => {
+    const labels = bulkAction ? BULK_LABELS[bulkAction] : null;
+    const failures = bulkResults.filter((r) => !r.success);
+    const succeeded = bulkResults.length - failures.length;
+    const title =
+      bulkStep === 'reason' ? 'Reject Orders' :
+      bulkStep === 'customer' ? 'Reassign Customer' :
+      bulkStep === 'progress' ? `${labels?.progress || 'Processing'} Orders` :
+      'Results';
+
+    return (
+      <Modal
+        visible={bulkStep !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={closeBulkModal}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalContainer}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.modalHeader}>
+            <TouchableOpacity
+              onPress={closeBulkModal}
+              style={styles.modalCloseButton}
+              disabled={bulkStep === 'progress'}
+            >
+              {bulkStep !== 'progress' && <Ionicons name="close" size={24} color={theme.colors.text} />}
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>{title}</Text>
+            <View style={styles.modalCloseButton} />
+          </View>
+
+          {bulkStep === 'reason' && (
+            <View style={styles.modalContent}>
+              <View style={styles.notesSection}>
+                <Text style={styles.sectionTitle}>
+                  Reason for rejecting {selectedIds.size} order{selectedIds.size === 1 ? '' : 's'}
+                </Text>
+                <TextInput
+                  style={styles.notesInput}
+                  value={bulkReason}
+                  onChangeText={setBulkReason}
+                  placeholder="e.g. Duplicate of an order already placed"
+                  placeholderTextColor={theme.colors.textMuted}
+                  multiline
+                  autoFocus
+                />
+              </View>
+              <View style={styles.modalActions}>
+                <TouchableOpacity style={[styles.actionButton, styles.cancelOrderButton]} onPress={submitBulkReject}>
+                  <Ionicons name="close-circle-outline" size={20} color={theme.colors.white} />
+                  <Text style={styles.actionButtonText}>Reject {selectedIds.size}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {bulkStep === 'customer' && (
+            <View style={styles.modalContent}>
+              <View style={styles.searchContainer}>
+                <Ionicons name="search" size={20} color={theme.colors.textMuted} />
+                <TextInput
+                  style={styles.searchInput}
+                  placeholder="Search customers..."
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={bulkCustomerQuery}
+                  onChangeText={setBulkCustomerQuery}
+                />
+              </View>
+              <FlatList
+                data={bulkCustomers}
+                keyExtractor={(item) => item.id}
+                renderItem={({ item: customer }) => (
+                  <TouchableOpacity style={styles.customerItem} onPress={() => submitBulkReassign(customer)}>
+                    <View style={styles.customerInfo}>
+                      <Text style={styles.customerName}>{customer.business_name || customer.full_name}</Text>
+                      <Text style={styles.customerEmail}>{customer.email}</Text>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+                  </TouchableOpacity>
+                )}
+                ListEmptyComponent={<Text style={styles.emptyListText}>No customers found</Text>}
+              />
+            </View>
+          )}
+
+          {bulkStep === 'progress' && (
+            <View style={styles.bulkProgress}>
+              <ActivityIndicator size="large" color={theme.colors.accent} />
+              <Text style={styles.bulkProgressText}>
+                {labels?.progress} {Math.min(bulkProgress.done + 1, bulkProgress.total)} of {bulkProgress.total}...
+              </Text>
+            </View>
+          )}
+
+          {bulkStep === 'results' && (
+            <ScrollView style={styles.modalContent} contentContainerStyle={styles.bulkResults}>
+              <View style={styles.bulkSummaryRow}>
+                <Ionicons name="checkmark-circle" size={20} color={theme.colors.success} />
+                <Text style={styles.bulkSummaryText}>
+                  {succeeded} order{succeeded === 1 ? '' : 's'} {labels?.done}
+                </Text>
+              </View>
+              {failures.length > 0 && (
+                <View style={styles.bulkSummaryRow}>
+                  <Ionicons name="alert-circle" size={20} color={theme.colors.danger} />
+                  <Text style={styles.bulkSummaryText}>
+                    {failures.length} failed - still selected to retry
+                  </Text>
+                </View>
+              )}
+              {failures.map((result) => (
+                <View key={result.orderId} style={styles.bulkFailureRow}>
+                  <Text style={styles.bulkFailureOrder}>{result.orderNumber}</Text>
+                  <Text style={styles.bulkFailureError}>{result.error}</Text>
+                </View>
+              ))}
+              {bulkAction === 'approve' && succeeded > 0 && (
+                <Text style={styles.bulkNote}>Invoices are queued for export to Xero and retried until Xero accepts them.</Text>
+              )}
+            </ScrollView>
+          )}
+        </KeyboardAvoidingView>
+      </Modal>
+    );
+  };
+
   const renderManualOrderModal = () => (
     <Modal
       visible={manualOrderModalVisible}
@@ -1248,7 +1797,7 @@ export default function ApprovalsScreen() {
                 onChange={(event: DateTimePickerEvent, selectedDate?: Date) => {
                   setShowDatePicker(false);
                   if (event.type === 'set' && selectedDate) {
-                    setDeliveryDate(selectedDate);
+                    selectManualDeliveryDate(selectedDate);
                   }
                 }}
                 minimumDate={new Date()}
@@ -1276,7 +1825,7 @@ export default function ApprovalsScreen() {
                       accentColor={theme.colors.accent}
                       onChange={(event: DateTimePickerEvent, selectedDate?: Date) => {
                         if (selectedDate) {
-                          setDeliveryDate(selectedDate);
+                          selectManualDeliveryDate(selectedDate);
                         }
                       }}
                       minimumDate={new Date()}
@@ -1346,7 +1895,7 @@ export default function ApprovalsScreen() {
                         <View style={styles.browseItemInfo}>
                           <Text style={styles.browseItemName} numberOfLines={1}>{item.name}</Text>
                           <Text style={styles.browseItemMeta}>
-                            {item.category ? `${item.category} · ` : ''}{formatCurrency(item.wholesale_price)}
+                            {item.category ? `${item.category} · ` : ''}{formatCurrency(getItemPrice(item, selectedCustomer).unit_price)}
                           </Text>
                         </View>
                         {inOrder ? (
@@ -1375,7 +1924,7 @@ export default function ApprovalsScreen() {
                       <View style={styles.orderItemInfo}>
                         <Text style={styles.orderItemName} numberOfLines={1}>{orderItem.item.name}</Text>
                         <Text style={styles.orderItemPrice}>
-                          {formatCurrency(orderItem.item.wholesale_price)} each
+                          {formatCurrency(getItemPrice(orderItem.item, selectedCustomer).unit_price)} each
                         </Text>
                       </View>
                       <View style={styles.quantityControls}>
@@ -1394,7 +1943,7 @@ export default function ApprovalsScreen() {
                         </TouchableOpacity>
                       </View>
                       <Text style={styles.orderItemTotal}>
-                        {formatCurrency(orderItem.item.wholesale_price * orderItem.quantity)}
+                        {formatCurrency(getLinePrice(orderItem.item, orderItem.quantity, selectedCustomer).total)}
                       </Text>
                       <TouchableOpacity onPress={() => removeManualOrderItem(orderItem.item.id)}>
                         <Ionicons name="trash-outline" size={20} color={theme.colors.danger} />
@@ -1490,7 +2039,7 @@ export default function ApprovalsScreen() {
             <View style={styles.importSection}>
               <Text style={styles.sectionTitle}>Order Details</Text>
               <View style={styles.importDetailRow}>
-                <Text style={styles.importDetailLabel}>Order #</Text>
+                <Text style={styles.importDetailLabel}>Customer ref</Text>
                 <Text style={styles.importDetailValue}>{parsedCSV.orderNumber}</Text>
               </View>
               <View style={styles.importDetailRow}>
@@ -1623,7 +2172,7 @@ export default function ApprovalsScreen() {
                             onPress={() => selectItemForImportLine(index, item)}
                           >
                             <Text style={styles.itemPickerName} numberOfLines={1}>{item.name}</Text>
-                            <Text style={styles.itemPickerPrice}>{formatCurrency(item.wholesale_price)}</Text>
+                            <Text style={styles.itemPickerPrice}>{formatCurrency(getItemPrice(item, importSelectedCustomer).unit_price)}</Text>
                           </TouchableOpacity>
                         ))}
                       </View>
@@ -1665,7 +2214,7 @@ export default function ApprovalsScreen() {
                       </Text>
                       {matchedItem.selectedItem && !matchedItem.removed && (
                         <Text style={styles.importItemPrice}>
-                          {formatCurrency(matchedItem.selectedItem.wholesale_price * matchedItem.line.quantity)}
+                          {formatCurrency(getLinePrice(matchedItem.selectedItem, matchedItem.line.quantity, importSelectedCustomer).total)}
                         </Text>
                       )}
                       <View style={styles.importItemActions}>
@@ -1706,7 +2255,7 @@ export default function ApprovalsScreen() {
                 {formatCurrency(
                   matchedItems
                     .filter((m) => !m.removed && m.selectedItem)
-                    .reduce((sum, m) => sum + m.selectedItem!.wholesale_price * m.line.quantity, 0)
+                    .reduce((sum, m) => sum + getLinePrice(m.selectedItem!, m.line.quantity, importSelectedCustomer).total, 0)
                 )}
               </Text>
             </View>
@@ -1758,6 +2307,12 @@ export default function ApprovalsScreen() {
           </View>
         )}
         <View style={styles.headerActions}>
+          {pendingCount > 0 && (
+            <TouchableOpacity style={styles.headerButtonText} onPress={toggleSelectMode}>
+              <Ionicons name={selectMode ? 'close-outline' : 'checkbox-outline'} size={18} color={theme.colors.accent} />
+              <Text style={styles.headerButtonLabel}>{selectMode ? 'Done' : 'Select'}</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity style={styles.headerButtonText} onPress={openManualOrderModal}>
             <Ionicons name="add-outline" size={18} color={theme.colors.accent} />
             <Text style={styles.headerButtonLabel}>Add</Text>
@@ -1781,6 +2336,30 @@ export default function ApprovalsScreen() {
         </View>
       </View>
 
+      {reviewCount > 0 && (
+        <View style={styles.queueTabs}>
+          <TouchableOpacity
+            style={[styles.queueTab, queue === 'pending' && styles.queueTabActive]}
+            onPress={() => switchQueue('pending')}
+          >
+            <Text style={[styles.queueTabText, queue === 'pending' && styles.queueTabTextActive]}>
+              Pending ({pendingCount - reviewCount})
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.queueTab, queue === 'review' && styles.queueTabActive]}
+            onPress={() => switchQueue('review')}
+          >
+            <Ionicons name="lock-closed-outline" size={14} color={queue === 'review' ? theme.colors.white : theme.colors.danger} />
+            <Text style={[styles.queueTabText, queue === 'review' && styles.queueTabTextActive]}>
+              Credit review ({reviewCount})
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {selectMode && renderSelectionBar()}
+
       {state.isLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={theme.colors.accent} />
@@ -1788,14 +2367,15 @@ export default function ApprovalsScreen() {
         </View>
       ) : (
         <FlatList
-          data={pendingOrders}
+          data={queueOrders}
           renderItem={renderOrderCard}
           keyExtractor={(item) => item.id}
           contentContainerStyle={[
             styles.listContent,
-            pendingOrders.length === 0 && styles.listContentEmpty,
+            queueOrders.length === 0 && styles.listContentEmpty,
           ]}
           ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={renderUpcomingStandingOrders}
           showsVerticalScrollIndicator={false}
           refreshControl={
             <RefreshControl
@@ -1812,6 +2392,7 @@ export default function ApprovalsScreen() {
       {renderEditModal()}
       {renderManualOrderModal()}
       {renderImportModal()}
+      {renderBulkModal()}
 
       {/* Item Matching Modal for unmatched items */}
       {selectedOrder && tenant && (
@@ -1882,6 +2463,37 @@ const styles = StyleSheet.create({
   headerButtonDisabled: {
     opacity: 0.6,
   },
+  queueTabs: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  queueTab: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  queueTabActive: {
+    backgroundColor: theme.colors.accent,
+    borderColor: theme.colors.accent,
+  },
+  queueTabText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  queueTabTextActive: {
+    color: theme.colors.white,
+  },
   countBadge: {
     backgroundColor: theme.colors.warning,
     borderRadius: theme.borderRadius.full,
@@ -1912,6 +2524,58 @@ const styles = StyleSheet.create({
   listContentEmpty: {
     flex: 1,
   },
+  // Upcoming standing orders
+  upcomingSection: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+    ...theme.shadow.sm,
+  },
+  upcomingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  upcomingTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  upcomingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+  },
+  upcomingInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  upcomingCustomer: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  upcomingMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  upcomingDate: {
+    alignItems: 'flex-end',
+  },
+  upcomingDateLabel: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+  },
+  upcomingDateValue: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.primary,
+  },
   // Order Card
   card: {
     backgroundColor: theme.colors.surface,
@@ -1919,6 +2583,88 @@ const styles = StyleSheet.create({
     padding: theme.spacing.md,
     ...theme.shadow.sm,
   },
+  cardSelected: {
+    borderWidth: 2,
+    borderColor: theme.colors.accent,
+  },
+  // Bulk selection
+  selectionBar: {
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.sm,
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  selectionBarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: theme.spacing.sm,
+  },
+  selectionCount: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  bulkButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    gap: 4,
+  },
+  bulkButtonText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.white,
+  },
+  bulkProgress: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.md,
+  },
+  bulkProgressText: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+  },
+  bulkResults: {
+    padding: theme.spacing.lg,
+    gap: theme.spacing.sm,
+  },
+  bulkSummaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  bulkSummaryText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  bulkFailureRow: {
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  bulkFailureOrder: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  bulkFailureError: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.danger,
+    marginTop: 2,
+  },
+  bulkNote: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.sm,
+  },
   cardHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1981,6 +2727,15 @@ const styles = StyleSheet.create({
     fontWeight: theme.fontWeight.medium,
     color: theme.colors.text,
   },
+  creditText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.warning,
+  },
+  creditTextBlocked: {
+    color: theme.colors.danger,
+  },
   cardFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -2048,6 +2803,31 @@ const styles = StyleSheet.create({
   modalContent: {
     flex: 1,
   },
+  creditBanner: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+    marginHorizontal: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.warning + '18',
+  },
+  creditBannerBlocked: {
+    backgroundColor: theme.colors.danger + '18',
+  },
+  creditBannerBody: {
+    flex: 1,
+    gap: 2,
+  },
+  creditBannerTitle: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  creditBannerText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
   detailSection: {
     backgroundColor: theme.colors.surface,
     marginTop: theme.spacing.md,
@@ -19,54 +19,27 @@ import { useOrders } from '../context/OrderContext';
 import { useAuth } from '../context/AuthContext';
 import { theme } from '../theme';
 import { CartItem, Supplier, formatCutoffTime, Tenant } from '../types';
+import { getPriceSourceLabel, isCartonLine } from '../utils/pricing';
+import { getAvailableDeliveryDates, getDeliveryDayLabel, getSupplierDeliveryDays } from '../utils/deliverySchedule';
+import { getItemTaxRate, getLineTax } from '../utils/tax';
+import { getCreditCheck, getCreditControlMode } from '../utils/creditControl';
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-const DAY_ABBR_TO_INDEX: Record<string, number> = {
-  sun: 0,
-  mon: 1,
-  tue: 2,
-  wed: 3,
-  thu: 4,
-  fri: 5,
-  sat: 6,
-};
-
 /**
- * Return the next N available delivery dates.
- * All dates from tomorrow onwards are available.
+ * Format an ISO delivery date (YYYY-MM-DD) as e.g. "Mon, 3 Mar"
  */
-function getAvailableDeliveryDates(_supplier: Supplier, count = 14): Date[] {
-  const dates: Date[] = [];
-  const cursor = new Date();
-  // Start from tomorrow
-  cursor.setDate(cursor.getDate() + 1);
-  cursor.setHours(0, 0, 0, 0);
-
-  while (dates.length < count) {
-    dates.push(new Date(cursor));
-    cursor.setDate(cursor.getDate() + 1);
-  }
-
-  return dates;
-}
-
-function formatDate(date: Date): string {
+function formatDate(date: string): string {
   const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   const months = [
     'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
     'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
   ];
-  return `${days[date.getDay()]}, ${date.getDate()} ${months[date.getMonth()]}`;
-}
-
-function formatDateISO(date: Date): string {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
+  const [y, m, d] = date.split('-').map(Number);
+  const local = new Date(y, m - 1, d);
+  return `${days[local.getDay()]}, ${local.getDate()} ${months[local.getMonth()]}`;
 }
 
 function formatCurrency(value: number): string {
@@ -100,6 +73,10 @@ export default function CartScreen() {
     createOrderForTenant,
     getSupplierName,
     getTenantName,
+    getTenantTimeZone,
+    getItemPrice,
+    getLinePrice,
+    getCustomerCredit,
   } = useOrders();
   const { user, tenant, isOwner } = useAuth();
 
@@ -107,7 +84,7 @@ export default function CartScreen() {
   const isCustomer = user?.role === 'user';
 
   // Per-section state (keyed by tenantId for customers, supplierId for owners)
-  const [deliveryDates, setDeliveryDates] = useState<Record<string, Date>>({});
+  const [deliveryDates, setDeliveryDates] = useState<Record<string, string>>({});
   const [orderNotes, setOrderNotes] = useState<Record<string, string>>({});
 
   // Modals - store section key (tenantId for customers, supplierId for owners)
@@ -172,17 +149,17 @@ export default function CartScreen() {
 
   const getSubtotal = useCallback(
     (items: CartItem[]) =>
-      items.reduce((sum, ci) => sum + ci.item.wholesale_price * ci.quantity, 0),
-    [],
+      items.reduce((sum, ci) => sum + getLinePrice(ci.item, ci.quantity).total, 0),
+    [getLinePrice],
   );
 
   const getGST = useCallback(
     (items: CartItem[]) =>
       items.reduce((sum, ci) => {
-        const rate = ci.item.tax_rate ?? (tenant?.settings?.tax_rate || 0);
-        return sum + ci.item.wholesale_price * ci.quantity * (rate / 100);
+        const rate = getItemTaxRate(ci.item, tenant?.settings);
+        return sum + getLineTax(getLinePrice(ci.item, ci.quantity).total, rate);
       }, 0),
-    [tenant],
+    [tenant, getLinePrice],
   );
 
   const getDeliveryFee = useCallback(
@@ -220,7 +197,7 @@ export default function CartScreen() {
     [removeFromCart],
   );
 
-  const handleSelectDate = useCallback((sectionKey: string, date: Date) => {
+  const handleSelectDate = useCallback((sectionKey: string, date: string) => {
     setDeliveryDates((prev) => ({ ...prev, [sectionKey]: date }));
     setDatePickerSection(null);
   }, []);
@@ -253,14 +230,50 @@ export default function CartScreen() {
         const deliveryFee = getDeliveryFee(supplier, subtotal);
         const total = subtotal + gst + deliveryFee;
 
-        const orderItems = items.map((ci) => ({
-          code: ci.item.barcode || ci.item.sku || '',
-          name: ci.item.name,
-          quantity: ci.quantity,
-          unit: ci.item.size || 'each',
-          unit_price: ci.item.wholesale_price,
-          total: ci.item.wholesale_price * ci.quantity,
-        }));
+        // Holds always stop the order; over the limit or overdue stops or warns per the supplier
+        if (isCustomer && user) {
+          const credit = await getCustomerCredit(user.id, tenantId);
+          const check = getCreditCheck(credit, total, getCreditControlMode(sectionTenant?.settings));
+          if (check.status === 'block') {
+            Alert.alert(
+              'Unable to place order',
+              `${check.reasons.join('\n')}\n\nPlease contact ${displayName} to sort out your account.`,
+            );
+            return;
+          }
+          if (check.status === 'flag') {
+            const proceed = await new Promise<boolean>((resolve) => {
+              Alert.alert(
+                'Account needs attention',
+                `${check.reasons.join('\n')}\n\n${displayName} will review this order before accepting it.`,
+                [
+                  { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+                  { text: 'Place Order', onPress: () => resolve(true) },
+                ],
+                { cancelable: true, onDismiss: () => resolve(false) },
+              );
+            });
+            if (!proceed) return;
+          }
+        }
+
+        // Priced per unit here; createOrder splits full cartons out at carton prices
+        const orderItems = items.map((ci) => {
+          const price = getItemPrice(ci.item);
+          return {
+            procurement_item_id: ci.item.id,
+            code: ci.item.barcode || ci.item.sku || '',
+            name: ci.item.name,
+            quantity: ci.quantity,
+            unit: ci.item.size || 'each',
+            unit_price: price.unit_price,
+            total: price.unit_price * ci.quantity,
+            price_source: price.price_source,
+            price_list_id: price.price_list_id,
+            xero_item_code: ci.item.xero_item_code,
+            xero_account_code: ci.item.xero_account_code,
+          };
+        });
 
         let order;
         if (isCustomer) {
@@ -268,7 +281,7 @@ export default function CartScreen() {
           order = await createOrderForTenant(tenantId, {
             supplier_id: supplier.id,
             order_date: new Date().toISOString().split('T')[0],
-            requested_delivery_date: formatDateISO(selectedDate),
+            requested_delivery_date: selectedDate,
             subtotal,
             tax: gst,
             delivery_fee: deliveryFee,
@@ -282,7 +295,7 @@ export default function CartScreen() {
           order = await createOrder({
             supplier_id: supplier.id,
             order_date: new Date().toISOString().split('T')[0],
-            requested_delivery_date: formatDateISO(selectedDate),
+            requested_delivery_date: selectedDate,
             subtotal,
             tax: gst,
             delivery_fee: deliveryFee,
@@ -319,9 +332,9 @@ export default function CartScreen() {
         } else {
           Alert.alert('Error', 'Failed to create order. Please try again.');
         }
-      } catch (err) {
+      } catch (err: any) {
         console.error('Error placing order:', err);
-        Alert.alert('Error', 'An unexpected error occurred while placing the order.');
+        Alert.alert('Error', err?.message || 'An unexpected error occurred while placing the order.');
       } finally {
         setPlacingOrder(null);
       }
@@ -336,8 +349,11 @@ export default function CartScreen() {
       createOrderForTenant,
       clearCart,
       clearCartByTenant,
+      getItemPrice,
+      getCustomerCredit,
       isOwner,
       isCustomer,
+      user,
     ],
   );
 
@@ -345,7 +361,11 @@ export default function CartScreen() {
 
   const renderItem = useCallback(
     ({ item }: { item: CartItem }) => {
-      const lineTotal = item.item.wholesale_price * item.quantity;
+      const price = getItemPrice(item.item);
+      const priceLabel = getPriceSourceLabel(price.price_source);
+      const linePrice = getLinePrice(item.item, item.quantity);
+      const hasCartonLine = linePrice.lines.some((line) => isCartonLine(line));
+      const lineTotal = linePrice.total;
       return (
         <View style={styles.itemRow}>
           {item.item.image_url ? (
@@ -362,8 +382,16 @@ export default function CartScreen() {
             </Text>
             {item.item.barcode && <Text style={styles.itemCode}>{item.item.barcode}</Text>}
             <Text style={styles.itemPrice}>
-              {formatCurrency(item.item.wholesale_price)}{item.item.size ? ` / ${item.item.size}` : ''}
+              {formatCurrency(price.unit_price)}{item.item.size ? ` / ${item.item.size}` : ''}
             </Text>
+            {priceLabel && <Text style={styles.itemPriceSource}>{priceLabel}</Text>}
+            {hasCartonLine &&
+              linePrice.lines.map((line) => (
+                <Text key={line.unit} style={styles.itemPriceBreakdown}>
+                  {line.quantity} x {line.unit} @ {formatCurrency(line.unit_price)}
+                </Text>
+              ))}
+            {linePrice.hint && <Text style={styles.itemTierHint}>{linePrice.hint.label}</Text>}
           </View>
 
           <View style={styles.quantityControls}>
@@ -396,7 +424,7 @@ export default function CartScreen() {
         </View>
       );
     },
-    [handleQuantityChange, handleRemoveItem],
+    [handleQuantityChange, handleRemoveItem, getItemPrice, getLinePrice],
   );
 
   const renderSectionHeader = useCallback(
@@ -405,7 +433,6 @@ export default function CartScreen() {
       const sectionKey = isCustomer ? tenantId : supplier.id;
       const displayName = isCustomer && sectionTenant ? sectionTenant.name : supplier.name;
       const selectedDate = deliveryDates[sectionKey];
-      const availableDates = getAvailableDeliveryDates(supplier);
 
       return (
         <View style={styles.sectionHeader}>
@@ -610,8 +637,8 @@ export default function CartScreen() {
     ? sections.find((s) => (isCustomer ? s.tenantId : s.supplier.id) === datePickerSection) || null
     : null;
   const datePickerSupplierObj = datePickerSectionObj?.supplier || null;
-  const datePickerDates = datePickerSupplierObj
-    ? getAvailableDeliveryDates(datePickerSupplierObj)
+  const datePickerDates = datePickerSectionObj
+    ? getAvailableDeliveryDates(datePickerSectionObj.supplier, getTenantTimeZone(datePickerSectionObj.tenantId))
     : [];
   const datePickerDisplayName = datePickerSectionObj
     ? (isCustomer && datePickerSectionObj.tenant ? datePickerSectionObj.tenant.name : datePickerSupplierObj?.name)
@@ -650,20 +677,21 @@ export default function CartScreen() {
             </View>
             {datePickerSupplierObj && (
               <Text style={styles.modalSubtitle}>
-                {datePickerDisplayName} delivers on{' '}
-                {datePickerSupplierObj.delivery_days
-                  .map((d) => d.charAt(0).toUpperCase() + d.slice(1))
-                  .join(', ')}
+                {getSupplierDeliveryDays(datePickerSupplierObj.delivery_days).length > 0
+                  ? `${datePickerDisplayName} delivers on ${getSupplierDeliveryDays(datePickerSupplierObj.delivery_days)
+                      .map(getDeliveryDayLabel)
+                      .join(', ')}. `
+                  : ''}
+                Order by {formatCutoffTime(datePickerSupplierObj.cutoff_time || '17:00')} the day before delivery.
               </Text>
             )}
             <FlatList
               data={datePickerDates}
-              keyExtractor={(item) => item.toISOString()}
+              keyExtractor={(item) => item}
               renderItem={({ item: date }) => {
                 const isSelected =
                   datePickerSection &&
-                  deliveryDates[datePickerSection] &&
-                  formatDateISO(deliveryDates[datePickerSection]) === formatDateISO(date);
+                  deliveryDates[datePickerSection] === date;
                 return (
                   <TouchableOpacity
                     style={[styles.dateOption, isSelected && styles.dateOptionSelected]}
@@ -849,6 +877,23 @@ const styles = StyleSheet.create({
     color: theme.colors.textSecondary,
     marginTop: 2,
   },
+  itemPriceSource: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.success,
+    fontWeight: theme.fontWeight.medium,
+    marginTop: 1,
+  },
+  itemPriceBreakdown: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: 1,
+  },
+  itemTierHint: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.accent,
+    fontWeight: theme.fontWeight.medium,
+    marginTop: 1,
+  },
 
   // ---- Quantity controls -------------------------------------------------
   quantityControls: {
@@ -0,0 +1,251 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { useAuth } from '../context/AuthContext';
+import { CreditControlMode, PaymentTerms } from '../types';
+import { getCreditControlMode } from '../utils/creditControl';
+import { PAYMENT_TERMS_OPTIONS, getPaymentTerms } from '../utils/paymentTerms';
+
+const MODE_OPTIONS: { value: CreditControlMode; label: string; description: string }[] = [
+  {
+    value: 'flag',
+    label: 'Flag',
+    description: 'Customers are warned but can still order. Their orders are marked in Approvals.',
+  },
+  {
+    value: 'block',
+    label: 'Block',
+    description: 'Customers cannot place the order, and it cannot be approved until the account is sorted out.',
+  },
+];
+
+export default function CreditControlScreen() {
+  const { tenant, updateTenantSettings } = useAuth();
+
+  const [mode, setMode] = useState<CreditControlMode>(getCreditControlMode(tenant?.settings));
+  const [paymentTerms, setPaymentTerms] = useState<PaymentTerms>(getPaymentTerms(null, tenant));
+  const [saving, setSaving] = useState(false);
+
+  // Cross-platform alert helper
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await updateTenantSettings({ credit_control: mode, payment_terms: paymentTerms });
+      if (saved) {
+        showMessage('Saved', 'Applies to the next order placed or approved, and the next invoice raised.');
+      } else {
+        showMessage('Error', 'Failed to save the credit control settings.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Credit Control</Text>
+        <Text style={styles.headerSubtitle}>
+          When invoices fall due, and what happens when a customer is over their credit limit or has
+          overdue invoices
+        </Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Default payment terms</Text>
+        <View style={styles.termsPicker}>
+          {PAYMENT_TERMS_OPTIONS.map((option) => {
+            const active = paymentTerms === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.termsOption, active && styles.termsOptionActive]}
+                onPress={() => setPaymentTerms(option.value)}
+              >
+                <Text style={[styles.termsOptionText, active && styles.termsOptionTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.hintText}>
+          For customers without their own terms. Invoices keep the terms they were raised on.
+        </Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Over the limit or overdue</Text>
+        {MODE_OPTIONS.map((option) => {
+          const active = mode === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, active && styles.optionActive]}
+              onPress={() => setMode(option.value)}
+            >
+              <Ionicons
+                name={active ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={active ? theme.colors.accent : theme.colors.textMuted}
+              />
+              <View style={styles.optionBody}>
+                <Text style={styles.optionLabel}>{option.label}</Text>
+                <Text style={styles.optionDescription}>{option.description}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+        <Text style={styles.hintText}>
+          Set credit limits, payment terms and account holds on each customer. A hold always stops the
+          customer ordering, and emailed orders for them wait in credit review.
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, saving && styles.buttonDisabled]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color={theme.colors.white} />
+        ) : (
+          <>
+            <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+            <Text style={styles.primaryButtonText}>Save</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+
+  // Header
+  header: {
+    marginBottom: theme.spacing.md,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+
+  // Form
+  card: {
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    marginBottom: theme.spacing.md,
+    ...theme.shadow.sm,
+  },
+  cardTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  termsPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  termsOption: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.background,
+  },
+  termsOptionActive: {
+    backgroundColor: theme.colors.accent,
+    borderColor: theme.colors.accent,
+  },
+  termsOptionText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  termsOptionTextActive: {
+    color: theme.colors.white,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: theme.spacing.sm,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginBottom: theme.spacing.sm,
+  },
+  optionActive: {
+    borderColor: theme.colors.accent,
+  },
+  optionBody: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  optionDescription: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.xs,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,829 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  RefreshControl,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Print from 'expo-print';
+import { theme } from '../theme';
+import { useOrders } from '../context/OrderContext';
+import { useAuth } from '../context/AuthContext';
+import { DeliveryRun, DeliveryRunStatus, Order, User } from '../types';
+import { addDays, getZonedToday } from '../utils/deliverySchedule';
+import { buildPickListHtml, buildRunSheetHtml, RunStop } from '../utils/runSheet';
+import ProofOfDeliveryModal from '../components/ProofOfDeliveryModal';
+
+const STATUS_CONFIG: Record<DeliveryRunStatus, { label: string; color: string }> = {
+  planned: { label: 'Planned', color: theme.colors.textSecondary },
+  out_for_delivery: { label: 'Out for Delivery', color: theme.colors.accent },
+  completed: { label: 'Completed', color: theme.colors.success },
+};
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+function formatDayHeading(date: string, today: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const label = new Date(y, m - 1, d).toLocaleDateString('en-AU', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  });
+  if (date === today) return `Today, ${label}`;
+  if (date === addDays(today, 1)) return `Tomorrow, ${label}`;
+  return label;
+}
+
+export default function DeliveryRunsScreen() {
+  const { state, loadAllData, saveDeliveryRun, deleteDeliveryRun, dispatchDeliveryRun, getTenantTimeZone } = useOrders();
+  const { tenant } = useAuth();
+
+  const today = getZonedToday(getTenantTimeZone(tenant?.id || ''));
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyRunId, setBusyRunId] = useState<string | null>(null);
+  const [deliveringStop, setDeliveringStop] = useState<RunStop | null>(null);
+
+  // Editor state
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingRun, setEditingRun] = useState<DeliveryRun | null>(null);
+  const [name, setName] = useState('');
+  const [driverName, setDriverName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [stopOrderIds, setStopOrderIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Cross-platform alert helpers
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  const showConfirm = useCallback((title: string, message: string, confirmText: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(`${title}\n\n${message}`)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: confirmText, onPress: onConfirm },
+      ]);
+    }
+  }, []);
+
+  // --- Data for the selected date ---
+
+  const runsForDate = useMemo(
+    () => state.deliveryRuns.filter((r) => r.delivery_date === selectedDate),
+    [state.deliveryRuns, selectedDate]
+  );
+
+  const assignedOrderIds = useMemo(
+    () => new Set(state.deliveryRuns.flatMap((r) => (r.stops || []).map((s) => s.order_id))),
+    [state.deliveryRuns]
+  );
+
+  // Approved orders for the date that are not on a run yet
+  const unassignedOrders = useMemo(
+    () =>
+      state.orders.filter(
+        (o) => o.status === 'approved' && o.requested_delivery_date === selectedDate && !assignedOrderIds.has(o.id)
+      ),
+    [state.orders, selectedDate, assignedOrderIds]
+  );
+
+  const getCustomer = useCallback(
+    (order: Order): User | undefined =>
+      state.users.find((u) => u.id === (order.customer_id || order.created_by)),
+    [state.users]
+  );
+
+  const getCustomerName = useCallback(
+    (order: Order) => {
+      const customer = getCustomer(order);
+      return customer?.business_name || customer?.full_name || 'Unknown customer';
+    },
+    [getCustomer]
+  );
+
+  const getRunStops = useCallback(
+    (run: DeliveryRun): RunStop[] =>
+      (run.stops || []).flatMap((stop) => {
+        const order = state.orders.find((o) => o.id === stop.order_id);
+        return order ? [{ stopNumber: stop.stop_number, order, customer: getCustomer(order) }] : [];
+      }),
+    [state.orders, getCustomer]
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadAllData();
+    setRefreshing(false);
+  };
+
+  // --- Editor ---
+
+  const openEditor = (run: DeliveryRun | null) => {
+    setEditingRun(run);
+    setName(run?.name || `Run ${runsForDate.length + 1}`);
+    setDriverName(run?.driver_name || '');
+    setNotes(run?.notes || '');
+    // A new run starts with every unassigned order for the day
+    setStopOrderIds(run ? (run.stops || []).map((s) => s.order_id) : unassignedOrders.map((o) => o.id));
+    setModalVisible(true);
+  };
+
+  const closeEditor = () => {
+    setModalVisible(false);
+    setEditingRun(null);
+  };
+
+  const moveStop = (index: number, direction: -1 | 1) => {
+    setStopOrderIds((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeStop = (orderId: string) => {
+    setStopOrderIds((prev) => prev.filter((id) => id !== orderId));
+  };
+
+  const addStop = (orderId: string) => {
+    setStopOrderIds((prev) => (prev.includes(orderId) ? prev : [...prev, orderId]));
+  };
+
+  // Orders that can still be added: unassigned ones and any taken off this run while editing
+  const availableOrders = useMemo(() => {
+    const editingIds = new Set((editingRun?.stops || []).map((s) => s.order_id));
+    return state.orders.filter(
+      (o) =>
+        o.status === 'approved' &&
+        o.requested_delivery_date === selectedDate &&
+        (!assignedOrderIds.has(o.id) || editingIds.has(o.id)) &&
+        !stopOrderIds.includes(o.id)
+    );
+  }, [state.orders, selectedDate, assignedOrderIds, editingRun, stopOrderIds]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showMessage('Validation', 'Please enter a name for the run.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveDeliveryRun(
+        {
+          id: editingRun?.id,
+          delivery_date: selectedDate,
+          name: name.trim(),
+          driver_name: driverName.trim() || null,
+          notes: notes.trim() || null,
+        },
+        stopOrderIds
+      );
+
+      if (saved) {
+        closeEditor();
+      } else {
+        showMessage('Error', 'Failed to save the delivery run. Please try again.');
+      }
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to save the delivery run.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editingRun) return;
+    showConfirm('Delete Run', `Delete "${editingRun.name}"? Its orders go back to unassigned.`, 'Delete', async () => {
+      try {
+        const deleted = await deleteDeliveryRun(editingRun.id);
+        if (deleted) {
+          closeEditor();
+        } else {
+          showMessage('Error', 'Failed to delete the delivery run.');
+        }
+      } catch (error: any) {
+        showMessage('Error', error?.message || 'Failed to delete the delivery run.');
+      }
+    });
+  };
+
+  // --- Run actions ---
+
+  const handlePrint = async (run: DeliveryRun, kind: 'run_sheet' | 'pick_list') => {
+    const stops = getRunStops(run);
+    const html = kind === 'run_sheet' ? buildRunSheetHtml(run, stops) : buildPickListHtml(run, stops);
+    try {
+      await Print.printAsync({ html });
+    } catch (e) {
+      console.error('Print error:', e);
+    }
+  };
+
+  const handleDispatch = (run: DeliveryRun) => {
+    const stopCount = (run.stops || []).length;
+    if (stopCount === 0) {
+      showMessage('Empty Run', 'Add at least one order to the run before sending it out.');
+      return;
+    }
+    showConfirm(
+      'Out for Delivery',
+      `Send "${run.name}" out? Its ${stopCount} order${stopCount === 1 ? '' : 's'} will be marked sent.`,
+      'Send Out',
+      async () => {
+        setBusyRunId(run.id);
+        try {
+          const sentCount = await dispatchDeliveryRun(run.id);
+          showMessage('Out for Delivery', `${sentCount} order${sentCount === 1 ? '' : 's'} marked sent.`);
+        } catch (error: any) {
+          showMessage('Error', error?.message || 'Failed to send the run out.');
+        } finally {
+          setBusyRunId(null);
+        }
+      }
+    );
+  };
+
+  // --- Render ---
+
+  const renderRun = (run: DeliveryRun) => {
+    const stops = getRunStops(run);
+    const config = STATUS_CONFIG[run.status];
+    const total = stops.reduce((sum, stop) => sum + (stop.order.total || 0), 0);
+    const isPlanned = run.status === 'planned';
+    const isOut = run.status === 'out_for_delivery';
+    const isBusy = busyRunId === run.id;
+
+    return (
+      <View key={run.id} style={styles.runCard}>
+        <TouchableOpacity
+          style={styles.runHeader}
+          onPress={() => isPlanned && openEditor(run)}
+          activeOpacity={isPlanned ? 0.7 : 1}
+        >
+          <View style={styles.runInfo}>
+            <Text style={styles.runName}>{run.name}</Text>
+            <Text style={styles.runMeta}>
+              {run.driver_name ? `${run.driver_name} · ` : ''}
+              {stops.length} stop{stops.length === 1 ? '' : 's'} · {formatCurrency(total)}
+            </Text>
+          </View>
+          <Text style={[styles.statusBadge, { color: config.color, borderColor: config.color }]}>{config.label}</Text>
+        </TouchableOpacity>
+
+        {stops.map((stop) => (
+          <View key={stop.order.id} style={styles.stopRow}>
+            <Text style={styles.stopNumber}>{stop.stopNumber}</Text>
+            <View style={styles.stopInfo}>
+              <Text style={styles.stopName} numberOfLines={1}>{getCustomerName(stop.order)}</Text>
+              <Text style={styles.stopAddress} numberOfLines={1}>
+                {stop.customer?.delivery_address || 'No delivery address'}
+              </Text>
+            </View>
+            <Text style={styles.stopOrder}>{stop.order.order_number || stop.order.id.substring(0, 8)}</Text>
+            {stop.order.status === 'delivered' ? (
+              <Ionicons name="checkmark-circle" size={20} color={theme.colors.success} style={styles.stopStatus} />
+            ) : (
+              isOut &&
+              stop.order.status !== 'cancelled' && (
+                <TouchableOpacity style={styles.deliverButton} onPress={() => setDeliveringStop(stop)}>
+                  <Text style={styles.deliverButtonText}>Deliver</Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+        ))}
+
+        <View style={styles.runActions}>
+          <TouchableOpacity style={styles.runActionBtn} onPress={() => handlePrint(run, 'run_sheet')}>
+            <Ionicons name="map-outline" size={16} color={theme.colors.accent} />
+            <Text style={styles.runActionText}>Run Sheet</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.runActionBtn} onPress={() => handlePrint(run, 'pick_list')}>
+            <Ionicons name="clipboard-outline" size={16} color={theme.colors.accent} />
+            <Text style={styles.runActionText}>Pick List</Text>
+          </TouchableOpacity>
+          {isPlanned && (
+            <TouchableOpacity
+              style={[styles.runActionBtn, styles.runActionPrimary]}
+              onPress={() => handleDispatch(run)}
+              disabled={isBusy}
+            >
+              {isBusy ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <>
+                  <Ionicons name="car-outline" size={16} color={theme.colors.white} />
+                  <Text style={[styles.runActionText, styles.runActionTextLight]}>Send Out</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderEditorStop = (orderId: string, index: number) => {
+    const order = state.orders.find((o) => o.id === orderId);
+    if (!order) return null;
+    return (
+      <View key={orderId} style={styles.editorStopRow}>
+        <Text style={styles.stopNumber}>{index + 1}</Text>
+        <View style={styles.stopInfo}>
+          <Text style={styles.stopName} numberOfLines={1}>{getCustomerName(order)}</Text>
+          <Text style={styles.stopAddress} numberOfLines={1}>
+            {getCustomer(order)?.delivery_address || 'No delivery address'}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={() => moveStop(index, -1)} disabled={index === 0} style={styles.iconButton}>
+          <Ionicons name="chevron-up" size={20} color={index === 0 ? theme.colors.textLight : theme.colors.textSecondary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => moveStop(index, 1)}
+          disabled={index === stopOrderIds.length - 1}
+          style={styles.iconButton}
+        >
+          <Ionicons
+            name="chevron-down"
+            size={20}
+            color={index === stopOrderIds.length - 1 ? theme.colors.textLight : theme.colors.textSecondary}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => removeStop(orderId)} style={styles.iconButton}>
+          <Ionicons name="close-circle-outline" size={20} color={theme.colors.danger} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.dateBar}>
+        <TouchableOpacity onPress={() => setSelectedDate(addDays(selectedDate, -1))} style={styles.dateArrow}>
+          <Ionicons name="chevron-back" size={22} color={theme.colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setSelectedDate(today)}>
+          <Text style={styles.dateText}>{formatDayHeading(selectedDate, today)}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setSelectedDate(addDays(selectedDate, 1))} style={styles.dateArrow}>
+          <Ionicons name="chevron-forward" size={22} color={theme.colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.unassignedCard}>
+          <View style={styles.unassignedInfo}>
+            <Text style={styles.unassignedTitle}>
+              {unassignedOrders.length} approved order{unassignedOrders.length === 1 ? '' : 's'} not on a run
+            </Text>
+            <Text style={styles.unassignedSubtitle}>
+              {unassignedOrders.length > 0
+                ? unassignedOrders.map(getCustomerName).join(', ')
+                : 'Every approved order for this day is planned.'}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.addButton} onPress={() => openEditor(null)}>
+            <Ionicons name="add" size={22} color={theme.colors.white} />
+          </TouchableOpacity>
+        </View>
+
+        {runsForDate.map(renderRun)}
+
+        {runsForDate.length === 0 && (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="car-outline" size={56} color={theme.colors.textLight} />
+            <Text style={styles.emptyTitle}>No runs planned</Text>
+            <Text style={styles.emptySubtitle}>Group the day's approved orders into runs, then print the run sheet and pick list.</Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <Modal visible={modalVisible} animationType="slide" transparent onRequestClose={closeEditor}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingRun ? 'Edit Run' : 'New Run'}</Text>
+              <TouchableOpacity onPress={closeEditor} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. North run"
+                placeholderTextColor={theme.colors.textMuted}
+                value={name}
+                onChangeText={setName}
+              />
+
+              <Text style={styles.inputLabel}>Driver</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Optional"
+                placeholderTextColor={theme.colors.textMuted}
+                value={driverName}
+                onChangeText={setDriverName}
+              />
+
+              <Text style={styles.inputLabel}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.notesInput]}
+                placeholder="Printed on the run sheet"
+                placeholderTextColor={theme.colors.textMuted}
+                value={notes}
+                onChangeText={setNotes}
+                multiline
+              />
+
+              <Text style={styles.inputLabel}>Stops ({stopOrderIds.length})</Text>
+              {stopOrderIds.length === 0 && <Text style={styles.hintText}>Add orders below.</Text>}
+              {stopOrderIds.map(renderEditorStop)}
+
+              {availableOrders.length > 0 && (
+                <>
+                  <Text style={styles.inputLabel}>Add Orders</Text>
+                  {availableOrders.map((order) => (
+                    <TouchableOpacity key={order.id} style={styles.optionRow} onPress={() => addStop(order.id)}>
+                      <Text style={styles.optionText} numberOfLines={1}>
+                        {getCustomerName(order)} · {order.order_number || order.id.substring(0, 8)}
+                      </Text>
+                      <Ionicons name="add-circle-outline" size={20} color={theme.colors.accent} />
+                    </TouchableOpacity>
+                  ))}
+                </>
+              )}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+                  <Text style={styles.primaryButtonText}>Save Run</Text>
+                </>
+              )}
+            </TouchableOpacity>
+
+            {editingRun && (
+              <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} disabled={saving}>
+                <Ionicons name="trash-outline" size={18} color={theme.colors.danger} />
+                <Text style={styles.deleteButtonText}>Delete Run</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {deliveringStop && (
+        <ProofOfDeliveryModal
+          visible
+          order={deliveringStop.order}
+          customerName={getCustomerName(deliveringStop.order)}
+          contactName={deliveringStop.customer?.contact_name}
+          onClose={() => setDeliveringStop(null)}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+    gap: theme.spacing.md,
+  },
+
+  // Date bar
+  dateBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: theme.colors.surface,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  dateArrow: {
+    padding: theme.spacing.xs,
+  },
+  dateText: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+
+  // Unassigned orders
+  unassignedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    ...theme.shadow.sm,
+  },
+  unassignedInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  unassignedTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  unassignedSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...theme.shadow.sm,
+  },
+
+  // Run card
+  runCard: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    ...theme.shadow.sm,
+  },
+  runHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  runInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  runName: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  runMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  statusBadge: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    borderWidth: 1,
+    borderRadius: theme.borderRadius.full,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+  },
+  stopNumber: {
+    width: 24,
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.accent,
+  },
+  stopInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  stopName: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+  },
+  stopAddress: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 1,
+  },
+  stopOrder: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+  },
+  stopStatus: {
+    marginLeft: theme.spacing.sm,
+  },
+  deliverButton: {
+    marginLeft: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.success,
+  },
+  deliverButtonText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.white,
+  },
+  runActions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  runActionBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.xs,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accent,
+  },
+  runActionPrimary: {
+    backgroundColor: theme.colors.accent,
+  },
+  runActionText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.accent,
+  },
+  runActionTextLight: {
+    color: theme.colors.white,
+  },
+
+  // Empty state
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.xl,
+    paddingTop: theme.spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  emptySubtitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+  },
+
+  // Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  modalTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  formScroll: {
+    flexGrow: 0,
+    marginBottom: theme.spacing.md,
+  },
+
+  // Form
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+  },
+  editorStopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  iconButton: {
+    padding: theme.spacing.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+    marginRight: theme.spacing.sm,
+  },
+
+  // Buttons
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+  },
+  deleteButtonText: {
+    color: theme.colors.danger,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+});
@@ -0,0 +1,490 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { useOrders } from '../context/OrderContext';
+import { Supplier, SupplierClosure, formatCutoffTime } from '../types';
+import {
+  DELIVERY_DAYS,
+  DeliveryDay,
+  getAvailableDeliveryDates,
+  getDeliveryDayLabel,
+  getSupplierDeliveryDays,
+} from '../utils/deliverySchedule';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export default function DeliveryScheduleScreen() {
+  const { state, updateSupplier, getTenantTimeZone } = useOrders();
+
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Form state
+  const [deliveryDays, setDeliveryDays] = useState<DeliveryDay[]>([]);
+  const [cutoffTime, setCutoffTime] = useState('');
+  const [closures, setClosures] = useState<SupplierClosure[]>([]);
+  const [closureDate, setClosureDate] = useState('');
+  const [closureReason, setClosureReason] = useState('');
+
+  // Cross-platform alert helper
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  // --- Modal ---
+
+  const openModal = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setDeliveryDays(getSupplierDeliveryDays(supplier.delivery_days));
+    setCutoffTime(supplier.cutoff_time || '17:00');
+    setClosures([...(supplier.closure_dates || [])].sort((a, b) => a.date.localeCompare(b.date)));
+    setClosureDate('');
+    setClosureReason('');
+  };
+
+  const closeModal = () => {
+    setEditingSupplier(null);
+  };
+
+  const toggleDay = (day: DeliveryDay) => {
+    setDeliveryDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]));
+  };
+
+  const addClosure = () => {
+    const date = closureDate.trim();
+    if (!DATE_PATTERN.test(date)) {
+      showMessage('Validation', 'Closure dates must be in YYYY-MM-DD format.');
+      return;
+    }
+    if (closures.some((c) => c.date === date)) {
+      showMessage('Validation', `${date} is already a closure date.`);
+      return;
+    }
+    const closure: SupplierClosure = { date, ...(closureReason.trim() ? { reason: closureReason.trim() } : {}) };
+    setClosures((prev) => [...prev, closure].sort((a, b) => a.date.localeCompare(b.date)));
+    setClosureDate('');
+    setClosureReason('');
+  };
+
+  const removeClosure = (date: string) => {
+    setClosures((prev) => prev.filter((c) => c.date !== date));
+  };
+
+  const handleSave = async () => {
+    if (!editingSupplier) return;
+    if (!TIME_PATTERN.test(cutoffTime)) {
+      showMessage('Validation', 'The cutoff time must be in 24-hour HH:MM format, e.g. 14:00.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await updateSupplier(editingSupplier.id, {
+        // Stored by name, as imported suppliers are
+        delivery_days: DELIVERY_DAYS.filter((d) => deliveryDays.includes(d.key)).map((d) => d.label),
+        cutoff_time: cutoffTime,
+        closure_dates: closures,
+      });
+
+      if (saved) {
+        closeModal();
+      } else {
+        showMessage('Error', 'Failed to save the delivery schedule. Please try again.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // --- Render ---
+
+  const renderSupplier = ({ item: supplier }: { item: Supplier }) => {
+    const days = getSupplierDeliveryDays(supplier.delivery_days);
+    const nextDelivery = getAvailableDeliveryDates(supplier, getTenantTimeZone(supplier.tenant_id), 1)[0];
+    const closureCount = (supplier.closure_dates || []).length;
+
+    return (
+      <TouchableOpacity style={styles.listCard} onPress={() => openModal(supplier)} activeOpacity={0.7}>
+        <View style={styles.listIcon}>
+          <Ionicons name="calendar-outline" size={20} color={theme.colors.accent} />
+        </View>
+        <View style={styles.listInfo}>
+          <Text style={styles.listName} numberOfLines={1}>{supplier.name}</Text>
+          <Text style={styles.listTarget} numberOfLines={1}>
+            {days.length > 0 ? days.map(getDeliveryDayLabel).join(', ') : 'Every day'}
+            {` · order by ${formatCutoffTime(supplier.cutoff_time || '17:00')} the day before`}
+          </Text>
+          <Text style={styles.listMeta}>
+            {nextDelivery ? `Next delivery ${nextDelivery}` : 'No open delivery dates'}
+            {closureCount > 0 ? ` · ${closureCount} closure date${closureCount === 1 ? '' : 's'}` : ''}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={state.suppliers}
+        keyExtractor={(item) => item.id}
+        renderItem={renderSupplier}
+        contentContainerStyle={state.suppliers.length === 0 ? styles.listContentEmpty : styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>Delivery Schedule</Text>
+            <Text style={styles.headerSubtitle}>Delivery days, order cutoff and public holidays</Text>
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="calendar-outline" size={56} color={theme.colors.textLight} />
+            <Text style={styles.emptyTitle}>No suppliers</Text>
+          </View>
+        }
+      />
+
+      <Modal visible={editingSupplier !== null} animationType="slide" transparent onRequestClose={closeModal}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle} numberOfLines={1}>{editingSupplier?.name}</Text>
+              <TouchableOpacity onPress={closeModal} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.inputLabel}>Delivery Days</Text>
+              <View style={styles.dayRow}>
+                {DELIVERY_DAYS.map((day) => {
+                  const selected = deliveryDays.includes(day.key);
+                  return (
+                    <TouchableOpacity
+                      key={day.key}
+                      style={[styles.dayChip, selected && styles.dayChipActive]}
+                      onPress={() => toggleDay(day.key)}
+                    >
+                      <Text style={[styles.dayChipText, selected && styles.dayChipTextActive]}>
+                        {day.label.slice(0, 3)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {deliveryDays.length === 0 && (
+                <Text style={styles.hintText}>No days selected: orders can be delivered any day.</Text>
+              )}
+
+              <Text style={styles.inputLabel}>Order Cutoff (day before delivery)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="17:00"
+                placeholderTextColor={theme.colors.textMuted}
+                value={cutoffTime}
+                onChangeText={setCutoffTime}
+                keyboardType="numbers-and-punctuation"
+              />
+              <Text style={styles.hintText}>
+                In the business timezone ({editingSupplier ? getTenantTimeZone(editingSupplier.tenant_id) : ''}).
+              </Text>
+
+              <Text style={styles.inputLabel}>Closure Dates</Text>
+              <View style={styles.closureForm}>
+                <TextInput
+                  style={[styles.input, styles.closureDateInput]}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={closureDate}
+                  onChangeText={setClosureDate}
+                />
+                <TextInput
+                  style={[styles.input, styles.closureReasonInput]}
+                  placeholder="e.g. Christmas Day"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={closureReason}
+                  onChangeText={setClosureReason}
+                />
+                <TouchableOpacity style={styles.addClosureButton} onPress={addClosure}>
+                  <Ionicons name="add" size={20} color={theme.colors.white} />
+                </TouchableOpacity>
+              </View>
+              {closures.length === 0 && (
+                <Text style={styles.hintText}>Add public holidays and shutdowns with no deliveries.</Text>
+              )}
+              {closures.map((closure) => (
+                <View key={closure.date} style={styles.closureRow}>
+                  <Text style={styles.closureDate}>{closure.date}</Text>
+                  <Text style={styles.closureReason} numberOfLines={1}>{closure.reason || ''}</Text>
+                  <TouchableOpacity onPress={() => removeClosure(closure.date)}>
+                    <Ionicons name="trash-outline" size={20} color={theme.colors.danger} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+                  <Text style={styles.primaryButtonText}>Save Schedule</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  listContent: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  listContentEmpty: {
+    flexGrow: 1,
+    padding: theme.spacing.md,
+  },
+  separator: {
+    height: theme.spacing.sm,
+  },
+
+  // Header
+  header: {
+    marginBottom: theme.spacing.md,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+
+  // List card
+  listCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    ...theme.shadow.sm,
+  },
+  listIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: theme.spacing.md,
+  },
+  listInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  listName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  listTarget: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  listMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+
+  // Empty state
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+
+  // Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+    marginRight: theme.spacing.sm,
+  },
+  formScroll: {
+    flexGrow: 0,
+    marginBottom: theme.spacing.md,
+  },
+
+  // Form
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.xs,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  dayChip: {
+    paddingVertical: theme.spacing.xs + 2,
+    paddingHorizontal: theme.spacing.sm + 2,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  dayChipActive: {
+    borderColor: theme.colors.accent,
+    backgroundColor: theme.colors.accent + '15',
+  },
+  dayChipText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  dayChipTextActive: {
+    color: theme.colors.accent,
+  },
+  closureForm: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  closureDateInput: {
+    width: 130,
+  },
+  closureReasonInput: {
+    flex: 1,
+  },
+  addClosureButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closureRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  closureDate: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  closureReason: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+
+  // Buttons
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -17,7 +17,7 @@ import { Item } from '../types';
 
 export default function FavouritesScreen() {
   const navigation = useNavigation<any>();
-  const { state, toggleFavourite, addToCart, getSupplierName, loadAllData, getCartQuantity } = useOrders();
+  const { state, toggleFavourite, addToCart, getSupplierName, loadAllData, getCartQuantity, getItemPrice } = useOrders();
   const [refreshing, setRefreshing] = useState(false);
 
   const onRefresh = useCallback(async () => {
@@ -80,7 +80,7 @@ export default function FavouritesScreen() {
 
           <View style={styles.itemFooter}>
             <View>
-              <Text style={styles.itemPrice}>${item.wholesale_price.toFixed(2)}</Text>
+              <Text style={styles.itemPrice}>${getItemPrice(item).unit_price.toFixed(2)}</Text>
               {item.size && <Text style={styles.itemSize}>{item.size}</Text>}
             </View>
 
@@ -0,0 +1,186 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { useAuth } from '../context/AuthContext';
+import { getMatchTolerance } from '../utils/invoiceMatching';
+
+export default function InvoiceMatchingScreen() {
+  const { tenant, updateTenantSettings } = useAuth();
+  const current = getMatchTolerance(tenant?.settings);
+
+  const [amount, setAmount] = useState(current.amount.toFixed(2));
+  const [percent, setPercent] = useState(String(current.percent));
+  const [saving, setSaving] = useState(false);
+
+  // Cross-platform alert helper
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  const handleSave = async () => {
+    const amountValue = parseFloat(amount);
+    const percentValue = parseFloat(percent);
+    if (isNaN(amountValue) || amountValue < 0) {
+      showMessage('Validation', 'Enter a dollar tolerance of 0 or more.');
+      return;
+    }
+    if (isNaN(percentValue) || percentValue < 0 || percentValue > 100) {
+      showMessage('Validation', 'Enter a percentage between 0 and 100.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await updateTenantSettings({
+        match_tolerance_amount: amountValue,
+        match_tolerance_percent: percentValue,
+      });
+      if (saved) {
+        showMessage('Saved', 'New tolerances apply the next time an invoice is checked.');
+      } else {
+        showMessage('Error', 'Failed to save the matching tolerance.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Invoice Matching</Text>
+        <Text style={styles.headerSubtitle}>How far an invoice can differ from what was ordered and delivered</Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.inputLabel}>Tolerance ($ per line)</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="0.05"
+          placeholderTextColor={theme.colors.textMuted}
+          value={amount}
+          onChangeText={setAmount}
+          keyboardType="decimal-pad"
+        />
+
+        <Text style={styles.inputLabel}>Tolerance (% of line)</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="0"
+          placeholderTextColor={theme.colors.textMuted}
+          value={percent}
+          onChangeText={setPercent}
+          keyboardType="decimal-pad"
+        />
+        <Text style={styles.hintText}>
+          A line within the larger of the two still counts as matched. Anything beyond it marks the invoice
+          as matched with variance.
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, saving && styles.buttonDisabled]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color={theme.colors.white} />
+        ) : (
+          <>
+            <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+            <Text style={styles.primaryButtonText}>Save Tolerance</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+
+  // Header
+  header: {
+    marginBottom: theme.spacing.md,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+
+  // Form
+  card: {
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    marginBottom: theme.spacing.md,
+    ...theme.shadow.sm,
+  },
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.xs,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -11,30 +11,59 @@ import {
   Alert,
   Platform,
   RefreshControl,
+  TextInput,
+  Linking,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
 // Print functionality uses Xero PDFs only - no local HTML generation
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
 import { useOrders } from '../context/OrderContext';
+import { useAuth } from '../context/AuthContext';
 import { theme } from '../theme';
 import { getXeroInvoicePDF } from '../services/xero';
 import { supabase } from '../lib/supabase';
-import type { Invoice, InvoiceItem } from '../types';
+import type { CreditNote, CreditReasonCode, Invoice, InvoiceItem, XeroSyncJob } from '../types';
+import {
+  CREDIT_REASONS,
+  getCreditReasonLabel,
+  getCreditableQuantity,
+  getCreditedTotal,
+  getShortDeliveryLines,
+} from '../utils/creditNotes';
+import {
+  getLineIssueLabel,
+  getMatchStatusLabel,
+  getMatchTolerance,
+  matchInvoiceToOrder,
+} from '../utils/invoiceMatching';
+import { isVoidInvoice } from '../utils/orderStatus';
+import { getPaymentTermsLabel } from '../utils/paymentTerms';
 
-type ExportStatus = 'pending' | 'not_exported' | 'exported' | 'export_failed';
-type PaymentStatus = 'pending_payment' | 'paid';
+type ExportStatus = 'pending' | 'retrying' | 'not_exported' | 'exported' | 'export_failed' | 'supplier';
+type PaymentStatus = 'pending_payment' | 'partially_paid' | 'paid' | 'voided';
 
 const EXPORT_STATUS_CONFIG: Record<ExportStatus, { label: string; bg: string; text: string; icon: string }> = {
   pending: { label: 'Processing', bg: '#E3F2FD', text: theme.colors.info, icon: 'hourglass-outline' },
+  retrying: { label: 'Retrying', bg: '#FEF3E2', text: theme.colors.warning, icon: 'refresh-outline' },
   not_exported: { label: 'Not Exported', bg: '#F5F5F5', text: theme.colors.textMuted, icon: 'cloud-outline' },
   exported: { label: 'Exported', bg: '#E8F8EF', text: theme.colors.success, icon: 'checkmark-circle' },
   export_failed: { label: 'Export Failed', bg: '#FDEDED', text: theme.colors.error, icon: 'alert-circle' },
+  supplier: { label: 'Supplier Invoice', bg: '#F3E5F5', text: theme.colors.textSecondary, icon: 'document-attach-outline' },
+};
+
+const MATCH_STATUS_CONFIG: Record<Invoice['match_status'], { bg: string; text: string; icon: string }> = {
+  matched: { bg: '#E8F8EF', text: theme.colors.success, icon: 'checkmark-circle' },
+  matched_with_variance: { bg: '#FEF3E2', text: theme.colors.warning, icon: 'alert-circle-outline' },
+  unmatched: { bg: '#FDEDED', text: theme.colors.danger, icon: 'close-circle-outline' },
 };
 
 const PAYMENT_STATUS_CONFIG: Record<PaymentStatus, { label: string; bg: string; text: string; icon: string }> = {
   pending_payment: { label: 'Pending Payment', bg: '#FEF3E2', text: theme.colors.warning, icon: 'time-outline' },
+  partially_paid: { label: 'Part Paid', bg: '#E3F2FD', text: theme.colors.info, icon: 'pie-chart-outline' },
   paid: { label: 'Paid', bg: '#E8F8EF', text: theme.colors.success, icon: 'checkmark-circle' },
+  voided: { label: 'Voided', bg: '#F5F5F5', text: theme.colors.textMuted, icon: 'ban-outline' },
 };
 
 function formatCurrency(amount: number): string {
@@ -61,6 +90,13 @@ function formatDateTime(dateStr: string): string {
   });
 }
 
+// Most recent Xero export job for an invoice
+function getXeroSyncJob(invoice: Invoice): XeroSyncJob | undefined {
+  return [...(invoice.sync_jobs || [])].sort((a, b) =>
+    (b.created_at || '').localeCompare(a.created_at || '')
+  )[0];
+}
+
 function ExportStatusBadge({ status }: { status: ExportStatus }) {
   const config = EXPORT_STATUS_CONFIG[status];
   return (
@@ -83,7 +119,9 @@ function PaymentStatusBadge({ status }: { status: PaymentStatus }) {
 
 
 export default function InvoicesScreen() {
-  const { state, exportToXero, getSupplierName, loadInvoices } = useOrders();
+  const { state, exportToXero, getSupplierName, loadInvoices, createCreditNote, exportCreditNoteToXero, matchInvoice } = useOrders();
+  const navigation = useNavigation<any>();
+  const { tenant, isOwner } = useAuth();
   const { invoices, suppliers } = state;
 
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
@@ -96,6 +134,15 @@ export default function InvoicesScreen() {
   const [showArchived, setShowArchived] = useState(false);
   const [archiving, setArchiving] = useState(false);
 
+  // Credit note form
+  const [creditFormOpen, setCreditFormOpen] = useState(false);
+  const [creditReason, setCreditReason] = useState<CreditReasonCode>('short_delivery');
+  const [creditQuantities, setCreditQuantities] = useState<Record<string, string>>({});
+  const [creditNotes, setCreditNotes] = useState('');
+  const [savingCredit, setSavingCredit] = useState(false);
+  const [exportingCreditId, setExportingCreditId] = useState<string | null>(null);
+  const [rematching, setRematching] = useState(false);
+
   // Update selectedInvoice when invoices change (after export)
   React.useEffect(() => {
     if (selectedInvoice) {
@@ -136,6 +183,7 @@ export default function InvoicesScreen() {
   const closeDetail = useCallback(() => {
     setModalVisible(false);
     setSelectedInvoice(null);
+    setCreditFormOpen(false);
   }, []);
 
   const showMessage = useCallback((title: string, message: string) => {
@@ -284,15 +332,96 @@ export default function InvoicesScreen() {
     [loadInvoices, closeDetail, showMessage]
   );
 
+  // ---- Credit notes ----
+  const openCreditForm = (invoice: Invoice) => {
+    // Start from any short delivery recorded on the order
+    const order = state.orders.find((o) => o.id === invoice.order_id);
+    const shortLines = order ? getShortDeliveryLines(invoice, order) : [];
+    setCreditReason(shortLines.length > 0 ? 'short_delivery' : 'damaged');
+    setCreditQuantities(Object.fromEntries(shortLines.map((line) => [line.invoiceItemId, String(line.quantity)])));
+    setCreditNotes('');
+    setCreditFormOpen(true);
+  };
+
+  const handleCreateCredit = async (invoice: Invoice) => {
+    const lines = (invoice.items || []).map((item) => ({
+      invoiceItemId: item.id,
+      quantity: parseFloat(creditQuantities[item.id] || '0') || 0,
+    }));
+    const overLimit = (invoice.items || []).find(
+      (item) => (parseFloat(creditQuantities[item.id] || '0') || 0) > getCreditableQuantity(invoice, item)
+    );
+    if (overLimit) {
+      showMessage('Validation', `Cannot credit more than is left on ${overLimit.description}.`);
+      return;
+    }
+
+    setSavingCredit(true);
+    try {
+      const creditNoteId = await createCreditNote(invoice.id, creditReason, lines, creditNotes.trim());
+      if (creditNoteId) {
+        setCreditFormOpen(false);
+        showMessage('Credit Note Issued', 'The credit note has been created.');
+      }
+    } catch (err: any) {
+      showMessage('Error', err?.message ?? 'Could not create the credit note.');
+    } finally {
+      setSavingCredit(false);
+    }
+  };
+
+  const handleExportCredit = async (creditNote: CreditNote) => {
+    setExportingCreditId(creditNote.id);
+    try {
+      await exportCreditNoteToXero(creditNote.id);
+      showMessage('Success', `Credit note ${creditNote.credit_note_number} sent to Xero.`);
+    } catch (err: any) {
+      showMessage('Export Failed', err?.message ?? 'Could not send the credit note to Xero.');
+    } finally {
+      setExportingCreditId(null);
+    }
+  };
+
+  const handleViewFile = async (invoice: Invoice) => {
+    if (!invoice.file_url) return;
+    const { data, error } = await supabase.storage
+      .from('supplier-invoices')
+      .createSignedUrl(invoice.file_url, 60 * 10);
+    if (error || !data?.signedUrl) {
+      console.error('Error opening supplier invoice:', error);
+      showMessage('Error', 'Could not open the invoice file.');
+      return;
+    }
+    await Linking.openURL(data.signedUrl);
+  };
+
+  const handleRematch = async (invoice: Invoice) => {
+    setRematching(true);
+    try {
+      const match = await matchInvoice(invoice.id);
+      if (!match) {
+        showMessage('Error', 'Could not check the invoice against its order.');
+      }
+    } finally {
+      setRematching(false);
+    }
+  };
+
   const getExportStatus = (invoice: Invoice): ExportStatus => {
+    // Received from the supplier; never exported
+    if (invoice.direction === 'inbound') return 'supplier';
     if (invoice.xero_invoice_id) return 'exported';
     if (invoice.status === 'export_failed') return 'export_failed';
+    const job = getXeroSyncJob(invoice);
+    if (job?.status === 'queued' && job.attempts > 0) return 'retrying';
     if (invoice.status === 'pending') return 'pending';
     return 'not_exported';
   };
 
   const getPaymentStatus = (invoice: Invoice): PaymentStatus => {
+    if (isVoidInvoice(invoice)) return 'voided';
     if (invoice.status === 'paid') return 'paid';
+    if (invoice.status === 'partially_paid') return 'partially_paid';
     return 'pending_payment';
   };
 
@@ -330,6 +459,9 @@ export default function InvoicesScreen() {
             {paymentStatus === 'pending_payment' && item.due_date && (
               <Text style={styles.dueDateText}>Due: {formatDate(item.due_date)}</Text>
             )}
+            {paymentStatus === 'partially_paid' && item.amount_due != null && (
+              <Text style={styles.dueDateText}>{formatCurrency(Number(item.amount_due))} still owing</Text>
+            )}
           </View>
         </View>
       </TouchableOpacity>
@@ -356,6 +488,229 @@ export default function InvoicesScreen() {
     </View>
   );
 
+  const renderCreditForm = (invoice: Invoice) => (
+    <View style={styles.creditForm}>
+      <Text style={styles.creditFormLabel}>Reason</Text>
+      <View style={styles.reasonChips}>
+        {CREDIT_REASONS.map((reason) => (
+          <TouchableOpacity
+            key={reason.value}
+            style={[styles.reasonChip, creditReason === reason.value && styles.reasonChipActive]}
+            onPress={() => setCreditReason(reason.value)}
+          >
+            <Text style={[styles.reasonChipText, creditReason === reason.value && styles.reasonChipTextActive]}>
+              {reason.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.creditFormLabel}>Quantity to credit</Text>
+      {(invoice.items || []).map((item) => {
+        const creditable = getCreditableQuantity(invoice, item);
+        return (
+          <View key={item.id} style={styles.creditLineRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.lineItemText} numberOfLines={2}>{item.description}</Text>
+              <Text style={styles.creditLineMeta}>
+                {creditable} of {item.quantity} left @ {formatCurrency(item.unit_price)}
+              </Text>
+            </View>
+            <TextInput
+              style={[styles.creditInput, creditable === 0 && { opacity: 0.5 }]}
+              value={creditQuantities[item.id] || ''}
+              onChangeText={(text) => setCreditQuantities((prev) => ({ ...prev, [item.id]: text }))}
+              placeholder="0"
+              placeholderTextColor={theme.colors.textMuted}
+              keyboardType="decimal-pad"
+              editable={creditable > 0}
+            />
+          </View>
+        );
+      })}
+
+      <Text style={styles.creditFormLabel}>Notes</Text>
+      <TextInput
+        style={[styles.creditInput, styles.creditNotesInput]}
+        value={creditNotes}
+        onChangeText={setCreditNotes}
+        placeholder="e.g. 2 cartons crushed in transit"
+        placeholderTextColor={theme.colors.textMuted}
+        multiline
+      />
+
+      <View style={styles.creditFormActions}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.archiveButton]}
+          onPress={() => setCreditFormOpen(false)}
+          disabled={savingCredit}
+        >
+          <Text style={styles.archiveButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.exportButton]}
+          onPress={() => handleCreateCredit(invoice)}
+          disabled={savingCredit}
+        >
+          {savingCredit ? (
+            <ActivityIndicator size="small" color={theme.colors.white} />
+          ) : (
+            <Text style={styles.actionButtonText}>Issue Credit</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderCreditNotes = (invoice: Invoice) => {
+    const creditNotesList = invoice.credit_notes || [];
+    const canCredit =
+      isOwner() &&
+      !isVoidInvoice(invoice) &&
+      invoice.direction !== 'inbound' &&
+      (invoice.items || []).some((item) => getCreditableQuantity(invoice, item) > 0);
+    if (creditNotesList.length === 0 && !canCredit) return null;
+
+    const creditedTotal = getCreditedTotal(invoice);
+
+    return (
+      <View style={styles.detailSection}>
+        <Text style={styles.sectionTitle}>Credit Notes</Text>
+        {creditNotesList.map((note) => (
+          <View key={note.id} style={styles.creditNoteRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.lineItemText}>{note.credit_note_number}</Text>
+              <Text style={styles.creditLineMeta}>
+                {formatDate(note.credit_date)} · {getCreditReasonLabel(note.reason_code)}
+                {note.status === 'exported' ? ' · In Xero' : ''}
+              </Text>
+              {note.notes ? <Text style={styles.creditLineMeta}>{note.notes}</Text> : null}
+              {note.export_error ? (
+                <Text style={[styles.exportErrorText, { color: theme.colors.danger }]}>{note.export_error}</Text>
+              ) : null}
+            </View>
+            <View style={{ alignItems: 'flex-end' }}>
+              <Text style={styles.totalsValue}>-{formatCurrency(note.total)}</Text>
+              {isOwner() && invoice.xero_invoice_id && !note.xero_credit_note_id && (
+                <TouchableOpacity
+                  onPress={() => handleExportCredit(note)}
+                  disabled={exportingCreditId === note.id}
+                  style={styles.creditExportLink}
+                >
+                  {exportingCreditId === note.id ? (
+                    <ActivityIndicator size="small" color={theme.colors.accent} />
+                  ) : (
+                    <Text style={styles.creditExportText}>
+                      {note.status === 'export_failed' ? 'Retry Xero' : 'Send to Xero'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        ))}
+
+        {creditNotesList.length > 0 && (
+          <View style={[styles.totalsRow, styles.totalsDivider]}>
+            <Text style={styles.totalsLabel}>Total after credits</Text>
+            <Text style={styles.totalsValue}>{formatCurrency(invoice.total - creditedTotal)}</Text>
+          </View>
+        )}
+
+        {canCredit && !creditFormOpen && (
+          <TouchableOpacity style={styles.creditButton} onPress={() => openCreditForm(invoice)}>
+            <Ionicons name="return-down-back-outline" size={18} color={theme.colors.accent} />
+            <Text style={styles.creditButtonText}>Issue Credit Note</Text>
+          </TouchableOpacity>
+        )}
+        {canCredit && creditFormOpen && renderCreditForm(invoice)}
+      </View>
+    );
+  };
+
+  const renderMatching = (invoice: Invoice) => {
+    const order = state.orders.find((o) => o.id === invoice.order_id);
+    const config = MATCH_STATUS_CONFIG[invoice.match_status] || MATCH_STATUS_CONFIG.unmatched;
+    // Lines are compared live; the status and variance are what was last saved
+    const lines = order
+      ? matchInvoiceToOrder(invoice, order, getMatchTolerance(tenant?.settings)).lines.filter((line) => line.issues.length > 0)
+      : [];
+    const variance = Number(invoice.variance_amount || 0);
+
+    return (
+      <View style={styles.detailSection}>
+        <Text style={styles.sectionTitle}>Order Matching</Text>
+        <View style={styles.matchHeader}>
+          <View style={[styles.badge, { backgroundColor: config.bg }]}>
+            <Ionicons name={config.icon as any} size={12} color={config.text} />
+            <Text style={[styles.badgeText, { color: config.text }]}>{getMatchStatusLabel(invoice.match_status)}</Text>
+          </View>
+          {variance !== 0 && (
+            <Text style={[styles.detailMetaText, { color: config.text }]}>
+              {variance > 0 ? '+' : '-'}{formatCurrency(Math.abs(variance))} vs delivered
+            </Text>
+          )}
+        </View>
+
+        {!order && invoice.order_id && (
+          <Text style={styles.creditLineMeta}>The order for this invoice is not loaded.</Text>
+        )}
+        {invoice.purchase_order_id && (
+          <Text style={styles.creditLineMeta}>A bill for a purchase order. Its lines are under Stock, Purchase Orders.</Text>
+        )}
+        {!invoice.order_id && !invoice.purchase_order_id && (
+          <Text style={styles.creditLineMeta}>This invoice has no order to match.</Text>
+        )}
+        {order && lines.length === 0 && (
+          <Text style={styles.creditLineMeta}>Every line agrees with the order and what was delivered.</Text>
+        )}
+
+        {lines.map((line) => (
+          <View key={line.key} style={styles.matchLineRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.lineItemText} numberOfLines={2}>{line.description}</Text>
+              <Text style={styles.creditLineMeta}>
+                Ordered {line.orderedQuantity ?? '-'}
+                {line.receivedQuantity != null ? ` · Received ${line.receivedQuantity}` : ''}
+                {' · '}Invoiced {line.invoicedQuantity ?? '-'}
+                {line.issues.includes('price') && line.orderedPrice != null && line.invoicedPrice != null
+                  ? ` · ${formatCurrency(line.invoicedPrice)} vs ${formatCurrency(line.orderedPrice)}`
+                  : ''}
+              </Text>
+              <Text style={styles.creditLineMeta}>{line.issues.map(getLineIssueLabel).join(', ')}</Text>
+            </View>
+            <Text
+              style={[
+                styles.totalsValue,
+                { color: line.withinTolerance ? theme.colors.textMuted : theme.colors.warning },
+              ]}
+            >
+              {line.variance > 0 ? '+' : line.variance < 0 ? '-' : ''}{formatCurrency(Math.abs(line.variance))}
+            </Text>
+          </View>
+        ))}
+
+        {invoice.matched_at && (
+          <Text style={[styles.creditLineMeta, { marginTop: theme.spacing.xs }]}>
+            Last checked {formatDateTime(invoice.matched_at)}
+          </Text>
+        )}
+        {isOwner() && !isVoidInvoice(invoice) && (
+          <TouchableOpacity style={styles.creditButton} onPress={() => handleRematch(invoice)} disabled={rematching}>
+            {rematching ? (
+              <ActivityIndicator size="small" color={theme.colors.accent} />
+            ) : (
+              <>
+                <Ionicons name="git-compare-outline" size={18} color={theme.colors.accent} />
+                <Text style={styles.creditButtonText}>Re-check Against Order</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   // ---- Detail Modal ----
   const renderDetailModal = () => {
     if (!selectedInvoice) return null;
@@ -365,7 +720,8 @@ export default function InvoicesScreen() {
     const supplierName = getSupplierName(invoice.supplier_id);
     const isExported = exportStatus === 'exported';
     const isPending = exportStatus === 'pending';
-    const canExport = exportStatus !== 'exported' && exportStatus !== 'pending';
+    const canExport = exportStatus !== 'exported' && exportStatus !== 'pending' && exportStatus !== 'supplier';
+    const syncJob = getXeroSyncJob(invoice);
     const isExporting = exporting === invoice.id;
 
     return (
@@ -413,7 +769,10 @@ export default function InvoicesScreen() {
                 {invoice.due_date && (
                   <View style={styles.detailMetaRow}>
                     <Ionicons name="time-outline" size={16} color={theme.colors.textSecondary} />
-                    <Text style={styles.detailMetaText}>Due {formatDate(invoice.due_date)}</Text>
+                    <Text style={styles.detailMetaText}>
+                      Due {formatDate(invoice.due_date)}
+                      {invoice.payment_terms ? ` · ${getPaymentTermsLabel(invoice.payment_terms)}` : ''}
+                    </Text>
                   </View>
                 )}
                 {invoice.order_id && (
@@ -428,11 +787,28 @@ export default function InvoicesScreen() {
                 <View style={[styles.xeroExportedBanner, { backgroundColor: '#E3F2FD' }]}>
                   <Ionicons name="hourglass-outline" size={18} color={theme.colors.info} />
                   <Text style={[styles.xeroExportedText, { color: theme.colors.info }]}>
-                    Exporting to Xero...
+                    {syncJob?.status === 'queued' ? 'Queued for export to Xero' : 'Exporting to Xero...'}
                   </Text>
                 </View>
               )}
 
+              {exportStatus === 'retrying' && syncJob && (
+                <View style={[styles.xeroExportedBanner, { backgroundColor: '#FEF3E2' }]}>
+                  <Ionicons name="refresh-outline" size={18} color={theme.colors.warning} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.xeroExportedText, { color: theme.colors.warning }]}>
+                      Attempt {syncJob.attempts} of {syncJob.max_attempts} failed. Retrying at{' '}
+                      {formatDateTime(syncJob.next_attempt_at)}.
+                    </Text>
+                    {syncJob.last_error && (
+                      <Text style={[styles.exportErrorText, { color: theme.colors.warning }]}>
+                        {syncJob.last_error}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              )}
+
               {isExported && invoice.exported_at && (
                 <View style={styles.xeroExportedBanner}>
                   <Ionicons name="checkmark-circle" size={18} color={theme.colors.success} />
@@ -454,6 +830,11 @@ export default function InvoicesScreen() {
                         {invoice.export_error}
                       </Text>
                     )}
+                    {syncJob?.status === 'failed' && syncJob.attempts > 1 && (
+                      <Text style={[styles.xeroExportedText, { color: theme.colors.textMuted, marginTop: 4 }]}>
+                        Gave up after {syncJob.attempts} attempts.
+                      </Text>
+                    )}
                     <Text style={[styles.xeroExportedText, { color: theme.colors.textMuted, marginTop: 4 }]}>
                       Tap below to retry.
                     </Text>
@@ -503,26 +884,40 @@ export default function InvoicesScreen() {
                 <Text style={styles.grandTotalLabel}>Total</Text>
                 <Text style={styles.grandTotalValue}>{formatCurrency(invoice.total)}</Text>
               </View>
-            </View>
-
-            {/* Match Status */}
-            {invoice.match_status && (
-              <View style={styles.detailSection}>
-                <View style={styles.detailMetaRow}>
-                  <Ionicons name="git-compare-outline" size={16} color={theme.colors.textSecondary} />
-                  <Text style={styles.detailMetaText}>
-                    Match status: {invoice.match_status}
+              {Number(invoice.amount_paid || 0) > 0 && (
+                <View style={styles.totalsRow}>
+                  <Text style={styles.totalsLabel}>
+                    Paid{invoice.last_payment_date ? ` (last ${formatDate(invoice.last_payment_date)})` : ''}
                   </Text>
+                  <Text style={styles.totalsValue}>{formatCurrency(Number(invoice.amount_paid))}</Text>
                 </View>
-              </View>
-            )}
+              )}
+              {invoice.amount_due != null && !isVoidInvoice(invoice) && (
+                <View style={styles.totalsRow}>
+                  <Text style={styles.grandTotalLabel}>Amount Due</Text>
+                  <Text style={styles.grandTotalValue}>{formatCurrency(Number(invoice.amount_due))}</Text>
+                </View>
+              )}
+              {(invoice.status === 'voided' || invoice.status === 'deleted') && (
+                <Text style={[styles.creditLineMeta, { marginTop: theme.spacing.xs }]}>
+                  {invoice.status === 'voided' ? 'Voided' : 'Deleted'} in Xero
+                  {invoice.voided_at ? ` on ${formatDateTime(invoice.voided_at)}` : ''}
+                </Text>
+              )}
+            </View>
+
+            {/* Credit Notes */}
+            {renderCreditNotes(invoice)}
+
+            {/* Order Matching */}
+            {invoice.match_status && renderMatching(invoice)}
           </ScrollView>
 
           {/* Action Buttons */}
           <View style={styles.modalActions}>
             {canExport && (
               <TouchableOpacity
-                style={[styles.actionButton, exportStatus === 'export_failed' ? styles.retryButton : styles.exportButton]}
+                style={[styles.actionButton, exportStatus === 'export_failed' || exportStatus === 'retrying' ? styles.retryButton : styles.exportButton]}
                 onPress={() => handleExport(invoice.id)}
                 disabled={isExporting}
                 activeOpacity={0.7}
@@ -532,17 +927,27 @@ export default function InvoicesScreen() {
                 ) : (
                   <>
                     <Ionicons
-                      name={exportStatus === 'export_failed' ? 'refresh-outline' : 'cloud-upload-outline'}
+                      name={exportStatus === 'export_failed' || exportStatus === 'retrying' ? 'refresh-outline' : 'cloud-upload-outline'}
                       size={20}
                       color={theme.colors.white}
                     />
                     <Text style={styles.actionButtonText}>
-                      {exportStatus === 'export_failed' ? 'Retry Export' : 'Export to Xero'}
+                      {exportStatus === 'export_failed' ? 'Retry Export' : exportStatus === 'retrying' ? 'Retry Now' : 'Export to Xero'}
                     </Text>
                   </>
                 )}
               </TouchableOpacity>
             )}
+            {invoice.direction === 'inbound' && invoice.file_url && (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.printButton]}
+                onPress={() => handleViewFile(invoice)}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="document-attach-outline" size={20} color={theme.colors.white} />
+                <Text style={styles.actionButtonText}>View Invoice File</Text>
+              </TouchableOpacity>
+            )}
             {isExported && (
               <TouchableOpacity
                 style={[styles.actionButton, styles.printButton]}
@@ -668,6 +1073,17 @@ export default function InvoicesScreen() {
           {showArchived ? 'Archived Invoices' : 'Invoices'}
         </Text>
         <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.archiveToggle}
+            onPress={() => navigation.navigate(isOwner() ? 'AgedReceivables' : 'Statement')}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={isOwner() ? 'stats-chart-outline' : 'reader-outline'}
+              size={18}
+              color={theme.colors.textMuted}
+            />
+          </TouchableOpacity>
           <TouchableOpacity
             style={[styles.archiveToggle, showArchived && styles.archiveToggleActive]}
             onPress={() => setShowArchived(!showArchived)}
@@ -1166,4 +1582,121 @@ const styles = StyleSheet.create({
     fontWeight: theme.fontWeight.semibold ?? '600',
     color: theme.colors.textMuted,
   },
+
+  // ---- Credit Notes ----
+  creditNoteRow: {
+    flexDirection: 'row',
+    paddingVertical: theme.spacing.xs + 2,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  creditLineMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  creditExportLink: {
+    marginTop: theme.spacing.xs,
+  },
+  creditExportText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.accent,
+  },
+  creditButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1.5,
+    borderColor: theme.colors.accent,
+  },
+  creditButtonText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.accent,
+  },
+  creditForm: {
+    marginTop: theme.spacing.sm,
+  },
+  creditFormLabel: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  reasonChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  reasonChip: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  reasonChipActive: {
+    backgroundColor: theme.colors.accent,
+    borderColor: theme.colors.accent,
+  },
+  reasonChipText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+  },
+  reasonChipTextActive: {
+    color: theme.colors.white,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  creditLineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+  },
+  creditInput: {
+    minWidth: 64,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs + 2,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.background,
+    textAlign: 'center',
+  },
+  creditNotesInput: {
+    minHeight: 56,
+    textAlign: 'left',
+    textAlignVertical: 'top',
+  },
+  creditFormActions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+
+  // ---- Order Matching ----
+  matchHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  matchLineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs + 2,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.borderLight,
+  },
 });
@@ -23,6 +23,16 @@ import { useOrders } from '../context/OrderContext';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../lib/supabase';
 import { Item, Supplier, CATEGORIES } from '../types';
+import { parseCartonPriceBreaks, formatCartonPriceBreaks } from '../utils/pricing';
+import {
+  XeroItemChange,
+  XeroItemReview,
+  XeroItemReviewRow,
+  applyXeroItemChanges,
+  buildXeroItemReview,
+  getItemFromXero,
+} from '../utils/xeroItemSync';
+import { fetchXeroItems, pushXeroItems } from '../services/xero';
 
 interface EditItemModalProps {
   visible: boolean;
@@ -51,6 +61,7 @@ function EditItemModal({ visible, item, supplierName, suppliers, isNew, onClose,
     purchase_price: '',
     wholesale_price: '',
     carton_price: '',
+    carton_price_breaks: '',
     rrp: '',
     barcode: '',
     tax_rate: '',
@@ -80,9 +91,10 @@ function EditItemModal({ visible, item, supplierName, suppliers, isNew, onClose,
         purchase_price: item.purchase_price?.toString() || '',
         wholesale_price: item.wholesale_price?.toString() || '',
         carton_price: item.carton_price?.toString() || '',
+        carton_price_breaks: formatCartonPriceBreaks(item.carton_price_breaks),
         rrp: item.rrp?.toString() || '',
         barcode: item.barcode || '',
-        tax_rate: item.tax_rate?.toString() || '10',
+        tax_rate: item.tax_rate?.toString() ?? '',
         xero_account_code: item.xero_account_code || '',
         xero_item_code: item.xero_item_code || '',
         status: item.status || 'active',
@@ -102,9 +114,10 @@ function EditItemModal({ visible, item, supplierName, suppliers, isNew, onClose,
         purchase_price: '',
         wholesale_price: '',
         carton_price: '',
+        carton_price_breaks: '',
         rrp: '',
         barcode: '',
-        tax_rate: '10',
+        tax_rate: '',
         xero_account_code: '',
         xero_item_code: '',
         status: 'active',
@@ -232,9 +245,10 @@ function EditItemModal({ visible, item, supplierName, suppliers, isNew, onClose,
       purchase_price: formData.purchase_price ? parseFloat(formData.purchase_price) : undefined,
       wholesale_price: formData.wholesale_price ? parseFloat(formData.wholesale_price) : 0,
       carton_price: formData.carton_price ? parseFloat(formData.carton_price) : undefined,
+      carton_price_breaks: parseCartonPriceBreaks(formData.carton_price_breaks),
       rrp: formData.rrp ? parseFloat(formData.rrp) : undefined,
       barcode: formData.barcode || undefined,
-      tax_rate: formData.tax_rate ? parseInt(formData.tax_rate) : undefined,
+      tax_rate: formData.tax_rate ? parseInt(formData.tax_rate) : null, // Blank follows the category default
       xero_account_code: formData.xero_account_code || undefined,
       xero_item_code: formData.xero_item_code || undefined,
       status: formData.status,
@@ -421,14 +435,25 @@ function EditItemModal({ visible, item, supplierName, suppliers, isNew, onClose,
               </View>
             </View>
 
+            <Text style={styles.inputLabel}>Multi-Carton Breaks</Text>
+            <TextInput
+              style={styles.textInput}
+              value={formData.carton_price_breaks}
+              onChangeText={(v) => updateField('carton_price_breaks', v)}
+              placeholder="5:30.00, 10:28.50"
+              autoCapitalize="none"
+            />
+            <Text style={styles.inputHint}>Cartons:price per carton, e.g. 5:30.00 for 5+ cartons</Text>
+
             <Text style={styles.inputLabel}>Tax Rate (%)</Text>
             <TextInput
               style={styles.textInput}
               value={formData.tax_rate}
               onChangeText={(v) => updateField('tax_rate', v)}
-              placeholder="10"
+              placeholder="Category default"
               keyboardType="number-pad"
             />
+            <Text style={styles.inputHint}>Leave blank to use the category's rate, or the business rate</Text>
 
             {/* Xero Integration Section */}
             <Text style={styles.sectionTitle}>Xero Integration</Text>
@@ -551,6 +576,16 @@ export default function MasterItemListScreen() {
   const [importError, setImportError] = useState<string | null>(null);
   const [importSupplierId, setImportSupplierId] = useState<string>('');
 
+  // Xero item sync state
+  const [showXeroModal, setShowXeroModal] = useState(false);
+  const [xeroLoading, setXeroLoading] = useState(false);
+  const [xeroApplying, setXeroApplying] = useState(false);
+  const [xeroError, setXeroError] = useState<string | null>(null);
+  const [xeroReview, setXeroReview] = useState<XeroItemReview | null>(null);
+  const [selectedXeroRows, setSelectedXeroRows] = useState<Set<string>>(new Set());
+  const [pushXeroRows, setPushXeroRows] = useState<Set<string>>(new Set());
+  const [xeroSupplierId, setXeroSupplierId] = useState<string>('');
+
   // Pull to refresh
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -821,6 +856,184 @@ export default function MasterItemListScreen() {
     }
   };
 
+  // Xero Item Sync Functions
+  const handleOpenXeroSync = async () => {
+    setShowXeroModal(true);
+    setXeroReview(null);
+    setXeroError(null);
+    setSelectedXeroRows(new Set());
+    setPushXeroRows(new Set());
+    setXeroSupplierId(state.suppliers[0]?.id || '');
+
+    setXeroLoading(true);
+    const result = await fetchXeroItems();
+    setXeroLoading(false);
+
+    if (!result.success || !result.items) {
+      setXeroError(result.error || 'Failed to fetch items from Xero');
+      return;
+    }
+
+    const review = buildXeroItemReview(result.items, state.items);
+    setXeroReview(review);
+    // Creates and updates are selected by default; conflicts need sorting out by hand
+    setSelectedXeroRows(new Set(review.rows.filter((row) => row.action !== 'conflict').map((row) => row.key)));
+  };
+
+  const toggleXeroRow = (key: string) => {
+    setSelectedXeroRows(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(key)) {
+        newSet.delete(key);
+      } else {
+        newSet.add(key);
+      }
+      return newSet;
+    });
+  };
+
+  const toggleXeroPush = (key: string) => {
+    setPushXeroRows(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(key)) {
+        newSet.delete(key);
+      } else {
+        newSet.add(key);
+      }
+      return newSet;
+    });
+  };
+
+  const handleApplyXeroSync = async () => {
+    if (!xeroReview) return;
+
+    const rows = xeroReview.rows.filter((row) => row.action !== 'conflict' && selectedXeroRows.has(row.key));
+    const creates = rows.filter((row) => row.action === 'create');
+    const updates = rows.filter((row) => row.action === 'update');
+
+    if (creates.length > 0 && !xeroSupplierId) {
+      Alert.alert('Error', 'Please select a supplier for the new items');
+      return;
+    }
+
+    setXeroApplying(true);
+    try {
+      let created = 0;
+      for (const row of creates) {
+        const result = await createItem(getItemFromXero(row.xeroItem!, xeroSupplierId));
+        if (result) created++;
+      }
+
+      const pushes: { code: string; name: string; unit_price: number }[] = [];
+      for (const row of updates) {
+        const push = row.canPush && pushXeroRows.has(row.key);
+        await updateItem(applyXeroItemChanges(row.item!, row.changes, push));
+        if (push) {
+          pushes.push({ code: row.xeroItem!.code, name: row.item!.name, unit_price: row.item!.wholesale_price });
+        }
+      }
+
+      const messages = [`Created ${created} of ${creates.length} items.`, `Updated ${updates.length} items.`];
+      if (pushes.length > 0) {
+        const pushResult = await pushXeroItems(pushes);
+        if (!pushResult.success) {
+          messages.push(`Xero was not updated: ${pushResult.error}`);
+        } else {
+          messages.push(`Updated ${pushResult.updated} items in Xero.`);
+          if (pushResult.errors && pushResult.errors.length > 0) {
+            messages.push(`Not updated in Xero:\n• ${pushResult.errors.join('\n• ')}`);
+          }
+        }
+      }
+
+      Alert.alert('Xero Sync Complete', messages.join('\n'));
+      setShowXeroModal(false);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to apply some Xero changes');
+    } finally {
+      setXeroApplying(false);
+    }
+  };
+
+  const formatXeroValue = (change: XeroItemChange, value: string | number | null) => {
+    if (value == null || value === '') return '—';
+    return change.field === 'wholesale_price' ? `$${Number(value).toFixed(2)}` : String(value);
+  };
+
+  const renderXeroRow = (row: XeroItemReviewRow) => {
+    if (row.action === 'conflict') {
+      return (
+        <View key={row.key} style={[styles.importItemCard, styles.xeroConflictCard]}>
+          <View style={styles.importItemCheck}>
+            <Ionicons name="warning-outline" size={22} color={theme.colors.warning} />
+          </View>
+          <View style={styles.importItemInfo}>
+            <Text style={styles.importItemName}>{row.item?.name || row.xeroItem?.name}</Text>
+            <Text style={styles.xeroConflictText}>{row.conflict}</Text>
+          </View>
+        </View>
+      );
+    }
+
+    const selected = selectedXeroRows.has(row.key);
+    const pushing = pushXeroRows.has(row.key);
+    return (
+      <TouchableOpacity
+        key={row.key}
+        style={[styles.importItemCard, selected && styles.importItemCardSelected]}
+        onPress={() => toggleXeroRow(row.key)}
+      >
+        <View style={styles.importItemCheck}>
+          <Ionicons
+            name={selected ? 'checkbox' : 'square-outline'}
+            size={24}
+            color={selected ? theme.colors.accent : theme.colors.textMuted}
+          />
+        </View>
+        <View style={styles.importItemInfo}>
+          {row.action === 'create' ? (
+            <>
+              <Text style={styles.importItemName}>{row.xeroItem!.name}</Text>
+              <View style={styles.importItemDetails}>
+                <Text style={styles.importItemDetail}>Code: {row.xeroItem!.code}</Text>
+                {row.xeroItem!.unit_price != null && (
+                  <Text style={styles.importItemDetail}>Price: ${row.xeroItem!.unit_price.toFixed(2)}</Text>
+                )}
+                {row.xeroItem!.account_code && (
+                  <Text style={styles.importItemDetail}>Account: {row.xeroItem!.account_code}</Text>
+                )}
+              </View>
+            </>
+          ) : (
+            <>
+              <Text style={styles.importItemName}>{row.item!.name}</Text>
+              {row.changes.map((change) => {
+                const keepLocal = pushing && (change.field === 'name' || change.field === 'wholesale_price');
+                return (
+                  <Text key={change.field} style={styles.xeroChangeText}>
+                    {change.label}: {keepLocal
+                      ? `${formatXeroValue(change, change.xero)} → ${formatXeroValue(change, change.local)} (in Xero)`
+                      : `${formatXeroValue(change, change.local)} → ${formatXeroValue(change, change.xero)}`}
+                  </Text>
+                );
+              })}
+              {row.canPush && (
+                <TouchableOpacity style={styles.xeroPushToggle} onPress={() => toggleXeroPush(row.key)}>
+                  <Ionicons
+                    name={pushing ? 'checkmark-circle' : 'ellipse-outline'}
+                    size={16}
+                    color={pushing ? theme.colors.accent : theme.colors.textMuted}
+                  />
+                  <Text style={styles.xeroPushToggleText}>Keep app name and price, update Xero</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   const clearFilters = () => {
     setSelectedSupplierId(null);
     setSelectedCategory(null);
@@ -974,6 +1187,15 @@ export default function MasterItemListScreen() {
           <Text style={styles.importButtonText}>Import</Text>
         </TouchableOpacity>
 
+        {/* Xero sync button */}
+        <TouchableOpacity
+          style={styles.importButton}
+          onPress={handleOpenXeroSync}
+        >
+          <Ionicons name="sync-outline" size={20} color={theme.colors.accent} />
+          <Text style={styles.importButtonText}>Xero</Text>
+        </TouchableOpacity>
+
         {/* Add button */}
         <TouchableOpacity
           style={styles.addButton}
@@ -1305,6 +1527,133 @@ export default function MasterItemListScreen() {
           </View>
         </View>
       </Modal>
+
+      {/* Xero Item Sync Modal */}
+      <Modal
+        visible={showXeroModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowXeroModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setShowXeroModal(false)}>
+                <Ionicons name="close" size={24} color={theme.colors.text} />
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Sync Items with Xero</Text>
+              <View style={{ width: 24 }} />
+            </View>
+
+            <ScrollView style={styles.modalBody}>
+              {xeroLoading && (
+                <View style={styles.importProcessingStep}>
+                  <ActivityIndicator size="large" color={theme.colors.accent} />
+                  <Text style={styles.importTitle}>Fetching Xero Items...</Text>
+                  <Text style={styles.importDescription}>
+                    Comparing your Xero item catalogue with the items in the app.
+                  </Text>
+                </View>
+              )}
+
+              {!xeroLoading && xeroError && (
+                <View style={styles.importReviewStep}>
+                  <View style={styles.importError}>
+                    <Ionicons name="alert-circle" size={20} color={theme.colors.danger} />
+                    <Text style={styles.importErrorText}>{xeroError}</Text>
+                  </View>
+                </View>
+              )}
+
+              {!xeroLoading && xeroReview && (
+                <View style={styles.importReviewStep}>
+                  <Text style={styles.importDescription}>
+                    Items are matched by Xero item code, then SKU. {xeroReview.unchanged} already match Xero.
+                  </Text>
+
+                  {xeroReview.rows.length === 0 && (
+                    <Text style={styles.importTitle}>Everything is in sync</Text>
+                  )}
+
+                  {xeroReview.rows.some((row) => row.action === 'create') && (
+                    <>
+                      <Text style={styles.xeroSectionTitle}>
+                        New in Xero ({xeroReview.rows.filter((row) => row.action === 'create').length})
+                      </Text>
+                      <Text style={styles.inputLabel}>Add new items to supplier</Text>
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.supplierSelect}>
+                        {state.suppliers.map((supplier) => (
+                          <TouchableOpacity
+                            key={supplier.id}
+                            style={[
+                              styles.supplierOption,
+                              xeroSupplierId === supplier.id && styles.supplierOptionActive,
+                            ]}
+                            onPress={() => setXeroSupplierId(supplier.id)}
+                          >
+                            <Text
+                              style={[
+                                styles.supplierOptionText,
+                                xeroSupplierId === supplier.id && styles.supplierOptionTextActive,
+                              ]}
+                            >
+                              {supplier.name}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </ScrollView>
+                      {xeroReview.rows.filter((row) => row.action === 'create').map(renderXeroRow)}
+                    </>
+                  )}
+
+                  {xeroReview.rows.some((row) => row.action === 'update') && (
+                    <>
+                      <Text style={styles.xeroSectionTitle}>
+                        Changed ({xeroReview.rows.filter((row) => row.action === 'update').length})
+                      </Text>
+                      {xeroReview.rows.filter((row) => row.action === 'update').map(renderXeroRow)}
+                    </>
+                  )}
+
+                  {xeroReview.rows.some((row) => row.action === 'conflict') && (
+                    <>
+                      <Text style={styles.xeroSectionTitle}>
+                        Conflicts ({xeroReview.rows.filter((row) => row.action === 'conflict').length})
+                      </Text>
+                      <Text style={styles.importDescription}>
+                        Fix these in the item details or in Xero, then sync again.
+                      </Text>
+                      {xeroReview.rows.filter((row) => row.action === 'conflict').map(renderXeroRow)}
+                    </>
+                  )}
+                </View>
+              )}
+            </ScrollView>
+
+            {!xeroLoading && xeroReview && xeroReview.rows.some((row) => row.action !== 'conflict') && (
+              <View style={styles.modalFooter}>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={() => setShowXeroModal(false)}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.saveButton, xeroApplying && styles.saveButtonDisabled]}
+                  onPress={handleApplyXeroSync}
+                  disabled={xeroApplying || selectedXeroRows.size === 0}
+                >
+                  {xeroApplying ? (
+                    <ActivityIndicator size="small" color={theme.colors.white} />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Apply {selectedXeroRows.size} Changes</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -2083,4 +2432,36 @@ const styles = StyleSheet.create({
     fontSize: theme.fontSize.xs,
     color: theme.colors.textMuted,
   },
+  // Xero item sync
+  xeroSectionTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  xeroChangeText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  xeroPushToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  xeroPushToggleText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.accent,
+    fontWeight: theme.fontWeight.medium,
+  },
+  xeroConflictCard: {
+    borderColor: theme.colors.warning,
+  },
+  xeroConflictText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.warning,
+    marginTop: 2,
+  },
 });
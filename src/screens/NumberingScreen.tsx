@@ -0,0 +1,374 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { useAuth } from '../context/AuthContext';
+import { supabase } from '../lib/supabase';
+import { NumberingFormat, NumberingKind } from '../types';
+import { DEFAULT_TIMEZONE, getZonedToday } from '../utils/deliverySchedule';
+import {
+  NUMBERING_KINDS,
+  MAX_NUMBER_PADDING,
+  getNumberingFormat,
+  formatDocumentNumber,
+} from '../utils/numbering';
+
+interface NumberingForm {
+  prefix: string;
+  padding: string;
+  yearly_reset: boolean;
+  next: string; // Blank to carry on from the last number issued
+}
+
+// Last number issued, keyed by `${kind}:${year}` (year 0 when numbering doesn't reset)
+type LastIssued = Record<string, number>;
+
+export default function NumberingScreen() {
+  const { tenant, updateTenantSettings } = useAuth();
+  const year = Number(getZonedToday(tenant?.settings?.timezone || DEFAULT_TIMEZONE).slice(0, 4));
+
+  const [forms, setForms] = useState<Record<NumberingKind, NumberingForm>>(() => {
+    const initial = {} as Record<NumberingKind, NumberingForm>;
+    NUMBERING_KINDS.forEach(({ value }) => {
+      const format = getNumberingFormat(value, tenant?.settings);
+      initial[value] = {
+        prefix: format.prefix,
+        padding: String(format.padding),
+        yearly_reset: format.yearly_reset,
+        next: '',
+      };
+    });
+    return initial;
+  });
+  const [lastIssued, setLastIssued] = useState<LastIssued>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Cross-platform alert helper
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  const loadSequences = useCallback(async () => {
+    if (!tenant) return;
+    const { data, error } = await supabase
+      .from('number_sequences')
+      .select('kind, year, last_value')
+      .eq('tenant_id', tenant.id);
+
+    if (error) {
+      console.error('Error loading number sequences:', error);
+    } else {
+      const issued: LastIssued = {};
+      (data || []).forEach((row: { kind: string; year: number; last_value: number }) => {
+        issued[`${row.kind}:${row.year}`] = row.last_value;
+      });
+      setLastIssued(issued);
+    }
+    setLoading(false);
+  }, [tenant]);
+
+  useEffect(() => {
+    loadSequences();
+  }, [loadSequences]);
+
+  const updateForm = (kind: NumberingKind, changes: Partial<NumberingForm>) => {
+    setForms((prev) => ({ ...prev, [kind]: { ...prev[kind], ...changes } }));
+  };
+
+  const toFormat = (form: NumberingForm): NumberingFormat => ({
+    prefix: form.prefix.trim(),
+    padding: Math.min(Math.max(parseInt(form.padding, 10) || 1, 1), MAX_NUMBER_PADDING),
+    yearly_reset: form.yearly_reset,
+  });
+
+  const getLastIssued = (kind: NumberingKind, form: NumberingForm): number =>
+    lastIssued[`${kind}:${form.yearly_reset ? year : 0}`] || 0;
+
+  const handleSave = async () => {
+    if (!tenant) return;
+
+    for (const { value: kind, label } of NUMBERING_KINDS) {
+      const form = forms[kind];
+      if (!form.next.trim()) continue;
+      const next = parseInt(form.next, 10);
+      if (!Number.isInteger(next) || next <= getLastIssued(kind, form)) {
+        showMessage(
+          'Check the next number',
+          `${label}: the next number must be after ${getLastIssued(kind, form)}, the last one issued.`
+        );
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const numbering = {} as Record<NumberingKind, NumberingFormat>;
+      NUMBERING_KINDS.forEach(({ value }) => {
+        numbering[value] = toFormat(forms[value]);
+      });
+
+      // Settings first, so a counter moved forward is the one for the new format's year
+      const saved = await updateTenantSettings({ numbering });
+      if (!saved) {
+        showMessage('Error', 'Failed to save the numbering settings.');
+        return;
+      }
+
+      for (const { value: kind, label } of NUMBERING_KINDS) {
+        const next = forms[kind].next.trim();
+        if (!next) continue;
+        const { error } = await supabase.rpc('set_next_document_number', {
+          p_tenant_id: tenant.id,
+          p_kind: kind,
+          p_next: parseInt(next, 10),
+        });
+        if (error) {
+          console.error('Error setting next document number:', error);
+          showMessage('Error', `${label}: ${error.message}`);
+          await loadSequences();
+          return;
+        }
+        updateForm(kind, { next: '' });
+      }
+
+      await loadSequences();
+      showMessage('Saved', 'New orders, invoices, credit notes and purchase orders will be numbered this way.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Numbering</Text>
+        <Text style={styles.headerSubtitle}>
+          How orders, invoices, credit notes and purchase orders are numbered. Invoices and credit notes
+          go to Xero with these numbers.
+        </Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color={theme.colors.accent} />
+      ) : (
+        NUMBERING_KINDS.map(({ value: kind, label }) => {
+          const form = forms[kind];
+          const format = toFormat(form);
+          const last = getLastIssued(kind, form);
+          const next = parseInt(form.next, 10) || last + 1;
+
+          return (
+            <View key={kind} style={styles.card}>
+              <Text style={styles.cardTitle}>{label}</Text>
+
+              <View style={styles.row}>
+                <View style={styles.rowField}>
+                  <Text style={styles.inputLabel}>Prefix</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.prefix}
+                    onChangeText={(text) => updateForm(kind, { prefix: text })}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                  />
+                </View>
+                <View style={styles.rowField}>
+                  <Text style={styles.inputLabel}>Digits</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.padding}
+                    onChangeText={(text) => updateForm(kind, { padding: text.replace(/[^0-9]/g, '') })}
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
+
+              <View style={styles.switchRow}>
+                <View style={styles.switchLabel}>
+                  <Text style={styles.switchTitle}>Start again each year</Text>
+                  <Text style={styles.hintText}>Adds the year to the number and restarts from 1</Text>
+                </View>
+                <Switch
+                  value={form.yearly_reset}
+                  onValueChange={(on) => updateForm(kind, { yearly_reset: on })}
+                  trackColor={{ false: theme.colors.border, true: theme.colors.accent }}
+                  thumbColor={theme.colors.white}
+                />
+              </View>
+
+              <Text style={styles.inputLabel}>Next number</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={String(last + 1)}
+                placeholderTextColor={theme.colors.textMuted}
+                value={form.next}
+                onChangeText={(text) => updateForm(kind, { next: text.replace(/[^0-9]/g, '') })}
+                keyboardType="number-pad"
+              />
+              <Text style={styles.hintText}>
+                {last > 0 ? `Last issued: ${formatDocumentNumber(format, last, year)}. ` : ''}
+                Set this to carry on from numbers already in Xero. It can only move forward.
+              </Text>
+
+              <View style={styles.preview}>
+                <Text style={styles.previewLabel}>Preview</Text>
+                <Text style={styles.previewValue}>{formatDocumentNumber(format, next, year)}</Text>
+              </View>
+            </View>
+          );
+        })
+      )}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, (saving || loading) && styles.buttonDisabled]}
+        onPress={handleSave}
+        disabled={saving || loading}
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color={theme.colors.white} />
+        ) : (
+          <>
+            <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+            <Text style={styles.primaryButtonText}>Save</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  loading: {
+    marginVertical: theme.spacing.xl,
+  },
+
+  // Header
+  header: {
+    marginBottom: theme.spacing.md,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+
+  // Form
+  card: {
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    marginBottom: theme.spacing.md,
+    ...theme.shadow.sm,
+  },
+  cardTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  rowField: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  switchTitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.xs,
+  },
+  preview: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+    paddingTop: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  previewLabel: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  previewValue: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -7,18 +7,27 @@ import {
   Modal,
   ScrollView,
   StyleSheet,
+  TextInput,
   Alert,
   ActivityIndicator,
   Platform,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
 import * as Print from 'expo-print';
 import * as MailComposer from 'expo-mail-composer';
+import * as DocumentPicker from 'expo-document-picker';
 import { useOrders } from '../context/OrderContext';
 import { useAuth } from '../context/AuthContext';
 import { theme } from '../theme';
 import { Order, OrderStatus } from '../types';
 import ItemMatchingModal, { parseUnmatchedItems } from '../components/ItemMatchingModal';
+import OrderTimeline from '../components/OrderTimeline';
+import DeliveryProofCard from '../components/DeliveryProofCard';
+import ProofOfDeliveryModal from '../components/ProofOfDeliveryModal';
+import { getDeleteError, getLiveInvoice, getSupplierInvoice } from '../utils/orderStatus';
+import { getMatchStatusLabel } from '../utils/invoiceMatching';
+import { buildReorderPlan, ReorderLine, ReorderPlan } from '../utils/reorder';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -105,7 +114,8 @@ function StatusBadge({ status }: { status: OrderStatus }) {
 // ---------------------------------------------------------------------------
 
 export default function OrdersScreen() {
-  const { state, updateOrderStatus, deleteOrder, getSupplierName, generateInvoice, loadAllData } = useOrders();
+  const navigation = useNavigation<any>();
+  const { state, updateOrderStatus, deleteOrder, getSupplierName, generateInvoice, voidOrderInvoice, loadAllData, getLinePrice, reorderToCart, uploadSupplierInvoice } = useOrders();
   const { user, isOwner, tenant } = useAuth();
 
   const [selectedSupplier, setSelectedSupplier] = useState<string>('all');
@@ -115,6 +125,11 @@ export default function OrdersScreen() {
   const [supplierPickerOpen, setSupplierPickerOpen] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
   const [showMatchingModal, setShowMatchingModal] = useState(false);
+  const [voidFormOpen, setVoidFormOpen] = useState(false);
+  const [voidReason, setVoidReason] = useState('');
+  const [reorderPlan, setReorderPlan] = useState<ReorderPlan | null>(null);
+  const [deliveryOrder, setDeliveryOrder] = useState<Order | null>(null);
+  const [uploadingInvoice, setUploadingInvoice] = useState(false);
 
   // -- Filtered orders -------------------------------------------------------
 
@@ -142,7 +157,8 @@ export default function OrdersScreen() {
 
   const orderHasInvoice = useCallback(
     (orderId: string): boolean => {
-      return state.invoices.some((inv) => inv.order_id === orderId);
+      // Voided invoices don't count - the order can be invoiced again
+      return !!getLiveInvoice(orderId, state.invoices);
     },
     [state.invoices],
   );
@@ -166,6 +182,9 @@ export default function OrdersScreen() {
   const handleCloseDetail = () => {
     setModalVisible(false);
     setSelectedOrder(null);
+    setVoidFormOpen(false);
+    setVoidReason('');
+    setReorderPlan(null);
   };
 
   const handleDeleteOrder = (order: Order) => {
@@ -176,12 +195,13 @@ export default function OrdersScreen() {
         style: 'destructive',
         onPress: async () => {
           setActionLoading(true);
-          const success = await deleteOrder(order.id);
-          setActionLoading(false);
-          if (success) {
+          try {
+            await deleteOrder(order.id);
             handleCloseDetail();
-          } else {
-            Alert.alert('Error', 'Failed to delete order.');
+          } catch (error: any) {
+            Alert.alert('Error', error?.message || 'Failed to delete order.');
+          } finally {
+            setActionLoading(false);
           }
         },
       },
@@ -227,9 +247,125 @@ export default function OrdersScreen() {
     }
   };
 
-  const handleUploadInvoice = () => {
-    // Placeholder -- would open document picker in production
-    Alert.alert('Upload Invoice', 'Document picker would open here to upload a supplier invoice.');
+  const handleVoidInvoice = async (order: Order) => {
+    if (!voidReason.trim()) {
+      Alert.alert('Reason required', 'Enter why the invoice is being voided.');
+      return;
+    }
+    setActionLoading(true);
+    try {
+      await voidOrderInvoice(order.id, voidReason.trim());
+      setVoidFormOpen(false);
+      setVoidReason('');
+      Alert.alert('Invoice Voided', 'The order can now be edited, cancelled or deleted.');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to void invoice.');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // The detail sheet steps aside while the proof of delivery is captured
+  const handleStartDelivery = (order: Order) => {
+    setModalVisible(false);
+    setDeliveryOrder(order);
+  };
+
+  const handleCloseDelivery = () => {
+    setDeliveryOrder(null);
+    if (selectedOrder) setModalVisible(true);
+  };
+
+  const handleDelivered = () => {
+    const order = deliveryOrder;
+    setDeliveryOrder(null);
+    handleCloseDetail();
+    Alert.alert('Delivered', `Order ${order?.order_number || order?.id.substring(0, 8) || ''} has been marked delivered.`);
+  };
+
+  const getCustomerName = (order: Order): string => {
+    const customer = state.users.find((u) => u.id === (order.customer_id || order.created_by));
+    return customer?.business_name || customer?.full_name || 'Unknown customer';
+  };
+
+  const handleStartReorder = (order: Order) => {
+    const plan = buildReorderPlan(order, state.items, state.cart, getLinePrice);
+    if (!plan.lines.some((line) => line.status === 'available')) {
+      Alert.alert('Cannot Reorder', 'None of the items on this order are available any more.');
+      return;
+    }
+    setReorderPlan(plan);
+  };
+
+  const handleReorder = async (order: Order, mode: 'merge' | 'replace') => {
+    if (!reorderPlan) return;
+    const lines = reorderPlan.lines
+      .filter((line): line is ReorderLine & { item: NonNullable<ReorderLine['item']> } => line.status === 'available' && !!line.item)
+      .map((line) => ({ item: line.item, quantity: line.quantity }));
+
+    setActionLoading(true);
+    try {
+      await reorderToCart(lines, mode);
+      handleCloseDetail();
+      navigation.navigate('ItemList', { screen: 'Cart' });
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || `Failed to add order ${order.order_number || order.id.substring(0, 8)} to the cart.`);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const describeReorderLine = (line: ReorderLine): string => {
+    if (line.status === 'not_found') return 'No longer in the catalogue, skipped';
+    if (line.status === 'unavailable') {
+      return `${line.item?.status === 'sold_out' ? 'Sold out' : 'Unavailable'}, skipped`;
+    }
+    const parts: string[] = [];
+    if (Math.abs(line.current_total - line.previous_total) >= 0.01) {
+      parts.push(`${formatCurrency(line.previous_unit_price)} → ${formatCurrency(line.current_unit_price)} each`);
+    } else {
+      parts.push('Same price');
+    }
+    if (line.cart_quantity > 0) {
+      parts.push(`${line.cart_quantity} already in cart`);
+    }
+    return parts.join(' · ');
+  };
+
+  // Read the supplier's invoice and check it against the order and what was delivered
+  const handleUploadInvoice = async (order: Order) => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/pdf', 'image/*'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return;
+
+    const file = result.assets[0];
+    setUploadingInvoice(true);
+    try {
+      const uploaded = await uploadSupplierInvoice(order.id, {
+        uri: file.uri,
+        name: file.name,
+        mimeType: file.mimeType || (file.name.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'image/jpeg'),
+      });
+      if (!uploaded) return;
+
+      const { invoice, match } = uploaded;
+      const flagged = (match?.lines || []).filter((line) => !line.withinTolerance);
+      if (!match || match.status === 'matched') {
+        Alert.alert('Invoice Uploaded', `Supplier invoice ${invoice.invoice_number} matches the order.`);
+      } else {
+        Alert.alert(
+          getMatchStatusLabel(match.status),
+          `Supplier invoice ${invoice.invoice_number} differs from the order on ${flagged.length} line${flagged.length === 1 ? '' : 's'} ` +
+            `(${match.variance > 0 ? '+' : '-'}${formatCurrency(Math.abs(match.variance))}). See Invoices for the details.`
+        );
+      }
+    } catch (error: any) {
+      Alert.alert('Upload Failed', error?.message || 'Could not read the supplier invoice.');
+    } finally {
+      setUploadingInvoice(false);
+    }
   };
 
   // -- HTML / text builders --------------------------------------------------
@@ -445,7 +581,15 @@ export default function OrdersScreen() {
     const canGenerateInvoice =
       (order.status === 'approved' || order.status === 'delivered') && !orderHasInvoice(order.id);
     const isDelivered = order.status === 'delivered';
-    const canDelete = order.status === 'draft' || order.status === 'cancelled' || isOwner();
+    const canDeliver = isOwner() && (order.status === 'approved' || order.status === 'sent');
+    const canDelete =
+      (order.status === 'draft' || order.status === 'cancelled' || isOwner()) &&
+      !getDeleteError(order, state.invoices);
+    const liveInvoice = isOwner() ? getLiveInvoice(order.id, state.invoices) : undefined;
+    const supplierInvoice = isOwner() ? getSupplierInvoice(order.id, state.invoices) : undefined;
+    // Owners order on behalf of customers from Approvals; only customers have a cart
+    const canReorder = !isOwner() && (order.items || []).length > 0;
+    const supplierInCart = state.cart.some((c) => c.item.supplier_id === order.supplier_id);
 
     return (
       <Modal visible={modalVisible} animationType="slide" presentationStyle="pageSheet">
@@ -551,6 +695,20 @@ export default function OrdersScreen() {
               </View>
             </View>
 
+            {/* Proof of delivery */}
+            {isDelivered && (
+              <View style={styles.detailSection}>
+                <Text style={styles.sectionTitle}>Proof of Delivery</Text>
+                <DeliveryProofCard order={order} refreshKey={order.updated_at} />
+              </View>
+            )}
+
+            {/* History */}
+            <View style={styles.detailSection}>
+              <Text style={styles.sectionTitle}>History</Text>
+              <OrderTimeline orderId={order.id} refreshKey={`${order.status}|${order.updated_at || ''}`} />
+            </View>
+
             {/* Actions */}
             <View style={styles.detailActions}>
               {/* Print */}
@@ -571,6 +729,105 @@ export default function OrdersScreen() {
                 <Text style={styles.actionBtnText}>Email</Text>
               </TouchableOpacity>
 
+              {/* Reorder */}
+              {canReorder && !reorderPlan && (
+                <TouchableOpacity
+                  style={[styles.actionBtn, styles.actionBtnOutline]}
+                  onPress={() => handleStartReorder(order)}
+                >
+                  <Ionicons name="repeat" size={20} color={theme.colors.accent} />
+                  <Text style={[styles.actionBtnText, { color: theme.colors.accent }]}>Reorder</Text>
+                </TouchableOpacity>
+              )}
+              {canReorder && reorderPlan && (
+                <View style={styles.reorderPanel}>
+                  <Text style={styles.sectionTitle}>Reorder Summary</Text>
+                  {reorderPlan.lines.map((line, index) => (
+                    <View key={`${line.item?.id || line.name}-${index}`} style={styles.reorderLine}>
+                      <View style={styles.reorderLineInfo}>
+                        <Text
+                          style={[styles.reorderLineName, line.status !== 'available' && styles.reorderLineSkipped]}
+                          numberOfLines={2}
+                        >
+                          {line.name}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.reorderLineMeta,
+                            line.status !== 'available' && { color: theme.colors.danger },
+                            line.status === 'available' && line.current_total > line.previous_total + 0.005 && { color: theme.colors.warning },
+                          ]}
+                        >
+                          {describeReorderLine(line)}
+                        </Text>
+                      </View>
+                      <Text style={styles.reorderLineQty}>x{line.quantity}</Text>
+                    </View>
+                  ))}
+                  <View style={styles.reorderTotals}>
+                    <Text style={styles.detailLabel}>Was {formatCurrency(reorderPlan.previous_total)}</Text>
+                    <Text style={styles.reorderTotalValue}>Now {formatCurrency(reorderPlan.current_total)} ex GST</Text>
+                  </View>
+                  {(reorderPlan.unavailable_count > 0 || reorderPlan.price_changes > 0) && (
+                    <Text style={styles.reorderNote}>
+                      {[
+                        reorderPlan.unavailable_count > 0 &&
+                          `${reorderPlan.unavailable_count} item${reorderPlan.unavailable_count === 1 ? '' : 's'} can't be reordered`,
+                        reorderPlan.price_changes > 0 &&
+                          `${reorderPlan.price_changes} price${reorderPlan.price_changes === 1 ? ' has' : 's have'} changed`,
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </Text>
+                  )}
+                  <View style={styles.voidFormActions}>
+                    <TouchableOpacity
+                      style={[styles.actionBtn, styles.voidFormButton]}
+                      onPress={() => setReorderPlan(null)}
+                      disabled={actionLoading}
+                    >
+                      <Text style={styles.actionBtnText}>Cancel</Text>
+                    </TouchableOpacity>
+                    {supplierInCart && (
+                      <TouchableOpacity
+                        style={[styles.actionBtn, styles.actionBtnOutline, styles.voidFormButton]}
+                        onPress={() => handleReorder(order, 'replace')}
+                        disabled={actionLoading}
+                      >
+                        <Text style={[styles.actionBtnText, { color: theme.colors.accent }]}>Replace Cart</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      style={[styles.actionBtn, styles.actionBtnAccent, styles.voidFormButton]}
+                      onPress={() => handleReorder(order, 'merge')}
+                      disabled={actionLoading}
+                    >
+                      {actionLoading ? (
+                        <ActivityIndicator size="small" color={theme.colors.white} />
+                      ) : (
+                        <Text style={[styles.actionBtnText, styles.actionBtnTextLight]}>
+                          {supplierInCart ? 'Merge' : 'Add to Cart'}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+
+              {/* Record delivery with received quantities, photo and signature */}
+              {canDeliver && (
+                <TouchableOpacity
+                  style={[styles.actionBtn, styles.actionBtnOutline]}
+                  onPress={() => handleStartDelivery(order)}
+                  disabled={actionLoading}
+                >
+                  <Ionicons name="checkmark-done-outline" size={20} color={theme.colors.accent} />
+                  <Text style={[styles.actionBtnText, { color: theme.colors.accent }]}>
+                    Record Delivery
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               {/* Generate Invoice */}
               {canGenerateInvoice && (
                 <TouchableOpacity
@@ -589,18 +846,77 @@ export default function OrdersScreen() {
                 </TouchableOpacity>
               )}
 
-              {/* Upload Invoice (delivered orders) */}
-              {isDelivered && (
+              {/* Upload the supplier's invoice (delivered orders) */}
+              {isDelivered && isOwner() && (
                 <TouchableOpacity
                   style={[styles.actionBtn, styles.actionBtnOutline]}
-                  onPress={handleUploadInvoice}
+                  onPress={() => handleUploadInvoice(order)}
+                  disabled={uploadingInvoice}
                 >
-                  <Ionicons name="cloud-upload-outline" size={20} color={theme.colors.accent} />
+                  {uploadingInvoice ? (
+                    <ActivityIndicator size="small" color={theme.colors.accent} />
+                  ) : (
+                    <Ionicons name="cloud-upload-outline" size={20} color={theme.colors.accent} />
+                  )}
                   <Text style={[styles.actionBtnText, { color: theme.colors.accent }]}>
-                    Upload Invoice
+                    {uploadingInvoice ? 'Reading Invoice...' : supplierInvoice ? 'Upload Another Invoice' : 'Upload Invoice'}
                   </Text>
                 </TouchableOpacity>
               )}
+              {supplierInvoice && (
+                <Text style={styles.supplierInvoiceNote}>
+                  Supplier invoice {supplierInvoice.invoice_number} · {getMatchStatusLabel(supplierInvoice.match_status)}
+                </Text>
+              )}
+
+              {/* Void invoice - the only way to unlock an invoiced order. Xero won't void one with payments. */}
+              {liveInvoice && liveInvoice.status !== 'paid' && liveInvoice.status !== 'partially_paid' && !liveInvoice.amount_paid && !voidFormOpen && (
+                <TouchableOpacity
+                  style={[styles.actionBtn, styles.actionBtnDanger]}
+                  onPress={() => setVoidFormOpen(true)}
+                  disabled={actionLoading}
+                >
+                  <Ionicons name="close-circle-outline" size={20} color={theme.colors.danger} />
+                  <Text style={[styles.actionBtnText, { color: theme.colors.danger }]}>
+                    Void Invoice {liveInvoice.invoice_number}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {liveInvoice && voidFormOpen && (
+                <View style={styles.voidForm}>
+                  <Text style={styles.detailLabel}>Reason for voiding</Text>
+                  <TextInput
+                    style={styles.voidInput}
+                    value={voidReason}
+                    onChangeText={setVoidReason}
+                    placeholder="e.g. Wrong customer, order re-entered"
+                    placeholderTextColor={theme.colors.textMuted}
+                    multiline
+                  />
+                  <View style={styles.voidFormActions}>
+                    <TouchableOpacity
+                      style={[styles.actionBtn, styles.voidFormButton]}
+                      onPress={() => {
+                        setVoidFormOpen(false);
+                        setVoidReason('');
+                      }}
+                    >
+                      <Text style={styles.actionBtnText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionBtn, styles.actionBtnDanger, styles.voidFormButton]}
+                      onPress={() => handleVoidInvoice(order)}
+                      disabled={actionLoading}
+                    >
+                      {actionLoading ? (
+                        <ActivityIndicator size="small" color={theme.colors.danger} />
+                      ) : (
+                        <Text style={[styles.actionBtnText, { color: theme.colors.danger }]}>Void Invoice</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
 
               {/* Delete */}
               {canDelete && (
@@ -663,6 +979,17 @@ export default function OrdersScreen() {
       {renderSupplierPicker()}
       {renderDetailModal()}
 
+      {deliveryOrder && (
+        <ProofOfDeliveryModal
+          visible
+          order={deliveryOrder}
+          customerName={getCustomerName(deliveryOrder)}
+          contactName={state.users.find((u) => u.id === deliveryOrder.customer_id)?.contact_name}
+          onClose={handleCloseDelivery}
+          onDelivered={handleDelivered}
+        />
+      )}
+
       {/* Item Matching Modal */}
       {selectedOrder && tenant && (
         <ItemMatchingModal
@@ -1062,6 +1389,84 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.surface,
     borderColor: theme.colors.danger,
   },
+  voidForm: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    gap: theme.spacing.sm,
+  },
+  voidInput: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.sm,
+    minHeight: 60,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+    textAlignVertical: 'top',
+  },
+  voidFormActions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  voidFormButton: {
+    flex: 1,
+  },
+  reorderPanel: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    gap: theme.spacing.sm,
+  },
+  reorderLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  reorderLineInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  reorderLineName: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+  },
+  reorderLineSkipped: {
+    color: theme.colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  reorderLineMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  reorderLineQty: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  reorderTotals: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  reorderTotalValue: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  reorderNote: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.warning,
+  },
+  supplierInvoiceNote: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+  },
   actionBtnText: {
     fontSize: theme.fontSize.sm,
     fontWeight: theme.fontWeight.semibold,
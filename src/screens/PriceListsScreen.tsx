@@ -0,0 +1,771 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { useOrders } from '../context/OrderContext';
+import { PriceList, PriceListItem, User } from '../types';
+
+type TargetType = 'customer' | 'group';
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default function PriceListsScreen() {
+  const { state, savePriceList, deletePriceList } = useOrders();
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingList, setEditingList] = useState<PriceList | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [targetType, setTargetType] = useState<TargetType>('customer');
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [priceGroup, setPriceGroup] = useState('');
+  const [discountPercent, setDiscountPercent] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [effectiveTo, setEffectiveTo] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [overrides, setOverrides] = useState<PriceListItem[]>([]);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [itemSearch, setItemSearch] = useState('');
+
+  const customers = useMemo(
+    () => state.users.filter((u) => u.role === 'user'),
+    [state.users]
+  );
+
+  const filteredCustomers = useMemo(() => {
+    const query = customerSearch.toLowerCase().trim();
+    if (!query) return customers.slice(0, 5);
+    return customers
+      .filter(
+        (u) =>
+          u.business_name?.toLowerCase().includes(query) ||
+          u.full_name?.toLowerCase().includes(query) ||
+          u.customer_id?.toLowerCase().includes(query)
+      )
+      .slice(0, 5);
+  }, [customers, customerSearch]);
+
+  const filteredItems = useMemo(() => {
+    const query = itemSearch.toLowerCase().trim();
+    if (!query) return [];
+    return state.items
+      .filter(
+        (item) =>
+          item.name.toLowerCase().includes(query) ||
+          item.sku?.toLowerCase().includes(query) ||
+          item.barcode?.toLowerCase().includes(query)
+      )
+      .slice(0, 5);
+  }, [state.items, itemSearch]);
+
+  const getCustomerName = useCallback(
+    (id: string | null | undefined) => {
+      const customer = state.users.find((u) => u.id === id);
+      return customer?.business_name || customer?.full_name || 'Unknown customer';
+    },
+    [state.users]
+  );
+
+  const getItemName = useCallback(
+    (itemId: string) => state.items.find((i) => i.id === itemId)?.name || 'Unknown item',
+    [state.items]
+  );
+
+  // Cross-platform alert helpers
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  const showConfirm = useCallback((title: string, message: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(`${title}\n\n${message}`)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: onConfirm },
+      ]);
+    }
+  }, []);
+
+  // --- Modal ---
+
+  const openModal = (list: PriceList | null) => {
+    setEditingList(list);
+    setName(list?.name || '');
+    setTargetType(list?.price_group && !list.customer_id ? 'group' : 'customer');
+    setCustomerId(list?.customer_id || null);
+    setPriceGroup(list?.price_group || '');
+    setDiscountPercent(list?.discount_percent ? String(list.discount_percent) : '');
+    setEffectiveFrom(list?.effective_from || '');
+    setEffectiveTo(list?.effective_to || '');
+    setIsActive(list ? list.is_active : true);
+    setOverrides((list?.items || []).map((i) => ({ item_id: i.item_id, unit_price: i.unit_price })));
+    setCustomerSearch('');
+    setItemSearch('');
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingList(null);
+  };
+
+  const addOverride = (itemId: string) => {
+    if (overrides.some((o) => o.item_id === itemId)) return;
+    const item = state.items.find((i) => i.id === itemId);
+    setOverrides((prev) => [...prev, { item_id: itemId, unit_price: item?.wholesale_price || 0 }]);
+    setItemSearch('');
+  };
+
+  const updateOverridePrice = (itemId: string, value: string) => {
+    const price = parseFloat(value) || 0;
+    setOverrides((prev) => prev.map((o) => (o.item_id === itemId ? { ...o, unit_price: price } : o)));
+  };
+
+  const removeOverride = (itemId: string) => {
+    setOverrides((prev) => prev.filter((o) => o.item_id !== itemId));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showMessage('Validation', 'Please enter a name for the price list.');
+      return;
+    }
+    if (targetType === 'customer' && !customerId) {
+      showMessage('Validation', 'Please select a customer.');
+      return;
+    }
+    if (targetType === 'group' && !priceGroup.trim()) {
+      showMessage('Validation', 'Please enter a price group.');
+      return;
+    }
+    const discount = discountPercent.trim() ? parseFloat(discountPercent) : 0;
+    if (isNaN(discount) || discount < 0 || discount > 100) {
+      showMessage('Validation', 'Discount must be between 0 and 100%.');
+      return;
+    }
+    if ((effectiveFrom && !DATE_PATTERN.test(effectiveFrom)) || (effectiveTo && !DATE_PATTERN.test(effectiveTo))) {
+      showMessage('Validation', 'Dates must be in YYYY-MM-DD format.');
+      return;
+    }
+    if (effectiveFrom && effectiveTo && effectiveTo < effectiveFrom) {
+      showMessage('Validation', 'The end date must be after the start date.');
+      return;
+    }
+    if (discount === 0 && overrides.length === 0) {
+      showMessage('Validation', 'Add a discount or at least one item price.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await savePriceList(
+        {
+          id: editingList?.id,
+          name: name.trim(),
+          customer_id: targetType === 'customer' ? customerId : null,
+          price_group: targetType === 'group' ? priceGroup.trim() : null,
+          discount_percent: discount,
+          effective_from: effectiveFrom || null,
+          effective_to: effectiveTo || null,
+          is_active: isActive,
+        },
+        overrides
+      );
+
+      if (saved) {
+        closeModal();
+      } else {
+        showMessage('Error', 'Failed to save price list. Please try again.');
+      }
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to save price list.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editingList) return;
+    showConfirm('Delete Price List', `Delete "${editingList.name}"? Existing orders keep their prices.`, async () => {
+      const deleted = await deletePriceList(editingList.id);
+      if (deleted) {
+        closeModal();
+      } else {
+        showMessage('Error', 'Failed to delete price list.');
+      }
+    });
+  };
+
+  // --- Render ---
+
+  const renderTarget = (list: PriceList) =>
+    list.customer_id ? getCustomerName(list.customer_id) : `Group: ${list.price_group}`;
+
+  const renderDates = (list: PriceList) => {
+    if (!list.effective_from && !list.effective_to) return 'No end date';
+    if (list.effective_from && list.effective_to) return `${list.effective_from} to ${list.effective_to}`;
+    if (list.effective_from) return `From ${list.effective_from}`;
+    return `Until ${list.effective_to}`;
+  };
+
+  const renderPriceList = ({ item: list }: { item: PriceList }) => (
+    <TouchableOpacity style={styles.listCard} onPress={() => openModal(list)} activeOpacity={0.7}>
+      <View style={styles.listIcon}>
+        <Ionicons
+          name={list.customer_id ? 'person-outline' : 'people-outline'}
+          size={20}
+          color={list.is_active ? theme.colors.accent : theme.colors.textMuted}
+        />
+      </View>
+      <View style={styles.listInfo}>
+        <View style={styles.listNameRow}>
+          <Text style={styles.listName} numberOfLines={1}>{list.name}</Text>
+          {!list.is_active && <Text style={styles.inactiveBadge}>Inactive</Text>}
+        </View>
+        <Text style={styles.listTarget} numberOfLines={1}>{renderTarget(list)}</Text>
+        <Text style={styles.listMeta}>
+          {list.discount_percent ? `${list.discount_percent}% off · ` : ''}
+          {(list.items || []).length} item price{(list.items || []).length === 1 ? '' : 's'} · {renderDates(list)}
+        </Text>
+      </View>
+      <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+    </TouchableOpacity>
+  );
+
+  const renderCustomerOption = (customer: User) => {
+    const isSelected = customerId === customer.id;
+    return (
+      <TouchableOpacity
+        key={customer.id}
+        style={[styles.optionRow, isSelected && styles.optionRowSelected]}
+        onPress={() => setCustomerId(customer.id)}
+      >
+        <Text style={styles.optionText} numberOfLines={1}>
+          {customer.business_name || customer.full_name}
+          {customer.price_group ? ` (${customer.price_group})` : ''}
+        </Text>
+        {isSelected && <Ionicons name="checkmark" size={18} color={theme.colors.accent} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={state.priceLists}
+        keyExtractor={(item) => item.id}
+        renderItem={renderPriceList}
+        contentContainerStyle={state.priceLists.length === 0 ? styles.listContentEmpty : styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.headerTitle}>Price Lists</Text>
+              <Text style={styles.headerSubtitle}>Contract prices and discounts for customers</Text>
+            </View>
+            <TouchableOpacity style={styles.addButton} onPress={() => openModal(null)}>
+              <Ionicons name="add" size={22} color={theme.colors.white} />
+            </TouchableOpacity>
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="pricetags-outline" size={56} color={theme.colors.textLight} />
+            <Text style={styles.emptyTitle}>No price lists</Text>
+            <Text style={styles.emptySubtitle}>
+              Customers without a price list pay wholesale prices.
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal visible={modalVisible} animationType="slide" transparent onRequestClose={closeModal}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingList ? 'Edit Price List' : 'New Price List'}</Text>
+              <TouchableOpacity onPress={closeModal} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Cafe contract 2026"
+                placeholderTextColor={theme.colors.textMuted}
+                value={name}
+                onChangeText={setName}
+              />
+
+              <Text style={styles.inputLabel}>Applies To</Text>
+              <View style={styles.segmented}>
+                {(['customer', 'group'] as TargetType[]).map((type) => (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.segment, targetType === type && styles.segmentActive]}
+                    onPress={() => setTargetType(type)}
+                  >
+                    <Text style={[styles.segmentText, targetType === type && styles.segmentTextActive]}>
+                      {type === 'customer' ? 'Customer' : 'Price Group'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {targetType === 'customer' ? (
+                <>
+                  {customerId && (
+                    <Text style={styles.selectedText}>Selected: {getCustomerName(customerId)}</Text>
+                  )}
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Search customers..."
+                    placeholderTextColor={theme.colors.textMuted}
+                    value={customerSearch}
+                    onChangeText={setCustomerSearch}
+                  />
+                  <View style={styles.optionList}>{filteredCustomers.map(renderCustomerOption)}</View>
+                </>
+              ) : (
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Cafe"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={priceGroup}
+                  onChangeText={setPriceGroup}
+                  autoCapitalize="words"
+                />
+              )}
+
+              <Text style={styles.inputLabel}>Discount off wholesale (%)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0"
+                placeholderTextColor={theme.colors.textMuted}
+                value={discountPercent}
+                onChangeText={setDiscountPercent}
+                keyboardType="decimal-pad"
+              />
+
+              <View style={styles.dateRow}>
+                <View style={styles.dateField}>
+                  <Text style={styles.inputLabel}>Effective From</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={theme.colors.textMuted}
+                    value={effectiveFrom}
+                    onChangeText={setEffectiveFrom}
+                  />
+                </View>
+                <View style={styles.dateField}>
+                  <Text style={styles.inputLabel}>Effective To</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={theme.colors.textMuted}
+                    value={effectiveTo}
+                    onChangeText={setEffectiveTo}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Active</Text>
+                <Switch
+                  value={isActive}
+                  onValueChange={setIsActive}
+                  trackColor={{ true: theme.colors.accent, false: theme.colors.border }}
+                />
+              </View>
+
+              <Text style={styles.inputLabel}>Item Prices</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Search items to add a contract price..."
+                placeholderTextColor={theme.colors.textMuted}
+                value={itemSearch}
+                onChangeText={setItemSearch}
+              />
+              {filteredItems.length > 0 && (
+                <View style={styles.optionList}>
+                  {filteredItems.map((item) => (
+                    <TouchableOpacity key={item.id} style={styles.optionRow} onPress={() => addOverride(item.id)}>
+                      <Text style={styles.optionText} numberOfLines={1}>{item.name}</Text>
+                      <Text style={styles.optionMeta}>{formatCurrency(item.wholesale_price || 0)}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {overrides.map((override) => (
+                <View key={override.item_id} style={styles.overrideRow}>
+                  <Text style={styles.overrideName} numberOfLines={2}>{getItemName(override.item_id)}</Text>
+                  <TextInput
+                    style={styles.overrideInput}
+                    value={String(override.unit_price)}
+                    onChangeText={(value) => updateOverridePrice(override.item_id, value)}
+                    keyboardType="decimal-pad"
+                  />
+                  <TouchableOpacity onPress={() => removeOverride(override.item_id)}>
+                    <Ionicons name="trash-outline" size={20} color={theme.colors.danger} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+                  <Text style={styles.primaryButtonText}>Save Price List</Text>
+                </>
+              )}
+            </TouchableOpacity>
+
+            {editingList && (
+              <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} disabled={saving}>
+                <Ionicons name="trash-outline" size={18} color={theme.colors.danger} />
+                <Text style={styles.deleteButtonText}>Delete Price List</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  listContent: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  listContentEmpty: {
+    flexGrow: 1,
+    padding: theme.spacing.md,
+  },
+  separator: {
+    height: theme.spacing.sm,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...theme.shadow.sm,
+  },
+
+  // List card
+  listCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    ...theme.shadow.sm,
+  },
+  listIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: theme.spacing.md,
+  },
+  listInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  listNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  listName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    flexShrink: 1,
+  },
+  inactiveBadge: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textMuted,
+    backgroundColor: theme.colors.background,
+    paddingHorizontal: theme.spacing.xs + 2,
+    paddingVertical: 1,
+    borderRadius: theme.borderRadius.sm,
+    overflow: 'hidden',
+  },
+  listTarget: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  listMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+
+  // Empty state
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  emptySubtitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+  },
+
+  // Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  modalTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  formScroll: {
+    flexGrow: 0,
+    marginBottom: theme.spacing.md,
+  },
+
+  // Form
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  segmented: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    borderColor: theme.colors.accent,
+    backgroundColor: theme.colors.accent + '15',
+  },
+  segmentText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: theme.colors.accent,
+  },
+  selectedText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.accent,
+    marginBottom: theme.spacing.xs,
+  },
+  optionList: {
+    marginTop: theme.spacing.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  optionRowSelected: {
+    backgroundColor: theme.colors.surfaceHover,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  optionMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.sm,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  dateField: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  switchLabel: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  overrideRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  overrideName: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  overrideInput: {
+    width: 90,
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs + 2,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+    textAlign: 'right',
+  },
+
+  // Buttons
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+  },
+  deleteButtonText: {
+    color: theme.colors.danger,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+});
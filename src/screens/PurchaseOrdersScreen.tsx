@@ -0,0 +1,1357 @@
+import { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  RefreshControl,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Print from 'expo-print';
+import * as DocumentPicker from 'expo-document-picker';
+import { theme } from '../theme';
+import { useAuth } from '../context/AuthContext';
+import { useOrders } from '../context/OrderContext';
+import { Invoice, Item, PurchaseOrder, PurchaseOrderLineInput, PurchaseOrderStatus } from '../types';
+import { DEFAULT_TIMEZONE, getEarliestDeliveryDate } from '../utils/deliverySchedule';
+import { formatMoney, formatStatementDate } from '../utils/statements';
+import { formatStockQuantity } from '../utils/stock';
+import {
+  getLineIssueLabel,
+  getMatchStatusLabel,
+  getMatchTolerance,
+  matchInvoiceToPurchaseOrder,
+} from '../utils/invoiceMatching';
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  buildPurchaseOrderHtml,
+  buildPurchaseSuggestions,
+  getOutstandingQuantity,
+  getPurchaseOrderTotals,
+  getPurchaseOrderWarning,
+  getSuggestionReasonLabel,
+  isOpenPurchaseOrder,
+  toPurchaseOrderLine,
+} from '../utils/purchaseOrders';
+
+type PurchaseOrderFilter = 'open' | 'all';
+
+const FILTERS: { value: PurchaseOrderFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'all', label: 'All' },
+];
+
+const STATUS_CONFIG: Record<PurchaseOrderStatus, { bg: string; text: string }> = {
+  draft: { bg: theme.colors.borderLight, text: theme.colors.textSecondary },
+  sent: { bg: '#E3F2FD', text: theme.colors.info },
+  partially_received: { bg: '#FEF3E2', text: theme.colors.warning },
+  received: { bg: '#E8F8EF', text: theme.colors.success },
+  cancelled: { bg: '#FDEDED', text: theme.colors.danger },
+};
+
+const MATCH_COLORS: Record<Invoice['match_status'], string> = {
+  matched: theme.colors.success,
+  matched_with_variance: theme.colors.warning,
+  unmatched: theme.colors.danger,
+};
+
+// A line being edited; numbers are kept as typed
+interface DraftLine {
+  line: PurchaseOrderLineInput;
+  quantity: string;
+  unitCost: string;
+}
+
+interface DraftForm {
+  id?: string; // Set when editing an existing draft
+  supplierId: string | null;
+  expectedDate: string;
+  notes: string;
+  lines: DraftLine[];
+}
+
+function toDraftLine(line: PurchaseOrderLineInput): DraftLine {
+  return { line, quantity: formatStockQuantity(line.quantity), unitCost: Number(line.unit_cost).toFixed(2) };
+}
+
+function formatSentAt(value: string): string {
+  return new Date(value).toLocaleString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function PurchaseOrdersScreen() {
+  const { tenant } = useAuth();
+  const {
+    state,
+    getPurchaseOrders,
+    savePurchaseOrder,
+    sendPurchaseOrder,
+    cancelPurchaseOrder,
+    receivePurchaseOrder,
+    uploadPurchaseOrderBill,
+    getSupplierName,
+  } = useOrders();
+  const timeZone = tenant?.settings?.timezone || DEFAULT_TIMEZONE;
+
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [filter, setFilter] = useState<PurchaseOrderFilter>('open');
+  const [saving, setSaving] = useState(false);
+
+  // Detail
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Suggestions
+  const [suggestVisible, setSuggestVisible] = useState(false);
+  const [suggestedQuantities, setSuggestedQuantities] = useState<Record<string, string>>({});
+
+  // Draft editor
+  const [form, setForm] = useState<DraftForm | null>(null);
+  const [itemSearch, setItemSearch] = useState('');
+
+  // Receiving
+  const [receiveVisible, setReceiveVisible] = useState(false);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, string>>({});
+  const [reference, setReference] = useState('');
+
+  const selected = purchaseOrders.find((po) => po.id === selectedId) || null;
+
+  // Cross-platform alert helpers
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  const showConfirm = useCallback((title: string, message: string, confirmText: string, onConfirm: () => void) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(`${title}\n\n${message}`)) {
+        onConfirm();
+      }
+    } else {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: confirmText, onPress: onConfirm },
+      ]);
+    }
+  }, []);
+
+  const loadPurchaseOrders = useCallback(async () => {
+    setPurchaseOrders(await getPurchaseOrders());
+    setLoading(false);
+  }, [getPurchaseOrders]);
+
+  useEffect(() => {
+    loadPurchaseOrders();
+    // Load once; pull to refresh after that
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await loadPurchaseOrders();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const filteredOrders = useMemo(
+    () => (filter === 'open' ? purchaseOrders.filter(isOpenPurchaseOrder) : purchaseOrders),
+    [purchaseOrders, filter]
+  );
+
+  const getSupplier = (supplierId: string | null | undefined) =>
+    state.suppliers.find((supplier) => supplier.id === supplierId) || null;
+
+  // Suggestions
+  const suggestions = useMemo(
+    () => buildPurchaseSuggestions(state.items, state.orders, purchaseOrders),
+    [state.items, state.orders, purchaseOrders]
+  );
+
+  const openSuggestions = () => {
+    const quantities: Record<string, string> = {};
+    suggestions.forEach((suggestion) =>
+      suggestion.lines.forEach((line) => {
+        quantities[line.item.id] = formatStockQuantity(line.quantity);
+      })
+    );
+    setSuggestedQuantities(quantities);
+    setSuggestVisible(true);
+  };
+
+  const handleDraftSuggestion = async (supplierId: string) => {
+    const suggestion = suggestions.find((s) => s.supplierId === supplierId);
+    if (!suggestion) return;
+
+    const lines = suggestion.lines
+      .map((line) => toPurchaseOrderLine(line.item, parseFloat(suggestedQuantities[line.item.id]) || 0, tenant?.settings))
+      .filter((line) => line.quantity > 0);
+    if (lines.length === 0) {
+      showMessage('Nothing to order', 'Enter a quantity for at least one item.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const supplier = getSupplier(supplierId);
+      const created = await savePurchaseOrder(supplierId, lines, {
+        expectedDate: supplier ? getEarliestDeliveryDate(supplier, timeZone) : null,
+      });
+      await loadPurchaseOrders();
+      setSuggestVisible(false);
+      setSelectedId(created.id);
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to create the purchase order.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Draft editor
+  const openNewDraft = () => {
+    const supplier = state.suppliers[0] || null;
+    setForm({
+      supplierId: supplier?.id || null,
+      expectedDate: (supplier && getEarliestDeliveryDate(supplier, timeZone)) || '',
+      notes: '',
+      lines: [],
+    });
+    setItemSearch('');
+  };
+
+  const openEditDraft = (purchaseOrder: PurchaseOrder) => {
+    setForm({
+      id: purchaseOrder.id,
+      supplierId: purchaseOrder.supplier_id,
+      expectedDate: purchaseOrder.expected_date || '',
+      notes: purchaseOrder.notes || '',
+      lines: (purchaseOrder.items || []).map((line) =>
+        toDraftLine({
+          item_id: line.item_id || null,
+          description: line.description,
+          code: line.code,
+          quantity: Number(line.quantity),
+          unit_cost: Number(line.unit_cost),
+          tax_rate: Number(line.tax_rate),
+        })
+      ),
+    });
+    setItemSearch('');
+    setSelectedId(null);
+  };
+
+  const closeForm = () => setForm(null);
+
+  const updateForm = (changes: Partial<DraftForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const selectFormSupplier = (supplierId: string) => {
+    const supplier = getSupplier(supplierId);
+    updateForm({
+      supplierId,
+      expectedDate: (supplier && getEarliestDeliveryDate(supplier, timeZone)) || form?.expectedDate || '',
+    });
+  };
+
+  const updateDraftLine = (index: number, changes: Partial<Pick<DraftLine, 'quantity' | 'unitCost'>>) => {
+    if (!form) return;
+    updateForm({ lines: form.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)) });
+  };
+
+  const removeDraftLine = (index: number) => {
+    if (!form) return;
+    updateForm({ lines: form.lines.filter((_, i) => i !== index) });
+  };
+
+  const addDraftItem = (item: Item) => {
+    if (!form) return;
+    const cartonSize = item.carton_size && item.carton_size > 1 ? item.carton_size : 1;
+    updateForm({ lines: [...form.lines, toDraftLine(toPurchaseOrderLine(item, cartonSize, tenant?.settings))] });
+    setItemSearch('');
+  };
+
+  // The supplier's own items first
+  const pickerItems = useMemo(() => {
+    const query = itemSearch.toLowerCase().trim();
+    if (!query || !form) return [];
+    return state.items
+      .filter(
+        (item) =>
+          (item.name.toLowerCase().includes(query) || !!item.sku?.toLowerCase().includes(query)) &&
+          !form.lines.some((line) => line.line.item_id === item.id)
+      )
+      .sort((a, b) => Number(b.supplier_id === form.supplierId) - Number(a.supplier_id === form.supplierId))
+      .slice(0, 20);
+  }, [state.items, itemSearch, form]);
+
+  const formLines = (form?.lines || []).map((draft) => ({
+    ...draft.line,
+    quantity: parseFloat(draft.quantity) || 0,
+    unit_cost: parseFloat(draft.unitCost) || 0,
+  }));
+  const formTotals = getPurchaseOrderTotals(formLines);
+  const formWarning = form ? getPurchaseOrderWarning(getSupplier(form.supplierId), formTotals.subtotal) : null;
+
+  const handleSaveDraft = async () => {
+    if (!form) return;
+    if (!form.supplierId) {
+      showMessage('Choose a supplier', 'Pick who this purchase order is for.');
+      return;
+    }
+    if (formLines.some((line) => line.quantity <= 0)) {
+      showMessage('Check the quantities', 'Enter how many units of each item to order, or remove the line.');
+      return;
+    }
+    if (form.expectedDate.trim() && !/^\d{4}-\d{2}-\d{2}$/.test(form.expectedDate.trim())) {
+      showMessage('Check the delivery date', 'Enter the date as YYYY-MM-DD, or leave it blank.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await savePurchaseOrder(form.supplierId, formLines, {
+        id: form.id,
+        expectedDate: form.expectedDate.trim() || null,
+        notes: form.notes,
+      });
+      await loadPurchaseOrders();
+      closeForm();
+      setSelectedId(saved.id);
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to save the purchase order.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Actions on a purchase order
+  const handlePrint = async (purchaseOrder: PurchaseOrder) => {
+    try {
+      await Print.printAsync({
+        html: buildPurchaseOrderHtml(purchaseOrder, getSupplier(purchaseOrder.supplier_id), tenant?.name || ''),
+      });
+    } catch (e) {
+      console.error('Print error:', e);
+    }
+  };
+
+  const send = async (purchaseOrder: PurchaseOrder) => {
+    setSaving(true);
+    try {
+      // The PDF can only be rendered on a device; web sends the CSV alone
+      let pdf: string | null = null;
+      if (Platform.OS !== 'web') {
+        try {
+          const { base64 } = await Print.printToFileAsync({
+            html: buildPurchaseOrderHtml(purchaseOrder, getSupplier(purchaseOrder.supplier_id), tenant?.name || ''),
+            base64: true,
+          });
+          pdf = base64 || null;
+        } catch (e) {
+          console.error('Purchase order PDF error:', e);
+        }
+      }
+
+      const sentTo = await sendPurchaseOrder(purchaseOrder.id, pdf);
+      await loadPurchaseOrders();
+      showMessage('Purchase order sent', `${purchaseOrder.po_number} was emailed to ${sentTo}.`);
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to send the purchase order.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSend = (purchaseOrder: PurchaseOrder) => {
+    const supplier = getSupplier(purchaseOrder.supplier_id);
+    const warning = getPurchaseOrderWarning(supplier, Number(purchaseOrder.subtotal));
+    if (!supplier?.orders_email?.trim()) {
+      showMessage('No orders email', warning || 'This supplier has no orders email.');
+      return;
+    }
+    const resend = purchaseOrder.status !== 'draft';
+    showConfirm(
+      resend ? 'Send again?' : 'Send purchase order?',
+      `${purchaseOrder.po_number} will be emailed to ${supplier.orders_email}.${warning ? `\n\n${warning}` : ''}`,
+      resend ? 'Send Again' : 'Send',
+      () => send(purchaseOrder)
+    );
+  };
+
+  const handleCancel = (purchaseOrder: PurchaseOrder) => {
+    showConfirm(
+      'Cancel purchase order?',
+      purchaseOrder.status === 'sent'
+        ? `${purchaseOrder.po_number} has been sent. Let ${getSupplierName(purchaseOrder.supplier_id)} know it is cancelled.`
+        : `${purchaseOrder.po_number} will be cancelled.`,
+      'Cancel Order',
+      async () => {
+        setSaving(true);
+        try {
+          await cancelPurchaseOrder(purchaseOrder.id);
+          await loadPurchaseOrders();
+        } catch (error: any) {
+          showMessage('Error', error?.message || 'Failed to cancel the purchase order.');
+        } finally {
+          setSaving(false);
+        }
+      }
+    );
+  };
+
+  const openReceive = (purchaseOrder: PurchaseOrder) => {
+    const quantities: Record<string, string> = {};
+    (purchaseOrder.items || []).forEach((line) => {
+      const outstanding = getOutstandingQuantity(line);
+      quantities[line.id] = outstanding > 0 ? formatStockQuantity(outstanding) : '';
+    });
+    setReceivedQuantities(quantities);
+    setReference('');
+    setReceiveVisible(true);
+  };
+
+  const handleReceive = async () => {
+    if (!selected) return;
+    const lines = (selected.items || []).map((line) => ({
+      purchase_order_item_id: line.id,
+      quantity: parseFloat(receivedQuantities[line.id]) || 0,
+    }));
+    if (lines.some((line) => line.quantity < 0)) {
+      showMessage('Check the quantities', 'Received quantities can\'t be negative.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const received = await receivePurchaseOrder(selected.id, lines, reference);
+      await loadPurchaseOrders();
+      setReceiveVisible(false);
+      showMessage(
+        'Delivery received',
+        received.status === 'received'
+          ? `Everything on ${received.po_number} has arrived and is in stock.`
+          : `Stock added. ${received.po_number} is still waiting on the rest.`
+      );
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to receive the delivery.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUploadBill = async (purchaseOrder: PurchaseOrder) => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/pdf', 'image/*'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return;
+
+    const file = result.assets[0];
+    setSaving(true);
+    try {
+      const uploaded = await uploadPurchaseOrderBill(purchaseOrder, {
+        uri: file.uri,
+        name: file.name,
+        mimeType: file.mimeType || (file.name.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'image/jpeg'),
+      });
+      if (!uploaded) return;
+      await loadPurchaseOrders();
+
+      const { invoice, match } = uploaded;
+      if (!match || match.status === 'matched') {
+        showMessage('Bill uploaded', `${invoice.invoice_number} matches ${purchaseOrder.po_number}.`);
+      } else {
+        const flagged = match.lines.filter((line) => !line.withinTolerance);
+        showMessage(
+          getMatchStatusLabel(match.status),
+          `${invoice.invoice_number} differs from ${purchaseOrder.po_number} on ${flagged.length} line${flagged.length === 1 ? '' : 's'} ` +
+            `(${match.variance > 0 ? '+' : '-'}${formatMoney(Math.abs(match.variance))}).`
+        );
+      }
+    } catch (error: any) {
+      showMessage('Upload failed', error?.message || 'Could not read the supplier bill.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Rendering
+  const renderStatus = (status: PurchaseOrderStatus) => (
+    <View style={[styles.badge, { backgroundColor: STATUS_CONFIG[status].bg }]}>
+      <Text style={[styles.badgeText, { color: STATUS_CONFIG[status].text }]}>{PURCHASE_ORDER_STATUS_LABELS[status]}</Text>
+    </View>
+  );
+
+  const renderPurchaseOrder = ({ item: purchaseOrder }: { item: PurchaseOrder }) => {
+    const bill = purchaseOrder.bills?.[0];
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => setSelectedId(purchaseOrder.id)}>
+        <View style={styles.rowInfo}>
+          <View style={styles.rowTitleLine}>
+            <Text style={styles.rowTitle}>{purchaseOrder.po_number}</Text>
+            {renderStatus(purchaseOrder.status)}
+          </View>
+          <Text style={styles.rowMeta} numberOfLines={1}>
+            {[
+              getSupplierName(purchaseOrder.supplier_id),
+              purchaseOrder.expected_date ? `Due ${formatStatementDate(purchaseOrder.expected_date)}` : null,
+              `${(purchaseOrder.items || []).length} line${(purchaseOrder.items || []).length === 1 ? '' : 's'}`,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+          {bill && (
+            <Text style={[styles.rowMeta, { color: MATCH_COLORS[bill.match_status] }]}>
+              Bill {bill.invoice_number}: {getMatchStatusLabel(bill.match_status)}
+            </Text>
+          )}
+        </View>
+        <Text style={styles.rowTotal}>{formatMoney(Number(purchaseOrder.total))}</Text>
+        <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderBill = (purchaseOrder: PurchaseOrder, bill: Invoice) => {
+    // Lines are compared live; the status and variance are what was last saved
+    const issues = matchInvoiceToPurchaseOrder(bill, purchaseOrder, getMatchTolerance(tenant?.settings)).lines.filter(
+      (line) => line.issues.length > 0
+    );
+    const variance = Number(bill.variance_amount || 0);
+
+    return (
+      <View key={bill.id} style={styles.billCard}>
+        <View style={styles.lineRow}>
+          <Text style={styles.lineName}>
+            {bill.invoice_number} · {formatMoney(Number(bill.total))}
+          </Text>
+          <Text style={[styles.billStatus, { color: MATCH_COLORS[bill.match_status] }]}>
+            {getMatchStatusLabel(bill.match_status)}
+            {variance !== 0 ? ` (${variance > 0 ? '+' : '-'}${formatMoney(Math.abs(variance))})` : ''}
+          </Text>
+        </View>
+        {issues.length === 0 ? (
+          <Text style={styles.hintText}>Every line agrees with what was ordered and received.</Text>
+        ) : (
+          issues.map((line) => (
+            <Text key={line.key} style={styles.hintText}>
+              {line.description}: {line.issues.map(getLineIssueLabel).join(', ')}
+              {line.invoicedQuantity != null ? ` · billed ${formatStockQuantity(line.invoicedQuantity)}` : ''}
+              {line.invoicedPrice != null && line.orderedPrice != null && line.issues.includes('price')
+                ? ` at ${formatMoney(line.invoicedPrice)} vs ${formatMoney(line.orderedPrice)}`
+                : ''}
+            </Text>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  const renderDetail = (purchaseOrder: PurchaseOrder) => {
+    const supplier = getSupplier(purchaseOrder.supplier_id);
+    const canReceive = ['sent', 'partially_received', 'received'].includes(purchaseOrder.status);
+    const canCancel = purchaseOrder.status === 'draft' || purchaseOrder.status === 'sent';
+    const canBill = purchaseOrder.status !== 'draft' && purchaseOrder.status !== 'cancelled';
+    const warning = purchaseOrder.status === 'draft' ? getPurchaseOrderWarning(supplier, Number(purchaseOrder.subtotal)) : null;
+
+    return (
+      <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+        <View style={styles.detailHeader}>
+          {renderStatus(purchaseOrder.status)}
+          <Text style={styles.detailMeta}>{supplier?.name || 'Unknown supplier'}</Text>
+        </View>
+        {purchaseOrder.expected_date && (
+          <Text style={styles.detailMeta}>Delivery wanted {formatStatementDate(purchaseOrder.expected_date)}</Text>
+        )}
+        {purchaseOrder.sent_at && (
+          <Text style={styles.detailMeta}>
+            Sent {formatSentAt(purchaseOrder.sent_at)}
+            {purchaseOrder.sent_to ? ` to ${purchaseOrder.sent_to}` : ''}
+          </Text>
+        )}
+        {purchaseOrder.notes ? <Text style={styles.detailMeta}>{purchaseOrder.notes}</Text> : null}
+        {warning && <Text style={styles.warningText}>{warning}</Text>}
+
+        <Text style={styles.sectionTitle}>Lines</Text>
+        {(purchaseOrder.items || []).map((line) => (
+          <View key={line.id} style={styles.lineRow}>
+            <View style={styles.lineInfo}>
+              <Text style={styles.lineName} numberOfLines={2}>{line.description}</Text>
+              <Text style={styles.hintText}>
+                {formatStockQuantity(Number(line.quantity))} × {formatMoney(Number(line.unit_cost))}
+                {purchaseOrder.status !== 'draft' && purchaseOrder.status !== 'sent'
+                  ? ` · ${formatStockQuantity(Number(line.received_quantity))} received`
+                  : ''}
+              </Text>
+            </View>
+            <Text style={styles.lineTotal}>{formatMoney(Number(line.total))}</Text>
+          </View>
+        ))}
+        <View style={styles.totalsRow}>
+          <Text style={styles.totalsLabel}>Subtotal</Text>
+          <Text style={styles.totalsValue}>{formatMoney(Number(purchaseOrder.subtotal))}</Text>
+        </View>
+        <View style={styles.totalsRow}>
+          <Text style={styles.totalsLabel}>GST</Text>
+          <Text style={styles.totalsValue}>{formatMoney(Number(purchaseOrder.tax))}</Text>
+        </View>
+        <View style={styles.totalsRow}>
+          <Text style={[styles.totalsLabel, styles.totalsBold]}>Total</Text>
+          <Text style={[styles.totalsValue, styles.totalsBold]}>{formatMoney(Number(purchaseOrder.total))}</Text>
+        </View>
+
+        {(purchaseOrder.bills || []).length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Supplier bills</Text>
+            {(purchaseOrder.bills || []).map((bill) => renderBill(purchaseOrder, bill))}
+          </>
+        )}
+
+        <View style={styles.actions}>
+          {purchaseOrder.status === 'draft' && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => openEditDraft(purchaseOrder)} disabled={saving}>
+              <Ionicons name="create-outline" size={16} color={theme.colors.accent} />
+              <Text style={styles.secondaryButtonText}>Edit</Text>
+            </TouchableOpacity>
+          )}
+          {purchaseOrder.status !== 'cancelled' && purchaseOrder.status !== 'received' && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => handleSend(purchaseOrder)} disabled={saving}>
+              <Ionicons name="mail-outline" size={16} color={theme.colors.accent} />
+              <Text style={styles.secondaryButtonText}>{purchaseOrder.status === 'draft' ? 'Send' : 'Send Again'}</Text>
+            </TouchableOpacity>
+          )}
+          {canReceive && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => openReceive(purchaseOrder)} disabled={saving}>
+              <Ionicons name="download-outline" size={16} color={theme.colors.accent} />
+              <Text style={styles.secondaryButtonText}>Receive</Text>
+            </TouchableOpacity>
+          )}
+          {canBill && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => handleUploadBill(purchaseOrder)} disabled={saving}>
+              <Ionicons name="document-attach-outline" size={16} color={theme.colors.accent} />
+              <Text style={styles.secondaryButtonText}>Upload Bill</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => handlePrint(purchaseOrder)} disabled={saving}>
+            <Ionicons name="print-outline" size={16} color={theme.colors.accent} />
+            <Text style={styles.secondaryButtonText}>Print</Text>
+          </TouchableOpacity>
+          {canCancel && (
+            <TouchableOpacity
+              style={[styles.secondaryButton, styles.dangerButton]}
+              onPress={() => handleCancel(purchaseOrder)}
+              disabled={saving}
+            >
+              <Ionicons name="close-circle-outline" size={16} color={theme.colors.danger} />
+              <Text style={[styles.secondaryButtonText, styles.dangerButtonText]}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {saving && <ActivityIndicator style={styles.savingIndicator} color={theme.colors.accent} />}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <View style={styles.filterRow}>
+          {FILTERS.map((option) => {
+            const active = filter === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.filterChip, active && styles.filterChipActive]}
+                onPress={() => setFilter(option.value)}
+              >
+                <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <TouchableOpacity style={styles.toolbarButton} onPress={openSuggestions}>
+          <Ionicons name="bulb-outline" size={18} color={theme.colors.white} />
+          <Text style={styles.toolbarButtonText}>
+            Suggest{suggestions.length > 0 ? ` (${suggestions.length})` : ''}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolbarButton} onPress={openNewDraft}>
+          <Ionicons name="add" size={18} color={theme.colors.white} />
+          <Text style={styles.toolbarButtonText}>New</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color={theme.colors.accent} />
+      ) : (
+        <FlatList
+          data={filteredOrders}
+          keyExtractor={(purchaseOrder) => purchaseOrder.id}
+          renderItem={renderPurchaseOrder}
+          contentContainerStyle={styles.listContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="document-text-outline" size={56} color={theme.colors.textLight} />
+              <Text style={styles.emptyTitle}>{filter === 'open' ? 'No open purchase orders' : 'No purchase orders'}</Text>
+              <Text style={styles.emptySubtitle}>
+                Suggest builds them from reorder points and approved customer orders.
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {/* Purchase order */}
+      <Modal
+        visible={!!selected && !receiveVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setSelectedId(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{selected?.po_number}</Text>
+              <TouchableOpacity onPress={() => setSelectedId(null)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+            {selected && renderDetail(selected)}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Suggestions */}
+      <Modal visible={suggestVisible} animationType="slide" transparent onRequestClose={() => setSuggestVisible(false)}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Suggested Orders</Text>
+              <TouchableOpacity onPress={() => setSuggestVisible(false)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+              {suggestions.length === 0 ? (
+                <Text style={styles.hintText}>
+                  Nothing to order. Items are suggested when they reach their reorder point, or when approved
+                  customer orders need more than is in stock and on order.
+                </Text>
+              ) : (
+                suggestions.map((suggestion) => {
+                  const supplier = getSupplier(suggestion.supplierId);
+                  const subtotal = suggestion.lines.reduce(
+                    (sum, line) =>
+                      sum + (parseFloat(suggestedQuantities[line.item.id]) || 0) * Number(line.item.purchase_price || 0),
+                    0
+                  );
+                  const warning = getPurchaseOrderWarning(supplier, subtotal);
+                  return (
+                    <View key={suggestion.supplierId} style={styles.suggestionCard}>
+                      <Text style={styles.cardTitle}>{supplier?.name || getSupplierName(suggestion.supplierId)}</Text>
+                      {suggestion.lines.map((line) => (
+                        <View key={line.item.id} style={styles.lineRow}>
+                          <View style={styles.lineInfo}>
+                            <Text style={styles.lineName} numberOfLines={2}>{line.item.name}</Text>
+                            <Text style={styles.hintText}>
+                              {getSuggestionReasonLabel(line)}
+                              {line.onOrder > 0 ? ` · ${formatStockQuantity(line.onOrder)} on order` : ''}
+                              {!line.item.purchase_price ? ' · no purchase price' : ''}
+                            </Text>
+                          </View>
+                          <TextInput
+                            style={[styles.input, styles.quantityInput]}
+                            value={suggestedQuantities[line.item.id] ?? ''}
+                            onChangeText={(value) =>
+                              setSuggestedQuantities((prev) => ({ ...prev, [line.item.id]: value }))
+                            }
+                            keyboardType="decimal-pad"
+                          />
+                        </View>
+                      ))}
+                      <View style={styles.totalsRow}>
+                        <Text style={styles.totalsLabel}>Subtotal</Text>
+                        <Text style={styles.totalsValue}>{formatMoney(subtotal)}</Text>
+                      </View>
+                      {warning && <Text style={styles.warningText}>{warning}</Text>}
+                      <TouchableOpacity
+                        style={[styles.primaryButton, styles.cardButton, saving && styles.buttonDisabled]}
+                        onPress={() => handleDraftSuggestion(suggestion.supplierId)}
+                        disabled={saving}
+                      >
+                        <Ionicons name="document-text-outline" size={18} color={theme.colors.white} />
+                        <Text style={styles.primaryButtonText}>Create Draft</Text>
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })
+              )}
+              <Text style={styles.hintText}>
+                Quantities are units, rounded up to whole cartons. Drafts and sent orders count as on order.
+              </Text>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Draft editor */}
+      <Modal visible={!!form} animationType="slide" transparent onRequestClose={closeForm}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{form?.id ? 'Edit Purchase Order' : 'New Purchase Order'}</Text>
+              <TouchableOpacity onPress={closeForm} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            {form && (
+              <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+                <Text style={styles.inputLabel}>Supplier</Text>
+                <View style={styles.chipRow}>
+                  {state.suppliers.map((supplier) => {
+                    const active = form.supplierId === supplier.id;
+                    return (
+                      <TouchableOpacity
+                        key={supplier.id}
+                        style={[styles.filterChip, active && styles.filterChipActive]}
+                        onPress={() => selectFormSupplier(supplier.id)}
+                      >
+                        <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>{supplier.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={styles.inputLabel}>Delivery wanted</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={form.expectedDate}
+                  onChangeText={(value) => updateForm({ expectedDate: value })}
+                  autoCapitalize="none"
+                />
+                <Text style={styles.hintText}>Defaults to the supplier's next delivery day whose cutoff hasn't passed.</Text>
+
+                <Text style={styles.inputLabel}>Items ({form.lines.length})</Text>
+                {form.lines.map((draft, index) => (
+                  <View key={`${draft.line.item_id || draft.line.description}-${index}`} style={styles.lineRow}>
+                    <Text style={styles.lineInfo} numberOfLines={2}>{draft.line.description}</Text>
+                    <TextInput
+                      style={[styles.input, styles.quantityInput]}
+                      placeholder="Units"
+                      placeholderTextColor={theme.colors.textMuted}
+                      value={draft.quantity}
+                      onChangeText={(value) => updateDraftLine(index, { quantity: value })}
+                      keyboardType="decimal-pad"
+                    />
+                    <TextInput
+                      style={[styles.input, styles.quantityInput]}
+                      placeholder="Cost"
+                      placeholderTextColor={theme.colors.textMuted}
+                      value={draft.unitCost}
+                      onChangeText={(value) => updateDraftLine(index, { unitCost: value })}
+                      keyboardType="decimal-pad"
+                    />
+                    <TouchableOpacity onPress={() => removeDraftLine(index)} style={styles.iconButton}>
+                      <Ionicons name="close-circle-outline" size={20} color={theme.colors.danger} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+
+                <TextInput
+                  style={[styles.input, styles.pickerSearch]}
+                  placeholder="Add an item..."
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={itemSearch}
+                  onChangeText={setItemSearch}
+                />
+                {pickerItems.map((item) => (
+                  <TouchableOpacity key={item.id} style={styles.optionRow} onPress={() => addDraftItem(item)}>
+                    <Text style={styles.optionText} numberOfLines={1}>
+                      {item.name}
+                      {item.size ? ` · ${item.size}` : ''}
+                      {item.supplier_id !== form.supplierId ? ` · ${getSupplierName(item.supplier_id)}` : ''}
+                    </Text>
+                    <Ionicons name="add-circle-outline" size={20} color={theme.colors.accent} />
+                  </TouchableOpacity>
+                ))}
+                <Text style={styles.hintText}>Quantities are units; costs are per unit ex GST, from the purchase price.</Text>
+
+                <Text style={styles.inputLabel}>Notes for the supplier</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder="Optional"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={form.notes}
+                  onChangeText={(value) => updateForm({ notes: value })}
+                  multiline
+                />
+
+                <View style={styles.totalsRow}>
+                  <Text style={styles.totalsLabel}>Subtotal</Text>
+                  <Text style={styles.totalsValue}>{formatMoney(formTotals.subtotal)}</Text>
+                </View>
+                <View style={styles.totalsRow}>
+                  <Text style={styles.totalsLabel}>GST</Text>
+                  <Text style={styles.totalsValue}>{formatMoney(formTotals.tax)}</Text>
+                </View>
+                <View style={styles.totalsRow}>
+                  <Text style={[styles.totalsLabel, styles.totalsBold]}>Total</Text>
+                  <Text style={[styles.totalsValue, styles.totalsBold]}>{formatMoney(formTotals.total)}</Text>
+                </View>
+                {formWarning && <Text style={styles.warningText}>{formWarning}</Text>}
+              </ScrollView>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (saving || !form?.lines.length) && styles.buttonDisabled]}
+              onPress={handleSaveDraft}
+              disabled={saving || !form?.lines.length}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+                  <Text style={styles.primaryButtonText}>Save Draft</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Receive against the purchase order */}
+      <Modal visible={receiveVisible} animationType="slide" transparent onRequestClose={() => setReceiveVisible(false)}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Receive {selected?.po_number}</Text>
+              <TouchableOpacity onPress={() => setReceiveVisible(false)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.inputLabel}>Docket or invoice number</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={selected?.po_number}
+                placeholderTextColor={theme.colors.textMuted}
+                value={reference}
+                onChangeText={setReference}
+              />
+
+              <Text style={styles.inputLabel}>Arrived</Text>
+              {(selected?.items || []).map((line) => (
+                <View key={line.id} style={styles.lineRow}>
+                  <View style={styles.lineInfo}>
+                    <Text style={styles.lineName} numberOfLines={2}>{line.description}</Text>
+                    <Text style={styles.hintText}>
+                      {formatStockQuantity(Number(line.received_quantity))} of {formatStockQuantity(Number(line.quantity))} received
+                      {!line.item_id ? ' · item deleted, stock not booked in' : ''}
+                    </Text>
+                  </View>
+                  <TextInput
+                    style={[styles.input, styles.quantityInput]}
+                    placeholder="0"
+                    placeholderTextColor={theme.colors.textMuted}
+                    value={receivedQuantities[line.id] ?? ''}
+                    onChangeText={(value) => setReceivedQuantities((prev) => ({ ...prev, [line.id]: value }))}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              ))}
+              <Text style={styles.hintText}>Units that arrived now, filled in with what is still to come.</Text>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleReceive}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+                  <Text style={styles.primaryButtonText}>Receive</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  loading: {
+    marginVertical: theme.spacing.xl,
+  },
+
+  // Toolbar
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.sm,
+  },
+  filterRow: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  filterChip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  filterChipActive: {
+    backgroundColor: theme.colors.accent,
+    borderColor: theme.colors.accent,
+  },
+  filterChipText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  filterChipTextActive: {
+    color: theme.colors.white,
+  },
+  toolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 2,
+    borderRadius: theme.borderRadius.md,
+  },
+  toolbarButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+  },
+
+  // List
+  listContent: {
+    paddingHorizontal: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.spacing.sm,
+    ...theme.shadow.sm,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitleLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  rowTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  rowMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  rowTotal: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  badge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+  },
+  badgeText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+  },
+
+  // Empty state
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.xl,
+    paddingTop: theme.spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  emptySubtitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+  },
+
+  // Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  formScroll: {
+    flexGrow: 0,
+    marginBottom: theme.spacing.md,
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  detailMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  warningText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.warning,
+    marginTop: theme.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+  },
+  lineInfo: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  lineName: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+  },
+  lineTotal: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: theme.spacing.xs,
+  },
+  totalsLabel: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  totalsValue: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  totalsBold: {
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  billCard: {
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  billStatus: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  suggestionCard: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  cardTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  cardButton: {
+    marginTop: theme.spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.lg,
+  },
+  savingIndicator: {
+    marginTop: theme.spacing.md,
+  },
+
+  // Form
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  quantityInput: {
+    width: 80,
+    paddingVertical: theme.spacing.sm,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.xs,
+  },
+  pickerSearch: {
+    marginTop: theme.spacing.sm,
+  },
+  iconButton: {
+    padding: theme.spacing.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+    marginRight: theme.spacing.sm,
+  },
+
+  // Buttons
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accent,
+  },
+  secondaryButtonText: {
+    color: theme.colors.accent,
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  dangerButton: {
+    borderColor: theme.colors.danger,
+  },
+  dangerButtonText: {
+    color: theme.colors.danger,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
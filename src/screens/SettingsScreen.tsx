@@ -13,6 +13,7 @@ import {
   Platform,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
 import { theme } from '../theme';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../lib/supabase';
@@ -22,6 +23,7 @@ import BusinessSwitcher from '../components/BusinessSwitcher';
 
 export default function SettingsScreen() {
   const { user, tenant, signOut, isOwner, isMaster } = useAuth();
+  const navigation = useNavigation<any>();
   const [signingOut, setSigningOut] = useState(false);
 
   // Xero connection state
@@ -345,6 +347,74 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      {/* Pricing - Owner only */}
+      {isOwner() && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Pricing & Delivery</Text>
+          <View style={styles.menuCard}>
+            <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('PriceLists')}>
+              <View style={styles.menuItemLeft}>
+                <Ionicons name="pricetags-outline" size={20} color={theme.colors.textSecondary} />
+                <View>
+                  <Text style={styles.menuItemLabel}>Price Lists</Text>
+                  <Text style={styles.menuItemValue}>Customer contract prices and discounts</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('DeliverySchedule')}>
+              <View style={styles.menuItemLeft}>
+                <Ionicons name="calendar-outline" size={20} color={theme.colors.textSecondary} />
+                <View>
+                  <Text style={styles.menuItemLabel}>Delivery Schedule</Text>
+                  <Text style={styles.menuItemValue}>Delivery days, cutoff and public holidays</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('InvoiceMatching')}>
+              <View style={styles.menuItemLeft}>
+                <Ionicons name="git-compare-outline" size={20} color={theme.colors.textSecondary} />
+                <View>
+                  <Text style={styles.menuItemLabel}>Invoice Matching</Text>
+                  <Text style={styles.menuItemValue}>Tolerance for invoice vs order and delivery</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('TaxCodes')}>
+              <View style={styles.menuItemLeft}>
+                <Ionicons name="receipt-outline" size={20} color={theme.colors.textSecondary} />
+                <View>
+                  <Text style={styles.menuItemLabel}>Tax Codes</Text>
+                  <Text style={styles.menuItemValue}>GST rates and their Xero tax types</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('CreditControl')}>
+              <View style={styles.menuItemLeft}>
+                <Ionicons name="shield-half-outline" size={20} color={theme.colors.textSecondary} />
+                <View>
+                  <Text style={styles.menuItemLabel}>Credit Control</Text>
+                  <Text style={styles.menuItemValue}>Payment terms, credit limits and holds</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.menuItem} onPress={() => navigation.navigate('Numbering')}>
+              <View style={styles.menuItemLeft}>
+                <Ionicons name="list-outline" size={20} color={theme.colors.textSecondary} />
+                <View>
+                  <Text style={styles.menuItemLabel}>Numbering</Text>
+                  <Text style={styles.menuItemValue}>Order, invoice and credit note numbers</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
 
       {/* Xero Integration - Owner only */}
       {isOwner() && (
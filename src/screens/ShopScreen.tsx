@@ -16,6 +16,7 @@ import { useNavigation } from '@react-navigation/native';
 import { theme } from '../theme';
 import { useOrders } from '../context/OrderContext';
 import { Item, Supplier, CATEGORIES } from '../types';
+import { getStockAvailability } from '../utils/stock';
 
 export default function ShopScreen() {
   const {
@@ -26,6 +27,7 @@ export default function ShopScreen() {
     getCartQuantity,
     getSupplierName,
     getCartTotal,
+    getItemPrice,
     loadAllData,
   } = useOrders();
 
@@ -58,7 +60,8 @@ export default function ShopScreen() {
         !searchQuery ||
         item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         (item.barcode && item.barcode.toLowerCase().includes(searchQuery.toLowerCase()));
-      return matchesSupplier && matchesSearch && matchesCategory && item.status === 'active';
+      // Sold out items stay listed so customers can see they're coming back
+      return matchesSupplier && matchesSearch && matchesCategory && item.status !== 'inactive';
     });
 
     // Sort items
@@ -69,7 +72,7 @@ export default function ShopScreen() {
           comparison = a.name.localeCompare(b.name);
           break;
         case 'price':
-          comparison = (a.wholesale_price || 0) - (b.wholesale_price || 0);
+          comparison = getItemPrice(a).unit_price - getItemPrice(b).unit_price;
           break;
         case 'category':
           comparison = (a.category || '').localeCompare(b.category || '');
@@ -77,7 +80,7 @@ export default function ShopScreen() {
       }
       return sortAsc ? comparison : -comparison;
     });
-  }, [state.items, selectedSupplierId, selectedCategory, searchQuery, sortBy, sortAsc]);
+  }, [state.items, selectedSupplierId, selectedCategory, searchQuery, sortBy, sortAsc, getItemPrice]);
 
   // Item stats for filters
   const itemStats = useMemo(() => {
@@ -85,14 +88,14 @@ export default function ShopScreen() {
     const bySupplier: Record<string, number> = {};
 
     state.items.forEach((item) => {
-      if (item.status === 'active') {
+      if (item.status !== 'inactive') {
         const category = item.category || 'Uncategorized';
         byCategory[category] = (byCategory[category] || 0) + 1;
         bySupplier[item.supplier_id] = (bySupplier[item.supplier_id] || 0) + 1;
       }
     });
 
-    return { byCategory, bySupplier, total: state.items.filter(i => i.status === 'active').length };
+    return { byCategory, bySupplier, total: state.items.filter(i => i.status !== 'inactive').length };
   }, [state.items]);
 
   // Cart totals
@@ -168,6 +171,11 @@ export default function ShopScreen() {
   const renderItem = ({ item }: { item: Item }) => {
     const quantity = getCartQuantity(item.id);
     const inCart = quantity > 0;
+    const price = getItemPrice(item);
+    const hasCustomerPrice = price.price_source !== 'wholesale';
+    const availability = getStockAvailability(item);
+    const soldOut = availability?.tone === 'out';
+    const atLimit = availability?.limit !== null && availability?.limit !== undefined && quantity >= availability.limit;
 
     return (
       <View style={styles.itemCard}>
@@ -203,9 +211,25 @@ export default function ShopScreen() {
 
         {/* Price */}
         <View style={styles.itemPriceRow}>
-          <Text style={styles.itemPrice}>${item.wholesale_price.toFixed(2)}</Text>
+          <Text style={styles.itemPrice}>${price.unit_price.toFixed(2)}</Text>
           {item.size && <Text style={styles.itemUnit}> / {item.size}</Text>}
         </View>
+        {hasCustomerPrice && price.unit_price < item.wholesale_price && (
+          <Text style={styles.itemWasPrice}>${item.wholesale_price.toFixed(2)}</Text>
+        )}
+
+        {/* Availability */}
+        {availability && (
+          <Text
+            style={[
+              styles.itemStock,
+              availability.tone === 'low' && styles.itemStockLow,
+              availability.tone === 'out' && styles.itemStockOut,
+            ]}
+          >
+            {availability.label}
+          </Text>
+        )}
 
         {/* Add / Quantity control */}
         {inCart ? (
@@ -220,10 +244,15 @@ export default function ShopScreen() {
             <TouchableOpacity
               style={styles.quantityButton}
               onPress={() => handleUpdateQuantity(item.id, 1)}
+              disabled={atLimit}
             >
-              <Ionicons name="add" size={16} color={theme.colors.accent} />
+              <Ionicons name="add" size={16} color={atLimit ? theme.colors.textLight : theme.colors.accent} />
             </TouchableOpacity>
           </View>
+        ) : soldOut ? (
+          <View style={[styles.addButton, styles.addButtonDisabled]}>
+            <Text style={styles.addButtonText}>Sold out</Text>
+          </View>
         ) : (
           <TouchableOpacity style={styles.addButton} onPress={() => handleAddToCart(item)}>
             <Ionicons name="add" size={18} color={theme.colors.white} />
@@ -633,6 +662,23 @@ const styles = StyleSheet.create({
     fontSize: theme.fontSize.xs,
     color: theme.colors.textMuted,
   },
+  itemWasPrice: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  itemStock: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.success,
+    marginBottom: theme.spacing.xs,
+  },
+  itemStockLow: {
+    color: theme.colors.warning,
+  },
+  itemStockOut: {
+    color: theme.colors.danger,
+  },
 
   // Add button
   addButton: {
@@ -644,6 +690,9 @@ const styles = StyleSheet.create({
     borderRadius: theme.borderRadius.md,
     gap: theme.spacing.xs,
   },
+  addButtonDisabled: {
+    backgroundColor: theme.colors.textLight,
+  },
   addButtonText: {
     fontSize: theme.fontSize.sm,
     fontWeight: theme.fontWeight.semibold,
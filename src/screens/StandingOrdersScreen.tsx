@@ -0,0 +1,1029 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { useAuth } from '../context/AuthContext';
+import { useOrders } from '../context/OrderContext';
+import { StandingOrder, StandingOrderItem, Supplier, formatCutoffTime } from '../types';
+import {
+  DEFAULT_TIMEZONE,
+  DeliveryDay,
+  getDeliveryDayLabel,
+  getFirstOpenDeliveryDate,
+  getSupplierDeliveryDays,
+  normaliseDeliveryDay,
+} from '../utils/deliverySchedule';
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+const INTERVAL_OPTIONS = [1, 2, 3, 4];
+
+const formatInterval = (weeks: number) => (weeks === 1 ? 'Every week' : `Every ${weeks} weeks`);
+
+export default function StandingOrdersScreen() {
+  const { user, tenant } = useAuth();
+  const {
+    state,
+    saveStandingOrder,
+    deleteStandingOrder,
+    placeStandingOrder,
+    loadStandingOrders,
+    getSupplierName,
+    getLinePrice,
+  } = useOrders();
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<StandingOrder | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [placingId, setPlacingId] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [supplierId, setSupplierId] = useState<string | null>(null);
+  const [deliveryDay, setDeliveryDay] = useState<DeliveryDay | null>(null);
+  const [intervalWeeks, setIntervalWeeks] = useState(1);
+  const [autoSubmit, setAutoSubmit] = useState(false);
+  const [isActive, setIsActive] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<StandingOrderItem[]>([]);
+  const [itemSearch, setItemSearch] = useState('');
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadStandingOrders();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadStandingOrders]);
+
+  const selectedSupplier = useMemo(
+    () => state.suppliers.find((s) => s.id === supplierId) || null,
+    [state.suppliers, supplierId]
+  );
+
+  const supplierDays = useMemo(
+    () => getSupplierDeliveryDays(selectedSupplier?.delivery_days),
+    [selectedSupplier]
+  );
+
+  const filteredItems = useMemo(() => {
+    const query = itemSearch.toLowerCase().trim();
+    if (!query || !supplierId) return [];
+    return state.items
+      .filter(
+        (item) =>
+          item.supplier_id === supplierId &&
+          item.status === 'active' &&
+          !lines.some((l) => l.item_id === item.id) &&
+          (item.name.toLowerCase().includes(query) ||
+            item.sku?.toLowerCase().includes(query) ||
+            item.barcode?.toLowerCase().includes(query))
+      )
+      .slice(0, 5);
+  }, [state.items, itemSearch, supplierId, lines]);
+
+  const getItem = useCallback(
+    (itemId: string) => state.items.find((i) => i.id === itemId),
+    [state.items]
+  );
+
+  const getTimeZone = useCallback(
+    (tenantId: string) =>
+      state.connectedTenants.find((t) => t.id === tenantId)?.settings?.timezone ||
+      tenant?.settings?.timezone ||
+      DEFAULT_TIMEZONE,
+    [state.connectedTenants, tenant]
+  );
+
+  const getEstimatedTotal = useCallback(
+    (items: StandingOrderItem[]) =>
+      items.reduce((sum, line) => {
+        const item = getItem(line.item_id);
+        return sum + (item ? getLinePrice(item, line.quantity).total : 0);
+      }, 0),
+    [getItem, getLinePrice]
+  );
+
+  // Cross-platform alert helpers
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  const showConfirm = useCallback(
+    (title: string, message: string, confirmText: string, onConfirm: () => void) => {
+      if (Platform.OS === 'web') {
+        if (window.confirm(`${title}\n\n${message}`)) {
+          onConfirm();
+        }
+      } else {
+        Alert.alert(title, message, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: confirmText, style: confirmText === 'Delete' ? 'destructive' : 'default', onPress: onConfirm },
+        ]);
+      }
+    },
+    []
+  );
+
+  // --- Modal ---
+
+  const openModal = (standingOrder: StandingOrder | null) => {
+    setEditingOrder(standingOrder);
+    setName(standingOrder?.name || '');
+    setSupplierId(standingOrder?.supplier_id || (state.suppliers.length === 1 ? state.suppliers[0].id : null));
+    setDeliveryDay(standingOrder ? normaliseDeliveryDay(standingOrder.delivery_day) : null);
+    setIntervalWeeks(standingOrder?.interval_weeks || 1);
+    setAutoSubmit(standingOrder?.auto_submit || false);
+    setIsActive(standingOrder ? standingOrder.is_active : true);
+    setNotes(standingOrder?.notes || '');
+    setLines((standingOrder?.items || []).map((i) => ({ item_id: i.item_id, quantity: i.quantity })));
+    setItemSearch('');
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingOrder(null);
+  };
+
+  const selectSupplier = (supplier: Supplier) => {
+    if (supplier.id === supplierId) return;
+    setSupplierId(supplier.id);
+    setDeliveryDay(null);
+    setLines([]);
+  };
+
+  const addLine = (itemId: string) => {
+    setLines((prev) => [...prev, { item_id: itemId, quantity: 1 }]);
+    setItemSearch('');
+  };
+
+  const updateLineQuantity = (itemId: string, quantity: number) => {
+    if (quantity <= 0) {
+      setLines((prev) => prev.filter((l) => l.item_id !== itemId));
+      return;
+    }
+    setLines((prev) => prev.map((l) => (l.item_id === itemId ? { ...l, quantity } : l)));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!name.trim()) {
+      showMessage('Validation', 'Please enter a name for the standing order.');
+      return;
+    }
+    if (!selectedSupplier) {
+      showMessage('Validation', 'Please select a supplier.');
+      return;
+    }
+    if (!deliveryDay) {
+      showMessage('Validation', 'Please select a delivery day.');
+      return;
+    }
+    if (lines.length === 0) {
+      showMessage('Validation', 'Add at least one item.');
+      return;
+    }
+
+    // A new schedule starts from the first delivery that can still be ordered
+    const scheduleChanged =
+      !editingOrder ||
+      editingOrder.supplier_id !== selectedSupplier.id ||
+      normaliseDeliveryDay(editingOrder.delivery_day) !== deliveryDay ||
+      editingOrder.interval_weeks !== intervalWeeks ||
+      (!editingOrder.is_active && isActive);
+    const nextDeliveryDate = scheduleChanged
+      ? getFirstOpenDeliveryDate(deliveryDay, selectedSupplier.cutoff_time, getTimeZone(selectedSupplier.tenant_id))
+      : editingOrder.next_delivery_date;
+
+    setSaving(true);
+    try {
+      const saved = await saveStandingOrder(
+        {
+          id: editingOrder?.id,
+          tenant_id: selectedSupplier.tenant_id,
+          customer_id: editingOrder?.customer_id || user.id,
+          supplier_id: selectedSupplier.id,
+          name: name.trim(),
+          delivery_day: deliveryDay,
+          interval_weeks: intervalWeeks,
+          auto_submit: autoSubmit,
+          is_active: isActive,
+          next_delivery_date: nextDeliveryDate,
+          notes: notes.trim() || null,
+        },
+        lines
+      );
+
+      if (saved) {
+        closeModal();
+      } else {
+        showMessage('Error', 'Failed to save standing order. Please try again.');
+      }
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to save standing order.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editingOrder) return;
+    showConfirm(
+      'Delete Standing Order',
+      `Delete "${editingOrder.name}"? Orders already placed are not affected.`,
+      'Delete',
+      async () => {
+        const deleted = await deleteStandingOrder(editingOrder.id);
+        if (deleted) {
+          closeModal();
+        } else {
+          showMessage('Error', 'Failed to delete standing order.');
+        }
+      }
+    );
+  };
+
+  const handleToggleActive = async (standingOrder: StandingOrder) => {
+    const resuming = !standingOrder.is_active;
+    const supplier = state.suppliers.find((s) => s.id === standingOrder.supplier_id);
+    const day = normaliseDeliveryDay(standingOrder.delivery_day);
+    try {
+      const saved = await saveStandingOrder(
+        {
+          id: standingOrder.id,
+          tenant_id: standingOrder.tenant_id,
+          customer_id: standingOrder.customer_id,
+          supplier_id: standingOrder.supplier_id,
+          name: standingOrder.name,
+          delivery_day: standingOrder.delivery_day,
+          interval_weeks: standingOrder.interval_weeks,
+          auto_submit: standingOrder.auto_submit,
+          notes: standingOrder.notes,
+          is_active: resuming,
+          // Resume from the next delivery that can still be ordered
+          next_delivery_date:
+            resuming && day
+              ? getFirstOpenDeliveryDate(day, supplier?.cutoff_time, getTimeZone(standingOrder.tenant_id))
+              : standingOrder.next_delivery_date,
+        },
+        standingOrder.items || []
+      );
+      if (!saved) {
+        showMessage('Error', `Failed to ${resuming ? 'resume' : 'pause'} standing order.`);
+      }
+    } catch (error: any) {
+      showMessage('Error', error?.message || `Failed to ${resuming ? 'resume' : 'pause'} standing order.`);
+    }
+  };
+
+  const handlePlaceNow = (standingOrder: StandingOrder) => {
+    showConfirm(
+      'Place Order',
+      `Place "${standingOrder.name}" now for delivery on ${standingOrder.next_delivery_date}?`,
+      'Place Order',
+      async () => {
+        setPlacingId(standingOrder.id);
+        try {
+          const order = await placeStandingOrder(standingOrder.id);
+          if (order) {
+            showMessage('Order Placed', `Your order for ${standingOrder.next_delivery_date} has been sent for approval.`);
+          } else {
+            showMessage('Error', 'Failed to place order. Please try again.');
+          }
+        } catch (error: any) {
+          showMessage('Cannot Place Order', error?.message || 'Failed to place order.');
+        } finally {
+          setPlacingId(null);
+        }
+      }
+    );
+  };
+
+  // --- Render ---
+
+  const renderStandingOrder = ({ item: standingOrder }: { item: StandingOrder }) => {
+    const items = standingOrder.items || [];
+    const supplier = state.suppliers.find((s) => s.id === standingOrder.supplier_id);
+    const isPlacing = placingId === standingOrder.id;
+    const alreadyPlaced = standingOrder.last_generated_for === standingOrder.next_delivery_date;
+
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => openModal(standingOrder)} activeOpacity={0.7}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardIcon}>
+            <Ionicons
+              name="repeat"
+              size={20}
+              color={standingOrder.is_active ? theme.colors.accent : theme.colors.textMuted}
+            />
+          </View>
+          <View style={styles.cardInfo}>
+            <View style={styles.nameRow}>
+              <Text style={styles.cardName} numberOfLines={1}>{standingOrder.name}</Text>
+              {!standingOrder.is_active && <Text style={styles.pausedBadge}>Paused</Text>}
+              {standingOrder.is_active && standingOrder.auto_submit && (
+                <Text style={styles.autoBadge}>Auto</Text>
+              )}
+            </View>
+            <Text style={styles.cardSupplier} numberOfLines={1}>{getSupplierName(standingOrder.supplier_id)}</Text>
+            <Text style={styles.cardMeta}>
+              {formatInterval(standingOrder.interval_weeks)} on {getDeliveryDayLabel(standingOrder.delivery_day)} ·{' '}
+              {items.length} item{items.length === 1 ? '' : 's'} · ~{formatCurrency(getEstimatedTotal(items))}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+        </View>
+
+        {standingOrder.is_active && (
+          <View style={styles.cardFooter}>
+            <View style={styles.nextDelivery}>
+              <Ionicons name="calendar-outline" size={14} color={theme.colors.textSecondary} />
+              <Text style={styles.nextDeliveryText}>
+                Next delivery {standingOrder.next_delivery_date}
+                {supplier?.cutoff_time ? ` · order by ${formatCutoffTime(supplier.cutoff_time)} the day before` : ''}
+              </Text>
+            </View>
+            <View style={styles.cardActions}>
+              <TouchableOpacity style={styles.secondaryAction} onPress={() => handleToggleActive(standingOrder)}>
+                <Text style={styles.secondaryActionText}>Pause</Text>
+              </TouchableOpacity>
+              {!standingOrder.auto_submit && !alreadyPlaced && (
+                <TouchableOpacity
+                  style={[styles.primaryAction, isPlacing && styles.buttonDisabled]}
+                  onPress={() => handlePlaceNow(standingOrder)}
+                  disabled={isPlacing}
+                >
+                  {isPlacing ? (
+                    <ActivityIndicator size="small" color={theme.colors.white} />
+                  ) : (
+                    <Text style={styles.primaryActionText}>Place Now</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
+        {!standingOrder.is_active && (
+          <View style={styles.cardFooter}>
+            <View style={styles.cardActions}>
+              <TouchableOpacity style={styles.secondaryAction} onPress={() => handleToggleActive(standingOrder)}>
+                <Text style={styles.secondaryActionText}>Resume</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={state.standingOrders}
+        keyExtractor={(item) => item.id}
+        renderItem={renderStandingOrder}
+        contentContainerStyle={state.standingOrders.length === 0 ? styles.listContentEmpty : styles.listContent}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.colors.accent} />
+        }
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.headerTitle}>Standing Orders</Text>
+              <Text style={styles.headerSubtitle}>Orders you place every week or every few weeks</Text>
+            </View>
+            <TouchableOpacity style={styles.addButton} onPress={() => openModal(null)}>
+              <Ionicons name="add" size={22} color={theme.colors.white} />
+            </TouchableOpacity>
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="repeat-outline" size={56} color={theme.colors.textLight} />
+            <Text style={styles.emptyTitle}>No standing orders</Text>
+            <Text style={styles.emptySubtitle}>
+              Set up the items you order regularly and we'll place or remind you before each cutoff.
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal visible={modalVisible} animationType="slide" transparent onRequestClose={closeModal}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{editingOrder ? 'Edit Standing Order' : 'New Standing Order'}</Text>
+              <TouchableOpacity onPress={closeModal} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Weekly dairy"
+                placeholderTextColor={theme.colors.textMuted}
+                value={name}
+                onChangeText={setName}
+              />
+
+              <Text style={styles.inputLabel}>Supplier</Text>
+              <View style={styles.chipRow}>
+                {state.suppliers.map((supplier) => (
+                  <TouchableOpacity
+                    key={supplier.id}
+                    style={[styles.chip, supplierId === supplier.id && styles.chipActive]}
+                    onPress={() => selectSupplier(supplier)}
+                  >
+                    <Text style={[styles.chipText, supplierId === supplier.id && styles.chipTextActive]}>
+                      {supplier.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {selectedSupplier && (
+                <>
+                  <Text style={styles.inputLabel}>Delivery Day</Text>
+                  {supplierDays.length === 0 ? (
+                    <Text style={styles.hintText}>{selectedSupplier.name} has no delivery days set up.</Text>
+                  ) : (
+                    <View style={styles.chipRow}>
+                      {supplierDays.map((day) => (
+                        <TouchableOpacity
+                          key={day}
+                          style={[styles.chip, deliveryDay === day && styles.chipActive]}
+                          onPress={() => setDeliveryDay(day)}
+                        >
+                          <Text style={[styles.chipText, deliveryDay === day && styles.chipTextActive]}>
+                            {getDeliveryDayLabel(day)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+                </>
+              )}
+
+              <Text style={styles.inputLabel}>Repeat</Text>
+              <View style={styles.segmented}>
+                {INTERVAL_OPTIONS.map((weeks) => (
+                  <TouchableOpacity
+                    key={weeks}
+                    style={[styles.segment, intervalWeeks === weeks && styles.segmentActive]}
+                    onPress={() => setIntervalWeeks(weeks)}
+                  >
+                    <Text style={[styles.segmentText, intervalWeeks === weeks && styles.segmentTextActive]}>
+                      {weeks === 1 ? 'Weekly' : `${weeks} wks`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text style={styles.switchLabel}>Place automatically</Text>
+                  <Text style={styles.hintText}>
+                    {autoSubmit
+                      ? 'The order is sent for approval the day before the cutoff.'
+                      : "We'll remind you the day before the cutoff to place it."}
+                  </Text>
+                </View>
+                <Switch
+                  value={autoSubmit}
+                  onValueChange={setAutoSubmit}
+                  trackColor={{ true: theme.colors.accent, false: theme.colors.border }}
+                />
+              </View>
+
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Active</Text>
+                <Switch
+                  value={isActive}
+                  onValueChange={setIsActive}
+                  trackColor={{ true: theme.colors.accent, false: theme.colors.border }}
+                />
+              </View>
+
+              <Text style={styles.inputLabel}>Items</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={supplierId ? 'Search items to add...' : 'Select a supplier first'}
+                placeholderTextColor={theme.colors.textMuted}
+                value={itemSearch}
+                onChangeText={setItemSearch}
+                editable={!!supplierId}
+              />
+              {filteredItems.length > 0 && (
+                <View style={styles.optionList}>
+                  {filteredItems.map((item) => (
+                    <TouchableOpacity key={item.id} style={styles.optionRow} onPress={() => addLine(item.id)}>
+                      <Text style={styles.optionText} numberOfLines={1}>{item.name}</Text>
+                      {item.size && <Text style={styles.optionMeta}>{item.size}</Text>}
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              {lines.map((line) => {
+                const item = getItem(line.item_id);
+                return (
+                  <View key={line.item_id} style={styles.lineRow}>
+                    <View style={styles.lineInfo}>
+                      <Text style={styles.lineName} numberOfLines={2}>{item?.name || 'Unavailable item'}</Text>
+                      {item && (
+                        <Text style={styles.lineMeta}>{formatCurrency(getLinePrice(item, line.quantity).total)}</Text>
+                      )}
+                    </View>
+                    <View style={styles.quantityControl}>
+                      <TouchableOpacity
+                        style={styles.quantityButton}
+                        onPress={() => updateLineQuantity(line.item_id, line.quantity - 1)}
+                      >
+                        <Ionicons name={line.quantity <= 1 ? 'trash-outline' : 'remove'} size={16} color={theme.colors.text} />
+                      </TouchableOpacity>
+                      <Text style={styles.quantityText}>{line.quantity}</Text>
+                      <TouchableOpacity
+                        style={styles.quantityButton}
+                        onPress={() => updateLineQuantity(line.item_id, line.quantity + 1)}
+                      >
+                        <Ionicons name="add" size={16} color={theme.colors.text} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+              {lines.length > 0 && (
+                <Text style={styles.estimateText}>Estimated subtotal {formatCurrency(getEstimatedTotal(lines))}</Text>
+              )}
+
+              <Text style={styles.inputLabel}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.notesInput]}
+                placeholder="Added to every order (optional)"
+                placeholderTextColor={theme.colors.textMuted}
+                value={notes}
+                onChangeText={setNotes}
+                multiline
+              />
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+                  <Text style={styles.primaryButtonText}>Save Standing Order</Text>
+                </>
+              )}
+            </TouchableOpacity>
+
+            {editingOrder && (
+              <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} disabled={saving}>
+                <Ionicons name="trash-outline" size={18} color={theme.colors.danger} />
+                <Text style={styles.deleteButtonText}>Delete Standing Order</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  listContent: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  listContentEmpty: {
+    flexGrow: 1,
+    padding: theme.spacing.md,
+  },
+  separator: {
+    height: theme.spacing.sm,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...theme.shadow.sm,
+  },
+
+  // Card
+  card: {
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    ...theme.shadow.sm,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cardIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: theme.spacing.md,
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  cardName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    flexShrink: 1,
+  },
+  pausedBadge: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textMuted,
+    backgroundColor: theme.colors.background,
+    paddingHorizontal: theme.spacing.xs + 2,
+    paddingVertical: 1,
+    borderRadius: theme.borderRadius.sm,
+    overflow: 'hidden',
+  },
+  autoBadge: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.accent,
+    backgroundColor: theme.colors.accent + '15',
+    paddingHorizontal: theme.spacing.xs + 2,
+    paddingVertical: 1,
+    borderRadius: theme.borderRadius.sm,
+    overflow: 'hidden',
+  },
+  cardSupplier: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  cardMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  cardFooter: {
+    marginTop: theme.spacing.sm,
+    paddingTop: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+    gap: theme.spacing.sm,
+  },
+  nextDelivery: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  nextDeliveryText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+  },
+  secondaryAction: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  secondaryActionText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  primaryAction: {
+    minWidth: 96,
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.accent,
+  },
+  primaryActionText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.white,
+  },
+
+  // Empty state
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  emptySubtitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+  },
+
+  // Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  modalTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  formScroll: {
+    flexGrow: 0,
+    marginBottom: theme.spacing.md,
+  },
+
+  // Form
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  chipActive: {
+    borderColor: theme.colors.accent,
+    backgroundColor: theme.colors.accent + '15',
+  },
+  chipText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: theme.colors.accent,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  segmented: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    borderColor: theme.colors.accent,
+    backgroundColor: theme.colors.accent + '15',
+  },
+  segmentText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: theme.colors.accent,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  switchLabel: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  optionList: {
+    marginTop: theme.spacing.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  optionMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.sm,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  lineMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  quantityControl: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  quantityButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: theme.colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quantityText: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  estimateText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    textAlign: 'right',
+    marginTop: theme.spacing.sm,
+  },
+
+  // Buttons
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+  },
+  deleteButtonText: {
+    color: theme.colors.danger,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+});
@@ -0,0 +1,434 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Print from 'expo-print';
+import * as MailComposer from 'expo-mail-composer';
+import { theme } from '../theme';
+import { useAuth } from '../context/AuthContext';
+import { useOrders } from '../context/OrderContext';
+import { CustomerStatement, StatementEntryType } from '../types';
+import {
+  AGING_LABELS,
+  STATEMENT_ENTRY_LABELS,
+  buildStatementHtml,
+  formatMoney,
+  formatStatementDate,
+  getCustomerName,
+  getMonthPeriod,
+  getStatementEmail,
+} from '../utils/statements';
+import { getPaymentTerms, getPaymentTermsLabel } from '../utils/paymentTerms';
+
+interface Props {
+  route: {
+    params?: {
+      customerId?: string; // Owners pick a customer; customers see their own
+    };
+  };
+}
+
+const ENTRY_ICONS: Record<StatementEntryType, keyof typeof Ionicons.glyphMap> = {
+  invoice: 'document-text-outline',
+  credit: 'return-down-back-outline',
+  payment: 'cash-outline',
+};
+
+export default function StatementScreen({ route }: Props) {
+  const { user, tenant, isOwner } = useAuth();
+  const { state, getCustomerStatement } = useOrders();
+
+  const customerId = route.params?.customerId || user?.id;
+  const customer = customerId === user?.id ? user : state.users.find((u) => u.id === customerId);
+  const paymentTerms = getPaymentTerms(customer, tenant);
+
+  const [monthsAgo, setMonthsAgo] = useState(0);
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+
+  const period = getMonthPeriod(monthsAgo);
+
+  // Cross-platform alert helper
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!customerId) return;
+    let cancelled = false;
+    setLoading(true);
+    getCustomerStatement(customerId, period.start, period.end).then((result) => {
+      if (cancelled) return;
+      setStatement(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId, period.start, period.end, tenant?.id]);
+
+  const handlePrint = async () => {
+    if (!statement) return;
+    try {
+      await Print.printAsync({ html: buildStatementHtml(statement, customer, tenant?.name || '', paymentTerms) });
+    } catch (e) {
+      console.error('Print error:', e);
+    }
+  };
+
+  // Owners send the statement to the customer's accounts email as a PDF
+  const handleEmail = async () => {
+    if (!statement) return;
+    const recipient = getStatementEmail(customer);
+    if (!recipient) {
+      showMessage('No Email', 'This customer has no accounts email. Add one in their customer details.');
+      return;
+    }
+    const isAvailable = await MailComposer.isAvailableAsync();
+    if (!isAvailable) {
+      showMessage('Email Unavailable', 'Mail is not configured on this device.');
+      return;
+    }
+
+    setSending(true);
+    try {
+      const { uri } = await Print.printToFileAsync({ html: buildStatementHtml(statement, customer, tenant?.name || '', paymentTerms) });
+      await MailComposer.composeAsync({
+        recipients: [recipient],
+        subject: `${tenant?.name || 'Your'} statement for ${period.label}`,
+        body: `Hi ${getCustomerName(customer)},\n\nPlease find attached your statement for ${period.label}. The balance due is ${formatMoney(statement.closing_balance)}.\n\nThanks,\n${tenant?.name || ''}`,
+        attachments: [uri],
+      });
+    } catch (e) {
+      console.error('Email error:', e);
+      showMessage('Error', 'Failed to prepare the statement email.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderSummaryRow = (label: string, value: number, bold = false) => (
+    <View style={styles.summaryRow}>
+      <Text style={[styles.summaryLabel, bold && styles.summaryBold]}>{label}</Text>
+      <Text style={[styles.summaryValue, bold && styles.summaryBold]}>{formatMoney(value)}</Text>
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>{getCustomerName(customer)}</Text>
+        <Text style={styles.headerSubtitle}>
+          Statement of account · Terms: {getPaymentTermsLabel(paymentTerms)}
+        </Text>
+      </View>
+
+      <View style={styles.periodRow}>
+        <TouchableOpacity style={styles.periodButton} onPress={() => setMonthsAgo(monthsAgo + 1)}>
+          <Ionicons name="chevron-back" size={20} color={theme.colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.periodLabel}>{period.label}</Text>
+        <TouchableOpacity
+          style={[styles.periodButton, monthsAgo === 0 && styles.buttonDisabled]}
+          onPress={() => setMonthsAgo(monthsAgo - 1)}
+          disabled={monthsAgo === 0}
+        >
+          <Ionicons name="chevron-forward" size={20} color={theme.colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.accent} />
+        </View>
+      ) : !statement ? (
+        <View style={styles.card}>
+          <Text style={styles.emptyText}>The statement could not be loaded.</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.card}>
+            {renderSummaryRow('Balance brought forward', statement.opening_balance)}
+            {renderSummaryRow('Invoiced', statement.invoiced)}
+            {renderSummaryRow('Credits', -statement.credited)}
+            {renderSummaryRow('Payments', -statement.paid)}
+            <View style={styles.divider} />
+            {renderSummaryRow('Balance due', statement.closing_balance, true)}
+          </View>
+
+          <View style={styles.agingRow}>
+            {AGING_LABELS.map((bucket) => (
+              <View key={bucket.key} style={styles.agingCell}>
+                <Text style={styles.agingLabel}>{bucket.label}</Text>
+                <Text
+                  style={[
+                    styles.agingValue,
+                    bucket.key !== 'current' && statement.aging[bucket.key] > 0 && styles.overdueValue,
+                  ]}
+                >
+                  {formatMoney(statement.aging[bucket.key])}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Activity</Text>
+          <View style={styles.card}>
+            {statement.entries.length === 0 ? (
+              <Text style={styles.emptyText}>No invoices, credits or payments this month.</Text>
+            ) : (
+              statement.entries.map((entry, index) => (
+                <View key={`${entry.type}-${entry.reference}-${index}`} style={[styles.entryRow, index > 0 && styles.entryDivider]}>
+                  <Ionicons name={ENTRY_ICONS[entry.type]} size={18} color={theme.colors.textSecondary} />
+                  <View style={styles.entryInfo}>
+                    <Text style={styles.entryReference}>{entry.reference}</Text>
+                    <Text style={styles.entryMeta}>
+                      {STATEMENT_ENTRY_LABELS[entry.type]} · {formatStatementDate(entry.date)}
+                    </Text>
+                  </View>
+                  <View style={styles.entryAmounts}>
+                    <Text style={[styles.entryAmount, entry.amount < 0 && styles.creditAmount]}>
+                      {formatMoney(entry.amount)}
+                    </Text>
+                    <Text style={styles.entryMeta}>{formatMoney(entry.balance)}</Text>
+                  </View>
+                </View>
+              ))
+            )}
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handlePrint}>
+              <Ionicons name="print-outline" size={18} color={theme.colors.accent} />
+              <Text style={styles.secondaryButtonText}>Print</Text>
+            </TouchableOpacity>
+            {isOwner() && (
+              <TouchableOpacity
+                style={[styles.primaryButton, sending && styles.buttonDisabled]}
+                onPress={handleEmail}
+                disabled={sending}
+              >
+                {sending ? (
+                  <ActivityIndicator size="small" color={theme.colors.white} />
+                ) : (
+                  <>
+                    <Ionicons name="mail-outline" size={18} color={theme.colors.white} />
+                    <Text style={styles.primaryButtonText}>Email</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  loadingContainer: {
+    paddingVertical: theme.spacing.xxl,
+    alignItems: 'center',
+  },
+
+  // Header
+  header: {
+    marginBottom: theme.spacing.md,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.sm,
+  },
+
+  // Period
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.md,
+  },
+  periodButton: {
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.surface,
+  },
+  periodLabel: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+
+  // Summary
+  card: {
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    marginBottom: theme.spacing.md,
+    ...theme.shadow.sm,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: theme.spacing.xs,
+  },
+  summaryLabel: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+  },
+  summaryValue: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  summaryBold: {
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: theme.colors.border,
+    marginVertical: theme.spacing.xs,
+  },
+
+  // Aging
+  agingRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  agingCell: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    alignItems: 'center',
+  },
+  agingLabel: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+  },
+  agingValue: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginTop: 2,
+  },
+  overdueValue: {
+    color: theme.colors.danger,
+  },
+
+  // Entries
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+  },
+  entryDivider: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryReference: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+  },
+  entryMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  entryAmounts: {
+    alignItems: 'flex-end',
+  },
+  entryAmount: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  creditAmount: {
+    color: theme.colors.success,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    paddingVertical: theme.spacing.md,
+  },
+
+  // Actions
+  actions: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  secondaryButtonText: {
+    color: theme.colors.accent,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,1061 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  RefreshControl,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { useOrders } from '../context/OrderContext';
+import { Item, StockAdjustmentReason, StockMovement } from '../types';
+import {
+  STOCK_ADJUSTMENT_REASONS,
+  formatStockQuantity,
+  getAvailableStock,
+  getStockMovementLabel,
+  isLowStock,
+} from '../utils/stock';
+
+type StockFilter = 'tracked' | 'low' | 'all';
+
+const FILTERS: { value: StockFilter; label: string }[] = [
+  { value: 'tracked', label: 'Tracked' },
+  { value: 'low', label: 'Low stock' },
+  { value: 'all', label: 'All items' },
+];
+
+// Reasons that usually take stock off; the owner can still flip the direction
+const REMOVING_REASONS: StockAdjustmentReason[] = ['damaged', 'expired', 'lost'];
+
+interface ReceiptLineInput {
+  item: Item;
+  quantity: string;
+}
+
+function formatMovementDate(value: string): string {
+  return new Date(value).toLocaleString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function toInput(value: number | null | undefined): string {
+  return value !== null && value !== undefined ? String(value) : '';
+}
+
+function formatChange(change: number): string {
+  return `${change > 0 ? '+' : ''}${formatStockQuantity(change)}`;
+}
+
+export default function StockScreen() {
+  const {
+    state,
+    loadItems,
+    updateStockSettings,
+    adjustStock,
+    receiveStock,
+    getStockMovements,
+    getSupplierName,
+  } = useOrders();
+
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<StockFilter>('tracked');
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Item detail state
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [trackStock, setTrackStock] = useState(false);
+  const [threshold, setThreshold] = useState('');
+  const [reorderPoint, setReorderPoint] = useState('');
+  const [reorderQuantity, setReorderQuantity] = useState('');
+  const [reason, setReason] = useState<StockAdjustmentReason>('stocktake');
+  const [removing, setRemoving] = useState(false);
+  const [quantity, setQuantity] = useState('');
+  const [adjustNotes, setAdjustNotes] = useState('');
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loadingMovements, setLoadingMovements] = useState(false);
+
+  // Receive delivery state
+  const [receiveVisible, setReceiveVisible] = useState(false);
+  const [receiveSupplierId, setReceiveSupplierId] = useState<string | null>(null);
+  const [reference, setReference] = useState('');
+  const [receiptLines, setReceiptLines] = useState<ReceiptLineInput[]>([]);
+  const [itemSearch, setItemSearch] = useState('');
+
+  const [saving, setSaving] = useState(false);
+
+  const selectedItem = state.items.find((item) => item.id === selectedItemId) || null;
+
+  // Cross-platform alert helper
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadItems();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadItems]);
+
+  const matchesSearch = (item: Item, query: string) =>
+    !query ||
+    item.name.toLowerCase().includes(query) ||
+    !!item.sku?.toLowerCase().includes(query) ||
+    !!item.barcode?.toLowerCase().includes(query);
+
+  const filteredItems = useMemo(() => {
+    const query = search.toLowerCase().trim();
+    return state.items.filter((item) => {
+      if (filter === 'tracked' && !item.track_stock) return false;
+      if (filter === 'low' && !isLowStock(item)) return false;
+      return matchesSearch(item, query);
+    });
+  }, [state.items, search, filter]);
+
+  const lowCount = useMemo(() => state.items.filter(isLowStock).length, [state.items]);
+
+  // Item detail
+  const openItem = async (item: Item) => {
+    setSelectedItemId(item.id);
+    setTrackStock(!!item.track_stock);
+    setThreshold(toInput(item.low_stock_threshold));
+    setReorderPoint(toInput(item.reorder_point));
+    setReorderQuantity(toInput(item.reorder_quantity));
+    setReason('stocktake');
+    setRemoving(false);
+    setQuantity('');
+    setAdjustNotes('');
+    setMovements([]);
+    setLoadingMovements(true);
+    try {
+      setMovements(await getStockMovements(item.id));
+    } finally {
+      setLoadingMovements(false);
+    }
+  };
+
+  const closeItem = () => {
+    setSelectedItemId(null);
+    setMovements([]);
+  };
+
+  const selectReason = (value: StockAdjustmentReason) => {
+    setReason(value);
+    setRemoving(REMOVING_REASONS.includes(value));
+  };
+
+  const handleSaveSettings = async (track: boolean = trackStock) => {
+    if (!selectedItem) return;
+    const parseUnits = (text: string) => (text.trim() ? parseFloat(text) : null);
+    const isInvalid = (value: number | null) => value !== null && (isNaN(value) || value < 0);
+    const value = parseUnits(threshold);
+    if (isInvalid(value)) {
+      showMessage('Check the threshold', 'Enter a number of units, or leave it blank for no alert.');
+      return;
+    }
+    const point = parseUnits(reorderPoint);
+    const reorder = parseUnits(reorderQuantity);
+    if (isInvalid(point) || isInvalid(reorder)) {
+      showMessage('Check the reorder point', 'Enter a number of units, or leave it blank to not reorder.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await updateStockSettings(selectedItem.id, {
+        track_stock: track,
+        low_stock_threshold: value,
+        reorder_point: point,
+        reorder_quantity: reorder,
+      });
+      if (!updated) {
+        setTrackStock(!!selectedItem.track_stock);
+        showMessage('Error', 'Failed to save the stock settings.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdjust = async () => {
+    if (!selectedItem) return;
+    const entered = parseFloat(quantity);
+    if (isNaN(entered) || entered < 0) {
+      showMessage('Check the quantity', reason === 'stocktake' ? 'Enter the number counted.' : 'Enter how many units.');
+      return;
+    }
+
+    const change =
+      reason === 'stocktake' ? entered - Number(selectedItem.stock_on_hand || 0) : removing ? -entered : entered;
+    if (change === 0) {
+      showMessage('Nothing to change', 'The count matches the stock on hand.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await adjustStock(selectedItem.id, change, reason, adjustNotes);
+      setQuantity('');
+      setAdjustNotes('');
+      setTrackStock(true);
+      setMovements(await getStockMovements(selectedItem.id));
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to adjust the stock.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Receive delivery
+  const openReceive = () => {
+    setReceiveSupplierId(state.suppliers[0]?.id || null);
+    setReference('');
+    setReceiptLines([]);
+    setItemSearch('');
+    setReceiveVisible(true);
+  };
+
+  const closeReceive = () => setReceiveVisible(false);
+
+  const pickerItems = useMemo(() => {
+    const query = itemSearch.toLowerCase().trim();
+    if (!query) return [];
+    return state.items
+      .filter((item) => matchesSearch(item, query) && !receiptLines.some((line) => line.item.id === item.id))
+      .slice(0, 20);
+  }, [state.items, itemSearch, receiptLines]);
+
+  const addReceiptLine = (item: Item) => {
+    setReceiptLines((prev) => [...prev, { item, quantity: '' }]);
+    setItemSearch('');
+  };
+
+  const updateReceiptLine = (itemId: string, value: string) => {
+    setReceiptLines((prev) => prev.map((line) => (line.item.id === itemId ? { ...line, quantity: value } : line)));
+  };
+
+  const removeReceiptLine = (itemId: string) => {
+    setReceiptLines((prev) => prev.filter((line) => line.item.id !== itemId));
+  };
+
+  const handleReceive = async () => {
+    const lines = receiptLines.map((line) => ({ item_id: line.item.id, quantity: parseFloat(line.quantity) || 0 }));
+    if (lines.some((line) => line.quantity <= 0)) {
+      showMessage('Check the quantities', 'Enter how many units of each item arrived, or remove the line.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const items = await receiveStock(receiveSupplierId, reference, lines);
+      closeReceive();
+      showMessage('Delivery received', `Stock added for ${items.length} item${items.length === 1 ? '' : 's'}.`);
+    } catch (error: any) {
+      showMessage('Error', error?.message || 'Failed to receive the delivery.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderItem = ({ item }: { item: Item }) => {
+    const available = getAvailableStock(item);
+    const low = isLowStock(item);
+
+    return (
+      <TouchableOpacity style={styles.itemRow} onPress={() => openItem(item)}>
+        <View style={styles.itemInfo}>
+          <Text style={styles.itemName} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.itemMeta} numberOfLines={1}>
+            {[item.sku, item.size, getSupplierName(item.supplier_id)].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+        {available === null ? (
+          <Text style={styles.untracked}>Not tracked</Text>
+        ) : (
+          <View style={styles.stockFigures}>
+            <Text style={[styles.available, low && styles.availableLow]}>{formatStockQuantity(available)}</Text>
+            <Text style={styles.stockDetail}>
+              {formatStockQuantity(Number(item.stock_on_hand || 0))} on hand
+              {Number(item.stock_reserved || 0) > 0 ? ` · ${formatStockQuantity(Number(item.stock_reserved))} reserved` : ''}
+            </Text>
+          </View>
+        )}
+        <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <View style={styles.searchBox}>
+          <Ionicons name="search" size={18} color={theme.colors.textMuted} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search items..."
+            placeholderTextColor={theme.colors.textMuted}
+            value={search}
+            onChangeText={setSearch}
+          />
+        </View>
+        <TouchableOpacity style={styles.receiveButton} onPress={openReceive}>
+          <Ionicons name="download-outline" size={18} color={theme.colors.white} />
+          <Text style={styles.receiveButtonText}>Receive</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.filterRow}>
+        {FILTERS.map((option) => {
+          const active = filter === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.filterChip, active && styles.filterChipActive]}
+              onPress={() => setFilter(option.value)}
+            >
+              <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>
+                {option.label}
+                {option.value === 'low' && lowCount > 0 ? ` (${lowCount})` : ''}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <FlatList
+        data={filteredItems}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="cube-outline" size={56} color={theme.colors.textLight} />
+            <Text style={styles.emptyTitle}>{filter === 'low' ? 'Nothing running low' : 'No items'}</Text>
+            <Text style={styles.emptySubtitle}>
+              {filter === 'tracked'
+                ? 'Receive a delivery or open an item to start tracking its stock.'
+                : 'Try a different search.'}
+            </Text>
+          </View>
+        }
+      />
+
+      {/* Item stock */}
+      <Modal visible={!!selectedItem} animationType="slide" transparent onRequestClose={closeItem}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle} numberOfLines={1}>{selectedItem?.name}</Text>
+              <TouchableOpacity onPress={closeItem} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            {selectedItem && (
+              <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryCell}>
+                    <Text style={styles.summaryValue}>{formatStockQuantity(Number(selectedItem.stock_on_hand || 0))}</Text>
+                    <Text style={styles.summaryLabel}>On hand</Text>
+                  </View>
+                  <View style={styles.summaryCell}>
+                    <Text style={styles.summaryValue}>{formatStockQuantity(Number(selectedItem.stock_reserved || 0))}</Text>
+                    <Text style={styles.summaryLabel}>Reserved</Text>
+                  </View>
+                  <View style={styles.summaryCell}>
+                    <Text style={[styles.summaryValue, isLowStock(selectedItem) && styles.availableLow]}>
+                      {formatStockQuantity(
+                        Number(selectedItem.stock_on_hand || 0) - Number(selectedItem.stock_reserved || 0)
+                      )}
+                    </Text>
+                    <Text style={styles.summaryLabel}>Available</Text>
+                  </View>
+                </View>
+
+                <View style={styles.switchRow}>
+                  <View style={styles.switchLabel}>
+                    <Text style={styles.switchTitle}>Track stock</Text>
+                    <Text style={styles.hintText}>Approved orders reserve it and the item sells out at zero</Text>
+                  </View>
+                  <Switch
+                    value={trackStock}
+                    onValueChange={(on) => {
+                      setTrackStock(on);
+                      handleSaveSettings(on);
+                    }}
+                    disabled={saving}
+                    trackColor={{ false: theme.colors.border, true: theme.colors.accent }}
+                    thumbColor={theme.colors.white}
+                  />
+                </View>
+
+                <Text style={styles.inputLabel}>Low stock alert at</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="No alert"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={threshold}
+                  onChangeText={setThreshold}
+                  keyboardType="decimal-pad"
+                />
+                <Text style={styles.hintText}>Owners get a notification when available stock falls to this.</Text>
+
+                <View style={styles.inlineRow}>
+                  <View style={styles.inlineInput}>
+                    <Text style={styles.inputLabel}>Reorder point</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Don't reorder"
+                      placeholderTextColor={theme.colors.textMuted}
+                      value={reorderPoint}
+                      onChangeText={setReorderPoint}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <View style={styles.inlineInput}>
+                    <Text style={styles.inputLabel}>Reorder quantity</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Back to the point"
+                      placeholderTextColor={theme.colors.textMuted}
+                      value={reorderQuantity}
+                      onChangeText={setReorderQuantity}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+                <Text style={styles.hintText}>
+                  Purchase orders suggest buying when available stock plus stock on order falls to the reorder point.
+                </Text>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, styles.settingsSaveButton, saving && styles.buttonDisabled]}
+                  onPress={() => handleSaveSettings()}
+                  disabled={saving}
+                >
+                  <Text style={styles.secondaryButtonText}>Save</Text>
+                </TouchableOpacity>
+
+                <Text style={styles.sectionTitle}>Adjust stock</Text>
+                <View style={styles.chipRow}>
+                  {STOCK_ADJUSTMENT_REASONS.map((option) => {
+                    const active = reason === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.filterChip, active && styles.filterChipActive]}
+                        onPress={() => selectReason(option.value)}
+                      >
+                        <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>{option.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {reason !== 'stocktake' && (
+                  <View style={styles.directionRow}>
+                    {[false, true].map((value) => (
+                      <TouchableOpacity
+                        key={String(value)}
+                        style={[styles.directionOption, removing === value && styles.directionOptionActive]}
+                        onPress={() => setRemoving(value)}
+                      >
+                        <Ionicons
+                          name={value ? 'remove' : 'add'}
+                          size={16}
+                          color={removing === value ? theme.colors.white : theme.colors.textSecondary}
+                        />
+                        <Text style={[styles.directionText, removing === value && styles.directionTextActive]}>
+                          {value ? 'Take off' : 'Add'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                <Text style={styles.inputLabel}>{reason === 'stocktake' ? 'Counted on hand' : 'Units'}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={reason === 'stocktake' ? formatStockQuantity(Number(selectedItem.stock_on_hand || 0)) : '0'}
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={quantity}
+                  onChangeText={setQuantity}
+                  keyboardType="decimal-pad"
+                />
+
+                <Text style={styles.inputLabel}>Notes</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput]}
+                  placeholder={reason === 'other' ? 'Required' : 'Optional'}
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={adjustNotes}
+                  onChangeText={setAdjustNotes}
+                  multiline
+                />
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, styles.adjustButton, saving && styles.buttonDisabled]}
+                  onPress={handleAdjust}
+                  disabled={saving}
+                >
+                  {saving ? (
+                    <ActivityIndicator size="small" color={theme.colors.white} />
+                  ) : (
+                    <>
+                      <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+                      <Text style={styles.primaryButtonText}>Adjust</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+
+                <Text style={styles.sectionTitle}>History</Text>
+                {loadingMovements ? (
+                  <ActivityIndicator color={theme.colors.accent} />
+                ) : movements.length === 0 ? (
+                  <Text style={styles.hintText}>No stock movements yet.</Text>
+                ) : (
+                  movements.map((movement) => {
+                    const change = Number(movement.on_hand_change) || Number(movement.reserved_change);
+                    return (
+                      <View key={movement.id} style={styles.movementRow}>
+                        <View style={styles.movementInfo}>
+                          <Text style={styles.movementLabel}>
+                            {getStockMovementLabel(movement.movement_type, movement.reason)}
+                          </Text>
+                          <Text style={styles.movementMeta} numberOfLines={2}>
+                            {[
+                              formatMovementDate(movement.created_at),
+                              movement.reference,
+                              movement.supplier_id ? getSupplierName(movement.supplier_id) : null,
+                              movement.notes,
+                            ]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </Text>
+                        </View>
+                        <View style={styles.movementFigures}>
+                          <Text style={[styles.movementChange, change < 0 && styles.movementChangeNegative]}>
+                            {formatChange(change)}
+                          </Text>
+                          <Text style={styles.movementMeta}>
+                            {formatStockQuantity(Number(movement.on_hand_after))} on hand
+                          </Text>
+                        </View>
+                      </View>
+                    );
+                  })
+                )}
+              </ScrollView>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Receive delivery */}
+      <Modal visible={receiveVisible} animationType="slide" transparent onRequestClose={closeReceive}>
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Receive Delivery</Text>
+              <TouchableOpacity onPress={closeReceive} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="close" size={24} color={theme.colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.formScroll} keyboardShouldPersistTaps="handled">
+              {state.suppliers.length > 1 && (
+                <>
+                  <Text style={styles.inputLabel}>Supplier</Text>
+                  <View style={styles.chipRow}>
+                    {state.suppliers.map((supplier) => {
+                      const active = receiveSupplierId === supplier.id;
+                      return (
+                        <TouchableOpacity
+                          key={supplier.id}
+                          style={[styles.filterChip, active && styles.filterChipActive]}
+                          onPress={() => setReceiveSupplierId(supplier.id)}
+                        >
+                          <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>
+                            {supplier.name}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              <Text style={styles.inputLabel}>Docket or invoice number</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Optional"
+                placeholderTextColor={theme.colors.textMuted}
+                value={reference}
+                onChangeText={setReference}
+              />
+
+              <Text style={styles.inputLabel}>Items ({receiptLines.length})</Text>
+              {receiptLines.map((line) => (
+                <View key={line.item.id} style={styles.receiptRow}>
+                  <Text style={styles.receiptName} numberOfLines={2}>{line.item.name}</Text>
+                  <TextInput
+                    style={[styles.input, styles.receiptQuantity]}
+                    placeholder="Units"
+                    placeholderTextColor={theme.colors.textMuted}
+                    value={line.quantity}
+                    onChangeText={(value) => updateReceiptLine(line.item.id, value)}
+                    keyboardType="decimal-pad"
+                  />
+                  <TouchableOpacity onPress={() => removeReceiptLine(line.item.id)} style={styles.iconButton}>
+                    <Ionicons name="close-circle-outline" size={20} color={theme.colors.danger} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+
+              <TextInput
+                style={[styles.input, styles.pickerSearch]}
+                placeholder="Add an item..."
+                placeholderTextColor={theme.colors.textMuted}
+                value={itemSearch}
+                onChangeText={setItemSearch}
+              />
+              {pickerItems.map((item) => (
+                <TouchableOpacity key={item.id} style={styles.optionRow} onPress={() => addReceiptLine(item)}>
+                  <Text style={styles.optionText} numberOfLines={1}>
+                    {item.name}
+                    {item.size ? ` · ${item.size}` : ''}
+                  </Text>
+                  <Ionicons name="add-circle-outline" size={20} color={theme.colors.accent} />
+                </TouchableOpacity>
+              ))}
+              <Text style={styles.hintText}>
+                Quantities are units, not cartons. Items start tracking stock when they are received.
+              </Text>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (saving || receiptLines.length === 0) && styles.buttonDisabled]}
+              onPress={handleReceive}
+              disabled={saving || receiptLines.length === 0}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={theme.colors.white} />
+              ) : (
+                <>
+                  <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+                  <Text style={styles.primaryButtonText}>Receive</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+
+  // Toolbar
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.sm,
+  },
+  searchBox: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingHorizontal: theme.spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  receiveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 2,
+    borderRadius: theme.borderRadius.md,
+  },
+  receiveButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    paddingBottom: theme.spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  filterChip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  filterChipActive: {
+    backgroundColor: theme.colors.accent,
+    borderColor: theme.colors.accent,
+  },
+  filterChipText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  filterChipTextActive: {
+    color: theme.colors.white,
+  },
+
+  // List
+  listContent: {
+    paddingHorizontal: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.spacing.sm,
+    ...theme.shadow.sm,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+  },
+  itemMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  untracked: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+  },
+  stockFigures: {
+    alignItems: 'flex-end',
+  },
+  available: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  availableLow: {
+    color: theme.colors.danger,
+  },
+  stockDetail: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+  },
+
+  // Empty state
+  emptyContainer: {
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.xl,
+    paddingTop: theme.spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  emptySubtitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.sm,
+  },
+
+  // Modal
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xxl,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  formScroll: {
+    flexGrow: 0,
+    marginBottom: theme.spacing.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.md,
+    paddingVertical: theme.spacing.sm,
+  },
+  summaryCell: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  summaryLabel: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  switchTitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+
+  // Form
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.xs,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  directionRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  directionOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.xs,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  directionOptionActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  directionText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+  },
+  directionTextActive: {
+    color: theme.colors.white,
+  },
+  movementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderLight,
+  },
+  movementInfo: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  movementLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+  },
+  movementMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 1,
+  },
+  movementFigures: {
+    alignItems: 'flex-end',
+  },
+  movementChange: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.success,
+  },
+  movementChangeNegative: {
+    color: theme.colors.danger,
+  },
+  receiptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+  },
+  receiptName: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  receiptQuantity: {
+    width: 90,
+    paddingVertical: theme.spacing.sm,
+  },
+  pickerSearch: {
+    marginTop: theme.spacing.sm,
+  },
+  iconButton: {
+    padding: theme.spacing.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderLight,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+    marginRight: theme.spacing.sm,
+  },
+
+  // Buttons
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  adjustButton: {
+    marginTop: theme.spacing.md,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  secondaryButton: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accent,
+  },
+  settingsSaveButton: {
+    alignItems: 'center',
+    marginTop: theme.spacing.sm,
+  },
+  secondaryButtonText: {
+    color: theme.colors.accent,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,467 @@
+import { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../theme';
+import { useAuth } from '../context/AuthContext';
+import { useOrders } from '../context/OrderContext';
+import { CATEGORIES, CategoryTaxDefault, TaxCode } from '../types';
+import { getTaxCodes, getTaxMappingErrors } from '../utils/tax';
+
+interface TaxCodeRow {
+  rate: string;
+  xero_tax_type: string;
+  xero_account_code: string;
+  label: string;
+}
+
+interface CategoryRow {
+  tax_rate: string;
+  xero_account_code: string;
+}
+
+const ITEM_CATEGORIES = CATEGORIES.filter((category) => category !== 'All');
+
+export default function TaxCodesScreen() {
+  const { tenant, updateTenantSettings } = useAuth();
+  const { state } = useOrders();
+
+  const [defaultRate, setDefaultRate] = useState(String(tenant?.settings?.tax_rate ?? 0));
+  const [codes, setCodes] = useState<TaxCodeRow[]>(() =>
+    getTaxCodes(tenant?.settings).map((code) => ({
+      rate: String(code.rate),
+      xero_tax_type: code.xero_tax_type,
+      xero_account_code: code.xero_account_code || '',
+      label: code.label || '',
+    }))
+  );
+  const [categories, setCategories] = useState<Record<string, CategoryRow>>(() => {
+    const rows: Record<string, CategoryRow> = {};
+    for (const category of ITEM_CATEGORIES) {
+      const defaults = tenant?.settings?.category_tax?.[category];
+      rows[category] = {
+        tax_rate: defaults?.tax_rate != null ? String(defaults.tax_rate) : '',
+        xero_account_code: defaults?.xero_account_code || '',
+      };
+    }
+    return rows;
+  });
+  const [saving, setSaving] = useState(false);
+
+  // Cross-platform alert helper
+  const showMessage = useCallback((title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(`${title}\n\n${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  }, []);
+
+  // The form as settings, or the first problem with it
+  const parsed = useMemo((): { taxCodes: TaxCode[]; categoryTax: Record<string, CategoryTaxDefault>; error?: string } => {
+    const taxCodes: TaxCode[] = [];
+    const categoryTax: Record<string, CategoryTaxDefault> = {};
+
+    for (const row of codes) {
+      const rate = parseFloat(row.rate);
+      if (isNaN(rate) || rate < 0 || rate > 100) {
+        return { taxCodes, categoryTax, error: 'Each tax code needs a rate between 0 and 100.' };
+      }
+      taxCodes.push({
+        rate,
+        xero_tax_type: row.xero_tax_type.trim().toUpperCase(),
+        xero_account_code: row.xero_account_code.trim() || undefined,
+        label: row.label.trim() || undefined,
+      });
+    }
+
+    for (const [category, row] of Object.entries(categories)) {
+      const defaults: CategoryTaxDefault = {};
+      if (row.tax_rate.trim()) {
+        const rate = parseFloat(row.tax_rate);
+        if (isNaN(rate) || rate < 0 || rate > 100) {
+          return { taxCodes, categoryTax, error: `Enter a rate between 0 and 100 for ${category}, or leave it blank.` };
+        }
+        defaults.tax_rate = rate;
+      }
+      if (row.xero_account_code.trim()) {
+        defaults.xero_account_code = row.xero_account_code.trim();
+      }
+      if (defaults.tax_rate != null || defaults.xero_account_code) {
+        categoryTax[category] = defaults;
+      }
+    }
+
+    return { taxCodes, categoryTax };
+  }, [codes, categories]);
+
+  const warnings = useMemo(() => {
+    if (parsed.error) return [];
+    const rate = parseFloat(defaultRate);
+    return getTaxMappingErrors(
+      {
+        tax_rate: isNaN(rate) ? 0 : rate,
+        tax_codes: parsed.taxCodes,
+        category_tax: parsed.categoryTax,
+      },
+      state.items
+    );
+  }, [parsed, defaultRate, state.items]);
+
+  const updateCode = (index: number, field: keyof TaxCodeRow, value: string) => {
+    setCodes((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const updateCategory = (category: string, field: keyof CategoryRow, value: string) => {
+    setCategories((prev) => ({ ...prev, [category]: { ...prev[category], [field]: value } }));
+  };
+
+  const handleSave = async () => {
+    const rate = parseFloat(defaultRate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      showMessage('Validation', 'Enter a default GST rate between 0 and 100.');
+      return;
+    }
+    if (parsed.error) {
+      showMessage('Validation', parsed.error);
+      return;
+    }
+    if (parsed.taxCodes.length === 0) {
+      showMessage('Validation', 'Add at least one tax code.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await updateTenantSettings({
+        tax_rate: rate,
+        tax_codes: parsed.taxCodes,
+        category_tax: parsed.categoryTax,
+      });
+      if (saved) {
+        showMessage(
+          'Saved',
+          warnings.length > 0
+            ? `Tax codes saved, but invoices won't export until these are fixed:\n\n• ${warnings.join('\n• ')}`
+            : 'New orders use these rates, and invoices export with these tax types.'
+        );
+      } else {
+        showMessage('Error', 'Failed to save the tax codes.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Tax Codes</Text>
+        <Text style={styles.headerSubtitle}>GST rates and the Xero tax types and accounts they export with</Text>
+      </View>
+
+      {warnings.length > 0 && (
+        <View style={styles.warningCard}>
+          <Ionicons name="warning-outline" size={18} color={theme.colors.danger} />
+          <View style={styles.warningBody}>
+            {warnings.map((warning) => (
+              <Text key={warning} style={styles.warningText}>{warning}</Text>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <View style={styles.card}>
+        <Text style={styles.inputLabel}>Default GST rate (%)</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="10"
+          placeholderTextColor={theme.colors.textMuted}
+          value={defaultRate}
+          onChangeText={setDefaultRate}
+          keyboardType="decimal-pad"
+        />
+        <Text style={styles.hintText}>
+          For items with no rate of their own and no category default.
+        </Text>
+      </View>
+
+      <Text style={styles.sectionTitle}>Xero Tax Types</Text>
+      <View style={styles.card}>
+        {codes.map((row, index) => (
+          <View key={index} style={[styles.codeRow, index > 0 && styles.rowDivider]}>
+            <View style={styles.fieldRow}>
+              <View style={styles.fieldSmall}>
+                <Text style={styles.inputLabel}>Rate (%)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="10"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={row.rate}
+                  onChangeText={(value) => updateCode(index, 'rate', value)}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.field}>
+                <Text style={styles.inputLabel}>Xero tax type</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="OUTPUT"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={row.xero_tax_type}
+                  onChangeText={(value) => updateCode(index, 'xero_tax_type', value)}
+                  autoCapitalize="characters"
+                />
+              </View>
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => setCodes((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Ionicons name="trash-outline" size={18} color={theme.colors.danger} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.fieldRow}>
+              <View style={styles.fieldSmall}>
+                <Text style={styles.inputLabel}>Account</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="200"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={row.xero_account_code}
+                  onChangeText={(value) => updateCode(index, 'xero_account_code', value)}
+                />
+              </View>
+              <View style={styles.field}>
+                <Text style={styles.inputLabel}>Label</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="GST on Income"
+                  placeholderTextColor={theme.colors.textMuted}
+                  value={row.label}
+                  onChangeText={(value) => updateCode(index, 'label', value)}
+                />
+              </View>
+            </View>
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setCodes((prev) => [...prev, { rate: '', xero_tax_type: '', xero_account_code: '', label: '' }])}
+        >
+          <Ionicons name="add" size={18} color={theme.colors.accent} />
+          <Text style={styles.addButtonText}>Add Tax Code</Text>
+        </TouchableOpacity>
+        <Text style={styles.hintText}>
+          Each rate we charge needs a Xero tax type with the same rate. The account is used for lines
+          whose item and category don't set one.
+        </Text>
+      </View>
+
+      <Text style={styles.sectionTitle}>Category Defaults</Text>
+      <View style={styles.card}>
+        <Text style={styles.hintText}>
+          For items in the category with no rate or account of their own. Leave blank to use the defaults above.
+        </Text>
+        {ITEM_CATEGORIES.map((category) => (
+          <View key={category} style={styles.categoryRow}>
+            <Text style={styles.categoryName}>{category}</Text>
+            <TextInput
+              style={[styles.input, styles.categoryInput]}
+              placeholder="Rate %"
+              placeholderTextColor={theme.colors.textMuted}
+              value={categories[category].tax_rate}
+              onChangeText={(value) => updateCategory(category, 'tax_rate', value)}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.categoryInput]}
+              placeholder="Account"
+              placeholderTextColor={theme.colors.textMuted}
+              value={categories[category].xero_account_code}
+              onChangeText={(value) => updateCategory(category, 'xero_account_code', value)}
+            />
+          </View>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.primaryButton, saving && styles.buttonDisabled]}
+        onPress={handleSave}
+        disabled={saving}
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color={theme.colors.white} />
+        ) : (
+          <>
+            <Ionicons name="checkmark" size={18} color={theme.colors.white} />
+            <Text style={styles.primaryButtonText}>Save Tax Codes</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+
+  // Header
+  header: {
+    marginBottom: theme.spacing.md,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text,
+  },
+  headerSubtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.sm,
+  },
+
+  // Warnings
+  warningCard: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.surface,
+    borderLeftWidth: 3,
+    borderLeftColor: theme.colors.danger,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    marginBottom: theme.spacing.md,
+  },
+  warningBody: {
+    flex: 1,
+    gap: theme.spacing.xs,
+  },
+  warningText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+
+  // Form
+  card: {
+    backgroundColor: theme.colors.surface,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    marginBottom: theme.spacing.md,
+    ...theme.shadow.sm,
+  },
+  inputLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  input: {
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  hintText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.xs,
+  },
+
+  // Tax codes
+  codeRow: {
+    paddingBottom: theme.spacing.sm,
+  },
+  rowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+    paddingTop: theme.spacing.sm,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: theme.spacing.sm,
+  },
+  field: {
+    flex: 2,
+  },
+  fieldSmall: {
+    flex: 1,
+  },
+  removeButton: {
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    paddingVertical: theme.spacing.sm,
+  },
+  addButtonText: {
+    color: theme.colors.accent,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+
+  // Categories
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  categoryName: {
+    flex: 2,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text,
+  },
+  categoryInput: {
+    flex: 1,
+    paddingHorizontal: theme.spacing.sm,
+  },
+
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: theme.colors.accent,
+    paddingVertical: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+  },
+  primaryButtonText: {
+    color: theme.colors.white,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -16,12 +16,16 @@ import {
   ScrollView,
   Keyboard,
   TouchableWithoutFeedback,
+  Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { theme } from '../theme';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../lib/supabase';
+import { searchXeroContacts, syncXeroContact } from '../services/xero';
+import { PaymentTerms, XeroContact } from '../types';
+import { PAYMENT_TERMS_OPTIONS, getPaymentTerms, getPaymentTermsLabel } from '../utils/paymentTerms';
 import * as Crypto from 'expo-crypto';
 
 type User = {
@@ -38,6 +42,13 @@ type User = {
   accounts_email?: string;
   delivery_address?: string;
   delivery_instructions?: string;
+  price_group?: string | null; // Group with this business, from customer_suppliers
+  credit_limit?: number | null;
+  payment_terms?: PaymentTerms | null;
+  account_hold?: boolean;
+  account_hold_reason?: string | null;
+  xero_contact_id?: string | null;
+  xero_contact_synced_at?: string | null;
 };
 
 type Invitation = {
@@ -100,9 +111,18 @@ export default function UserListScreen() {
   const [editUser, setEditUser] = useState<User | null>(null);
   const [editName, setEditName] = useState('');
   const [editCustomerId, setEditCustomerId] = useState('');
+  const [editPriceGroup, setEditPriceGroup] = useState('');
+  const [editCreditLimit, setEditCreditLimit] = useState('');
+  const [editPaymentTerms, setEditPaymentTerms] = useState<PaymentTerms | null>(null);
+  const [editAccountHold, setEditAccountHold] = useState(false);
+  const [editHoldReason, setEditHoldReason] = useState('');
   const [editRole, setEditRole] = useState<RoleOption>('user');
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [xeroQuery, setXeroQuery] = useState('');
+  const [xeroResults, setXeroResults] = useState<XeroContact[] | null>(null);
+  const [xeroSearching, setXeroSearching] = useState(false);
+  const [xeroSyncing, setXeroSyncing] = useState(false);
 
   // Invitation detail modal state
   const [invitationModalVisible, setInvitationModalVisible] = useState(false);
@@ -119,7 +139,16 @@ export default function UserListScreen() {
         .order('full_name');
 
       if (userError) throw userError;
-      setUsers(userData || []);
+
+      // Price groups are kept on each customer's link to the business
+      const { data: linkData, error: linkError } = await supabase
+        .from('customer_suppliers')
+        .select('customer_id, price_group')
+        .eq('supplier_tenant_id', tenant.id);
+
+      if (linkError) throw linkError;
+      const priceGroups = new Map((linkData || []).map((link) => [link.customer_id, link.price_group]));
+      setUsers((userData || []).map((u) => ({ ...u, price_group: priceGroups.get(u.id) ?? null })));
 
       // Fetch pending invitations
       const { data: inviteData, error: inviteError } = await supabase
@@ -582,7 +611,14 @@ export default function UserListScreen() {
     setEditUser(u);
     setEditName(u.business_name || u.full_name);
     setEditCustomerId(u.customer_id || '');
+    setEditPriceGroup(u.price_group || '');
+    setEditCreditLimit(u.credit_limit !== null && u.credit_limit !== undefined ? String(u.credit_limit) : '');
+    setEditPaymentTerms(u.payment_terms || null);
+    setEditAccountHold(!!u.account_hold);
+    setEditHoldReason(u.account_hold_reason || '');
     setEditRole(u.role);
+    setXeroQuery(u.business_name || '');
+    setXeroResults(null);
     setEditModalVisible(true);
   };
 
@@ -592,6 +628,11 @@ export default function UserListScreen() {
       Alert.alert('Validation', 'Name cannot be empty.');
       return;
     }
+    const creditLimit = editCreditLimit.trim() ? Number(editCreditLimit.trim()) : null;
+    if (creditLimit !== null && (isNaN(creditLimit) || creditLimit < 0)) {
+      Alert.alert('Validation', 'Credit limit must be a positive amount, or blank for no limit.');
+      return;
+    }
 
     setSaving(true);
     try {
@@ -600,12 +641,34 @@ export default function UserListScreen() {
         .update({
           business_name: editName.trim(),
           customer_id: editCustomerId.trim() || null,
+          credit_limit: creditLimit,
+          payment_terms: editPaymentTerms,
+          account_hold: editAccountHold,
+          account_hold_reason: editAccountHold ? editHoldReason.trim() || null : null,
           role: editRole,
         })
         .eq('id', editUser.id);
 
       if (error) throw error;
 
+      const priceGroup = editPriceGroup.trim() || null;
+      if (priceGroup !== (editUser.price_group || null)) {
+        const { error: groupError } = await supabase.rpc('set_customer_price_group', {
+          p_tenant_id: tenant?.id,
+          p_customer_id: editUser.id,
+          p_price_group: priceGroup,
+        });
+        if (groupError) throw groupError;
+      }
+
+      // Keep the linked Xero contact in step; the customer is saved either way
+      if (editUser.role === 'user' && editUser.xero_contact_id) {
+        const result = await syncXeroContact(editUser.id);
+        if (!result.success) {
+          Alert.alert('Xero Not Updated', `The customer was saved, but their Xero contact could not be updated.\n\n${result.error}`);
+        }
+      }
+
       setEditModalVisible(false);
       fetchData();
     } catch (err: any) {
@@ -615,6 +678,56 @@ export default function UserListScreen() {
     }
   };
 
+  // --- Xero Contact ---
+
+  const handleXeroSearch = async () => {
+    if (xeroQuery.trim().length < 2) {
+      Alert.alert('Validation', 'Enter at least 2 characters to search Xero.');
+      return;
+    }
+
+    setXeroSearching(true);
+    const result = await searchXeroContacts(xeroQuery.trim());
+    setXeroSearching(false);
+
+    if (!result.success) {
+      Alert.alert('Xero Search Failed', result.error || 'Failed to search Xero contacts');
+      return;
+    }
+    setXeroResults(result.contacts || []);
+  };
+
+  // Link to an existing Xero contact, or (without one) create/update the customer's contact
+  const handleXeroSync = async (contact?: XeroContact) => {
+    if (!editUser) return;
+
+    if (contact?.linked_customer_id && contact.linked_customer_id !== editUser.id) {
+      Alert.alert('Already Linked', `${contact.name} is already linked to ${contact.linked_customer_name || 'another customer'}.`);
+      return;
+    }
+
+    setXeroSyncing(true);
+    const result = await syncXeroContact(editUser.id, contact?.id);
+    setXeroSyncing(false);
+
+    if (!result.success) {
+      Alert.alert('Xero Error', result.error || 'Failed to sync the contact to Xero');
+      return;
+    }
+
+    setEditUser({ ...editUser, xero_contact_id: result.xero_contact_id, xero_contact_synced_at: new Date().toISOString() });
+    setXeroResults(null);
+    fetchData();
+    Alert.alert(
+      'Xero Contact',
+      contact || result.linked_existing
+        ? 'Customer linked to their Xero contact.'
+        : editUser.xero_contact_id
+          ? 'Xero contact updated.'
+          : 'Contact created in Xero.'
+    );
+  };
+
   const handleDeleteUser = () => {
     if (!editUser) return;
 
@@ -741,6 +854,9 @@ export default function UserListScreen() {
             {item.customer_id && (
               <Text style={styles.customerIdBadge}>{item.customer_id}</Text>
             )}
+            {item.account_hold && (
+              <Text style={styles.holdBadge}>On hold</Text>
+            )}
           </View>
           {item.business_name && (
             <Text style={styles.userBusinessName} numberOfLines={1}>
@@ -1285,7 +1401,7 @@ export default function UserListScreen() {
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
           style={styles.modalOverlay}
         >
-          <View style={styles.modalContent}>
+          <View style={[styles.modalContent, styles.addModalContent]}>
             <View style={styles.modalHeader}>
               <Text style={styles.modalTitle}>Edit Customer</Text>
               <TouchableOpacity
@@ -1300,28 +1416,178 @@ export default function UserListScreen() {
               <Text style={styles.editEmail}>{editUser.email}</Text>
             )}
 
-            <Text style={styles.inputLabel}>Customer ID</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="e.g. CUST001 (optional)"
-              placeholderTextColor={theme.colors.textMuted}
-              value={editCustomerId}
-              onChangeText={setEditCustomerId}
-              autoCapitalize="characters"
-            />
+            <ScrollView style={styles.addFormScroll} keyboardShouldPersistTaps="handled">
+              <Text style={styles.inputLabel}>Customer ID</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. CUST001 (optional)"
+                placeholderTextColor={theme.colors.textMuted}
+                value={editCustomerId}
+                onChangeText={setEditCustomerId}
+                autoCapitalize="characters"
+              />
+
+              <Text style={styles.inputLabel}>Business Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Enter business name"
+                placeholderTextColor={theme.colors.textMuted}
+                value={editName}
+                onChangeText={setEditName}
+                autoCapitalize="words"
+              />
+
+              <Text style={styles.inputLabel}>Price Group</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Cafe (optional)"
+                placeholderTextColor={theme.colors.textMuted}
+                value={editPriceGroup}
+                onChangeText={setEditPriceGroup}
+                autoCapitalize="words"
+              />
+
+              <Text style={styles.inputLabel}>Role</Text>
+              <RolePicker value={editRole} onChange={setEditRole} />
+
+              {editUser?.role === 'user' && (
+                <>
+                  <Text style={styles.inputLabel}>Credit Limit</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="No limit"
+                    placeholderTextColor={theme.colors.textMuted}
+                    value={editCreditLimit}
+                    onChangeText={setEditCreditLimit}
+                    keyboardType="decimal-pad"
+                  />
 
-            <Text style={styles.inputLabel}>Business Name</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="Enter business name"
-              placeholderTextColor={theme.colors.textMuted}
-              value={editName}
-              onChangeText={setEditName}
-              autoCapitalize="words"
-            />
+                  <Text style={styles.inputLabel}>Payment Terms</Text>
+                  <View style={styles.termsPicker}>
+                    {[{ value: null, label: `Default (${getPaymentTermsLabel(getPaymentTerms(null, tenant))})` }, ...PAYMENT_TERMS_OPTIONS].map((option) => {
+                      const active = editPaymentTerms === option.value;
+                      return (
+                        <TouchableOpacity
+                          key={option.value || 'default'}
+                          style={[styles.termsOption, active && styles.termsOptionActive]}
+                          onPress={() => setEditPaymentTerms(option.value)}
+                        >
+                          <Text style={[styles.termsOptionText, active && styles.termsOptionTextActive]}>
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
 
-            <Text style={styles.inputLabel}>Role</Text>
-            <RolePicker value={editRole} onChange={setEditRole} />
+                  <View style={styles.holdRow}>
+                    <View style={styles.userInfo}>
+                      <Text style={styles.holdLabel}>Account Hold</Text>
+                      <Text style={styles.holdHint}>
+                        Stops the customer ordering. Emailed orders wait in credit review.
+                      </Text>
+                    </View>
+                    <Switch
+                      value={editAccountHold}
+                      onValueChange={setEditAccountHold}
+                      trackColor={{ true: theme.colors.danger, false: theme.colors.border }}
+                    />
+                  </View>
+                  {editAccountHold && (
+                    <TextInput
+                      style={styles.input}
+                      placeholder="Reason (shown to the customer)"
+                      placeholderTextColor={theme.colors.textMuted}
+                      value={editHoldReason}
+                      onChangeText={setEditHoldReason}
+                    />
+                  )}
+
+                  <Text style={styles.inputLabel}>Xero Contact</Text>
+                  <View style={styles.xeroStatusRow}>
+                    <Ionicons
+                      name={editUser.xero_contact_id ? 'link' : 'unlink'}
+                      size={16}
+                      color={editUser.xero_contact_id ? theme.colors.success : theme.colors.textMuted}
+                    />
+                    <Text style={styles.xeroStatusText}>
+                      {editUser.xero_contact_id
+                        ? `Linked${editUser.xero_contact_synced_at ? ` · synced ${new Date(editUser.xero_contact_synced_at).toLocaleDateString()}` : ''}`
+                        : 'Not linked to Xero'}
+                    </Text>
+                    <TouchableOpacity
+                      style={[styles.xeroSyncButton, xeroSyncing && styles.buttonDisabled]}
+                      onPress={() => handleXeroSync()}
+                      disabled={xeroSyncing}
+                    >
+                      {xeroSyncing ? (
+                        <ActivityIndicator size="small" color={theme.colors.accent} />
+                      ) : (
+                        <Text style={styles.xeroSyncButtonText}>
+                          {editUser.xero_contact_id ? 'Sync Now' : 'Create in Xero'}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+
+                  <View style={styles.xeroSearchRow}>
+                    <TextInput
+                      style={[styles.input, styles.xeroSearchInput]}
+                      placeholder="Search Xero contacts to link"
+                      placeholderTextColor={theme.colors.textMuted}
+                      value={xeroQuery}
+                      onChangeText={setXeroQuery}
+                      onSubmitEditing={handleXeroSearch}
+                      returnKeyType="search"
+                    />
+                    <TouchableOpacity
+                      style={[styles.xeroSearchButton, xeroSearching && styles.buttonDisabled]}
+                      onPress={handleXeroSearch}
+                      disabled={xeroSearching}
+                    >
+                      {xeroSearching ? (
+                        <ActivityIndicator size="small" color={theme.colors.white} />
+                      ) : (
+                        <Ionicons name="search" size={18} color={theme.colors.white} />
+                      )}
+                    </TouchableOpacity>
+                  </View>
+
+                  {xeroResults?.length === 0 && (
+                    <Text style={styles.xeroEmptyText}>No matching contacts in Xero</Text>
+                  )}
+                  {xeroResults?.map((contact) => {
+                    const isCurrent = contact.id === editUser.xero_contact_id;
+                    const linkedElsewhere = !!contact.linked_customer_id && contact.linked_customer_id !== editUser.id;
+                    return (
+                      <TouchableOpacity
+                        key={contact.id}
+                        style={[styles.xeroResult, isCurrent && styles.xeroResultCurrent]}
+                        onPress={() => handleXeroSync(contact)}
+                        disabled={xeroSyncing || isCurrent}
+                      >
+                        <View style={styles.userInfo}>
+                          <Text style={styles.xeroResultName}>{contact.name}</Text>
+                          <Text style={styles.xeroResultDetail}>
+                            {[contact.account_number, contact.email].filter(Boolean).join(' · ') || 'No email'}
+                          </Text>
+                          {linkedElsewhere && (
+                            <Text style={styles.xeroResultLinked}>
+                              Linked to {contact.linked_customer_name || 'another customer'}
+                            </Text>
+                          )}
+                        </View>
+                        <Ionicons
+                          name={isCurrent ? 'checkmark-circle' : 'link-outline'}
+                          size={20}
+                          color={isCurrent ? theme.colors.success : theme.colors.accent}
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </>
+              )}
+            </ScrollView>
 
             <TouchableOpacity
               style={[styles.primaryButton, saving && styles.buttonDisabled]}
@@ -1544,6 +1810,16 @@ const styles = StyleSheet.create({
     borderRadius: theme.borderRadius.sm,
     overflow: 'hidden',
   },
+  holdBadge: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.white,
+    backgroundColor: theme.colors.danger,
+    paddingHorizontal: theme.spacing.xs + 2,
+    paddingVertical: 1,
+    borderRadius: theme.borderRadius.sm,
+    overflow: 'hidden',
+  },
   userBusinessName: {
     fontSize: theme.fontSize.sm,
     fontWeight: theme.fontWeight.medium,
@@ -1712,6 +1988,50 @@ const styles = StyleSheet.create({
     color: theme.colors.white,
   },
 
+  // Credit terms
+  termsPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  termsOption: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.background,
+  },
+  termsOptionActive: {
+    backgroundColor: theme.colors.info,
+    borderColor: theme.colors.info,
+  },
+  termsOptionText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.textSecondary,
+  },
+  termsOptionTextActive: {
+    color: theme.colors.white,
+  },
+  holdRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  holdLabel: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  holdHint: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+
   // Tenant picker for existing business selection
   tenantPicker: {
     flexDirection: 'row',
@@ -1883,6 +2203,73 @@ const styles = StyleSheet.create({
     fontWeight: theme.fontWeight.semibold,
     fontSize: theme.fontSize.md,
   },
+  // Xero Contact
+  xeroStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  xeroStatusText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text,
+  },
+  xeroSyncButton: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.accent,
+  },
+  xeroSyncButtonText: {
+    color: theme.colors.accent,
+    fontWeight: theme.fontWeight.semibold,
+    fontSize: theme.fontSize.sm,
+  },
+  xeroSearchRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  xeroSearchInput: {
+    flex: 1,
+  },
+  xeroSearchButton: {
+    width: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.accent,
+  },
+  xeroEmptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.sm,
+  },
+  xeroResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  xeroResultCurrent: {
+    backgroundColor: theme.colors.background,
+  },
+  xeroResultName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text,
+  },
+  xeroResultDetail: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.textSecondary,
+  },
+  xeroResultLinked: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.warning,
+    marginTop: 2,
+  },
   tertiaryButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,66 @@
+// Document extraction service - reads uploaded documents through parse-document
+import { supabase, supabaseUrl, supabaseAnonKey } from '../lib/supabase';
+
+export interface ExtractedInvoiceLine {
+  description: string;
+  code?: string;
+  quantity: number;
+  unit?: string;
+  unit_price: number;
+  total?: number;
+}
+
+export interface ExtractedInvoice {
+  invoiceNumber: string;
+  invoiceDate?: string;
+  dueDate?: string;
+  subtotal?: number;
+  tax?: number;
+  total?: number;
+  items: ExtractedInvoiceLine[];
+}
+
+interface ExtractInvoiceResponse {
+  success: boolean;
+  invoice?: ExtractedInvoice;
+  error?: string;
+}
+
+/**
+ * Extract the header and lines of a supplier invoice (PDF or image, base64)
+ */
+export async function extractSupplierInvoice(
+  fileContent: string,
+  mediaType: string,
+  fileName: string
+): Promise<ExtractInvoiceResponse> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/parse-document`, {
+      method: 'POST',
+      headers: {
+        'apikey': supabaseAnonKey,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ fileContent, mediaType, fileName, documentType: 'invoice' }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error || !data.invoice) {
+      const errorMessage = data.error || 'Failed to read the invoice';
+      console.error('Invoice extraction error:', errorMessage);
+      return { success: false, error: errorMessage };
+    }
+
+    return { success: true, invoice: data.invoice };
+  } catch (error) {
+    console.error('Invoice extraction error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to read the invoice' };
+  }
+}
@@ -151,6 +151,26 @@ export async function notifyNewOrder(
   }
 }
 
+/**
+ * Notify a customer that their order has been delivered
+ */
+export async function notifyOrderDelivered(
+  customerId: string,
+  orderNumber: string,
+  receivedBy: string
+): Promise<void> {
+  try {
+    await sendNotification(
+      [customerId],
+      'Order Delivered',
+      `Order #${orderNumber} was delivered and received by ${receivedBy}`,
+      { type: 'order_delivered', orderNumber }
+    );
+  } catch (error) {
+    console.error('Error notifying customer:', error);
+  }
+}
+
 // Android notification channel setup
 if (Platform.OS === 'android') {
   Notifications.setNotificationChannelAsync('default', {
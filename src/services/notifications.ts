@@ -77,3 +77,23 @@ export async function notifyNewOrder(
     console.error('Error notifying owners:', error);
   }
 }
+
+/**
+ * Notify a customer that their order has been delivered
+ */
+export async function notifyOrderDelivered(
+  customerId: string,
+  orderNumber: string,
+  receivedBy: string
+): Promise<void> {
+  try {
+    await sendNotification(
+      [customerId],
+      'Order Delivered',
+      `Order #${orderNumber} was delivered and received by ${receivedBy}`,
+      { type: 'order_delivered', orderNumber }
+    );
+  } catch (error) {
+    console.error('Error notifying customer:', error);
+  }
+}
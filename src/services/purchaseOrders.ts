@@ -0,0 +1,47 @@
+// Purchase order service - emails purchase orders to suppliers through send-purchase-order
+import { supabase, supabaseUrl, supabaseAnonKey } from '../lib/supabase';
+import { PurchaseOrder } from '../types';
+
+interface SendPurchaseOrderResponse {
+  success: boolean;
+  sentTo?: string;
+  purchaseOrder?: PurchaseOrder;
+  error?: string;
+}
+
+/**
+ * Email a purchase order to the supplier's orders email, with a PDF (base64) if given
+ */
+export async function sendPurchaseOrderEmail(
+  purchaseOrderId: string,
+  pdf?: string | null
+): Promise<SendPurchaseOrderResponse> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/send-purchase-order`, {
+      method: 'POST',
+      headers: {
+        'apikey': supabaseAnonKey,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ purchase_order_id: purchaseOrderId, pdf: pdf || undefined }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      console.error('Send purchase order error:', data.error);
+      return { success: false, error: data.error || 'Failed to send the purchase order' };
+    }
+
+    return { success: true, sentTo: data.sent_to, purchaseOrder: data.purchase_order };
+  } catch (error) {
+    console.error('Send purchase order error:', error);
+    return { success: false, error: 'Failed to send the purchase order' };
+  }
+}
@@ -1,6 +1,7 @@
 // Xero Integration Service
 import { supabase, supabaseUrl, supabaseAnonKey } from '../lib/supabase';
 import * as WebBrowser from 'expo-web-browser';
+import { XeroContact, XeroItem, XeroSyncJob } from '../types';
 
 const SUPABASE_URL = supabaseUrl;
 const SUPABASE_ANON_KEY = supabaseAnonKey;
@@ -247,3 +248,230 @@ export async function getXeroInvoicePDF(xeroInvoiceId: string): Promise<XeroPDFR
     return { success: false, error: 'Failed to fetch invoice PDF' };
   }
 }
+
+/**
+ * Void an invoice in Xero (drafts are deleted). No-op for invoices never exported.
+ */
+export async function voidXeroInvoice(invoiceId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/xero-void-invoice`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ invoice_id: invoiceId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      console.error('Xero void invoice error:', data.error);
+      return { success: false, error: data.error || 'Failed to void invoice in Xero' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Xero void invoice error:', error);
+    return { success: false, error: 'Failed to void invoice in Xero' };
+  }
+}
+
+/**
+ * Push a credit note to Xero, allocated to its (already exported) invoice
+ */
+export async function createXeroCreditNote(
+  creditNoteId: string
+): Promise<{ success: boolean; xero_credit_note_id?: string; warning?: string; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/xero-create-credit-note`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ credit_note_id: creditNoteId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      console.error('Xero create credit note error:', data.error);
+      return { success: false, error: data.error || 'Failed to create credit note in Xero' };
+    }
+
+    return { success: true, xero_credit_note_id: data.xero_credit_note_id, warning: data.warning };
+  } catch (error) {
+    console.error('Xero create credit note error:', error);
+    return { success: false, error: 'Failed to create credit note in Xero' };
+  }
+}
+
+/**
+ * Queue an invoice for export to Xero. The queue is worked every minute by
+ * process-xero-sync-queue, which retries temporary failures.
+ */
+export async function enqueueXeroSync(invoiceId: string): Promise<{ success: boolean; job?: XeroSyncJob; error?: string }> {
+  const { data, error } = await supabase.rpc('enqueue_xero_sync', { p_invoice_id: invoiceId });
+
+  if (error) {
+    console.error('Xero sync enqueue error:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, job: data as XeroSyncJob };
+}
+
+/**
+ * Search Xero for contacts to link a customer to
+ */
+export async function searchXeroContacts(query: string): Promise<{ success: boolean; contacts?: XeroContact[]; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/xero-search-contacts`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      console.error('Xero contact search error:', data.error);
+      return { success: false, error: data.error || 'Failed to search Xero contacts' };
+    }
+
+    return { success: true, contacts: data.contacts || [] };
+  } catch (error) {
+    console.error('Xero contact search error:', error);
+    return { success: false, error: 'Failed to search Xero contacts' };
+  }
+}
+
+/**
+ * Push a customer's details to their Xero contact, creating it if needed. With a
+ * contact ID, links the customer to that existing contact instead.
+ */
+export async function syncXeroContact(
+  userId: string,
+  xeroContactId?: string
+): Promise<{ success: boolean; xero_contact_id?: string; linked_existing?: boolean; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/xero-sync-contact`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ user_id: userId, xero_contact_id: xeroContactId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      console.error('Xero sync contact error:', data.error);
+      return { success: false, error: data.error || 'Failed to sync the contact to Xero' };
+    }
+
+    return { success: true, xero_contact_id: data.xero_contact_id, linked_existing: data.linked_existing };
+  } catch (error) {
+    console.error('Xero sync contact error:', error);
+    return { success: false, error: 'Failed to sync the contact to Xero' };
+  }
+}
+
+/**
+ * The Xero item catalogue, for matching against the app's items
+ */
+export async function fetchXeroItems(): Promise<{ success: boolean; items?: XeroItem[]; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/xero-sync-items`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action: 'list' }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      console.error('Xero fetch items error:', data.error);
+      return { success: false, error: data.error || 'Failed to fetch items from Xero' };
+    }
+
+    return { success: true, items: data.items || [] };
+  } catch (error) {
+    console.error('Xero fetch items error:', error);
+    return { success: false, error: 'Failed to fetch items from Xero' };
+  }
+}
+
+/**
+ * Send item names and sales prices to the matching Xero items (by code)
+ */
+export async function pushXeroItems(
+  items: { code: string; name: string; unit_price: number }[]
+): Promise<{ success: boolean; updated?: number; errors?: string[]; error?: string }> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/xero-sync-items`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action: 'push', items }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      console.error('Xero push items error:', data.error);
+      return { success: false, error: data.error || 'Failed to update items in Xero' };
+    }
+
+    return { success: true, updated: data.updated, errors: data.errors || [] };
+  } catch (error) {
+    console.error('Xero push items error:', error);
+    return { success: false, error: 'Failed to update items in Xero' };
+  }
+}
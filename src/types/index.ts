@@ -17,8 +17,17 @@ export interface User {
   accounts_email?: string;
   delivery_address?: string;
   delivery_instructions?: string;
+  price_group?: string | null; // Group with the signed-in owner's business (customer_suppliers), joined in by the app
+  // Credit control, set by owners of the customer's own business (tenant_id)
+  credit_limit?: number | null; // Null for no limit
+  payment_terms?: PaymentTerms | null; // Null for the tenant default
+  account_hold?: boolean;
+  account_hold_reason?: string | null;
+  account_hold_at?: string | null;
 }
 
+export type PaymentTerms = 'cod' | 'net_7' | 'net_14' | 'twentieth_following' | 'eom_30';
+
 // Tenant access for master users
 export interface TenantAccess {
   id: string;
@@ -37,6 +46,7 @@ export interface CustomerSupplier {
   invited_at: string;
   accepted_at?: string;
   created_at: string;
+  price_group?: string | null; // Selects this business's group price lists
   // Joined data
   tenant?: Tenant;
 }
@@ -68,6 +78,38 @@ export interface TenantSettings {
   timezone: string;
   date_format: string;
   tax_rate: number;
+  match_tolerance_amount?: number; // Invoice matching: dollars either way still counted as matched
+  match_tolerance_percent?: number; // Invoice matching: percent of the expected amount
+  tax_codes?: TaxCode[]; // Xero tax type and account for each rate we charge
+  category_tax?: Record<string, CategoryTaxDefault>; // Keyed by category name
+  credit_control?: CreditControlMode; // Over-limit and overdue customers: flag (default) or block
+  payment_terms?: PaymentTerms; // For customers without their own
+  numbering?: Partial<Record<NumberingKind, Partial<NumberingFormat>>>; // Order, invoice, credit note and purchase order numbers
+}
+
+export type CreditControlMode = 'flag' | 'block';
+
+export type NumberingKind = 'order' | 'invoice' | 'credit_note' | 'purchase_order';
+
+// How next_document_number formats a number, e.g. INV-2026-00042
+export interface NumberingFormat {
+  prefix: string;
+  padding: number; // Zero-pad the counter to this many digits
+  yearly_reset: boolean; // Put the year in the number and start again from 1 each year
+}
+
+// How one of our tax rates is exported to Xero
+export interface TaxCode {
+  rate: number; // GST %
+  xero_tax_type: string; // e.g. OUTPUT, EXEMPTOUTPUT
+  xero_account_code?: string; // Sales account for lines without their own
+  label?: string;
+}
+
+// Defaults for items in a category that don't set their own
+export interface CategoryTaxDefault {
+  tax_rate?: number;
+  xero_account_code?: string;
 }
 
 // Supplier types
@@ -84,11 +126,17 @@ export interface Supplier {
   min_order: number;
   cutoff_time: string;
   delivery_days: string[];
+  closure_dates?: SupplierClosure[]; // Public holidays and shutdowns with no deliveries
   next_delivery?: string;
   status: string;
   created_at?: string;
 }
 
+export interface SupplierClosure {
+  date: string; // YYYY-MM-DD
+  reason?: string;
+}
+
 // Item types
 export interface Item {
   id: string;
@@ -103,9 +151,10 @@ export interface Item {
   purchase_price?: number;
   wholesale_price: number;
   carton_price?: number;
+  carton_price_breaks?: CartonPriceBreak[]; // Multi-carton breaks (price per carton)
   rrp?: number;
   barcode?: string;
-  tax_rate?: number;
+  tax_rate?: number | null; // Null follows the category default, then the tenant rate
   xero_account_code?: string;
   xero_item_code?: string;
   supplier_id: string;
@@ -114,8 +163,132 @@ export interface Item {
   image_path?: string; // Device-uploaded image in Supabase Storage
   is_favourite?: boolean;
   import_batch_id?: string;
+  track_stock?: boolean;
+  stock_on_hand?: number; // Units, not cartons
+  stock_reserved?: number; // On approved orders not yet sent
+  low_stock_threshold?: number | null;
+  low_stock_alerted_at?: string | null;
+  reorder_point?: number | null; // Suggest buying when available plus on order falls to this
+  reorder_quantity?: number | null; // Units to buy at the reorder point
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Stock movement types
+export type StockMovementType = 'reservation' | 'release' | 'dispatch' | 'return' | 'receipt' | 'adjustment';
+
+export type StockAdjustmentReason = 'stocktake' | 'damaged' | 'expired' | 'lost' | 'found' | 'other';
+
+export interface StockMovement {
+  id: string;
+  tenant_id: string;
+  item_id: string;
+  movement_type: StockMovementType;
+  on_hand_change: number;
+  reserved_change: number;
+  on_hand_after: number;
+  reserved_after: number;
+  reason?: StockAdjustmentReason | null;
+  reference?: string | null; // Receipts: supplier's docket or invoice number
+  order_id?: string | null;
+  supplier_id?: string | null;
+  purchase_order_id?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface StockReceiptLine {
+  item_id: string;
+  quantity: number;
+}
+
+// Purchase order types - what we buy from our suppliers
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrder {
+  id: string;
+  tenant_id: string;
+  supplier_id: string;
+  po_number: string;
+  status: PurchaseOrderStatus;
+  expected_date?: string | null; // YYYY-MM-DD
+  notes?: string | null;
+  subtotal: number;
+  tax: number;
+  total: number;
+  sent_at?: string | null;
+  sent_to?: string | null;
+  received_at?: string | null;
+  cancelled_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at?: string;
+  items?: PurchaseOrderItem[];
+  bills?: Invoice[]; // Supplier invoices uploaded against it
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  tenant_id: string;
+  item_id?: string | null;
+  description: string;
+  code?: string | null;
+  quantity: number; // Units, not cartons
+  unit_cost: number; // Ex GST
+  tax_rate: number;
+  total: number;
+  received_quantity: number;
+  sort_order: number;
+}
+
+// A line as it is saved by save_purchase_order
+export interface PurchaseOrderLineInput {
+  item_id: string | null;
+  description: string;
+  code?: string | null;
+  quantity: number;
+  unit_cost: number;
+  tax_rate: number;
+}
+
+export interface PurchaseOrderReceiptLine {
+  purchase_order_item_id: string;
+  quantity: number;
+}
+
+// Price list types
+export type PriceSource = 'wholesale' | 'contract' | 'discount' | 'carton' | 'quantity_break' | 'manual';
+
+export interface PriceList {
+  id: string;
+  tenant_id: string;
+  name: string;
+  customer_id?: string | null; // Customer-specific list
+  price_group?: string | null; // Group list (matches CustomerSupplier.price_group, ignoring case)
+  discount_percent?: number;
+  effective_from?: string | null;
+  effective_to?: string | null;
+  is_active: boolean;
+  notes?: string;
   created_at?: string;
   updated_at?: string;
+  items?: PriceListItem[];
+}
+
+export interface PriceListItem {
+  id?: string;
+  price_list_id?: string;
+  tenant_id?: string;
+  item_id: string;
+  unit_price: number;
+  created_at?: string;
+}
+
+export interface CartonPriceBreak {
+  min_cartons: number;
+  carton_price: number;
 }
 
 // Cart types
@@ -143,9 +316,13 @@ export interface OrderItem {
   unit: string;
   unit_price: number;
   total?: number;
+  tax_rate?: number | null; // GST %; null on lines from before tax codes
+  tax_amount?: number | null;
   received_quantity?: number;
   xero_item_code?: string;
   xero_account_code?: string;
+  price_source?: PriceSource;
+  price_list_id?: string | null;
   created_at?: string;
 }
 
@@ -170,12 +347,148 @@ export interface Order {
   created_by?: string;
   approved_by?: string;
   approved_at?: string;
+  standing_order_id?: string | null;
+  credit_review?: boolean; // Arrived while the customer was on hold
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Standing (recurring) orders
+export interface StandingOrderItem {
+  id?: string;
+  standing_order_id?: string;
+  tenant_id?: string;
+  item_id: string;
+  quantity: number;
+  created_at?: string;
+}
+
+export interface StandingOrder {
+  id: string;
+  tenant_id: string; // The supplier's tenant
+  customer_id: string;
+  supplier_id: string;
+  name: string;
+  delivery_day: string; // mon..sun, one of the supplier's delivery_days
+  interval_weeks: number; // Every 1-4 weeks
+  auto_submit: boolean; // Place automatically before the cutoff, otherwise remind
+  is_active: boolean;
+  next_delivery_date: string;
+  last_generated_for?: string | null;
+  last_reminded_for?: string | null;
+  last_order_id?: string | null;
+  notes?: string | null;
   created_at?: string;
   updated_at?: string;
+  items?: StandingOrderItem[];
+}
+
+// Delivery runs
+export type DeliveryRunStatus = 'planned' | 'out_for_delivery' | 'completed';
+
+export interface DeliveryRunStop {
+  id?: string;
+  run_id?: string;
+  tenant_id?: string;
+  order_id: string;
+  stop_number: number; // Position on the run, from 1
+  created_at?: string;
+}
+
+export interface DeliveryRun {
+  id: string;
+  tenant_id: string;
+  delivery_date: string;
+  name: string;
+  driver_name?: string | null;
+  status: DeliveryRunStatus;
+  notes?: string | null;
+  dispatched_at?: string | null;
+  completed_at?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  stops?: DeliveryRunStop[];
+}
+
+// Proof of delivery
+export interface SignaturePoint {
+  x: number;
+  y: number;
+}
+
+// Pad strokes as stored in the delivery-proofs bucket (coordinates in the pad's size)
+export interface Signature {
+  width: number;
+  height: number;
+  strokes: SignaturePoint[][];
+}
+
+export interface DeliveryProof {
+  id: string;
+  order_id: string;
+  tenant_id: string;
+  received_by: string;
+  photo_path?: string | null; // delivery-proofs bucket
+  signature_path?: string | null; // delivery-proofs bucket, a Signature as JSON
+  notes?: string | null;
+  delivered_at: string;
+  captured_by?: string | null;
+  created_at?: string;
+  photo_url?: string | null; // Signed URL, resolved when loaded
+  signature?: Signature | null; // Downloaded from signature_path when loaded
+}
+
+// Order audit trail
+export type OrderEventType =
+  | 'created'
+  | 'status_changed'
+  | 'items_updated'
+  | 'updated'
+  | 'approved'
+  | 'invoiced'
+  | 'invoice_voided'
+  | 'credited';
+
+export type OrderEventSource = 'app' | 'email' | 'csv' | 'manual' | 'system';
+
+export interface OrderLineChange {
+  name: string;
+  procurement_item_id?: string;
+  change: 'added' | 'removed' | 'changed';
+  before_quantity?: number;
+  after_quantity?: number;
+  before_unit_price?: number;
+  after_unit_price?: number;
+}
+
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  tenant_id: string;
+  event_type: OrderEventType;
+  from_status?: OrderStatus | null;
+  to_status?: OrderStatus | null;
+  changes?: OrderLineChange[] | Record<string, { before: unknown; after: unknown }> | null;
+  source: OrderEventSource;
+  actor_id?: string | null;
+  notes?: string | null;
+  created_at: string;
+  actor?: { id: string; full_name: string; email: string } | null;
 }
 
 // Invoice types
-export type InvoiceStatus = 'pending' | 'exported' | 'export_failed' | 'paid';
+export type InvoiceStatus =
+  | 'pending'
+  | 'exported'
+  | 'export_failed'
+  | 'partially_paid'
+  | 'paid'
+  | 'cancelled' // Voided in the app
+  | 'voided' // Voided in Xero
+  | 'deleted'; // Deleted in Xero
+
+export type InvoiceDirection = 'outbound' | 'inbound'; // inbound = received from the supplier
 
 export interface Invoice {
   id: string;
@@ -186,17 +499,27 @@ export interface Invoice {
   invoice_number: string;
   invoice_date: string;
   due_date?: string;
+  payment_terms?: PaymentTerms | null; // Terms the invoice was issued on
   subtotal: number;
   tax: number;
   total: number;
   status: InvoiceStatus;
+  direction?: InvoiceDirection;
   match_status: 'matched' | 'matched_with_variance' | 'unmatched';
-  variance_amount?: number;
-  file_url?: string;
+  variance_amount?: number; // Invoiced minus expected (delivered at order prices), net of credits
+  matched_at?: string;
+  file_url?: string; // Inbound: path in the supplier-invoices bucket
+  purchase_order_id?: string | null; // Inbound: the purchase order this bill is for
   xero_invoice_id?: string;
   exported_at?: string;
   pdf_storage_path?: string;
   export_error?: string;
+  voided_at?: string;
+  void_reason?: string;
+  amount_paid?: number; // Payments received in Xero
+  amount_due?: number | null; // Still owing in Xero, after payments and credits
+  last_payment_date?: string | null;
+  xero_updated_at?: string | null;
   shared_with_customer_at?: string;
   is_archived?: boolean;
   notes?: string;
@@ -205,6 +528,8 @@ export interface Invoice {
   supplier?: { id: string; name: string };
   order?: { id: string };
   items?: InvoiceItem[];
+  credit_notes?: CreditNote[];
+  sync_jobs?: XeroSyncJob[];
 }
 
 export interface InvoiceItem {
@@ -213,11 +538,169 @@ export interface InvoiceItem {
   tenant_id: string;
   procurement_item_id?: string;
   order_item_id?: string;
+  purchase_order_item_id?: string | null;
   description: string;
   quantity: number;
+  unit?: string;
   unit_price: number;
   total: number;
+  tax_rate?: number | null;
+  tax_amount?: number | null;
+  created_at?: string;
+}
+
+// Credit notes
+export type CreditReasonCode = 'short_delivery' | 'damaged' | 'wrong_item' | 'pricing_error' | 'returned' | 'other';
+
+export type XeroSyncJobStatus = 'queued' | 'processing' | 'succeeded' | 'failed';
+
+// An invoice waiting to be exported to Xero (worked by process-xero-sync-queue)
+export interface XeroSyncJob {
+  id: string;
+  tenant_id: string;
+  invoice_id: string;
+  order_id?: string | null;
+  requested_by?: string | null;
+  status: XeroSyncJobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at?: string | null;
+  last_error?: string | null;
+  idempotency_key: string;
+  completed_at?: string | null;
   created_at?: string;
+  updated_at?: string;
+}
+
+// A contact found in Xero (from xero-search-contacts)
+export interface XeroContact {
+  id: string;
+  name: string;
+  email?: string | null;
+  account_number?: string | null;
+  linked_customer_id?: string | null; // Already linked to one of our customers
+  linked_customer_name?: string | null;
+}
+
+// An item in the Xero catalogue (from xero-sync-items)
+export interface XeroItem {
+  item_id: string;
+  code: string;
+  name: string;
+  description?: string | null;
+  unit_price: number | null; // Sales price, ex GST
+  account_code?: string | null; // Sales account
+  is_sold: boolean;
+  updated_at?: string | null;
+}
+
+export type CreditNoteStatus = 'pending' | 'exported' | 'export_failed';
+
+export interface CreditNoteItem {
+  id: string;
+  credit_note_id: string;
+  tenant_id: string;
+  invoice_item_id?: string | null;
+  description: string;
+  quantity: number;
+  unit?: string | null;
+  unit_price: number;
+  total: number;
+  tax_rate?: number | null; // GST % of the invoice line it reverses
+  created_at?: string;
+}
+
+export interface CreditNote {
+  id: string;
+  tenant_id: string;
+  invoice_id: string;
+  order_id?: string | null;
+  customer_id?: string | null;
+  credit_note_number: string;
+  credit_date: string;
+  reason_code: CreditReasonCode;
+  notes?: string | null;
+  subtotal: number;
+  tax: number;
+  total: number;
+  status: CreditNoteStatus;
+  xero_credit_note_id?: string | null;
+  exported_at?: string | null;
+  export_error?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+  items?: CreditNoteItem[];
+}
+
+// Statement types
+export type StatementEntryType = 'invoice' | 'credit' | 'payment';
+
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  reference: string;
+  invoice_id: string;
+  amount: number; // Credits and payments are negative
+  balance: number; // Running balance after this entry
+}
+
+// What is owing by invoice age: under 30 days, 30-59, 60-89 and 90 or more
+export interface AgingBuckets {
+  current: number;
+  days_30: number;
+  days_60: number;
+  days_90_plus: number;
+}
+
+export interface OutstandingInvoice {
+  invoice_id: string;
+  invoice_number: string;
+  invoice_date: string;
+  due_date?: string | null;
+  total: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  tenant_id: string;
+  customer_id: string;
+  period_start: string;
+  period_end: string;
+  opening_balance: number;
+  invoiced: number;
+  credited: number;
+  paid: number;
+  closing_balance: number;
+  entries: StatementEntry[];
+  aging: AgingBuckets;
+  outstanding: OutstandingInvoice[];
+}
+
+export interface AgedReceivable {
+  customer_id: string;
+  customer_name: string;
+  accounts_email?: string | null;
+  current_amount: number;
+  days_30: number;
+  days_60: number;
+  days_90_plus: number;
+  total: number;
+  invoice_count: number;
+}
+
+// Credit position from get_customer_credit
+export interface CustomerCredit {
+  customer_id: string;
+  credit_limit: number | null;
+  account_hold: boolean;
+  account_hold_reason: string | null;
+  outstanding: number; // Owing on issued invoices
+  open_orders: number; // Placed but not yet invoiced
+  overdue_amount: number;
+  overdue_count: number;
+  oldest_due_date: string | null;
 }
 
 // Constants
@@ -0,0 +1,53 @@
+// Credit control
+// Whether a customer's order should go through, be flagged for the owner, or be stopped.
+// A manual hold always stops it; being over the credit limit or having overdue invoices
+// flags or blocks it depending on the tenant's credit_control setting. The figures come
+// from get_customer_credit (supabase/migrations/20260216000017_credit_control.sql), whose
+// check_order_credit trigger has the final say on customers' own orders.
+import { CreditControlMode, CustomerCredit, TenantSettings } from '../types';
+import { formatMoney, formatStatementDate } from './statements';
+
+export type CreditStatus = 'ok' | 'flag' | 'block';
+
+export interface CreditCheck {
+  status: CreditStatus;
+  reasons: string[];
+}
+
+export function getCreditControlMode(settings?: Partial<TenantSettings> | null): CreditControlMode {
+  return settings?.credit_control === 'block' ? 'block' : 'flag';
+}
+
+/**
+ * Check a customer's credit. `newOrderTotal` is anything not yet in open_orders: the
+ * cart being placed, or 0 for an order already waiting for approval.
+ */
+export function getCreditCheck(
+  credit: CustomerCredit | null | undefined,
+  newOrderTotal: number,
+  mode: CreditControlMode = 'flag'
+): CreditCheck {
+  if (!credit) return { status: 'ok', reasons: [] };
+
+  const reasons: string[] = [];
+  if (credit.account_hold) {
+    reasons.push(credit.account_hold_reason ? `Account on hold: ${credit.account_hold_reason}` : 'Account on hold');
+  }
+
+  if (credit.overdue_count > 0) {
+    const invoices = `${credit.overdue_count} overdue ${credit.overdue_count === 1 ? 'invoice' : 'invoices'}`;
+    const since = credit.oldest_due_date ? `, due since ${formatStatementDate(credit.oldest_due_date)}` : '';
+    reasons.push(`${invoices} totalling ${formatMoney(credit.overdue_amount)}${since}`);
+  }
+
+  if (credit.credit_limit !== null && credit.credit_limit !== undefined) {
+    const exposure = Number(credit.outstanding) + Number(credit.open_orders) + newOrderTotal;
+    if (exposure > Number(credit.credit_limit) + 0.005) {
+      reasons.push(`${formatMoney(exposure)} owing and on order is over the ${formatMoney(credit.credit_limit)} credit limit`);
+    }
+  }
+
+  if (credit.account_hold) return { status: 'block', reasons };
+  if (reasons.length === 0) return { status: 'ok', reasons };
+  return { status: mode === 'block' ? 'block' : 'flag', reasons };
+}
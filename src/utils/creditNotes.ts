@@ -0,0 +1,65 @@
+// Credit notes
+// Reason codes and the quantities still open to credit on an invoice. The limits mirror
+// create_credit_note (supabase/migrations/20260216000009_credit_notes.sql), which has
+// the final say.
+import { CreditReasonCode, Invoice, InvoiceItem, Order } from '../types';
+
+export const CREDIT_REASONS: { value: CreditReasonCode; label: string }[] = [
+  { value: 'short_delivery', label: 'Short delivery' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'wrong_item', label: 'Wrong item' },
+  { value: 'pricing_error', label: 'Pricing error' },
+  { value: 'returned', label: 'Returned' },
+  { value: 'other', label: 'Other' },
+];
+
+export interface CreditLine {
+  invoiceItemId: string;
+  quantity: number;
+}
+
+export function getCreditReasonLabel(reason: CreditReasonCode): string {
+  return CREDIT_REASONS.find((r) => r.value === reason)?.label || reason;
+}
+
+/**
+ * Quantity of an invoice line already credited by earlier credit notes
+ */
+export function getCreditedQuantity(invoice: Invoice, invoiceItemId: string): number {
+  return (invoice.credit_notes || [])
+    .flatMap((note) => note.items || [])
+    .filter((line) => line.invoice_item_id === invoiceItemId)
+    .reduce((sum, line) => sum + Number(line.quantity), 0);
+}
+
+/**
+ * Quantity of an invoice line that can still be credited
+ */
+export function getCreditableQuantity(invoice: Invoice, item: InvoiceItem): number {
+  return Math.max(0, Number(item.quantity) - getCreditedQuantity(invoice, item.id));
+}
+
+/**
+ * Total credited against an invoice so far
+ */
+export function getCreditedTotal(invoice: Invoice): number {
+  return (invoice.credit_notes || []).reduce((sum, note) => sum + Number(note.total), 0);
+}
+
+/**
+ * Lines to credit for what was ordered but not received (received_quantity below quantity)
+ */
+export function getShortDeliveryLines(invoice: Invoice, order: Order): CreditLine[] {
+  const lines: CreditLine[] = [];
+  for (const item of invoice.items || []) {
+    const orderLine = (order.items || []).find((line) => line.id && line.id === item.order_item_id);
+    if (!orderLine || orderLine.received_quantity == null) continue;
+
+    const shortfall = Number(orderLine.quantity) - Number(orderLine.received_quantity);
+    const quantity = Math.min(shortfall, getCreditableQuantity(invoice, item));
+    if (quantity > 0) {
+      lines.push({ invoiceItemId: item.id, quantity });
+    }
+  }
+  return lines;
+}
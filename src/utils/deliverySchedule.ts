@@ -0,0 +1,249 @@
+// Delivery day and cutoff helpers
+// Dates are ISO strings (YYYY-MM-DD) in the supplier tenant's timezone. An order for a
+// delivery date must be placed by the supplier's cutoff_time on the day before, on one
+// of the supplier's delivery_days and not on one of its closure_dates.
+// Mirrored by supabase/functions/_shared/deliverySchedule.ts for Edge Functions.
+import { SupplierClosure } from '../types';
+
+export const DEFAULT_TIMEZONE = 'Australia/Sydney';
+
+export const DELIVERY_DAYS = [
+  { key: 'mon', label: 'Monday' },
+  { key: 'tue', label: 'Tuesday' },
+  { key: 'wed', label: 'Wednesday' },
+  { key: 'thu', label: 'Thursday' },
+  { key: 'fri', label: 'Friday' },
+  { key: 'sat', label: 'Saturday' },
+  { key: 'sun', label: 'Sunday' },
+] as const;
+
+export type DeliveryDay = (typeof DELIVERY_DAYS)[number]['key'];
+
+// The supplier fields the delivery date calculator needs
+export interface DeliverySchedule {
+  delivery_days?: string[] | null;
+  cutoff_time?: string | null;
+  closure_dates?: SupplierClosure[] | null;
+}
+
+// How far ahead to look for open delivery dates
+const SEARCH_DAYS = 90;
+
+const DAY_INDEX: Record<DeliveryDay, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  wed: 3,
+  thu: 4,
+  fri: 5,
+  sat: 6,
+};
+
+/**
+ * Normalise a stored delivery day ('Monday', 'mon', 'MON') to its key
+ */
+export function normaliseDeliveryDay(day: string): DeliveryDay | null {
+  const key = day.trim().slice(0, 3).toLowerCase();
+  return key in DAY_INDEX ? (key as DeliveryDay) : null;
+}
+
+/**
+ * A supplier's delivery days as keys, in week order
+ */
+export function getSupplierDeliveryDays(deliveryDays: string[] | null | undefined): DeliveryDay[] {
+  const keys = new Set((deliveryDays || []).map(normaliseDeliveryDay).filter((d): d is DeliveryDay => !!d));
+  return DELIVERY_DAYS.map((d) => d.key).filter((key) => keys.has(key));
+}
+
+export function getDeliveryDayLabel(day: string): string {
+  const key = normaliseDeliveryDay(day);
+  return DELIVERY_DAYS.find((d) => d.key === key)?.label || day;
+}
+
+function parseISODate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  const next = parseISODate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toISODate(next);
+}
+
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  } catch {
+    // Unknown timezone in tenant settings
+    return getZonedParts(date, DEFAULT_TIMEZONE);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+/**
+ * Today's date in a timezone
+ */
+export function getZonedToday(timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): string {
+  const parts = getZonedParts(now, timeZone);
+  return toISODate(new Date(Date.UTC(parts.year, parts.month - 1, parts.day)));
+}
+
+/**
+ * The instant a wall-clock date and time (HH:MM) occurs in a timezone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = Date.UTC(y, m - 1, d, hours || 0, minutes || 0);
+  const parts = getZonedParts(new Date(guess), timeZone);
+  const zonedGuess = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return new Date(guess - (zonedGuess - guess));
+}
+
+/**
+ * Cutoff for a delivery date: the supplier's cutoff time on the day before
+ */
+export function getDeliveryCutoff(
+  deliveryDate: string,
+  cutoffTime: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  return zonedTimeToUtc(addDays(deliveryDate, -1), cutoffTime || '17:00', timeZone);
+}
+
+/**
+ * First date falling on a delivery day, on or after a date
+ */
+export function getNextDateForDay(day: DeliveryDay, onOrAfter: string): string {
+  const start = parseISODate(onOrAfter);
+  const offset = (DAY_INDEX[day] - start.getUTCDay() + 7) % 7;
+  return addDays(onOrAfter, offset);
+}
+
+/**
+ * First delivery on a day whose cutoff has not passed
+ */
+export function getFirstOpenDeliveryDate(
+  day: DeliveryDay,
+  cutoffTime: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string {
+  let date = getNextDateForDay(day, getZonedToday(timeZone, now));
+  while (getDeliveryCutoff(date, cutoffTime, timeZone) <= now) {
+    date = addDays(date, 7);
+  }
+  return date;
+}
+
+/**
+ * Next delivery in a recurring cycle whose cutoff has not passed
+ */
+export function getNextCycleDeliveryDate(
+  current: string,
+  intervalWeeks: number,
+  cutoffTime: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string {
+  const step = Math.max(1, intervalWeeks) * 7;
+  let date = addDays(current, step);
+  while (getDeliveryCutoff(date, cutoffTime, timeZone) <= now) {
+    date = addDays(date, step);
+  }
+  return date;
+}
+
+/**
+ * The closure (public holiday, shutdown) covering a date, if any
+ */
+export function getClosure(schedule: DeliverySchedule, date: string): SupplierClosure | undefined {
+  return (schedule.closure_dates || []).find((c) => c.date === date);
+}
+
+/**
+ * Whether the supplier delivers on a date's weekday. Suppliers without delivery days deliver every day.
+ */
+export function isDeliveryDay(schedule: DeliverySchedule, date: string): boolean {
+  const days = getSupplierDeliveryDays(schedule.delivery_days);
+  if (days.length === 0) return true;
+  const weekday = parseISODate(date).getUTCDay();
+  return days.some((day) => DAY_INDEX[day] === weekday);
+}
+
+/**
+ * Why an order cannot be placed for a delivery date, or null if it can
+ */
+export function getDeliveryDateError(
+  schedule: DeliverySchedule,
+  date: string,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return `${date} is not a valid delivery date.`;
+  }
+  if (!isDeliveryDay(schedule, date)) {
+    const days = getSupplierDeliveryDays(schedule.delivery_days).map(getDeliveryDayLabel);
+    return `Deliveries are only made on ${days.join(', ')}.`;
+  }
+  const closure = getClosure(schedule, date);
+  if (closure) {
+    return `There are no deliveries on ${date}${closure.reason ? ` (${closure.reason})` : ''}.`;
+  }
+  if (getDeliveryCutoff(date, schedule.cutoff_time, timeZone) <= now) {
+    return `The cutoff for delivery on ${date} has passed.`;
+  }
+  return null;
+}
+
+/**
+ * The next open delivery dates: delivery days that are not closed and whose cutoff has not passed
+ */
+export function getAvailableDeliveryDates(
+  schedule: DeliverySchedule,
+  timeZone: string = DEFAULT_TIMEZONE,
+  count = 14,
+  now: Date = new Date()
+): string[] {
+  const dates: string[] = [];
+  const today = getZonedToday(timeZone, now);
+  for (let offset = 0; offset <= SEARCH_DAYS && dates.length < count; offset++) {
+    const date = addDays(today, offset);
+    if (!getDeliveryDateError(schedule, date, timeZone, now)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * The earliest date an order placed now can be delivered
+ */
+export function getEarliestDeliveryDate(
+  schedule: DeliverySchedule,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string | null {
+  return getAvailableDeliveryDates(schedule, timeZone, 1, now)[0] || null;
+}
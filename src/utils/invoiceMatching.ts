@@ -0,0 +1,265 @@
+// Three-way invoice matching
+// Compares each invoice line with the order line it was billed for and the quantity
+// actually delivered (received_quantity from the proof of delivery). The invoice should
+// charge for what was received at the ordered price; credit notes reduce what was
+// invoiced, so a short delivery that has been credited matches again. Supplier bills for
+// purchase orders are checked the same way against what we ordered and received.
+import { Invoice, InvoiceItem, Order, OrderItem, PurchaseOrder, TenantSettings } from '../types';
+import { getCreditedQuantity } from './creditNotes';
+
+export type MatchStatus = Invoice['match_status'];
+
+export type LineMatchIssue = 'quantity' | 'price' | 'not_invoiced' | 'not_ordered';
+
+export interface MatchTolerance {
+  amount: number; // Dollars either way that still count as a match
+  percent: number; // Percent of the expected amount that still counts as a match
+}
+
+export interface LineMatch {
+  key: string;
+  description: string;
+  orderedQuantity: number | null;
+  receivedQuantity: number | null; // null until the delivery is recorded
+  invoicedQuantity: number | null; // Net of credit notes
+  orderedPrice: number | null;
+  invoicedPrice: number | null;
+  expectedAmount: number;
+  invoicedAmount: number;
+  variance: number; // Invoiced minus expected; positive means overcharged
+  issues: LineMatchIssue[];
+  withinTolerance: boolean;
+}
+
+export interface InvoiceMatch {
+  status: MatchStatus;
+  variance: number;
+  lines: LineMatch[];
+}
+
+// The parts of an order or purchase order line a bill is checked against
+export interface ExpectedLine {
+  id?: string;
+  name: string;
+  code?: string | null;
+  procurement_item_id?: string | null;
+  quantity: number;
+  unit_price: number;
+  received_quantity?: number | null;
+}
+
+export const DEFAULT_MATCH_TOLERANCE: MatchTolerance = { amount: 0.05, percent: 0 };
+
+const ISSUE_LABELS: Record<LineMatchIssue, string> = {
+  quantity: 'Quantity differs',
+  price: 'Price differs',
+  not_invoiced: 'Not invoiced',
+  not_ordered: 'Not on the order',
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function getMatchTolerance(settings?: Partial<TenantSettings> | null): MatchTolerance {
+  return {
+    amount: settings?.match_tolerance_amount ?? DEFAULT_MATCH_TOLERANCE.amount,
+    percent: settings?.match_tolerance_percent ?? DEFAULT_MATCH_TOLERANCE.percent,
+  };
+}
+
+export function isWithinTolerance(variance: number, expected: number, tolerance: MatchTolerance): boolean {
+  const allowed = Math.max(tolerance.amount, (Math.abs(expected) * tolerance.percent) / 100);
+  return Math.abs(variance) <= allowed + 0.005;
+}
+
+export function getLineIssueLabel(issue: LineMatchIssue): string {
+  return ISSUE_LABELS[issue];
+}
+
+export function getMatchStatusLabel(status: MatchStatus): string {
+  if (status === 'matched') return 'Matched';
+  if (status === 'matched_with_variance') return 'Matched with variance';
+  return 'Unmatched';
+}
+
+function matchLine(
+  invoice: Invoice,
+  orderLine: ExpectedLine | undefined,
+  invoiceItem: InvoiceItem | undefined,
+  tolerance: MatchTolerance
+): LineMatch {
+  const orderedQuantity = orderLine ? Number(orderLine.quantity) : null;
+  const receivedQuantity = orderLine?.received_quantity != null ? Number(orderLine.received_quantity) : null;
+  const invoicedQuantity = invoiceItem
+    ? Number(invoiceItem.quantity) - getCreditedQuantity(invoice, invoiceItem.id)
+    : null;
+  const orderedPrice = orderLine ? Number(orderLine.unit_price) : null;
+  const invoicedPrice = invoiceItem ? Number(invoiceItem.unit_price) : null;
+
+  // Bill for what arrived; before the delivery is recorded, for what was ordered
+  const expectedQuantity = receivedQuantity ?? orderedQuantity ?? 0;
+  const expectedAmount = round2(expectedQuantity * (orderedPrice ?? 0));
+  const invoicedAmount = round2((invoicedQuantity ?? 0) * (invoicedPrice ?? 0));
+  const variance = round2(invoicedAmount - expectedAmount);
+
+  const issues: LineMatchIssue[] = [];
+  if (!invoiceItem) issues.push('not_invoiced');
+  if (!orderLine) issues.push('not_ordered');
+  if (orderLine && invoiceItem) {
+    if (Math.abs((invoicedQuantity ?? 0) - expectedQuantity) > 0.001) issues.push('quantity');
+    if (Math.abs((invoicedPrice ?? 0) - (orderedPrice ?? 0)) > 0.001) issues.push('price');
+  }
+
+  return {
+    key: orderLine?.id || invoiceItem?.id || '',
+    description: invoiceItem?.description || orderLine?.name || '',
+    orderedQuantity,
+    receivedQuantity,
+    invoicedQuantity,
+    orderedPrice,
+    invoicedPrice,
+    expectedAmount,
+    invoicedAmount,
+    variance,
+    issues,
+    withinTolerance: issues.length === 0 || isWithinTolerance(variance, expectedAmount, tolerance),
+  };
+}
+
+/**
+ * Order line an extracted supplier invoice line is for: same product code, then the
+ * same name, then one name containing the other. Lines already taken are skipped.
+ */
+export function findOrderLine(
+  order: Order,
+  line: { description: string; code?: string },
+  taken: Set<string> = new Set()
+): OrderItem | undefined {
+  return findExpectedLine(order.items || [], line, taken);
+}
+
+function findExpectedLine<T extends ExpectedLine>(
+  expectedLines: T[],
+  line: { description: string; code?: string },
+  taken: Set<string>
+): T | undefined {
+  const candidates = expectedLines.filter((item) => item.id && !taken.has(item.id));
+  const code = line.code?.trim().toLowerCase();
+  const name = normalizeName(line.description);
+  if (!name && !code) return undefined;
+
+  return (
+    (code ? candidates.find((item) => item.code?.trim().toLowerCase() === code) : undefined) ||
+    candidates.find((item) => normalizeName(item.name) === name) ||
+    candidates.find((item) => {
+      const itemName = normalizeName(item.name);
+      return !!itemName && !!name && (name.includes(itemName) || itemName.includes(name));
+    })
+  );
+}
+
+/**
+ * Match an invoice against its order and delivery.
+ * - matched: every line agrees within tolerance
+ * - matched_with_variance: lines pair up but some quantities or prices differ
+ * - unmatched: no order, or lines that are only on the invoice or only on the order
+ */
+export function matchInvoiceToOrder(
+  invoice: Invoice,
+  order: Order | null | undefined,
+  tolerance: MatchTolerance
+): InvoiceMatch {
+  const invoiceItems = invoice.items || [];
+  if (!order) {
+    const invoiced = round2(invoiceItems.reduce((sum, item) => sum + Number(item.total), 0));
+    return { status: 'unmatched', variance: invoiced, lines: [] };
+  }
+
+  return matchLines(invoice, order.items || [], (item) => item.order_item_id, tolerance);
+}
+
+/**
+ * Order line of a purchase order an extracted supplier bill line is for, matched like findOrderLine
+ */
+export function findPurchaseOrderLine(
+  purchaseOrder: PurchaseOrder,
+  line: { description: string; code?: string },
+  taken: Set<string> = new Set()
+): ExpectedLine | undefined {
+  return findExpectedLine(getPurchaseOrderLines(purchaseOrder), line, taken);
+}
+
+// Purchase order lines as bills see them: nothing counts as received until a delivery is booked in
+function getPurchaseOrderLines(purchaseOrder: PurchaseOrder): ExpectedLine[] {
+  const received = purchaseOrder.status === 'partially_received' || purchaseOrder.status === 'received';
+  return (purchaseOrder.items || []).map((line) => ({
+    id: line.id,
+    name: line.description,
+    code: line.code,
+    procurement_item_id: line.item_id,
+    quantity: Number(line.quantity),
+    unit_price: Number(line.unit_cost),
+    received_quantity: received ? Number(line.received_quantity) : null,
+  }));
+}
+
+/**
+ * Match a supplier bill against its purchase order and what was received on it
+ */
+export function matchInvoiceToPurchaseOrder(
+  invoice: Invoice,
+  purchaseOrder: PurchaseOrder | null | undefined,
+  tolerance: MatchTolerance
+): InvoiceMatch {
+  if (!purchaseOrder) return matchInvoiceToOrder(invoice, null, tolerance);
+  return matchLines(invoice, getPurchaseOrderLines(purchaseOrder), (item) => item.purchase_order_item_id, tolerance);
+}
+
+function matchLines(
+  invoice: Invoice,
+  expectedLines: ExpectedLine[],
+  getLinkedLineId: (item: InvoiceItem) => string | null | undefined,
+  tolerance: MatchTolerance
+): InvoiceMatch {
+  const invoiceItems = invoice.items || [];
+  const matchedInvoiceItems = new Set<string>();
+  const lines: LineMatch[] = [];
+
+  for (const orderLine of expectedLines) {
+    // Invoice lines point at their order line; older invoices are paired by item and name
+    const invoiceItem =
+      invoiceItems.find((item) => orderLine.id && getLinkedLineId(item) === orderLine.id) ||
+      invoiceItems.find(
+        (item) =>
+          !matchedInvoiceItems.has(item.id) &&
+          !getLinkedLineId(item) &&
+          ((orderLine.procurement_item_id && item.procurement_item_id === orderLine.procurement_item_id) ||
+            item.description === orderLine.name)
+      );
+    if (invoiceItem) matchedInvoiceItems.add(invoiceItem.id);
+    lines.push(matchLine(invoice, orderLine, invoiceItem, tolerance));
+  }
+
+  for (const invoiceItem of invoiceItems) {
+    if (!matchedInvoiceItems.has(invoiceItem.id)) {
+      lines.push(matchLine(invoice, undefined, invoiceItem, tolerance));
+    }
+  }
+
+  const variance = round2(lines.reduce((sum, line) => sum + line.variance, 0));
+  const expected = lines.reduce((sum, line) => sum + line.expectedAmount, 0);
+
+  let status: MatchStatus = 'matched';
+  if (lines.some((line) => line.issues.includes('not_invoiced') || line.issues.includes('not_ordered'))) {
+    status = 'unmatched';
+  } else if (lines.some((line) => !line.withinTolerance) || !isWithinTolerance(variance, expected, tolerance)) {
+    status = 'matched_with_variance';
+  }
+
+  return { status, variance, lines };
+}
@@ -0,0 +1,41 @@
+// Document numbering
+// Orders, invoices, credit notes and purchase orders are numbered by the database from
+// per-tenant counters (next_document_number in supabase/migrations/20260216000019_document_numbering.sql),
+// formatted by the tenant's settings.numbering. This mirrors the formatting for previews.
+import { NumberingFormat, NumberingKind, TenantSettings } from '../types';
+
+export const NUMBERING_KINDS: { value: NumberingKind; label: string }[] = [
+  { value: 'order', label: 'Orders' },
+  { value: 'invoice', label: 'Invoices' },
+  { value: 'credit_note', label: 'Credit notes' },
+  { value: 'purchase_order', label: 'Purchase orders' },
+];
+
+export const DEFAULT_NUMBERING: Record<NumberingKind, NumberingFormat> = {
+  order: { prefix: 'ORD-', padding: 5, yearly_reset: false },
+  invoice: { prefix: 'INV-', padding: 5, yearly_reset: false },
+  credit_note: { prefix: 'CN-', padding: 5, yearly_reset: false },
+  purchase_order: { prefix: 'PO-', padding: 5, yearly_reset: false },
+};
+
+export const MAX_NUMBER_PADDING = 10;
+
+export function getNumberingFormat(
+  kind: NumberingKind,
+  settings?: Partial<TenantSettings> | null
+): NumberingFormat {
+  const format = settings?.numbering?.[kind];
+  return {
+    prefix: format?.prefix ?? DEFAULT_NUMBERING[kind].prefix,
+    padding: Math.min(Math.max(format?.padding ?? DEFAULT_NUMBERING[kind].padding, 1), MAX_NUMBER_PADDING),
+    yearly_reset: format?.yearly_reset ?? DEFAULT_NUMBERING[kind].yearly_reset,
+  };
+}
+
+/**
+ * The number `value` would be given, e.g. formatDocumentNumber(format, 42, 2026) → INV-2026-00042
+ */
+export function formatDocumentNumber(format: NumberingFormat, value: number, year: number): string {
+  const yearPart = format.yearly_reset ? `${year}-` : '';
+  return `${format.prefix}${yearPart}${String(value).padStart(format.padding, '0')}`;
+}
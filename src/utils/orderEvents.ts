@@ -0,0 +1,158 @@
+// Order audit trail helpers
+// Diffs order lines and fields for order_events, and turns events into timeline text.
+import { Order, OrderItem, OrderEvent, OrderLineChange, OrderStatus } from '../types';
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Pending Approval',
+  approved: 'Approved',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+const SOURCE_LABELS: Record<OrderEvent['source'], string> = {
+  app: 'App',
+  email: 'Email import',
+  csv: 'CSV import',
+  manual: 'Manual order',
+  system: 'System',
+};
+
+/**
+ * Key an order line by item and unit, so carton and loose lines of one item are separate
+ */
+function lineKey(line: OrderItem): string {
+  return `${line.procurement_item_id || line.name}|${line.unit || 'each'}`;
+}
+
+/**
+ * Compare order lines before and after an edit
+ */
+export function diffOrderItems(before: OrderItem[], after: OrderItem[]): OrderLineChange[] {
+  const changes: OrderLineChange[] = [];
+  const beforeByKey = new Map(before.map((line) => [lineKey(line), line]));
+  const afterKeys = new Set(after.map(lineKey));
+
+  for (const line of after) {
+    const previous = beforeByKey.get(lineKey(line));
+    if (!previous) {
+      changes.push({
+        name: line.name,
+        procurement_item_id: line.procurement_item_id,
+        change: 'added',
+        after_quantity: line.quantity,
+        after_unit_price: line.unit_price,
+      });
+    } else if (previous.quantity !== line.quantity || previous.unit_price !== line.unit_price) {
+      changes.push({
+        name: line.name,
+        procurement_item_id: line.procurement_item_id,
+        change: 'changed',
+        before_quantity: previous.quantity,
+        after_quantity: line.quantity,
+        before_unit_price: previous.unit_price,
+        after_unit_price: line.unit_price,
+      });
+    }
+  }
+
+  for (const line of before) {
+    if (!afterKeys.has(lineKey(line))) {
+      changes.push({
+        name: line.name,
+        procurement_item_id: line.procurement_item_id,
+        change: 'removed',
+        before_quantity: line.quantity,
+        before_unit_price: line.unit_price,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare order header fields before and after an update, ignoring lines
+ */
+export function diffOrderFields(
+  before: Partial<Order>,
+  updates: Partial<Order>
+): Record<string, { before: unknown; after: unknown }> {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  for (const [field, value] of Object.entries(updates)) {
+    if (field === 'items' || field === 'updated_at') continue;
+    const previous = (before as Record<string, unknown>)[field];
+    if ((previous ?? null) !== (value ?? null)) {
+      changes[field] = { before: previous ?? null, after: value ?? null };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Label for an event source
+ */
+export function getOrderEventSourceLabel(source: OrderEvent['source']): string {
+  return SOURCE_LABELS[source] || source;
+}
+
+/**
+ * One-line title for an order event
+ */
+export function getOrderEventTitle(event: OrderEvent): string {
+  switch (event.event_type) {
+    case 'created':
+      return 'Order created';
+    case 'status_changed':
+      return event.from_status && event.to_status
+        ? `${STATUS_LABELS[event.from_status]} → ${STATUS_LABELS[event.to_status]}`
+        : `Status set to ${event.to_status ? STATUS_LABELS[event.to_status] : 'unknown'}`;
+    case 'items_updated':
+      return 'Items edited';
+    case 'updated':
+      return 'Order details edited';
+    case 'approved':
+      return 'Order approved';
+    case 'invoiced':
+      return 'Invoice generated';
+    case 'invoice_voided':
+      return 'Invoice voided';
+    case 'credited':
+      return 'Credit note issued';
+    default:
+      return event.event_type;
+  }
+}
+
+/**
+ * Detail lines for an order event, e.g. "Milk 2L: qty 4 → 6, $3.20 → $3.00"
+ */
+export function getOrderEventDetails(event: OrderEvent): string[] {
+  if (!event.changes) return [];
+
+  if (Array.isArray(event.changes)) {
+    return event.changes.map((change) => {
+      if (change.change === 'added') {
+        return `Added ${change.name}: qty ${change.after_quantity} @ $${Number(change.after_unit_price || 0).toFixed(2)}`;
+      }
+      if (change.change === 'removed') {
+        return `Removed ${change.name} (qty ${change.before_quantity})`;
+      }
+      const parts: string[] = [];
+      if (change.before_quantity !== change.after_quantity) {
+        parts.push(`qty ${change.before_quantity} → ${change.after_quantity}`);
+      }
+      if (change.before_unit_price !== change.after_unit_price) {
+        parts.push(
+          `$${Number(change.before_unit_price || 0).toFixed(2)} → $${Number(change.after_unit_price || 0).toFixed(2)}`
+        );
+      }
+      return `${change.name}: ${parts.join(', ')}`;
+    });
+  }
+
+  return Object.entries(event.changes).map(
+    ([field, { before, after }]) => `${field.replace(/_/g, ' ')}: ${before ?? '—'} → ${after ?? '—'}`
+  );
+}
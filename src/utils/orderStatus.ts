@@ -0,0 +1,92 @@
+// Order state machine
+// Mirrors order_status_transitions and the enforce_order_rules trigger
+// (supabase/migrations/20260216000003_order_state_machine.sql) so the app can
+// explain an illegal move before the database rejects it.
+import { Invoice, Order, OrderStatus } from '../types';
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  draft: ['pending_approval', 'approved', 'cancelled'],
+  pending_approval: ['approved', 'cancelled'],
+  approved: ['sent', 'delivered', 'cancelled'],
+  sent: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: [],
+};
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Pending Approval',
+  approved: 'Approved',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+// Statuses an order may be deleted from (and only while it has no live invoice)
+const DELETABLE_STATUSES: OrderStatus[] = ['draft', 'pending_approval', 'cancelled'];
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Whether an invoice was voided, in the app or in Xero, or deleted in Xero
+ */
+export function isVoidInvoice(invoice: Pick<Invoice, 'status'>): boolean {
+  return invoice.status === 'cancelled' || invoice.status === 'voided' || invoice.status === 'deleted';
+}
+
+/**
+ * Find the invoice that locks an order (any invoice we issued that is not voided)
+ */
+export function getLiveInvoice(orderId: string, invoices: Invoice[]): Invoice | undefined {
+  return invoices.find((inv) => inv.order_id === orderId && !isVoidInvoice(inv) && inv.direction !== 'inbound');
+}
+
+/**
+ * Latest invoice uploaded from the supplier for an order
+ */
+export function getSupplierInvoice(orderId: string, invoices: Invoice[]): Invoice | undefined {
+  return invoices.find((inv) => inv.order_id === orderId && !isVoidInvoice(inv) && inv.direction === 'inbound');
+}
+
+/**
+ * Reason a status change is not allowed, or null when it is
+ */
+export function getTransitionError(order: Order, to: OrderStatus, invoices: Invoice[]): string | null {
+  if (order.status === to) return null;
+  if (!canTransitionOrder(order.status, to)) {
+    return `Cannot move an order from ${STATUS_LABELS[order.status]} to ${STATUS_LABELS[to]}.`;
+  }
+  if (to === 'cancelled' && getLiveInvoice(order.id, invoices)) {
+    return 'Cannot cancel an invoiced order. Void the invoice first.';
+  }
+  return null;
+}
+
+/**
+ * Reason an order's lines and amounts cannot be edited, or null when they can
+ */
+export function getEditError(order: Order, invoices: Invoice[]): string | null {
+  const invoice = getLiveInvoice(order.id, invoices);
+  if (invoice) {
+    return `Order is on invoice ${invoice.invoice_number}. Void the invoice before editing.`;
+  }
+  return null;
+}
+
+/**
+ * Reason an order cannot be deleted, or null when it can
+ */
+export function getDeleteError(order: Order, invoices: Invoice[]): string | null {
+  if (!DELETABLE_STATUSES.includes(order.status)) {
+    return `Cannot delete an order that is ${STATUS_LABELS[order.status]}. Cancel it first.`;
+  }
+  if (getLiveInvoice(order.id, invoices)) {
+    return 'Cannot delete an invoiced order. Void the invoice first.';
+  }
+  return null;
+}
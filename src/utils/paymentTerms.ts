@@ -0,0 +1,59 @@
+// Payment terms
+// When an invoice falls due. Each customer can have their own terms with their own
+// business, otherwise the tenant's default (settings.payment_terms) applies, then 7 days.
+// The same rules run in
+// payment_due_date (supabase/migrations/20260216000018_payment_terms.sql) and
+// supabase/functions/_shared/paymentTerms.ts for the Xero export.
+import { PaymentTerms, Tenant, User } from '../types';
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = 'net_7';
+
+export const PAYMENT_TERMS_OPTIONS: { value: PaymentTerms; label: string }[] = [
+  { value: 'cod', label: 'COD' },
+  { value: 'net_7', label: '7 days' },
+  { value: 'net_14', label: '14 days' },
+  { value: 'twentieth_following', label: '20th of following month' },
+  { value: 'eom_30', label: 'EOM + 30' },
+];
+
+export function getPaymentTermsLabel(terms?: PaymentTerms | null): string {
+  return PAYMENT_TERMS_OPTIONS.find((option) => option.value === terms)?.label || 'Unknown';
+}
+
+/**
+ * Terms for a customer's invoices from a tenant. The customer's own terms are set by their
+ * own business and don't carry over to other businesses they order from.
+ */
+export function getPaymentTerms(
+  customer: Pick<User, 'payment_terms' | 'tenant_id'> | null | undefined,
+  tenant: Pick<Tenant, 'id' | 'settings'> | null | undefined
+): PaymentTerms {
+  const customerTerms = customer && customer.tenant_id === tenant?.id ? customer.payment_terms : null;
+  return customerTerms || tenant?.settings?.payment_terms || DEFAULT_PAYMENT_TERMS;
+}
+
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Due date (YYYY-MM-DD) of an invoice dated `invoiceDate` (YYYY-MM-DD)
+ */
+export function getDueDate(invoiceDate: string, terms: PaymentTerms): string {
+  const [y, m, d] = invoiceDate.split('-').map(Number);
+  switch (terms) {
+    case 'cod':
+      return invoiceDate;
+    case 'net_14':
+      return toDateString(new Date(y, m - 1, d + 14));
+    case 'twentieth_following':
+      return toDateString(new Date(y, m, 20));
+    case 'eom_30':
+      return toDateString(new Date(y, m, 30)); // Day 0 of next month is this month's last day
+    case 'net_7':
+    default:
+      return toDateString(new Date(y, m - 1, d + 7));
+  }
+}
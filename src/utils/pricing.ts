@@ -0,0 +1,296 @@
+// Customer pricing utilities
+// Every order line (shop, cart, manual orders, CSV import) is priced through resolveItemPrice,
+// and priceLine applies carton and multi-carton breaks on top of it.
+// supabase/functions/_shared/pricing.ts mirrors these rules for the email import.
+import { Item, PriceList, PriceSource, CartonPriceBreak } from '../types';
+
+export interface PricingCustomer {
+  id: string;
+  price_group?: string | null; // Group with the business whose items are priced
+}
+
+export interface ResolvedPrice {
+  unit_price: number;
+  price_source: PriceSource;
+  price_list_id: string | null;
+}
+
+export interface PricedLine extends ResolvedPrice {
+  quantity: number;
+  unit: string;
+  total: number;
+}
+
+export interface TierHint {
+  quantity_needed: number; // Units to add to reach the next tier
+  label: string;
+}
+
+export interface LinePrice {
+  lines: PricedLine[]; // Full cartons first, then loose units
+  total: number;
+  hint: TierHint | null;
+}
+
+/**
+ * Today's date as YYYY-MM-DD in local time
+ */
+function todayISO(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Round a price to cents
+ */
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Check whether a price list is active on the given date (YYYY-MM-DD)
+ */
+export function isPriceListEffective(list: PriceList, date: string = todayISO()): boolean {
+  if (!list.is_active) return false;
+  if (list.effective_from && date < list.effective_from) return false;
+  if (list.effective_to && date > list.effective_to) return false;
+  return true;
+}
+
+/**
+ * Get the price lists that apply to a customer for a tenant, split into
+ * customer-specific lists and group lists. Groups match ignoring case, as RLS does.
+ */
+export function getApplicablePriceLists(
+  priceLists: PriceList[],
+  customer: PricingCustomer | null | undefined,
+  tenantId: string,
+  date: string = todayISO()
+): { customerLists: PriceList[]; groupLists: PriceList[] } {
+  if (!customer) return { customerLists: [], groupLists: [] };
+
+  const effective = priceLists.filter(
+    (list) => list.tenant_id === tenantId && isPriceListEffective(list, date)
+  );
+
+  return {
+    customerLists: effective.filter((list) => list.customer_id === customer.id),
+    groupLists: effective.filter(
+      (list) =>
+        !list.customer_id &&
+        !!list.price_group &&
+        !!customer.price_group &&
+        list.price_group.toLowerCase() === customer.price_group.toLowerCase()
+    ),
+  };
+}
+
+/**
+ * Best (lowest) price offered for an item by a set of price lists.
+ * Item overrides are contract prices; otherwise the list discount applies to wholesale.
+ */
+function bestPriceFromLists(item: Item, lists: PriceList[]): ResolvedPrice | null {
+  let best: ResolvedPrice | null = null;
+
+  for (const list of lists) {
+    const override = list.items?.find((i) => i.item_id === item.id);
+    let candidate: ResolvedPrice | null = null;
+
+    if (override) {
+      candidate = { unit_price: roundPrice(override.unit_price), price_source: 'contract', price_list_id: list.id };
+    } else if (list.discount_percent && list.discount_percent > 0) {
+      const discounted = (item.wholesale_price || 0) * (1 - list.discount_percent / 100);
+      candidate = { unit_price: roundPrice(discounted), price_source: 'discount', price_list_id: list.id };
+    }
+
+    if (candidate && (!best || candidate.unit_price < best.unit_price)) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Resolve the unit price a customer pays for an item.
+ * Customer-specific lists win over group lists; within each, the lowest price wins.
+ * Falls back to the item's wholesale price.
+ */
+export function resolveItemPrice(
+  item: Item,
+  customer: PricingCustomer | null | undefined,
+  priceLists: PriceList[],
+  date: string = todayISO()
+): ResolvedPrice {
+  const { customerLists, groupLists } = getApplicablePriceLists(priceLists, customer, item.tenant_id, date);
+
+  const resolved = bestPriceFromLists(item, customerLists) || bestPriceFromLists(item, groupLists);
+  if (resolved) return resolved;
+
+  return {
+    unit_price: item.wholesale_price || 0,
+    price_source: 'wholesale',
+    price_list_id: null,
+  };
+}
+
+/**
+ * Unit label used for order lines priced by the carton
+ */
+export function getCartonUnit(item: Item): string {
+  return `carton of ${item.carton_size}`;
+}
+
+/**
+ * Whether an order line was priced by the carton
+ */
+export function isCartonLine(line: { price_source?: PriceSource }): boolean {
+  return line.price_source === 'carton' || line.price_source === 'quantity_break';
+}
+
+/**
+ * Price per carton for a number of full cartons, or null when carton pricing
+ * does not apply. Never more than buying the same units loose at the customer's price.
+ */
+function getCartonPrice(
+  item: Item,
+  cartons: number,
+  looseUnitPrice: number
+): { carton_price: number; price_source: PriceSource } | null {
+  const cartonSize = item.carton_size || 0;
+  if (cartonSize <= 1 || !item.carton_price || item.carton_price <= 0 || cartons < 1) return null;
+
+  let best = { carton_price: item.carton_price, price_source: 'carton' as PriceSource };
+  for (const priceBreak of item.carton_price_breaks || []) {
+    if (cartons >= priceBreak.min_cartons && priceBreak.carton_price < best.carton_price) {
+      best = { carton_price: priceBreak.carton_price, price_source: 'quantity_break' };
+    }
+  }
+
+  if (best.carton_price >= roundPrice(looseUnitPrice * cartonSize)) return null;
+  return best;
+}
+
+/**
+ * Price a quantity of an item for a customer.
+ * Full cartons are charged at the carton (or multi-carton break) price and any
+ * remaining units at the customer's unit price, as separate order lines.
+ */
+export function priceLine(
+  item: Item,
+  quantity: number,
+  customer: PricingCustomer | null | undefined,
+  priceLists: PriceList[],
+  date: string = todayISO()
+): LinePrice {
+  const base = resolveItemPrice(item, customer, priceLists, date);
+  const cartonSize = item.carton_size || 0;
+  const lines: PricedLine[] = [];
+
+  if (quantity <= 0) return { lines, total: 0, hint: null };
+
+  const cartons = cartonSize > 1 ? Math.floor(quantity / cartonSize) : 0;
+  const cartonPrice = getCartonPrice(item, cartons, base.unit_price);
+  let looseQuantity = quantity;
+
+  if (cartonPrice) {
+    looseQuantity = quantity - cartons * cartonSize;
+    lines.push({
+      quantity: cartons,
+      unit: getCartonUnit(item),
+      unit_price: cartonPrice.carton_price,
+      total: roundPrice(cartons * cartonPrice.carton_price),
+      price_source: cartonPrice.price_source,
+      price_list_id: null,
+    });
+  }
+
+  if (looseQuantity > 0) {
+    lines.push({
+      quantity: looseQuantity,
+      unit: item.size || 'each',
+      unit_price: base.unit_price,
+      total: roundPrice(looseQuantity * base.unit_price),
+      price_source: base.price_source,
+      price_list_id: base.price_list_id,
+    });
+  }
+
+  const total = roundPrice(lines.reduce((sum, line) => sum + line.total, 0));
+  return { lines, total, hint: getTierHint(item, quantity, base.unit_price) };
+}
+
+/**
+ * Hint for the next cheaper tier, e.g. "Add 3 more for carton price"
+ */
+function getTierHint(item: Item, quantity: number, looseUnitPrice: number): TierHint | null {
+  const cartonSize = item.carton_size || 0;
+  if (cartonSize <= 1) return null;
+
+  const cartons = Math.floor(quantity / cartonSize);
+  const remainder = quantity % cartonSize;
+
+  // Complete the current carton
+  if (remainder > 0 && getCartonPrice(item, cartons + 1, looseUnitPrice)) {
+    const needed = cartonSize - remainder;
+    return { quantity_needed: needed, label: `Add ${needed} more for carton price` };
+  }
+
+  // Reach the next multi-carton break
+  const currentPrice = getCartonPrice(item, Math.max(cartons, 1), looseUnitPrice);
+  const nextBreak = (item.carton_price_breaks || [])
+    .filter((b) => b.min_cartons > cartons && (!currentPrice || b.carton_price < currentPrice.carton_price))
+    .sort((a, b) => a.min_cartons - b.min_cartons)[0];
+
+  if (nextBreak && getCartonPrice(item, nextBreak.min_cartons, looseUnitPrice)) {
+    const needed = nextBreak.min_cartons * cartonSize - quantity;
+    return {
+      quantity_needed: needed,
+      label: `Add ${needed} more for ${nextBreak.min_cartons}+ carton price`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse multi-carton breaks entered as "5:30.00, 10:28.50" (cartons:price per carton)
+ */
+export function parseCartonPriceBreaks(value: string): CartonPriceBreak[] {
+  return value
+    .split(',')
+    .map((part) => part.split(':').map((v) => v.trim()))
+    .filter((parts) => parts.length === 2)
+    .map(([cartons, price]) => ({ min_cartons: parseInt(cartons, 10), carton_price: parseFloat(price) }))
+    .filter((b) => b.min_cartons > 1 && b.carton_price > 0)
+    .sort((a, b) => a.min_cartons - b.min_cartons);
+}
+
+/**
+ * Format multi-carton breaks for editing
+ */
+export function formatCartonPriceBreaks(breaks?: CartonPriceBreak[]): string {
+  return (breaks || []).map((b) => `${b.min_cartons}:${b.carton_price.toFixed(2)}`).join(', ');
+}
+
+/**
+ * Short label for a price source, for display next to a price
+ */
+export function getPriceSourceLabel(source?: PriceSource): string | null {
+  switch (source) {
+    case 'contract':
+      return 'Contract price';
+    case 'discount':
+      return 'Discounted';
+    case 'carton':
+      return 'Carton price';
+    case 'quantity_break':
+      return 'Multi-carton price';
+    case 'manual':
+      return 'Manual price';
+    default:
+      return null;
+  }
+}
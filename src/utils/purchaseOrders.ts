@@ -0,0 +1,290 @@
+// Purchase orders
+// Suggestions for what to buy from each supplier, and HTML of a purchase order for
+// expo-print. Stock is counted in units: suggestions are rounded up to whole cartons, as
+// suppliers sell them, and priced at each item's purchase_price. Saving, sending and
+// receiving are done by the database and send-purchase-order
+// (supabase/migrations/20260216000021_purchase_orders.sql).
+import {
+  Item,
+  Order,
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderLineInput,
+  PurchaseOrderStatus,
+  Supplier,
+  TenantSettings,
+} from '../types';
+import { isCartonLine } from './pricing';
+import { getItemTaxRate, getLineTax } from './tax';
+import { getAvailableStock, formatStockQuantity } from './stock';
+import { formatMoney, formatStatementDate } from './statements';
+
+export type SuggestionReason = 'reorder' | 'demand';
+
+export interface PurchaseSuggestionLine {
+  item: Item;
+  quantity: number; // Units to buy, in whole cartons
+  reason: SuggestionReason;
+  available: number | null; // Null for items that don't track stock
+  onOrder: number;
+  demand: number; // Units on approved customer orders
+}
+
+export interface PurchaseSuggestion {
+  supplierId: string;
+  lines: PurchaseSuggestionLine[];
+  subtotal: number;
+}
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Part received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+// Purchase orders still waiting on stock. Drafts count, so a suggestion isn't drafted twice.
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+export function isOpenPurchaseOrder(purchaseOrder: Pick<PurchaseOrder, 'status'>): boolean {
+  return OPEN_STATUSES.includes(purchaseOrder.status);
+}
+
+export function getOutstandingQuantity(line: Pick<PurchaseOrderItem, 'quantity' | 'received_quantity'>): number {
+  return Math.max(Number(line.quantity) - Number(line.received_quantity || 0), 0);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Units still to arrive on open purchase orders, by item
+ */
+export function getOnOrderQuantities(purchaseOrders: PurchaseOrder[]): Record<string, number> {
+  const onOrder: Record<string, number> = {};
+  purchaseOrders.filter(isOpenPurchaseOrder).forEach((purchaseOrder) => {
+    (purchaseOrder.items || []).forEach((line) => {
+      if (!line.item_id) return;
+      onOrder[line.item_id] = (onOrder[line.item_id] || 0) + getOutstandingQuantity(line);
+    });
+  });
+  return onOrder;
+}
+
+/**
+ * Units on approved customer orders, by item. Carton lines count carton_size units each,
+ * as order_line_stock_units does.
+ */
+export function getApprovedDemand(orders: Order[], items: Item[]): Record<string, number> {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const demand: Record<string, number> = {};
+  orders
+    .filter((order) => order.status === 'approved')
+    .forEach((order) => {
+      (order.items || []).forEach((line) => {
+        const item = line.procurement_item_id ? itemsById.get(line.procurement_item_id) : undefined;
+        if (!item) return;
+        const cartonSize = item.carton_size && item.carton_size > 1 ? item.carton_size : 1;
+        const units = isCartonLine(line) ? Number(line.quantity) * cartonSize : Number(line.quantity);
+        demand[item.id] = (demand[item.id] || 0) + units;
+      });
+    });
+  return demand;
+}
+
+function roundUpToCartons(units: number, item: Item): number {
+  const cartonSize = item.carton_size && item.carton_size > 1 ? item.carton_size : 1;
+  return Math.ceil(units / cartonSize - 0.0001) * cartonSize;
+}
+
+/**
+ * What to buy, by supplier.
+ * - Tracked items at or below their reorder point, counting stock already on order: the
+ *   reorder quantity, or enough to get back to the reorder point if that is more
+ * - Approved customer orders that stock on hand and on order can't cover. For items that
+ *   don't track stock, everything on approved orders that isn't already on order.
+ */
+export function buildPurchaseSuggestions(
+  items: Item[],
+  orders: Order[],
+  purchaseOrders: PurchaseOrder[]
+): PurchaseSuggestion[] {
+  const onOrderByItem = getOnOrderQuantities(purchaseOrders);
+  const demandByItem = getApprovedDemand(orders, items);
+  const bySupplier = new Map<string, PurchaseSuggestionLine[]>();
+
+  items.forEach((item) => {
+    if (!item.supplier_id || item.status === 'inactive') return;
+
+    const onOrder = onOrderByItem[item.id] || 0;
+    const demand = demandByItem[item.id] || 0;
+    const available = getAvailableStock(item);
+    let needed = 0;
+    let reason: SuggestionReason = 'demand';
+
+    if (available === null) {
+      needed = demand - onOrder;
+    } else {
+      const projected = available + onOrder;
+      needed = -projected;
+      const reorderPoint = item.reorder_point;
+      if (reorderPoint !== null && reorderPoint !== undefined && projected <= Number(reorderPoint)) {
+        const reorderNeed = Math.max(Number(item.reorder_quantity || 0), Number(reorderPoint) - projected);
+        if (reorderNeed > needed) {
+          needed = reorderNeed;
+          reason = 'reorder';
+        }
+      }
+    }
+
+    if (needed <= 0) return;
+
+    const lines = bySupplier.get(item.supplier_id) || [];
+    lines.push({ item, quantity: roundUpToCartons(needed, item), reason, available, onOrder, demand });
+    bySupplier.set(item.supplier_id, lines);
+  });
+
+  return Array.from(bySupplier.entries()).map(([supplierId, lines]) => ({
+    supplierId,
+    lines: lines.sort((a, b) => a.item.name.localeCompare(b.item.name)),
+    subtotal: round2(lines.reduce((sum, line) => sum + line.quantity * Number(line.item.purchase_price || 0), 0)),
+  }));
+}
+
+export function getSuggestionReasonLabel(line: PurchaseSuggestionLine): string {
+  if (line.reason === 'reorder') {
+    return `At reorder point (${formatStockQuantity(line.available ?? 0)} available)`;
+  }
+  return `${formatStockQuantity(line.demand)} on approved orders`;
+}
+
+/**
+ * A purchase order line for an item, at its purchase price and GST rate
+ */
+export function toPurchaseOrderLine(
+  item: Item,
+  quantity: number,
+  settings?: Partial<TenantSettings> | null
+): PurchaseOrderLineInput {
+  return {
+    item_id: item.id,
+    description: item.size ? `${item.name} ${item.size}` : item.name,
+    code: item.sku || null,
+    quantity,
+    unit_cost: Number(item.purchase_price || 0),
+    tax_rate: getItemTaxRate(item, settings),
+  };
+}
+
+/**
+ * Totals as save_purchase_order works them out, for previews
+ */
+export function getPurchaseOrderTotals(lines: Pick<PurchaseOrderLineInput, 'quantity' | 'unit_cost' | 'tax_rate'>[]): {
+  subtotal: number;
+  tax: number;
+  total: number;
+} {
+  let subtotal = 0;
+  let tax = 0;
+  lines.forEach((line) => {
+    const lineTotal = round2(line.quantity * line.unit_cost);
+    subtotal += lineTotal;
+    tax += getLineTax(lineTotal, line.tax_rate);
+  });
+  return { subtotal: round2(subtotal), tax: round2(tax), total: round2(subtotal + tax) };
+}
+
+/**
+ * Why a purchase order isn't ready to send yet, or null if it is
+ */
+export function getPurchaseOrderWarning(
+  supplier: Pick<Supplier, 'name' | 'orders_email' | 'min_order'> | null | undefined,
+  subtotal: number
+): string | null {
+  if (!supplier?.orders_email?.trim()) {
+    return `${supplier?.name || 'This supplier'} has no orders email, so it can't be sent.`;
+  }
+  if (supplier.min_order && subtotal < Number(supplier.min_order)) {
+    return `Below ${supplier.name}'s minimum order of ${formatMoney(Number(supplier.min_order))}.`;
+  }
+  return null;
+}
+
+function escapeHtml(value: string | null | undefined): string {
+  return (value || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const PAGE_STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; padding: 24px; font-size: 12px; color: #222; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #666; margin: 0 0 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #f5f5f5; padding: 6px 8px; text-align: left; }
+  td { padding: 6px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+  .right { text-align: right; }
+  .total td { font-weight: bold; border-top: 2px solid #222; border-bottom: none; }
+  .muted { color: #666; }
+`;
+
+/**
+ * The purchase order as the supplier sees it (printed, and attached to the email as a PDF)
+ */
+export function buildPurchaseOrderHtml(
+  purchaseOrder: PurchaseOrder,
+  supplier: Pick<Supplier, 'name'> | null | undefined,
+  tenantName: string
+): string {
+  const lines = [...(purchaseOrder.items || [])].sort((a, b) => a.sort_order - b.sort_order);
+  const rows = lines
+    .map(
+      (line) => `
+        <tr>
+          <td>${escapeHtml(line.code)}</td>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="right">${formatStockQuantity(Number(line.quantity))}</td>
+          <td class="right">${formatMoney(line.unit_cost)}</td>
+          <td class="right">${formatMoney(line.total)}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <html>
+      <head><style>${PAGE_STYLE}</style></head>
+      <body>
+        <h1>Purchase Order ${escapeHtml(purchaseOrder.po_number)}</h1>
+        <p class="meta">
+          ${escapeHtml(tenantName)}<br />
+          ${formatStatementDate(purchaseOrder.created_at.split('T')[0])}
+        </p>
+        <p>
+          <strong>To: ${escapeHtml(supplier?.name)}</strong>
+          ${purchaseOrder.expected_date
+            ? `<br /><span class="muted">Delivery wanted: ${formatStatementDate(purchaseOrder.expected_date)}</span>`
+            : ''}
+        </p>
+
+        <table>
+          <tr>
+            <th>Code</th><th>Description</th><th class="right">Qty</th>
+            <th class="right">Unit cost</th><th class="right">Total</th>
+          </tr>
+          ${rows}
+          <tr><td colspan="4" class="right">Subtotal</td><td class="right">${formatMoney(purchaseOrder.subtotal)}</td></tr>
+          <tr><td colspan="4" class="right">GST</td><td class="right">${formatMoney(purchaseOrder.tax)}</td></tr>
+          <tr class="total">
+            <td colspan="4" class="right">Total</td><td class="right">${formatMoney(purchaseOrder.total)}</td>
+          </tr>
+        </table>
+
+        ${purchaseOrder.notes ? `<p><strong>Notes:</strong> ${escapeHtml(purchaseOrder.notes)}</p>` : ''}
+        <p class="muted">Quantities are units. Please quote ${escapeHtml(purchaseOrder.po_number)} on your invoice.</p>
+      </body>
+    </html>`;
+}
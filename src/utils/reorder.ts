@@ -0,0 +1,105 @@
+// Reorder helpers
+// Turn a past order back into cart quantities: order lines are matched to current
+// catalogue items, carton lines are converted back to units, and every line is
+// repriced at today's prices so the customer can see what changed before the cart is touched.
+import { CartItem, Item, Order, OrderItem } from '../types';
+import { isCartonLine, LinePrice } from './pricing';
+
+export type ReorderLineStatus = 'available' | 'unavailable' | 'not_found';
+
+export interface ReorderLine {
+  name: string;
+  item: Item | null;
+  status: ReorderLineStatus;
+  quantity: number; // Units, with carton lines converted back
+  previous_total: number;
+  previous_unit_price: number; // Average per unit on the original order
+  current_total: number;
+  current_unit_price: number;
+  cart_quantity: number; // Already in the cart
+}
+
+export interface ReorderPlan {
+  lines: ReorderLine[];
+  previous_total: number; // Lines that can be reordered, at the original prices
+  current_total: number; // The same lines at today's prices
+  unavailable_count: number;
+  price_changes: number;
+}
+
+/**
+ * Units a line stands for: carton lines are stored as a number of cartons
+ */
+function getLineUnits(line: OrderItem, item: Item | null): number {
+  if (!isCartonLine(line)) return line.quantity;
+  const perCarton = Number(line.unit.match(/(\d+)/)?.[1]) || item?.carton_size || 1;
+  return line.quantity * perCarton;
+}
+
+/**
+ * Find the current catalogue item for an order line: by id, then code, then exact name
+ */
+function resolveLineItem(line: OrderItem, supplierId: string, items: Item[]): Item | null {
+  if (line.procurement_item_id) {
+    const byId = items.find((i) => i.id === line.procurement_item_id);
+    if (byId) return byId;
+  }
+
+  const supplierItems = items.filter((i) => i.supplier_id === supplierId);
+  const code = line.code?.trim().toLowerCase();
+  if (code) {
+    const byCode = supplierItems.find(
+      (i) => i.barcode?.trim().toLowerCase() === code || i.sku?.trim().toLowerCase() === code
+    );
+    if (byCode) return byCode;
+  }
+
+  const name = line.name.trim().toLowerCase();
+  return supplierItems.find((i) => i.name.trim().toLowerCase() === name) || null;
+}
+
+/**
+ * Work out what reordering a past order would put in the cart
+ */
+export function buildReorderPlan(
+  order: Order,
+  items: Item[],
+  cart: CartItem[],
+  getLinePrice: (item: Item, quantity: number) => LinePrice
+): ReorderPlan {
+  // Carton and loose-unit lines of one item collapse back into a single quantity
+  const grouped = new Map<string, { name: string; item: Item | null; quantity: number; total: number }>();
+  for (const line of order.items || []) {
+    const item = resolveLineItem(line, order.supplier_id, items);
+    const key = item?.id || `name:${line.name.trim().toLowerCase()}`;
+    const existing = grouped.get(key) || { name: item?.name || line.name, item, quantity: 0, total: 0 };
+    existing.quantity += getLineUnits(line, item);
+    existing.total += line.total ?? line.quantity * line.unit_price;
+    grouped.set(key, existing);
+  }
+
+  const lines: ReorderLine[] = Array.from(grouped.values()).map(({ name, item, quantity, total }) => {
+    const status: ReorderLineStatus = !item ? 'not_found' : item.status === 'active' ? 'available' : 'unavailable';
+    const currentTotal = item && status === 'available' ? getLinePrice(item, quantity).total : 0;
+    return {
+      name,
+      item,
+      status,
+      quantity,
+      previous_total: total,
+      previous_unit_price: quantity > 0 ? total / quantity : 0,
+      current_total: currentTotal,
+      current_unit_price: quantity > 0 ? currentTotal / quantity : 0,
+      cart_quantity: item ? cart.find((c) => c.item_id === item.id)?.quantity || 0 : 0,
+    };
+  });
+
+  const available = lines.filter((l) => l.status === 'available');
+  return {
+    lines,
+    previous_total: available.reduce((sum, l) => sum + l.previous_total, 0),
+    current_total: available.reduce((sum, l) => sum + l.current_total, 0),
+    unavailable_count: lines.length - available.length,
+    price_changes: available.filter((l) => Math.abs(l.current_total - l.previous_total) >= 0.01).length,
+  };
+}
@@ -0,0 +1,176 @@
+// Delivery run printouts
+// HTML for expo-print: the run sheet the driver follows stop by stop, and the pick
+// list the warehouse packs from (totals across the run, then each stop's order).
+import { DeliveryRun, Order, OrderItem, User } from '../types';
+
+export interface RunStop {
+  stopNumber: number;
+  order: Order;
+  customer?: User;
+}
+
+function escapeHtml(value: string | null | undefined): string {
+  return (value || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatRunDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('en-AU', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+function getCustomerName(stop: RunStop): string {
+  return stop.customer?.business_name || stop.customer?.full_name || 'Unknown customer';
+}
+
+function getOrderNumber(order: Order): string {
+  return order.order_number || order.id.substring(0, 8).toUpperCase();
+}
+
+function formatQuantity(line: Pick<OrderItem, 'quantity' | 'unit'>): string {
+  return `${Number(line.quantity)} ${line.unit || 'each'}`;
+}
+
+const PAGE_STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; padding: 24px; font-size: 12px; color: #222; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  .meta { color: #666; margin: 0 0 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #f5f5f5; padding: 6px 8px; text-align: left; }
+  td { padding: 6px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+  .right { text-align: right; }
+  .check { width: 24px; }
+  .box { display: inline-block; width: 12px; height: 12px; border: 1px solid #999; }
+  .muted { color: #666; }
+  .stop { page-break-inside: avoid; }
+`;
+
+function buildHeader(title: string, run: DeliveryRun, stopCount: number): string {
+  return `
+    <h1>${escapeHtml(title)}: ${escapeHtml(run.name)}</h1>
+    <p class="meta">
+      ${formatRunDate(run.delivery_date)}
+      ${run.driver_name ? ` &middot; Driver: ${escapeHtml(run.driver_name)}` : ''}
+      &middot; ${stopCount} stop${stopCount === 1 ? '' : 's'}
+    </p>
+    ${run.notes ? `<p><strong>Notes:</strong> ${escapeHtml(run.notes)}</p>` : ''}
+  `;
+}
+
+/**
+ * Run sheet: one row per stop in driving order, with where to go and what to leave
+ */
+export function buildRunSheetHtml(run: DeliveryRun, stops: RunStop[]): string {
+  const rows = stops
+    .map((stop) => {
+      const lineCount = (stop.order.items || []).length;
+      return `
+        <tr>
+          <td><strong>${stop.stopNumber}</strong></td>
+          <td>
+            <strong>${escapeHtml(getCustomerName(stop))}</strong><br/>
+            ${escapeHtml(stop.customer?.delivery_address) || '<span class="muted">No delivery address</span>'}
+            ${stop.customer?.delivery_instructions ? `<br/><em>${escapeHtml(stop.customer.delivery_instructions)}</em>` : ''}
+          </td>
+          <td>
+            ${escapeHtml(stop.customer?.contact_name)}
+            ${stop.customer?.contact_phone ? `<br/>${escapeHtml(stop.customer.contact_phone)}` : ''}
+          </td>
+          <td>${escapeHtml(getOrderNumber(stop.order))}<br/><span class="muted">${lineCount} line${lineCount === 1 ? '' : 's'}</span></td>
+          <td style="width:140px">&nbsp;</td>
+        </tr>`;
+    })
+    .join('');
+
+  return `
+    <html><head><style>${PAGE_STYLE}</style></head><body>
+      ${buildHeader('Run Sheet', run, stops.length)}
+      <table>
+        <thead><tr>
+          <th>#</th>
+          <th>Customer &amp; Address</th>
+          <th>Contact</th>
+          <th>Order</th>
+          <th>Received by</th>
+        </tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </body></html>
+  `;
+}
+
+/**
+ * Pick list: item totals for the whole run, then each stop's lines for packing
+ */
+export function buildPickListHtml(run: DeliveryRun, stops: RunStop[]): string {
+  // Lines are totalled per item and unit (cartons and loose units are picked separately)
+  const totals = new Map<string, { code: string; name: string; unit: string; quantity: number }>();
+  for (const stop of stops) {
+    for (const line of stop.order.items || []) {
+      const key = `${line.procurement_item_id || line.name.toLowerCase()}|${line.unit || 'each'}`;
+      const total = totals.get(key) || { code: line.code || '', name: line.name, unit: line.unit || 'each', quantity: 0 };
+      total.quantity += Number(line.quantity);
+      totals.set(key, total);
+    }
+  }
+
+  const totalRows = Array.from(totals.values())
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(
+      (line) => `
+        <tr>
+          <td class="check"><span class="box"></span></td>
+          <td>${escapeHtml(line.code)}</td>
+          <td>${escapeHtml(line.name)}</td>
+          <td class="right"><strong>${formatQuantity(line)}</strong></td>
+        </tr>`
+    )
+    .join('');
+
+  const stopSections = stops
+    .map((stop) => {
+      const lines = (stop.order.items || [])
+        .map(
+          (line) => `
+            <tr>
+              <td class="check"><span class="box"></span></td>
+              <td>${escapeHtml(line.name)}</td>
+              <td class="right">${formatQuantity(line)}</td>
+            </tr>`
+        )
+        .join('');
+      return `
+        <div class="stop">
+          <h2>Stop ${stop.stopNumber}: ${escapeHtml(getCustomerName(stop))} &middot; ${escapeHtml(getOrderNumber(stop.order))}</h2>
+          ${stop.order.notes ? `<p class="muted">${escapeHtml(stop.order.notes)}</p>` : ''}
+          <table><tbody>${lines}</tbody></table>
+        </div>`;
+    })
+    .join('');
+
+  return `
+    <html><head><style>${PAGE_STYLE}</style></head><body>
+      ${buildHeader('Pick List', run, stops.length)}
+      <h2>Run Totals</h2>
+      <table>
+        <thead><tr>
+          <th class="check"></th>
+          <th>Code</th>
+          <th>Item</th>
+          <th class="right">Qty</th>
+        </tr></thead>
+        <tbody>${totalRows}</tbody>
+      </table>
+      ${stopSections}
+    </body></html>
+  `;
+}
@@ -0,0 +1,207 @@
+// Customer statements and aged receivables
+// Periods for the statement screen and HTML for expo-print. The figures themselves come
+// from get_customer_statement and get_aged_receivables
+// (supabase/migrations/20260216000016_statements.sql); send-statements emails the same
+// statement on the 1st of each month.
+import { AgedReceivable, AgingBuckets, CustomerStatement, PaymentTerms, StatementEntryType, User } from '../types';
+import { getPaymentTermsLabel } from './paymentTerms';
+
+export interface StatementPeriod {
+  start: string; // YYYY-MM-DD
+  end: string;
+  label: string; // e.g. "January 2026"
+}
+
+export const STATEMENT_ENTRY_LABELS: Record<StatementEntryType, string> = {
+  invoice: 'Invoice',
+  credit: 'Credit note',
+  payment: 'Payment',
+};
+
+export const AGING_LABELS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days_30', label: '30 days' },
+  { key: 'days_60', label: '60 days' },
+  { key: 'days_90_plus', label: '90+ days' },
+];
+
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * The calendar month `monthsAgo` months before this one (0 is this month)
+ */
+export function getMonthPeriod(monthsAgo: number, today: Date = new Date()): StatementPeriod {
+  const start = new Date(today.getFullYear(), today.getMonth() - monthsAgo, 1);
+  const end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+  return {
+    start: toDateString(start),
+    end: toDateString(end),
+    label: start.toLocaleDateString('en-AU', { month: 'long', year: 'numeric' }),
+  };
+}
+
+export function getTodayString(): string {
+  return toDateString(new Date());
+}
+
+export function formatMoney(value: number): string {
+  const amount = Number(value || 0);
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+}
+
+export function formatStatementDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function getCustomerName(customer?: Pick<User, 'business_name' | 'full_name' | 'email'> | null): string {
+  return customer?.business_name || customer?.full_name || customer?.email || 'Customer';
+}
+
+// Where statements are emailed, as in send-statements
+export function getStatementEmail(customer?: Pick<User, 'accounts_email' | 'contact_email' | 'email'> | null): string | null {
+  return customer?.accounts_email || customer?.contact_email || customer?.email || null;
+}
+
+function escapeHtml(value: string | null | undefined): string {
+  return (value || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const PAGE_STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; padding: 24px; font-size: 12px; color: #222; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  .meta { color: #666; margin: 0 0 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #f5f5f5; padding: 6px 8px; text-align: left; }
+  td { padding: 6px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+  .right { text-align: right; }
+  .total td { font-weight: bold; border-top: 2px solid #222; border-bottom: none; }
+  .muted { color: #666; }
+`;
+
+function buildAgingTable(aging: AgingBuckets, total: number): string {
+  return `
+    <table>
+      <tr>
+        ${AGING_LABELS.map((bucket) => `<th class="right">${bucket.label}</th>`).join('')}
+        <th class="right">Total due</th>
+      </tr>
+      <tr>
+        ${AGING_LABELS.map((bucket) => `<td class="right">${formatMoney(aging[bucket.key])}</td>`).join('')}
+        <td class="right"><strong>${formatMoney(total)}</strong></td>
+      </tr>
+    </table>`;
+}
+
+export function buildStatementHtml(
+  statement: CustomerStatement,
+  customer: Pick<User, 'business_name' | 'full_name' | 'email' | 'delivery_address'> | null | undefined,
+  tenantName: string,
+  paymentTerms: PaymentTerms
+): string {
+  const rows = statement.entries
+    .map(
+      (entry) => `
+        <tr>
+          <td>${formatStatementDate(entry.date)}</td>
+          <td>${STATEMENT_ENTRY_LABELS[entry.type]}</td>
+          <td>${escapeHtml(entry.reference)}</td>
+          <td class="right">${formatMoney(entry.amount)}</td>
+          <td class="right">${formatMoney(entry.balance)}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <html>
+      <head><style>${PAGE_STYLE}</style></head>
+      <body>
+        <h1>Statement</h1>
+        <p class="meta">
+          ${escapeHtml(tenantName)}<br />
+          ${formatStatementDate(statement.period_start)} to ${formatStatementDate(statement.period_end)}
+        </p>
+        <p>
+          <strong>${escapeHtml(getCustomerName(customer))}</strong>
+          ${customer?.delivery_address ? `<br /><span class="muted">${escapeHtml(customer.delivery_address)}</span>` : ''}
+          <br /><span class="muted">Payment terms: ${getPaymentTermsLabel(paymentTerms)}</span>
+        </p>
+
+        <table>
+          <tr>
+            <th>Date</th><th>Type</th><th>Reference</th><th class="right">Amount</th><th class="right">Balance</th>
+          </tr>
+          <tr>
+            <td>${formatStatementDate(statement.period_start)}</td>
+            <td colspan="3">Balance brought forward</td>
+            <td class="right">${formatMoney(statement.opening_balance)}</td>
+          </tr>
+          ${rows}
+          <tr class="total">
+            <td>${formatStatementDate(statement.period_end)}</td>
+            <td colspan="3">Balance due</td>
+            <td class="right">${formatMoney(statement.closing_balance)}</td>
+          </tr>
+        </table>
+
+        <h2>Amount due by age</h2>
+        ${buildAgingTable(statement.aging, statement.closing_balance)}
+      </body>
+    </html>`;
+}
+
+export function buildAgedReceivablesHtml(rows: AgedReceivable[], asOf: string, tenantName: string): string {
+  const totals: AgingBuckets & { total: number } = { current: 0, days_30: 0, days_60: 0, days_90_plus: 0, total: 0 };
+  for (const row of rows) {
+    totals.current += Number(row.current_amount);
+    totals.days_30 += Number(row.days_30);
+    totals.days_60 += Number(row.days_60);
+    totals.days_90_plus += Number(row.days_90_plus);
+    totals.total += Number(row.total);
+  }
+
+  const customerRows = rows
+    .map(
+      (row) => `
+        <tr>
+          <td>${escapeHtml(row.customer_name)}</td>
+          <td class="right">${formatMoney(row.current_amount)}</td>
+          <td class="right">${formatMoney(row.days_30)}</td>
+          <td class="right">${formatMoney(row.days_60)}</td>
+          <td class="right">${formatMoney(row.days_90_plus)}</td>
+          <td class="right">${formatMoney(row.total)}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <html>
+      <head><style>${PAGE_STYLE}</style></head>
+      <body>
+        <h1>Aged Receivables</h1>
+        <p class="meta">${escapeHtml(tenantName)} &middot; as at ${formatStatementDate(asOf)}</p>
+        <table>
+          <tr>
+            <th>Customer</th>
+            ${AGING_LABELS.map((bucket) => `<th class="right">${bucket.label}</th>`).join('')}
+            <th class="right">Total</th>
+          </tr>
+          ${customerRows || '<tr><td colspan="6" class="muted">Nothing owing.</td></tr>'}
+          <tr class="total">
+            <td>Total</td>
+            ${AGING_LABELS.map((bucket) => `<td class="right">${formatMoney(totals[bucket.key])}</td>`).join('')}
+            <td class="right">${formatMoney(totals.total)}</td>
+          </tr>
+        </table>
+      </body>
+    </html>`;
+}
@@ -0,0 +1,75 @@
+// Stock on hand
+// Tracked items have stock on hand, less what is reserved by approved orders. The
+// database keeps the figures (apply_stock_movement in
+// supabase/migrations/20260216000020_stock_tracking.sql): approving an order reserves its
+// lines, sending it takes them off hand, and items go sold out when nothing is available.
+import { Item, StockAdjustmentReason, StockMovementType } from '../types';
+
+export const STOCK_ADJUSTMENT_REASONS: { value: StockAdjustmentReason; label: string }[] = [
+  { value: 'stocktake', label: 'Stocktake' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'lost', label: 'Lost' },
+  { value: 'found', label: 'Found' },
+  { value: 'other', label: 'Other' },
+];
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  reservation: 'Reserved for order',
+  release: 'Released from order',
+  dispatch: 'Sent on order',
+  return: 'Back from cancelled order',
+  receipt: 'Received',
+  adjustment: 'Adjusted',
+};
+
+export function getStockMovementLabel(type: StockMovementType, reason?: StockAdjustmentReason | null): string {
+  if (type === 'adjustment' && reason) {
+    const label = STOCK_ADJUSTMENT_REASONS.find((r) => r.value === reason)?.label;
+    if (label) return `Adjusted: ${label.toLowerCase()}`;
+  }
+  return MOVEMENT_LABELS[type] || type;
+}
+
+export function formatStockQuantity(quantity: number): string {
+  return Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(2).replace(/0$/, '');
+}
+
+/**
+ * Units available to order, or null if the item doesn't track stock
+ */
+export function getAvailableStock(item: Pick<Item, 'track_stock' | 'stock_on_hand' | 'stock_reserved'>): number | null {
+  if (!item.track_stock) return null;
+  return Number(item.stock_on_hand || 0) - Number(item.stock_reserved || 0);
+}
+
+export function isLowStock(item: Item): boolean {
+  const available = getAvailableStock(item);
+  if (available === null) return false;
+  if (available <= 0) return true;
+  return item.low_stock_threshold !== null && item.low_stock_threshold !== undefined
+    && available <= Number(item.low_stock_threshold);
+}
+
+export type StockAvailabilityTone = 'ok' | 'low' | 'out';
+
+export interface StockAvailability {
+  label: string;
+  tone: StockAvailabilityTone;
+  limit: number | null; // Most a customer can add, or null for no limit
+}
+
+/**
+ * What customers see in the shop. Exact counts are only shown when stock is low.
+ */
+export function getStockAvailability(item: Item): StockAvailability | null {
+  if (item.status === 'sold_out') return { label: 'Sold out', tone: 'out', limit: 0 };
+
+  const available = getAvailableStock(item);
+  if (available === null) return null;
+  // Customers order whole units
+  const limit = Math.floor(available);
+  if (limit <= 0) return { label: 'Sold out', tone: 'out', limit: 0 };
+  if (isLowStock(item)) return { label: `Only ${limit} left`, tone: 'low', limit };
+  return { label: 'In stock', tone: 'ok', limit };
+}
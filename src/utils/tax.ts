@@ -0,0 +1,89 @@
+// Tax codes
+// A line's GST rate comes from the item, then its category's default, then the tenant's
+// tax_rate, and each rate we charge maps to a Xero tax type and account code. The same
+// rules run in line_tax_rate (supabase/migrations/20260216000015_tax_codes.sql) and
+// supabase/functions/_shared/xeroTax.ts, which have the final say.
+import { CategoryTaxDefault, Item, TaxCode, TenantSettings } from '../types';
+
+// Used until a tenant sets up its own mapping
+export const DEFAULT_TAX_CODES: TaxCode[] = [
+  { rate: 10, xero_tax_type: 'OUTPUT', xero_account_code: '200', label: 'GST on Income' },
+  { rate: 0, xero_tax_type: 'EXEMPTOUTPUT', xero_account_code: '200', label: 'GST Free Income' },
+];
+
+export function getTaxCodes(settings?: Partial<TenantSettings> | null): TaxCode[] {
+  return settings?.tax_codes && settings.tax_codes.length > 0 ? settings.tax_codes : DEFAULT_TAX_CODES;
+}
+
+export function getCategoryTax(
+  settings: Partial<TenantSettings> | null | undefined,
+  category?: string | null
+): CategoryTaxDefault | undefined {
+  return category ? settings?.category_tax?.[category] : undefined;
+}
+
+function getItemCategory(item?: Pick<Item, 'category' | 'categories'> | null): string | undefined {
+  return item?.category || item?.categories?.[0] || undefined;
+}
+
+/**
+ * GST rate (%) for an item: its own rate, then its category's, then the tenant's
+ */
+export function getItemTaxRate(
+  item: Pick<Item, 'tax_rate' | 'category' | 'categories'> | null | undefined,
+  settings?: Partial<TenantSettings> | null
+): number {
+  return item?.tax_rate
+    ?? getCategoryTax(settings, getItemCategory(item))?.tax_rate
+    ?? settings?.tax_rate
+    ?? 0;
+}
+
+/**
+ * GST on a line, rounded per line as Xero does
+ */
+export function getLineTax(total: number, rate: number): number {
+  return Math.round(total * rate) / 100;
+}
+
+export function findTaxCode(rate: number, settings?: Partial<TenantSettings> | null): TaxCode | undefined {
+  return getTaxCodes(settings).find((code) => Number(code.rate) === Number(rate));
+}
+
+/**
+ * Problems with a mapping that would stop invoices exporting: a rate used by items or
+ * categories with no Xero tax type, or two codes for the same rate.
+ */
+export function getTaxMappingErrors(settings: Partial<TenantSettings> | null | undefined, items: Item[]): string[] {
+  const errors: string[] = [];
+  const codes = getTaxCodes(settings);
+
+  const seen = new Set<number>();
+  for (const code of codes) {
+    if (!code.xero_tax_type?.trim()) {
+      errors.push(`${code.rate}% has no Xero tax type`);
+    }
+    if (seen.has(Number(code.rate))) {
+      errors.push(`${code.rate}% is mapped more than once`);
+    }
+    seen.add(Number(code.rate));
+  }
+
+  for (const [category, defaults] of Object.entries(settings?.category_tax || {})) {
+    if (defaults.tax_rate != null && !seen.has(Number(defaults.tax_rate))) {
+      errors.push(`${category} defaults to ${defaults.tax_rate}%, which has no Xero tax type`);
+    }
+  }
+
+  const unmappedRates = new Set(
+    items
+      .filter((item) => item.status === 'active')
+      .map((item) => getItemTaxRate(item, settings))
+      .filter((rate) => !seen.has(Number(rate)))
+  );
+  for (const rate of unmappedRates) {
+    errors.push(`Items are charged ${rate}%, which has no Xero tax type`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,201 @@
+// Xero item catalogue sync
+// Matches Xero items to the app's items by xero_item_code, falling back to SKU for items
+// not linked yet, and works out what a sync would change. Nothing here writes; the review
+// in MasterItemListScreen applies the rows the owner keeps.
+import { Item, XeroItem } from '../types';
+
+// Xero truncates item names to this; longer names are kept whole in the description
+export const XERO_ITEM_NAME_LENGTH = 50;
+
+export type XeroItemSyncAction = 'create' | 'update' | 'conflict';
+
+export type XeroItemField = 'name' | 'wholesale_price' | 'xero_account_code' | 'xero_item_code';
+
+export interface XeroItemChange {
+  field: XeroItemField;
+  label: string;
+  local: string | number | null;
+  xero: string | number | null;
+}
+
+export interface XeroItemReviewRow {
+  key: string;
+  action: XeroItemSyncAction;
+  xeroItem?: XeroItem; // Missing for local items whose Xero code no longer exists
+  item?: Item;
+  changes: XeroItemChange[];
+  conflict?: string;
+  canPush: boolean; // Name or price differ, so the app's values could go to Xero instead
+}
+
+export interface XeroItemReview {
+  rows: XeroItemReviewRow[];
+  unchanged: number;
+}
+
+const FIELD_LABELS: Record<XeroItemField, string> = {
+  name: 'Name',
+  wholesale_price: 'Price',
+  xero_account_code: 'Account code',
+  xero_item_code: 'Xero item code',
+};
+
+// Changes that can go the other way, to Xero
+const PUSHABLE_FIELDS: XeroItemField[] = ['name', 'wholesale_price'];
+
+function normalizeCode(code?: string | null): string {
+  return (code || '').trim().toLowerCase();
+}
+
+function isSameName(localName: string, xeroName: string): boolean {
+  return localName === xeroName
+    || (localName.length > XERO_ITEM_NAME_LENGTH && localName.slice(0, XERO_ITEM_NAME_LENGTH) === xeroName);
+}
+
+function getChanges(item: Item, xeroItem: XeroItem): XeroItemChange[] {
+  const changes: XeroItemChange[] = [];
+  const add = (field: XeroItemField, local: string | number | null, xero: string | number | null) =>
+    changes.push({ field, label: FIELD_LABELS[field], local, xero });
+
+  if (normalizeCode(item.xero_item_code) !== normalizeCode(xeroItem.code)) {
+    add('xero_item_code', item.xero_item_code || null, xeroItem.code);
+  }
+  if (!isSameName(item.name, xeroItem.name)) {
+    add('name', item.name, xeroItem.name);
+  }
+  if (xeroItem.unit_price != null && Math.abs(xeroItem.unit_price - item.wholesale_price) >= 0.005) {
+    add('wholesale_price', item.wholesale_price, xeroItem.unit_price);
+  }
+  if (xeroItem.account_code && xeroItem.account_code !== item.xero_account_code) {
+    add('xero_account_code', item.xero_account_code || null, xeroItem.account_code);
+  }
+  return changes;
+}
+
+/**
+ * Compare the Xero catalogue with the app's items. Sold Xero items with no match become
+ * creates, matched items with differences become updates, and anything ambiguous is a
+ * conflict to resolve by hand.
+ */
+export function buildXeroItemReview(xeroItems: XeroItem[], items: Item[]): XeroItemReview {
+  const rows: XeroItemReviewRow[] = [];
+  let unchanged = 0;
+
+  const xeroCodes = new Set(xeroItems.map((xeroItem) => normalizeCode(xeroItem.code)));
+
+  for (const xeroItem of xeroItems) {
+    const code = normalizeCode(xeroItem.code);
+    if (!code) continue;
+
+    const linked = items.filter((item) => normalizeCode(item.xero_item_code) === code);
+    const bySku = linked.length > 0 ? [] : items.filter((item) => normalizeCode(item.sku) === code);
+    const matches = linked.length > 0 ? linked : bySku;
+    const key = `xero-${xeroItem.item_id}`;
+
+    if (matches.length > 1) {
+      rows.push({
+        key,
+        action: 'conflict',
+        xeroItem,
+        changes: [],
+        conflict: `${matches.length} items ${linked.length > 0 ? 'use Xero code' : 'have SKU'} ${xeroItem.code}: ${matches.map((m) => m.name).join(', ')}`,
+        canPush: false,
+      });
+      continue;
+    }
+
+    const item = matches[0];
+    if (!item) {
+      // Purchase-only items aren't sold to customers
+      if (xeroItem.is_sold) {
+        rows.push({ key, action: 'create', xeroItem, changes: [], canPush: false });
+      }
+      continue;
+    }
+
+    // Matched by SKU but already linked to a different Xero item
+    if (linked.length === 0 && item.xero_item_code && xeroCodes.has(normalizeCode(item.xero_item_code))) {
+      rows.push({
+        key,
+        action: 'conflict',
+        xeroItem,
+        item,
+        changes: [],
+        conflict: `SKU matches, but "${item.name}" is linked to Xero code ${item.xero_item_code}`,
+        canPush: false,
+      });
+      continue;
+    }
+
+    const changes = getChanges(item, xeroItem);
+    if (changes.length === 0) {
+      unchanged++;
+      continue;
+    }
+    rows.push({
+      key,
+      action: 'update',
+      xeroItem,
+      item,
+      changes,
+      canPush: changes.some((change) => PUSHABLE_FIELDS.includes(change.field)),
+    });
+  }
+
+  // Active items pointing at a code Xero doesn't have (deleted or renamed there)
+  for (const item of items) {
+    if (item.status !== 'active' || !item.xero_item_code) continue;
+    if (xeroCodes.has(normalizeCode(item.xero_item_code))) continue;
+    rows.push({
+      key: `item-${item.id}`,
+      action: 'conflict',
+      item,
+      changes: [],
+      conflict: `Xero code ${item.xero_item_code} not found in Xero`,
+      canPush: false,
+    });
+  }
+
+  return { rows, unchanged };
+}
+
+/**
+ * The item with Xero's values applied. When the app's name and price are being pushed
+ * to Xero instead, only the other fields (codes) are taken from Xero.
+ */
+export function applyXeroItemChanges(item: Item, changes: XeroItemChange[], push = false): Item {
+  const updated: Item = { ...item };
+  for (const change of changes) {
+    if (push && PUSHABLE_FIELDS.includes(change.field)) continue;
+    switch (change.field) {
+      case 'name':
+        updated.name = String(change.xero);
+        break;
+      case 'wholesale_price':
+        updated.wholesale_price = Number(change.xero);
+        break;
+      case 'xero_account_code':
+        updated.xero_account_code = change.xero != null ? String(change.xero) : undefined;
+        break;
+      case 'xero_item_code':
+        updated.xero_item_code = change.xero != null ? String(change.xero) : undefined;
+        break;
+    }
+  }
+  return updated;
+}
+
+/**
+ * A new item from a Xero item, for the given supplier
+ */
+export function getItemFromXero(xeroItem: XeroItem, supplierId: string): Omit<Item, 'id' | 'tenant_id' | 'created_at'> {
+  return {
+    name: xeroItem.name,
+    sku: xeroItem.code,
+    supplier_id: supplierId,
+    wholesale_price: xeroItem.unit_price ?? 0,
+    xero_item_code: xeroItem.code,
+    xero_account_code: xeroItem.account_code || undefined,
+    status: 'active',
+  };
+}
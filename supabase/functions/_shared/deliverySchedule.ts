@@ -0,0 +1,156 @@
+// Shared delivery cutoff helpers for Edge Functions
+// Mirrors src/utils/deliverySchedule.ts: dates are YYYY-MM-DD in the supplier tenant's
+// timezone and an order must be placed by cutoff_time on the day before delivery.
+
+export const DEFAULT_TIMEZONE = 'Australia/Sydney';
+
+// Indexed by weekday (0 = Sunday)
+const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// The supplier fields the delivery date calculator needs
+export interface DeliverySchedule {
+  delivery_days?: string[] | null;
+  cutoff_time?: string | null;
+  closure_dates?: { date: string; reason?: string }[] | null;
+}
+
+// How far ahead to look for open delivery dates
+const SEARCH_DAYS = 90;
+
+function parseISODate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  const next = parseISODate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toISODate(next);
+}
+
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  } catch {
+    // Unknown timezone in tenant settings
+    return getZonedParts(date, DEFAULT_TIMEZONE);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+/**
+ * Today's date in a timezone
+ */
+export function getZonedToday(timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): string {
+  const parts = getZonedParts(now, timeZone);
+  return toISODate(new Date(Date.UTC(parts.year, parts.month - 1, parts.day)));
+}
+
+/**
+ * The instant a wall-clock date and time (HH:MM) occurs in a timezone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = Date.UTC(y, m - 1, d, hours || 0, minutes || 0);
+  const parts = getZonedParts(new Date(guess), timeZone);
+  const zonedGuess = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return new Date(guess - (zonedGuess - guess));
+}
+
+/**
+ * Cutoff for a delivery date: the supplier's cutoff time on the day before
+ */
+export function getDeliveryCutoff(
+  deliveryDate: string,
+  cutoffTime: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  return zonedTimeToUtc(addDays(deliveryDate, -1), cutoffTime || '17:00', timeZone);
+}
+
+/**
+ * Next delivery in a recurring cycle whose cutoff has not passed
+ */
+export function getNextCycleDeliveryDate(
+  current: string,
+  intervalWeeks: number,
+  cutoffTime: string | null | undefined,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string {
+  const step = Math.max(1, intervalWeeks) * 7;
+  let date = addDays(current, step);
+  while (getDeliveryCutoff(date, cutoffTime, timeZone) <= now) {
+    date = addDays(date, step);
+  }
+  return date;
+}
+
+// Weekday indexes (0 = Sunday) from stored delivery days ('Monday', 'mon')
+function getDeliveryWeekdays(deliveryDays: string[] | null | undefined): number[] {
+  return (deliveryDays || [])
+    .map((day) => DAY_LABELS.findIndex((label) => label.slice(0, 3).toLowerCase() === day.trim().slice(0, 3).toLowerCase()))
+    .filter((index) => index >= 0);
+}
+
+/**
+ * Why an order cannot be placed for a delivery date, or null if it can
+ */
+export function getDeliveryDateError(
+  schedule: DeliverySchedule,
+  date: string,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return `${date} is not a valid delivery date.`;
+  }
+  const weekdays = getDeliveryWeekdays(schedule.delivery_days);
+  if (weekdays.length > 0 && !weekdays.includes(parseISODate(date).getUTCDay())) {
+    return `Deliveries are only made on ${weekdays.sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map((d) => DAY_LABELS[d]).join(', ')}.`;
+  }
+  const closure = (schedule.closure_dates || []).find((c) => c.date === date);
+  if (closure) {
+    return `There are no deliveries on ${date}${closure.reason ? ` (${closure.reason})` : ''}.`;
+  }
+  if (getDeliveryCutoff(date, schedule.cutoff_time, timeZone) <= now) {
+    return `The cutoff for delivery on ${date} has passed.`;
+  }
+  return null;
+}
+
+/**
+ * The earliest date an order placed now can be delivered
+ */
+export function getEarliestDeliveryDate(
+  schedule: DeliverySchedule,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): string | null {
+  const today = getZonedToday(timeZone, now);
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    const date = addDays(today, offset);
+    if (!getDeliveryDateError(schedule, date, timeZone, now)) return date;
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+// Payment terms for the Xero export and statement emails
+// Mirrors src/utils/paymentTerms.ts and payment_due_date in
+// supabase/migrations/20260216000018_payment_terms.sql. Dates are YYYY-MM-DD and worked
+// out in UTC so the server's timezone can't move them.
+
+export type PaymentTerms = 'cod' | 'net_7' | 'net_14' | 'twentieth_following' | 'eom_30';
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = 'net_7';
+
+export const PAYMENT_TERMS_LABELS: Record<PaymentTerms, string> = {
+  cod: 'COD',
+  net_7: '7 days',
+  net_14: '14 days',
+  twentieth_following: '20th of following month',
+  eom_30: 'EOM + 30',
+};
+
+const PAYMENT_TERMS = Object.keys(PAYMENT_TERMS_LABELS) as PaymentTerms[];
+
+// The first of these that is a known term, else 7 days
+export function resolvePaymentTerms(...candidates: (string | null | undefined)[]): PaymentTerms {
+  const terms = candidates.find((value) => !!value && PAYMENT_TERMS.includes(value as PaymentTerms));
+  return (terms as PaymentTerms) || DEFAULT_PAYMENT_TERMS;
+}
+
+export function getDueDate(invoiceDate: string, terms: PaymentTerms): string {
+  const [y, m, d] = invoiceDate.split('-').map(Number);
+  let due: Date;
+  switch (terms) {
+    case 'cod':
+      return invoiceDate;
+    case 'net_14':
+      due = new Date(Date.UTC(y, m - 1, d + 14));
+      break;
+    case 'twentieth_following':
+      due = new Date(Date.UTC(y, m, 20));
+      break;
+    case 'eom_30':
+      due = new Date(Date.UTC(y, m, 30)); // Day 0 of next month is this month's last day
+      break;
+    case 'net_7':
+    default:
+      due = new Date(Date.UTC(y, m - 1, d + 7));
+  }
+  return due.toISOString().split('T')[0];
+}
@@ -0,0 +1,201 @@
+// Shared customer pricing for Edge Functions
+// Mirrors src/utils/pricing.ts (price lists, carton and multi-carton breaks)
+// so email imports price lines the same way as the app.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type PriceSource = 'wholesale' | 'contract' | 'discount' | 'carton' | 'quantity_break' | 'manual';
+
+export interface PricingCustomer {
+  id: string;
+}
+
+export interface PricingItem {
+  id: string;
+  wholesale_price: number | null;
+  size?: string | null;
+  carton_size?: number | null;
+  carton_price?: number | null;
+  carton_price_breaks?: { min_cartons: number; carton_price: number }[] | null;
+}
+
+export interface PriceList {
+  id: string;
+  tenant_id: string;
+  customer_id: string | null;
+  price_group: string | null;
+  discount_percent: number | null;
+  effective_from: string | null;
+  effective_to: string | null;
+  is_active: boolean;
+  items?: { item_id: string; unit_price: number }[];
+}
+
+export interface ResolvedPrice {
+  unit_price: number;
+  price_source: PriceSource;
+  price_list_id: string | null;
+}
+
+export interface PricedLine extends ResolvedPrice {
+  quantity: number;
+  unit: string;
+  total: number;
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isPriceListEffective(list: PriceList, date: string): boolean {
+  if (!list.is_active) return false;
+  if (list.effective_from && date < list.effective_from) return false;
+  if (list.effective_to && date > list.effective_to) return false;
+  return true;
+}
+
+function bestPriceFromLists(item: PricingItem, lists: PriceList[]): ResolvedPrice | null {
+  let best: ResolvedPrice | null = null;
+
+  for (const list of lists) {
+    const override = list.items?.find((i) => i.item_id === item.id);
+    let candidate: ResolvedPrice | null = null;
+
+    if (override) {
+      candidate = { unit_price: roundPrice(Number(override.unit_price)), price_source: 'contract', price_list_id: list.id };
+    } else if (list.discount_percent && list.discount_percent > 0) {
+      const discounted = (item.wholesale_price || 0) * (1 - Number(list.discount_percent) / 100);
+      candidate = { unit_price: roundPrice(discounted), price_source: 'discount', price_list_id: list.id };
+    }
+
+    if (candidate && (!best || candidate.unit_price < best.unit_price)) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Load the effective price lists for a customer of a tenant.
+ * Returns customer-specific lists and group lists separately. The customer's group
+ * is the one the tenant set on their link to it, matched ignoring case.
+ */
+export async function loadCustomerPriceLists(
+  supabase: ReturnType<typeof createClient>,
+  tenantId: string,
+  customer: PricingCustomer | null,
+  date: string = new Date().toISOString().split('T')[0]
+): Promise<{ customerLists: PriceList[]; groupLists: PriceList[] }> {
+  if (!customer) return { customerLists: [], groupLists: [] };
+
+  const { data, error } = await supabase
+    .from('price_lists')
+    .select('*, items:price_list_items(item_id, unit_price)')
+    .eq('tenant_id', tenantId)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Failed to load price lists:', error);
+    return { customerLists: [], groupLists: [] };
+  }
+
+  const { data: link } = await supabase
+    .from('customer_suppliers')
+    .select('price_group')
+    .eq('customer_id', customer.id)
+    .eq('supplier_tenant_id', tenantId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  const effective = ((data || []) as PriceList[]).filter((list) => isPriceListEffective(list, date));
+  const group: string | undefined = link?.price_group?.toLowerCase();
+
+  return {
+    customerLists: effective.filter((list) => list.customer_id === customer.id),
+    groupLists: effective.filter(
+      (list) => !list.customer_id && !!list.price_group && !!group && list.price_group.toLowerCase() === group
+    ),
+  };
+}
+
+/**
+ * Resolve the unit price for an item from preloaded price lists.
+ * Customer-specific lists win over group lists; within each, the lowest price wins.
+ */
+export function resolveItemPrice(
+  item: PricingItem,
+  lists: { customerLists: PriceList[]; groupLists: PriceList[] }
+): ResolvedPrice {
+  const resolved = bestPriceFromLists(item, lists.customerLists) || bestPriceFromLists(item, lists.groupLists);
+  if (resolved) return resolved;
+
+  return {
+    unit_price: item.wholesale_price || 0,
+    price_source: 'wholesale',
+    price_list_id: null,
+  };
+}
+
+function getCartonPrice(
+  item: PricingItem,
+  cartons: number,
+  looseUnitPrice: number
+): { carton_price: number; price_source: PriceSource } | null {
+  const cartonSize = item.carton_size || 0;
+  if (cartonSize <= 1 || !item.carton_price || item.carton_price <= 0 || cartons < 1) return null;
+
+  let best = { carton_price: Number(item.carton_price), price_source: 'carton' as PriceSource };
+  for (const priceBreak of item.carton_price_breaks || []) {
+    if (cartons >= priceBreak.min_cartons && priceBreak.carton_price < best.carton_price) {
+      best = { carton_price: priceBreak.carton_price, price_source: 'quantity_break' };
+    }
+  }
+
+  if (best.carton_price >= roundPrice(looseUnitPrice * cartonSize)) return null;
+  return best;
+}
+
+/**
+ * Price a quantity (in units) of an item: full cartons at the carton or
+ * multi-carton break price, remaining units at the customer's unit price.
+ */
+export function priceLine(
+  item: PricingItem,
+  quantity: number,
+  lists: { customerLists: PriceList[]; groupLists: PriceList[] }
+): PricedLine[] {
+  const base = resolveItemPrice(item, lists);
+  const cartonSize = item.carton_size || 0;
+  const lines: PricedLine[] = [];
+
+  if (quantity <= 0) return lines;
+
+  const cartons = cartonSize > 1 ? Math.floor(quantity / cartonSize) : 0;
+  const cartonPrice = getCartonPrice(item, cartons, base.unit_price);
+  let looseQuantity = quantity;
+
+  if (cartonPrice) {
+    looseQuantity = quantity - cartons * cartonSize;
+    lines.push({
+      quantity: cartons,
+      unit: `carton of ${cartonSize}`,
+      unit_price: cartonPrice.carton_price,
+      total: roundPrice(cartons * cartonPrice.carton_price),
+      price_source: cartonPrice.price_source,
+      price_list_id: null,
+    });
+  }
+
+  if (looseQuantity > 0) {
+    lines.push({
+      quantity: looseQuantity,
+      unit: item.size || 'each',
+      unit_price: base.unit_price,
+      total: roundPrice(looseQuantity * base.unit_price),
+      price_source: base.price_source,
+      price_list_id: base.price_list_id,
+    });
+  }
+
+  return lines;
+}
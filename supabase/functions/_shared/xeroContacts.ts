@@ -0,0 +1,280 @@
+// Xero contacts for customers
+// A customer is linked to one Xero contact (users.xero_contact_id) in their own business's
+// Xero. Profile changes are pushed to the contact; changes made in Xero come back through
+// xero-webhook. Before a contact is created, one with the same account number or name is
+// looked for and linked instead, so customers are never duplicated in Xero. Other
+// businesses the customer orders from look the contact up each time and keep no link.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { XERO_API_URL } from './xero.ts';
+
+export interface XeroAuth {
+  accessToken: string;
+  xeroTenantId: string;
+}
+
+// Customer profile fields that map to a Xero contact
+export interface CustomerProfile {
+  id: string;
+  email: string;
+  full_name?: string | null;
+  business_name?: string | null;
+  customer_id?: string | null;
+  contact_name?: string | null;
+  contact_phone?: string | null;
+  contact_email?: string | null;
+  accounts_email?: string | null;
+  delivery_address?: string | null;
+  xero_contact_id?: string | null;
+}
+
+export const CUSTOMER_PROFILE_COLUMNS =
+  'id, email, full_name, business_name, customer_id, contact_name, contact_phone, contact_email, accounts_email, delivery_address, xero_contact_id';
+
+export interface XeroContactSummary {
+  ContactID: string;
+  Name: string;
+  AccountNumber?: string;
+  EmailAddress?: string;
+  FirstName?: string;
+  LastName?: string;
+  ContactStatus?: string;
+  Phones?: { PhoneType: string; PhoneNumber?: string; PhoneAreaCode?: string }[];
+  Addresses?: { AddressType: string; AddressLine1?: string; City?: string; Region?: string; PostalCode?: string }[];
+  ContactPersons?: { FirstName?: string; LastName?: string; EmailAddress?: string; IncludeInEmails?: boolean }[];
+}
+
+export interface XeroContactResult {
+  success: boolean;
+  contact?: XeroContactSummary;
+  linkedExisting?: boolean; // Found in Xero rather than created
+  error?: string;
+}
+
+function xeroHeaders(auth: XeroAuth): Record<string, string> {
+  return {
+    Authorization: `Bearer ${auth.accessToken}`,
+    'Xero-Tenant-Id': auth.xeroTenantId,
+    'Content-Type': 'application/json',
+    Accept: 'application/json',
+  };
+}
+
+// Xero's where clause takes string literals in double quotes
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function getContactName(customer: CustomerProfile): string {
+  return customer.business_name || customer.full_name || customer.email;
+}
+
+/**
+ * The Xero contact for a customer. Invoices are emailed to the accounts email when there
+ * is one, so it becomes the contact's address and the contact person is copied in.
+ */
+export function buildXeroContact(customer: CustomerProfile): Record<string, unknown> {
+  const [firstName, ...lastNames] = (customer.contact_name || '').trim().split(/\s+/);
+  const contactEmail = customer.contact_email || customer.email;
+  const contact: Record<string, unknown> = {
+    Name: getContactName(customer),
+    EmailAddress: customer.accounts_email || contactEmail,
+    IsCustomer: true,
+  };
+
+  if (firstName) {
+    contact.FirstName = firstName;
+    contact.LastName = lastNames.join(' ');
+  }
+  if (customer.customer_id) {
+    contact.AccountNumber = customer.customer_id;
+  }
+  if (customer.contact_phone) {
+    contact.Phones = [{ PhoneType: 'DEFAULT', PhoneNumber: customer.contact_phone }];
+  }
+  if (customer.delivery_address) {
+    contact.Addresses = [{ AddressType: 'STREET', AddressLine1: customer.delivery_address }];
+  }
+  if (customer.accounts_email && contactEmail && contactEmail !== customer.accounts_email) {
+    contact.ContactPersons = [{
+      FirstName: firstName || getContactName(customer),
+      LastName: lastNames.join(' '),
+      EmailAddress: contactEmail,
+      IncludeInEmails: true,
+    }];
+  }
+
+  return contact;
+}
+
+/**
+ * Profile fields that changed in Xero, for a linked customer
+ */
+export function getProfileUpdateFromContact(
+  customer: CustomerProfile,
+  contact: XeroContactSummary
+): Record<string, unknown> {
+  const update: Record<string, unknown> = {};
+  const phone = contact.Phones?.find((p) => p.PhoneType === 'DEFAULT' && p.PhoneNumber);
+  const address = contact.Addresses?.find((a) => a.AddressType === 'STREET' && a.AddressLine1);
+  const contactName = [contact.FirstName, contact.LastName].filter(Boolean).join(' ');
+
+  if (contact.Name && contact.Name !== customer.business_name) update.business_name = contact.Name;
+  if (contact.AccountNumber && contact.AccountNumber !== customer.customer_id) update.customer_id = contact.AccountNumber;
+  if (contactName && contactName !== customer.contact_name) update.contact_name = contactName;
+  if (phone) {
+    const phoneNumber = [phone.PhoneAreaCode, phone.PhoneNumber].filter(Boolean).join(' ');
+    if (phoneNumber !== customer.contact_phone) update.contact_phone = phoneNumber;
+  }
+  if (address) {
+    const fullAddress = [address.AddressLine1, address.City, address.Region, address.PostalCode].filter(Boolean).join(', ');
+    if (fullAddress !== customer.delivery_address) update.delivery_address = fullAddress;
+  }
+  if (contact.EmailAddress && contact.EmailAddress !== (customer.accounts_email || customer.contact_email || customer.email)) {
+    update.accounts_email = contact.EmailAddress;
+  }
+
+  return update;
+}
+
+export async function getXeroContact(auth: XeroAuth, contactId: string): Promise<XeroContactResult> {
+  const response = await fetch(`${XERO_API_URL}/Contacts/${contactId}`, { headers: xeroHeaders(auth) });
+  if (!response.ok) {
+    console.error('Failed to fetch Xero contact:', response.status, await response.text());
+    return { success: false, error: response.status === 404 ? 'Contact not found in Xero' : 'Failed to fetch contact from Xero' };
+  }
+  const contact = (await response.json()).Contacts?.[0];
+  return contact ? { success: true, contact } : { success: false, error: 'Contact not found in Xero' };
+}
+
+/**
+ * Active contacts whose name, email or account number match the search term
+ */
+export async function searchXeroContacts(auth: XeroAuth, term: string): Promise<XeroContactSummary[]> {
+  const params = new URLSearchParams({ searchTerm: term, summaryOnly: 'true', page: '1' });
+  const response = await fetch(`${XERO_API_URL}/Contacts?${params}`, { headers: xeroHeaders(auth) });
+  if (!response.ok) {
+    console.error('Xero contact search failed:', response.status, await response.text());
+    throw new Error('Failed to search contacts in Xero');
+  }
+  const contacts: XeroContactSummary[] = (await response.json()).Contacts || [];
+  return contacts.filter((contact) => contact.ContactStatus !== 'ARCHIVED').slice(0, 25);
+}
+
+/**
+ * An existing contact for this customer: same account number first, then same name
+ */
+export async function findExistingContact(auth: XeroAuth, customer: CustomerProfile): Promise<XeroContactSummary | null> {
+  const clauses = [
+    customer.customer_id ? `AccountNumber==${quote(customer.customer_id)}` : null,
+    `Name==${quote(getContactName(customer))}`,
+  ].filter((clause): clause is string => !!clause);
+
+  for (const where of clauses) {
+    const response = await fetch(`${XERO_API_URL}/Contacts?where=${encodeURIComponent(where)}`, {
+      headers: xeroHeaders(auth),
+    });
+    if (!response.ok) {
+      console.error('Xero contact lookup failed:', response.status, await response.text());
+      continue;
+    }
+    const contact = (await response.json()).Contacts?.find((c: XeroContactSummary) => c.ContactStatus !== 'ARCHIVED');
+    if (contact) return contact;
+  }
+  return null;
+}
+
+/**
+ * Create or update the customer's Xero contact and keep the link on the customer.
+ * An unlinked customer is linked to a matching contact before one is created.
+ */
+export async function syncCustomerContact(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  auth: XeroAuth,
+  customer: CustomerProfile
+): Promise<XeroContactResult> {
+  let contactId = customer.xero_contact_id || null;
+  let linkedExisting = false;
+
+  if (!contactId) {
+    const existing = await findExistingContact(auth, customer);
+    if (existing) {
+      console.log('Linking customer', customer.id, 'to existing Xero contact', existing.ContactID);
+      contactId = existing.ContactID;
+      linkedExisting = true;
+    }
+  }
+
+  const payload = buildXeroContact(customer);
+  if (contactId) {
+    payload.ContactID = contactId;
+  }
+
+  // POST creates, or updates when ContactID is given
+  const response = await fetch(`${XERO_API_URL}/Contacts`, {
+    method: 'POST',
+    headers: xeroHeaders(auth),
+    body: JSON.stringify({ Contacts: [payload] }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Xero contact sync failed:', response.status, errorText);
+    let message = 'Failed to sync the contact to Xero';
+    try {
+      const errorJson = JSON.parse(errorText);
+      const validation = (errorJson.Elements || [])
+        .flatMap((element: { ValidationErrors?: { Message: string }[] }) => element.ValidationErrors || [])
+        .map((valError: { Message: string }) => valError.Message);
+      if (validation.length > 0) message = `Xero validation error:\n• ${validation.join('\n• ')}`;
+      else if (errorJson.Message) message = errorJson.Message;
+    } catch {
+      // Keep the generic message
+    }
+    return { success: false, error: message };
+  }
+
+  const contact: XeroContactSummary | undefined = (await response.json()).Contacts?.[0];
+  if (!contact?.ContactID) {
+    return { success: false, error: 'No contact returned from Xero' };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({ xero_contact_id: contact.ContactID, xero_contact_synced_at: new Date().toISOString() })
+    .eq('id', customer.id);
+  if (error) {
+    console.error('Failed to save Xero contact link:', error.message);
+  }
+
+  return { success: true, contact, linkedExisting };
+}
+
+/**
+ * Link a customer to a contact already in Xero. Xero's details fill in profile fields
+ * the customer doesn't have yet; nothing in Xero is changed.
+ */
+export async function linkCustomerContact(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  auth: XeroAuth,
+  customer: CustomerProfile,
+  contactId: string
+): Promise<XeroContactResult> {
+  const result = await getXeroContact(auth, contactId);
+  if (!result.success || !result.contact) return result;
+
+  const update: Record<string, unknown> = {
+    xero_contact_id: result.contact.ContactID,
+    xero_contact_synced_at: new Date().toISOString(),
+  };
+  for (const [key, value] of Object.entries(getProfileUpdateFromContact(customer, result.contact))) {
+    if (!customer[key as keyof CustomerProfile]) update[key] = value;
+  }
+
+  const { error } = await supabaseAdmin.from('users').update(update).eq('id', customer.id);
+  if (error) {
+    console.error('Failed to link Xero contact:', error.message);
+    return { success: false, error: 'Failed to save the Xero contact link' };
+  }
+
+  return { success: true, contact: result.contact, linkedExisting: true };
+}
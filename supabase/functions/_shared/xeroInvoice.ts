@@ -0,0 +1,546 @@
+// Create an invoice in Xero from an order
+// Used by xero-create-invoice (manual export from the app) and process-xero-sync-queue
+// (exports queued on approval). Failures say whether they are worth retrying: rate
+// limits, Xero outages and network errors are; validation errors and missing setup are not.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { XERO_API_URL, getValidXeroToken } from './xero.ts';
+import {
+  CUSTOMER_PROFILE_COLUMNS,
+  CustomerProfile,
+  buildXeroContact,
+  findExistingContact,
+  syncCustomerContact,
+} from './xeroContacts.ts';
+import { LineTax, TaxItem, TaxSettings, fetchXeroTaxRates, getLineTax, getXeroTaxTypeError } from './xeroTax.ts';
+import { getDueDate, resolvePaymentTerms } from './paymentTerms.ts';
+
+export interface XeroInvoiceExportRequest {
+  userId: string; // Whose Xero connection to use
+  tenantId: string;
+  orderId: string;
+  invoiceId: string;
+  idempotencyKey?: string; // Same key on every attempt, so Xero creates the invoice once
+}
+
+export interface XeroInvoiceExportResult {
+  success: boolean;
+  status: number;
+  error?: string;
+  code?: string;
+  details?: string[];
+  retryable?: boolean;
+  retryAfterSeconds?: number; // Xero's Retry-After on a 429
+  xero_invoice_id?: string;
+  xero_invoice_number?: string;
+  pdf_storage_path?: string | null;
+}
+
+interface OrderItemWithXero {
+  id: string;
+  name: string;
+  quantity: number;
+  unit?: string;
+  unit_price: number;
+  total?: number;
+  price_source?: string;
+  tax_rate?: number | null;
+  xero_item_code?: string;
+  xero_account_code?: string;
+  item?: TaxItem | null;
+}
+
+function failure(
+  error: string,
+  status = 400,
+  code?: string,
+  extra: Partial<XeroInvoiceExportResult> = {}
+): XeroInvoiceExportResult {
+  return { success: false, status, error, code, ...extra };
+}
+
+// Pull every validation message out of a Xero error body
+function parseXeroError(errorText: string): { message: string; details: string[] } {
+  let message = 'Failed to create invoice in Xero';
+  const details: string[] = [];
+
+  try {
+    const errorJson = JSON.parse(errorText);
+
+    if (errorJson.Message) message = errorJson.Message;
+    if (errorJson.Detail) message = errorJson.Detail;
+
+    for (const element of errorJson.Elements || []) {
+      for (const valError of element.ValidationErrors || []) {
+        if (valError.Message) details.push(valError.Message);
+      }
+    }
+    for (const valError of errorJson.ValidationErrors || []) {
+      if (valError.Message) details.push(valError.Message);
+    }
+
+    // Problem detail (RFC 7807)
+    if (errorJson.title) {
+      message = errorJson.detail ? `${errorJson.title}: ${errorJson.detail}` : errorJson.title;
+    }
+
+    if (details.length > 0) {
+      message = `Xero validation error:\n• ${details.join('\n• ')}`;
+    }
+  } catch {
+    console.error('Could not parse Xero error response as JSON');
+    if (errorText.includes('validation') || errorText.includes('Validation')) {
+      message = 'Xero validation error: ' + errorText.substring(0, 200);
+    }
+  }
+
+  return { message, details };
+}
+
+// A failed Xero response: 429 and 5xx are temporary, anything else needs fixing first
+async function xeroResponseFailure(response: Response, fallback: string): Promise<XeroInvoiceExportResult> {
+  const errorText = await response.text();
+  console.error('Xero API error status:', response.status);
+  console.error('Xero API error body:', errorText);
+
+  if (response.status === 429) {
+    const retryAfter = parseInt(response.headers.get('Retry-After') || '', 10);
+    return failure('Xero rate limit reached. The export will be retried.', 429, 'XERO_RATE_LIMITED', {
+      retryable: true,
+      retryAfterSeconds: isNaN(retryAfter) ? undefined : retryAfter,
+    });
+  }
+
+  if (response.status >= 500) {
+    return failure(`Xero is unavailable (${response.status}). The export will be retried.`, 502, 'XERO_UNAVAILABLE', {
+      retryable: true,
+    });
+  }
+
+  const { message, details } = parseXeroError(errorText);
+  return failure(message || fallback, 400, 'XERO_API_ERROR', {
+    details: details.length > 0 ? details : undefined,
+  });
+}
+
+export async function exportInvoiceToXero(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  request: XeroInvoiceExportRequest
+): Promise<XeroInvoiceExportResult> {
+  const { userId, tenantId, orderId, invoiceId, idempotencyKey } = request;
+
+  // Get invoice
+  const { data: invoice, error: invoiceError } = await supabaseAdmin
+    .from('invoices')
+    .select('*')
+    .eq('id', invoiceId)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    console.error('ERROR: Invoice not found -', invoiceError?.message);
+    return failure('Invoice not found', 404);
+  }
+  console.log('Invoice found:', invoice.invoice_number);
+
+  // Already exported (by the queue or by hand) - never create it twice
+  if (invoice.xero_invoice_id) {
+    console.log('Invoice already in Xero:', invoice.xero_invoice_id);
+    return {
+      success: true,
+      status: 200,
+      xero_invoice_id: invoice.xero_invoice_id,
+      pdf_storage_path: invoice.pdf_storage_path,
+    };
+  }
+  if (invoice.status === 'cancelled') {
+    return failure(`Invoice ${invoice.invoice_number} has been voided.`, 400, 'INVOICE_VOIDED');
+  }
+
+  // Get valid Xero token (user-based integrations)
+  console.log('Fetching Xero token for user:', userId);
+  const tokenResult = await getValidXeroToken(userId);
+  if (!tokenResult.success || !tokenResult.accessToken) {
+    console.error('ERROR: Xero token error for user', userId, '-', tokenResult.error);
+    return failure(
+      tokenResult.error || 'Xero not connected. Please connect your Xero account in Settings.',
+      400,
+      'XERO_NOT_CONNECTED'
+    );
+  }
+  console.log('Xero token retrieved, Xero Tenant ID:', tokenResult.xeroTenantId);
+
+  // Get order with items (including xero codes)
+  console.log('Fetching order with items...');
+  const { data: order, error: orderError } = await supabaseAdmin
+    .from('orders')
+    .select(`
+      *,
+      items:order_items(
+        id,
+        name,
+        quantity,
+        unit,
+        unit_price,
+        total,
+        price_source,
+        tax_rate,
+        xero_item_code,
+        xero_account_code,
+        item:items(tax_rate, category, categories)
+      )
+    `)
+    .eq('id', orderId)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (orderError || !order) {
+    console.error('ERROR: Order not found -', orderError?.message);
+    return failure('Order not found', 404);
+  }
+  console.log('Order found:', order.order_number || order.id);
+  console.log('Order items count:', order.items?.length || 0);
+
+  // Check for customer linked to order
+  if (!order.customer_id) {
+    console.error('ERROR: Order has no customer linked');
+    return failure('Cannot export to Xero without a customer linked to this order.', 400, 'NO_CUSTOMER_LINKED');
+  }
+
+  // Get customer info from customer_id (the customer this order is FOR)
+  console.log('Fetching customer info for customer_id:', order.customer_id);
+  const { data: customer } = await supabaseAdmin
+    .from('users')
+    .select(`${CUSTOMER_PROFILE_COLUMNS}, payment_terms, tenant_id`)
+    .eq('id', order.customer_id)
+    .single();
+
+  if (!customer) {
+    console.error('ERROR: Customer not found for order.customer_id:', order.customer_id);
+    return failure('Customer not found.', 400, 'CUSTOMER_NOT_FOUND');
+  }
+
+  // Check if customer has a Customer ID (required for Xero)
+  if (!customer.customer_id) {
+    console.error('ERROR: Customer does not have a Customer ID set:', customer.business_name || customer.full_name);
+    return failure(
+      `Cannot export to Xero: Customer "${customer.business_name || customer.full_name}" does not have a Customer ID assigned. Please assign a Customer ID in the customer details.`,
+      400,
+      'NO_CUSTOMER_ID'
+    );
+  }
+
+  const customerName = customer.business_name || customer.full_name || 'Customer';
+  console.log('Customer found:', customerName, 'Xero Contact ID:', customer.xero_contact_id || 'none');
+
+  const { data: tenant } = await supabaseAdmin
+    .from('tenants')
+    .select('settings')
+    .eq('id', tenantId)
+    .single();
+  const taxSettings = (tenant?.settings || {}) as TaxSettings;
+
+  const orderItems = (order.items || []) as OrderItemWithXero[];
+  const lineTaxes: LineTax[] = orderItems.map((orderItem) =>
+    getLineTax(taxSettings, { ...orderItem, total: orderItem.total ?? orderItem.quantity * orderItem.unit_price }, orderItem.item)
+  );
+
+  // Validate all items have required Xero fields
+  console.log('Validating Xero fields on items...');
+  const itemErrors: string[] = [];
+  orderItems.forEach((orderItem, index) => {
+    const missingFields: string[] = [];
+
+    if (!orderItem.xero_item_code) {
+      missingFields.push('Xero Item Code');
+    }
+    // Falls back to the category's or tax code's account
+    if (!lineTaxes[index].accountCode) {
+      missingFields.push('Xero Account Code');
+    }
+    if (!orderItem.unit_price || orderItem.unit_price <= 0) {
+      missingFields.push('Unit Price');
+    }
+
+    if (missingFields.length > 0) {
+      itemErrors.push(`"${orderItem.name}" is missing: ${missingFields.join(', ')}`);
+    }
+  });
+
+  if (itemErrors.length > 0) {
+    console.error('ERROR: Items missing Xero fields:', itemErrors);
+    return failure(
+      `Cannot export to Xero. The following items need updating:\n• ${itemErrors.join('\n• ')}`,
+      400,
+      'MISSING_XERO_FIELDS'
+    );
+  }
+
+  // Every rate charged needs a Xero tax type that exists and charges the same rate,
+  // otherwise Xero recalculates the GST and the totals no longer match ours
+  const unmappedRates = [...new Set(lineTaxes.filter((lineTax) => !lineTax.taxType).map((lineTax) => lineTax.rate))];
+  if (unmappedRates.length > 0) {
+    console.error('ERROR: Tax rates with no Xero tax type:', unmappedRates);
+    return failure(
+      `Cannot export to Xero: no Xero tax type is set for ${unmappedRates.map((rate) => `${rate}%`).join(', ')}. Add it in Settings → Tax Codes.`,
+      400,
+      'NO_TAX_CODE'
+    );
+  }
+
+  const xeroHeaders: Record<string, string> = {
+    Authorization: `Bearer ${tokenResult.accessToken}`,
+    'Xero-Tenant-Id': tokenResult.xeroTenantId!,
+  };
+
+  console.log('Checking tax types in Xero...');
+  let taxRatesResult: Awaited<ReturnType<typeof fetchXeroTaxRates>>;
+  try {
+    taxRatesResult = await fetchXeroTaxRates(xeroHeaders);
+  } catch (networkError) {
+    console.error('ERROR: Could not reach Xero -', networkError);
+    return failure('Could not reach Xero. The export will be retried.', 502, 'XERO_UNREACHABLE', { retryable: true });
+  }
+  if (!taxRatesResult.rates) {
+    return await xeroResponseFailure(taxRatesResult.response!, 'Failed to load tax rates from Xero');
+  }
+
+  const taxTypeErrors = [...new Set(
+    lineTaxes
+      .map((lineTax) => getXeroTaxTypeError(lineTax, taxRatesResult.rates!))
+      .filter((taxError): taxError is string => !!taxError)
+  )];
+  if (taxTypeErrors.length > 0) {
+    console.error('ERROR: Tax types do not match Xero:', taxTypeErrors);
+    return failure(
+      `Cannot export to Xero. Check Settings → Tax Codes:\n• ${taxTypeErrors.join('\n• ')}`,
+      400,
+      'TAX_CODE_MISMATCH',
+      { details: taxTypeErrors }
+    );
+  }
+
+  // The invoice's GST must be what Xero will work out from the lines, allowing for
+  // rounding. Orders from before tax codes, or edited since, can disagree.
+  const lineTaxTotal = lineTaxes.reduce((sum, lineTax) => sum + lineTax.amount, 0);
+  if (Math.abs(lineTaxTotal - Number(invoice.tax || 0)) > orderItems.length * 0.005) {
+    console.error('ERROR: Invoice GST', invoice.tax, 'does not match line GST', lineTaxTotal);
+    return failure(
+      `Cannot export to Xero: invoice ${invoice.invoice_number} has GST of $${Number(invoice.tax || 0).toFixed(2)}, but its lines add up to $${lineTaxTotal.toFixed(2)}. Regenerate the invoice from the order.`,
+      400,
+      'TAX_MISMATCH'
+    );
+  }
+
+  // Build line items with Xero codes
+  console.log('Building line items...');
+  const lineItems = orderItems.map((orderItem, index) => {
+    const lineTax = lineTaxes[index];
+    console.log(`Line ${index + 1}: "${orderItem.name}" | Qty: ${orderItem.quantity} | Price: ${orderItem.unit_price} | AccountCode: ${lineTax.accountCode} | ItemCode: ${orderItem.xero_item_code} | TaxType: ${lineTax.taxType}`);
+
+    // Carton lines are quantity in cartons at the price per carton
+    const isCartonLine = orderItem.price_source === 'carton' || orderItem.price_source === 'quantity_break';
+
+    return {
+      Description: isCartonLine ? `${orderItem.name} (${orderItem.unit})` : orderItem.name,
+      Quantity: orderItem.quantity,
+      UnitAmount: orderItem.unit_price,
+      AccountCode: lineTax.accountCode,
+      ItemCode: orderItem.xero_item_code,
+      TaxType: lineTax.taxType,
+      TaxAmount: lineTax.amount,
+    };
+  });
+
+  // Xero dates the invoice by delivery, and it falls due on the terms it was raised on
+  // (the customer's with their own business, then the tenant default, for invoices from
+  // before payment terms)
+  const deliveryDate = order.requested_delivery_date || order.order_date || new Date().toISOString().split('T')[0];
+  const paymentTerms = resolvePaymentTerms(
+    invoice.payment_terms,
+    customer.tenant_id === tenantId ? customer.payment_terms : null,
+    (tenant?.settings as { payment_terms?: string } | null)?.payment_terms
+  );
+  const dueDate = getDueDate(deliveryDate, paymentTerms);
+
+  console.log('Invoice dates - Delivery/Invoice Date:', deliveryDate, 'Due Date:', dueDate, 'Terms:', paymentTerms);
+
+  // Invoices always go to the customer's linked contact. Sending a Name instead made Xero
+  // create a new contact whenever the name didn't match exactly, so an unlinked customer
+  // is linked (or created in Xero) first. The link belongs to the customer's own business;
+  // any other business finds their contact in its Xero without keeping a link.
+  const auth = { accessToken: tokenResult.accessToken, xeroTenantId: tokenResult.xeroTenantId! };
+  const isHomeBusiness = customer.tenant_id === tenantId;
+  let xeroContactId: string | null = isHomeBusiness ? customer.xero_contact_id || null : null;
+  if (!isHomeBusiness) {
+    // Not found: Xero creates the contact from the invoice
+    xeroContactId = (await findExistingContact(auth, customer as CustomerProfile))?.ContactID || null;
+  } else if (!xeroContactId) {
+    console.log('Customer has no Xero contact, syncing...');
+    const contactResult = await syncCustomerContact(supabaseAdmin, auth, customer as CustomerProfile);
+    if (!contactResult.success || !contactResult.contact) {
+      console.error('ERROR: Could not get a Xero contact for customer:', contactResult.error);
+      return failure(
+        `Cannot export to Xero: the contact for "${customerName}" could not be created. ${contactResult.error || ''}`.trim(),
+        400,
+        'XERO_CONTACT_FAILED'
+      );
+    }
+    xeroContactId = contactResult.contact.ContactID;
+  }
+
+  // Build Xero invoice payload
+  // InvoiceNumber is ours (assign_invoice_number) so the numbers match in both systems
+  const xeroInvoice = {
+    Type: 'ACCREC', // Accounts Receivable (Sales Invoice)
+    Contact: xeroContactId ? { ContactID: xeroContactId } : buildXeroContact(customer as CustomerProfile),
+    InvoiceNumber: invoice.invoice_number,
+    Date: deliveryDate,
+    DueDate: dueDate,
+    LineAmountTypes: 'Exclusive', // Tax exclusive
+    Reference: order.order_number || order.id.substring(0, 8),
+    Status: 'AUTHORISED',
+    LineItems: lineItems,
+  };
+
+  console.log('Xero invoice payload:', JSON.stringify(xeroInvoice, null, 2));
+
+  // Create invoice in Xero
+  console.log('Sending invoice to Xero API...', idempotencyKey ? `(Idempotency-Key ${idempotencyKey})` : '');
+  let xeroResponse: Response;
+  try {
+    xeroResponse = await fetch(`${XERO_API_URL}/Invoices`, {
+      method: 'POST',
+      headers: {
+        ...xeroHeaders,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      },
+      body: JSON.stringify({ Invoices: [xeroInvoice] }),
+    });
+  } catch (networkError) {
+    console.error('ERROR: Could not reach Xero -', networkError);
+    return failure('Could not reach Xero. The export will be retried.', 502, 'XERO_UNREACHABLE', { retryable: true });
+  }
+
+  console.log('Xero API response status:', xeroResponse.status, xeroResponse.statusText);
+
+  if (!xeroResponse.ok) {
+    return await xeroResponseFailure(xeroResponse, 'Failed to create invoice in Xero');
+  }
+
+  const xeroResult = await xeroResponse.json();
+  const createdInvoice = xeroResult.Invoices?.[0];
+
+  if (!createdInvoice) {
+    console.error('ERROR: No invoice in Xero response');
+    return failure('No invoice returned from Xero', 500, undefined, { retryable: true });
+  }
+
+  console.log('Xero Invoice created - ID:', createdInvoice.InvoiceID, 'Number:', createdInvoice.InvoiceNumber);
+
+  // Verify invoice exists in Xero by fetching it back
+  console.log('Verifying invoice exists in Xero...');
+  const verifyResponse = await fetch(`${XERO_API_URL}/Invoices/${createdInvoice.InvoiceID}`, {
+    method: 'GET',
+    headers: { ...xeroHeaders, Accept: 'application/json' },
+  });
+
+  if (!verifyResponse.ok) {
+    // A retry sends the same idempotency key and gets this invoice back rather than a new one
+    console.error('ERROR: Failed to verify invoice in Xero - status:', verifyResponse.status);
+    return failure(
+      'Invoice was sent to Xero but verification failed. Please check Xero manually.',
+      500,
+      'VERIFICATION_FAILED',
+      { retryable: verifyResponse.status === 429 || verifyResponse.status >= 500 }
+    );
+  }
+
+  const verifiedInvoice = (await verifyResponse.json()).Invoices?.[0];
+
+  if (!verifiedInvoice || verifiedInvoice.InvoiceID !== createdInvoice.InvoiceID) {
+    console.error('ERROR: Invoice verification mismatch');
+    return failure(
+      'Invoice verification failed - invoice not found in Xero after creation.',
+      500,
+      'VERIFICATION_MISMATCH'
+    );
+  }
+
+  console.log('Invoice verified in Xero - Status:', verifiedInvoice.Status, 'Total:', verifiedInvoice.Total);
+
+  // Fetch PDF from Xero immediately
+  console.log('Fetching PDF from Xero...');
+  let pdfStoragePath: string | null = null;
+
+  try {
+    const pdfResponse = await fetch(`${XERO_API_URL}/Invoices/${createdInvoice.InvoiceID}`, {
+      method: 'GET',
+      headers: { ...xeroHeaders, Accept: 'application/pdf' },
+    });
+
+    if (pdfResponse.ok) {
+      const pdfBuffer = await pdfResponse.arrayBuffer();
+      console.log('PDF fetched, size:', pdfBuffer.byteLength, 'bytes');
+
+      // Upload to Supabase Storage
+      const storagePath = `${tenantId}/${createdInvoice.InvoiceNumber || createdInvoice.InvoiceID}.pdf`;
+      console.log('Uploading PDF to storage:', storagePath);
+
+      const { error: uploadError } = await supabaseAdmin.storage
+        .from('invoice-pdfs')
+        .upload(storagePath, pdfBuffer, {
+          contentType: 'application/pdf',
+          upsert: true,
+        });
+
+      if (uploadError) {
+        console.error('Warning: Failed to upload PDF -', uploadError.message);
+      } else {
+        pdfStoragePath = storagePath;
+        console.log('PDF uploaded successfully');
+      }
+    } else {
+      console.error('Warning: Failed to fetch PDF from Xero -', pdfResponse.status);
+    }
+  } catch (pdfError) {
+    console.error('Warning: Error fetching/storing PDF -', pdfError);
+  }
+
+  // Update local invoice with Xero ID and PDF path
+  console.log('Updating local invoice with Xero ID...');
+  const updateData: Record<string, unknown> = {
+    xero_invoice_id: createdInvoice.InvoiceID,
+    exported_at: new Date().toISOString(),
+    status: 'exported',
+    export_error: null,
+    due_date: dueDate, // As in Xero, so overdue checks agree with it
+    payment_terms: paymentTerms,
+    customer_id: order.customer_id, // Ensure customer_id is set for customer visibility
+    shared_with_customer_at: new Date().toISOString(), // Share with customer after successful export
+  };
+
+  if (pdfStoragePath) {
+    updateData.pdf_storage_path = pdfStoragePath;
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('invoices')
+    .update(updateData)
+    .eq('id', invoiceId);
+
+  if (updateError) {
+    console.error('Warning: Failed to update local invoice -', updateError.message);
+  } else {
+    console.log('Local invoice updated successfully');
+  }
+
+  return {
+    success: true,
+    status: 200,
+    xero_invoice_id: createdInvoice.InvoiceID,
+    xero_invoice_number: createdInvoice.InvoiceNumber,
+    pdf_storage_path: pdfStoragePath,
+  };
+}
@@ -0,0 +1,179 @@
+// Apply a Xero invoice's payment state to the local invoice
+// Shared by xero-webhook (as changes happen) and xero-reconcile-invoices (nightly catch-up).
+// Each payment is also kept in invoice_payments, for customer statements.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface XeroInvoicePayment {
+  PaymentID?: string;
+  Date?: string;
+  Amount?: number;
+  Reference?: string;
+}
+
+export interface XeroInvoiceSummary {
+  InvoiceID: string;
+  Status: string; // DRAFT, SUBMITTED, AUTHORISED, PAID, VOIDED, DELETED
+  AmountPaid?: number;
+  AmountDue?: number;
+  FullyPaidOnDate?: string;
+  UpdatedDateUTC?: string;
+  Payments?: XeroInvoicePayment[];
+}
+
+export interface LocalInvoice {
+  id: string;
+  tenant_id: string;
+  customer_id?: string | null;
+  status: string;
+  voided_at?: string | null;
+  void_reason?: string | null;
+  last_payment_date?: string | null;
+  xero_updated_at?: string | null;
+}
+
+export const LOCAL_INVOICE_COLUMNS = 'id, tenant_id, customer_id, status, voided_at, void_reason, last_payment_date, xero_updated_at';
+
+// Xero dates come as "/Date(1518685950940+0000)/" or ISO strings
+export function parseXeroDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const msDate = /\/Date\((-?\d+)([+-]\d{4})?\)\//.exec(value);
+  const date = msDate ? new Date(Number(msDate[1])) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toDateString(date: Date | null): string | null {
+  return date ? date.toISOString().split('T')[0] : null;
+}
+
+/**
+ * Columns to update on the local invoice, or null when nothing changed or Xero's copy
+ * is older than the one already applied.
+ */
+export function getPaymentUpdate(invoice: LocalInvoice, xeroInvoice: XeroInvoiceSummary): Record<string, unknown> | null {
+  const xeroUpdatedAt = parseXeroDate(xeroInvoice.UpdatedDateUTC);
+  if (xeroUpdatedAt && invoice.xero_updated_at && new Date(invoice.xero_updated_at) >= xeroUpdatedAt) {
+    return null;
+  }
+
+  const amountPaid = Number(xeroInvoice.AmountPaid ?? 0);
+  const amountDue = xeroInvoice.AmountDue != null ? Number(xeroInvoice.AmountDue) : null;
+
+  const paymentDates = (xeroInvoice.Payments || [])
+    .map((payment) => parseXeroDate(payment.Date))
+    .filter((date): date is Date => !!date)
+    .sort((a, b) => b.getTime() - a.getTime());
+  const lastPaymentDate =
+    toDateString(paymentDates[0] || parseXeroDate(xeroInvoice.FullyPaidOnDate)) || invoice.last_payment_date || null;
+
+  let status = invoice.status;
+  const update: Record<string, unknown> = {};
+
+  if (invoice.status === 'cancelled') {
+    // Voided in the app, which voided it in Xero too
+  } else if (xeroInvoice.Status === 'VOIDED' || xeroInvoice.Status === 'DELETED') {
+    status = xeroInvoice.Status === 'VOIDED' ? 'voided' : 'deleted';
+    if (!invoice.voided_at) {
+      update.voided_at = new Date().toISOString();
+      update.void_reason = invoice.void_reason || (status === 'voided' ? 'Voided in Xero' : 'Deleted in Xero');
+    }
+  } else if (xeroInvoice.Status === 'PAID') {
+    status = 'paid';
+  } else if (amountPaid > 0) {
+    status = 'partially_paid';
+  } else if (['paid', 'partially_paid', 'voided', 'deleted'].includes(invoice.status)) {
+    // Payment removed, or the invoice restored in Xero
+    status = 'exported';
+  }
+
+  if (status !== invoice.status) {
+    update.status = status;
+  }
+
+  return {
+    ...update,
+    amount_paid: amountPaid,
+    amount_due: amountDue,
+    last_payment_date: lastPaymentDate,
+    xero_updated_at: xeroUpdatedAt ? xeroUpdatedAt.toISOString() : null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Make invoice_payments match the payments on the Xero invoice: new ones added, changed
+ * ones updated, and ones removed in Xero (or on a voided invoice) deleted.
+ */
+export async function syncInvoicePayments(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  invoice: LocalInvoice,
+  xeroInvoice: XeroInvoiceSummary
+): Promise<void> {
+  const payments = (xeroInvoice.Payments || [])
+    .map((payment) => ({
+      tenant_id: invoice.tenant_id,
+      invoice_id: invoice.id,
+      customer_id: invoice.customer_id || null,
+      xero_payment_id: payment.PaymentID,
+      payment_date: toDateString(parseXeroDate(payment.Date)),
+      amount: Number(payment.Amount ?? 0),
+      reference: payment.Reference || null,
+      updated_at: new Date().toISOString(),
+    }))
+    .filter((payment) => payment.xero_payment_id && payment.payment_date);
+
+  if (payments.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('invoice_payments')
+      .upsert(payments, { onConflict: 'xero_payment_id' });
+    if (error) {
+      console.error('Failed to save payments for invoice', invoice.id, '-', error.message);
+      return;
+    }
+  }
+
+  let removed = supabaseAdmin.from('invoice_payments').delete().eq('invoice_id', invoice.id);
+  if (payments.length > 0) {
+    removed = removed.not('xero_payment_id', 'in', `(${payments.map((payment) => payment.xero_payment_id).join(',')})`);
+  }
+  const { error } = await removed;
+  if (error) {
+    console.error('Failed to remove old payments for invoice', invoice.id, '-', error.message);
+  }
+}
+
+/**
+ * Update the local invoice from Xero. Returns whether anything was written.
+ */
+export async function applyXeroInvoice(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  invoice: LocalInvoice,
+  xeroInvoice: XeroInvoiceSummary
+): Promise<boolean> {
+  // Payments first: an invoice already up to date may still be missing them. Only an
+  // older copy of the invoice than the one applied is skipped.
+  const xeroUpdatedAt = parseXeroDate(xeroInvoice.UpdatedDateUTC);
+  if (!xeroUpdatedAt || !invoice.xero_updated_at || new Date(invoice.xero_updated_at) <= xeroUpdatedAt) {
+    await syncInvoicePayments(supabaseAdmin, invoice, xeroInvoice);
+  }
+
+  const update = getPaymentUpdate(invoice, xeroInvoice);
+  if (!update) {
+    console.log('Invoice', invoice.id, 'already up to date with Xero');
+    return false;
+  }
+
+  if (update.status) {
+    console.log('Updating invoice', invoice.id, 'status from', invoice.status, 'to', update.status);
+  }
+
+  const { error } = await supabaseAdmin
+    .from('invoices')
+    .update(update)
+    .eq('id', invoice.id);
+
+  if (error) {
+    console.error('Failed to update invoice', invoice.id, '-', error.message);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,109 @@
+// Tax codes for Xero exports
+// A line's GST rate comes from the line itself (order_items.tax_rate), then the item,
+// then the item's category default, then the tenant's tax_rate - the same order as
+// line_tax_rate in supabase/migrations/20260216000015_tax_codes.sql. The tenant's
+// settings.tax_codes map each rate to a Xero tax type and account code.
+import { XERO_API_URL } from './xero.ts';
+
+export interface TaxCode {
+  rate: number;
+  xero_tax_type: string;
+  xero_account_code?: string;
+  label?: string;
+}
+
+export interface TaxSettings {
+  tax_rate?: number;
+  tax_codes?: TaxCode[];
+  category_tax?: Record<string, { tax_rate?: number; xero_account_code?: string }>;
+}
+
+// The item a line was ordered from, for its rate and category
+export interface TaxItem {
+  tax_rate?: number | null;
+  category?: string | null;
+  categories?: string[] | null;
+}
+
+export interface LineTax {
+  rate: number;
+  taxType?: string; // Missing when the rate isn't mapped
+  accountCode?: string;
+  amount: number;
+}
+
+export interface XeroTaxRate {
+  TaxType: string;
+  Name: string;
+  Status: string;
+  EffectiveRate: number;
+}
+
+// Used until a tenant sets up its own mapping
+export const DEFAULT_TAX_CODES: TaxCode[] = [
+  { rate: 10, xero_tax_type: 'OUTPUT', xero_account_code: '200', label: 'GST on Income' },
+  { rate: 0, xero_tax_type: 'EXEMPTOUTPUT', xero_account_code: '200', label: 'GST Free Income' },
+];
+
+export function getTaxCodes(settings?: TaxSettings | null): TaxCode[] {
+  return settings?.tax_codes && settings.tax_codes.length > 0 ? settings.tax_codes : DEFAULT_TAX_CODES;
+}
+
+/**
+ * Rate, Xero tax type, account code and GST for one line. The line's own account code
+ * wins; otherwise the category's, then the tax code's.
+ */
+export function getLineTax(
+  settings: TaxSettings | null | undefined,
+  line: { total: number; tax_rate?: number | null; xero_account_code?: string | null },
+  item?: TaxItem | null
+): LineTax {
+  const category = item?.category || item?.categories?.[0] || null;
+  const categoryTax = category ? settings?.category_tax?.[category] : undefined;
+  const rate = Number(line.tax_rate ?? item?.tax_rate ?? categoryTax?.tax_rate ?? settings?.tax_rate ?? 0);
+  const taxCode = getTaxCodes(settings).find((code) => Number(code.rate) === rate);
+
+  return {
+    rate,
+    taxType: taxCode?.xero_tax_type,
+    accountCode: line.xero_account_code || categoryTax?.xero_account_code || taxCode?.xero_account_code,
+    amount: Math.round(Number(line.total) * rate) / 100,
+  };
+}
+
+/**
+ * The organisation's tax rates, keyed by tax type. Returns the failed response so the
+ * caller can tell a rate limit from anything else.
+ */
+export async function fetchXeroTaxRates(
+  headers: Record<string, string>
+): Promise<{ rates?: Map<string, XeroTaxRate>; response?: Response }> {
+  const response = await fetch(`${XERO_API_URL}/TaxRates`, {
+    headers: { ...headers, Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    return { response };
+  }
+  const rates: XeroTaxRate[] = (await response.json()).TaxRates || [];
+  return { rates: new Map(rates.map((rate) => [rate.TaxType, rate])) };
+}
+
+/**
+ * Why a line's tax type can't be used in Xero, if it can't
+ */
+export function getXeroTaxTypeError(lineTax: LineTax, xeroRates: Map<string, XeroTaxRate>): string | null {
+  if (!lineTax.taxType) {
+    return `no Xero tax type is set for ${lineTax.rate}% (Settings → Tax Codes)`;
+  }
+  const xeroRate = xeroRates.get(lineTax.taxType);
+  if (!xeroRate) {
+    return `Xero has no tax type ${lineTax.taxType}`;
+  }
+  if (xeroRate.Status !== 'ACTIVE') {
+    return `${xeroRate.Name} (${lineTax.taxType}) is not active in Xero`;
+  }
+  if (Number(xeroRate.EffectiveRate) !== lineTax.rate) {
+    return `${xeroRate.Name} (${lineTax.taxType}) is ${xeroRate.EffectiveRate}% in Xero, but the line is charged ${lineTax.rate}%`;
+  }
+  return null;
+}
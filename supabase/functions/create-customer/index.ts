@@ -1,6 +1,8 @@
 // Create Customer - Creates auth user and database record
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getValidXeroToken } from '../_shared/xero.ts';
+import { CUSTOMER_PROFILE_COLUMNS, CustomerProfile, syncCustomerContact } from '../_shared/xeroContacts.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -236,6 +238,34 @@ serve(async (req) => {
       console.log('Customer supplier relationship created');
     }
 
+    // Create (or link) the customer's Xero contact when the business uses Xero
+    let xeroContactId: string | null = customerData.xero_contact_id || null;
+    let xeroWarning: string | null = null;
+    const tokenResult = await getValidXeroToken(user.id);
+    if (tokenResult.success && tokenResult.accessToken) {
+      const { data: profile } = await supabaseAdmin
+        .from('users')
+        .select(CUSTOMER_PROFILE_COLUMNS)
+        .eq('id', authUser.user.id)
+        .single();
+
+      if (profile) {
+        const contactResult = await syncCustomerContact(
+          supabaseAdmin,
+          { accessToken: tokenResult.accessToken, xeroTenantId: tokenResult.xeroTenantId! },
+          profile as CustomerProfile
+        );
+        if (contactResult.success && contactResult.contact) {
+          xeroContactId = contactResult.contact.ContactID;
+          console.log('Xero contact', contactResult.linkedExisting ? 'linked:' : 'created:', xeroContactId);
+        } else {
+          // Don't fail the whole operation - the contact is created on the first export
+          console.warn('Failed to sync Xero contact:', contactResult.error);
+          xeroWarning = contactResult.error || 'Failed to create the Xero contact';
+        }
+      }
+    }
+
     // Send password reset email so customer can set their own password
     const { error: resetError } = await supabaseAdmin.auth.admin.generateLink({
       type: 'recovery',
@@ -267,6 +297,8 @@ serve(async (req) => {
         success: true,
         user_id: authUser.user.id,
         message: 'Customer created. A password reset email has been sent.',
+        xero_contact_id: xeroContactId,
+        xero_warning: xeroWarning,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,283 @@
+// Generate Standing Orders - turn recurring order templates into orders
+// Called every 15 minutes by pg_cron (trigger_standing_orders). Within a day of the
+// supplier's cutoff for a template's next delivery it either places a pending_approval
+// order (auto_submit) or reminds the customer to place it. Templates whose cutoff has
+// passed, or whose delivery falls on a supplier closure date, move on to their next delivery date.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadCustomerPriceLists, priceLine } from '../_shared/pricing.ts';
+import { DEFAULT_TIMEZONE, getDeliveryCutoff, getNextCycleDeliveryDate } from '../_shared/deliverySchedule.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How long before the cutoff orders are placed and reminders sent
+const LEAD_TIME_MS = 24 * 60 * 60 * 1000;
+
+interface StandingOrderRow {
+  id: string;
+  tenant_id: string;
+  customer_id: string;
+  supplier_id: string;
+  name: string;
+  interval_weeks: number;
+  auto_submit: boolean;
+  next_delivery_date: string;
+  last_generated_for: string | null;
+  last_reminded_for: string | null;
+  notes: string | null;
+  supplier: {
+    id: string;
+    name: string;
+    cutoff_time: string | null;
+    closure_dates: { date: string; reason?: string }[] | null;
+    delivery_fee: number | null;
+    free_delivery_min: number | null;
+    min_order: number | null;
+    status: string;
+  } | null;
+  tenant: { id: string; name: string; settings: { timezone?: string } | null } | null;
+  customer: { id: string; business_name: string | null; full_name: string | null; email: string } | null;
+  items: {
+    item_id: string;
+    quantity: number;
+    item: {
+      id: string;
+      name: string;
+      sku: string | null;
+      barcode: string | null;
+      status: string;
+      wholesale_price: number | null;
+      size: string | null;
+      carton_size: number | null;
+      carton_price: number | null;
+      carton_price_breaks: { min_cartons: number; carton_price: number }[] | null;
+      xero_item_code: string | null;
+      xero_account_code: string | null;
+    } | null;
+  }[];
+}
+
+async function notify(
+  supabase: ReturnType<typeof createClient>,
+  userIds: string[],
+  title: string,
+  body: string,
+  data: Record<string, unknown>
+) {
+  if (userIds.length === 0) return;
+  const { error } = await supabase.functions.invoke('send-notification', {
+    body: { userIds, title, body, data },
+  });
+  if (error) {
+    console.error('Failed to send notification:', error);
+  }
+}
+
+async function placeStandingOrder(
+  supabase: ReturnType<typeof createClient>,
+  standing: StandingOrderRow
+): Promise<{ orderId?: string; error?: string }> {
+  const supplier = standing.supplier!;
+  const customer = standing.customer!;
+  const priceLists = await loadCustomerPriceLists(supabase, standing.tenant_id, customer);
+
+  const lines = [];
+  const skipped: string[] = [];
+  for (const line of standing.items) {
+    if (!line.item || line.item.status !== 'active') {
+      skipped.push(line.item?.name || 'Removed item');
+      continue;
+    }
+    for (const priced of priceLine(line.item, Number(line.quantity), priceLists)) {
+      lines.push({
+        procurement_item_id: line.item.id,
+        code: line.item.barcode || line.item.sku || null,
+        name: line.item.name,
+        quantity: priced.quantity,
+        unit: priced.unit,
+        unit_price: priced.unit_price,
+        xero_item_code: line.item.xero_item_code,
+        xero_account_code: line.item.xero_account_code,
+        price_source: priced.price_source,
+        price_list_id: priced.price_list_id,
+      });
+    }
+  }
+
+  if (lines.length === 0) {
+    return { error: 'None of the items are available' };
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+  if (supplier.min_order && subtotal < supplier.min_order) {
+    return { error: `Below the $${Number(supplier.min_order).toFixed(2)} minimum order` };
+  }
+  const deliveryFee = supplier.free_delivery_min && subtotal >= supplier.free_delivery_min
+    ? 0
+    : Number(supplier.delivery_fee || 0);
+
+  let notes = `Standing order: ${standing.name}`;
+  if (standing.notes) notes += `\n${standing.notes}`;
+  if (skipped.length > 0) notes += `\n\nNot available, left off: ${skipped.join(', ')}`;
+
+  const { data: created, error: orderError } = await supabase.rpc('create_order_with_items', {
+    p_order: {
+      tenant_id: standing.tenant_id,
+      supplier_id: standing.supplier_id,
+      customer_id: customer.id,
+      created_by: customer.id,
+      order_date: new Date().toISOString().split('T')[0],
+      requested_delivery_date: standing.next_delivery_date,
+      delivery_fee: deliveryFee,
+      status: 'pending_approval',
+      notes,
+      standing_order_id: standing.id,
+    },
+    p_items: lines,
+    p_create_invoice: false,
+    p_source: 'system',
+  });
+
+  if (orderError) {
+    return { error: orderError.message };
+  }
+
+  return { orderId: created.order.id as string };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Generate Standing Orders - Start ===');
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const now = new Date();
+    // Cutoffs are the day before delivery, so anything due within a week covers the lead time
+    const horizon = new Date(now.getTime() + 8 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const { data, error } = await supabase
+      .from('standing_orders')
+      .select(`
+        *,
+        supplier:suppliers(id, name, cutoff_time, closure_dates, delivery_fee, free_delivery_min, min_order, status),
+        tenant:tenants(id, name, settings),
+        customer:users(id, business_name, full_name, email),
+        items:standing_order_items(item_id, quantity, item:items(id, name, sku, barcode, status, wholesale_price, size, carton_size, carton_price, carton_price_breaks, xero_item_code, xero_account_code))
+      `)
+      .eq('is_active', true)
+      .lte('next_delivery_date', horizon);
+
+    if (error) {
+      throw new Error(`Failed to load standing orders: ${error.message}`);
+    }
+
+    const results = { placed: 0, reminded: 0, skipped: 0, failed: 0 };
+
+    for (const standing of (data || []) as StandingOrderRow[]) {
+      if (!standing.supplier || !standing.customer || standing.supplier.status !== 'active') {
+        continue;
+      }
+
+      const timeZone = standing.tenant?.settings?.timezone || DEFAULT_TIMEZONE;
+      const cutoffTime = standing.supplier.cutoff_time;
+      const cutoff = getDeliveryCutoff(standing.next_delivery_date, cutoffTime, timeZone);
+      const nextCycle = getNextCycleDeliveryDate(
+        standing.next_delivery_date, standing.interval_weeks, cutoffTime, timeZone, now
+      );
+      const customerName = standing.customer.business_name || standing.customer.full_name || standing.customer.email;
+
+      const closed = (standing.supplier.closure_dates || []).some((c) => c.date === standing.next_delivery_date);
+
+      // Missed (job down, or the customer did not place it) or no deliveries that day - move on to the next delivery
+      if (cutoff <= now || closed) {
+        console.log(`Standing order ${standing.id}: ${closed ? 'supplier closed' : 'cutoff passed'} for ${standing.next_delivery_date}, moving to ${nextCycle}`);
+        await supabase
+          .from('standing_orders')
+          .update({ next_delivery_date: nextCycle, updated_at: now.toISOString() })
+          .eq('id', standing.id);
+        results.skipped++;
+        continue;
+      }
+
+      if (cutoff.getTime() - now.getTime() > LEAD_TIME_MS) {
+        continue;
+      }
+
+      if (standing.auto_submit) {
+        if (standing.last_generated_for === standing.next_delivery_date) continue;
+
+        const result = await placeStandingOrder(supabase, standing);
+        if (result.error) {
+          console.error(`Standing order ${standing.id} not placed:`, result.error);
+          if (standing.last_reminded_for !== standing.next_delivery_date) {
+            await notify(supabase, [standing.customer_id], 'Standing order not placed',
+              `${standing.name} for ${standing.next_delivery_date} could not be placed: ${result.error}. Please order from the app before the cutoff.`,
+              { type: 'standing_order_failed', standingOrderId: standing.id });
+            await supabase
+              .from('standing_orders')
+              .update({ last_reminded_for: standing.next_delivery_date, updated_at: now.toISOString() })
+              .eq('id', standing.id);
+          }
+          results.failed++;
+          continue;
+        }
+
+        await supabase
+          .from('standing_orders')
+          .update({
+            last_generated_for: standing.next_delivery_date,
+            last_order_id: result.orderId,
+            next_delivery_date: nextCycle,
+            updated_at: now.toISOString(),
+          })
+          .eq('id', standing.id);
+
+        // Let the supplier's owners know there is an order to approve
+        const { data: owners } = await supabase
+          .from('users')
+          .select('id')
+          .eq('tenant_id', standing.tenant_id)
+          .eq('role', 'owner')
+          .not('push_token', 'is', null);
+        await notify(supabase, (owners || []).map((o: { id: string }) => o.id), 'New Order Received',
+          `${customerName} standing order "${standing.name}" for ${standing.next_delivery_date}`,
+          { type: 'new_order', orderId: result.orderId });
+
+        results.placed++;
+      } else if (standing.last_reminded_for !== standing.next_delivery_date) {
+        await notify(supabase, [standing.customer_id], 'Standing order reminder',
+          `Place ${standing.name} with ${standing.supplier.name} before the cutoff for delivery on ${standing.next_delivery_date}.`,
+          { type: 'standing_order_reminder', standingOrderId: standing.id });
+        await supabase
+          .from('standing_orders')
+          .update({ last_reminded_for: standing.next_delivery_date, updated_at: now.toISOString() })
+          .eq('id', standing.id);
+        results.reminded++;
+      }
+    }
+
+    console.log('=== Generate Standing Orders - Done ===', results);
+    return new Response(JSON.stringify({ success: true, ...results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('=== Generate Standing Orders - Error ===');
+    console.error('Unexpected error:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: 'Internal server error', details: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
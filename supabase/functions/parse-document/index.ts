@@ -33,13 +33,178 @@ Return a JSON array of products with these fields (use null for missing fields):
 Return ONLY valid JSON array, no other text. Example:
 [{"name": "Product A", "barcode": "123456789", "wholesale_price": 5.99}]`
 
+// Supplier invoice header and lines (documentType: 'invoice')
+interface ParsedInvoiceLine {
+  description: string;
+  code?: string;
+  quantity: number;
+  unit?: string;
+  unit_price: number;
+  total?: number;
+}
+
+interface ParsedInvoice {
+  invoiceNumber: string;
+  invoiceDate?: string;
+  dueDate?: string;
+  subtotal?: number;
+  tax?: number;
+  total?: number;
+  items: ParsedInvoiceLine[];
+}
+
+const invoicePrompt = `You are an invoice data extractor. Extract the supplier invoice from the provided document.
+
+Return a JSON object with:
+- invoiceNumber: the invoice number ("Invoice No", "Tax Invoice #")
+- invoiceDate: invoice date as YYYY-MM-DD, or ""
+- dueDate: payment due date as YYYY-MM-DD, or ""
+- subtotal: total excluding tax as number, or null
+- tax: GST/tax amount as number, or null
+- total: total including tax as number, or null
+- items: array of invoice lines
+
+Each line should have:
+- description (required): product/line description
+- code: product code/SKU if present
+- quantity (required): quantity invoiced as number
+- unit: unit of measure (e.g., "each", "kg", "carton")
+- unit_price (required): price per unit excluding tax as number
+- total: line total excluding tax as number
+
+Return ONLY valid JSON, no other text. Example:
+{
+  "invoiceNumber": "INV-10042",
+  "invoiceDate": "2026-03-02",
+  "dueDate": "2026-04-01",
+  "subtotal": 59.90,
+  "tax": 5.99,
+  "total": 65.89,
+  "items": [
+    {"description": "Product A", "code": "ABC123", "quantity": 10, "unit": "each", "unit_price": 5.99, "total": 59.90}
+  ]
+}
+
+If this is not an invoice, return:
+{"invoiceNumber": "", "items": []}`
+
+function parseJsonContent(content: string) {
+  // Remove any markdown code blocks if present
+  let jsonStr = content.trim()
+  if (jsonStr.startsWith('```')) {
+    jsonStr = jsonStr.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
+  }
+  return JSON.parse(jsonStr)
+}
+
+function toNumber(value: unknown): number | undefined {
+  const num = typeof value === 'string' ? parseFloat(value.replace(/[^0-9.-]/g, '')) : Number(value)
+  return value === null || value === undefined || value === '' || isNaN(num) ? undefined : num
+}
+
+// PDFs go as a document block and images as an image block, as in process-order-email
+async function parseInvoice(
+  fileContent: string,
+  mediaType: string,
+  fileName: string,
+  anthropicKey: string
+): Promise<Response> {
+  const isPdf = mediaType === 'application/pdf'
+
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'x-api-key': anthropicKey,
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 4096,
+      system: invoicePrompt,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: isPdf ? 'document' : 'image',
+              source: {
+                type: 'base64',
+                media_type: mediaType,
+                data: fileContent,
+              }
+            },
+            {
+              type: 'text',
+              text: `Extract the invoice header and all invoice lines from this document (${fileName || 'invoice'}). Return as JSON.`
+            }
+          ]
+        }
+      ],
+    }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error('Anthropic API error:', errorText)
+    return new Response(
+      JSON.stringify({ error: 'AI processing failed', details: errorText }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const aiResponse = await response.json()
+  const content = aiResponse.content?.[0]?.text
+
+  let invoice: ParsedInvoice
+  try {
+    const parsed = content ? parseJsonContent(content) : {}
+    invoice = {
+      invoiceNumber: String(parsed.invoiceNumber || '').trim(),
+      invoiceDate: parsed.invoiceDate || undefined,
+      dueDate: parsed.dueDate || undefined,
+      subtotal: toNumber(parsed.subtotal),
+      tax: toNumber(parsed.tax),
+      total: toNumber(parsed.total),
+      items: (parsed.items || [])
+        .map((item: Record<string, unknown>) => ({
+          description: String(item.description || '').trim(),
+          code: item.code ? String(item.code) : undefined,
+          quantity: toNumber(item.quantity) ?? 0,
+          unit: item.unit ? String(item.unit) : undefined,
+          unit_price: toNumber(item.unit_price) ?? 0,
+          total: toNumber(item.total),
+        }))
+        .filter((item: ParsedInvoiceLine) => item.description && item.quantity),
+    }
+  } catch (parseError) {
+    console.error('Failed to parse AI response:', content)
+    return new Response(
+      JSON.stringify({ error: 'Failed to parse AI response', rawResponse: content }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  if (invoice.items.length === 0) {
+    return new Response(
+      JSON.stringify({ error: 'No invoice lines found in the document' }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, invoice }),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { fileContent, fileType, pageNumber } = await req.json()
+    const { fileContent, fileType, pageNumber, documentType, mediaType, fileName } = await req.json()
 
     // Get Anthropic API key from environment
     const anthropicKey = Deno.env.get('ANTHROPIC_API_KEY')
@@ -51,6 +216,10 @@ serve(async (req) => {
       )
     }
 
+    if (documentType === 'invoice') {
+      return await parseInvoice(fileContent, mediaType || 'application/pdf', fileName, anthropicKey)
+    }
+
     // For PDF/images, use vision model
     // For text/CSV content, use text model
     const isImageContent = fileType === 'image' || fileType === 'pdf-image'
@@ -135,12 +304,7 @@ serve(async (req) => {
     // Try to parse the JSON from the response
     let items: ParsedItem[] = []
     try {
-      // Remove any markdown code blocks if present
-      let jsonStr = content.trim()
-      if (jsonStr.startsWith('```')) {
-        jsonStr = jsonStr.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
-      }
-      items = JSON.parse(jsonStr)
+      items = parseJsonContent(content)
 
       // Filter out items without names
       items = items.filter(item => item.name && item.name.trim())
@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { loadCustomerPriceLists, resolveItemPrice, priceLine, PriceSource } from '../_shared/pricing.ts'
+import { DEFAULT_TIMEZONE, DeliverySchedule, getDeliveryDateError, getEarliestDeliveryDate } from '../_shared/deliverySchedule.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,6 +25,7 @@ interface EmailPayload {
 
 interface ParsedOrderData {
   customerName: string;
+  deliveryDate?: string;
   items: ParsedOrderItem[];
 }
 
@@ -39,7 +42,8 @@ const orderParsePrompt = `You are an order data extractor. Extract order informa
 
 Return a JSON object with:
 1. "customerName": The customer/buyer name (look for business name, company name, "Customer:", "Bill To:", "Ship To:", or header)
-2. "items": Array of order line items
+2. "deliveryDate": The requested delivery date as YYYY-MM-DD if one is given ("Delivery Date:", "Required By:"), otherwise ""
+3. "items": Array of order line items
 
 Each item should have:
 - name (required): product/item name
@@ -52,13 +56,14 @@ Each item should have:
 Return ONLY valid JSON, no other text. Example:
 {
   "customerName": "ABC Cafe Pty Ltd",
+  "deliveryDate": "2026-03-02",
   "items": [
     {"name": "Product A", "code": "ABC123", "quantity": 10, "unit": "each", "unit_price": 5.99}
   ]
 }
 
 If this is not an order document or you cannot extract order items, return:
-{"customerName": "", "items": []}`
+{"customerName": "", "deliveryDate": "", "items": []}`
 
 async function parseAttachmentWithClaude(
   attachment: Attachment,
@@ -164,6 +169,7 @@ async function parseAttachmentWithClaude(
     console.log(`Parsed ${parsed.items?.length || 0} items from ${attachment.filename}`)
     return {
       customerName: parsed.customerName || '',
+      deliveryDate: parsed.deliveryDate || undefined,
       items: (parsed.items || []).filter((item: ParsedOrderItem) => item.name && item.quantity)
     }
   } catch (parseError) {
@@ -176,7 +182,7 @@ async function findCustomerByName(
   supabase: ReturnType<typeof createClient>,
   tenantId: string,
   customerName: string
-): Promise<{ id: string; business_name: string } | null> {
+): Promise<{ id: string; business_name: string; account_hold: boolean } | null> {
   if (!customerName) return null
 
   const searchName = customerName.toLowerCase().trim()
@@ -185,7 +191,7 @@ async function findCustomerByName(
   // Fetch all customers (users with role 'user') for the tenant
   const { data: customers, error } = await supabase
     .from('users')
-    .select('id, business_name, full_name')
+    .select('id, business_name, full_name, account_hold')
     .eq('tenant_id', tenantId)
     .eq('role', 'user')
 
@@ -222,17 +228,23 @@ async function findCustomerByName(
     console.log(`No customer found for: "${customerName}"`)
   }
 
-  return match ? { id: match.id, business_name: match.business_name || match.full_name } : null
+  return match
+    ? {
+        id: match.id,
+        business_name: match.business_name || match.full_name,
+        account_hold: !!match.account_hold
+      }
+    : null
 }
 
 async function getDefaultSupplier(
   supabase: ReturnType<typeof createClient>,
   tenantId: string
-): Promise<{ id: string; name: string } | null> {
+): Promise<({ id: string; name: string } & DeliverySchedule) | null> {
   // Get the first active supplier for the tenant (your own supplier record)
   const { data: suppliers, error } = await supabase
     .from('suppliers')
-    .select('id, name')
+    .select('id, name, delivery_days, cutoff_time, closure_dates')
     .eq('tenant_id', tenantId)
     .eq('status', 'active')
     .limit(1)
@@ -320,6 +332,7 @@ serve(async (req) => {
 
     // Parse attachments - prioritize CSV (smallest), then XLSX, then PDF
     let customerName = ''
+    let requestedDeliveryDate = ''
     let allParsedItems: ParsedOrderItem[] = []
 
     // Sort attachments: CSV first, then XLSX, then PDF
@@ -348,6 +361,9 @@ serve(async (req) => {
         if (parsed.customerName && !customerName) {
           customerName = parsed.customerName
         }
+        if (parsed.deliveryDate && !requestedDeliveryDate) {
+          requestedDeliveryDate = parsed.deliveryDate
+        }
         allParsedItems = allParsedItems.concat(parsed.items)
       } catch (err) {
         console.error(`Failed to parse ${attachment.filename}:`, err)
@@ -404,6 +420,10 @@ serve(async (req) => {
       name: string;
       sku: string | null;
       wholesale_price: number | null;
+      size: string | null;
+      carton_size: number | null;
+      carton_price: number | null;
+      carton_price_breaks: { min_cartons: number; carton_price: number }[] | null;
       tax_rate: number | null;
       xero_item_code: string | null;
       xero_account_code: string | null;
@@ -411,7 +431,7 @@ serve(async (req) => {
 
     const { data: inventoryItems, error: itemsError } = await supabase
       .from('items')
-      .select('id, name, sku, wholesale_price, tax_rate, xero_item_code, xero_account_code')
+      .select('id, name, sku, wholesale_price, size, carton_size, carton_price, carton_price_breaks, tax_rate, xero_item_code, xero_account_code')
       .eq('tenant_id', tenantId)
       .eq('supplier_id', supplier.id)
       .eq('status', 'active')
@@ -436,6 +456,10 @@ serve(async (req) => {
     const aliases: ItemAlias[] = aliasData || []
     console.log(`Loaded ${aliases.length} item name aliases`)
 
+    // Load the customer's price lists so lines get their contract/discount prices
+    const priceLists = await loadCustomerPriceLists(supabase, tenantId, customer)
+    console.log(`Loaded ${priceLists.customerLists.length} customer and ${priceLists.groupLists.length} group price lists`)
+
     // Create a map of alias_name -> item for fast lookup
     const aliasMap = new Map<string, InventoryItem>()
     for (const alias of aliases) {
@@ -451,7 +475,8 @@ serve(async (req) => {
       quantity: number;
       unit: string;
       unitPrice: number;
-      taxRate: number;
+      priceSource: PriceSource;
+      priceListId: string | null;
       xeroItemCode: string | null;
       xeroAccountCode: string | null;
     }> = []
@@ -507,16 +532,26 @@ serve(async (req) => {
         if (!matchedItem.xero_item_code) {
           console.log(`  WARNING: Item "${matchedItem.name}" has no Xero Item Code - will fail on export`)
         }
-        matchedItems.push({
-          itemId: matchedItem.id,
-          name: matchedItem.name,
-          quantity: parsed.quantity,
-          unit: parsed.unit || 'each',
-          unitPrice: parsed.unit_price || matchedItem.wholesale_price || 0,
-          taxRate: matchedItem.tax_rate || 0,
-          xeroItemCode: matchedItem.xero_item_code,
-          xeroAccountCode: matchedItem.xero_account_code
-        })
+        const price = resolveItemPrice(matchedItem, priceLists)
+        if (parsed.unit_price && parsed.unit_price !== price.unit_price) {
+          console.log(`  PRICE DIFFERS: document ${parsed.unit_price}, ${price.price_source} ${price.unit_price} - using ${price.price_source}`)
+        }
+        // Documents may order by the carton; price everything in units so carton breaks apply
+        const orderedInCartons = /carton|ctn|case/i.test(parsed.unit || '') && (matchedItem.carton_size || 0) > 1
+        const unitQuantity = orderedInCartons ? parsed.quantity * matchedItem.carton_size! : parsed.quantity
+        for (const line of priceLine(matchedItem, unitQuantity, priceLists)) {
+          matchedItems.push({
+            itemId: matchedItem.id,
+            name: matchedItem.name,
+            quantity: line.quantity,
+            unit: line.unit,
+            unitPrice: line.unit_price,
+            priceSource: line.price_source,
+            priceListId: line.price_list_id,
+            xeroItemCode: matchedItem.xero_item_code,
+            xeroAccountCode: matchedItem.xero_account_code
+          })
+        }
       } else {
         console.log(`  NO MATCH FOUND for "${parsed.name}"`)
         unmatchedItems.push(`${parsed.name} x${parsed.quantity} (${parsed.code || parsed.sku || 'no code'})`)
@@ -544,67 +579,73 @@ serve(async (req) => {
       )
     }
 
-    // Calculate totals with GST
-    const subtotal = matchedItems.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0)
-    const tax = matchedItems.reduce((sum, item) => {
-      const lineTotal = item.quantity * item.unitPrice
-      const lineTax = lineTotal * (item.taxRate / 100)
-      return sum + lineTax
-    }, 0)
-    const total = subtotal + tax
     const hasUnmatchedItems = unmatchedItems.length > 0
 
-    console.log(`Order totals: subtotal=${subtotal.toFixed(2)}, tax=${tax.toFixed(2)}, total=${total.toFixed(2)}`)
+    // Delivery date: the one asked for if the supplier can make it, otherwise the earliest open one
+    const { data: tenant } = await supabase
+      .from('tenants')
+      .select('settings')
+      .eq('id', tenantId)
+      .single()
+    const timeZone = tenant?.settings?.timezone || DEFAULT_TIMEZONE
+    const deliveryDateError = requestedDeliveryDate
+      ? getDeliveryDateError(supplier, requestedDeliveryDate, timeZone)
+      : null
+    const deliveryDate = requestedDeliveryDate && !deliveryDateError
+      ? requestedDeliveryDate
+      : getEarliestDeliveryDate(supplier, timeZone)
+    console.log(`Delivery date: ${deliveryDate} (requested: ${requestedDeliveryDate || 'none'})`)
 
     // Build notes with unmatched items info
     let orderNotes = `Imported from email: ${subject} (${sender})`
+    if (deliveryDateError) {
+      orderNotes += `\n\n⚠️ Requested delivery ${requestedDeliveryDate} is not available: ${deliveryDateError} Set to ${deliveryDate || 'no open date'}.`
+    }
+    // The order itself is put in credit review by check_order_credit
+    if (customer?.account_hold) {
+      console.log(`Customer ${customer.business_name} is on hold - order goes to credit review`)
+      orderNotes += `\n\nCustomer account on hold: held for credit review.`
+    }
     if (hasUnmatchedItems) {
       orderNotes += `\n\n⚠️ UNMATCHED ITEMS (${unmatchedItems.length}):\n${unmatchedItems.map(item => `• ${item}`).join('\n')}`
     }
 
-    // Create order - use 'pending_approval' status, but include unmatched info
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
+    // Create order, items (with Xero codes) and history in one transaction.
+    // Totals including GST are computed by the database.
+    const { data: created, error: orderError } = await supabase.rpc('create_order_with_items', {
+      p_order: {
         tenant_id: tenantId,
         supplier_id: supplier.id,
         customer_id: customer?.id || null,
         order_date: new Date().toISOString().split('T')[0],
-        subtotal,
-        tax,
-        total,
+        requested_delivery_date: deliveryDate,
         status: 'pending_approval',
         notes: orderNotes
-      })
-      .select()
-      .single()
+      },
+      p_items: matchedItems.map(item => ({
+        procurement_item_id: item.itemId,
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        unit_price: item.unitPrice,
+        xero_item_code: item.xeroItemCode,
+        xero_account_code: item.xeroAccountCode,
+        price_source: item.priceSource,
+        price_list_id: item.priceListId
+      })),
+      p_create_invoice: false,
+      p_source: 'email'
+    })
 
     if (orderError) {
       throw new Error(`Failed to create order: ${orderError.message}`)
     }
 
-    // Create order items with Xero codes
-    const orderItems = matchedItems.map(item => ({
-      order_id: order.id,
-      tenant_id: tenantId,
-      procurement_item_id: item.itemId,
-      name: item.name,
-      quantity: item.quantity,
-      unit_price: item.unitPrice,
-      total: item.quantity * item.unitPrice,
-      xero_item_code: item.xeroItemCode,
-      xero_account_code: item.xeroAccountCode
-    }))
-
-    const { error: orderItemsError } = await supabase
-      .from('order_items')
-      .insert(orderItems)
-
-    if (orderItemsError) {
-      // Rollback order
-      await supabase.from('orders').delete().eq('id', order.id)
-      throw new Error(`Failed to create order items: ${orderItemsError.message}`)
-    }
+    const order = created.order
+    const subtotal = Number(order.subtotal)
+    const tax = Number(order.tax)
+    const total = Number(order.total)
+    console.log(`Order totals: subtotal=${subtotal.toFixed(2)}, tax=${tax.toFixed(2)}, total=${total.toFixed(2)}`)
 
     // Update import record with success (partial if there were unmatched items)
     await supabase.from('email_order_imports')
@@ -623,6 +664,7 @@ serve(async (req) => {
         orderNumber: order.order_number,
         customer: customer?.business_name || null,
         customerId: customer?.id || null,
+        deliveryDate,
         itemCount: matchedItems.length,
         subtotal,
         tax,
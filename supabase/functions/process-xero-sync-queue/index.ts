@@ -0,0 +1,148 @@
+// Process Xero Sync Queue - export queued invoices to Xero
+// Called every minute by pg_cron (trigger_xero_sync_queue) with the service role key;
+// it works jobs for every tenant, so no other caller is accepted. Temporary failures go
+// back on the queue with exponential backoff; a 429 waits for Xero's Retry-After and holds that connection's other jobs
+// until then. Jobs that fail for good mark their invoice export_failed.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/xero.ts';
+import { exportInvoiceToXero } from '../_shared/xeroInvoice.ts';
+
+// Xero allows 60 calls a minute per organisation; each export makes three
+const BATCH_SIZE = 10;
+const BASE_DELAY_SECONDS = 60;
+const MAX_DELAY_SECONDS = 60 * 60;
+
+interface XeroSyncJob {
+  id: string;
+  tenant_id: string;
+  invoice_id: string;
+  order_id: string | null;
+  requested_by: string | null;
+  attempts: number;
+  max_attempts: number;
+  idempotency_key: string;
+}
+
+// 1, 2, 4, 8... minutes after each failed attempt, up to an hour
+function getBackoffSeconds(attempts: number): number {
+  return Math.min(BASE_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_SECONDS);
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Process Xero Sync Queue - Start ===');
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const apiKey = req.headers.get('apikey');
+    const authHeader = req.headers.get('Authorization');
+    if (!serviceRoleKey || (apiKey !== serviceRoleKey && authHeader !== `Bearer ${serviceRoleKey}`)) {
+      console.error('ERROR: Caller is not the scheduled job');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    );
+
+    const { data, error } = await supabase.rpc('claim_xero_sync_jobs', { p_limit: BATCH_SIZE });
+    if (error) throw error;
+
+    const jobs = (data || []) as XeroSyncJob[];
+    const results = { claimed: jobs.length, succeeded: 0, retrying: 0, failed: 0, held: 0 };
+    const now = () => new Date().toISOString();
+
+    // Xero connections that hit a 429 this run, and when they can be used again
+    const rateLimitedUntil = new Map<string, string>();
+
+    const finish = async (job: XeroSyncJob, update: Record<string, unknown>) => {
+      await supabase
+        .from('xero_sync_jobs')
+        .update({ ...update, locked_at: null, updated_at: now() })
+        .eq('id', job.id);
+    };
+
+    const failJob = async (job: XeroSyncJob, message: string) => {
+      await finish(job, { status: 'failed', last_error: message, completed_at: now() });
+      await supabase
+        .from('invoices')
+        .update({ status: 'export_failed', export_error: message })
+        .eq('id', job.invoice_id)
+        .is('xero_invoice_id', null);
+      results.failed++;
+    };
+
+    for (const job of jobs) {
+      const heldUntil = job.requested_by ? rateLimitedUntil.get(job.requested_by) : undefined;
+      if (heldUntil) {
+        // Back in the queue without using up an attempt
+        await finish(job, { status: 'queued', attempts: job.attempts - 1, next_attempt_at: heldUntil });
+        results.held++;
+        continue;
+      }
+
+      if (!job.requested_by || !job.order_id) {
+        await failJob(job, 'Cannot export to Xero: the invoice has no order or no Xero connection to use.');
+        continue;
+      }
+
+      console.log(`Job ${job.id}: invoice ${job.invoice_id}, attempt ${job.attempts} of ${job.max_attempts}`);
+      const result = await exportInvoiceToXero(supabase, {
+        userId: job.requested_by,
+        tenantId: job.tenant_id,
+        orderId: job.order_id,
+        invoiceId: job.invoice_id,
+        idempotencyKey: job.idempotency_key,
+      });
+
+      if (result.success) {
+        await finish(job, { status: 'succeeded', last_error: null, completed_at: now() });
+        results.succeeded++;
+        continue;
+      }
+
+      const message = result.error || 'Unknown error occurred during Xero export';
+      console.warn(`Job ${job.id} failed:`, message);
+
+      if (!result.retryable || job.attempts >= job.max_attempts) {
+        await failJob(job, message);
+        continue;
+      }
+
+      const delaySeconds = Math.max(getBackoffSeconds(job.attempts), result.retryAfterSeconds ?? 0);
+      const nextAttemptAt = new Date(Date.now() + delaySeconds * 1000).toISOString();
+      if (result.status === 429) {
+        rateLimitedUntil.set(job.requested_by, nextAttemptAt);
+      }
+
+      await finish(job, { status: 'queued', last_error: message, next_attempt_at: nextAttemptAt });
+      await supabase
+        .from('invoices')
+        .update({ status: 'pending', export_error: message })
+        .eq('id', job.invoice_id)
+        .is('xero_invoice_id', null);
+      results.retrying++;
+    }
+
+    console.log('=== Process Xero Sync Queue - Done ===', results);
+    return new Response(JSON.stringify({ success: true, ...results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('=== Process Xero Sync Queue - Error ===', errorMessage);
+    return new Response(JSON.stringify({ error: 'Internal server error', details: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
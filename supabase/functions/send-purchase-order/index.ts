@@ -0,0 +1,237 @@
+// Send Purchase Order - email a purchase order to the supplier's orders email
+// Called from the Purchase Orders screen. The email lists the lines and attaches them as
+// a CSV for the supplier's order entry; the app attaches a PDF of the purchase order
+// when it can render one (not on web). The purchase order is marked sent once the email
+// has gone (mark_purchase_order_sent), so a failed send can simply be tried again.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/xero.ts';
+
+interface SendRequest {
+  purchase_order_id: string;
+  pdf?: string; // Base64 PDF rendered by the app
+}
+
+interface PurchaseOrderLine {
+  description: string;
+  code: string | null;
+  quantity: number;
+  unit_cost: number;
+  total: number;
+  sort_order: number;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function escapeHtml(value: string | null | undefined): string {
+  return (value || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatMoney(value: number): string {
+  const amount = Number(value || 0);
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+}
+
+function formatQuantity(value: number): string {
+  const quantity = Number(value || 0);
+  return Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(2);
+}
+
+function formatDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).toLocaleDateString('en-AU', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Base64 of a UTF-8 string, for Resend attachments
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function buildCsv(poNumber: string, lines: PurchaseOrderLine[]): string {
+  const rows = [
+    ['PO Number', 'Code', 'Description', 'Quantity', 'Unit Cost', 'Total'],
+    ...lines.map((line) => [
+      poNumber,
+      line.code || '',
+      line.description,
+      formatQuantity(line.quantity),
+      Number(line.unit_cost).toFixed(2),
+      Number(line.total).toFixed(2),
+    ]),
+  ];
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function buildEmail(
+  po: { po_number: string; expected_date: string | null; notes: string | null; subtotal: number; tax: number; total: number },
+  lines: PurchaseOrderLine[],
+  supplierName: string,
+  tenantName: string
+): string {
+  const rows = lines
+    .map(
+      (line) => `
+        <tr>
+          <td>${escapeHtml(line.code)}</td>
+          <td>${escapeHtml(line.description)}</td>
+          <td style="text-align:right">${formatQuantity(line.quantity)}</td>
+          <td style="text-align:right">${formatMoney(line.unit_cost)}</td>
+          <td style="text-align:right">${formatMoney(line.total)}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <div style="font-family: Helvetica, Arial, sans-serif; font-size: 14px; color: #222;">
+      <h2 style="margin: 0 0 4px;">Purchase order ${escapeHtml(po.po_number)}</h2>
+      <p style="color: #666; margin: 0 0 16px;">${escapeHtml(tenantName)} &middot; to ${escapeHtml(supplierName)}</p>
+      ${po.expected_date ? `<p><strong>Delivery wanted:</strong> ${formatDate(po.expected_date)}</p>` : ''}
+      <table style="width: 100%; border-collapse: collapse;" cellpadding="6">
+        <tr style="background: #f5f5f5;">
+          <th align="left">Code</th><th align="left">Description</th><th align="right">Qty</th>
+          <th align="right">Unit cost</th><th align="right">Total</th>
+        </tr>
+        ${rows}
+        <tr><td colspan="4" style="text-align:right">Subtotal</td><td style="text-align:right">${formatMoney(po.subtotal)}</td></tr>
+        <tr><td colspan="4" style="text-align:right">GST</td><td style="text-align:right">${formatMoney(po.tax)}</td></tr>
+        <tr style="font-weight: bold; border-top: 2px solid #222;">
+          <td colspan="4" style="text-align:right">Total</td><td style="text-align:right">${formatMoney(po.total)}</td>
+        </tr>
+      </table>
+      ${po.notes ? `<p><strong>Notes:</strong> ${escapeHtml(po.notes)}</p>` : ''}
+      <p style="color: #666;">Quantities are units. Please quote ${escapeHtml(po.po_number)} on your invoice.</p>
+    </div>`;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Send Purchase Order - Start ===');
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      console.error('ERROR: No authorization header');
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    // The caller's own client, so RLS limits this to their tenant's purchase orders
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      console.error('ERROR: Auth failed');
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { purchase_order_id, pdf }: SendRequest = await req.json();
+    if (!purchase_order_id) {
+      return jsonResponse({ error: 'Missing purchase_order_id' }, 400);
+    }
+
+    const { data: po, error: poError } = await supabase
+      .from('purchase_orders')
+      .select('*, supplier:suppliers(id, name, orders_email), tenant:tenants(id, name), items:purchase_order_items(*)')
+      .eq('id', purchase_order_id)
+      .single();
+
+    if (poError || !po) {
+      console.error('ERROR: Purchase order not found -', poError?.message);
+      return jsonResponse({ error: 'Purchase order not found' }, 404);
+    }
+
+    if (po.status === 'cancelled') {
+      return jsonResponse({ error: `Purchase order ${po.po_number} was cancelled` }, 400);
+    }
+
+    const to = po.supplier?.orders_email?.trim();
+    if (!to) {
+      return jsonResponse({ error: `${po.supplier?.name || 'This supplier'} has no orders email` }, 400);
+    }
+
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+    if (!resendApiKey) {
+      console.error('RESEND_API_KEY not configured');
+      return jsonResponse({ error: 'Email is not set up' }, 500);
+    }
+
+    const lines = ((po.items || []) as PurchaseOrderLine[]).sort((a, b) => a.sort_order - b.sort_order);
+    const tenantName = po.tenant?.name || '';
+    const attachments = [
+      { filename: `${po.po_number}.csv`, content: toBase64(buildCsv(po.po_number, lines)) },
+    ];
+    if (pdf) {
+      attachments.push({ filename: `${po.po_number}.pdf`, content: pdf });
+    }
+
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${resendApiKey}`,
+      },
+      body: JSON.stringify({
+        from: `${tenantName} <onboarding@resend.dev>`,
+        to: [to],
+        reply_to: user.email ? [user.email] : undefined,
+        subject: `Purchase order ${po.po_number} from ${tenantName}`,
+        html: buildEmail(po, lines, po.supplier?.name || '', tenantName),
+        attachments,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error('Failed to email purchase order to', to, '-', response.status, await response.text());
+      return jsonResponse({ error: 'Failed to email the purchase order' }, 502);
+    }
+
+    const { data: sent, error: markError } = await supabase.rpc('mark_purchase_order_sent', {
+      p_purchase_order_id: po.id,
+      p_sent_to: to,
+    });
+    if (markError) {
+      // The supplier has it; say so rather than inviting a second send
+      console.error('Purchase order emailed but not marked sent -', markError.message);
+      return jsonResponse({ success: true, sent_to: to, warning: markError.message });
+    }
+
+    console.log('=== Send Purchase Order - Done ===', po.po_number, 'to', to);
+    return jsonResponse({ success: true, sent_to: to, purchase_order: sent });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('=== Send Purchase Order - Error ===', errorMessage);
+    return jsonResponse({ error: 'Internal server error', details: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,299 @@
+// Send Statements - email last month's statement to every customer who needs one
+// Called on the 1st of each month by pg_cron (trigger_send_statements). A customer gets a
+// statement when they owe something or had invoices, credits or payments in the month.
+// Statements go to the accounts email (then the contact email, then the login email) and
+// are recorded in customer_statements, so running it again only sends what failed.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/xero.ts';
+import { PAYMENT_TERMS_LABELS, PaymentTerms, resolvePaymentTerms } from '../_shared/paymentTerms.ts';
+
+interface StatementEntry {
+  date: string;
+  type: 'invoice' | 'credit' | 'payment';
+  reference: string;
+  amount: number;
+  balance: number;
+}
+
+interface Statement {
+  period_start: string;
+  period_end: string;
+  opening_balance: number;
+  invoiced: number;
+  credited: number;
+  paid: number;
+  closing_balance: number;
+  entries: StatementEntry[];
+  aging: { current: number; days_30: number; days_60: number; days_90_plus: number };
+}
+
+interface StatementRequest {
+  period_start?: string; // YYYY-MM-01; defaults to last month
+  tenant_id?: string;
+}
+
+const ENTRY_LABELS: Record<StatementEntry['type'], string> = {
+  invoice: 'Invoice',
+  credit: 'Credit note',
+  payment: 'Payment',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function escapeHtml(value: string | null | undefined): string {
+  return (value || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatMoney(value: number): string {
+  const amount = Number(value || 0);
+  return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+}
+
+function formatDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).toLocaleDateString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+// First and last day of the month before the given date (or the month starting on it)
+function getPeriod(periodStart?: string): { start: string; end: string; label: string } {
+  let start: Date;
+  if (periodStart) {
+    const [y, m] = periodStart.split('-').map(Number);
+    start = new Date(Date.UTC(y, m - 1, 1));
+  } else {
+    const now = new Date();
+    start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  }
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+  return {
+    start: start.toISOString().split('T')[0],
+    end: end.toISOString().split('T')[0],
+    label: start.toLocaleDateString('en-AU', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+  };
+}
+
+function buildStatementEmail(
+  statement: Statement,
+  customerName: string,
+  tenantName: string,
+  periodLabel: string,
+  paymentTerms: PaymentTerms
+): string {
+  const rows = statement.entries
+    .map(
+      (entry) => `
+        <tr>
+          <td>${formatDate(entry.date)}</td>
+          <td>${ENTRY_LABELS[entry.type]}</td>
+          <td>${escapeHtml(entry.reference)}</td>
+          <td style="text-align:right">${formatMoney(entry.amount)}</td>
+          <td style="text-align:right">${formatMoney(entry.balance)}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <div style="font-family: Helvetica, Arial, sans-serif; font-size: 14px; color: #222;">
+      <h2 style="margin: 0 0 4px;">Statement for ${escapeHtml(periodLabel)}</h2>
+      <p style="color: #666; margin: 0 0 16px;">${escapeHtml(tenantName)} &middot; ${escapeHtml(customerName)}</p>
+      <table style="width: 100%; border-collapse: collapse;" cellpadding="6">
+        <tr style="background: #f5f5f5;">
+          <th align="left">Date</th><th align="left">Type</th><th align="left">Reference</th>
+          <th align="right">Amount</th><th align="right">Balance</th>
+        </tr>
+        <tr>
+          <td>${formatDate(statement.period_start)}</td><td colspan="3">Balance brought forward</td>
+          <td style="text-align:right">${formatMoney(statement.opening_balance)}</td>
+        </tr>
+        ${rows}
+        <tr style="font-weight: bold; border-top: 2px solid #222;">
+          <td>${formatDate(statement.period_end)}</td><td colspan="3">Balance due</td>
+          <td style="text-align:right">${formatMoney(statement.closing_balance)}</td>
+        </tr>
+      </table>
+      <p style="margin-top: 16px;">
+        Current: ${formatMoney(statement.aging.current)} &middot;
+        30 days: ${formatMoney(statement.aging.days_30)} &middot;
+        60 days: ${formatMoney(statement.aging.days_60)} &middot;
+        90+ days: ${formatMoney(statement.aging.days_90_plus)}
+      </p>
+      <p>Payment terms: ${PAYMENT_TERMS_LABELS[paymentTerms]}</p>
+      <p style="color: #666;">Please contact ${escapeHtml(tenantName)} if anything on this statement looks wrong.</p>
+    </div>`;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Send Statements - Start ===');
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+
+    let request: StatementRequest = {};
+    try {
+      request = await req.json();
+    } catch {
+      // Cron sends an empty body
+    }
+
+    const period = getPeriod(request.period_start);
+    console.log('Statement period:', period.start, 'to', period.end);
+
+    let tenantQuery = supabase.from('tenants').select('id, name, settings');
+    if (request.tenant_id) {
+      tenantQuery = tenantQuery.eq('id', request.tenant_id);
+    }
+    const { data: tenants, error: tenantError } = await tenantQuery;
+    if (tenantError) throw tenantError;
+
+    const results = { customers: 0, sent: 0, skipped: 0, failed: 0 };
+
+    for (const tenant of tenants || []) {
+      const { data: invoiceCustomers, error: customerError } = await supabase
+        .from('invoices')
+        .select('customer_id')
+        .eq('tenant_id', tenant.id)
+        .eq('direction', 'outbound')
+        .not('customer_id', 'is', null)
+        .not('shared_with_customer_at', 'is', null)
+        .lte('invoice_date', period.end);
+      if (customerError) {
+        console.error('Failed to load customers for tenant', tenant.id, '-', customerError.message);
+        continue;
+      }
+
+      const customerIds = [...new Set((invoiceCustomers || []).map((row: { customer_id: string }) => row.customer_id))];
+      if (customerIds.length === 0) continue;
+
+      const { data: alreadySent } = await supabase
+        .from('customer_statements')
+        .select('customer_id')
+        .eq('tenant_id', tenant.id)
+        .eq('period_start', period.start)
+        .not('sent_at', 'is', null);
+      const sentIds = new Set((alreadySent || []).map((row: { customer_id: string }) => row.customer_id));
+
+      const { data: customers } = await supabase
+        .from('users')
+        .select('id, email, full_name, business_name, contact_email, accounts_email, payment_terms, tenant_id')
+        .in('id', customerIds);
+
+      for (const customer of customers || []) {
+        results.customers++;
+        if (sentIds.has(customer.id)) {
+          results.skipped++;
+          continue;
+        }
+
+        const { data: statement, error: statementError } = await supabase.rpc('get_customer_statement', {
+          p_tenant_id: tenant.id,
+          p_customer_id: customer.id,
+          p_start: period.start,
+          p_end: period.end,
+        });
+        if (statementError || !statement) {
+          console.error('Failed to build statement for customer', customer.id, '-', statementError?.message);
+          results.failed++;
+          continue;
+        }
+
+        const { entries, closing_balance: closingBalance } = statement as Statement;
+        if (entries.length === 0 && Math.abs(closingBalance) < 0.005) {
+          results.skipped++;
+          continue;
+        }
+
+        const customerName = customer.business_name || customer.full_name || customer.email;
+        const to = customer.accounts_email || customer.contact_email || customer.email;
+        // A customer's own terms are with their own business
+        const paymentTerms = resolvePaymentTerms(
+          customer.tenant_id === tenant.id ? customer.payment_terms : null,
+          tenant.settings?.payment_terms
+        );
+        let sentTo: string | null = null;
+
+        if (!resendApiKey) {
+          console.error('RESEND_API_KEY not configured; statement for', customerName, 'not sent');
+        } else {
+          const response = await fetch('https://api.resend.com/emails', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${resendApiKey}`,
+            },
+            body: JSON.stringify({
+              from: `${tenant.name} <onboarding@resend.dev>`,
+              to: [to],
+              subject: `${tenant.name} statement for ${period.label}`,
+              html: buildStatementEmail(
+                statement as Statement,
+                customerName,
+                tenant.name,
+                period.label,
+                paymentTerms
+              ),
+            }),
+          });
+          if (response.ok) {
+            sentTo = to;
+          } else {
+            console.error('Failed to email statement to', to, '-', response.status, await response.text());
+          }
+        }
+
+        const { error: recordError } = await supabase.from('customer_statements').upsert(
+          {
+            tenant_id: tenant.id,
+            customer_id: customer.id,
+            period_start: period.start,
+            period_end: period.end,
+            opening_balance: (statement as Statement).opening_balance,
+            closing_balance: closingBalance,
+            sent_to: sentTo,
+            sent_at: sentTo ? new Date().toISOString() : null,
+          },
+          { onConflict: 'tenant_id,customer_id,period_start' }
+        );
+        if (recordError) {
+          console.error('Failed to record statement for customer', customer.id, '-', recordError.message);
+        }
+
+        if (sentTo) {
+          results.sent++;
+        } else {
+          results.failed++;
+        }
+      }
+    }
+
+    console.log('=== Send Statements - Done ===', results);
+    return jsonResponse({ success: true, period_start: period.start, ...results });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('=== Send Statements - Error ===', errorMessage);
+    return jsonResponse({ error: 'Internal server error', details: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,306 @@
+// Xero Create Credit Note - Push a credit note to Xero and allocate it to its invoice
+// The invoice must already be in Xero (xero-create-invoice). Lines keep the invoice's
+// item and account codes, looked up through invoice_items.order_item_id, and the GST
+// rate they were charged, mapped to a Xero tax type by the tenant's tax codes.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { XERO_API_URL, getValidXeroToken, corsHeaders } from '../_shared/xero.ts';
+import { TaxItem, TaxSettings, getLineTax } from '../_shared/xeroTax.ts';
+
+interface CreditNoteRequest {
+  credit_note_id: string;
+}
+
+interface LineCodes {
+  xero_item_code?: string;
+  xero_account_code?: string;
+  item?: TaxItem | null;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  short_delivery: 'Short delivery',
+  damaged: 'Damaged goods',
+  wrong_item: 'Wrong item',
+  pricing_error: 'Pricing error',
+  returned: 'Returned goods',
+  other: 'Credit',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Pull the validation messages out of a Xero error body
+function parseXeroError(errorText: string, fallback: string): string {
+  try {
+    const errorJson = JSON.parse(errorText);
+    const messages: string[] = [];
+    for (const element of errorJson.Elements || []) {
+      for (const valError of element.ValidationErrors || []) {
+        if (valError.Message) messages.push(valError.Message);
+      }
+    }
+    if (messages.length > 0) {
+      return `Xero validation error:\n• ${messages.join('\n• ')}`;
+    }
+    return errorJson.Message || errorJson.Detail || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Xero Create Credit Note - Start ===');
+
+  const supabaseAdmin = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  let creditNoteId: string | null = null;
+
+  // Failures are kept on the credit note so the app can show them and retry
+  const fail = async (error: string, status = 400, code?: string) => {
+    if (creditNoteId) {
+      await supabaseAdmin
+        .from('credit_notes')
+        .update({ status: 'export_failed', export_error: error, updated_at: new Date().toISOString() })
+        .eq('id', creditNoteId);
+    }
+    return jsonResponse({ error, code }, status);
+  };
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      console.error('ERROR: No authorization header');
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    // Get user from Supabase auth
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      console.error('ERROR: Auth failed');
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { credit_note_id }: CreditNoteRequest = await req.json();
+    if (!credit_note_id) {
+      return jsonResponse({ error: 'Missing credit_note_id' }, 400);
+    }
+
+    // RLS limits this to credit notes in the user's tenant
+    const { data: creditNote, error: creditError } = await supabase
+      .from('credit_notes')
+      .select('*, items:credit_note_items(*)')
+      .eq('id', credit_note_id)
+      .single();
+
+    if (creditError || !creditNote) {
+      console.error('ERROR: Credit note not found -', creditError?.message);
+      return jsonResponse({ error: 'Credit note not found' }, 404);
+    }
+    creditNoteId = creditNote.id;
+
+    if (creditNote.xero_credit_note_id) {
+      return jsonResponse({ success: true, xero_credit_note_id: creditNote.xero_credit_note_id });
+    }
+
+    const { data: invoice } = await supabaseAdmin
+      .from('invoices')
+      .select('id, invoice_number, xero_invoice_id, customer_id')
+      .eq('id', creditNote.invoice_id)
+      .single();
+
+    if (!invoice?.xero_invoice_id) {
+      return await fail('Export the invoice to Xero before its credit notes.', 400, 'INVOICE_NOT_EXPORTED');
+    }
+
+    const tokenResult = await getValidXeroToken(user.id);
+    if (!tokenResult.success || !tokenResult.accessToken) {
+      return await fail(
+        tokenResult.error || 'Xero not connected. Please connect your Xero account in Settings.',
+        400,
+        'XERO_NOT_CONNECTED'
+      );
+    }
+
+    const xeroHeaders = {
+      Authorization: `Bearer ${tokenResult.accessToken}`,
+      'Xero-Tenant-Id': tokenResult.xeroTenantId!,
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    };
+
+    // The credit goes to the invoice's contact in Xero
+    const invoiceResponse = await fetch(`${XERO_API_URL}/Invoices/${invoice.xero_invoice_id}`, {
+      method: 'GET',
+      headers: xeroHeaders,
+    });
+    if (!invoiceResponse.ok) {
+      console.error('ERROR: Failed to fetch invoice from Xero:', await invoiceResponse.text());
+      return await fail('Failed to fetch the invoice from Xero');
+    }
+    const xeroInvoice = (await invoiceResponse.json()).Invoices?.[0];
+    const contactId: string | undefined = xeroInvoice?.Contact?.ContactID;
+    if (!contactId) {
+      return await fail('The invoice in Xero has no contact');
+    }
+
+    const { data: tenant } = await supabaseAdmin
+      .from('tenants')
+      .select('settings')
+      .eq('id', creditNote.tenant_id)
+      .single();
+    const taxSettings = (tenant?.settings || {}) as TaxSettings;
+
+    // Item and account codes come from the order lines the invoice was built from
+    const invoiceItemIds = (creditNote.items || [])
+      .map((line: { invoice_item_id?: string }) => line.invoice_item_id)
+      .filter(Boolean);
+    const { data: invoiceItems } = await supabaseAdmin
+      .from('invoice_items')
+      .select('id, order_item:order_items(xero_item_code, xero_account_code, item:items(tax_rate, category, categories))')
+      .in('id', invoiceItemIds.length > 0 ? invoiceItemIds : ['00000000-0000-0000-0000-000000000000']);
+
+    const codesByInvoiceItem = new Map<string, LineCodes>();
+    for (const item of invoiceItems || []) {
+      const orderItem = Array.isArray(item.order_item) ? item.order_item[0] : item.order_item;
+      codesByInvoiceItem.set(item.id, orderItem || {});
+    }
+
+    const lines = (creditNote.items || []) as {
+      invoice_item_id?: string;
+      description: string;
+      quantity: number;
+      unit_price: number;
+      total: number;
+      tax_rate?: number | null;
+    }[];
+    const lineTaxes = lines.map((line) => {
+      const codes: LineCodes = (line.invoice_item_id && codesByInvoiceItem.get(line.invoice_item_id)) || {};
+      return getLineTax(taxSettings, { ...line, xero_account_code: codes.xero_account_code }, codes.item);
+    });
+
+    const unmappedRates = [...new Set(lineTaxes.filter((lineTax) => !lineTax.taxType).map((lineTax) => lineTax.rate))];
+    if (unmappedRates.length > 0) {
+      return await fail(
+        `No Xero tax type is set for ${unmappedRates.map((rate) => `${rate}%`).join(', ')}. Add it in Settings → Tax Codes.`,
+        400,
+        'NO_TAX_CODE'
+      );
+    }
+
+    const lineItems = lines.map((line, index) => {
+      const codes: LineCodes = (line.invoice_item_id && codesByInvoiceItem.get(line.invoice_item_id)) || {};
+      const lineItem: Record<string, unknown> = {
+        Description: line.description,
+        Quantity: line.quantity,
+        UnitAmount: line.unit_price,
+        AccountCode: lineTaxes[index].accountCode,
+        TaxType: lineTaxes[index].taxType,
+        TaxAmount: lineTaxes[index].amount,
+      };
+      if (codes.xero_item_code) {
+        lineItem.ItemCode = codes.xero_item_code;
+      }
+      return lineItem;
+    });
+
+    const reason = REASON_LABELS[creditNote.reason_code] || 'Credit';
+    const xeroCreditNote = {
+      Type: 'ACCRECCREDIT', // Accounts Receivable credit note
+      Contact: { ContactID: contactId },
+      Date: creditNote.credit_date,
+      LineAmountTypes: 'Exclusive', // Tax exclusive
+      Reference: `${reason} - ${invoice.invoice_number}`,
+      CreditNoteNumber: creditNote.credit_note_number,
+      Status: 'AUTHORISED',
+      LineItems: lineItems,
+    };
+
+    console.log('Xero credit note payload:', JSON.stringify(xeroCreditNote, null, 2));
+
+    const createResponse = await fetch(`${XERO_API_URL}/CreditNotes`, {
+      method: 'POST',
+      headers: xeroHeaders,
+      body: JSON.stringify({ CreditNotes: [xeroCreditNote] }),
+    });
+
+    if (!createResponse.ok) {
+      const errorText = await createResponse.text();
+      console.error('ERROR: Xero credit note failed:', errorText);
+      return await fail(parseXeroError(errorText, 'Failed to create credit note in Xero'), 400, 'XERO_API_ERROR');
+    }
+
+    const created = (await createResponse.json()).CreditNotes?.[0];
+    if (!created?.CreditNoteID) {
+      return await fail('No credit note returned from Xero', 500);
+    }
+    console.log('Xero credit note created:', created.CreditNoteID);
+
+    // Allocate against the original invoice, up to what is still owing on it
+    let allocationError: string | null = null;
+    const amountDue = Number(xeroInvoice.AmountDue ?? 0);
+    const allocationAmount = Math.min(Number(created.Total ?? creditNote.total), amountDue);
+
+    if (allocationAmount > 0) {
+      const allocationResponse = await fetch(`${XERO_API_URL}/CreditNotes/${created.CreditNoteID}/Allocations`, {
+        method: 'PUT',
+        headers: xeroHeaders,
+        body: JSON.stringify({
+          Allocations: [{
+            Invoice: { InvoiceID: invoice.xero_invoice_id },
+            Amount: allocationAmount,
+            Date: creditNote.credit_date,
+          }],
+        }),
+      });
+
+      if (!allocationResponse.ok) {
+        const errorText = await allocationResponse.text();
+        console.error('Warning: Credit note allocation failed:', errorText);
+        allocationError = parseXeroError(errorText, 'Allocation to the invoice failed');
+      }
+    } else {
+      // Paid invoices leave the credit unallocated for a refund or a later invoice
+      console.log('Invoice has nothing owing; credit note left unallocated');
+    }
+
+    await supabaseAdmin
+      .from('credit_notes')
+      .update({
+        xero_credit_note_id: created.CreditNoteID,
+        status: 'exported',
+        exported_at: new Date().toISOString(),
+        export_error: allocationError,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', creditNote.id);
+
+    console.log('=== Xero Create Credit Note - Success ===');
+    return jsonResponse({
+      success: true,
+      xero_credit_note_id: created.CreditNoteID,
+      allocated: allocationAmount > 0 && !allocationError,
+      warning: allocationError || undefined,
+    });
+  } catch (error) {
+    console.error('=== Xero Create Credit Note - Error ===');
+    console.error('Unexpected error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
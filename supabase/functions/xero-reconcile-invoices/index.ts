@@ -0,0 +1,146 @@
+// Xero Reconcile Invoices - catch payment changes the webhook missed
+// Called nightly by pg_cron (trigger_xero_reconcile_invoices). For each connected Xero
+// organisation it pulls the sales invoices modified since the last run (If-Modified-Since)
+// and applies their payment state, as xero-webhook does for each change. A run that
+// fails part way leaves the watermark where it was, so the next run covers the gap.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { XERO_API_URL, getValidXeroToken, corsHeaders } from '../_shared/xero.ts';
+import { LOCAL_INVOICE_COLUMNS, LocalInvoice, XeroInvoiceSummary, applyXeroInvoice } from '../_shared/xeroPayments.ts';
+
+// Xero returns up to 100 invoices a page
+const PAGE_SIZE = 100;
+
+interface ConnectionRow {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  xero_tenant_id: string;
+  invoices_reconciled_at: string | null;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Xero Reconcile Invoices - Start ===');
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data, error } = await supabase
+      .from('integration_tokens')
+      .select('id, tenant_id, user_id, xero_tenant_id, invoices_reconciled_at')
+      .eq('provider', 'xero')
+      .not('xero_tenant_id', 'is', null)
+      .not('user_id', 'is', null);
+    if (error) throw error;
+
+    // Several owners can connect the same Xero organisation; reconcile it once
+    const connections = new Map<string, ConnectionRow[]>();
+    for (const row of (data || []) as ConnectionRow[]) {
+      const key = `${row.tenant_id}:${row.xero_tenant_id}`;
+      connections.set(key, [...(connections.get(key) || []), row]);
+    }
+
+    const results = { organisations: connections.size, checked: 0, updated: 0, failed: 0 };
+
+    for (const rows of connections.values()) {
+      const { tenant_id: tenantId, xero_tenant_id: xeroTenantId } = rows[0];
+      const startedAt = new Date().toISOString();
+
+      // Earliest watermark of the group, so nothing is skipped
+      const watermarks = rows.map((row) => row.invoices_reconciled_at);
+      const since = watermarks.includes(null) ? null : [...watermarks].sort()[0];
+
+      console.log('Reconciling tenant', tenantId, 'Xero tenant', xeroTenantId, 'since', since || 'the beginning');
+
+      const tokenResult = await getValidXeroToken(rows[0].user_id);
+      if (!tokenResult.success || !tokenResult.accessToken) {
+        console.error('No valid Xero token for tenant', tenantId, '-', tokenResult.error);
+        results.failed++;
+        continue;
+      }
+
+      const headers: Record<string, string> = {
+        Authorization: `Bearer ${tokenResult.accessToken}`,
+        'Xero-Tenant-Id': xeroTenantId,
+        Accept: 'application/json',
+      };
+      if (since) {
+        headers['If-Modified-Since'] = new Date(since).toUTCString();
+      }
+
+      let complete = true;
+      for (let page = 1; ; page++) {
+        const where = encodeURIComponent('Type=="ACCREC"');
+        const response = await fetch(`${XERO_API_URL}/Invoices?where=${where}&page=${page}`, { headers });
+
+        if (response.status === 304) break;
+        if (!response.ok) {
+          // Includes 429; the watermark stays put and tomorrow's run tries again
+          console.error('Failed to list invoices from Xero:', response.status, await response.text());
+          complete = false;
+          break;
+        }
+
+        const xeroInvoices: XeroInvoiceSummary[] = (await response.json()).Invoices || [];
+        if (xeroInvoices.length > 0) {
+          const { data: localInvoices, error: localError } = await supabase
+            .from('invoices')
+            .select(`${LOCAL_INVOICE_COLUMNS}, xero_invoice_id`)
+            .eq('tenant_id', tenantId)
+            .in('xero_invoice_id', xeroInvoices.map((invoice) => invoice.InvoiceID));
+
+          if (localError) {
+            console.error('Failed to load local invoices:', localError.message);
+            complete = false;
+            break;
+          }
+
+          const byXeroId = new Map<string, LocalInvoice>(
+            (localInvoices || []).map((invoice: LocalInvoice & { xero_invoice_id: string }) => [invoice.xero_invoice_id, invoice])
+          );
+
+          for (const xeroInvoice of xeroInvoices) {
+            const invoice = byXeroId.get(xeroInvoice.InvoiceID);
+            if (!invoice) continue; // Raised in Xero directly
+            results.checked++;
+            if (await applyXeroInvoice(supabase, invoice, xeroInvoice)) {
+              results.updated++;
+            }
+          }
+        }
+
+        if (xeroInvoices.length < PAGE_SIZE) break;
+      }
+
+      if (!complete) {
+        results.failed++;
+        continue;
+      }
+
+      await supabase
+        .from('integration_tokens')
+        .update({ invoices_reconciled_at: startedAt })
+        .in('id', rows.map((row) => row.id));
+    }
+
+    console.log('=== Xero Reconcile Invoices - Done ===', results);
+    return new Response(JSON.stringify({ success: true, ...results }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('=== Xero Reconcile Invoices - Error ===', errorMessage);
+    return new Response(JSON.stringify({ error: 'Internal server error', details: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,94 @@
+// Xero Search Contacts - Find Xero contacts to link a customer to
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getValidXeroToken, corsHeaders } from '../_shared/xero.ts';
+import { searchXeroContacts } from '../_shared/xeroContacts.ts';
+
+interface SearchRequest {
+  query: string;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: callerData } = await supabase
+      .from('users')
+      .select('tenant_id, role, is_master')
+      .eq('id', user.id)
+      .single();
+
+    if (!callerData || !(callerData.role === 'owner' || callerData.is_master)) {
+      return jsonResponse({ error: 'Only owners can search Xero contacts' }, 403);
+    }
+
+    const { query }: SearchRequest = await req.json();
+    if (!query || query.trim().length < 2) {
+      return jsonResponse({ error: 'Enter at least 2 characters to search' }, 400);
+    }
+
+    const tokenResult = await getValidXeroToken(user.id);
+    if (!tokenResult.success || !tokenResult.accessToken) {
+      return jsonResponse({
+        error: tokenResult.error || 'Xero not connected. Please connect your Xero account in Settings.',
+        code: 'XERO_NOT_CONNECTED',
+      }, 400);
+    }
+
+    const contacts = await searchXeroContacts(
+      { accessToken: tokenResult.accessToken, xeroTenantId: tokenResult.xeroTenantId! },
+      query.trim()
+    );
+
+    // Show which contacts already belong to one of this business's customers
+    const { data: linked } = await supabase
+      .from('users')
+      .select('id, business_name, full_name, xero_contact_id')
+      .eq('tenant_id', callerData.tenant_id)
+      .in('xero_contact_id', contacts.length > 0 ? contacts.map((c) => c.ContactID) : ['none']);
+
+    return jsonResponse({
+      success: true,
+      contacts: contacts.map((contact) => {
+        const customer = (linked || []).find((u) => u.xero_contact_id === contact.ContactID);
+        return {
+          id: contact.ContactID,
+          name: contact.Name,
+          email: contact.EmailAddress || null,
+          account_number: contact.AccountNumber || null,
+          linked_customer_id: customer?.id || null,
+          linked_customer_name: customer ? customer.business_name || customer.full_name : null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Xero contact search error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
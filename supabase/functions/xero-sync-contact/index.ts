@@ -0,0 +1,131 @@
+// Xero Sync Contact - Create, update or link a customer's Xero contact
+// Without xero_contact_id the customer's profile is pushed to Xero (creating the contact,
+// or linking a matching one, if there is none yet). With it, the customer is linked to
+// that existing contact.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getValidXeroToken, corsHeaders } from '../_shared/xero.ts';
+import {
+  CUSTOMER_PROFILE_COLUMNS,
+  CustomerProfile,
+  linkCustomerContact,
+  syncCustomerContact,
+} from '../_shared/xeroContacts.ts';
+
+interface SyncContactRequest {
+  user_id: string;
+  xero_contact_id?: string;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Xero Sync Contact - Start ===');
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: callerData } = await supabase
+      .from('users')
+      .select('tenant_id, role, is_master')
+      .eq('id', user.id)
+      .single();
+
+    if (!callerData || !(callerData.role === 'owner' || callerData.is_master)) {
+      return jsonResponse({ error: 'Only owners can sync customers to Xero' }, 403);
+    }
+
+    const { user_id, xero_contact_id }: SyncContactRequest = await req.json();
+    if (!user_id) {
+      return jsonResponse({ error: 'Missing user_id' }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // The contact link and profile are shared by every business the customer orders from,
+    // so only the customer's own business keeps them in step with its Xero
+    const { data: customer } = await supabaseAdmin
+      .from('users')
+      .select(`${CUSTOMER_PROFILE_COLUMNS}, tenant_id, role`)
+      .eq('id', user_id)
+      .single();
+
+    if (!customer || customer.role !== 'user' || customer.tenant_id !== callerData.tenant_id) {
+      return jsonResponse({ error: 'Customer not found' }, 404);
+    }
+
+    const tokenResult = await getValidXeroToken(user.id);
+    if (!tokenResult.success || !tokenResult.accessToken) {
+      return jsonResponse({
+        error: tokenResult.error || 'Xero not connected. Please connect your Xero account in Settings.',
+        code: 'XERO_NOT_CONNECTED',
+      }, 400);
+    }
+    const auth = { accessToken: tokenResult.accessToken, xeroTenantId: tokenResult.xeroTenantId! };
+
+    let result;
+    if (xero_contact_id) {
+      const { data: alreadyLinked } = await supabaseAdmin
+        .from('users')
+        .select('id, business_name, full_name')
+        .eq('tenant_id', callerData.tenant_id)
+        .eq('xero_contact_id', xero_contact_id)
+        .neq('id', user_id)
+        .limit(1)
+        .maybeSingle();
+      if (alreadyLinked) {
+        return jsonResponse({
+          error: `That Xero contact is already linked to ${alreadyLinked.business_name || alreadyLinked.full_name}.`,
+          code: 'CONTACT_ALREADY_LINKED',
+        }, 400);
+      }
+      result = await linkCustomerContact(supabaseAdmin, auth, customer as CustomerProfile, xero_contact_id);
+    } else {
+      result = await syncCustomerContact(supabaseAdmin, auth, customer as CustomerProfile);
+    }
+
+    if (!result.success || !result.contact) {
+      console.log('=== Xero Sync Contact - Failed ===', result.error);
+      return jsonResponse({ error: result.error || 'Failed to sync the contact to Xero', code: 'XERO_API_ERROR' }, 400);
+    }
+
+    console.log('=== Xero Sync Contact - Success ===', result.contact.ContactID);
+    return jsonResponse({
+      success: true,
+      xero_contact_id: result.contact.ContactID,
+      name: result.contact.Name,
+      linked_existing: !!result.linkedExisting,
+    });
+  } catch (error) {
+    console.error('=== Xero Sync Contact - Error ===');
+    console.error('Unexpected error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
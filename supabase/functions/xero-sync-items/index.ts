@@ -0,0 +1,169 @@
+// Xero Sync Items - Read the Xero item catalogue, and push price/description changes back
+// action 'list' returns every Xero item for the app to match against its own items (the
+// review happens in MasterItemListScreen). action 'push' updates the name, description
+// and sales price of existing Xero items; account codes and tax are left as they are.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { XERO_API_URL, getValidXeroToken, corsHeaders } from '../_shared/xero.ts';
+
+// Xero limits item names to 50 characters; the full name goes in the description
+const XERO_ITEM_NAME_LENGTH = 50;
+
+interface PushItem {
+  code: string;
+  name: string;
+  unit_price: number;
+}
+
+interface SyncItemsRequest {
+  action: 'list' | 'push';
+  items?: PushItem[];
+}
+
+interface XeroItemDetails {
+  ItemID: string;
+  Code: string;
+  Name?: string;
+  Description?: string;
+  IsSold?: boolean;
+  UpdatedDateUTC?: string;
+  SalesDetails?: { UnitPrice?: number; AccountCode?: string; TaxType?: string };
+  ValidationErrors?: { Message: string }[];
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Xero Sync Items - Start ===');
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'No authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: callerData } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (callerData?.role !== 'owner') {
+      return jsonResponse({ error: 'Only owners can sync items with Xero' }, 403);
+    }
+
+    const { action, items }: SyncItemsRequest = await req.json();
+    if (action !== 'list' && action !== 'push') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const tokenResult = await getValidXeroToken(user.id);
+    if (!tokenResult.success || !tokenResult.accessToken) {
+      return jsonResponse({
+        error: tokenResult.error || 'Xero not connected. Please connect your Xero account in Settings.',
+        code: 'XERO_NOT_CONNECTED',
+      }, 400);
+    }
+
+    const xeroHeaders: Record<string, string> = {
+      Authorization: `Bearer ${tokenResult.accessToken}`,
+      'Xero-Tenant-Id': tokenResult.xeroTenantId!,
+      Accept: 'application/json',
+    };
+
+    // The Items endpoint isn't paged; one call returns the whole catalogue
+    const listResponse = await fetch(`${XERO_API_URL}/Items`, { headers: xeroHeaders });
+    if (!listResponse.ok) {
+      console.error('Failed to list Xero items:', listResponse.status, await listResponse.text());
+      return jsonResponse({ error: 'Failed to fetch items from Xero', code: 'XERO_API_ERROR' }, 400);
+    }
+    const xeroItems: XeroItemDetails[] = (await listResponse.json()).Items || [];
+    console.log('Xero items:', xeroItems.length);
+
+    if (action === 'list') {
+      return jsonResponse({
+        success: true,
+        items: xeroItems.map((item) => ({
+          item_id: item.ItemID,
+          code: item.Code,
+          name: item.Name || item.Code,
+          description: item.Description || null,
+          unit_price: item.SalesDetails?.UnitPrice ?? null,
+          account_code: item.SalesDetails?.AccountCode || null,
+          is_sold: item.IsSold !== false,
+          updated_at: item.UpdatedDateUTC || null,
+        })),
+      });
+    }
+
+    // Push: only items that already exist in Xero are updated
+    const byCode = new Map(xeroItems.map((item) => [item.Code.toLowerCase(), item]));
+    const errors: string[] = [];
+    const payload = [];
+    for (const item of items || []) {
+      const existing = byCode.get(item.code.trim().toLowerCase());
+      if (!existing) {
+        errors.push(`${item.code}: not found in Xero`);
+        continue;
+      }
+      payload.push({
+        ItemID: existing.ItemID,
+        Code: existing.Code,
+        Name: item.name.slice(0, XERO_ITEM_NAME_LENGTH),
+        Description: item.name,
+        SalesDetails: { ...existing.SalesDetails, UnitPrice: item.unit_price },
+      });
+    }
+
+    let updated = 0;
+    if (payload.length > 0) {
+      // summarizeErrors=false reports validation errors item by item instead of failing them all
+      const pushResponse = await fetch(`${XERO_API_URL}/Items?summarizeErrors=false`, {
+        method: 'POST',
+        headers: { ...xeroHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ Items: payload }),
+      });
+
+      if (!pushResponse.ok) {
+        console.error('Failed to update Xero items:', pushResponse.status, await pushResponse.text());
+        return jsonResponse({ error: 'Failed to update items in Xero', code: 'XERO_API_ERROR' }, 400);
+      }
+
+      for (const result of ((await pushResponse.json()).Items || []) as XeroItemDetails[]) {
+        if (result.ValidationErrors && result.ValidationErrors.length > 0) {
+          errors.push(`${result.Code}: ${result.ValidationErrors.map((e) => e.Message).join(', ')}`);
+        } else {
+          updated++;
+        }
+      }
+    }
+
+    console.log('=== Xero Sync Items - Pushed ===', updated, 'updated,', errors.length, 'failed');
+    return jsonResponse({ success: true, updated, errors });
+  } catch (error) {
+    console.error('=== Xero Sync Items - Error ===');
+    console.error('Unexpected error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
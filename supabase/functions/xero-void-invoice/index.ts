@@ -0,0 +1,154 @@
+// Xero Void Invoice - Void (or delete, if still a draft) an invoice in Xero
+// Called before void_order_invoice() so an order's invoice is voided in both places.
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { XERO_API_URL, getValidXeroToken, corsHeaders } from '../_shared/xero.ts';
+
+interface VoidRequest {
+  invoice_id: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  console.log('=== Xero Void Invoice - Start ===');
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      console.error('ERROR: No authorization header');
+      return new Response(JSON.stringify({ error: 'No authorization header' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Get user from Supabase auth
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      console.error('ERROR: Auth failed');
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { invoice_id }: VoidRequest = await req.json();
+    if (!invoice_id) {
+      return new Response(JSON.stringify({ error: 'Missing invoice_id' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // RLS limits this to invoices in the user's tenant
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('id, invoice_number, status, xero_invoice_id')
+      .eq('id', invoice_id)
+      .single();
+
+    if (invoiceError || !invoice) {
+      console.error('ERROR: Invoice not found -', invoiceError?.message);
+      return new Response(JSON.stringify({ error: 'Invoice not found' }), {
+        status: 404,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!invoice.xero_invoice_id) {
+      // Never exported - nothing to do in Xero
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const tokenResult = await getValidXeroToken(user.id);
+    if (!tokenResult.success || !tokenResult.accessToken) {
+      return new Response(JSON.stringify({
+        error: tokenResult.error || 'Xero not connected. Please connect your Xero account in Settings.',
+        code: 'XERO_NOT_CONNECTED'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const xeroHeaders = {
+      Authorization: `Bearer ${tokenResult.accessToken}`,
+      'Xero-Tenant-Id': tokenResult.xeroTenantId!,
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    };
+
+    // Xero only allows voiding authorised invoices; drafts are deleted instead
+    const currentResponse = await fetch(`${XERO_API_URL}/Invoices/${invoice.xero_invoice_id}`, {
+      method: 'GET',
+      headers: xeroHeaders,
+    });
+    if (!currentResponse.ok) {
+      const errorText = await currentResponse.text();
+      console.error('ERROR: Failed to fetch invoice from Xero:', errorText);
+      return new Response(JSON.stringify({ error: 'Failed to fetch invoice from Xero' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const currentData = await currentResponse.json();
+    const xeroStatus: string = currentData.Invoices?.[0]?.Status || '';
+    console.log('Xero invoice status:', xeroStatus);
+
+    if (xeroStatus === 'VOIDED' || xeroStatus === 'DELETED') {
+      return new Response(JSON.stringify({ success: true, xero_status: xeroStatus }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (xeroStatus === 'PAID' || (currentData.Invoices?.[0]?.AmountPaid || 0) > 0) {
+      return new Response(JSON.stringify({
+        error: `Invoice ${invoice.invoice_number} has payments in Xero and cannot be voided. Issue a credit note instead.`
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const newStatus = xeroStatus === 'DRAFT' || xeroStatus === 'SUBMITTED' ? 'DELETED' : 'VOIDED';
+    const voidResponse = await fetch(`${XERO_API_URL}/Invoices/${invoice.xero_invoice_id}`, {
+      method: 'POST',
+      headers: xeroHeaders,
+      body: JSON.stringify({ Invoices: [{ InvoiceID: invoice.xero_invoice_id, Status: newStatus }] }),
+    });
+
+    if (!voidResponse.ok) {
+      const errorText = await voidResponse.text();
+      console.error('ERROR: Xero void failed:', errorText);
+      return new Response(JSON.stringify({ error: 'Failed to void invoice in Xero' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log('=== Xero Void Invoice - Success ===', newStatus);
+    return new Response(JSON.stringify({ success: true, xero_status: newStatus }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('=== Xero Void Invoice - Error ===');
+    console.error('Unexpected error:', error);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
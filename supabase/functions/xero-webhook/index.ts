@@ -1,7 +1,17 @@
-// Xero Webhook - Receive invoice update notifications
+// Xero Webhook - Receive invoice and contact update notifications
+// Payments, part payments, voids and deletions in Xero are applied to the invoice as
+// they arrive. xero-reconcile-invoices catches any that never do. Changes to a contact
+// linked to a customer are copied to the customer's profile.
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { XERO_API_URL, corsHeaders } from '../_shared/xero.ts';
+import { XERO_API_URL, getValidXeroToken, corsHeaders } from '../_shared/xero.ts';
+import { LOCAL_INVOICE_COLUMNS, applyXeroInvoice } from '../_shared/xeroPayments.ts';
+import {
+  CUSTOMER_PROFILE_COLUMNS,
+  CustomerProfile,
+  getProfileUpdateFromContact,
+  getXeroContact,
+} from '../_shared/xeroContacts.ts';
 import { crypto } from 'https://deno.land/std@0.168.0/crypto/mod.ts';
 
 const WEBHOOK_KEY = Deno.env.get('XERO_WEBHOOK_KEY') ?? '';
@@ -109,32 +119,85 @@ serve(async (req) => {
     for (const event of payload.events) {
       console.log('Processing event:', event.eventType, event.eventCategory, event.resourceId);
 
-      // Only process invoice update events
-      if (event.eventCategory !== 'INVOICE') {
-        console.log('Skipping non-invoice event');
+      // Only process invoice and contact events
+      if (event.eventCategory !== 'INVOICE' && event.eventCategory !== 'CONTACT') {
+        console.log('Skipping', event.eventCategory, 'event');
         continue;
       }
 
       const xeroTenantId = event.tenantId;
-      const xeroInvoiceId = event.resourceId;
 
-      // Find the integration token for this Xero tenant
+      // Find a connection to this Xero organisation (any owner's will do)
       const { data: tokenData, error: tokenError } = await supabaseAdmin
         .from('integration_tokens')
-        .select('tenant_id, access_token, refresh_token, token_expires_at')
+        .select('tenant_id, user_id')
         .eq('xero_tenant_id', xeroTenantId)
         .eq('provider', 'xero')
-        .single();
+        .limit(1)
+        .maybeSingle();
 
       if (tokenError || !tokenData) {
         console.log('No matching tenant found for Xero tenant:', xeroTenantId);
         continue;
       }
 
+      if (event.eventCategory === 'CONTACT') {
+        const xeroContactId = event.resourceId;
+
+        // This business's own customers linked to this contact. The profile is shared with
+        // every business a customer orders from, so only their own business's Xero changes it.
+        const { data: customers } = await supabaseAdmin
+          .from('users')
+          .select(CUSTOMER_PROFILE_COLUMNS)
+          .eq('xero_contact_id', xeroContactId)
+          .eq('tenant_id', tokenData.tenant_id);
+
+        if (!customers || customers.length === 0) {
+          console.log('No customer linked to Xero contact:', xeroContactId);
+          continue;
+        }
+
+        const tokenResult = await getValidXeroToken(tokenData.user_id);
+        if (!tokenResult.success || !tokenResult.accessToken) {
+          console.error('No valid Xero token for Xero tenant:', xeroTenantId, '-', tokenResult.error);
+          continue;
+        }
+
+        const contactResult = await getXeroContact(
+          { accessToken: tokenResult.accessToken, xeroTenantId },
+          xeroContactId
+        );
+        if (!contactResult.success || !contactResult.contact) {
+          console.error('Failed to fetch contact from Xero:', contactResult.error);
+          continue;
+        }
+
+        for (const customer of customers as CustomerProfile[]) {
+          // Our own pushes come back here too; they match the profile and change nothing
+          const update = getProfileUpdateFromContact(customer, contactResult.contact);
+          if (Object.keys(update).length === 0) {
+            console.log('Customer', customer.id, 'already up to date with Xero');
+            continue;
+          }
+
+          console.log('Updating customer', customer.id, 'from Xero:', Object.keys(update).join(', '));
+          const { error: updateError } = await supabaseAdmin
+            .from('users')
+            .update({ ...update, xero_contact_synced_at: new Date().toISOString() })
+            .eq('id', customer.id);
+          if (updateError) {
+            console.error('Failed to update customer', customer.id, '-', updateError.message);
+          }
+        }
+        continue;
+      }
+
+      const xeroInvoiceId = event.resourceId;
+
       // Find the invoice in our database
       const { data: invoice, error: invoiceError } = await supabaseAdmin
         .from('invoices')
-        .select('id, status')
+        .select(LOCAL_INVOICE_COLUMNS)
         .eq('xero_invoice_id', xeroInvoiceId)
         .eq('tenant_id', tokenData.tenant_id)
         .single();
@@ -144,11 +207,17 @@ serve(async (req) => {
         continue;
       }
 
+      const tokenResult = await getValidXeroToken(tokenData.user_id);
+      if (!tokenResult.success || !tokenResult.accessToken) {
+        console.error('No valid Xero token for Xero tenant:', xeroTenantId, '-', tokenResult.error);
+        continue;
+      }
+
       // Fetch invoice details from Xero to get payment status
       console.log('Fetching invoice from Xero...');
       const xeroResponse = await fetch(`${XERO_API_URL}/Invoices/${xeroInvoiceId}`, {
         headers: {
-          Authorization: `Bearer ${tokenData.access_token}`,
+          Authorization: `Bearer ${tokenResult.accessToken}`,
           'Xero-Tenant-Id': xeroTenantId,
           Accept: 'application/json',
         },
@@ -167,32 +236,8 @@ serve(async (req) => {
         continue;
       }
 
-      console.log('Xero invoice status:', xeroInvoice.Status);
-
-      // Map Xero status to our status
-      // Xero statuses: DRAFT, SUBMITTED, AUTHORISED, PAID, VOIDED, DELETED
-      let newStatus = invoice.status;
-      if (xeroInvoice.Status === 'PAID') {
-        newStatus = 'paid';
-      } else if (xeroInvoice.Status === 'VOIDED' || xeroInvoice.Status === 'DELETED') {
-        // Keep current status, maybe add a voided status later
-        console.log('Invoice voided/deleted in Xero');
-      }
-
-      // Update invoice status if changed
-      if (newStatus !== invoice.status) {
-        console.log('Updating invoice status from', invoice.status, 'to', newStatus);
-        const { error: updateError } = await supabaseAdmin
-          .from('invoices')
-          .update({ status: newStatus })
-          .eq('id', invoice.id);
-
-        if (updateError) {
-          console.error('Failed to update invoice:', updateError);
-        } else {
-          console.log('Invoice status updated successfully');
-        }
-      }
+      console.log('Xero invoice status:', xeroInvoice.Status, 'Paid:', xeroInvoice.AmountPaid, 'Due:', xeroInvoice.AmountDue);
+      await applyXeroInvoice(supabaseAdmin, invoice, xeroInvoice);
     }
 
     console.log('=== Xero Webhook Processed ===');
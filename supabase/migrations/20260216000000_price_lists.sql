@@ -0,0 +1,94 @@
+-- Customer-specific price lists and contract pricing
+-- A price list applies either to a single customer or to every customer in a price group,
+-- between optional effective dates. It can override individual item prices and/or apply
+-- a percentage discount off wholesale for items without an override.
+
+-- Price group assigned to a customer by the owner (e.g. 'Cafe', 'Distributor')
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS price_group VARCHAR(100);
+
+COMMENT ON COLUMN public.users.price_group IS 'Customer price group used to select group price lists';
+
+CREATE TABLE IF NOT EXISTS price_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  customer_id UUID REFERENCES users(id) ON DELETE CASCADE, -- Set for a customer-specific list
+  price_group VARCHAR(100), -- Set for a group list (matches users.price_group)
+  discount_percent DECIMAL(5,2) DEFAULT 0, -- Applied to wholesale when an item has no override
+  effective_from DATE,
+  effective_to DATE,
+  is_active BOOLEAN DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (customer_id IS NOT NULL OR price_group IS NOT NULL),
+  CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to >= effective_from)
+);
+
+CREATE TABLE IF NOT EXISTS price_list_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_list_id UUID NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  unit_price DECIMAL(10,2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(price_list_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_lists_tenant ON price_lists(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_price_lists_customer ON price_lists(customer_id) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_price_list_items_list ON price_list_items(price_list_id);
+
+-- Record where each order line price came from
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS price_source VARCHAR(20) DEFAULT 'wholesale',
+ADD COLUMN IF NOT EXISTS price_list_id UUID REFERENCES price_lists(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.order_items.price_source IS 'How unit_price was resolved: wholesale, contract (price list override), discount (price list percentage) or manual';
+COMMENT ON COLUMN public.order_items.price_list_id IS 'Price list that supplied the unit price, if any';
+
+-- RLS policies
+ALTER TABLE price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_list_items ENABLE ROW LEVEL SECURITY;
+
+-- Owners and masters manage price lists for their tenant
+CREATE POLICY "Owners can manage price lists" ON price_lists
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+-- Customers can read the lists that apply to them so the shop shows their prices
+CREATE POLICY "Customers can view own price lists" ON price_lists
+  FOR SELECT USING (
+    customer_id = auth.uid()
+    OR (
+      price_group IS NOT NULL
+      AND price_group = (SELECT price_group FROM users WHERE id = auth.uid())
+      AND (
+        tenant_id = (SELECT tenant_id FROM users WHERE id = auth.uid())
+        OR tenant_id IN (
+          SELECT supplier_tenant_id FROM customer_suppliers
+          WHERE customer_id = auth.uid() AND status = 'active'
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Owners can manage price list items" ON price_list_items
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+-- Visible whenever the parent list is visible
+CREATE POLICY "Customers can view own price list items" ON price_list_items
+  FOR SELECT USING (
+    price_list_id IN (SELECT id FROM price_lists)
+  );
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,19 @@
+-- Carton and multi-carton tier pricing
+-- Full cartons are charged at items.carton_price, or at a lower price per carton once
+-- the order reaches a multi-carton break. Carton lines are written to order_items with
+-- unit 'carton of N' and carried through to invoices and Xero.
+
+-- Multi-carton breaks, e.g. [{"min_cartons": 5, "carton_price": 30.00}]
+ALTER TABLE public.items
+ADD COLUMN IF NOT EXISTS carton_price_breaks JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.items.carton_price_breaks IS 'Price per carton when ordering at least min_cartons full cartons';
+
+-- Invoice lines keep the unit they were sold in (each or carton of N)
+ALTER TABLE public.invoice_items
+ADD COLUMN IF NOT EXISTS unit VARCHAR(50);
+
+COMMENT ON COLUMN public.order_items.price_source IS 'How unit_price was resolved: wholesale, contract (price list override), discount (price list percentage), carton, quantity_break (multi-carton) or manual';
+COMMENT ON COLUMN public.invoice_items.unit IS 'Unit the line was sold in, copied from order_items.unit';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,57 @@
+-- Order audit trail
+-- One row per change to an order: creation, status transitions, line edits (with
+-- before/after quantities and prices), approvals and invoicing, with who made the
+-- change and where it came from (app, email import, CSV import, manual order).
+
+CREATE TABLE IF NOT EXISTS order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  event_type VARCHAR(30) NOT NULL CHECK (
+    event_type IN ('created', 'status_changed', 'items_updated', 'updated', 'approved', 'invoiced')
+  ),
+  from_status VARCHAR(30),
+  to_status VARCHAR(30),
+  changes JSONB, -- Line changes for items_updated, changed fields for updated
+  source VARCHAR(20) NOT NULL DEFAULT 'app' CHECK (
+    source IN ('app', 'email', 'csv', 'manual', 'system')
+  ),
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for automated changes
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order ON order_events(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_events_tenant ON order_events(tenant_id);
+
+COMMENT ON TABLE order_events IS 'Append-only history of changes to orders';
+COMMENT ON COLUMN order_events.source IS 'Where the change came from: app, email (email import), csv (CSV import), manual (owner order on behalf of a customer) or system';
+
+-- RLS policies
+ALTER TABLE order_events ENABLE ROW LEVEL SECURITY;
+
+-- Tenant members can read and append events for their tenant's orders
+CREATE POLICY "Users can view order events in their tenant" ON order_events
+  FOR SELECT USING (
+    tenant_id IN (SELECT tenant_id FROM users WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can add order events in their tenant" ON order_events
+  FOR INSERT WITH CHECK (
+    tenant_id IN (SELECT tenant_id FROM users WHERE id = auth.uid())
+  );
+
+-- Customers can read and append events for their own orders with any supplier
+CREATE POLICY "Customers can view events for own orders" ON order_events
+  FOR SELECT USING (
+    order_id IN (SELECT id FROM orders WHERE customer_id = auth.uid() OR created_by = auth.uid())
+  );
+
+CREATE POLICY "Customers can add events for own orders" ON order_events
+  FOR INSERT WITH CHECK (
+    order_id IN (SELECT id FROM orders WHERE customer_id = auth.uid() OR created_by = auth.uid())
+  );
+
+-- No UPDATE or DELETE policies: the history is append-only
+
+NOTIFY pgrst, 'reload schema';
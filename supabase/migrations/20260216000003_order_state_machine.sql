@@ -0,0 +1,187 @@
+-- Order state machine
+-- Allowed status moves live in order_status_transitions (mirrored by
+-- src/utils/orderStatus.ts) and are enforced by a trigger, so no client can write an
+-- arbitrary status. Orders with a live invoice (any invoice not cancelled/voided) are
+-- locked: their lines and amounts cannot change and the order cannot be deleted or
+-- cancelled until the invoice is voided with void_order_invoice().
+
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+  from_status VARCHAR(30) NOT NULL,
+  to_status VARCHAR(30) NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO order_status_transitions (from_status, to_status) VALUES
+  ('draft', 'pending_approval'),
+  ('draft', 'approved'),
+  ('draft', 'cancelled'),
+  ('pending_approval', 'approved'),
+  ('pending_approval', 'cancelled'),
+  ('approved', 'sent'),
+  ('approved', 'delivered'),
+  ('approved', 'cancelled'),
+  ('sent', 'delivered'),
+  ('sent', 'cancelled')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone signed in can read order status transitions" ON order_status_transitions
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Voided invoices keep a record of why and when
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+COMMENT ON COLUMN public.invoices.void_reason IS 'Why the invoice was voided (status cancelled) to unlock its order';
+
+-- Record invoice voids in the order history
+ALTER TABLE order_events DROP CONSTRAINT IF EXISTS order_events_event_type_check;
+ALTER TABLE order_events ADD CONSTRAINT order_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'items_updated', 'updated', 'approved', 'invoiced', 'invoice_voided'));
+
+-- True when the order has an invoice that has not been voided
+CREATE OR REPLACE FUNCTION order_has_live_invoice(p_order_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM invoices WHERE order_id = p_order_id AND status <> 'cancelled'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION enforce_order_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status NOT IN ('draft', 'pending_approval', 'cancelled') THEN
+      RAISE EXCEPTION 'Cannot delete an order that is %. Cancel it first.', OLD.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF order_has_live_invoice(OLD.id) THEN
+      RAISE EXCEPTION 'Cannot delete an invoiced order. Void the invoice first.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM order_status_transitions
+      WHERE from_status = OLD.status AND to_status = NEW.status
+    ) THEN
+      RAISE EXCEPTION 'Cannot move an order from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.status = 'cancelled' AND order_has_live_invoice(OLD.id) THEN
+      RAISE EXCEPTION 'Cannot cancel an invoiced order. Void the invoice first.'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF order_has_live_invoice(OLD.id) AND (
+    NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.tax IS DISTINCT FROM OLD.tax
+    OR NEW.delivery_fee IS DISTINCT FROM OLD.delivery_fee
+    OR NEW.total IS DISTINCT FROM OLD.total
+    OR NEW.customer_id IS DISTINCT FROM OLD.customer_id
+    OR NEW.supplier_id IS DISTINCT FROM OLD.supplier_id
+  ) THEN
+    RAISE EXCEPTION 'Cannot edit an invoiced order. Void the invoice first.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_rules ON orders;
+CREATE TRIGGER enforce_order_rules
+  BEFORE UPDATE OR DELETE ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_order_rules();
+
+-- Lines of an invoiced order are fixed (received quantities can still be recorded)
+CREATE OR REPLACE FUNCTION enforce_order_item_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  v_order_id := COALESCE(NEW.order_id, OLD.order_id);
+
+  -- Cascading delete from an order that is itself being deleted
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM orders WHERE id = v_order_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.quantity IS NOT DISTINCT FROM OLD.quantity
+    AND NEW.unit_price IS NOT DISTINCT FROM OLD.unit_price
+    AND NEW.total IS NOT DISTINCT FROM OLD.total
+    AND NEW.procurement_item_id IS NOT DISTINCT FROM OLD.procurement_item_id
+    AND NEW.name IS NOT DISTINCT FROM OLD.name
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF order_has_live_invoice(v_order_id) THEN
+    RAISE EXCEPTION 'Cannot change the items of an invoiced order. Void the invoice first.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_item_rules ON order_items;
+CREATE TRIGGER enforce_order_item_rules
+  BEFORE INSERT OR UPDATE OR DELETE ON order_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_order_item_rules();
+
+-- Void an order's live invoice so the order can be edited, cancelled or deleted.
+-- Paid invoices cannot be voided; they need a credit note.
+CREATE OR REPLACE FUNCTION void_order_invoice(p_order_id UUID, p_reason TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void an invoice';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices
+  WHERE order_id = p_order_id AND status <> 'cancelled'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This order has no invoice to void';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can void invoices';
+  END IF;
+
+  IF v_invoice.status = 'paid' THEN
+    RAISE EXCEPTION 'Invoice % has been paid and cannot be voided. Issue a credit note instead.', v_invoice.invoice_number;
+  END IF;
+
+  UPDATE invoices
+  SET status = 'cancelled', voided_at = NOW(), void_reason = p_reason, updated_at = NOW()
+  WHERE id = v_invoice.id;
+
+  INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+  VALUES (p_order_id, v_invoice.tenant_id, 'invoice_voided', 'app', auth.uid(),
+          'Invoice ' || v_invoice.invoice_number || ' voided: ' || p_reason);
+
+  RETURN v_invoice.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION void_order_invoice(UUID, TEXT) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
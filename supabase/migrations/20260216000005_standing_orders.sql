@@ -0,0 +1,118 @@
+-- Standing orders
+-- Recurring order templates: a customer's usual items and quantities for one supplier,
+-- delivered on one of the supplier's delivery_days every 1-4 weeks. The
+-- generate-standing-orders function (run by pg_cron below) turns templates with
+-- auto_submit into pending_approval orders ahead of the supplier's cutoff_time, and
+-- reminds customers to place the others themselves.
+
+CREATE TABLE IF NOT EXISTS standing_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE, -- The supplier's tenant
+  customer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  delivery_day VARCHAR(3) NOT NULL CHECK (
+    delivery_day IN ('mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun')
+  ),
+  interval_weeks INTEGER NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 4),
+  auto_submit BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_delivery_date DATE NOT NULL,
+  last_generated_for DATE, -- Delivery date of the last order placed from this template
+  last_reminded_for DATE, -- Delivery date the customer was last reminded about
+  last_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS standing_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  standing_order_id UUID NOT NULL REFERENCES standing_orders(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  quantity NUMERIC(10, 2) NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(standing_order_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_standing_orders_tenant ON standing_orders(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_standing_orders_customer ON standing_orders(customer_id);
+CREATE INDEX IF NOT EXISTS idx_standing_orders_due ON standing_orders(next_delivery_date) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_standing_order_items_order ON standing_order_items(standing_order_id);
+
+-- Orders remember the template they were generated from
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS standing_order_id UUID REFERENCES standing_orders(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE standing_orders IS 'Recurring order templates turned into orders by the generate-standing-orders function';
+COMMENT ON COLUMN standing_orders.delivery_day IS 'Supplier delivery day the order is for (mon..sun)';
+COMMENT ON COLUMN standing_orders.auto_submit IS 'Place the order automatically before the supplier cutoff; otherwise remind the customer';
+COMMENT ON COLUMN public.orders.standing_order_id IS 'Standing order this order was generated from, if any';
+
+-- RLS policies
+ALTER TABLE standing_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE standing_order_items ENABLE ROW LEVEL SECURITY;
+
+-- Owners can view and manage standing orders in their tenant
+CREATE POLICY "Owners can manage tenant standing orders" ON standing_orders
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+-- Customers manage their own standing orders with connected suppliers
+CREATE POLICY "Customers can manage own standing orders" ON standing_orders
+  FOR ALL USING (
+    customer_id = auth.uid()
+  )
+  WITH CHECK (
+    customer_id = auth.uid()
+    AND tenant_id IN (
+      SELECT supplier_tenant_id FROM customer_suppliers
+      WHERE customer_id = auth.uid() AND status = 'active'
+    )
+  );
+
+CREATE POLICY "Owners can manage tenant standing order items" ON standing_order_items
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE POLICY "Customers can manage own standing order items" ON standing_order_items
+  FOR ALL USING (
+    standing_order_id IN (SELECT id FROM standing_orders WHERE customer_id = auth.uid())
+  );
+
+-- Call the generator every 15 minutes; it only acts on templates whose cutoff is near
+CREATE OR REPLACE FUNCTION public.trigger_standing_orders()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := 'https://cijgmmckafmfmmlpvgyi.supabase.co/functions/v1/generate-standing-orders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'apikey', current_setting('supabase.service_role_key', true)
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+SELECT cron.schedule(
+  'standing-orders',
+  '*/15 * * * *',
+  $$SELECT public.trigger_standing_orders()$$
+);
+
+COMMENT ON FUNCTION public.trigger_standing_orders() IS 'Triggers the generate-standing-orders edge function. Called automatically every 15 minutes by pg_cron.';
+
+NOTIFY pgrst, 'reload schema';
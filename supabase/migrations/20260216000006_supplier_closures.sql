@@ -0,0 +1,13 @@
+-- Supplier closure dates
+-- Public holidays and shutdowns on which a supplier makes no deliveries. Together with
+-- delivery_days, cutoff_time and the tenant's timezone they decide which
+-- requested_delivery_date an order may have (src/utils/deliverySchedule.ts).
+
+-- e.g. [{"date": "2026-12-25", "reason": "Christmas Day"}]
+ALTER TABLE public.suppliers
+ADD COLUMN IF NOT EXISTS closure_dates JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.suppliers.closure_dates IS 'Dates with no deliveries (public holidays, shutdowns): [{date: YYYY-MM-DD, reason}]';
+COMMENT ON COLUMN public.suppliers.cutoff_time IS 'Orders must be placed by this time (tenant timezone) on the day before delivery';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,114 @@
+-- Delivery runs
+-- Approved orders for a delivery date are grouped into runs (one per driver or vehicle)
+-- with their stops in driving order. The run sheet and pick list are printed from the
+-- app; dispatching a run marks its orders sent.
+
+CREATE TABLE IF NOT EXISTS delivery_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  delivery_date DATE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  driver_name VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'planned' CHECK (
+    status IN ('planned', 'out_for_delivery', 'completed')
+  ),
+  notes TEXT,
+  dispatched_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS delivery_run_stops (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES delivery_runs(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE, -- An order is on one run
+  stop_number INTEGER NOT NULL CHECK (stop_number > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_runs_tenant_date ON delivery_runs(tenant_id, delivery_date);
+CREATE INDEX IF NOT EXISTS idx_delivery_run_stops_run ON delivery_run_stops(run_id, stop_number);
+
+COMMENT ON TABLE delivery_runs IS 'Groups of approved orders delivered together on one date';
+COMMENT ON COLUMN delivery_runs.status IS 'planned -> out_for_delivery (orders marked sent) -> completed';
+COMMENT ON COLUMN delivery_run_stops.stop_number IS 'Position of the stop on the run, from 1';
+
+-- RLS policies
+ALTER TABLE delivery_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_run_stops ENABLE ROW LEVEL SECURITY;
+
+-- Owners plan and manage the runs in their tenant
+CREATE POLICY "Owners can manage tenant delivery runs" ON delivery_runs
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE POLICY "Owners can manage tenant delivery run stops" ON delivery_run_stops
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+-- Send a planned run out: its approved orders become sent, with history, in one transaction.
+-- Returns the number of orders marked sent.
+CREATE OR REPLACE FUNCTION dispatch_delivery_run(p_run_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_run delivery_runs%ROWTYPE;
+  v_order RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_run FROM delivery_runs WHERE id = p_run_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Delivery run not found';
+  END IF;
+
+  IF v_run.status <> 'planned' THEN
+    RAISE EXCEPTION 'This run is already out for delivery';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM delivery_run_stops WHERE run_id = p_run_id) THEN
+    RAISE EXCEPTION 'Add at least one order to the run before sending it out';
+  END IF;
+
+  FOR v_order IN
+    SELECT o.id, o.tenant_id, o.status
+    FROM delivery_run_stops s
+    JOIN orders o ON o.id = s.order_id
+    WHERE s.run_id = p_run_id
+    ORDER BY s.stop_number
+  LOOP
+    -- Orders already sent (e.g. by hand) stay as they are
+    IF v_order.status = 'approved' THEN
+      UPDATE orders SET status = 'sent', sent_at = NOW(), updated_at = NOW() WHERE id = v_order.id;
+
+      INSERT INTO order_events (order_id, tenant_id, event_type, from_status, to_status, source, actor_id, notes)
+      VALUES (v_order.id, v_order.tenant_id, 'status_changed', 'approved', 'sent', 'app', auth.uid(),
+              'Out for delivery on ' || v_run.name);
+
+      v_count := v_count + 1;
+    ELSIF v_order.status <> 'sent' THEN
+      RAISE EXCEPTION 'Only approved orders can go out for delivery';
+    END IF;
+  END LOOP;
+
+  UPDATE delivery_runs
+  SET status = 'out_for_delivery', dispatched_at = NOW(), updated_at = NOW()
+  WHERE id = p_run_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION dispatch_delivery_run(UUID) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,158 @@
+-- Proof of delivery
+-- When a driver hands an order over they record what was actually received per line
+-- (order_items.received_quantity), who signed for it, a photo and the signature. The
+-- photo and signature live in the private delivery-proofs bucket under
+-- <tenant_id>/<order_id>/. Recording a proof marks the order delivered.
+
+CREATE TABLE IF NOT EXISTS delivery_proofs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE, -- One proof per order
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  received_by VARCHAR(255) NOT NULL,
+  photo_path TEXT,
+  signature_path TEXT,
+  notes TEXT,
+  delivered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  captured_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_proofs_tenant ON delivery_proofs(tenant_id);
+
+COMMENT ON TABLE delivery_proofs IS 'Who received an order, when, with a photo and signature';
+COMMENT ON COLUMN delivery_proofs.photo_path IS 'Path in the delivery-proofs bucket: <tenant_id>/<order_id>/photo-*.jpg';
+COMMENT ON COLUMN delivery_proofs.signature_path IS 'Path in the delivery-proofs bucket: <tenant_id>/<order_id>/signature-*.json (pad strokes)';
+
+-- RLS policies
+ALTER TABLE delivery_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage tenant delivery proofs" ON delivery_proofs
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE POLICY "Customers can view proofs of their orders" ON delivery_proofs
+  FOR SELECT USING (
+    order_id IN (SELECT id FROM orders WHERE customer_id = auth.uid())
+  );
+
+-- Storage bucket for delivery photos and signatures
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('delivery-proofs', 'delivery-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can upload their tenant delivery proofs"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'delivery-proofs' AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text FROM users
+    WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+  )
+);
+
+CREATE POLICY "Owners can read their tenant delivery proofs"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'delivery-proofs' AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text FROM users
+    WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+  )
+);
+
+CREATE POLICY "Customers can read delivery proofs of their orders"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'delivery-proofs' AND
+  (storage.foldername(name))[2] IN (
+    SELECT id::text FROM orders WHERE customer_id = auth.uid()
+  )
+);
+
+-- Record a delivery in one transaction: received quantities, the proof, the order
+-- marked delivered with history, and the run completed once all its stops are done.
+-- p_lines is [{id: order_item_id, received_quantity}]; lines left out keep their value.
+CREATE OR REPLACE FUNCTION record_delivery_proof(
+  p_order_id UUID,
+  p_received_by TEXT,
+  p_photo_path TEXT,
+  p_signature_path TEXT,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_line JSONB;
+  v_proof_id UUID;
+  v_run_id UUID;
+  v_short INTEGER;
+BEGIN
+  IF COALESCE(TRIM(p_received_by), '') = '' THEN
+    RAISE EXCEPTION 'Enter the name of the person receiving the delivery';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('approved', 'sent') THEN
+    RAISE EXCEPTION 'Only approved or sent orders can be delivered';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    IF (v_line->>'received_quantity')::NUMERIC < 0 THEN
+      RAISE EXCEPTION 'Received quantities cannot be negative';
+    END IF;
+
+    UPDATE order_items
+    SET received_quantity = (v_line->>'received_quantity')::NUMERIC
+    WHERE id = (v_line->>'id')::UUID AND order_id = p_order_id;
+  END LOOP;
+
+  INSERT INTO delivery_proofs (order_id, tenant_id, received_by, photo_path, signature_path, notes, captured_by)
+  VALUES (p_order_id, v_order.tenant_id, TRIM(p_received_by), p_photo_path, p_signature_path, p_notes, auth.uid())
+  RETURNING id INTO v_proof_id;
+
+  UPDATE orders
+  SET status = 'delivered', actual_delivery_date = CURRENT_DATE, updated_at = NOW()
+  WHERE id = p_order_id;
+
+  SELECT COUNT(*) INTO v_short FROM order_items
+  WHERE order_id = p_order_id AND received_quantity IS NOT NULL AND received_quantity <> quantity;
+
+  INSERT INTO order_events (order_id, tenant_id, event_type, from_status, to_status, source, actor_id, notes)
+  VALUES (p_order_id, v_order.tenant_id, 'status_changed', v_order.status, 'delivered', 'app', auth.uid(),
+          'Received by ' || TRIM(p_received_by) ||
+          CASE WHEN v_short > 0 THEN ' (' || v_short || ' line(s) differ from the order)' ELSE '' END);
+
+  -- The run is complete when none of its orders are still waiting to be delivered
+  SELECT run_id INTO v_run_id FROM delivery_run_stops WHERE order_id = p_order_id;
+
+  IF v_run_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM delivery_run_stops s
+    JOIN orders o ON o.id = s.order_id
+    WHERE s.run_id = v_run_id AND o.status IN ('approved', 'sent')
+  ) THEN
+    UPDATE delivery_runs
+    SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+    WHERE id = v_run_id AND status = 'out_for_delivery';
+  END IF;
+
+  RETURN v_proof_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_delivery_proof(UUID, TEXT, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,203 @@
+-- Credit notes
+-- Credits against an invoice for short deliveries, damaged goods and other reasons.
+-- Each credit reverses part of the invoice at the invoiced prices; the invoice's
+-- variance_amount holds the total credited and match_status becomes
+-- matched_with_variance. Credits are pushed to Xero as ACCRECCREDIT notes allocated to
+-- the original invoice (supabase/functions/xero-create-credit-note).
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  credit_note_number VARCHAR(100) NOT NULL,
+  credit_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reason_code VARCHAR(30) NOT NULL CHECK (
+    reason_code IN ('short_delivery', 'damaged', 'wrong_item', 'pricing_error', 'returned', 'other')
+  ),
+  notes TEXT,
+  subtotal NUMERIC(10,2) NOT NULL DEFAULT 0,
+  tax NUMERIC(10,2) NOT NULL DEFAULT 0,
+  total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  status VARCHAR(30) NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'exported', 'export_failed')
+  ),
+  xero_credit_note_id TEXT,
+  exported_at TIMESTAMPTZ,
+  export_error TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS credit_note_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id UUID NOT NULL REFERENCES credit_notes(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  invoice_item_id UUID REFERENCES invoice_items(id) ON DELETE SET NULL,
+  description VARCHAR(255) NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL CHECK (quantity > 0),
+  unit VARCHAR(50),
+  unit_price NUMERIC(10,2) NOT NULL DEFAULT 0,
+  total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice ON credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_items_credit_note ON credit_note_items(credit_note_id);
+
+COMMENT ON TABLE credit_notes IS 'Credits against an invoice, exported to Xero as ACCRECCREDIT';
+COMMENT ON COLUMN credit_notes.reason_code IS 'short_delivery, damaged, wrong_item, pricing_error, returned or other';
+COMMENT ON COLUMN public.invoices.variance_amount IS 'Total credited against the invoice (credit notes)';
+
+-- Record credits in the order history
+ALTER TABLE order_events DROP CONSTRAINT IF EXISTS order_events_event_type_check;
+ALTER TABLE order_events ADD CONSTRAINT order_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'items_updated', 'updated', 'approved', 'invoiced', 'invoice_voided', 'credited'));
+
+-- RLS policies
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_note_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can manage tenant credit notes" ON credit_notes
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE POLICY "Customers can view their credit notes" ON credit_notes
+  FOR SELECT USING (customer_id = auth.uid());
+
+CREATE POLICY "Owners can manage tenant credit note items" ON credit_note_items
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE POLICY "Customers can view their credit note items" ON credit_note_items
+  FOR SELECT USING (
+    credit_note_id IN (SELECT id FROM credit_notes WHERE customer_id = auth.uid())
+  );
+
+-- Credit part of an invoice in one transaction. p_lines is
+-- [{invoice_item_id, quantity}]; each line is credited at its invoiced price and no
+-- more than is still uncredited. Tax is credited at the invoice's own rate.
+-- Returns the credit note id.
+CREATE OR REPLACE FUNCTION create_credit_note(
+  p_invoice_id UUID,
+  p_reason_code TEXT,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_line JSONB;
+  v_item invoice_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_credited NUMERIC;
+  v_credit_id UUID;
+  v_count INTEGER;
+  v_subtotal NUMERIC := 0;
+  v_tax NUMERIC;
+  v_number TEXT;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can issue credit notes';
+  END IF;
+
+  IF v_invoice.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice % has been voided and cannot be credited', v_invoice.invoice_number;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one line to credit';
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM credit_notes WHERE invoice_id = p_invoice_id;
+  v_number := 'CN-' || v_invoice.invoice_number || '-' || (v_count + 1);
+
+  INSERT INTO credit_notes (
+    tenant_id, invoice_id, order_id, customer_id, credit_note_number, reason_code, notes, created_by
+  )
+  VALUES (
+    v_invoice.tenant_id, p_invoice_id, v_invoice.order_id, v_invoice.customer_id, v_number,
+    p_reason_code, NULLIF(TRIM(p_notes), ''), auth.uid()
+  )
+  RETURNING id INTO v_credit_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_quantity := (v_line->>'quantity')::NUMERIC;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item FROM invoice_items
+    WHERE id = (v_line->>'invoice_item_id')::UUID AND invoice_id = p_invoice_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on invoice %', v_invoice.invoice_number;
+    END IF;
+
+    SELECT COALESCE(SUM(ci.quantity), 0) INTO v_credited
+    FROM credit_note_items ci
+    WHERE ci.invoice_item_id = v_item.id;
+
+    IF v_credited + v_quantity > v_item.quantity THEN
+      RAISE EXCEPTION 'Cannot credit more than was invoiced for %', v_item.description;
+    END IF;
+
+    INSERT INTO credit_note_items (credit_note_id, tenant_id, invoice_item_id, description, quantity, unit, unit_price, total)
+    VALUES (v_credit_id, v_invoice.tenant_id, v_item.id, v_item.description, v_quantity, v_item.unit,
+            v_item.unit_price, ROUND(v_quantity * v_item.unit_price, 2));
+
+    v_subtotal := v_subtotal + ROUND(v_quantity * v_item.unit_price, 2);
+  END LOOP;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Choose at least one line to credit';
+  END IF;
+
+  v_tax := CASE WHEN v_invoice.subtotal > 0
+    THEN ROUND(v_subtotal * v_invoice.tax / v_invoice.subtotal, 2)
+    ELSE 0 END;
+
+  UPDATE credit_notes
+  SET subtotal = v_subtotal, tax = v_tax, total = v_subtotal + v_tax
+  WHERE id = v_credit_id;
+
+  UPDATE invoices
+  SET variance_amount = COALESCE(variance_amount, 0) + v_subtotal + v_tax,
+      match_status = 'matched_with_variance',
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  IF v_invoice.order_id IS NOT NULL THEN
+    INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+    VALUES (v_invoice.order_id, v_invoice.tenant_id, 'credited', 'app', auth.uid(),
+            'Credit note ' || v_number || ' for ' || TO_CHAR(v_subtotal + v_tax, 'FM999999990.00') ||
+            ' (' || REPLACE(p_reason_code, '_', ' ') || ')');
+  END IF;
+
+  RETURN v_credit_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_credit_note(UUID, TEXT, TEXT, JSONB) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,12 @@
+-- Three-way invoice matching
+-- The app compares each invoice line (net of credit notes) with its order line and the
+-- quantity received on delivery, then stores the result on the invoice. Tolerances are
+-- per tenant in tenants.settings (match_tolerance_amount, match_tolerance_percent).
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS matched_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.invoices.match_status IS 'matched, matched_with_variance (lines differ beyond tolerance) or unmatched (no order, or lines on only one side)';
+COMMENT ON COLUMN public.invoices.variance_amount IS 'Invoiced minus expected (received quantities at order prices), net of credit notes';
+COMMENT ON COLUMN public.invoices.matched_at IS 'When the invoice was last matched against its order and delivery';
+
+NOTIFY pgrst, 'reload schema';
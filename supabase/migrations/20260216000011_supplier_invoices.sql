@@ -0,0 +1,45 @@
+-- Supplier invoices
+-- Invoices received from the supplier for an order, uploaded as a PDF or photo and read
+-- by parse-document (documentType 'invoice'). They share the invoices table with the
+-- invoices we issue, marked direction = 'inbound', and are matched against the order
+-- like any other invoice. Never exported to Xero or shared with the customer.
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS direction VARCHAR(10) NOT NULL DEFAULT 'outbound';
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_direction_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_direction_check
+  CHECK (direction IN ('outbound', 'inbound'));
+
+CREATE INDEX IF NOT EXISTS idx_invoices_order_direction ON invoices(order_id, direction);
+
+COMMENT ON COLUMN public.invoices.direction IS 'outbound: issued to the customer; inbound: received from the supplier';
+COMMENT ON COLUMN public.invoices.file_url IS 'Inbound invoices: path of the uploaded file in the supplier-invoices bucket';
+
+-- Storage bucket for uploaded supplier invoices, under <tenant_id>/<order_id>/
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('supplier-invoices', 'supplier-invoices', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can upload their tenant supplier invoices"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'supplier-invoices' AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text FROM users
+    WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+  )
+);
+
+CREATE POLICY "Owners can read their tenant supplier invoices"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'supplier-invoices' AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text FROM users
+    WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+  )
+);
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,152 @@
+-- Xero sync queue
+-- Invoices created by approvals are exported to Xero by the process-xero-sync-queue
+-- function (run by pg_cron below) instead of from the app, so an export survives the
+-- app closing. Failed attempts are retried with exponential backoff; a 429 from Xero
+-- waits for its Retry-After. Each job sends the same Idempotency-Key on every attempt,
+-- so a retry after a lost response can't create the invoice in Xero twice.
+
+CREATE TABLE IF NOT EXISTS xero_sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (
+    status IN ('queued', 'processing', 'succeeded', 'failed')
+  ),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  idempotency_key TEXT NOT NULL DEFAULT gen_random_uuid()::TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open job per invoice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_xero_sync_jobs_open_invoice
+  ON xero_sync_jobs(invoice_id) WHERE status IN ('queued', 'processing');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_xero_sync_jobs_idempotency_key ON xero_sync_jobs(idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_xero_sync_jobs_due ON xero_sync_jobs(next_attempt_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_xero_sync_jobs_tenant ON xero_sync_jobs(tenant_id);
+
+ALTER TABLE xero_sync_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are added through enqueue_xero_sync and worked by the service role
+CREATE POLICY "Owners can view tenant Xero sync jobs" ON xero_sync_jobs
+  FOR SELECT USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+-- Queue an invoice for export to Xero with the caller's Xero connection. Returns the
+-- open job if the invoice is already queued.
+CREATE OR REPLACE FUNCTION enqueue_xero_sync(p_invoice_id UUID)
+RETURNS xero_sync_jobs AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_job xero_sync_jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can export invoices to Xero';
+  END IF;
+
+  IF COALESCE(v_invoice.direction, 'outbound') = 'inbound' THEN
+    RAISE EXCEPTION 'Supplier invoices are not exported to Xero';
+  END IF;
+
+  IF v_invoice.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice % has been voided', v_invoice.invoice_number;
+  END IF;
+
+  SELECT * INTO v_job FROM xero_sync_jobs
+  WHERE invoice_id = p_invoice_id AND status IN ('queued', 'processing');
+
+  IF FOUND THEN
+    RETURN v_job;
+  END IF;
+
+  INSERT INTO xero_sync_jobs (tenant_id, invoice_id, order_id, requested_by)
+  VALUES (v_invoice.tenant_id, v_invoice.id, v_invoice.order_id, auth.uid())
+  RETURNING * INTO v_job;
+
+  IF v_invoice.xero_invoice_id IS NULL THEN
+    UPDATE invoices
+    SET status = 'pending', export_error = NULL, updated_at = NOW()
+    WHERE id = p_invoice_id;
+  END IF;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Claim due jobs for a worker. Jobs left processing by a worker that died are picked
+-- up again after 10 minutes.
+CREATE OR REPLACE FUNCTION claim_xero_sync_jobs(p_limit INTEGER DEFAULT 10)
+RETURNS SETOF xero_sync_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE xero_sync_jobs j
+  SET status = 'processing',
+      locked_at = NOW(),
+      attempts = j.attempts + 1,
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM xero_sync_jobs
+    WHERE (status = 'queued' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - INTERVAL '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_xero_sync_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_xero_sync_jobs(INTEGER) TO service_role;
+
+-- Work the queue every minute
+CREATE OR REPLACE FUNCTION public.trigger_xero_sync_queue()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := 'https://cijgmmckafmfmmlpvgyi.supabase.co/functions/v1/process-xero-sync-queue',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'apikey', current_setting('supabase.service_role_key', true)
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+SELECT cron.schedule(
+  'xero-sync-queue',
+  '* * * * *',
+  $$SELECT public.trigger_xero_sync_queue()$$
+);
+
+COMMENT ON TABLE xero_sync_jobs IS 'Invoices waiting to be exported to Xero, worked by process-xero-sync-queue.';
+COMMENT ON COLUMN xero_sync_jobs.requested_by IS 'Owner whose Xero connection the export uses.';
+COMMENT ON COLUMN xero_sync_jobs.status IS 'queued (waiting for next_attempt_at), processing, succeeded, or failed (gave up or not retryable).';
+COMMENT ON COLUMN xero_sync_jobs.idempotency_key IS 'Sent to Xero as Idempotency-Key on every attempt of this job.';
+COMMENT ON FUNCTION public.trigger_xero_sync_queue() IS 'Triggers the process-xero-sync-queue edge function. Called automatically every minute by pg_cron.';
+
+NOTIFY pgrst, 'reload schema';
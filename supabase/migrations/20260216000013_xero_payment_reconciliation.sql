@@ -0,0 +1,58 @@
+-- Xero payment reconciliation
+-- Invoices follow their Xero payment state: amount paid and due, partial payments, the
+-- last payment date, and invoices voided or deleted in Xero. xero-webhook applies each
+-- change as Xero reports it; xero-reconcile-invoices (run nightly by pg_cron below)
+-- pulls every invoice modified since its last run, to catch webhooks that never arrived.
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_status_check;
+ALTER TABLE invoices ADD CONSTRAINT invoices_status_check
+  CHECK (status IN (
+    'pending', 'exported', 'export_failed', 'partially_paid', 'paid', 'cancelled', 'voided', 'deleted'
+  ));
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS amount_due NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS last_payment_date DATE,
+ADD COLUMN IF NOT EXISTS xero_updated_at TIMESTAMPTZ;
+
+-- Start of the last reconciliation run for each Xero connection (sent as If-Modified-Since)
+ALTER TABLE integration_tokens
+ADD COLUMN IF NOT EXISTS invoices_reconciled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_xero_invoice_id ON invoices(xero_invoice_id) WHERE xero_invoice_id IS NOT NULL;
+
+COMMENT ON COLUMN invoices.status IS 'pending, exported, export_failed, partially_paid, paid, cancelled (voided in the app), voided (in Xero) or deleted (in Xero).';
+COMMENT ON COLUMN invoices.amount_paid IS 'Payments received against the invoice in Xero.';
+COMMENT ON COLUMN invoices.amount_due IS 'Still owing in Xero, after payments and credit notes. Null until Xero reports it.';
+COMMENT ON COLUMN invoices.last_payment_date IS 'Date of the most recent payment in Xero.';
+COMMENT ON COLUMN invoices.xero_updated_at IS 'UpdatedDateUTC of the Xero invoice when it was last applied; older updates are ignored.';
+COMMENT ON COLUMN integration_tokens.invoices_reconciled_at IS 'When xero-reconcile-invoices last started for this connection.';
+
+-- Reconcile with Xero every night at 2am Sydney time (16:00 UTC, 3am in daylight saving)
+CREATE OR REPLACE FUNCTION public.trigger_xero_reconcile_invoices()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := 'https://cijgmmckafmfmmlpvgyi.supabase.co/functions/v1/xero-reconcile-invoices',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'apikey', current_setting('supabase.service_role_key', true)
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+SELECT cron.schedule(
+  'xero-reconcile-invoices',
+  '0 16 * * *',
+  $$SELECT public.trigger_xero_reconcile_invoices()$$
+);
+
+COMMENT ON FUNCTION public.trigger_xero_reconcile_invoices() IS 'Triggers the xero-reconcile-invoices edge function. Called automatically every night by pg_cron.';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,13 @@
+-- Xero contact sync
+-- Customers are linked to a Xero contact (users.xero_contact_id) when they are created,
+-- when an owner links one from the customer list, or on their first invoice export.
+-- Profile edits are pushed to the contact by xero-sync-contact; changes made in Xero
+-- come back through xero-webhook.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS xero_contact_synced_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN users.xero_contact_id IS 'ContactID of the customer''s contact in Xero.';
+COMMENT ON COLUMN users.xero_contact_synced_at IS 'When the profile and the Xero contact were last brought into line.';
+
+NOTIFY pgrst, 'reload schema';
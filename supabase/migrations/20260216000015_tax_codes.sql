@@ -0,0 +1,313 @@
+-- Tax codes
+-- Lines no longer all carry 10% GST sent to Xero as OUTPUT. Each line's rate comes from
+-- the item's tax_rate, then its category's default, then the tenant's settings.tax_rate
+-- (line_tax_rate below), and is kept on the order and invoice lines with the GST it
+-- produced; credits carry the rate of the line they reverse. tenants.settings holds the
+-- mapping used on export:
+--
+--   tax_codes:    [{ rate, xero_tax_type, xero_account_code, label }]  one per rate we charge
+--   category_tax: { "<category>": { tax_rate, xero_account_code } }   per-category defaults
+--
+-- Items no longer default to 10%, so new items without a rate follow their category.
+
+ALTER TABLE order_items
+ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2),
+ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10,2);
+
+ALTER TABLE invoice_items
+ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2),
+ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10,2);
+
+ALTER TABLE credit_note_items
+ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2);
+
+ALTER TABLE items ALTER COLUMN tax_rate DROP DEFAULT;
+
+COMMENT ON COLUMN order_items.tax_rate IS 'GST rate (%) charged on the line. Null on lines from before tax codes.';
+COMMENT ON COLUMN order_items.tax_amount IS 'GST on the line, rounded per line as Xero does.';
+COMMENT ON COLUMN invoice_items.tax_rate IS 'GST rate (%) charged on the line, copied from the order line.';
+COMMENT ON COLUMN invoice_items.tax_amount IS 'GST on the line, rounded per line as Xero does.';
+COMMENT ON COLUMN credit_note_items.tax_rate IS 'GST rate (%) credited, as on the invoice line.';
+COMMENT ON COLUMN items.tax_rate IS 'GST rate (%). Null follows the category default, then the tenant rate.';
+
+-- The GST rate for a line: item, then category default, then tenant default
+CREATE OR REPLACE FUNCTION line_tax_rate(p_settings JSONB, p_item_tax_rate NUMERIC, p_category TEXT)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    p_item_tax_rate,
+    (p_settings->'category_tax'->p_category->>'tax_rate')::NUMERIC,
+    (p_settings->>'tax_rate')::NUMERIC,
+    0
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_order JSONB,
+  p_items JSONB,
+  p_create_invoice BOOLEAN DEFAULT false,
+  p_source TEXT DEFAULT 'app'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_tenant_id UUID := (p_order->>'tenant_id')::UUID;
+  v_status TEXT := COALESCE(p_order->>'status', 'pending_approval');
+  v_actor UUID := auth.uid();
+  v_settings JSONB;
+  v_delivery_fee NUMERIC := ROUND(COALESCE((p_order->>'delivery_fee')::NUMERIC, 0), 2);
+  v_subtotal NUMERIC;
+  v_tax NUMERIC;
+  v_order orders%ROWTYPE;
+  v_invoice invoices%ROWTYPE;
+  v_invoice_number TEXT;
+BEGIN
+  IF v_tenant_id IS NULL OR p_order->>'supplier_id' IS NULL THEN
+    RAISE EXCEPTION 'tenant_id and supplier_id are required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF v_status NOT IN ('draft', 'pending_approval', 'approved') THEN
+    RAISE EXCEPTION 'New orders cannot start as %', v_status;
+  END IF;
+
+  -- Only owners (or server-side callers) can create orders that are already approved
+  IF v_status = 'approved' AND v_actor IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = v_actor AND tenant_id = v_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    v_status := 'pending_approval';
+  END IF;
+
+  SELECT COALESCE(settings, '{}'::jsonb) INTO v_settings
+  FROM tenants WHERE id = v_tenant_id;
+
+  -- Normalise the lines and price them
+  CREATE TEMP TABLE _new_order_lines ON COMMIT DROP AS
+  SELECT
+    ordinality AS position,
+    NULLIF(line->>'procurement_item_id', '')::UUID AS procurement_item_id,
+    NULLIF(line->>'code', '') AS code,
+    line->>'name' AS name,
+    (line->>'quantity')::NUMERIC AS quantity,
+    COALESCE(NULLIF(line->>'unit', ''), 'each') AS unit,
+    ROUND((line->>'unit_price')::NUMERIC, 2) AS unit_price,
+    ROUND((line->>'quantity')::NUMERIC * (line->>'unit_price')::NUMERIC, 2) AS total,
+    NULLIF(line->>'xero_item_code', '') AS xero_item_code,
+    NULLIF(line->>'xero_account_code', '') AS xero_account_code,
+    COALESCE(NULLIF(line->>'price_source', ''), 'wholesale') AS price_source,
+    NULLIF(line->>'price_list_id', '')::UUID AS price_list_id,
+    line_tax_rate(v_settings, i.tax_rate, COALESCE(NULLIF(i.category, ''), i.categories[1])) AS tax_rate
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(line, ordinality)
+  LEFT JOIN items i ON i.id = NULLIF(line->>'procurement_item_id', '')::UUID;
+
+  IF EXISTS (SELECT 1 FROM _new_order_lines WHERE name IS NULL OR quantity IS NULL OR quantity <= 0 OR unit_price IS NULL) THEN
+    DROP TABLE _new_order_lines;
+    RAISE EXCEPTION 'Every item needs a name, a quantity above zero and a unit price';
+  END IF;
+
+  -- GST is rounded per line, as Xero does
+  SELECT COALESCE(SUM(total), 0), COALESCE(SUM(ROUND(total * tax_rate / 100, 2)), 0)
+  INTO v_subtotal, v_tax
+  FROM _new_order_lines;
+
+  INSERT INTO orders (
+    tenant_id, supplier_id, customer_id, order_number, order_date, requested_delivery_date,
+    subtotal, tax, delivery_fee, total, status, notes, created_by, approved_by, approved_at
+  ) VALUES (
+    v_tenant_id,
+    (p_order->>'supplier_id')::UUID,
+    NULLIF(p_order->>'customer_id', '')::UUID,
+    NULLIF(p_order->>'order_number', ''),
+    COALESCE(NULLIF(p_order->>'order_date', '')::DATE, CURRENT_DATE),
+    NULLIF(p_order->>'requested_delivery_date', '')::DATE,
+    v_subtotal,
+    v_tax,
+    v_delivery_fee,
+    v_subtotal + v_tax + v_delivery_fee,
+    v_status,
+    NULLIF(p_order->>'notes', ''),
+    COALESCE(NULLIF(p_order->>'created_by', '')::UUID, v_actor),
+    CASE WHEN v_status = 'approved' THEN COALESCE(NULLIF(p_order->>'approved_by', '')::UUID, v_actor) END,
+    CASE WHEN v_status = 'approved' THEN NOW() END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, tenant_id, procurement_item_id, code, name, quantity, unit, unit_price, total,
+    tax_rate, tax_amount, xero_item_code, xero_account_code, price_source, price_list_id
+  )
+  SELECT
+    v_order.id, v_tenant_id, procurement_item_id, code, name, quantity, unit, unit_price, total,
+    tax_rate, ROUND(total * tax_rate / 100, 2), xero_item_code, xero_account_code, price_source, price_list_id
+  FROM _new_order_lines
+  ORDER BY position;
+
+  DROP TABLE _new_order_lines;
+
+  INSERT INTO order_events (order_id, tenant_id, event_type, to_status, source, actor_id)
+  VALUES (v_order.id, v_tenant_id, 'created', v_status, COALESCE(p_source, 'app'), v_actor);
+
+  IF p_create_invoice THEN
+    v_invoice_number := 'INV-' || COALESCE(v_order.order_number, LEFT(v_order.id::TEXT, 8));
+
+    INSERT INTO invoices (
+      tenant_id, supplier_id, order_id, customer_id, invoice_number, invoice_date, due_date,
+      subtotal, tax, total, status, match_status
+    ) VALUES (
+      v_tenant_id, v_order.supplier_id, v_order.id, v_order.customer_id, v_invoice_number,
+      CURRENT_DATE, CURRENT_DATE + 30,
+      v_order.subtotal, v_order.tax, v_order.total, 'pending', 'matched'
+    )
+    RETURNING * INTO v_invoice;
+
+    INSERT INTO invoice_items (
+      invoice_id, tenant_id, procurement_item_id, order_item_id, description, quantity, unit, unit_price, total,
+      tax_rate, tax_amount
+    )
+    SELECT
+      v_invoice.id, v_tenant_id, oi.procurement_item_id, oi.id,
+      CASE WHEN oi.price_source IN ('carton', 'quantity_break') THEN oi.name || ' (' || oi.unit || ')' ELSE oi.name END,
+      oi.quantity, oi.unit, oi.unit_price, oi.total, oi.tax_rate, oi.tax_amount
+    FROM order_items oi
+    WHERE oi.order_id = v_order.id;
+
+    INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+    VALUES (v_order.id, v_tenant_id, 'invoiced', COALESCE(p_source, 'app'), v_actor, 'Invoice ' || v_invoice_number);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(v_order) || jsonb_build_object(
+      'items', (SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::jsonb)
+                FROM order_items oi WHERE oi.order_id = v_order.id)
+    ),
+    'invoice', CASE WHEN p_create_invoice THEN to_jsonb(v_invoice) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items(JSONB, JSONB, BOOLEAN, TEXT) TO authenticated;
+
+-- Credits carry the GST rate of the line they reverse. Invoices from before tax codes
+-- have no line rates, so their credits keep the invoice's overall rate.
+CREATE OR REPLACE FUNCTION create_credit_note(
+  p_invoice_id UUID,
+  p_reason_code TEXT,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_line JSONB;
+  v_item invoice_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_credited NUMERIC;
+  v_credit_id UUID;
+  v_count INTEGER;
+  v_line_total NUMERIC;
+  v_tax_rate NUMERIC;
+  v_subtotal NUMERIC := 0;
+  v_tax NUMERIC := 0;
+  v_number TEXT;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can issue credit notes';
+  END IF;
+
+  IF v_invoice.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice % has been voided and cannot be credited', v_invoice.invoice_number;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one line to credit';
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM credit_notes WHERE invoice_id = p_invoice_id;
+  v_number := 'CN-' || v_invoice.invoice_number || '-' || (v_count + 1);
+
+  INSERT INTO credit_notes (
+    tenant_id, invoice_id, order_id, customer_id, credit_note_number, reason_code, notes, created_by
+  )
+  VALUES (
+    v_invoice.tenant_id, p_invoice_id, v_invoice.order_id, v_invoice.customer_id, v_number,
+    p_reason_code, NULLIF(TRIM(p_notes), ''), auth.uid()
+  )
+  RETURNING id INTO v_credit_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_quantity := (v_line->>'quantity')::NUMERIC;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item FROM invoice_items
+    WHERE id = (v_line->>'invoice_item_id')::UUID AND invoice_id = p_invoice_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on invoice %', v_invoice.invoice_number;
+    END IF;
+
+    SELECT COALESCE(SUM(ci.quantity), 0) INTO v_credited
+    FROM credit_note_items ci
+    WHERE ci.invoice_item_id = v_item.id;
+
+    IF v_credited + v_quantity > v_item.quantity THEN
+      RAISE EXCEPTION 'Cannot credit more than was invoiced for %', v_item.description;
+    END IF;
+
+    v_line_total := ROUND(v_quantity * v_item.unit_price, 2);
+    v_tax_rate := COALESCE(
+      v_item.tax_rate,
+      CASE WHEN v_invoice.subtotal > 0 THEN ROUND(v_invoice.tax * 100 / v_invoice.subtotal, 2) ELSE 0 END
+    );
+
+    INSERT INTO credit_note_items (
+      credit_note_id, tenant_id, invoice_item_id, description, quantity, unit, unit_price, total, tax_rate
+    )
+    VALUES (v_credit_id, v_invoice.tenant_id, v_item.id, v_item.description, v_quantity, v_item.unit,
+            v_item.unit_price, v_line_total, v_tax_rate);
+
+    v_subtotal := v_subtotal + v_line_total;
+    v_tax := v_tax + ROUND(v_line_total * v_tax_rate / 100, 2);
+  END LOOP;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Choose at least one line to credit';
+  END IF;
+
+  UPDATE credit_notes
+  SET subtotal = v_subtotal, tax = v_tax, total = v_subtotal + v_tax
+  WHERE id = v_credit_id;
+
+  UPDATE invoices
+  SET variance_amount = COALESCE(variance_amount, 0) + v_subtotal + v_tax,
+      match_status = 'matched_with_variance',
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  IF v_invoice.order_id IS NOT NULL THEN
+    INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+    VALUES (v_invoice.order_id, v_invoice.tenant_id, 'credited', 'app', auth.uid(),
+            'Credit note ' || v_number || ' for ' || TO_CHAR(v_subtotal + v_tax, 'FM999999990.00') ||
+            ' (' || REPLACE(p_reason_code, '_', ' ') || ')');
+  END IF;
+
+  RETURN v_credit_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_credit_note(UUID, TEXT, TEXT, JSONB) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,297 @@
+-- Customer statements and aged receivables
+-- A statement covers one period for one customer: the balance brought forward, the
+-- invoices, credit notes and payments in the period, and the balance carried forward.
+-- Only invoices shared with the customer count (those exported to Xero), as those are
+-- the ones the customer can see. Payments come from Xero: xero-webhook and
+-- xero-reconcile-invoices keep invoice_payments in step with each invoice's Payments.
+--
+-- Aged receivables bucket what is still owing on each invoice by its age: current
+-- (under 30 days), 30, 60 and 90+ days.
+--
+-- send-statements (run by pg_cron below on the 1st of each month) emails last month's
+-- statement to each customer with a balance or activity, and records it in
+-- customer_statements so a rerun doesn't send it twice.
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  xero_payment_id TEXT NOT NULL UNIQUE,
+  payment_date DATE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL,
+  reference TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS customer_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  opening_balance NUMERIC(10,2) NOT NULL DEFAULT 0,
+  closing_balance NUMERIC(10,2) NOT NULL DEFAULT 0,
+  sent_to TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (tenant_id, customer_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_customer ON invoice_payments(customer_id, payment_date);
+CREATE INDEX IF NOT EXISTS idx_customer_statements_customer ON customer_statements(customer_id);
+
+COMMENT ON TABLE invoice_payments IS 'Payments against invoices, copied from Xero';
+COMMENT ON TABLE customer_statements IS 'Monthly statements sent to customers by send-statements';
+COMMENT ON COLUMN customer_statements.sent_to IS 'Address the statement was emailed to; null if it could not be sent';
+
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view tenant invoice payments" ON invoice_payments
+  FOR SELECT USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE POLICY "Customers can view their invoice payments" ON invoice_payments
+  FOR SELECT USING (customer_id = auth.uid());
+
+CREATE POLICY "Owners can view tenant statements" ON customer_statements
+  FOR SELECT USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE POLICY "Customers can view their statements" ON customer_statements
+  FOR SELECT USING (customer_id = auth.uid());
+
+-- Pull every invoice from Xero on the next reconciliation run, so payments made before
+-- this migration are filled in
+UPDATE integration_tokens SET invoices_reconciled_at = NULL WHERE provider = 'xero';
+
+-- Owners and master users of the tenant, the customer themselves, or the service role
+CREATE OR REPLACE FUNCTION can_view_receivables(p_tenant_id UUID, p_customer_id UUID DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+  SELECT auth.role() = 'service_role'
+    OR (p_customer_id IS NOT NULL AND p_customer_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid() AND tenant_id = p_tenant_id AND (role = 'owner' OR is_master = true)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Everything that moves a customer's balance: invoices up, credits and payments down
+CREATE OR REPLACE FUNCTION customer_ledger(p_tenant_id UUID, p_customer_id UUID)
+RETURNS TABLE (
+  entry_date DATE,
+  entry_type TEXT,
+  reference TEXT,
+  invoice_id UUID,
+  amount NUMERIC,
+  created_at TIMESTAMPTZ
+) AS $$
+  WITH issued AS (
+    SELECT * FROM invoices
+    WHERE tenant_id = p_tenant_id
+      AND customer_id = p_customer_id
+      AND direction = 'outbound'
+      AND shared_with_customer_at IS NOT NULL
+      AND status NOT IN ('cancelled', 'voided', 'deleted')
+  )
+  SELECT i.invoice_date, 'invoice', i.invoice_number::TEXT, i.id, i.total, i.created_at
+  FROM issued i
+  UNION ALL
+  SELECT cn.credit_date, 'credit', cn.credit_note_number::TEXT, cn.invoice_id, -cn.total, cn.created_at
+  FROM credit_notes cn JOIN issued i ON i.id = cn.invoice_id
+  UNION ALL
+  SELECT p.payment_date, 'payment', COALESCE(NULLIF(p.reference, ''), 'Payment - ' || i.invoice_number), p.invoice_id,
+         -p.amount, p.created_at
+  FROM invoice_payments p JOIN issued i ON i.id = p.invoice_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION customer_ledger(UUID, UUID) FROM PUBLIC;
+
+-- What each issued invoice still owes at the end of a day
+CREATE OR REPLACE FUNCTION invoice_balances(p_tenant_id UUID, p_as_of DATE, p_customer_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  invoice_id UUID,
+  customer_id UUID,
+  invoice_number TEXT,
+  invoice_date DATE,
+  due_date DATE,
+  total NUMERIC,
+  balance NUMERIC
+) AS $$
+  SELECT i.id, i.customer_id, i.invoice_number::TEXT, i.invoice_date, i.due_date, i.total,
+    i.total
+      - COALESCE((SELECT SUM(cn.total) FROM credit_notes cn
+                  WHERE cn.invoice_id = i.id AND cn.credit_date <= p_as_of), 0)
+      - COALESCE((SELECT SUM(p.amount) FROM invoice_payments p
+                  WHERE p.invoice_id = i.id AND p.payment_date <= p_as_of), 0)
+  FROM invoices i
+  WHERE i.tenant_id = p_tenant_id
+    AND (p_customer_id IS NULL OR i.customer_id = p_customer_id)
+    AND i.customer_id IS NOT NULL
+    AND i.direction = 'outbound'
+    AND i.shared_with_customer_at IS NOT NULL
+    AND i.status NOT IN ('cancelled', 'voided', 'deleted')
+    AND i.invoice_date <= p_as_of;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION invoice_balances(UUID, DATE, UUID) FROM PUBLIC;
+
+-- A customer's statement for p_start to p_end (inclusive)
+CREATE OR REPLACE FUNCTION get_customer_statement(
+  p_tenant_id UUID,
+  p_customer_id UUID,
+  p_start DATE,
+  p_end DATE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_opening NUMERIC;
+  v_entries JSONB;
+  v_totals RECORD;
+  v_aging JSONB;
+  v_outstanding JSONB;
+BEGIN
+  IF NOT can_view_receivables(p_tenant_id, p_customer_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this statement';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_opening
+  FROM customer_ledger(p_tenant_id, p_customer_id)
+  WHERE entry_date < p_start;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'invoice'), 0) AS invoiced,
+    COALESCE(-SUM(amount) FILTER (WHERE entry_type = 'credit'), 0) AS credited,
+    COALESCE(-SUM(amount) FILTER (WHERE entry_type = 'payment'), 0) AS paid,
+    COALESCE(jsonb_agg(
+      jsonb_build_object(
+        'date', entry_date,
+        'type', entry_type,
+        'reference', reference,
+        'invoice_id', invoice_id,
+        'amount', amount,
+        'balance', v_opening + running
+      ) ORDER BY entry_date, created_at
+    ), '[]'::jsonb) AS entries
+  INTO v_totals
+  FROM (
+    SELECT *, SUM(amount) OVER (ORDER BY entry_date, created_at ROWS UNBOUNDED PRECEDING) AS running
+    FROM customer_ledger(p_tenant_id, p_customer_id)
+    WHERE entry_date BETWEEN p_start AND p_end
+  ) ledger;
+
+  SELECT jsonb_build_object(
+    'current', COALESCE(SUM(balance) FILTER (WHERE p_end - invoice_date < 30), 0),
+    'days_30', COALESCE(SUM(balance) FILTER (WHERE p_end - invoice_date BETWEEN 30 AND 59), 0),
+    'days_60', COALESCE(SUM(balance) FILTER (WHERE p_end - invoice_date BETWEEN 60 AND 89), 0),
+    'days_90_plus', COALESCE(SUM(balance) FILTER (WHERE p_end - invoice_date >= 90), 0)
+  ),
+  COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'invoice_id', invoice_id,
+      'invoice_number', invoice_number,
+      'invoice_date', invoice_date,
+      'due_date', due_date,
+      'total', total,
+      'balance', balance
+    ) ORDER BY invoice_date, invoice_number
+  ), '[]'::jsonb)
+  INTO v_aging, v_outstanding
+  FROM invoice_balances(p_tenant_id, p_end, p_customer_id)
+  WHERE balance > 0.005;
+
+  RETURN jsonb_build_object(
+    'tenant_id', p_tenant_id,
+    'customer_id', p_customer_id,
+    'period_start', p_start,
+    'period_end', p_end,
+    'opening_balance', v_opening,
+    'invoiced', v_totals.invoiced,
+    'credited', v_totals.credited,
+    'paid', v_totals.paid,
+    'closing_balance', v_opening + v_totals.invoiced - v_totals.credited - v_totals.paid,
+    'entries', v_totals.entries,
+    'aging', v_aging,
+    'outstanding', v_outstanding
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- What each customer owes at the end of p_as_of, by invoice age
+CREATE OR REPLACE FUNCTION get_aged_receivables(p_tenant_id UUID, p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  customer_id UUID,
+  customer_name TEXT,
+  accounts_email TEXT,
+  current_amount NUMERIC,
+  days_30 NUMERIC,
+  days_60 NUMERIC,
+  days_90_plus NUMERIC,
+  total NUMERIC,
+  invoice_count INTEGER
+) AS $$
+BEGIN
+  IF NOT can_view_receivables(p_tenant_id) THEN
+    RAISE EXCEPTION 'Only owners can view aged receivables';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.customer_id,
+    COALESCE(u.business_name, u.full_name, u.email)::TEXT,
+    COALESCE(u.accounts_email, u.contact_email, u.email)::TEXT,
+    COALESCE(SUM(b.balance) FILTER (WHERE p_as_of - b.invoice_date < 30), 0),
+    COALESCE(SUM(b.balance) FILTER (WHERE p_as_of - b.invoice_date BETWEEN 30 AND 59), 0),
+    COALESCE(SUM(b.balance) FILTER (WHERE p_as_of - b.invoice_date BETWEEN 60 AND 89), 0),
+    COALESCE(SUM(b.balance) FILTER (WHERE p_as_of - b.invoice_date >= 90), 0),
+    SUM(b.balance),
+    COUNT(*)::INTEGER
+  FROM invoice_balances(p_tenant_id, p_as_of) b
+  JOIN users u ON u.id = b.customer_id
+  WHERE b.balance > 0.005
+  GROUP BY b.customer_id, u.business_name, u.full_name, u.email, u.accounts_email, u.contact_email
+  ORDER BY SUM(b.balance) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_customer_statement(UUID, UUID, DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_aged_receivables(UUID, DATE) TO authenticated;
+
+-- Send last month's statements at 10am Sydney time on the 1st (00:00 UTC, 11am in daylight saving)
+CREATE OR REPLACE FUNCTION public.trigger_send_statements()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := 'https://cijgmmckafmfmmlpvgyi.supabase.co/functions/v1/send-statements',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'apikey', current_setting('supabase.service_role_key', true)
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+SELECT cron.schedule(
+  'send-statements',
+  '0 0 1 * *',
+  $$SELECT public.trigger_send_statements()$$
+);
+
+COMMENT ON FUNCTION public.trigger_send_statements() IS 'Triggers the send-statements edge function. Called automatically on the 1st of each month by pg_cron.';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,431 @@
+-- Sequential document numbering
+-- Orders, invoices and credit notes are numbered from per-tenant counters instead of
+-- being made up by whichever screen created them (INV-<order number or id>, which could
+-- collide and left gaps). Each tenant can set a prefix, zero padding and a yearly reset
+-- for each kind in settings.numbering, e.g.
+--
+--   { "invoice": { "prefix": "INV-", "padding": 5, "yearly_reset": true } }
+--
+-- gives INV-2026-00001. Numbers are taken in the inserting transaction: the counter row
+-- stays locked until it commits, and a rolled-back insert gives its number back, so
+-- numbers run without gaps. Rows inserted with a number (supplier invoices, imports that
+-- bring their own) keep it. Outbound invoices go to Xero with this number, so both match.
+
+CREATE TABLE IF NOT EXISTS number_sequences (
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('order', 'invoice', 'credit_note')),
+  year INTEGER NOT NULL DEFAULT 0,
+  last_value INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, kind, year)
+);
+
+COMMENT ON TABLE number_sequences IS 'Last number issued for each tenant, document kind and year';
+COMMENT ON COLUMN number_sequences.year IS 'Calendar year in the tenant timezone when numbering resets yearly, else 0';
+
+ALTER TABLE number_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view tenant number sequences" ON number_sequences
+  FOR SELECT USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+-- Counter year for a kind: this year in the tenant's timezone if it resets yearly, else 0
+CREATE OR REPLACE FUNCTION document_number_year(p_tenant_id UUID, p_kind TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN COALESCE((t.settings->'numbering'->p_kind->>'yearly_reset')::BOOLEAN, false)
+      THEN EXTRACT(YEAR FROM NOW() AT TIME ZONE COALESCE(t.settings->>'timezone', 'Australia/Sydney'))::INTEGER
+    ELSE 0
+  END
+  FROM tenants t
+  WHERE t.id = p_tenant_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Takes the next number of a kind. Only the triggers below call it, so numbers can't be
+-- used up outside an insert.
+CREATE OR REPLACE FUNCTION next_document_number(p_tenant_id UUID, p_kind TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_format JSONB;
+  v_prefix TEXT;
+  v_padding INTEGER;
+  v_year INTEGER := COALESCE(document_number_year(p_tenant_id, p_kind), 0);
+  v_value INTEGER;
+BEGIN
+  SELECT COALESCE(settings->'numbering'->p_kind, '{}'::jsonb) INTO v_format
+  FROM tenants WHERE id = p_tenant_id;
+
+  v_prefix := COALESCE(
+    v_format->>'prefix',
+    CASE p_kind WHEN 'order' THEN 'ORD-' WHEN 'invoice' THEN 'INV-' ELSE 'CN-' END
+  );
+  v_padding := LEAST(GREATEST(COALESCE((v_format->>'padding')::INTEGER, 5), 1), 10);
+
+  INSERT INTO number_sequences (tenant_id, kind, year, last_value)
+  VALUES (p_tenant_id, p_kind, v_year, 1)
+  ON CONFLICT (tenant_id, kind, year)
+  DO UPDATE SET last_value = number_sequences.last_value + 1, updated_at = NOW()
+  RETURNING last_value INTO v_value;
+
+  RETURN v_prefix
+    || CASE WHEN v_year > 0 THEN v_year || '-' ELSE '' END
+    || LPAD(v_value::TEXT, GREATEST(v_padding, LENGTH(v_value::TEXT)), '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION next_document_number(UUID, TEXT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION assign_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.order_number IS NULL OR NEW.order_number = '' THEN
+    NEW.order_number := next_document_number(NEW.tenant_id, 'order');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_order_number ON orders;
+CREATE TRIGGER assign_order_number
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION assign_order_number();
+
+-- Supplier invoices keep the supplier's number
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.direction, 'outbound') = 'outbound'
+    AND (NEW.invoice_number IS NULL OR NEW.invoice_number = '') THEN
+    NEW.invoice_number := next_document_number(NEW.tenant_id, 'invoice');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_invoice_number ON invoices;
+CREATE TRIGGER assign_invoice_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW EXECUTE FUNCTION assign_invoice_number();
+
+CREATE OR REPLACE FUNCTION assign_credit_note_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.credit_note_number IS NULL OR NEW.credit_note_number = '' THEN
+    NEW.credit_note_number := next_document_number(NEW.tenant_id, 'credit_note');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_credit_note_number ON credit_notes;
+CREATE TRIGGER assign_credit_note_number
+  BEFORE INSERT ON credit_notes
+  FOR EACH ROW EXECUTE FUNCTION assign_credit_note_number();
+
+-- Owners can move a counter forward, e.g. to carry on from the numbers already in Xero.
+-- Never back, as that would issue the same number twice.
+CREATE OR REPLACE FUNCTION set_next_document_number(p_tenant_id UUID, p_kind TEXT, p_next INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_year INTEGER;
+  v_last INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = p_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can change document numbering';
+  END IF;
+
+  IF p_kind NOT IN ('order', 'invoice', 'credit_note') THEN
+    RAISE EXCEPTION 'Unknown document kind %', p_kind;
+  END IF;
+
+  v_year := COALESCE(document_number_year(p_tenant_id, p_kind), 0);
+
+  SELECT last_value INTO v_last FROM number_sequences
+  WHERE tenant_id = p_tenant_id AND kind = p_kind AND year = v_year
+  FOR UPDATE;
+
+  IF p_next IS NULL OR p_next <= COALESCE(v_last, 0) THEN
+    RAISE EXCEPTION 'The next number must be after %, the last one issued', COALESCE(v_last, 0);
+  END IF;
+
+  INSERT INTO number_sequences (tenant_id, kind, year, last_value)
+  VALUES (p_tenant_id, p_kind, v_year, p_next - 1)
+  ON CONFLICT (tenant_id, kind, year)
+  DO UPDATE SET last_value = EXCLUDED.last_value, updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_next_document_number(UUID, TEXT, INTEGER) TO authenticated;
+
+-- Invoices raised with the order (create_invoice) are numbered by assign_invoice_number
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_order JSONB,
+  p_items JSONB,
+  p_create_invoice BOOLEAN DEFAULT false,
+  p_source TEXT DEFAULT 'app'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_tenant_id UUID := (p_order->>'tenant_id')::UUID;
+  v_status TEXT := COALESCE(p_order->>'status', 'pending_approval');
+  v_actor UUID := auth.uid();
+  v_settings JSONB;
+  v_delivery_fee NUMERIC := ROUND(COALESCE((p_order->>'delivery_fee')::NUMERIC, 0), 2);
+  v_subtotal NUMERIC;
+  v_tax NUMERIC;
+  v_order orders%ROWTYPE;
+  v_invoice invoices%ROWTYPE;
+  v_terms TEXT;
+BEGIN
+  IF v_tenant_id IS NULL OR p_order->>'supplier_id' IS NULL THEN
+    RAISE EXCEPTION 'tenant_id and supplier_id are required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF v_status NOT IN ('draft', 'pending_approval', 'approved') THEN
+    RAISE EXCEPTION 'New orders cannot start as %', v_status;
+  END IF;
+
+  -- Only owners (or server-side callers) can create orders that are already approved
+  IF v_status = 'approved' AND v_actor IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = v_actor AND tenant_id = v_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    v_status := 'pending_approval';
+  END IF;
+
+  SELECT COALESCE(settings, '{}'::jsonb) INTO v_settings
+  FROM tenants WHERE id = v_tenant_id;
+
+  -- Normalise the lines and price them
+  CREATE TEMP TABLE _new_order_lines ON COMMIT DROP AS
+  SELECT
+    ordinality AS position,
+    NULLIF(line->>'procurement_item_id', '')::UUID AS procurement_item_id,
+    NULLIF(line->>'code', '') AS code,
+    line->>'name' AS name,
+    (line->>'quantity')::NUMERIC AS quantity,
+    COALESCE(NULLIF(line->>'unit', ''), 'each') AS unit,
+    ROUND((line->>'unit_price')::NUMERIC, 2) AS unit_price,
+    ROUND((line->>'quantity')::NUMERIC * (line->>'unit_price')::NUMERIC, 2) AS total,
+    NULLIF(line->>'xero_item_code', '') AS xero_item_code,
+    NULLIF(line->>'xero_account_code', '') AS xero_account_code,
+    COALESCE(NULLIF(line->>'price_source', ''), 'wholesale') AS price_source,
+    NULLIF(line->>'price_list_id', '')::UUID AS price_list_id,
+    line_tax_rate(v_settings, i.tax_rate, COALESCE(NULLIF(i.category, ''), i.categories[1])) AS tax_rate
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(line, ordinality)
+  LEFT JOIN items i ON i.id = NULLIF(line->>'procurement_item_id', '')::UUID;
+
+  IF EXISTS (SELECT 1 FROM _new_order_lines WHERE name IS NULL OR quantity IS NULL OR quantity <= 0 OR unit_price IS NULL) THEN
+    DROP TABLE _new_order_lines;
+    RAISE EXCEPTION 'Every item needs a name, a quantity above zero and a unit price';
+  END IF;
+
+  -- GST is rounded per line, as Xero does
+  SELECT COALESCE(SUM(total), 0), COALESCE(SUM(ROUND(total * tax_rate / 100, 2)), 0)
+  INTO v_subtotal, v_tax
+  FROM _new_order_lines;
+
+  INSERT INTO orders (
+    tenant_id, supplier_id, customer_id, order_number, order_date, requested_delivery_date,
+    subtotal, tax, delivery_fee, total, status, notes, created_by, approved_by, approved_at
+  ) VALUES (
+    v_tenant_id,
+    (p_order->>'supplier_id')::UUID,
+    NULLIF(p_order->>'customer_id', '')::UUID,
+    NULLIF(p_order->>'order_number', ''),
+    COALESCE(NULLIF(p_order->>'order_date', '')::DATE, CURRENT_DATE),
+    NULLIF(p_order->>'requested_delivery_date', '')::DATE,
+    v_subtotal,
+    v_tax,
+    v_delivery_fee,
+    v_subtotal + v_tax + v_delivery_fee,
+    v_status,
+    NULLIF(p_order->>'notes', ''),
+    COALESCE(NULLIF(p_order->>'created_by', '')::UUID, v_actor),
+    CASE WHEN v_status = 'approved' THEN COALESCE(NULLIF(p_order->>'approved_by', '')::UUID, v_actor) END,
+    CASE WHEN v_status = 'approved' THEN NOW() END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, tenant_id, procurement_item_id, code, name, quantity, unit, unit_price, total,
+    tax_rate, tax_amount, xero_item_code, xero_account_code, price_source, price_list_id
+  )
+  SELECT
+    v_order.id, v_tenant_id, procurement_item_id, code, name, quantity, unit, unit_price, total,
+    tax_rate, ROUND(total * tax_rate / 100, 2), xero_item_code, xero_account_code, price_source, price_list_id
+  FROM _new_order_lines
+  ORDER BY position;
+
+  DROP TABLE _new_order_lines;
+
+  INSERT INTO order_events (order_id, tenant_id, event_type, to_status, source, actor_id)
+  VALUES (v_order.id, v_tenant_id, 'created', v_status, COALESCE(p_source, 'app'), v_actor);
+
+  IF p_create_invoice THEN
+    v_terms := customer_payment_terms(v_tenant_id, v_order.customer_id);
+
+    INSERT INTO invoices (
+      tenant_id, supplier_id, order_id, customer_id, invoice_date, due_date,
+      payment_terms, subtotal, tax, total, status, match_status
+    ) VALUES (
+      v_tenant_id, v_order.supplier_id, v_order.id, v_order.customer_id,
+      CURRENT_DATE, payment_due_date(CURRENT_DATE, v_terms),
+      v_terms, v_order.subtotal, v_order.tax, v_order.total, 'pending', 'matched'
+    )
+    RETURNING * INTO v_invoice;
+
+    INSERT INTO invoice_items (
+      invoice_id, tenant_id, procurement_item_id, order_item_id, description, quantity, unit, unit_price, total,
+      tax_rate, tax_amount
+    )
+    SELECT
+      v_invoice.id, v_tenant_id, oi.procurement_item_id, oi.id,
+      CASE WHEN oi.price_source IN ('carton', 'quantity_break') THEN oi.name || ' (' || oi.unit || ')' ELSE oi.name END,
+      oi.quantity, oi.unit, oi.unit_price, oi.total, oi.tax_rate, oi.tax_amount
+    FROM order_items oi
+    WHERE oi.order_id = v_order.id;
+
+    INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+    VALUES (v_order.id, v_tenant_id, 'invoiced', COALESCE(p_source, 'app'), v_actor, 'Invoice ' || v_invoice.invoice_number);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(v_order) || jsonb_build_object(
+      'items', (SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::jsonb)
+                FROM order_items oi WHERE oi.order_id = v_order.id)
+    ),
+    'invoice', CASE WHEN p_create_invoice THEN to_jsonb(v_invoice) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+
+-- Credit notes are numbered by assign_credit_note_number
+CREATE OR REPLACE FUNCTION create_credit_note(
+  p_invoice_id UUID,
+  p_reason_code TEXT,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_line JSONB;
+  v_item invoice_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_credited NUMERIC;
+  v_credit_id UUID;
+  v_line_total NUMERIC;
+  v_tax_rate NUMERIC;
+  v_subtotal NUMERIC := 0;
+  v_tax NUMERIC := 0;
+  v_number TEXT;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can issue credit notes';
+  END IF;
+
+  IF v_invoice.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Invoice % has been voided and cannot be credited', v_invoice.invoice_number;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one line to credit';
+  END IF;
+
+  INSERT INTO credit_notes (
+    tenant_id, invoice_id, order_id, customer_id, reason_code, notes, created_by
+  )
+  VALUES (
+    v_invoice.tenant_id, p_invoice_id, v_invoice.order_id, v_invoice.customer_id,
+    p_reason_code, NULLIF(TRIM(p_notes), ''), auth.uid()
+  )
+  RETURNING id, credit_note_number INTO v_credit_id, v_number;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_quantity := (v_line->>'quantity')::NUMERIC;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item FROM invoice_items
+    WHERE id = (v_line->>'invoice_item_id')::UUID AND invoice_id = p_invoice_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on invoice %', v_invoice.invoice_number;
+    END IF;
+
+    SELECT COALESCE(SUM(ci.quantity), 0) INTO v_credited
+    FROM credit_note_items ci
+    WHERE ci.invoice_item_id = v_item.id;
+
+    IF v_credited + v_quantity > v_item.quantity THEN
+      RAISE EXCEPTION 'Cannot credit more than was invoiced for %', v_item.description;
+    END IF;
+
+    v_line_total := ROUND(v_quantity * v_item.unit_price, 2);
+    v_tax_rate := COALESCE(
+      v_item.tax_rate,
+      CASE WHEN v_invoice.subtotal > 0 THEN ROUND(v_invoice.tax * 100 / v_invoice.subtotal, 2) ELSE 0 END
+    );
+
+    INSERT INTO credit_note_items (
+      credit_note_id, tenant_id, invoice_item_id, description, quantity, unit, unit_price, total, tax_rate
+    )
+    VALUES (v_credit_id, v_invoice.tenant_id, v_item.id, v_item.description, v_quantity, v_item.unit,
+            v_item.unit_price, v_line_total, v_tax_rate);
+
+    v_subtotal := v_subtotal + v_line_total;
+    v_tax := v_tax + ROUND(v_line_total * v_tax_rate / 100, 2);
+  END LOOP;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Choose at least one line to credit';
+  END IF;
+
+  UPDATE credit_notes
+  SET subtotal = v_subtotal, tax = v_tax, total = v_subtotal + v_tax
+  WHERE id = v_credit_id;
+
+  UPDATE invoices
+  SET variance_amount = COALESCE(variance_amount, 0) + v_subtotal + v_tax,
+      match_status = 'matched_with_variance',
+      updated_at = NOW()
+  WHERE id = p_invoice_id;
+
+  IF v_invoice.order_id IS NOT NULL THEN
+    INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+    VALUES (v_invoice.order_id, v_invoice.tenant_id, 'credited', 'app', auth.uid(),
+            'Credit note ' || v_number || ' for ' || TO_CHAR(v_subtotal + v_tax, 'FM999999990.00') ||
+            ' (' || REPLACE(p_reason_code, '_', ' ') || ')');
+  END IF;
+
+  RETURN v_credit_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_credit_note(UUID, TEXT, TEXT, JSONB) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
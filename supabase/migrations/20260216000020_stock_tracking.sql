@@ -0,0 +1,431 @@
+-- Stock on hand
+-- Items can track stock. Every change is a row in stock_movements, written by
+-- apply_stock_movement, which is the only way stock_on_hand and stock_reserved change:
+--
+--   reservation  an order with the item is approved (reserved goes up)
+--   release      an approved order is cancelled or its line removed (reserved goes down)
+--   dispatch     the order is sent or delivered (reserved and on hand go down)
+--   return       a sent order is cancelled (on hand goes back up)
+--   receipt      a supplier delivery is booked in (receive_stock)
+--   adjustment   an owner corrects the count, with a reason (adjust_stock)
+--
+-- Lines priced by the carton count carton_size units each. Available stock is on hand
+-- less reserved: a tracked item goes sold_out when none is available and back to active
+-- when stock comes in (an owner can still make it inactive). When available stock falls
+-- to the item's low_stock_threshold the tenant's owners get a push notification, once,
+-- until stock goes back above it. Mirrored by src/utils/stock.ts.
+
+ALTER TABLE public.items
+ADD COLUMN IF NOT EXISTS track_stock BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS stock_on_hand NUMERIC(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS stock_reserved NUMERIC(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS low_stock_threshold NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS low_stock_alerted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.items.track_stock IS 'Stock is counted; status follows availability';
+COMMENT ON COLUMN public.items.stock_on_hand IS 'Units in the warehouse, in the item''s own unit (not cartons)';
+COMMENT ON COLUMN public.items.stock_reserved IS 'Units on approved orders not yet sent';
+COMMENT ON COLUMN public.items.low_stock_threshold IS 'Owners are alerted when available stock falls to this; null for no alert';
+COMMENT ON COLUMN public.items.low_stock_alerted_at IS 'When owners were last alerted; cleared once stock is back above the threshold';
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL
+    CHECK (movement_type IN ('reservation', 'release', 'dispatch', 'return', 'receipt', 'adjustment')),
+  on_hand_change NUMERIC(10,2) NOT NULL DEFAULT 0,
+  reserved_change NUMERIC(10,2) NOT NULL DEFAULT 0,
+  on_hand_after NUMERIC(10,2) NOT NULL,
+  reserved_after NUMERIC(10,2) NOT NULL,
+  reason TEXT,
+  reference TEXT,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT stock_movements_reason_check CHECK (
+    movement_type <> 'adjustment'
+    OR reason IN ('stocktake', 'damaged', 'expired', 'lost', 'found', 'other')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_item ON stock_movements(item_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order ON stock_movements(order_id) WHERE order_id IS NOT NULL;
+
+COMMENT ON TABLE stock_movements IS 'Every change to an item''s stock on hand or reserved, written by apply_stock_movement';
+COMMENT ON COLUMN stock_movements.reason IS 'Adjustments: stocktake, damaged, expired, lost, found or other';
+COMMENT ON COLUMN stock_movements.reference IS 'Receipts: the supplier''s delivery docket or invoice number';
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view tenant stock movements" ON stock_movements
+  FOR SELECT USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+-- Push a low stock alert to the tenant's owners through send-notification
+CREATE OR REPLACE FUNCTION notify_low_stock(p_tenant_id UUID, p_item_id UUID, p_name TEXT, p_available NUMERIC)
+RETURNS void AS $$
+DECLARE
+  v_owner_ids JSONB;
+BEGIN
+  SELECT jsonb_agg(id) INTO v_owner_ids
+  FROM users
+  WHERE tenant_id = p_tenant_id AND role = 'owner' AND push_token IS NOT NULL;
+
+  IF v_owner_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := 'https://cijgmmckafmfmmlpvgyi.supabase.co/functions/v1/send-notification',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'apikey', current_setting('supabase.service_role_key', true)
+    ),
+    body := jsonb_build_object(
+      'userIds', v_owner_ids,
+      'title', CASE WHEN p_available > 0 THEN 'Low stock' ELSE 'Sold out' END,
+      'body', CASE
+        WHEN p_available > 0 THEN p_name || ' is down to ' || TRIM(TO_CHAR(p_available, 'FM999999990.##')) || ' available'
+        ELSE p_name || ' has no stock available'
+      END,
+      'data', jsonb_build_object('type', 'low_stock', 'itemId', p_item_id)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_low_stock(UUID, UUID, TEXT, NUMERIC) FROM PUBLIC;
+
+-- Stock columns only change through apply_stock_movement. Tracked items' status and
+-- low stock alerts follow the available stock.
+CREATE OR REPLACE FUNCTION sync_item_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_moving BOOLEAN := current_setting('app.stock_movement', true) = 'on';
+  v_available NUMERIC;
+BEGIN
+  IF NOT v_moving AND (
+    (TG_OP = 'INSERT' AND (NEW.stock_on_hand <> 0 OR NEW.stock_reserved <> 0))
+    OR (TG_OP = 'UPDATE' AND (NEW.stock_on_hand IS DISTINCT FROM OLD.stock_on_hand
+                              OR NEW.stock_reserved IS DISTINCT FROM OLD.stock_reserved))
+  ) THEN
+    RAISE EXCEPTION 'Stock is changed by receiving a delivery or making an adjustment';
+  END IF;
+
+  IF NOT NEW.track_stock THEN
+    NEW.low_stock_alerted_at := NULL;
+    -- Sold out only meant "no stock"; untracked items are available again
+    IF TG_OP = 'UPDATE' AND OLD.track_stock AND NEW.status = 'sold_out' THEN
+      NEW.status := 'active';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  v_available := NEW.stock_on_hand - NEW.stock_reserved;
+
+  IF NEW.status IN ('active', 'sold_out') THEN
+    NEW.status := CASE WHEN v_available > 0 THEN 'active' ELSE 'sold_out' END;
+  END IF;
+
+  IF NEW.low_stock_threshold IS NOT NULL AND v_available <= NEW.low_stock_threshold THEN
+    IF TG_OP = 'INSERT' OR OLD.low_stock_alerted_at IS NULL THEN
+      NEW.low_stock_alerted_at := NOW();
+      PERFORM notify_low_stock(NEW.tenant_id, NEW.id, NEW.name, v_available);
+    ELSE
+      NEW.low_stock_alerted_at := OLD.low_stock_alerted_at;
+    END IF;
+  ELSE
+    NEW.low_stock_alerted_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_item_stock ON items;
+CREATE TRIGGER sync_item_stock
+  BEFORE INSERT OR UPDATE ON items
+  FOR EACH ROW EXECUTE FUNCTION sync_item_stock();
+
+-- Change an item's stock and record why. Order movements are skipped for items that
+-- don't track stock; receipts and adjustments start tracking.
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_item_id UUID,
+  p_type TEXT,
+  p_on_hand_change NUMERIC,
+  p_reserved_change NUMERIC,
+  p_order_id UUID DEFAULT NULL,
+  p_supplier_id UUID DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS items AS $$
+DECLARE
+  v_item items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND OR (NOT v_item.track_stock AND p_type IN ('reservation', 'release', 'dispatch', 'return')) THEN
+    RETURN v_item;
+  END IF;
+
+  IF COALESCE(p_on_hand_change, 0) = 0 AND COALESCE(p_reserved_change, 0) = 0 THEN
+    RETURN v_item;
+  END IF;
+
+  PERFORM set_config('app.stock_movement', 'on', true);
+  UPDATE items
+  SET track_stock = true,
+      stock_on_hand = stock_on_hand + COALESCE(p_on_hand_change, 0),
+      stock_reserved = GREATEST(stock_reserved + COALESCE(p_reserved_change, 0), 0),
+      updated_at = NOW()
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+  PERFORM set_config('app.stock_movement', 'off', true);
+
+  INSERT INTO stock_movements (
+    tenant_id, item_id, movement_type, on_hand_change, reserved_change, on_hand_after, reserved_after,
+    reason, reference, order_id, supplier_id, notes, created_by
+  ) VALUES (
+    v_item.tenant_id, p_item_id, p_type, COALESCE(p_on_hand_change, 0), COALESCE(p_reserved_change, 0),
+    v_item.stock_on_hand, v_item.stock_reserved, p_reason, NULLIF(TRIM(p_reference), ''), p_order_id,
+    p_supplier_id, NULLIF(TRIM(p_notes), ''), auth.uid()
+  );
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_stock_movement(UUID, TEXT, NUMERIC, NUMERIC, UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC;
+
+-- What an order's lines hold: reserved while approved, gone once sent or delivered
+CREATE OR REPLACE FUNCTION order_stock_stage(p_status TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_status = 'approved' THEN 'reserved'
+    WHEN p_status IN ('sent', 'delivered') THEN 'dispatched'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Move `p_units` of an item on an order from one stage to another (null for neither)
+CREATE OR REPLACE FUNCTION move_order_stock(
+  p_order_id UUID,
+  p_item_id UUID,
+  p_units NUMERIC,
+  p_from TEXT,
+  p_to TEXT
+)
+RETURNS void AS $$
+BEGIN
+  IF p_item_id IS NULL OR COALESCE(p_units, 0) = 0 OR p_from IS NOT DISTINCT FROM p_to THEN
+    RETURN;
+  END IF;
+
+  PERFORM apply_stock_movement(
+    p_item_id,
+    CASE
+      WHEN p_to = 'reserved' THEN 'reservation'
+      WHEN p_to = 'dispatched' THEN 'dispatch'
+      WHEN p_from = 'reserved' THEN 'release'
+      ELSE 'return'
+    END,
+    (CASE WHEN p_from = 'dispatched' THEN p_units ELSE 0 END)
+      - (CASE WHEN p_to = 'dispatched' THEN p_units ELSE 0 END),
+    (CASE WHEN p_to = 'reserved' THEN p_units ELSE 0 END)
+      - (CASE WHEN p_from = 'reserved' THEN p_units ELSE 0 END),
+    p_order_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION move_order_stock(UUID, UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC;
+
+-- Units of stock an order line takes: carton lines count carton_size units per carton
+CREATE OR REPLACE FUNCTION order_line_stock_units(p_quantity NUMERIC, p_price_source TEXT, p_carton_size INTEGER)
+RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN p_price_source IN ('carton', 'quantity_break') AND COALESCE(p_carton_size, 0) > 1
+      THEN p_quantity * p_carton_size
+    ELSE p_quantity
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION track_order_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_from TEXT := order_stock_stage(OLD.status);
+  v_to TEXT := order_stock_stage(NEW.status);
+  v_line RECORD;
+BEGIN
+  IF v_from IS NOT DISTINCT FROM v_to THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_line IN
+    SELECT oi.procurement_item_id AS item_id,
+      SUM(order_line_stock_units(oi.quantity, oi.price_source, i.carton_size)) AS units
+    FROM order_items oi
+    JOIN items i ON i.id = oi.procurement_item_id
+    WHERE oi.order_id = NEW.id
+    GROUP BY oi.procurement_item_id
+  LOOP
+    PERFORM move_order_stock(NEW.id, v_line.item_id, v_line.units, v_from, v_to);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS track_order_stock ON orders;
+CREATE TRIGGER track_order_stock
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION track_order_stock();
+
+-- Lines added, changed or removed on an order that already holds stock
+CREATE OR REPLACE FUNCTION track_order_item_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_stage TEXT;
+  v_old_units NUMERIC;
+  v_new_units NUMERIC;
+BEGIN
+  SELECT order_stock_stage(status) INTO v_stage
+  FROM orders WHERE id = COALESCE(NEW.order_id, OLD.order_id);
+
+  IF v_stage IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.procurement_item_id IS NOT NULL THEN
+    SELECT order_line_stock_units(OLD.quantity, OLD.price_source, carton_size) INTO v_old_units
+    FROM items WHERE id = OLD.procurement_item_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.procurement_item_id IS NOT NULL THEN
+    SELECT order_line_stock_units(NEW.quantity, NEW.price_source, carton_size) INTO v_new_units
+    FROM items WHERE id = NEW.procurement_item_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.procurement_item_id IS NOT DISTINCT FROM OLD.procurement_item_id THEN
+    IF v_new_units > v_old_units THEN
+      PERFORM move_order_stock(NEW.order_id, NEW.procurement_item_id, v_new_units - v_old_units, NULL, v_stage);
+    ELSIF v_new_units < v_old_units THEN
+      PERFORM move_order_stock(NEW.order_id, NEW.procurement_item_id, v_old_units - v_new_units, v_stage, NULL);
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM move_order_stock(OLD.order_id, OLD.procurement_item_id, v_old_units, v_stage, NULL);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM move_order_stock(NEW.order_id, NEW.procurement_item_id, v_new_units, NULL, v_stage);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS track_order_item_stock ON order_items;
+CREATE TRIGGER track_order_item_stock
+  AFTER INSERT OR UPDATE OF quantity, procurement_item_id, price_source OR DELETE ON order_items
+  FOR EACH ROW EXECUTE FUNCTION track_order_item_stock();
+
+-- Book in a supplier delivery. p_lines: [{ item_id, quantity }]
+CREATE OR REPLACE FUNCTION receive_stock(
+  p_tenant_id UUID,
+  p_supplier_id UUID,
+  p_reference TEXT,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS SETOF items AS $$
+DECLARE
+  v_line JSONB;
+  v_item_id UUID;
+  v_quantity NUMERIC;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = p_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can receive stock';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to receive';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_item_id := NULLIF(v_line->>'item_id', '')::UUID;
+    v_quantity := (v_line->>'quantity')::NUMERIC;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantities must be above zero';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM items WHERE id = v_item_id AND tenant_id = p_tenant_id) THEN
+      RAISE EXCEPTION 'Item not found';
+    END IF;
+
+    RETURN NEXT apply_stock_movement(
+      v_item_id, 'receipt', v_quantity, 0, NULL, p_supplier_id, p_reference, NULL, p_notes
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION receive_stock(UUID, UUID, TEXT, JSONB, TEXT) TO authenticated;
+
+-- Correct an item's stock on hand by p_change units (negative to take stock off)
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_item_id UUID,
+  p_change NUMERIC,
+  p_reason TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS items AS $$
+DECLARE
+  v_item items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM items WHERE id = p_item_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_item.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can adjust stock';
+  END IF;
+
+  IF COALESCE(p_change, 0) = 0 THEN
+    RAISE EXCEPTION 'Enter how much stock to add or take off';
+  END IF;
+
+  IF p_reason IS NULL OR p_reason NOT IN ('stocktake', 'damaged', 'expired', 'lost', 'found', 'other') THEN
+    RAISE EXCEPTION 'Choose a reason for the adjustment';
+  END IF;
+
+  IF p_reason = 'other' AND COALESCE(TRIM(p_notes), '') = '' THEN
+    RAISE EXCEPTION 'Add a note explaining the adjustment';
+  END IF;
+
+  RETURN apply_stock_movement(p_item_id, 'adjustment', p_change, 0, NULL, NULL, NULL, p_reason, p_notes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION adjust_stock(UUID, NUMERIC, TEXT, TEXT) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,534 @@
+-- Purchase orders
+-- What we buy from our suppliers. A purchase order is drafted from items at or below
+-- their reorder point and from approved customer orders that stock can't cover, priced
+-- at each item's purchase_price, then emailed to the supplier's orders_email by
+-- send-purchase-order (CSV, with a PDF when the app can render one):
+--
+--   draft               being put together; lines can change (save_purchase_order)
+--   sent                emailed to the supplier
+--   partially_received  some of it has arrived (receive_purchase_order)
+--   received            everything has arrived
+--   cancelled           called off before anything arrived
+--
+-- Receiving books the stock in as 'receipt' movements against the purchase order. The
+-- supplier's bill is uploaded like any supplier invoice (direction = 'inbound') with
+-- purchase_order_id set, and matched against what was ordered and received.
+
+-- Reorder points
+ALTER TABLE public.items
+ADD COLUMN IF NOT EXISTS reorder_point NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS reorder_quantity NUMERIC(10,2);
+
+COMMENT ON COLUMN public.items.reorder_point IS 'Suggest a purchase order when available stock (plus stock on order) falls to this; null to never';
+COMMENT ON COLUMN public.items.reorder_quantity IS 'Units to buy at the reorder point; null to buy back up to it';
+
+-- Purchase orders are numbered like everything else (PO-00001)
+ALTER TABLE number_sequences DROP CONSTRAINT IF EXISTS number_sequences_kind_check;
+ALTER TABLE number_sequences ADD CONSTRAINT number_sequences_kind_check
+  CHECK (kind IN ('order', 'invoice', 'credit_note', 'purchase_order'));
+
+CREATE OR REPLACE FUNCTION next_document_number(p_tenant_id UUID, p_kind TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_format JSONB;
+  v_prefix TEXT;
+  v_padding INTEGER;
+  v_year INTEGER := COALESCE(document_number_year(p_tenant_id, p_kind), 0);
+  v_value INTEGER;
+BEGIN
+  SELECT COALESCE(settings->'numbering'->p_kind, '{}'::jsonb) INTO v_format
+  FROM tenants WHERE id = p_tenant_id;
+
+  v_prefix := COALESCE(
+    v_format->>'prefix',
+    CASE p_kind
+      WHEN 'order' THEN 'ORD-'
+      WHEN 'invoice' THEN 'INV-'
+      WHEN 'purchase_order' THEN 'PO-'
+      ELSE 'CN-'
+    END
+  );
+  v_padding := LEAST(GREATEST(COALESCE((v_format->>'padding')::INTEGER, 5), 1), 10);
+
+  INSERT INTO number_sequences (tenant_id, kind, year, last_value)
+  VALUES (p_tenant_id, p_kind, v_year, 1)
+  ON CONFLICT (tenant_id, kind, year)
+  DO UPDATE SET last_value = number_sequences.last_value + 1, updated_at = NOW()
+  RETURNING last_value INTO v_value;
+
+  RETURN v_prefix
+    || CASE WHEN v_year > 0 THEN v_year || '-' ELSE '' END
+    || LPAD(v_value::TEXT, GREATEST(v_padding, LENGTH(v_value::TEXT)), '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION next_document_number(UUID, TEXT) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION set_next_document_number(p_tenant_id UUID, p_kind TEXT, p_next INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_year INTEGER;
+  v_last INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = p_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can change document numbering';
+  END IF;
+
+  IF p_kind NOT IN ('order', 'invoice', 'credit_note', 'purchase_order') THEN
+    RAISE EXCEPTION 'Unknown document kind %', p_kind;
+  END IF;
+
+  v_year := COALESCE(document_number_year(p_tenant_id, p_kind), 0);
+
+  SELECT last_value INTO v_last FROM number_sequences
+  WHERE tenant_id = p_tenant_id AND kind = p_kind AND year = v_year
+  FOR UPDATE;
+
+  IF p_next IS NULL OR p_next <= COALESCE(v_last, 0) THEN
+    RAISE EXCEPTION 'The next number must be after %, the last one issued', COALESCE(v_last, 0);
+  END IF;
+
+  INSERT INTO number_sequences (tenant_id, kind, year, last_value)
+  VALUES (p_tenant_id, p_kind, v_year, p_next - 1)
+  ON CONFLICT (tenant_id, kind, year)
+  DO UPDATE SET last_value = EXCLUDED.last_value, updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_next_document_number(UUID, TEXT, INTEGER) TO authenticated;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id),
+  po_number TEXT,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  expected_date DATE,
+  notes TEXT,
+  subtotal NUMERIC(10,2) NOT NULL DEFAULT 0,
+  tax NUMERIC(10,2) NOT NULL DEFAULT 0,
+  total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  sent_at TIMESTAMPTZ,
+  sent_to TEXT,
+  received_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_tenant ON purchase_orders(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id, status);
+
+COMMENT ON TABLE purchase_orders IS 'Orders we place with our suppliers, received into stock';
+COMMENT ON COLUMN purchase_orders.expected_date IS 'Delivery date asked for: the supplier''s next delivery day whose cutoff has not passed';
+COMMENT ON COLUMN purchase_orders.sent_to IS 'Address the purchase order was last emailed to';
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  item_id UUID REFERENCES items(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  code TEXT,
+  quantity NUMERIC(10,2) NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC(10,2) NOT NULL DEFAULT 0,
+  tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  total NUMERIC(10,2) NOT NULL DEFAULT 0,
+  received_quantity NUMERIC(10,2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_item ON purchase_order_items(item_id) WHERE item_id IS NOT NULL;
+
+COMMENT ON COLUMN purchase_order_items.quantity IS 'Units, not cartons';
+COMMENT ON COLUMN purchase_order_items.unit_cost IS 'Price per unit ex GST, from the item''s purchase_price when the line was added';
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+-- Owners read them directly; every change goes through the functions below and send-purchase-order
+CREATE POLICY "Owners can view tenant purchase orders" ON purchase_orders
+  FOR SELECT USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE POLICY "Owners can view tenant purchase order items" ON purchase_order_items
+  FOR SELECT USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION assign_purchase_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.po_number IS NULL OR NEW.po_number = '' THEN
+    NEW.po_number := next_document_number(NEW.tenant_id, 'purchase_order');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_purchase_order_number ON purchase_orders;
+CREATE TRIGGER assign_purchase_order_number
+  BEFORE INSERT ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION assign_purchase_order_number();
+
+-- Supplier bills for a purchase order, and the purchase order line each bill line is for
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL;
+
+ALTER TABLE invoice_items
+ADD COLUMN IF NOT EXISTS purchase_order_item_id UUID REFERENCES purchase_order_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_purchase_order ON invoices(purchase_order_id) WHERE purchase_order_id IS NOT NULL;
+
+COMMENT ON COLUMN invoices.purchase_order_id IS 'Inbound invoices: the purchase order this supplier bill is for';
+
+-- Receipts remember the purchase order they came in on
+ALTER TABLE stock_movements
+ADD COLUMN IF NOT EXISTS purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_purchase_order ON stock_movements(purchase_order_id)
+  WHERE purchase_order_id IS NOT NULL;
+
+DROP FUNCTION IF EXISTS apply_stock_movement(UUID, TEXT, NUMERIC, NUMERIC, UUID, UUID, TEXT, TEXT, TEXT);
+
+-- Change an item's stock and record why. Order movements are skipped for items that
+-- don't track stock; receipts and adjustments start tracking.
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_item_id UUID,
+  p_type TEXT,
+  p_on_hand_change NUMERIC,
+  p_reserved_change NUMERIC,
+  p_order_id UUID DEFAULT NULL,
+  p_supplier_id UUID DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_purchase_order_id UUID DEFAULT NULL
+)
+RETURNS items AS $$
+DECLARE
+  v_item items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND OR (NOT v_item.track_stock AND p_type IN ('reservation', 'release', 'dispatch', 'return')) THEN
+    RETURN v_item;
+  END IF;
+
+  IF COALESCE(p_on_hand_change, 0) = 0 AND COALESCE(p_reserved_change, 0) = 0 THEN
+    RETURN v_item;
+  END IF;
+
+  PERFORM set_config('app.stock_movement', 'on', true);
+  UPDATE items
+  SET track_stock = true,
+      stock_on_hand = stock_on_hand + COALESCE(p_on_hand_change, 0),
+      stock_reserved = GREATEST(stock_reserved + COALESCE(p_reserved_change, 0), 0),
+      updated_at = NOW()
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+  PERFORM set_config('app.stock_movement', 'off', true);
+
+  INSERT INTO stock_movements (
+    tenant_id, item_id, movement_type, on_hand_change, reserved_change, on_hand_after, reserved_after,
+    reason, reference, order_id, supplier_id, notes, created_by, purchase_order_id
+  ) VALUES (
+    v_item.tenant_id, p_item_id, p_type, COALESCE(p_on_hand_change, 0), COALESCE(p_reserved_change, 0),
+    v_item.stock_on_hand, v_item.stock_reserved, p_reason, NULLIF(TRIM(p_reference), ''), p_order_id,
+    p_supplier_id, NULLIF(TRIM(p_notes), ''), auth.uid(), p_purchase_order_id
+  );
+
+  RETURN v_item;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_stock_movement(UUID, TEXT, NUMERIC, NUMERIC, UUID, UUID, TEXT, TEXT, TEXT, UUID) FROM PUBLIC;
+
+-- Create (p_purchase_order_id null) or rewrite a draft purchase order and its lines, and
+-- total it. p_lines: [{ item_id, description, code, quantity, unit_cost, tax_rate }]
+CREATE OR REPLACE FUNCTION save_purchase_order(
+  p_tenant_id UUID,
+  p_purchase_order_id UUID,
+  p_supplier_id UUID,
+  p_expected_date DATE,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_line JSONB;
+  v_position INTEGER := 0;
+  v_quantity NUMERIC;
+  v_unit_cost NUMERIC;
+  v_tax_rate NUMERIC;
+  v_total NUMERIC;
+  v_subtotal NUMERIC := 0;
+  v_tax NUMERIC := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = p_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can manage purchase orders';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND tenant_id = p_tenant_id) THEN
+    RAISE EXCEPTION 'Supplier not found';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to the purchase order';
+  END IF;
+
+  IF p_purchase_order_id IS NULL THEN
+    INSERT INTO purchase_orders (tenant_id, supplier_id, expected_date, notes, created_by)
+    VALUES (p_tenant_id, p_supplier_id, p_expected_date, NULLIF(TRIM(p_notes), ''), auth.uid())
+    RETURNING * INTO v_po;
+  ELSE
+    SELECT * INTO v_po FROM purchase_orders
+    WHERE id = p_purchase_order_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+
+    IF v_po.status <> 'draft' THEN
+      RAISE EXCEPTION 'Purchase order % has been sent and can no longer be changed', v_po.po_number;
+    END IF;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = v_po.id;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_quantity := (v_line->>'quantity')::NUMERIC;
+    v_unit_cost := COALESCE((v_line->>'unit_cost')::NUMERIC, 0);
+    v_tax_rate := COALESCE((v_line->>'tax_rate')::NUMERIC, 0);
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantities must be above zero';
+    END IF;
+
+    IF v_unit_cost < 0 THEN
+      RAISE EXCEPTION 'Unit costs can''t be negative';
+    END IF;
+
+    IF COALESCE(TRIM(v_line->>'description'), '') = '' THEN
+      RAISE EXCEPTION 'Every line needs a description';
+    END IF;
+
+    IF NULLIF(v_line->>'item_id', '') IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM items WHERE id = (v_line->>'item_id')::UUID AND tenant_id = p_tenant_id
+    ) THEN
+      RAISE EXCEPTION 'Item not found';
+    END IF;
+
+    v_total := ROUND(v_quantity * v_unit_cost, 2);
+    v_subtotal := v_subtotal + v_total;
+    -- Per line, as Xero rounds it
+    v_tax := v_tax + ROUND(v_total * v_tax_rate / 100, 2);
+
+    INSERT INTO purchase_order_items (
+      purchase_order_id, tenant_id, item_id, description, code, quantity, unit_cost, tax_rate, total, sort_order
+    ) VALUES (
+      v_po.id, p_tenant_id, NULLIF(v_line->>'item_id', '')::UUID, TRIM(v_line->>'description'),
+      NULLIF(TRIM(v_line->>'code'), ''), v_quantity, v_unit_cost, v_tax_rate, v_total, v_position
+    );
+    v_position := v_position + 1;
+  END LOOP;
+
+  UPDATE purchase_orders
+  SET supplier_id = p_supplier_id,
+      expected_date = p_expected_date,
+      notes = NULLIF(TRIM(p_notes), ''),
+      subtotal = v_subtotal,
+      tax = v_tax,
+      total = v_subtotal + v_tax,
+      updated_at = NOW()
+  WHERE id = v_po.id
+  RETURNING * INTO v_po;
+
+  RETURN v_po;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_purchase_order(UUID, UUID, UUID, DATE, TEXT, JSONB) TO authenticated;
+
+-- Mark a purchase order as emailed to the supplier. Called by send-purchase-order once
+-- the email has gone; sending again just records the new time and address.
+CREATE OR REPLACE FUNCTION mark_purchase_order_sent(p_purchase_order_id UUID, p_sent_to TEXT)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_po.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can send purchase orders';
+  END IF;
+
+  IF v_po.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Purchase order % was cancelled', v_po.po_number;
+  END IF;
+
+  UPDATE purchase_orders
+  SET status = CASE WHEN status = 'draft' THEN 'sent' ELSE status END,
+      sent_at = NOW(),
+      sent_to = p_sent_to,
+      updated_at = NOW()
+  WHERE id = v_po.id
+  RETURNING * INTO v_po;
+
+  RETURN v_po;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_purchase_order_sent(UUID, TEXT) TO authenticated;
+
+-- Call off a purchase order nothing has arrived on yet
+CREATE OR REPLACE FUNCTION cancel_purchase_order(p_purchase_order_id UUID)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_po.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can cancel purchase orders';
+  END IF;
+
+  IF v_po.status NOT IN ('draft', 'sent') THEN
+    RAISE EXCEPTION 'Purchase order % has stock received against it and can''t be cancelled', v_po.po_number;
+  END IF;
+
+  UPDATE purchase_orders
+  SET status = 'cancelled', cancelled_at = NOW(), updated_at = NOW()
+  WHERE id = v_po.id
+  RETURNING * INTO v_po;
+
+  RETURN v_po;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_purchase_order(UUID) TO authenticated;
+
+-- Book in what arrived on a purchase order. p_lines: [{ purchase_order_item_id, quantity }]
+-- More than was ordered can be received. The order is received once every line is.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id UUID,
+  p_lines JSONB,
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS purchase_orders AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_line JSONB;
+  v_po_item purchase_order_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_received INTEGER := 0;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_po.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can receive stock';
+  END IF;
+
+  IF v_po.status NOT IN ('sent', 'partially_received', 'received') THEN
+    RAISE EXCEPTION 'Send purchase order % before receiving it', v_po.po_number;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    v_quantity := (v_line->>'quantity')::NUMERIC;
+    IF v_quantity IS NULL OR v_quantity = 0 THEN
+      CONTINUE;
+    END IF;
+
+    IF v_quantity < 0 THEN
+      RAISE EXCEPTION 'Received quantities must be above zero';
+    END IF;
+
+    SELECT * INTO v_po_item FROM purchase_order_items
+    WHERE id = NULLIF(v_line->>'purchase_order_item_id', '')::UUID AND purchase_order_id = v_po.id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'That line is not on purchase order %', v_po.po_number;
+    END IF;
+
+    UPDATE purchase_order_items
+    SET received_quantity = received_quantity + v_quantity
+    WHERE id = v_po_item.id;
+
+    -- Lines for items since deleted still count as received, without stock to book in
+    IF v_po_item.item_id IS NOT NULL THEN
+      PERFORM apply_stock_movement(
+        v_po_item.item_id, 'receipt', v_quantity, 0, NULL, v_po.supplier_id,
+        COALESCE(NULLIF(TRIM(p_reference), ''), v_po.po_number), NULL, p_notes, v_po.id
+      );
+    END IF;
+    v_received := v_received + 1;
+  END LOOP;
+
+  IF v_received = 0 THEN
+    RAISE EXCEPTION 'Enter how much of at least one line arrived';
+  END IF;
+
+  UPDATE purchase_orders
+  SET status = CASE
+        WHEN NOT EXISTS (
+          SELECT 1 FROM purchase_order_items
+          WHERE purchase_order_id = v_po.id AND received_quantity < quantity
+        ) THEN 'received'
+        ELSE 'partially_received'
+      END,
+      received_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_po.id
+  RETURNING * INTO v_po;
+
+  RETURN v_po;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION receive_purchase_order(UUID, JSONB, TEXT, TEXT) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,62 @@
+-- Supplier bills don't lock orders
+-- Supplier invoices share the invoices table (direction = 'inbound', 20260216000011).
+-- Only invoices we issue lock an order, and void_order_invoice must void ours rather
+-- than whichever invoice was created last, as getLiveInvoice does in the app.
+
+-- True when the order has an invoice we issued that has not been voided
+CREATE OR REPLACE FUNCTION order_has_live_invoice(p_order_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM invoices
+    WHERE order_id = p_order_id
+      AND direction = 'outbound'
+      AND status NOT IN ('cancelled', 'voided', 'deleted')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Void the live invoice we issued for an order so the order can be edited, cancelled or deleted.
+-- Paid invoices cannot be voided; they need a credit note.
+CREATE OR REPLACE FUNCTION void_order_invoice(p_order_id UUID, p_reason TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void an invoice';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices
+  WHERE order_id = p_order_id
+    AND direction = 'outbound'
+    AND status NOT IN ('cancelled', 'voided', 'deleted')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This order has no invoice to void';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can void invoices';
+  END IF;
+
+  IF v_invoice.status = 'paid' THEN
+    RAISE EXCEPTION 'Invoice % has been paid and cannot be voided. Issue a credit note instead.', v_invoice.invoice_number;
+  END IF;
+
+  UPDATE invoices
+  SET status = 'cancelled', voided_at = NOW(), void_reason = p_reason, updated_at = NOW()
+  WHERE id = v_invoice.id;
+
+  INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+  VALUES (p_order_id, v_invoice.tenant_id, 'invoice_voided', 'app', auth.uid(),
+          'Invoice ' || v_invoice.invoice_number || ' voided: ' || p_reason);
+
+  RETURN v_invoice.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+NOTIFY pgrst, 'reload schema';
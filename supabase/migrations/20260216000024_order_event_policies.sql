@@ -0,0 +1,26 @@
+-- Order events can't be forged
+-- The app appends some order events itself (20260216000002). Those inserts must be by
+-- the signed-in user as the actor, for an order of the tenant the event is filed under.
+-- The order functions already record events that way; Edge Functions (service role)
+-- are unaffected.
+
+DROP POLICY IF EXISTS "Users can add order events in their tenant" ON order_events;
+CREATE POLICY "Users can add order events in their tenant" ON order_events
+  FOR INSERT WITH CHECK (
+    actor_id = auth.uid()
+    AND tenant_id IN (SELECT tenant_id FROM users WHERE id = auth.uid())
+    AND order_id IN (SELECT id FROM orders WHERE orders.tenant_id = order_events.tenant_id)
+  );
+
+DROP POLICY IF EXISTS "Customers can add events for own orders" ON order_events;
+CREATE POLICY "Customers can add events for own orders" ON order_events
+  FOR INSERT WITH CHECK (
+    actor_id = auth.uid()
+    AND order_id IN (
+      SELECT id FROM orders
+      WHERE (customer_id = auth.uid() OR created_by = auth.uid())
+        AND orders.tenant_id = order_events.tenant_id
+    )
+  );
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,197 @@
+-- Credit control belongs to the customer's own business
+-- Credit limits and account holds are kept on the customer's users row (20260216000017),
+-- which every business they order from shares, while what they owe and have on order is
+-- worked out per business. They are set by, and apply to, the customer's own business
+-- (users.tenant_id) only: a hold placed there no longer stops them ordering from other
+-- businesses they are connected to, and those businesses see no limit.
+
+COMMENT ON COLUMN public.users.credit_limit IS 'Most the customer can owe their own business including open orders; null for no limit';
+COMMENT ON COLUMN public.users.account_hold IS 'Hold placed by the customer''s own business: they cannot order from it until it is lifted';
+
+-- Credit position of one customer, or of every customer of the tenant with a limit, a
+-- hold or something owing. The limit and hold are the customer's own business's.
+CREATE OR REPLACE FUNCTION get_customer_credit(p_tenant_id UUID, p_customer_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  customer_id UUID,
+  credit_limit NUMERIC,
+  account_hold BOOLEAN,
+  account_hold_reason TEXT,
+  outstanding NUMERIC,
+  open_orders NUMERIC,
+  overdue_amount NUMERIC,
+  overdue_count INTEGER,
+  oldest_due_date DATE
+) AS $$
+BEGIN
+  IF NOT can_view_receivables(p_tenant_id, p_customer_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this customer''s credit';
+  END IF;
+
+  RETURN QUERY
+  WITH customers AS (
+    SELECT u.id,
+      CASE WHEN u.tenant_id = p_tenant_id THEN u.credit_limit END AS credit_limit,
+      (u.tenant_id = p_tenant_id AND u.account_hold) AS account_hold,
+      CASE WHEN u.tenant_id = p_tenant_id THEN u.account_hold_reason END AS account_hold_reason
+    FROM users u
+    WHERE u.role = 'user'
+      AND (p_customer_id IS NULL OR u.id = p_customer_id)
+      AND (
+        u.tenant_id = p_tenant_id
+        OR EXISTS (
+          SELECT 1 FROM customer_suppliers cs
+          WHERE cs.customer_id = u.id AND cs.supplier_tenant_id = p_tenant_id
+        )
+      )
+  ),
+  balances AS (
+    SELECT b.customer_id,
+      SUM(b.balance) AS outstanding,
+      COALESCE(SUM(b.balance) FILTER (WHERE b.due_date < CURRENT_DATE), 0) AS overdue_amount,
+      COUNT(*) FILTER (WHERE b.due_date < CURRENT_DATE)::INTEGER AS overdue_count,
+      MIN(b.due_date) FILTER (WHERE b.due_date < CURRENT_DATE) AS oldest_due_date
+    FROM invoice_balances(p_tenant_id, CURRENT_DATE, p_customer_id) b
+    WHERE b.balance > 0.005
+    GROUP BY b.customer_id
+  ),
+  -- Placed but not yet on an invoice the customer has been sent
+  unbilled AS (
+    SELECT COALESCE(o.customer_id, o.created_by) AS customer_id, SUM(o.total) AS open_orders
+    FROM orders o
+    WHERE o.tenant_id = p_tenant_id
+      AND o.status IN ('pending_approval', 'approved', 'sent', 'delivered')
+      AND (p_customer_id IS NULL OR COALESCE(o.customer_id, o.created_by) = p_customer_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM invoices i
+        WHERE i.order_id = o.id
+          AND i.direction = 'outbound'
+          AND i.shared_with_customer_at IS NOT NULL
+          AND i.status NOT IN ('cancelled', 'voided', 'deleted')
+      )
+    GROUP BY COALESCE(o.customer_id, o.created_by)
+  )
+  SELECT
+    c.id,
+    c.credit_limit,
+    c.account_hold,
+    c.account_hold_reason,
+    COALESCE(b.outstanding, 0),
+    COALESCE(ub.open_orders, 0),
+    COALESCE(b.overdue_amount, 0),
+    COALESCE(b.overdue_count, 0),
+    b.oldest_due_date
+  FROM customers c
+  LEFT JOIN balances b ON b.customer_id = c.id
+  LEFT JOIN unbilled ub ON ub.customer_id = c.id
+  WHERE p_customer_id IS NOT NULL
+    OR c.credit_limit IS NOT NULL
+    OR c.account_hold
+    OR b.customer_id IS NOT NULL
+    OR ub.customer_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_customer_credit(UUID, UUID) TO authenticated;
+
+-- Customers can't order for themselves while on hold, or (in block mode) while over their
+-- limit or overdue. Anything else ordered for a held customer goes to credit review.
+CREATE OR REPLACE FUNCTION check_order_credit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_customer_id UUID := COALESCE(NEW.customer_id, NEW.created_by);
+  v_customer users%ROWTYPE;
+  v_credit RECORD;
+  v_mode TEXT;
+BEGIN
+  IF v_customer_id IS NULL OR NEW.status NOT IN ('pending_approval', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_customer FROM users WHERE id = v_customer_id AND role = 'user';
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  -- Other businesses the customer orders from don't see their limit or hold
+  IF v_customer.tenant_id IS DISTINCT FROM NEW.tenant_id THEN
+    v_customer.credit_limit := NULL;
+    v_customer.account_hold := false;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_customer_id THEN
+    IF v_customer.account_hold THEN
+      NEW.credit_review := true;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF v_customer.account_hold THEN
+    RAISE EXCEPTION 'Your account is on hold. Please contact us before placing another order.';
+  END IF;
+
+  SELECT COALESCE(settings->>'credit_control', 'flag') INTO v_mode FROM tenants WHERE id = NEW.tenant_id;
+  IF v_mode <> 'block' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_credit FROM get_customer_credit(NEW.tenant_id, v_customer_id);
+
+  IF v_credit.overdue_count > 0 THEN
+    RAISE EXCEPTION 'Your account has overdue invoices. Please pay them before placing another order.';
+  END IF;
+
+  IF v_customer.credit_limit IS NOT NULL
+    AND v_credit.outstanding + v_credit.open_orders + NEW.total > v_customer.credit_limit + 0.005 THEN
+    RAISE EXCEPTION 'This order would take your account over its credit limit of $%.', v_customer.credit_limit;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_order_credit ON orders;
+CREATE TRIGGER check_order_credit
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION check_order_credit();
+
+-- Only owners of the customer's own business change credit terms (customers can otherwise
+-- edit their own profile). Lifting a hold moves the customer's waiting orders with that
+-- business back into the normal queue.
+CREATE OR REPLACE FUNCTION track_account_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.credit_limit IS DISTINCT FROM OLD.credit_limit
+      OR NEW.payment_terms IS DISTINCT FROM OLD.payment_terms
+      OR NEW.account_hold IS DISTINCT FROM OLD.account_hold
+      OR NEW.account_hold_reason IS DISTINCT FROM OLD.account_hold_reason)
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid() AND tenant_id = OLD.tenant_id AND (role = 'owner' OR is_master = true)
+    ) THEN
+    RAISE EXCEPTION 'Only owners can change credit limits, payment terms and account holds';
+  END IF;
+
+  IF NEW.account_hold AND NOT OLD.account_hold THEN
+    NEW.account_hold_at := NOW();
+  ELSIF NOT NEW.account_hold AND OLD.account_hold THEN
+    NEW.account_hold_at := NULL;
+    NEW.account_hold_reason := NULL;
+
+    UPDATE orders SET credit_review = false
+    WHERE COALESCE(customer_id, created_by) = NEW.id
+      AND tenant_id = NEW.tenant_id
+      AND credit_review
+      AND status = 'pending_approval';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS track_account_hold ON users;
+CREATE TRIGGER track_account_hold
+  BEFORE UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION track_account_hold();
+
+NOTIFY pgrst, 'reload schema';
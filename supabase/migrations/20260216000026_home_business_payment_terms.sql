@@ -0,0 +1,18 @@
+-- Payment terms belong to the customer's own business
+-- A customer's payment terms are kept on their users row, which every business they
+-- order from shares. They are set by the customer's own business (users.tenant_id) and
+-- only apply to its invoices; other businesses use their default terms.
+
+COMMENT ON COLUMN public.users.payment_terms IS 'Terms with the customer''s own business: cod, net_7, net_14, twentieth_following or eom_30; null for its default';
+
+-- The customer's terms with their own business, then the tenant's default, then 7 days
+CREATE OR REPLACE FUNCTION customer_payment_terms(p_tenant_id UUID, p_customer_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT payment_terms FROM users WHERE id = p_customer_id AND tenant_id = p_tenant_id),
+    (SELECT settings->>'payment_terms' FROM tenants WHERE id = p_tenant_id),
+    'net_7'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+NOTIFY pgrst, 'reload schema';
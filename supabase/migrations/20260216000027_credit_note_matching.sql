@@ -0,0 +1,116 @@
+-- Credit notes leave the invoice match alone
+-- Since invoice matching (20260216000010), invoices.variance_amount is what was invoiced
+-- less what was expected, net of credit notes, and match_status follows from it. The app
+-- matches the invoice again once a credit note is issued, so create_credit_note no longer
+-- adds the credit to the variance or marks the invoice matched with variance.
+
+CREATE OR REPLACE FUNCTION create_credit_note(
+  p_invoice_id UUID,
+  p_reason_code TEXT,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_line JSONB;
+  v_item invoice_items%ROWTYPE;
+  v_quantity NUMERIC;
+  v_credited NUMERIC;
+  v_credit_id UUID;
+  v_line_total NUMERIC;
+  v_tax_rate NUMERIC;
+  v_subtotal NUMERIC := 0;
+  v_tax NUMERIC := 0;
+  v_number TEXT;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can issue credit notes';
+  END IF;
+
+  IF v_invoice.status IN ('cancelled', 'voided', 'deleted') THEN
+    RAISE EXCEPTION 'Invoice % has been voided and cannot be credited', v_invoice.invoice_number;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one line to credit';
+  END IF;
+
+  INSERT INTO credit_notes (
+    tenant_id, invoice_id, order_id, customer_id, reason_code, notes, created_by
+  )
+  VALUES (
+    v_invoice.tenant_id, p_invoice_id, v_invoice.order_id, v_invoice.customer_id,
+    p_reason_code, NULLIF(TRIM(p_notes), ''), auth.uid()
+  )
+  RETURNING id, credit_note_number INTO v_credit_id, v_number;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_quantity := (v_line->>'quantity')::NUMERIC;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item FROM invoice_items
+    WHERE id = (v_line->>'invoice_item_id')::UUID AND invoice_id = p_invoice_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on invoice %', v_invoice.invoice_number;
+    END IF;
+
+    SELECT COALESCE(SUM(ci.quantity), 0) INTO v_credited
+    FROM credit_note_items ci
+    WHERE ci.invoice_item_id = v_item.id;
+
+    IF v_credited + v_quantity > v_item.quantity THEN
+      RAISE EXCEPTION 'Cannot credit more than was invoiced for %', v_item.description;
+    END IF;
+
+    v_line_total := ROUND(v_quantity * v_item.unit_price, 2);
+    v_tax_rate := COALESCE(
+      v_item.tax_rate,
+      CASE WHEN v_invoice.subtotal > 0 THEN ROUND(v_invoice.tax * 100 / v_invoice.subtotal, 2) ELSE 0 END
+    );
+
+    INSERT INTO credit_note_items (
+      credit_note_id, tenant_id, invoice_item_id, description, quantity, unit, unit_price, total, tax_rate
+    )
+    VALUES (v_credit_id, v_invoice.tenant_id, v_item.id, v_item.description, v_quantity, v_item.unit,
+            v_item.unit_price, v_line_total, v_tax_rate);
+
+    v_subtotal := v_subtotal + v_line_total;
+    v_tax := v_tax + ROUND(v_line_total * v_tax_rate / 100, 2);
+  END LOOP;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'Choose at least one line to credit';
+  END IF;
+
+  UPDATE credit_notes
+  SET subtotal = v_subtotal, tax = v_tax, total = v_subtotal + v_tax
+  WHERE id = v_credit_id;
+
+  IF v_invoice.order_id IS NOT NULL THEN
+    INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+    VALUES (v_invoice.order_id, v_invoice.tenant_id, 'credited', 'app', auth.uid(),
+            'Credit note ' || v_number || ' for ' || TO_CHAR(v_subtotal + v_tax, 'FM999999990.00') ||
+            ' (' || REPLACE(p_reason_code, '_', ' ') || ')');
+  END IF;
+
+  RETURN v_credit_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_credit_note(UUID, TEXT, TEXT, JSONB) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,117 @@
+-- Save a delivery run with its stops in one transaction
+-- The app used to write the run, clear its stops and insert the new ones as separate
+-- requests, so a failure part way left a run with no stops. save_delivery_run does it
+-- all at once and checks every order belongs to the business and can go on a run.
+-- The stops policy also now requires the run and the order to be the stop's tenant's.
+
+CREATE OR REPLACE FUNCTION save_delivery_run(
+  p_tenant_id UUID,
+  p_run_id UUID,
+  p_delivery_date DATE,
+  p_name TEXT,
+  p_driver_name TEXT,
+  p_notes TEXT,
+  p_order_ids UUID[]
+)
+RETURNS delivery_runs AS $$
+DECLARE
+  v_run delivery_runs%ROWTYPE;
+  v_order_ids UUID[] := COALESCE(p_order_ids, '{}');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = p_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can manage delivery runs';
+  END IF;
+
+  IF COALESCE(TRIM(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Give the run a name';
+  END IF;
+
+  IF p_run_id IS NOT NULL THEN
+    SELECT * INTO v_run FROM delivery_runs
+    WHERE id = p_run_id AND tenant_id = p_tenant_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Delivery run not found';
+    END IF;
+
+    IF v_run.status <> 'planned' THEN
+      RAISE EXCEPTION 'This run is already out for delivery and can no longer be changed';
+    END IF;
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT id) FROM unnest(v_order_ids) AS id) <> cardinality(v_order_ids) THEN
+    RAISE EXCEPTION 'An order can only be one stop on the run';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM orders
+    WHERE id = ANY(v_order_ids) AND tenant_id = p_tenant_id
+  ) <> cardinality(v_order_ids) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Orders already sent (e.g. by hand) can stay on a run, as dispatch_delivery_run allows
+  IF EXISTS (
+    SELECT 1 FROM orders
+    WHERE id = ANY(v_order_ids) AND status NOT IN ('approved', 'sent')
+  ) THEN
+    RAISE EXCEPTION 'Only approved orders can go on a delivery run';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM delivery_run_stops
+    WHERE order_id = ANY(v_order_ids) AND run_id IS DISTINCT FROM p_run_id
+  ) THEN
+    RAISE EXCEPTION 'An order is already on another delivery run';
+  END IF;
+
+  IF p_run_id IS NULL THEN
+    INSERT INTO delivery_runs (tenant_id, delivery_date, name, driver_name, notes, created_by)
+    VALUES (p_tenant_id, p_delivery_date, TRIM(p_name), NULLIF(TRIM(p_driver_name), ''),
+            NULLIF(TRIM(p_notes), ''), auth.uid())
+    RETURNING * INTO v_run;
+  ELSE
+    UPDATE delivery_runs
+    SET delivery_date = p_delivery_date,
+        name = TRIM(p_name),
+        driver_name = NULLIF(TRIM(p_driver_name), ''),
+        notes = NULLIF(TRIM(p_notes), ''),
+        updated_at = NOW()
+    WHERE id = v_run.id
+    RETURNING * INTO v_run;
+
+    DELETE FROM delivery_run_stops WHERE run_id = v_run.id;
+  END IF;
+
+  INSERT INTO delivery_run_stops (run_id, tenant_id, order_id, stop_number)
+  SELECT v_run.id, p_tenant_id, stop.order_id, stop.stop_number
+  FROM unnest(v_order_ids) WITH ORDINALITY AS stop(order_id, stop_number);
+
+  RETURN v_run;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_delivery_run(UUID, UUID, DATE, TEXT, TEXT, TEXT, UUID[]) TO authenticated;
+
+DROP POLICY IF EXISTS "Owners can manage tenant delivery run stops" ON delivery_run_stops;
+CREATE POLICY "Owners can manage tenant delivery run stops" ON delivery_run_stops
+  FOR ALL USING (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+  )
+  WITH CHECK (
+    tenant_id IN (
+      SELECT tenant_id FROM users
+      WHERE id = auth.uid() AND (role = 'owner' OR is_master = true)
+    )
+    AND run_id IN (SELECT id FROM delivery_runs WHERE delivery_runs.tenant_id = delivery_run_stops.tenant_id)
+    AND order_id IN (SELECT id FROM orders WHERE orders.tenant_id = delivery_run_stops.tenant_id)
+  );
+
+NOTIFY pgrst, 'reload schema';
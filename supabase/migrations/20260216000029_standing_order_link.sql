@@ -0,0 +1,161 @@
+-- Orders from standing orders are linked as they're created
+-- create_order_with_items now takes standing_order_id in p_order and sets it in the same
+-- insert, instead of the app and generate-standing-orders updating the order afterwards.
+-- The standing order must belong to the order's tenant.
+
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_order JSONB,
+  p_items JSONB,
+  p_create_invoice BOOLEAN DEFAULT false,
+  p_source TEXT DEFAULT 'app'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_tenant_id UUID := (p_order->>'tenant_id')::UUID;
+  v_standing_order_id UUID := NULLIF(p_order->>'standing_order_id', '')::UUID;
+  v_status TEXT := COALESCE(p_order->>'status', 'pending_approval');
+  v_actor UUID := auth.uid();
+  v_settings JSONB;
+  v_delivery_fee NUMERIC := ROUND(COALESCE((p_order->>'delivery_fee')::NUMERIC, 0), 2);
+  v_subtotal NUMERIC;
+  v_tax NUMERIC;
+  v_order orders%ROWTYPE;
+  v_invoice invoices%ROWTYPE;
+  v_terms TEXT;
+BEGIN
+  IF v_tenant_id IS NULL OR p_order->>'supplier_id' IS NULL THEN
+    RAISE EXCEPTION 'tenant_id and supplier_id are required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  IF v_status NOT IN ('draft', 'pending_approval', 'approved') THEN
+    RAISE EXCEPTION 'New orders cannot start as %', v_status;
+  END IF;
+
+  -- Only owners (or server-side callers) can create orders that are already approved
+  IF v_status = 'approved' AND v_actor IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = v_actor AND tenant_id = v_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    v_status := 'pending_approval';
+  END IF;
+
+  IF v_standing_order_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM standing_orders WHERE id = v_standing_order_id AND tenant_id = v_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Standing order not found';
+  END IF;
+
+  SELECT COALESCE(settings, '{}'::jsonb) INTO v_settings
+  FROM tenants WHERE id = v_tenant_id;
+
+  -- Normalise the lines and price them
+  CREATE TEMP TABLE _new_order_lines ON COMMIT DROP AS
+  SELECT
+    ordinality AS position,
+    NULLIF(line->>'procurement_item_id', '')::UUID AS procurement_item_id,
+    NULLIF(line->>'code', '') AS code,
+    line->>'name' AS name,
+    (line->>'quantity')::NUMERIC AS quantity,
+    COALESCE(NULLIF(line->>'unit', ''), 'each') AS unit,
+    ROUND((line->>'unit_price')::NUMERIC, 2) AS unit_price,
+    ROUND((line->>'quantity')::NUMERIC * (line->>'unit_price')::NUMERIC, 2) AS total,
+    NULLIF(line->>'xero_item_code', '') AS xero_item_code,
+    NULLIF(line->>'xero_account_code', '') AS xero_account_code,
+    COALESCE(NULLIF(line->>'price_source', ''), 'wholesale') AS price_source,
+    NULLIF(line->>'price_list_id', '')::UUID AS price_list_id,
+    line_tax_rate(v_settings, i.tax_rate, COALESCE(NULLIF(i.category, ''), i.categories[1])) AS tax_rate
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(line, ordinality)
+  LEFT JOIN items i ON i.id = NULLIF(line->>'procurement_item_id', '')::UUID;
+
+  IF EXISTS (SELECT 1 FROM _new_order_lines WHERE name IS NULL OR quantity IS NULL OR quantity <= 0 OR unit_price IS NULL) THEN
+    DROP TABLE _new_order_lines;
+    RAISE EXCEPTION 'Every item needs a name, a quantity above zero and a unit price';
+  END IF;
+
+  -- GST is rounded per line, as Xero does
+  SELECT COALESCE(SUM(total), 0), COALESCE(SUM(ROUND(total * tax_rate / 100, 2)), 0)
+  INTO v_subtotal, v_tax
+  FROM _new_order_lines;
+
+  INSERT INTO orders (
+    tenant_id, supplier_id, customer_id, order_number, order_date, requested_delivery_date,
+    subtotal, tax, delivery_fee, total, status, notes, created_by, approved_by, approved_at,
+    standing_order_id
+  ) VALUES (
+    v_tenant_id,
+    (p_order->>'supplier_id')::UUID,
+    NULLIF(p_order->>'customer_id', '')::UUID,
+    NULLIF(p_order->>'order_number', ''),
+    COALESCE(NULLIF(p_order->>'order_date', '')::DATE, CURRENT_DATE),
+    NULLIF(p_order->>'requested_delivery_date', '')::DATE,
+    v_subtotal,
+    v_tax,
+    v_delivery_fee,
+    v_subtotal + v_tax + v_delivery_fee,
+    v_status,
+    NULLIF(p_order->>'notes', ''),
+    COALESCE(NULLIF(p_order->>'created_by', '')::UUID, v_actor),
+    CASE WHEN v_status = 'approved' THEN COALESCE(NULLIF(p_order->>'approved_by', '')::UUID, v_actor) END,
+    CASE WHEN v_status = 'approved' THEN NOW() END,
+    v_standing_order_id
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, tenant_id, procurement_item_id, code, name, quantity, unit, unit_price, total,
+    tax_rate, tax_amount, xero_item_code, xero_account_code, price_source, price_list_id
+  )
+  SELECT
+    v_order.id, v_tenant_id, procurement_item_id, code, name, quantity, unit, unit_price, total,
+    tax_rate, ROUND(total * tax_rate / 100, 2), xero_item_code, xero_account_code, price_source, price_list_id
+  FROM _new_order_lines
+  ORDER BY position;
+
+  DROP TABLE _new_order_lines;
+
+  INSERT INTO order_events (order_id, tenant_id, event_type, to_status, source, actor_id)
+  VALUES (v_order.id, v_tenant_id, 'created', v_status, COALESCE(p_source, 'app'), v_actor);
+
+  IF p_create_invoice THEN
+    v_terms := customer_payment_terms(v_tenant_id, v_order.customer_id);
+
+    INSERT INTO invoices (
+      tenant_id, supplier_id, order_id, customer_id, invoice_date, due_date,
+      payment_terms, subtotal, tax, total, status, match_status
+    ) VALUES (
+      v_tenant_id, v_order.supplier_id, v_order.id, v_order.customer_id,
+      CURRENT_DATE, payment_due_date(CURRENT_DATE, v_terms),
+      v_terms, v_order.subtotal, v_order.tax, v_order.total, 'pending', 'matched'
+    )
+    RETURNING * INTO v_invoice;
+
+    INSERT INTO invoice_items (
+      invoice_id, tenant_id, procurement_item_id, order_item_id, description, quantity, unit, unit_price, total,
+      tax_rate, tax_amount
+    )
+    SELECT
+      v_invoice.id, v_tenant_id, oi.procurement_item_id, oi.id,
+      CASE WHEN oi.price_source IN ('carton', 'quantity_break') THEN oi.name || ' (' || oi.unit || ')' ELSE oi.name END,
+      oi.quantity, oi.unit, oi.unit_price, oi.total, oi.tax_rate, oi.tax_amount
+    FROM order_items oi
+    WHERE oi.order_id = v_order.id;
+
+    INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+    VALUES (v_order.id, v_tenant_id, 'invoiced', COALESCE(p_source, 'app'), v_actor, 'Invoice ' || v_invoice.invoice_number);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order', to_jsonb(v_order) || jsonb_build_object(
+      'items', (SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::jsonb)
+                FROM order_items oi WHERE oi.order_id = v_order.id)
+    ),
+    'invoice', CASE WHEN p_create_invoice THEN to_jsonb(v_invoice) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+NOTIFY pgrst, 'reload schema';
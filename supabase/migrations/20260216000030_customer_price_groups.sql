@@ -0,0 +1,93 @@
+-- Price groups are set per business
+-- A customer's price group was kept on their users row, which they can update themselves
+-- and which every business they order from shares. It now lives on their link to each
+-- business (customer_suppliers), is set only by that business's owners, and group lists
+-- match it ignoring case, as the app does.
+
+ALTER TABLE public.customer_suppliers
+ADD COLUMN IF NOT EXISTS price_group VARCHAR(100);
+
+COMMENT ON COLUMN public.customer_suppliers.price_group IS 'Customer price group with this business, used to select its group price lists';
+
+-- Groups set so far were set by the customer's own business
+UPDATE customer_suppliers cs
+SET price_group = u.price_group
+FROM users u
+WHERE u.id = cs.customer_id
+  AND u.tenant_id = cs.supplier_tenant_id
+  AND u.price_group IS NOT NULL;
+
+DROP POLICY IF EXISTS "Customers can view own price lists" ON price_lists;
+
+ALTER TABLE public.users DROP COLUMN IF EXISTS price_group;
+
+COMMENT ON COLUMN public.price_lists.price_group IS 'Set for a group list; matches customer_suppliers.price_group, ignoring case';
+
+-- Customers can update their own links (to accept an invitation), but not their group
+CREATE OR REPLACE FUNCTION guard_customer_price_group()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.price_group := NULLIF(TRIM(NEW.price_group), '');
+
+  IF NEW.price_group IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.price_group END)
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid() AND tenant_id = NEW.supplier_tenant_id AND (role = 'owner' OR is_master = true)
+    ) THEN
+    RAISE EXCEPTION 'Only owners can change price groups';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_customer_price_group ON customer_suppliers;
+CREATE TRIGGER guard_customer_price_group
+  BEFORE INSERT OR UPDATE ON customer_suppliers
+  FOR EACH ROW EXECUTE FUNCTION guard_customer_price_group();
+
+-- Set a customer's price group with the business; null clears it
+CREATE OR REPLACE FUNCTION set_customer_price_group(p_tenant_id UUID, p_customer_id UUID, p_price_group TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = p_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can change price groups';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_customer_id AND tenant_id = p_tenant_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM customer_suppliers WHERE customer_id = p_customer_id AND supplier_tenant_id = p_tenant_id
+    ) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO customer_suppliers (customer_id, supplier_tenant_id, status, accepted_at, price_group)
+  VALUES (p_customer_id, p_tenant_id, 'active', NOW(), p_price_group)
+  ON CONFLICT (customer_id, supplier_tenant_id)
+  DO UPDATE SET price_group = EXCLUDED.price_group;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_customer_price_group(UUID, UUID, TEXT) TO authenticated;
+
+-- Customers can read the lists that apply to them so the shop shows their prices
+CREATE POLICY "Customers can view own price lists" ON price_lists
+  FOR SELECT USING (
+    customer_id = auth.uid()
+    OR (
+      price_group IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM customer_suppliers cs
+        WHERE cs.customer_id = auth.uid()
+          AND cs.supplier_tenant_id = price_lists.tenant_id
+          AND cs.status = 'active'
+          AND LOWER(cs.price_group) = LOWER(price_lists.price_group)
+      )
+    )
+  );
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,101 @@
+-- Part-paid and voided invoices
+-- Invoices can be part paid in Xero (20260216000013) and voided or deleted there
+-- (20260216000022). An invoice with any payment against it needs a credit note rather
+-- than a void, and an invoice voided or deleted in Xero is never exported again.
+
+-- Void the live invoice we issued for an order so the order can be edited, cancelled or deleted.
+-- Invoices with any payment against them cannot be voided; they need a credit note.
+CREATE OR REPLACE FUNCTION void_order_invoice(p_order_id UUID, p_reason TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void an invoice';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices
+  WHERE order_id = p_order_id
+    AND direction = 'outbound'
+    AND status NOT IN ('cancelled', 'voided', 'deleted')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This order has no invoice to void';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can void invoices';
+  END IF;
+
+  IF v_invoice.status IN ('paid', 'partially_paid') OR COALESCE(v_invoice.amount_paid, 0) > 0 THEN
+    RAISE EXCEPTION 'Invoice % has payments against it and cannot be voided. Issue a credit note instead.', v_invoice.invoice_number;
+  END IF;
+
+  UPDATE invoices
+  SET status = 'cancelled', voided_at = NOW(), void_reason = p_reason, updated_at = NOW()
+  WHERE id = v_invoice.id;
+
+  INSERT INTO order_events (order_id, tenant_id, event_type, source, actor_id, notes)
+  VALUES (p_order_id, v_invoice.tenant_id, 'invoice_voided', 'app', auth.uid(),
+          'Invoice ' || v_invoice.invoice_number || ' voided: ' || p_reason);
+
+  RETURN v_invoice.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Queue an invoice for export to Xero with the caller's Xero connection. Returns the
+-- open job if the invoice is already queued.
+CREATE OR REPLACE FUNCTION enqueue_xero_sync(p_invoice_id UUID)
+RETURNS xero_sync_jobs AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_job xero_sync_jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = v_invoice.tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can export invoices to Xero';
+  END IF;
+
+  IF COALESCE(v_invoice.direction, 'outbound') = 'inbound' THEN
+    RAISE EXCEPTION 'Supplier invoices are not exported to Xero';
+  END IF;
+
+  IF v_invoice.status IN ('cancelled', 'voided', 'deleted') THEN
+    RAISE EXCEPTION 'Invoice % has been voided', v_invoice.invoice_number;
+  END IF;
+
+  SELECT * INTO v_job FROM xero_sync_jobs
+  WHERE invoice_id = p_invoice_id AND status IN ('queued', 'processing');
+
+  IF FOUND THEN
+    RETURN v_job;
+  END IF;
+
+  INSERT INTO xero_sync_jobs (tenant_id, invoice_id, order_id, requested_by)
+  VALUES (v_invoice.tenant_id, v_invoice.id, v_invoice.order_id, auth.uid())
+  RETURNING * INTO v_job;
+
+  IF v_invoice.xero_invoice_id IS NULL THEN
+    UPDATE invoices
+    SET status = 'pending', export_error = NULL, updated_at = NOW()
+    WHERE id = p_invoice_id;
+  END IF;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,93 @@
+-- Edit an order's lines in one transaction
+-- The app used to delete an order's lines, insert the new ones and then update the
+-- totals as separate requests, so a failure part way left an order with no lines or with
+-- totals that disagreed with them. update_order_items replaces the lines and recomputes
+-- the totals together, with GST worked out here as create_order_with_items does.
+-- Invoiced orders stay locked by enforce_order_item_rules.
+
+CREATE OR REPLACE FUNCTION update_order_items(p_order_id UUID, p_items JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_settings JSONB;
+  v_subtotal NUMERIC;
+  v_tax NUMERIC;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  SELECT COALESCE(settings, '{}'::jsonb) INTO v_settings
+  FROM tenants WHERE id = v_order.tenant_id;
+
+  -- Lines keep their GST rate; new lines take the item's
+  CREATE TEMP TABLE _edited_order_lines ON COMMIT DROP AS
+  SELECT
+    ordinality AS position,
+    NULLIF(line->>'procurement_item_id', '')::UUID AS procurement_item_id,
+    NULLIF(line->>'code', '') AS code,
+    line->>'name' AS name,
+    (line->>'quantity')::NUMERIC AS quantity,
+    COALESCE(NULLIF(line->>'unit', ''), 'each') AS unit,
+    ROUND((line->>'unit_price')::NUMERIC, 2) AS unit_price,
+    ROUND((line->>'quantity')::NUMERIC * (line->>'unit_price')::NUMERIC, 2) AS total,
+    NULLIF(line->>'xero_item_code', '') AS xero_item_code,
+    NULLIF(line->>'xero_account_code', '') AS xero_account_code,
+    COALESCE(NULLIF(line->>'price_source', ''), 'wholesale') AS price_source,
+    NULLIF(line->>'price_list_id', '')::UUID AS price_list_id,
+    COALESCE(
+      NULLIF(line->>'tax_rate', '')::NUMERIC,
+      line_tax_rate(v_settings, i.tax_rate, COALESCE(NULLIF(i.category, ''), i.categories[1]))
+    ) AS tax_rate
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(line, ordinality)
+  LEFT JOIN items i ON i.id = NULLIF(line->>'procurement_item_id', '')::UUID;
+
+  IF EXISTS (SELECT 1 FROM _edited_order_lines WHERE name IS NULL OR quantity IS NULL OR quantity <= 0 OR unit_price IS NULL) THEN
+    DROP TABLE _edited_order_lines;
+    RAISE EXCEPTION 'Every item needs a name, a quantity above zero and a unit price';
+  END IF;
+
+  DELETE FROM order_items WHERE order_id = v_order.id;
+
+  INSERT INTO order_items (
+    order_id, tenant_id, procurement_item_id, code, name, quantity, unit, unit_price, total,
+    tax_rate, tax_amount, xero_item_code, xero_account_code, price_source, price_list_id
+  )
+  SELECT
+    v_order.id, v_order.tenant_id, procurement_item_id, code, name, quantity, unit, unit_price, total,
+    tax_rate, ROUND(total * tax_rate / 100, 2), xero_item_code, xero_account_code, price_source, price_list_id
+  FROM _edited_order_lines
+  ORDER BY position;
+
+  DROP TABLE _edited_order_lines;
+
+  -- GST is rounded per line, as Xero does
+  SELECT COALESCE(SUM(total), 0), COALESCE(SUM(tax_amount), 0)
+  INTO v_subtotal, v_tax
+  FROM order_items
+  WHERE order_id = v_order.id;
+
+  UPDATE orders
+  SET subtotal = v_subtotal,
+      tax = v_tax,
+      total = v_subtotal + v_tax + COALESCE(delivery_fee, 0),
+      updated_at = NOW()
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items', (SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::jsonb)
+              FROM order_items oi WHERE oi.order_id = v_order.id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION update_order_items(UUID, JSONB) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
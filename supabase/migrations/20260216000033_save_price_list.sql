@@ -0,0 +1,95 @@
+-- Save a price list with its item prices in one transaction
+-- The app used to write the list, clear its item prices and insert the new ones as
+-- separate requests, so a failure part way wiped a customer's contract prices.
+-- save_price_list does it all at once.
+
+CREATE OR REPLACE FUNCTION save_price_list(
+  p_tenant_id UUID,
+  p_price_list_id UUID,
+  p_name TEXT,
+  p_customer_id UUID,
+  p_price_group TEXT,
+  p_discount_percent NUMERIC,
+  p_effective_from DATE,
+  p_effective_to DATE,
+  p_is_active BOOLEAN,
+  p_notes TEXT,
+  p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_list price_lists%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid() AND tenant_id = p_tenant_id AND (role = 'owner' OR is_master = true)
+  ) THEN
+    RAISE EXCEPTION 'Only owners can manage price lists';
+  END IF;
+
+  IF COALESCE(TRIM(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Give the price list a name';
+  END IF;
+
+  IF p_customer_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM users WHERE id = p_customer_id AND tenant_id = p_tenant_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM customer_suppliers WHERE customer_id = p_customer_id AND supplier_tenant_id = p_tenant_id
+    ) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS line
+    WHERE (line->>'unit_price') IS NULL
+      OR (line->>'unit_price')::NUMERIC < 0
+      OR NOT EXISTS (
+        SELECT 1 FROM items WHERE id = NULLIF(line->>'item_id', '')::UUID AND tenant_id = p_tenant_id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every item price needs one of your items and a price of zero or more';
+  END IF;
+
+  IF p_price_list_id IS NULL THEN
+    INSERT INTO price_lists (
+      tenant_id, name, customer_id, price_group, discount_percent, effective_from, effective_to, is_active, notes
+    ) VALUES (
+      p_tenant_id, TRIM(p_name), p_customer_id, NULLIF(TRIM(p_price_group), ''), COALESCE(p_discount_percent, 0),
+      p_effective_from, p_effective_to, COALESCE(p_is_active, true), NULLIF(TRIM(p_notes), '')
+    )
+    RETURNING * INTO v_list;
+  ELSE
+    UPDATE price_lists
+    SET name = TRIM(p_name),
+        customer_id = p_customer_id,
+        price_group = NULLIF(TRIM(p_price_group), ''),
+        discount_percent = COALESCE(p_discount_percent, 0),
+        effective_from = p_effective_from,
+        effective_to = p_effective_to,
+        is_active = COALESCE(p_is_active, true),
+        notes = NULLIF(TRIM(p_notes), ''),
+        updated_at = NOW()
+    WHERE id = p_price_list_id AND tenant_id = p_tenant_id
+    RETURNING * INTO v_list;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Price list not found';
+    END IF;
+
+    DELETE FROM price_list_items WHERE price_list_id = v_list.id;
+  END IF;
+
+  INSERT INTO price_list_items (price_list_id, tenant_id, item_id, unit_price)
+  SELECT v_list.id, p_tenant_id, (line->>'item_id')::UUID, ROUND((line->>'unit_price')::NUMERIC, 2)
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS line;
+
+  RETURN to_jsonb(v_list) || jsonb_build_object(
+    'items', (SELECT COALESCE(jsonb_agg(to_jsonb(pli)), '[]'::jsonb)
+              FROM price_list_items pli WHERE pli.price_list_id = v_list.id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_price_list(UUID, UUID, TEXT, UUID, TEXT, NUMERIC, DATE, DATE, BOOLEAN, TEXT, JSONB) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,93 @@
+-- Save a standing order with its lines in one transaction
+-- The app used to write the standing order, clear its lines and insert the new ones as
+-- separate requests, so a failure part way left an empty template for
+-- generate-standing-orders to skip. save_standing_order does it all at once. It runs
+-- as the caller, so the standing order policies still decide who can save what.
+
+CREATE OR REPLACE FUNCTION save_standing_order(
+  p_standing_order_id UUID,
+  p_tenant_id UUID,
+  p_customer_id UUID,
+  p_supplier_id UUID,
+  p_name TEXT,
+  p_delivery_day TEXT,
+  p_interval_weeks INTEGER,
+  p_auto_submit BOOLEAN,
+  p_is_active BOOLEAN,
+  p_next_delivery_date DATE,
+  p_notes TEXT,
+  p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_standing standing_orders%ROWTYPE;
+BEGIN
+  IF COALESCE(TRIM(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Give the standing order a name';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM suppliers WHERE id = p_supplier_id AND tenant_id = p_tenant_id) THEN
+    RAISE EXCEPTION 'Supplier not found';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to the standing order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_items) AS line
+    WHERE (line->>'quantity') IS NULL
+      OR (line->>'quantity')::NUMERIC <= 0
+      OR NOT EXISTS (
+        SELECT 1 FROM items WHERE id = NULLIF(line->>'item_id', '')::UUID AND tenant_id = p_tenant_id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every line needs one of the supplier''s items and a quantity above zero';
+  END IF;
+
+  IF p_standing_order_id IS NULL THEN
+    INSERT INTO standing_orders (
+      tenant_id, customer_id, supplier_id, name, delivery_day, interval_weeks,
+      auto_submit, is_active, next_delivery_date, notes
+    ) VALUES (
+      p_tenant_id, p_customer_id, p_supplier_id, TRIM(p_name), p_delivery_day, p_interval_weeks,
+      p_auto_submit, p_is_active, p_next_delivery_date, NULLIF(TRIM(p_notes), '')
+    )
+    RETURNING * INTO v_standing;
+  ELSE
+    UPDATE standing_orders
+    SET tenant_id = p_tenant_id,
+        customer_id = p_customer_id,
+        supplier_id = p_supplier_id,
+        name = TRIM(p_name),
+        delivery_day = p_delivery_day,
+        interval_weeks = p_interval_weeks,
+        auto_submit = p_auto_submit,
+        is_active = p_is_active,
+        next_delivery_date = p_next_delivery_date,
+        notes = NULLIF(TRIM(p_notes), ''),
+        updated_at = NOW()
+    WHERE id = p_standing_order_id
+    RETURNING * INTO v_standing;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Standing order not found';
+    END IF;
+
+    DELETE FROM standing_order_items WHERE standing_order_id = v_standing.id;
+  END IF;
+
+  INSERT INTO standing_order_items (standing_order_id, tenant_id, item_id, quantity)
+  SELECT v_standing.id, v_standing.tenant_id, (line->>'item_id')::UUID, (line->>'quantity')::NUMERIC
+  FROM jsonb_array_elements(p_items) AS line;
+
+  RETURN to_jsonb(v_standing) || jsonb_build_object(
+    'items', (SELECT COALESCE(jsonb_agg(to_jsonb(soi)), '[]'::jsonb)
+              FROM standing_order_items soi WHERE soi.standing_order_id = v_standing.id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_standing_order(UUID, UUID, UUID, UUID, TEXT, TEXT, INTEGER, BOOLEAN, BOOLEAN, DATE, TEXT, JSONB) TO authenticated;
+
+NOTIFY pgrst, 'reload schema';